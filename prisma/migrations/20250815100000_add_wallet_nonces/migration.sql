@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "WalletNoncePurpose" AS ENUM ('LOGIN', 'LINK');
+
+-- CreateTable
+CREATE TABLE "wallet_nonces" (
+    "id" TEXT NOT NULL,
+    "nonce" VARCHAR(64) NOT NULL,
+    "wallet_address" TEXT NOT NULL,
+    "purpose" "WalletNoncePurpose" NOT NULL,
+    "message" TEXT NOT NULL,
+    "user_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_nonces_nonce_key" ON "wallet_nonces"("nonce");
+
+-- CreateIndex
+CREATE INDEX "wallet_nonces_wallet_address_idx" ON "wallet_nonces"("wallet_address");
+
+-- AddForeignKey
+ALTER TABLE "wallet_nonces" ADD CONSTRAINT "wallet_nonces_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
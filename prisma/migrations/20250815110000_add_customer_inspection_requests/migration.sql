@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "CustomerInspectionStatus" AS ENUM ('NOT_STARTED', 'IN_PROGRESS', 'ON_HOLD', 'AWAITING_APPROVAL', 'DONE');
+
+-- CreateTable
+CREATE TABLE "customer_inspection_requests" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "admin_assignee_id" TEXT,
+    "inspection_branch_city_id" TEXT NOT NULL,
+    "vehicle_plate_number" VARCHAR(255) NOT NULL,
+    "vehicle_brand" TEXT,
+    "vehicle_model" TEXT,
+    "vehicle_year" INTEGER,
+    "preferred_schedule" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "status" "CustomerInspectionStatus" NOT NULL DEFAULT 'NOT_STARTED',
+    "inspection_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_inspection_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_inspection_requests_inspection_id_key" ON "customer_inspection_requests"("inspection_id");
+
+-- CreateIndex
+CREATE INDEX "customer_inspection_requests_customer_id_idx" ON "customer_inspection_requests"("customer_id");
+
+-- CreateIndex
+CREATE INDEX "customer_inspection_requests_status_idx" ON "customer_inspection_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "customer_inspection_requests_admin_assignee_id_idx" ON "customer_inspection_requests"("admin_assignee_id");
+
+-- AddForeignKey
+ALTER TABLE "customer_inspection_requests" ADD CONSTRAINT "customer_inspection_requests_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_inspection_requests" ADD CONSTRAINT "customer_inspection_requests_admin_assignee_id_fkey" FOREIGN KEY ("admin_assignee_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_inspection_requests" ADD CONSTRAINT "customer_inspection_requests_inspection_branch_city_id_fkey" FOREIGN KEY ("inspection_branch_city_id") REFERENCES "inspection_branch_city"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_inspection_requests" ADD CONSTRAINT "customer_inspection_requests_inspection_id_fkey" FOREIGN KEY ("inspection_id") REFERENCES "inspections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,98 @@
+-- CreateEnum
+CREATE TYPE "VehicleClass" AS ENUM ('LCGC', 'REGULAR', 'EXTRA', 'LUXURY', 'EU_US_SMALL', 'EU_US_MEDIUM', 'EU_US_HIGH_END', 'HYBRID', 'EV');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'PAID', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "inspection_prices" (
+    "id" TEXT NOT NULL,
+    "vehicle_class" "VehicleClass" NOT NULL,
+    "inspection_branch_city_id" TEXT,
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'IDR',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inspection_prices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "orders" (
+    "id" TEXT NOT NULL,
+    "customer_inspection_request_id" TEXT,
+    "inspection_id" TEXT,
+    "inspection_branch_city_id" TEXT NOT NULL,
+    "inspection_price_id" TEXT,
+    "vehicle_class" "VehicleClass" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'IDR',
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "paid_at" TIMESTAMP(3),
+    "refunded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "reference" VARCHAR(255) NOT NULL,
+    "payment_url" TEXT,
+    "amount" INTEGER NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "paid_at" TIMESTAMP(3),
+    "refunded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inspection_prices_vehicle_class_inspection_branch_city_id_key" ON "inspection_prices"("vehicle_class", "inspection_branch_city_id");
+
+-- CreateIndex
+-- Only one default (branch-less) price per vehicle class; NULLs are distinct in the unique index above
+CREATE UNIQUE INDEX "inspection_prices_default_vehicle_class_key" ON "inspection_prices"("vehicle_class") WHERE "inspection_branch_city_id" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_customer_inspection_request_id_key" ON "orders"("customer_inspection_request_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_inspection_id_key" ON "orders"("inspection_id");
+
+-- CreateIndex
+CREATE INDEX "orders_status_idx" ON "orders"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_provider_reference_key" ON "payments"("provider", "reference");
+
+-- CreateIndex
+CREATE INDEX "payments_order_id_idx" ON "payments"("order_id");
+
+-- CreateIndex
+CREATE INDEX "payments_status_paid_at_idx" ON "payments"("status", "paid_at");
+
+-- AddForeignKey
+ALTER TABLE "inspection_prices" ADD CONSTRAINT "inspection_prices_inspection_branch_city_id_fkey" FOREIGN KEY ("inspection_branch_city_id") REFERENCES "inspection_branch_city"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_customer_inspection_request_id_fkey" FOREIGN KEY ("customer_inspection_request_id") REFERENCES "customer_inspection_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_inspection_id_fkey" FOREIGN KEY ("inspection_id") REFERENCES "inspections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_inspection_branch_city_id_fkey" FOREIGN KEY ("inspection_branch_city_id") REFERENCES "inspection_branch_city"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_inspection_price_id_fkey" FOREIGN KEY ("inspection_price_id") REFERENCES "inspection_prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "customer_vehicles" (
+    "id" TEXT NOT NULL,
+    "customer_id" TEXT NOT NULL,
+    "plate_number" VARCHAR(255) NOT NULL,
+    "vehicle_brand" TEXT,
+    "vehicle_model" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_vehicles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_vehicles_plate_number_key" ON "customer_vehicles"("plate_number");
+
+-- CreateIndex
+CREATE INDEX "customer_vehicles_customer_id_idx" ON "customer_vehicles"("customer_id");
+
+-- AddForeignKey
+ALTER TABLE "customer_vehicles" ADD CONSTRAINT "customer_vehicles_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('USER_CREATED', 'USER_UPDATED', 'USER_ROLE_UPDATED', 'USER_DELETED', 'INSPECTOR_PIN_GENERATED', 'BRANCH_CITY_CREATED', 'BRANCH_CITY_UPDATED', 'BRANCH_CITY_DELETED', 'BRANCH_CITY_TOGGLED', 'INSPECTION_DEACTIVATED', 'INSPECTION_ACTIVATED', 'INSPECTION_PERMANENTLY_DELETED', 'INSPECTION_REVERTED_TO_REVIEW', 'INSPECTION_REVERTED_TO_APPROVED', 'ORDER_PAYMENT_REFUNDED', 'CUSTOMER_VEHICLE_LINKED', 'CUSTOMER_VEHICLE_UNLINKED');
+
+-- CreateEnum
+CREATE TYPE "AuditTargetType" AS ENUM ('USER', 'INSPECTION', 'INSPECTION_BRANCH_CITY', 'ORDER', 'CUSTOMER_VEHICLE');
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "actor_id" TEXT,
+    "actor_role" "Role",
+    "action" "AuditAction" NOT NULL,
+    "target_type" "AuditTargetType" NOT NULL,
+    "target_id" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "ip_address" VARCHAR(45),
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_created_at_idx" ON "audit_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actor_id_created_at_idx" ON "audit_logs"("actor_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_created_at_idx" ON "audit_logs"("action", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_target_type_target_id_idx" ON "audit_logs"("target_type", "target_id");
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
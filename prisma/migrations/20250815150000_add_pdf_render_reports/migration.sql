@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "inspections" ADD COLUMN     "pdf_render_report" JSONB,
+ADD COLUMN     "pdf_render_report_no_docs" JSONB;
@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE 'IPFS_VERIFICATION';
+
+-- CreateEnum
+CREATE TYPE "PdfVariant" AS ENUM ('FULL', 'NO_DOCS');
+
+-- CreateEnum
+CREATE TYPE "IpfsContentStatus" AS ENUM ('VERIFIED', 'REPINNED', 'MISSING', 'HASH_MISMATCH');
+
+-- CreateTable
+CREATE TABLE "ipfs_content_checks" (
+    "id" TEXT NOT NULL,
+    "inspection_id" TEXT NOT NULL,
+    "variant" "PdfVariant" NOT NULL,
+    "cid" VARCHAR(255) NOT NULL,
+    "status" "IpfsContentStatus" NOT NULL,
+    "repinned_on" TEXT[],
+    "last_error" TEXT,
+    "checked_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ipfs_content_checks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ipfs_content_checks_status_idx" ON "ipfs_content_checks"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ipfs_content_checks_inspection_id_variant_key" ON "ipfs_content_checks"("inspection_id", "variant");
+
+-- AddForeignKey
+ALTER TABLE "ipfs_content_checks" ADD CONSTRAINT "ipfs_content_checks_inspection_id_fkey" FOREIGN KEY ("inspection_id") REFERENCES "inspections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
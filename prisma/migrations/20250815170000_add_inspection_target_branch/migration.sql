@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "inspection_targets_period_targetDate_key";
+
+-- AlterTable
+ALTER TABLE "inspection_targets" ADD COLUMN     "branch_city_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inspection_targets_period_targetDate_branch_city_id_key" ON "inspection_targets"("period", "targetDate", "branch_city_id");
+
+-- AddForeignKey
+ALTER TABLE "inspection_targets" ADD CONSTRAINT "inspection_targets_branch_city_id_fkey" FOREIGN KEY ("branch_city_id") REFERENCES "inspection_branch_city"("id") ON DELETE CASCADE ON UPDATE CASCADE;
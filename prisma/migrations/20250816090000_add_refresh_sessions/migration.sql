@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'USER_SESSIONS_REVOKED';
+
+-- DropIndex
+DROP INDEX "users_refreshToken_key";
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "refreshToken";
+
+-- CreateTable
+CREATE TABLE "refresh_sessions" (
+    "id" TEXT NOT NULL,
+    "family_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "authenticated_at" TIMESTAMP(3) NOT NULL,
+    "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "rotated_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refresh_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refresh_sessions_token_hash_key" ON "refresh_sessions"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "refresh_sessions_user_id_idx" ON "refresh_sessions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "refresh_sessions_family_id_idx" ON "refresh_sessions"("family_id");
+
+-- AddForeignKey
+ALTER TABLE "refresh_sessions" ADD CONSTRAINT "refresh_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'USER_LOGIN_UNLOCKED';
+
+-- CreateTable
+CREATE TABLE "login_attempts" (
+    "key" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "last_failure_at" TIMESTAMP(3) NOT NULL,
+    "locked_until" TIMESTAMP(3),
+
+    CONSTRAINT "login_attempts_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "login_attempts_last_failure_at_idx" ON "login_attempts"("last_failure_at");
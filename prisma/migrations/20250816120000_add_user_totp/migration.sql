@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "totp_enabled_at" TIMESTAMP(3),
+ADD COLUMN     "totp_last_used_step" INTEGER,
+ADD COLUMN     "totp_recovery_codes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "totp_secret" TEXT;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ApiKeyScope" AS ENUM ('INSPECTORS_READ', 'INSPECTIONS_READ', 'CHANGELOG_READ');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'API_KEY_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE 'API_KEY_REVOKED';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'API_KEY';
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" VARCHAR(16) NOT NULL,
+    "key_hash" VARCHAR(64) NOT NULL,
+    "scopes" "ApiKeyScope"[],
+    "rate_limit_per_minute" INTEGER NOT NULL,
+    "monthly_quota" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3),
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "api_key_usage" (
+    "api_key_id" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "rejected" INTEGER NOT NULL DEFAULT 0,
+    "last_request_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_key_usage_pkey" PRIMARY KEY ("api_key_id","period")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_prefix_key" ON "api_keys"("prefix");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "api_keys_user_id_idx" ON "api_keys"("user_id");
+
+-- CreateIndex
+CREATE INDEX "api_key_usage_period_idx" ON "api_key_usage"("period");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_key_usage" ADD CONSTRAINT "api_key_usage_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "api_keys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
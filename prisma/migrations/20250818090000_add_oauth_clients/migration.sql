@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'OAUTH_CLIENT_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE 'OAUTH_CLIENT_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE 'OAUTH_CLIENT_SECRET_ROTATED';
+ALTER TYPE "AuditAction" ADD VALUE 'OAUTH_CLIENT_DELETED';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'OAUTH_CLIENT';
+
+-- CreateTable
+CREATE TABLE "oauth_clients" (
+    "id" TEXT NOT NULL,
+    "client_id" VARCHAR(64) NOT NULL,
+    "secret_hash" VARCHAR(64) NOT NULL,
+    "name" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "allowed_branch_ids" TEXT[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "oauth_clients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "oauth_access_tokens" (
+    "id" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oauth_access_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_clients_client_id_key" ON "oauth_clients"("client_id");
+
+-- CreateIndex
+CREATE INDEX "oauth_access_tokens_client_id_idx" ON "oauth_access_tokens"("client_id");
+
+-- AddForeignKey
+ALTER TABLE "oauth_access_tokens" ADD CONSTRAINT "oauth_access_tokens_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "oauth_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "Permission" AS ENUM ('INSPECTIONS_READ', 'INSPECTIONS_REVIEW', 'DASHBOARD_READ', 'DASHBOARD_ANALYTICS_READ', 'INSPECTION_TARGETS_MANAGE');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'ROLE_PERMISSIONS_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE 'USER_BRANCH_SCOPES_UPDATED';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'ROLE';
+
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "role" "Role" NOT NULL,
+    "permission" "Permission" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("role","permission")
+);
+
+-- CreateTable
+CREATE TABLE "user_branch_scopes" (
+    "user_id" TEXT NOT NULL,
+    "branch_city_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_branch_scopes_pkey" PRIMARY KEY ("user_id","branch_city_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "user_branch_scopes" ADD CONSTRAINT "user_branch_scopes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_branch_scopes" ADD CONSTRAINT "user_branch_scopes_branch_city_id_fkey" FOREIGN KEY ("branch_city_id") REFERENCES "inspection_branch_city"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default mapping: what the routes allowed by role before permissions existed
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'INSPECTIONS_READ'),
+    ('ADMIN', 'INSPECTIONS_REVIEW'),
+    ('ADMIN', 'DASHBOARD_READ'),
+    ('ADMIN', 'DASHBOARD_ANALYTICS_READ'),
+    ('ADMIN', 'INSPECTION_TARGETS_MANAGE'),
+    ('REVIEWER', 'INSPECTIONS_READ'),
+    ('REVIEWER', 'INSPECTIONS_REVIEW'),
+    ('REVIEWER', 'DASHBOARD_READ');
@@ -0,0 +1,29 @@
+-- AlterEnum
+ALTER TYPE "Permission" ADD VALUE 'INSPECTIONS_ASSIGN';
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'INSPECTION_REVIEW_ASSIGNED';
+ALTER TYPE "AuditAction" ADD VALUE 'INSPECTION_REVIEW_RELEASED';
+
+-- CreateTable
+CREATE TABLE "inspection_review_claims" (
+    "inspection_id" TEXT NOT NULL,
+    "reviewer_id" TEXT NOT NULL,
+    "assigned_by_id" TEXT,
+    "claimed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3),
+
+    CONSTRAINT "inspection_review_claims_pkey" PRIMARY KEY ("inspection_id")
+);
+
+-- CreateIndex
+CREATE INDEX "inspection_review_claims_reviewer_id_idx" ON "inspection_review_claims"("reviewer_id");
+
+-- AddForeignKey
+ALTER TABLE "inspection_review_claims" ADD CONSTRAINT "inspection_review_claims_inspection_id_fkey" FOREIGN KEY ("inspection_id") REFERENCES "inspections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_review_claims" ADD CONSTRAINT "inspection_review_claims_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_review_claims" ADD CONSTRAINT "inspection_review_claims_assigned_by_id_fkey" FOREIGN KEY ("assigned_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Admins assign reviews by default. Separate from the enum change, as a new
+-- enum value cannot be used in the transaction adding it.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'INSPECTIONS_ASSIGN');
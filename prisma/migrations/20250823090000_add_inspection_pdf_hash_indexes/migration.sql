@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "inspections_pdf_file_hash_idx" ON "inspections"("pdf_file_hash");
+
+-- CreateIndex
+CREATE INDEX "inspections_pdf_file_hash_no_docs_idx" ON "inspections"("pdf_file_hash_no_docs");
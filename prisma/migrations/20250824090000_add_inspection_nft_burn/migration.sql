@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "NftBurnStatus" AS ENUM ('PENDING', 'SUBMITTED', 'BURNED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE 'NFT_BURN';
+
+-- AlterTable
+ALTER TABLE "inspections" ADD COLUMN     "deletion_requested_at" TIMESTAMP(3),
+ADD COLUMN     "nft_burn_status" "NftBurnStatus",
+ADD COLUMN     "nft_burn_tx_hash" VARCHAR(255),
+ADD COLUMN     "nft_burned_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inspections_nft_burn_tx_hash_key" ON "inspections"("nft_burn_tx_hash");
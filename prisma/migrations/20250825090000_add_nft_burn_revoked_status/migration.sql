@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "NftBurnStatus" ADD VALUE 'REVOKED';
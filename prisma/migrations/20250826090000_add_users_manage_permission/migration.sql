@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "Permission" ADD VALUE 'USERS_MANAGE';
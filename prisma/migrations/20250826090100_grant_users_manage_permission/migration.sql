@@ -0,0 +1,5 @@
+-- Default mapping: what the routes allowed by role before the permission
+-- existed. Separate from the enum change, as a new enum value cannot be used
+-- in the transaction adding it.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'USERS_MANAGE');
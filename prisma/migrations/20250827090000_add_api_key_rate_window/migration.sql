@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN     "rate_window_requests" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rate_window_started_at" TIMESTAMP(3);
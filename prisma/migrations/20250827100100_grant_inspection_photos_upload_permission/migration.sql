@@ -0,0 +1,7 @@
+-- Default mapping: the roles that could upload photos before the permission
+-- existed. Separate from the enum change, as a new enum value cannot be used
+-- in the transaction adding it.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'INSPECTION_PHOTOS_UPLOAD'),
+    ('REVIEWER', 'INSPECTION_PHOTOS_UPLOAD'),
+    ('INSPECTOR', 'INSPECTION_PHOTOS_UPLOAD');
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'FAILED';
+ALTER TYPE "PaymentStatus" ADD VALUE 'CANCELLED';
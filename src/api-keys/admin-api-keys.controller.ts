@@ -0,0 +1,137 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: admin-api-keys.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Admin endpoints for Public API keys: usage report across all
+ * developers, changing the rate limit, quota, scopes or expiry of a key, and
+ * revoking keys.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audit } from '../audit-logs/audit.decorator';
+import { ApiKeysService } from './api-keys.service';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { AdminApiKeyUsageQueryDto } from './dto/api-key-usage-query.dto';
+import {
+  ApiKeyResponseDto,
+  ApiKeyUsageResponseDto,
+} from './dto/api-key-response.dto';
+
+@ApiTags('API Keys (Admin)')
+@ApiBearerAuth('JwtAuthGuard')
+@Controller('admin/api-keys')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPERADMIN)
+export class AdminApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * Usage report of all API keys (or those of one developer) in a month.
+   *
+   * @param query - The month and optional developer to report.
+   * @returns {Promise<ApiKeyUsageResponseDto[]>} Usage per key, grouped by developer.
+   */
+  @Get('usage')
+  @ApiOperation({ summary: 'API key usage report (Admin Only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Requests, rejections and remaining quota per key.',
+    type: [ApiKeyUsageResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  async getUsage(
+    @Query() query: AdminApiKeyUsageQueryDto,
+  ): Promise<ApiKeyUsageResponseDto[]> {
+    const period = query.period ?? this.apiKeysService.currentPeriod();
+    const records = await this.apiKeysService.getUsage(period, query.userId);
+    return records.map((record) => new ApiKeyUsageResponseDto(record, period));
+  }
+
+  /**
+   * Changes the rate limit, monthly quota, scopes or expiry of an API key.
+   *
+   * @param id - The key ID.
+   * @param dto - The fields to change.
+   * @returns {Promise<ApiKeyResponseDto>} The updated key.
+   */
+  @Patch(':id')
+  @Audit(AuditAction.API_KEY_UPDATED, AuditTargetType.API_KEY)
+  @ApiOperation({ summary: 'Update the limits of an API key (Admin Only)' })
+  @ApiParam({ name: 'id', description: 'API key ID', format: 'uuid' })
+  @ApiBody({ type: UpdateApiKeyDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'API key updated.',
+    type: ApiKeyResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'API key not found.',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateApiKeyDto,
+  ): Promise<ApiKeyResponseDto> {
+    return new ApiKeyResponseDto(await this.apiKeysService.update(id, dto));
+  }
+
+  /**
+   * Revokes any API key.
+   *
+   * @param id - The key ID.
+   */
+  @Delete(':id')
+  @Audit(AuditAction.API_KEY_REVOKED, AuditTargetType.API_KEY)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an API key (Admin Only)' })
+  @ApiParam({ name: 'id', description: 'API key ID', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Revoked.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'API key not found or already revoked.',
+  })
+  async revoke(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.apiKeysService.revoke(id);
+  }
+}
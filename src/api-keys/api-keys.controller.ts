@@ -0,0 +1,184 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-keys.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Self-service endpoints for DEVELOPER users to issue, list and
+ * revoke their Public API keys and to follow their usage.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyUsageQueryDto } from './dto/api-key-usage-query.dto';
+import {
+  ApiKeyCreatedResponseDto,
+  ApiKeyResponseDto,
+  ApiKeyUsageResponseDto,
+} from './dto/api-key-response.dto';
+
+@ApiTags('API Keys (Developer)')
+@ApiBearerAuth('JwtAuthGuard')
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.DEVELOPER)
+export class ApiKeysController {
+  private readonly logger = new Logger(ApiKeysController.name);
+
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * Issues a new API key for the current developer.
+   *
+   * @param userId - The ID of the authenticated developer.
+   * @param dto - Name, scopes and optional expiry of the key.
+   * @returns {Promise<ApiKeyCreatedResponseDto>} The key, including its secret (shown once).
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Issue an API key',
+    description:
+      'Creates a Public API key. The key is returned only in this response; send it in the X-API-Key header.',
+  })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'API key issued.',
+    type: ApiKeyCreatedResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input or too many active keys.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not a developer.',
+  })
+  async create(
+    @GetUser('id') userId: string,
+    @Body() dto: CreateApiKeyDto,
+  ): Promise<ApiKeyCreatedResponseDto> {
+    this.logger.log(`Developer ${userId} requests a new API key`);
+    const { apiKey, key } = await this.apiKeysService.create(userId, dto);
+    return new ApiKeyCreatedResponseDto(apiKey, key);
+  }
+
+  /**
+   * Lists the API keys of the current developer.
+   *
+   * @param userId - The ID of the authenticated developer.
+   * @returns {Promise<ApiKeyResponseDto[]>} The keys, newest first.
+   */
+  @Get()
+  @ApiOperation({ summary: 'List my API keys' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'API keys, including revoked and expired ones.',
+    type: [ApiKeyResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not a developer.',
+  })
+  async findAll(@GetUser('id') userId: string): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeysService.findAllForUser(userId);
+    return apiKeys.map((apiKey) => new ApiKeyResponseDto(apiKey));
+  }
+
+  /**
+   * Usage of the API keys of the current developer in a month.
+   *
+   * @param userId - The ID of the authenticated developer.
+   * @param query - The month to report.
+   * @returns {Promise<ApiKeyUsageResponseDto[]>} Usage per key.
+   */
+  @Get('usage')
+  @ApiOperation({ summary: 'Usage of my API keys' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Requests, rejections and remaining quota per key.',
+    type: [ApiKeyUsageResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not a developer.',
+  })
+  async getUsage(
+    @GetUser('id') userId: string,
+    @Query() query: ApiKeyUsageQueryDto,
+  ): Promise<ApiKeyUsageResponseDto[]> {
+    const period = query.period ?? this.apiKeysService.currentPeriod();
+    const records = await this.apiKeysService.getUsage(period, userId);
+    return records.map((record) => new ApiKeyUsageResponseDto(record, period));
+  }
+
+  /**
+   * Revokes an API key of the current developer.
+   *
+   * @param id - The key ID.
+   * @param userId - The ID of the authenticated developer.
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke one of my API keys' })
+  @ApiParam({ name: 'id', description: 'API key ID', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Revoked.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Not a developer.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'API key not found or already revoked.',
+  })
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+  ): Promise<void> {
+    await this.apiKeysService.revoke(id, userId);
+  }
+}
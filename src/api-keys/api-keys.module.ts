@@ -0,0 +1,24 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-keys.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for Public API keys. Provides the developer and
+ * admin endpoints, and exports ApiKeysService and ApiKeyGuard for the Public
+ * API routes.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { AdminApiKeysController } from './admin-api-keys.controller';
+import { ApiKeyGuard } from './guards/api-key.guard';
+
+@Module({
+  controllers: [ApiKeysController, AdminApiKeysController],
+  providers: [ApiKeysService, ApiKeyGuard],
+  exports: [ApiKeysService, ApiKeyGuard],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,130 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-keys.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for ApiKeysService: hashed storage of issued keys,
+ * authentication of revoked/expired/foreign keys, and the per-minute rate
+ * limit and monthly quota counted in the database.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKey, ApiKeyScope, Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  const prisma = {
+    apiKey: {
+      count: jest.fn(),
+      create: jest.fn((args: Prisma.ApiKeyCreateArgs) =>
+        Promise.resolve({ id: 'key-1', ...args.data, usage: [] }),
+      ),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    apiKeyUsage: { upsert: jest.fn() },
+    $queryRaw: jest.fn(),
+  };
+
+  const apiKey = (overrides: Partial<ApiKey> = {}): ApiKey =>
+    ({
+      id: 'key-1',
+      userId: 'dev-1',
+      prefix: 'cdk_0123456789ab',
+      scopes: [ApiKeyScope.INSPECTIONS_READ],
+      rateLimitPerMinute: 2,
+      monthlyQuota: 100,
+      expiresAt: null,
+      lastUsedAt: new Date(),
+      revokedAt: null,
+      ...overrides,
+    }) as ApiKey;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  it('stores only the hash of an issued key', async () => {
+    prisma.apiKey.count.mockResolvedValue(0);
+
+    const { key } = await service.create('dev-1', {
+      name: 'Dealer portal',
+      scopes: [ApiKeyScope.INSPECTIONS_READ],
+    });
+
+    const [args] = prisma.apiKey.create.mock.calls[0];
+    expect(key.startsWith(`${args.data.prefix}_`)).toBe(true);
+    expect(args.data.keyHash).toHaveLength(64);
+    expect(JSON.stringify(args.data)).not.toContain(key);
+    expect(args.data.monthlyQuota).toBe(10000);
+  });
+
+  it.each([
+    ['revoked', { revokedAt: new Date() }, Role.DEVELOPER],
+    ['expired', { expiresAt: new Date(Date.now() - 1000) }, Role.DEVELOPER],
+    ['owned by a non-developer', {}, Role.CUSTOMER],
+  ])('rejects a key that is %s', async (_, overrides, role) => {
+    prisma.apiKey.findUnique.mockResolvedValue({
+      ...apiKey(overrides),
+      user: { isActive: true, role },
+    });
+
+    await expect(service.authenticate('cdk_x_y')).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects requests over the rate limit with 429', async () => {
+    const startedAt = new Date();
+    // The guarded window update returns no row when the limit is reached
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ startedAt }])
+      .mockResolvedValueOnce([{ requests: 1 }])
+      .mockResolvedValueOnce([]);
+    prisma.apiKey.findUnique.mockResolvedValue({
+      rateLimitPerMinute: 2,
+      rateWindowStartedAt: startedAt,
+    });
+    const key = apiKey();
+
+    await expect(service.consume(key)).resolves.toEqual({
+      limit: 100,
+      remaining: 99,
+    });
+    await expect(service.consume(key)).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+      message: expect.stringContaining(
+        'Rate limit of 2 requests per minute exceeded',
+      ) as string,
+    });
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(3);
+    expect(prisma.apiKeyUsage.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects requests once the monthly quota is used up', async () => {
+    // The guarded upsert returns no row when the quota is reached
+    prisma.$queryRaw
+      .mockResolvedValueOnce([{ startedAt: new Date() }])
+      .mockResolvedValueOnce([]);
+
+    await expect(service.consume(apiKey())).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(prisma.apiKeyUsage.upsert).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,347 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-keys.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service managing Public API keys of DEVELOPER users: issuing
+ * (only a SHA-256 hash of the key is stored), listing, revoking and updating
+ * keys, authenticating requests, and metering them against the per-key rate
+ * limit (per minute) and monthly quota. Both are counted in the database, so
+ * they hold across instances. Usage is counted per calendar month.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKey, ApiKeyUsage, Prisma, Role, User } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+
+/**
+ * Request header carrying the API key.
+ */
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * An API key with its usage in the current month.
+ */
+export type ApiKeyWithUsage = ApiKey & { usage: ApiKeyUsage[] };
+
+/**
+ * An API key with its owner and its usage in the reported month.
+ */
+export type ApiKeyUsageRecord = ApiKeyWithUsage & {
+  user: Pick<User, 'id' | 'email' | 'username' | 'name'>;
+};
+
+// `lastUsedAt` is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60_000;
+// Length of the fixed window of the per-minute rate limit
+const RATE_WINDOW_MS = 60_000;
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Issues a new API key. The key is only returned here; afterwards it can
+   * only be identified by its prefix.
+   *
+   * @param {string} userId - The developer the key belongs to.
+   * @param {CreateApiKeyDto} dto - Name, scopes and optional expiry.
+   * @returns {Promise<{ apiKey: ApiKeyWithUsage; key: string }>} The stored key and the plaintext key.
+   * @throws {BadRequestException} If the expiry is in the past or the developer has too many active keys.
+   */
+  async create(
+    userId: string,
+    dto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKeyWithUsage; key: string }> {
+    const now = new Date();
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= now) {
+      throw new BadRequestException('expiresAt must be in the future.');
+    }
+
+    const maxKeys = Number(
+      this.config.get<string>('API_KEY_MAX_PER_USER') ?? 10,
+    );
+    const activeKeys = await this.prisma.apiKey.count({
+      where: { userId, ...this.activeWhere(now) },
+    });
+    if (activeKeys >= maxKeys) {
+      throw new BadRequestException(
+        `You can have at most ${maxKeys} active API keys. Revoke one first.`,
+      );
+    }
+
+    const prefix = `cdk_${randomBytes(6).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(24).toString('base64url')}`;
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: dto.name,
+        prefix,
+        keyHash: this.hashKey(key),
+        scopes: [...new Set(dto.scopes)],
+        rateLimitPerMinute: Number(
+          this.config.get<string>('API_KEY_DEFAULT_RATE_LIMIT_PER_MINUTE') ??
+            60,
+        ),
+        monthlyQuota: Number(
+          this.config.get<string>('API_KEY_DEFAULT_MONTHLY_QUOTA') ?? 10000,
+        ),
+        expiresAt,
+      },
+      include: { usage: { where: { period: this.period(now) } } },
+    });
+    this.logger.log(`API key ${prefix} issued to user ${userId}`);
+    return { apiKey, key };
+  }
+
+  /**
+   * Lists the API keys of a developer, newest first, with their usage this month.
+   *
+   * @param {string} userId - The developer.
+   * @returns {Promise<ApiKeyWithUsage[]>} The keys, including revoked and expired ones.
+   */
+  async findAllForUser(userId: string): Promise<ApiKeyWithUsage[]> {
+    return this.prisma.apiKey.findMany({
+      where: { userId },
+      include: { usage: { where: { period: this.period(new Date()) } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revokes an API key; requests made with it are rejected from then on.
+   *
+   * @param {string} id - The key ID.
+   * @param {string} [userId] - Restricts the lookup to the keys of this developer.
+   * @throws {NotFoundException} If the key does not exist (for this developer) or is already revoked.
+   */
+  async revoke(id: string, userId?: string): Promise<void> {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { id, revokedAt: null, ...(userId && { userId }) },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`API key with ID "${id}" not found.`);
+    }
+    this.logger.log(`API key ${id} revoked`);
+  }
+
+  /**
+   * Changes the limits, scopes or expiry of an API key (admin).
+   *
+   * @param {string} id - The key ID.
+   * @param {UpdateApiKeyDto} dto - The fields to change.
+   * @returns {Promise<ApiKeyWithUsage>} The updated key.
+   * @throws {NotFoundException} If the key does not exist.
+   */
+  async update(id: string, dto: UpdateApiKeyDto): Promise<ApiKeyWithUsage> {
+    const existing = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException(`API key with ID "${id}" not found.`);
+    }
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: {
+        rateLimitPerMinute: dto.rateLimitPerMinute,
+        monthlyQuota: dto.monthlyQuota,
+        scopes: dto.scopes && [...new Set(dto.scopes)],
+        expiresAt:
+          dto.expiresAt === undefined
+            ? undefined
+            : dto.expiresAt && new Date(dto.expiresAt),
+      },
+      include: { usage: { where: { period: this.period(new Date()) } } },
+    });
+  }
+
+  /**
+   * Resolves the key sent with a request.
+   *
+   * @param {string} key - The plaintext key from the request header.
+   * @returns {Promise<ApiKey>} The key record.
+   * @throws {UnauthorizedException} If the key is unknown, revoked, expired, or its owner is inactive or no longer a developer.
+   */
+  async authenticate(key: string): Promise<ApiKey> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { user: { select: { isActive: true, role: true } } },
+    });
+    if (
+      !apiKey ||
+      !apiKey.user.isActive ||
+      apiKey.user.role !== Role.DEVELOPER
+    ) {
+      throw new UnauthorizedException('Invalid API key.');
+    }
+    if (apiKey.revokedAt) {
+      throw new UnauthorizedException('API key has been revoked.');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new UnauthorizedException('API key has expired.');
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { user, ...record } = apiKey;
+    return record;
+  }
+
+  /**
+   * Counts a request against the rate limit and the monthly quota of a key.
+   *
+   * @param {ApiKey} apiKey - The authenticated key.
+   * @returns {Promise<{ limit: number; remaining: number }>} The monthly quota and what is left of it.
+   * @throws {HttpException} 429 if the rate limit or the quota is exceeded.
+   */
+  async consume(apiKey: ApiKey): Promise<{ limit: number; remaining: number }> {
+    const now = new Date();
+    const period = this.period(now);
+
+    // Counts the request in the key's fixed one-minute window, starting a new
+    // window once the current one is over (no row: rate limit reached)
+    const windowCutoff = new Date(now.getTime() - RATE_WINDOW_MS);
+    const [window] = await this.prisma.$queryRaw<{ startedAt: Date }[]>`
+      UPDATE "api_keys" SET
+        "rate_window_requests" = CASE
+          WHEN "rate_window_started_at" > ${windowCutoff} THEN "rate_window_requests" + 1
+          ELSE 1 END,
+        "rate_window_started_at" = CASE
+          WHEN "rate_window_started_at" > ${windowCutoff} THEN "rate_window_started_at"
+          ELSE ${now} END
+      WHERE "id" = ${apiKey.id}
+        AND ("rate_window_started_at" IS NULL
+          OR "rate_window_started_at" <= ${windowCutoff}
+          OR "rate_window_requests" < "rate_limit_per_minute")
+      RETURNING "rate_window_started_at" AS "startedAt"`;
+    if (!window) {
+      await this.recordRejected(apiKey.id, period, now);
+      const current = await this.prisma.apiKey.findUnique({
+        where: { id: apiKey.id },
+        select: { rateLimitPerMinute: true, rateWindowStartedAt: true },
+      });
+      const seconds = Math.max(
+        Math.ceil(
+          ((current?.rateWindowStartedAt?.getTime() ?? now.getTime()) +
+            RATE_WINDOW_MS -
+            now.getTime()) /
+            1000,
+        ),
+        1,
+      );
+      throw new HttpException(
+        `Rate limit of ${current?.rateLimitPerMinute ?? apiKey.rateLimitPerMinute} requests per minute exceeded. Try again in ${seconds} seconds.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // Counts the request only while under the quota (no row: quota exhausted)
+    const [usage] = await this.prisma.$queryRaw<{ requests: number }[]>`
+      INSERT INTO "api_key_usage" ("api_key_id", "period", "requests", "last_request_at")
+      SELECT ${apiKey.id}, ${period}, 1, ${now}
+      WHERE ${apiKey.monthlyQuota} > 0
+      ON CONFLICT ("api_key_id", "period") DO UPDATE SET
+        "requests" = "api_key_usage"."requests" + 1,
+        "last_request_at" = ${now}
+      WHERE "api_key_usage"."requests" < ${apiKey.monthlyQuota}
+      RETURNING "requests"`;
+    if (!usage) {
+      await this.recordRejected(apiKey.id, period, now);
+      throw new HttpException(
+        `Monthly quota of ${apiKey.monthlyQuota} requests exceeded.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      await this.prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return {
+      limit: apiKey.monthlyQuota,
+      remaining: Math.max(apiKey.monthlyQuota - usage.requests, 0),
+    };
+  }
+
+  /**
+   * Usage of API keys in a month, for developers (their own keys) and admins.
+   *
+   * @param {string} period - Month as "YYYY-MM" (UTC).
+   * @param {string} [userId] - Only report the keys of this developer.
+   * @returns {Promise<ApiKeyUsageRecord[]>} The keys with their owner and usage of the month.
+   */
+  async getUsage(
+    period: string,
+    userId?: string,
+  ): Promise<ApiKeyUsageRecord[]> {
+    return this.prisma.apiKey.findMany({
+      where: userId ? { userId } : undefined,
+      include: {
+        usage: { where: { period } },
+        user: { select: { id: true, email: true, username: true, name: true } },
+      },
+      orderBy: [{ userId: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * The current usage period.
+   *
+   * @returns {string} The current month as "YYYY-MM" (UTC).
+   */
+  currentPeriod(): string {
+    return this.period(new Date());
+  }
+
+  // --- Helpers ---
+
+  private activeWhere(now: Date): Prisma.ApiKeyWhereInput {
+    return {
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    };
+  }
+
+  private async recordRejected(
+    apiKeyId: string,
+    period: string,
+    now: Date,
+  ): Promise<void> {
+    await this.prisma.apiKeyUsage.upsert({
+      where: { apiKeyId_period: { apiKeyId, period } },
+      create: { apiKeyId, period, rejected: 1, lastRequestAt: now },
+      update: { rejected: { increment: 1 }, lastRequestAt: now },
+    });
+  }
+
+  private period(date: Date): string {
+    return date.toISOString().slice(0, 7);
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
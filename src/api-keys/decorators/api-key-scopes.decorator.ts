@@ -0,0 +1,28 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-key-scopes.decorator.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Custom decorator declaring the API key scopes a Public API
+ * route requires. Read by ApiKeyGuard.
+ * --------------------------------------------------------------------------
+ */
+
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '@prisma/client';
+
+/**
+ * Constant key used by Reflector to store and retrieve the scopes metadata.
+ */
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * `@ApiKeyScopes(...scopes)` decorator factory function.
+ * Attaches the `ApiKeyScope` values a key must all have to the method or class.
+ *
+ * @param {...ApiKeyScope[]} scopes - One or more required scopes.
+ * @example @ApiKeyScopes(ApiKeyScope.INSPECTIONS_READ)
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -0,0 +1,150 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-key-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTOs describing a Public API key (never the key itself, except
+ * once right after it is issued) and its usage in a month.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '@prisma/client';
+import { ApiKeyUsageRecord, ApiKeyWithUsage } from '../api-keys.service';
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: 'c1d2e3f4-a5b6-7890-1234-567890abcdef' })
+  id: string;
+
+  @ApiProperty({ example: 'Dealer website' })
+  name: string;
+
+  /**
+   * Visible start of the key, to tell keys apart.
+   */
+  @ApiProperty({
+    description: 'Visible start of the key',
+    example: 'cdk_3f9a07c2e1b4',
+  })
+  prefix: string;
+
+  @ApiProperty({ enum: ApiKeyScope, isArray: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ description: 'Requests allowed per minute', example: 60 })
+  rateLimitPerMinute: number;
+
+  @ApiProperty({
+    description: 'Requests allowed per calendar month (UTC)',
+    example: 10000,
+  })
+  monthlyQuota: number;
+
+  @ApiProperty({
+    description: 'Requests counted against the quota this month',
+    example: 1234,
+  })
+  requestsThisMonth: number;
+
+  @ApiProperty({ nullable: true, example: '2026-01-01T00:00:00.000Z' })
+  expiresAt: Date | null;
+
+  @ApiProperty({ nullable: true, example: '2025-08-16T08:30:00.000Z' })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ nullable: true, example: null })
+  revokedAt: Date | null;
+
+  @ApiProperty({ example: '2025-08-01T10:00:00.000Z' })
+  createdAt: Date;
+
+  constructor(apiKey: ApiKeyWithUsage) {
+    this.id = apiKey.id;
+    this.name = apiKey.name;
+    this.prefix = apiKey.prefix;
+    this.scopes = apiKey.scopes;
+    this.rateLimitPerMinute = apiKey.rateLimitPerMinute;
+    this.monthlyQuota = apiKey.monthlyQuota;
+    this.requestsThisMonth = apiKey.usage[0]?.requests ?? 0;
+    this.expiresAt = apiKey.expiresAt;
+    this.lastUsedAt = apiKey.lastUsedAt;
+    this.revokedAt = apiKey.revokedAt;
+    this.createdAt = apiKey.createdAt;
+    // Explicitly excluded: keyHash
+  }
+}
+
+export class ApiKeyCreatedResponseDto extends ApiKeyResponseDto {
+  /**
+   * The key to send in the X-API-Key header. Only returned once.
+   */
+  @ApiProperty({
+    description:
+      'The key to send in the X-API-Key header. Store it safely: it is not shown again.',
+    example: 'cdk_3f9a07c2e1b4_Zx8k2...',
+  })
+  key: string;
+
+  constructor(apiKey: ApiKeyWithUsage, key: string) {
+    super(apiKey);
+    this.key = key;
+  }
+}
+
+export class ApiKeyUsageResponseDto {
+  @ApiProperty({ example: 'c1d2e3f4-a5b6-7890-1234-567890abcdef' })
+  apiKeyId: string;
+
+  @ApiProperty({ example: 'Dealer website' })
+  name: string;
+
+  @ApiProperty({ example: 'cdk_3f9a07c2e1b4' })
+  prefix: string;
+
+  @ApiProperty({ description: 'Owner of the key' })
+  user: {
+    id: string;
+    email: string | null;
+    username: string | null;
+    name: string | null;
+  };
+
+  @ApiProperty({
+    description: 'Reported month (YYYY-MM, UTC)',
+    example: '2025-08',
+  })
+  period: string;
+
+  @ApiProperty({ description: 'Accepted requests', example: 1234 })
+  requests: number;
+
+  @ApiProperty({
+    description: 'Requests refused by the rate limit or the quota',
+    example: 12,
+  })
+  rejected: number;
+
+  @ApiProperty({ example: 10000 })
+  monthlyQuota: number;
+
+  @ApiProperty({ description: 'Requests left this month', example: 8766 })
+  remaining: number;
+
+  @ApiProperty({ nullable: true, example: '2025-08-16T08:30:00.000Z' })
+  lastRequestAt: Date | null;
+
+  constructor(record: ApiKeyUsageRecord, period: string) {
+    const usage = record.usage[0];
+    this.apiKeyId = record.id;
+    this.name = record.name;
+    this.prefix = record.prefix;
+    this.user = record.user;
+    this.period = period;
+    this.requests = usage?.requests ?? 0;
+    this.rejected = usage?.rejected ?? 0;
+    this.monthlyQuota = record.monthlyQuota;
+    this.remaining = Math.max(record.monthlyQuota - this.requests, 0);
+    this.lastRequestAt = usage?.lastRequestAt ?? null;
+  }
+}
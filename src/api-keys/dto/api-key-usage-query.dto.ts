@@ -0,0 +1,35 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-key-usage-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Query parameters of the API key usage reports.
+ * --------------------------------------------------------------------------
+ */
+import { IsOptional, IsUUID, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ApiKeyUsageQueryDto {
+  @ApiProperty({
+    description:
+      'Month to report (YYYY-MM, UTC). Defaults to the current month.',
+    example: '2025-08',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, {
+    message: 'period must be a month in YYYY-MM format',
+  })
+  period?: string;
+}
+
+export class AdminApiKeyUsageQueryDto extends ApiKeyUsageQueryDto {
+  @ApiProperty({
+    description: 'Only report the keys of this developer',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+}
@@ -0,0 +1,53 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: create-api-key.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for issuing a Public API key.
+ * --------------------------------------------------------------------------
+ */
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '@prisma/client';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Label to recognize the key, e.g. the application using it',
+    example: 'Dealer website',
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Public API resources the key may read',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.INSPECTIONS_READ],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    description: 'When the key stops working (ISO 8601). Omit for no expiry.',
+    example: '2026-01-01T00:00:00.000Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
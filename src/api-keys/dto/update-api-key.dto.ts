@@ -0,0 +1,67 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-api-key.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for changing the limits, scopes or expiry
+ * of a Public API key (admin only).
+ * --------------------------------------------------------------------------
+ */
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '@prisma/client';
+
+export class UpdateApiKeyDto {
+  @ApiProperty({
+    description: 'Requests allowed per minute',
+    example: 120,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rateLimitPerMinute?: number;
+
+  @ApiProperty({
+    description: 'Requests allowed per calendar month (UTC)',
+    example: 50000,
+    minimum: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  monthlyQuota?: number;
+
+  @ApiProperty({
+    description: 'Public API resources the key may read',
+    enum: ApiKeyScope,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes?: ApiKeyScope[];
+
+  @ApiProperty({
+    description: 'New expiry (ISO 8601), or null to remove it',
+    example: '2026-06-30T00:00:00.000Z',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string | null;
+}
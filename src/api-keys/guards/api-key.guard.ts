@@ -0,0 +1,94 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: api-key.guard.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Guard for Public API routes. A key sent in the X-API-Key header
+ * is authenticated, checked against the scopes of the route (@ApiKeyScopes)
+ * and metered against its rate limit and monthly quota. Requests without a
+ * key are allowed unless PUBLIC_API_REQUIRE_API_KEY is "true".
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { ApiKey, ApiKeyScope } from '@prisma/client';
+import { Request, Response } from 'express';
+import { API_KEY_HEADER, ApiKeysService } from '../api-keys.service';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
+
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+  private readonly keyRequired: boolean;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+    configService: ConfigService,
+  ) {
+    this.keyRequired =
+      configService.get<string>('PUBLIC_API_REQUIRE_API_KEY') === 'true';
+  }
+
+  /**
+   * Authenticates and meters the API key of the request, if any.
+   * The key is attached to `request.apiKey`.
+   *
+   * @param {ExecutionContext} context - Provides access to the request and handler/class metadata.
+   * @returns {Promise<boolean>} True if the request may proceed.
+   * @throws {UnauthorizedException} If the key is missing (when required), invalid, revoked or expired.
+   * @throws {ForbiddenException} If the key lacks a scope required by the route.
+   * @throws {HttpException} 429 if the rate limit or monthly quota of the key is exceeded.
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { apiKey?: ApiKey }>();
+    const key = request.header(API_KEY_HEADER);
+
+    if (!key) {
+      if (this.keyRequired) {
+        throw new UnauthorizedException(
+          'API key required. Send it in the X-API-Key header.',
+        );
+      }
+      return true;
+    }
+
+    const apiKey = await this.apiKeys.authenticate(key);
+
+    const requiredScopes =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(API_KEY_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const missing = requiredScopes.filter(
+      (scope) => !apiKey.scopes.includes(scope),
+    );
+    if (missing.length > 0) {
+      this.logger.warn(
+        `API key ${apiKey.prefix} lacks scope(s) ${missing.join(', ')}`,
+      );
+      throw new ForbiddenException(
+        `API key lacks the required scope(s): ${missing.join(', ')}.`,
+      );
+    }
+
+    const { limit, remaining } = await this.apiKeys.consume(apiKey);
+    const response = http.getResponse<Response>();
+    response.setHeader('X-Quota-Limit', limit);
+    response.setHeader('X-Quota-Remaining', remaining);
+
+    request.apiKey = apiKey;
+    return true;
+  }
+}
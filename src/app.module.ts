@@ -32,6 +32,15 @@ import { InspectionChangeLogModule } from './inspection-change-log/inspection-ch
 import { DashboardModule } from './dashboard/dashboard.module';
 import { IpfsModule } from './ipfs/ipfs.module';
 import { MetricsModule } from './metrics/metrics.module';
+import { JobsModule } from './jobs/jobs.module';
+import { CustomerInspectionRequestsModule } from './customer-inspection-requests/customer-inspection-requests.module';
+import { InspectionPricesModule } from './inspection-prices/inspection-prices.module';
+import { OrdersModule } from './orders/orders.module';
+import { CustomerVehiclesModule } from './customer-vehicles/customer-vehicles.module';
+import { CustomerInspectionsModule } from './customer-inspections/customer-inspections.module';
+import { AuditLogsModule } from './audit-logs/audit-logs.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { PermissionsModule } from './permissions/permissions.module';
 import { MetricsMiddleware } from './metrics/metrics.middleware';
 
 @Module({
@@ -88,6 +97,15 @@ import { MetricsMiddleware } from './metrics/metrics.middleware';
     DashboardModule,
     IpfsModule,
     MetricsModule,
+    JobsModule,
+    CustomerInspectionRequestsModule,
+    InspectionPricesModule,
+    OrdersModule,
+    CustomerVehiclesModule,
+    CustomerInspectionsModule,
+    AuditLogsModule,
+    ApiKeysModule,
+    PermissionsModule,
   ],
   controllers: [],
 })
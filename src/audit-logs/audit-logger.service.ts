@@ -0,0 +1,199 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit-logger.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service writing the audit log of privileged actions.
+ * Used by the AuditInterceptor (@Audit routes) and available to services that
+ * need to record an action themselves. Snapshots never contain secrets
+ * (password, PIN, refresh token).
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  AuditAction,
+  AuditTargetType,
+  Permission,
+  Prisma,
+  Role,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * One privileged action to record.
+ */
+export interface AuditEntry {
+  actorId: string | null;
+  actorRole: Role | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  before?: Prisma.InputJsonValue | null;
+  after?: Prisma.InputJsonValue | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+@Injectable()
+export class AuditLoggerService {
+  private readonly logger = new Logger(AuditLoggerService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Records an action. The action has already happened when this is called,
+   * so a failure to write the log is logged instead of failing the request.
+   *
+   * @param {AuditEntry} entry - The action to record.
+   * @returns {Promise<void>}
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          actorId: entry.actorId,
+          actorRole: entry.actorRole,
+          action: entry.action,
+          targetType: entry.targetType,
+          targetId: entry.targetId,
+          before: entry.before ?? undefined,
+          after: entry.after ?? undefined,
+          ipAddress: entry.ipAddress?.slice(0, 45) ?? null,
+          userAgent: entry.userAgent ?? null,
+        },
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(
+        `Failed to record audit log ${entry.action} on ${entry.targetType} ${entry.targetId ?? '-'} by ${entry.actorId ?? '-'}: ${errorMessage}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+
+  /**
+   * Takes a JSON snapshot of an audited record.
+   *
+   * @param {AuditTargetType} targetType - The kind of record.
+   * @param {string} targetId - The record ID.
+   * @returns {Promise<Prisma.InputJsonValue | null>} The snapshot, or null if the record does not exist.
+   */
+  async snapshot(
+    targetType: AuditTargetType,
+    targetId: string,
+  ): Promise<Prisma.InputJsonValue | null> {
+    const record = await this.findTarget(targetType, targetId);
+    // Round-trip through JSON so dates are stored as ISO strings
+    return record
+      ? (JSON.parse(JSON.stringify(record)) as Prisma.InputJsonValue)
+      : null;
+  }
+
+  private findTarget(
+    targetType: AuditTargetType,
+    id: string,
+  ): Promise<object | null> {
+    switch (targetType) {
+      case AuditTargetType.USER:
+        return this.prisma.user.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            username: true,
+            whatsappNumber: true,
+            walletAddress: true,
+            role: true,
+            isActive: true,
+            inspectionBranchCityId: true,
+            branchScopes: { select: { branchCityId: true } },
+            updatedAt: true,
+          },
+        });
+      case AuditTargetType.ROLE:
+        return this.findRolePermissions(id);
+      case AuditTargetType.INSPECTION:
+        return this.prisma.inspection.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            pretty_id: true,
+            status: true,
+            vehiclePlateNumber: true,
+            inspectorId: true,
+            reviewerId: true,
+            branchCityId: true,
+            urlPdf: true,
+            nftAssetId: true,
+            blockchainTxHash: true,
+            nftBurnStatus: true,
+            nftBurnTxHash: true,
+            deletionRequestedAt: true,
+            archivedAt: true,
+            reviewClaim: {
+              select: { reviewerId: true, assignedById: true, expiresAt: true },
+            },
+            updatedAt: true,
+          },
+        });
+      case AuditTargetType.INSPECTION_BRANCH_CITY:
+        return this.prisma.inspectionBranchCity.findUnique({ where: { id } });
+      case AuditTargetType.ORDER:
+        return this.prisma.order.findUnique({
+          where: { id },
+          include: { payments: true },
+        });
+      case AuditTargetType.CUSTOMER_VEHICLE:
+        return this.prisma.customerVehicle.findUnique({ where: { id } });
+      case AuditTargetType.API_KEY:
+        return this.prisma.apiKey.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            userId: true,
+            name: true,
+            prefix: true,
+            scopes: true,
+            rateLimitPerMinute: true,
+            monthlyQuota: true,
+            expiresAt: true,
+            revokedAt: true,
+          },
+        });
+      case AuditTargetType.OAUTH_CLIENT:
+        return this.prisma.oAuthClient.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            clientId: true,
+            name: true,
+            scopes: true,
+            allowedBranchIds: true,
+            isActive: true,
+          },
+        });
+    }
+  }
+
+  private async findRolePermissions(
+    role: string,
+  ): Promise<{ role: Role; permissions: Permission[] } | null> {
+    // Runs before route pipes, so the role may not be validated yet
+    if (!Object.values(Role).includes(role as Role)) {
+      return null;
+    }
+    const rows = await this.prisma.rolePermission.findMany({
+      where: { role: role as Role },
+      select: { permission: true },
+      orderBy: { permission: 'asc' },
+    });
+    return {
+      role: role as Role,
+      permissions: rows.map((row) => row.permission),
+    };
+  }
+}
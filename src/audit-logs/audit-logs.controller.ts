@@ -0,0 +1,119 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit-logs.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for searching and exporting the audit log of
+ * privileged actions. Restricted to SUPERADMIN.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Controller,
+  Get,
+  Header,
+  HttpStatus,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditLogFilterDto, AuditLogQueryDto } from './dto/audit-log-query.dto';
+import { AuditLogResponseDto } from './dto/audit-log-response.dto';
+
+@ApiTags('Audit Logs')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.SUPERADMIN)
+@Controller('audit-logs') // Base path: /api/v1/audit-logs
+export class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  /**
+   * Searches the audit log.
+   *
+   * @param query Filters and pagination.
+   * @returns The page of entries with pagination metadata.
+   */
+  @Get()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Search the audit log',
+    description: 'Privileged actions, newest first. Restricted to SUPERADMIN.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated list of audit log entries.',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/AuditLogResponseDto' },
+        },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            pageSize: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not a SUPERADMIN.',
+  })
+  async findAll(@Query() query: AuditLogQueryDto): Promise<{
+    data: AuditLogResponseDto[];
+    meta: { total: number; page: number; pageSize: number; totalPages: number };
+  }> {
+    const result = await this.auditLogsService.findAll(query);
+    return {
+      data: result.data.map((log) => new AuditLogResponseDto(log)),
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * Exports the audit log as CSV.
+   *
+   * @param filter Filters.
+   * @returns The CSV document.
+   */
+  @Get('export')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="audit-logs.csv"')
+  @ApiOperation({
+    summary: 'Export the audit log as CSV',
+    description:
+      'Same filters as the search, newest first, at most 10000 rows. Snapshots are exported as JSON.',
+  })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: HttpStatus.OK, description: 'The CSV file.' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not a SUPERADMIN.',
+  })
+  async exportCsv(@Query() filter: AuditLogFilterDto): Promise<string> {
+    return this.auditLogsService.exportCsv(filter);
+  }
+}
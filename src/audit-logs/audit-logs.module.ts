@@ -0,0 +1,27 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit-logs.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for the audit log. Global, so @Audit can be used
+ * on any controller and AuditLoggerService injected anywhere without
+ * importing the module.
+ * --------------------------------------------------------------------------
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditLoggerService } from './audit-logger.service';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditInterceptor } from './audit.interceptor';
+import { AuditLogsController } from './audit-logs.controller';
+
+@Global() // Makes AuditLoggerService and AuditInterceptor available globally
+@Module({
+  imports: [PrismaModule],
+  controllers: [AuditLogsController],
+  providers: [AuditLoggerService, AuditLogsService, AuditInterceptor],
+  exports: [AuditLoggerService, AuditInterceptor],
+})
+export class AuditLogsModule {}
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { AuditLogsService } from './audit-logs.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AuditLogsService', () => {
+  let service: AuditLogsService;
+
+  const mockPrismaService = {
+    auditLog: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn((queries: Promise<unknown>[]) =>
+      Promise.all(queries),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditLogsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<AuditLogsService>(AuditLogsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should filter by action and date range', async () => {
+      mockPrismaService.auditLog.count.mockResolvedValue(0);
+      mockPrismaService.auditLog.findMany.mockResolvedValue([]);
+
+      await service.findAll({
+        action: AuditAction.USER_DELETED,
+        from: '2025-08-01T00:00:00Z',
+        to: '2025-09-01T00:00:00Z',
+      });
+
+      expect(mockPrismaService.auditLog.count).toHaveBeenCalledWith({
+        where: {
+          actorId: undefined,
+          action: AuditAction.USER_DELETED,
+          targetType: undefined,
+          targetId: undefined,
+          createdAt: {
+            gte: new Date('2025-08-01T00:00:00Z'),
+            lt: new Date('2025-09-01T00:00:00Z'),
+          },
+        },
+      });
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('should quote fields and neutralize spreadsheet formulas', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue([
+        {
+          id: 'log-1',
+          actorId: 'admin-1',
+          actor: { email: 'admin@example.com' },
+          actorRole: Role.SUPERADMIN,
+          action: AuditAction.USER_UPDATED,
+          targetType: AuditTargetType.USER,
+          targetId: 'user-1',
+          before: { name: '=HYPERLINK("x")' },
+          after: null,
+          ipAddress: '203.0.113.7',
+          userAgent: '=cmd',
+          createdAt: new Date('2025-08-15T10:00:00Z'),
+        },
+      ]);
+
+      const csv = await service.exportCsv({});
+      const [header, row] = csv.split('\r\n');
+
+      expect(header).toBe(
+        'createdAt,actorId,actorEmail,actorRole,action,targetType,targetId,ipAddress,userAgent,before,after',
+      );
+      expect(row).toBe(
+        '"2025-08-15T10:00:00.000Z","admin-1","admin@example.com","SUPERADMIN","USER_UPDATED","USER","user-1","203.0.113.7","\'=cmd","{""name"":""=HYPERLINK(\\""x\\"")""}",',
+      );
+    });
+  });
+});
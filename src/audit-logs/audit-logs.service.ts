@@ -0,0 +1,146 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit-logs.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service for searching the audit log and exporting it
+ * as CSV. Entries are written by AuditLoggerService.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogFilterDto, AuditLogQueryDto } from './dto/audit-log-query.dto';
+import { AuditLogWithActor } from './dto/audit-log-response.dto';
+
+/**
+ * Maximum number of entries in one CSV export. Narrow the filters for more.
+ */
+export const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+const AUDIT_LOG_INCLUDE = {
+  actor: { select: { id: true, name: true, email: true, username: true } },
+} satisfies Prisma.AuditLogInclude;
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'actorId',
+  'actorEmail',
+  'actorRole',
+  'action',
+  'targetType',
+  'targetId',
+  'ipAddress',
+  'userAgent',
+  'before',
+  'after',
+] as const;
+
+export interface PaginatedAuditLogs {
+  data: AuditLogWithActor[];
+  meta: { total: number; page: number; pageSize: number; totalPages: number };
+}
+
+@Injectable()
+export class AuditLogsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lists audit log entries, newest first.
+   *
+   * @param {AuditLogQueryDto} query - Filters and pagination.
+   * @returns {Promise<PaginatedAuditLogs>} The page of entries and metadata.
+   */
+  async findAll(query: AuditLogQueryDto): Promise<PaginatedAuditLogs> {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+    const where = this.buildWhere(query);
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.auditLog.count({ where }),
+      this.prisma.auditLog.findMany({
+        where,
+        include: AUDIT_LOG_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    };
+  }
+
+  /**
+   * Exports the matching entries as CSV, newest first, up to
+   * AUDIT_LOG_EXPORT_LIMIT rows. Snapshots are written as JSON.
+   *
+   * @param {AuditLogFilterDto} filter - Filters.
+   * @returns {Promise<string>} The CSV document, including a header row.
+   */
+  async exportCsv(filter: AuditLogFilterDto): Promise<string> {
+    const logs = await this.prisma.auditLog.findMany({
+      where: this.buildWhere(filter),
+      include: AUDIT_LOG_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: AUDIT_LOG_EXPORT_LIMIT,
+    });
+
+    const rows = logs.map((log) => {
+      const values: Record<(typeof CSV_COLUMNS)[number], string | null> = {
+        createdAt: log.createdAt.toISOString(),
+        actorId: log.actorId,
+        actorEmail: log.actor?.email ?? null,
+        actorRole: log.actorRole,
+        action: log.action,
+        targetType: log.targetType,
+        targetId: log.targetId,
+        ipAddress: log.ipAddress,
+        userAgent: log.userAgent,
+        before: log.before === null ? null : JSON.stringify(log.before),
+        after: log.after === null ? null : JSON.stringify(log.after),
+      };
+      return CSV_COLUMNS.map((column) => this.toCsvField(values[column])).join(
+        ',',
+      );
+    });
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  // --- Helpers ---
+
+  private buildWhere(filter: AuditLogFilterDto): Prisma.AuditLogWhereInput {
+    return {
+      actorId: filter.actorId,
+      action: filter.action,
+      targetType: filter.targetType,
+      targetId: filter.targetId,
+      ...((filter.from || filter.to) && {
+        createdAt: {
+          ...(filter.from && { gte: new Date(filter.from) }),
+          ...(filter.to && { lt: new Date(filter.to) }),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Quotes a CSV field. Values starting with a formula character are
+   * prefixed with an apostrophe so spreadsheets do not evaluate them.
+   */
+  private toCsvField(value: string | null): string {
+    if (value === null) return '';
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+}
@@ -0,0 +1,38 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit.decorator.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Custom decorator (@Audit) marking a route handler as a privileged
+ * action to be recorded in the audit log by the AuditInterceptor.
+ * --------------------------------------------------------------------------
+ */
+
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import { AUDIT_KEY, AuditInterceptor, AuditOptions } from './audit.interceptor';
+
+/**
+ * `@Audit(action, targetType, targetIdParam?)` decorator factory function.
+ * Records the action with before/after snapshots of the target, the acting
+ * user, IP address and user agent once the handler has succeeded.
+ *
+ * @param {AuditAction} action - The action performed by the route.
+ * @param {AuditTargetType} targetType - The kind of record the route acts on.
+ * @param {string} targetIdParam - Route parameter holding the target ID. Defaults to 'id'.
+ * @example @Audit(AuditAction.USER_DELETED, AuditTargetType.USER)
+ */
+export const Audit = (
+  action: AuditAction,
+  targetType: AuditTargetType,
+  targetIdParam = 'id',
+) =>
+  applyDecorators(
+    SetMetadata(AUDIT_KEY, {
+      action,
+      targetType,
+      targetIdParam,
+    } satisfies AuditOptions),
+    UseInterceptors(AuditInterceptor),
+  );
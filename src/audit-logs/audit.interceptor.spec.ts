@@ -0,0 +1,108 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { AuditInterceptor, AuditOptions } from './audit.interceptor';
+import { AuditLoggerService } from './audit-logger.service';
+
+describe('AuditInterceptor', () => {
+  const mockAuditLogger = {
+    snapshot: jest.fn(),
+    record: jest.fn(),
+  };
+  const reflector = new Reflector();
+  const interceptor = new AuditInterceptor(
+    reflector,
+    mockAuditLogger as unknown as AuditLoggerService,
+  );
+
+  const buildContext = (params: Record<string, string>): ExecutionContext =>
+    ({
+      getHandler: () => function handler() {},
+      switchToHttp: () => ({
+        getRequest: () => ({
+          params,
+          user: { id: 'admin-1', role: Role.SUPERADMIN },
+          ip: '203.0.113.7',
+          headers: { 'user-agent': 'jest' },
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const auditAs = (options: AuditOptions) =>
+    jest.spyOn(reflector, 'get').mockReturnValue(options);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should record the action with before and after snapshots', async () => {
+    auditAs({
+      action: AuditAction.USER_ROLE_UPDATED,
+      targetType: AuditTargetType.USER,
+      targetIdParam: 'id',
+    });
+    mockAuditLogger.snapshot
+      .mockResolvedValueOnce({ role: Role.CUSTOMER })
+      .mockResolvedValueOnce({ role: Role.ADMIN });
+    const next: CallHandler = { handle: () => of({ id: 'user-1' }) };
+
+    const result: unknown = await lastValueFrom(
+      interceptor.intercept(buildContext({ id: 'user-1' }), next),
+    );
+
+    expect(result).toEqual({ id: 'user-1' });
+    expect(mockAuditLogger.record).toHaveBeenCalledWith({
+      actorId: 'admin-1',
+      actorRole: Role.SUPERADMIN,
+      action: AuditAction.USER_ROLE_UPDATED,
+      targetType: AuditTargetType.USER,
+      targetId: 'user-1',
+      before: { role: Role.CUSTOMER },
+      after: { role: Role.ADMIN },
+      ipAddress: '203.0.113.7',
+      userAgent: 'jest',
+    });
+  });
+
+  it('should take the target ID of created records from the response', async () => {
+    auditAs({
+      action: AuditAction.BRANCH_CITY_CREATED,
+      targetType: AuditTargetType.INSPECTION_BRANCH_CITY,
+      targetIdParam: 'id',
+    });
+    mockAuditLogger.snapshot.mockResolvedValue({ id: 'branch-1' });
+    const next: CallHandler = { handle: () => of({ id: 'branch-1' }) };
+
+    await lastValueFrom(interceptor.intercept(buildContext({}), next));
+
+    expect(mockAuditLogger.snapshot).toHaveBeenCalledTimes(1);
+    expect(mockAuditLogger.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        targetId: 'branch-1',
+        before: null,
+        after: { id: 'branch-1' },
+      }),
+    );
+  });
+
+  it('should not record failed actions', async () => {
+    auditAs({
+      action: AuditAction.USER_DELETED,
+      targetType: AuditTargetType.USER,
+      targetIdParam: 'id',
+    });
+    mockAuditLogger.snapshot.mockResolvedValue({ id: 'user-1' });
+    const next: CallHandler = {
+      handle: () => throwError(() => new Error('boom')),
+    };
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(buildContext({ id: 'user-1' }), next),
+      ),
+    ).rejects.toThrow('boom');
+    expect(mockAuditLogger.record).not.toHaveBeenCalled();
+  });
+});
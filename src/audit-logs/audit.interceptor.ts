@@ -0,0 +1,101 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit.interceptor.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS interceptor recording route handlers marked with @Audit.
+ * Takes a snapshot of the target before the handler runs and another one
+ * after it succeeded; failed requests are not recorded.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { Request } from 'express';
+import { from, Observable } from 'rxjs';
+import { concatMap, switchMap } from 'rxjs/operators';
+import { AuditLoggerService } from './audit-logger.service';
+
+/**
+ * Constant key used by Reflector to store and retrieve the audit metadata.
+ */
+export const AUDIT_KEY = 'audit';
+
+/**
+ * Audit metadata attached to a route handler.
+ */
+export interface AuditOptions {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  /** Route parameter holding the target ID. Falls back to the `id` of the response (creations). */
+  targetIdParam: string;
+}
+
+type AuditedRequest = Request & { user?: { id?: string; role?: Role } };
+
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditLogger: AuditLoggerService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const options = this.reflector.get<AuditOptions | undefined>(
+      AUDIT_KEY,
+      context.getHandler(),
+    );
+    if (!options) return next.handle();
+
+    const request = context.switchToHttp().getRequest<AuditedRequest>();
+    const param: unknown = request.params?.[options.targetIdParam];
+    const paramId = typeof param === 'string' ? param : undefined;
+
+    return from(
+      paramId
+        ? this.auditLogger.snapshot(options.targetType, paramId)
+        : Promise.resolve(null),
+    ).pipe(
+      switchMap((before) =>
+        next.handle().pipe(
+          concatMap(async (result: unknown) => {
+            const targetId = paramId ?? this.extractId(result);
+            const after = targetId
+              ? await this.auditLogger.snapshot(options.targetType, targetId)
+              : null;
+            await this.auditLogger.record({
+              actorId: request.user?.id ?? null,
+              actorRole: request.user?.role ?? null,
+              action: options.action,
+              targetType: options.targetType,
+              targetId: targetId ?? null,
+              before,
+              after,
+              ipAddress: request.ip ?? null,
+              userAgent: request.headers['user-agent'] ?? null,
+            });
+            return result;
+          }),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * ID of a record created by the handler, taken from its response.
+   */
+  private extractId(result: unknown): string | undefined {
+    if (result && typeof result === 'object' && 'id' in result) {
+      const { id } = result;
+      return typeof id === 'string' ? id : undefined;
+    }
+    return undefined;
+  }
+}
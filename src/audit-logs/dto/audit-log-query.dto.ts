@@ -0,0 +1,105 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit-log-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Query parameters for searching and exporting the audit log.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+/**
+ * Filters of the audit log (used by both the list and the CSV export).
+ */
+export class AuditLogFilterDto {
+  @ApiProperty({
+    description: 'Filter by acting user ID',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  actorId?: string;
+
+  @ApiProperty({
+    enum: AuditAction,
+    description: 'Filter by action',
+    required: false,
+  })
+  @IsEnum(AuditAction)
+  @IsOptional()
+  action?: AuditAction;
+
+  @ApiProperty({
+    enum: AuditTargetType,
+    description: 'Filter by target type',
+    required: false,
+  })
+  @IsEnum(AuditTargetType)
+  @IsOptional()
+  targetType?: AuditTargetType;
+
+  @ApiProperty({
+    description: 'Filter by target ID',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  targetId?: string;
+
+  @ApiProperty({
+    description: 'Only actions at or after this date/time (ISO 8601)',
+    example: '2025-08-01T00:00:00Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiProperty({
+    description: 'Only actions before this date/time (ISO 8601)',
+    example: '2025-09-01T00:00:00Z',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
+
+/**
+ * Query parameters for the paginated audit log.
+ */
+export class AuditLogQueryDto extends AuditLogFilterDto {
+  @ApiProperty({
+    description: 'Page number (1-based). Defaults to 1.',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page. Defaults to 20.',
+    example: 20,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  pageSize?: number = 20;
+}
@@ -0,0 +1,117 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: audit-log-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) returned for audit log entries,
+ * including a short summary of the acting user.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  AuditAction,
+  AuditLog,
+  AuditTargetType,
+  Prisma,
+  Role,
+  User,
+} from '@prisma/client';
+
+/**
+ * An audit log entry loaded together with its actor.
+ */
+export type AuditLogWithActor = AuditLog & {
+  actor?: Pick<User, 'id' | 'name' | 'email' | 'username'> | null;
+};
+
+/**
+ * Short summary of the user who performed an action.
+ */
+export class AuditActorSummaryDto {
+  @ApiProperty({ description: 'User ID' })
+  id: string;
+
+  @ApiProperty({ description: 'User display name', nullable: true })
+  name: string | null;
+
+  @ApiProperty({ description: 'User email address', nullable: true })
+  email: string | null;
+
+  @ApiProperty({ description: 'Username', nullable: true })
+  username: string | null;
+}
+
+/**
+ * One recorded privileged action.
+ */
+export class AuditLogResponseDto {
+  @ApiProperty({ description: 'Audit log entry ID' })
+  id: string;
+
+  @ApiProperty({
+    description: 'ID of the acting user (null if the user was deleted)',
+    nullable: true,
+  })
+  actorId: string | null;
+
+  @ApiProperty({
+    type: AuditActorSummaryDto,
+    nullable: true,
+    description: 'The acting user',
+  })
+  actor: AuditActorSummaryDto | null;
+
+  @ApiProperty({
+    enum: Role,
+    nullable: true,
+    description: 'Role of the actor when the action was performed',
+  })
+  actorRole: Role | null;
+
+  @ApiProperty({ enum: AuditAction })
+  action: AuditAction;
+
+  @ApiProperty({ enum: AuditTargetType })
+  targetType: AuditTargetType;
+
+  @ApiProperty({ nullable: true })
+  targetId: string | null;
+
+  @ApiProperty({
+    description: 'Snapshot of the target before the action',
+    nullable: true,
+  })
+  before: Prisma.JsonValue | null;
+
+  @ApiProperty({
+    description: 'Snapshot of the target after the action',
+    nullable: true,
+  })
+  after: Prisma.JsonValue | null;
+
+  @ApiProperty({ example: '203.0.113.7', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(log: AuditLogWithActor) {
+    this.id = log.id;
+    this.actorId = log.actorId;
+    this.actor = log.actor ?? null;
+    this.actorRole = log.actorRole;
+    this.action = log.action;
+    this.targetType = log.targetType;
+    this.targetId = log.targetId;
+    this.before = log.before;
+    this.after = log.after;
+    this.ipAddress = log.ipAddress;
+    this.userAgent = log.userAgent;
+    this.createdAt = log.createdAt;
+  }
+}
@@ -6,8 +6,10 @@
  * --------------------------------------------------------------------------
  * Description: NestJS controller handling HTTP requests related to authentication for UI users
  * (Local email/username/password, Google OAuth) and profile management.
- * It manages routes for local registration, login, Google OAuth flow, logout,
- * and retrieving user profiles.
+ * It manages routes for local registration, login, Google OAuth flow, Cardano wallet
+ * login and linking (signed nonce challenges), logout, retrieving user profiles, and
+ * listing and revoking the signed-in devices (refresh sessions) of a user, and
+ * two-factor (TOTP) enrollment and the second login step.
  * --------------------------------------------------------------------------
  */
 
@@ -15,7 +17,11 @@ import {
   Controller,
   Get,
   Post,
+  Delete,
   Body,
+  Param,
+  ParseUUIDPipe,
+  NotFoundException,
   Req,
   Res,
   UseGuards,
@@ -37,10 +43,17 @@ import {
   ApiBody,
   ApiBearerAuth,
   ApiExcludeEndpoint,
+  ApiParam,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from './guards/jwt-auth.guard'; // Protects profile & logout
 import { LocalAuthGuard } from './guards/local-auth.guard'; // Triggers local strategy for login
-import { Role, User } from '@prisma/client'; // Import Role for interface
+import {
+  AuditAction,
+  AuditTargetType,
+  Role,
+  User,
+  WalletNoncePurpose,
+} from '@prisma/client'; // Import Role for interface
 import { RegisterUserDto } from './dto/register-user.dto'; // DTO for local registration
 import { LoginUserDto } from './dto/login-user.dto'; // DTO for local login input
 import { LoginResponseDto } from './dto/login-response.dto'; // DTO for successful login response
@@ -52,6 +65,31 @@ import { InspectorGuard } from './guards/inspector.guard';
 import { LoginInspectorDto } from './dto/login-inspector.dto';
 import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
 import { SkipThrottle, Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { WalletAuthGuard } from './guards/wallet-auth.guard';
+import { LoginWalletDto } from './dto/login-wallet.dto';
+import { LinkWalletDto } from './dto/link-wallet.dto';
+import { WalletNonceRequestDto } from './dto/wallet-nonce-request.dto';
+import { WalletNonceResponseDto } from './dto/wallet-nonce-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { MfaCodeDto } from './dto/mfa-code.dto';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { MfaSetupResponseDto } from './dto/mfa-setup-response.dto';
+import { MfaRecoveryCodesResponseDto } from './dto/mfa-recovery-codes-response.dto';
+import { MfaService } from './mfa/mfa.service';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { EmailTokenDto } from './dto/email-token.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { InspectorResponseDto } from '../users/dto/inspector-response.dto';
+import {
+  RefreshSessionsService,
+  SessionMetadata,
+} from './refresh-sessions.service';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { Audit } from '../audit-logs/audit.decorator';
 
 // Define interface for request object after JWT or Local auth guard runs
 interface AuthenticatedRequest extends Request {
@@ -69,12 +107,16 @@ export class AuthController {
    * @param usersService - The users service.
    * @param configService - The configuration service.
    * @param jwtService - The JWT service for token decoding.
+   * @param refreshSessions - The service managing signed-in devices.
+   * @param mfa - The two-factor authentication service.
    */
   constructor(
     private readonly authService: AuthService,
     private readonly usersService: UsersService,
     private readonly configService: ConfigService,
     private readonly jwtService: JwtService, // Inject JwtService
+    private readonly refreshSessions: RefreshSessionsService,
+    private readonly mfa: MfaService,
   ) {}
 
   /**
@@ -109,18 +151,163 @@ export class AuthController {
     );
     // AuthService.registerLocalUser (or similar method in UsersService) handles hashing and saving
     const newUser = await this.usersService.createLocalUser(registerUserDto); // Assume method exists in AuthService/UsersService
+    // The account works without verification; a failed email must not fail the registration
+    await this.authService
+      .requestEmailVerification(newUser.id)
+      .catch((error) =>
+        this.logger.error(
+          `Failed to send verification email to user ${newUser.id}: ${String(error)}`,
+        ),
+      );
     return new UserResponseDto(newUser); // Return safe DTO
   }
 
+  /**
+   * Requests a password reset link by email. Responds the same whether or
+   * not the address is registered.
+   *
+   * @param dto - The email address of the account.
+   */
+  @Post('password/forgot')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Request a password reset link',
+    description:
+      'Emails a single-use password reset link if an active account has this address. The response does not reveal whether it has.',
+  })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'If the address is registered, a link has been sent.',
+  })
+  async forgotPassword(@Body() dto: ForgotPasswordDto): Promise<void> {
+    await this.authService.requestPasswordReset(dto.email);
+  }
+
+  /**
+   * Sets a new password with the token of a password reset link. Signs the
+   * user out of all devices.
+   *
+   * @param dto - The token from the link and the new password.
+   */
+  @Post('password/reset')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Reset the password with a reset link token' })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Password changed; all sessions were signed out.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired link, or invalid password.',
+  })
+  async resetPassword(@Body() dto: ResetPasswordDto): Promise<void> {
+    await this.authService.resetPassword(dto.token, dto.password);
+  }
+
+  /**
+   * Sends a new email verification link to the current user.
+   *
+   * @param userId - The ID of the authenticated user.
+   */
+  @Post('email/verification')
+  @UseGuards(JwtAuthGuard, ThrottlerGuard)
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Send an email verification link' })
+  @ApiResponse({ status: HttpStatus.ACCEPTED, description: 'Link sent.' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No email address, or already verified.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async requestEmailVerification(@GetUser('id') userId: string): Promise<void> {
+    await this.authService.requestEmailVerification(userId);
+  }
+
+  /**
+   * Verifies the email address with the token of a verification link.
+   *
+   * @param dto - The token from the link.
+   */
+  @Post('email/verify')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Verify the email address with a link token' })
+  @ApiBody({ type: EmailTokenDto })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Email address verified.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired link.',
+  })
+  async verifyEmail(@Body() dto: EmailTokenDto): Promise<void> {
+    await this.authService.verifyEmail(dto.token);
+  }
+
+  /**
+   * Accepts a staff invitation: sets the username and password of the
+   * invited account and activates it.
+   *
+   * @param dto - The token from the invitation link, the username and password.
+   * @returns {Promise<InspectorResponseDto>} The activated account, including the generated PIN.
+   */
+  @Post('invitations/accept')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Accept an inspector invitation',
+    description:
+      'Activates the invited account with the chosen username and password. The inspector PIN is returned once.',
+  })
+  @ApiBody({ type: AcceptInvitationDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Account activated, including the generated PIN.',
+    type: InspectorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired link, or invitation already accepted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Username already taken.',
+  })
+  async acceptInvitation(
+    @Body() dto: AcceptInvitationDto,
+  ): Promise<InspectorResponseDto> {
+    const { plainPin, ...user } = await this.authService.acceptInvitation(
+      dto.token,
+      dto.username,
+      dto.password,
+    );
+    return new InspectorResponseDto(user, plainPin);
+  }
+
   /**
    * Handles local user login (Email/Username + Password).
    * Uses LocalAuthGuard to validate credentials via LocalStrategy.
    * If successful, Passport attaches the user object to req.user.
-   * Calls AuthService.login to generate JWT.
+   * Calls AuthService.login to generate JWT, or returns a two-factor
+   * challenge if the account has 2FA enabled.
    *
    * @param req - The request object with user attached by LocalAuthGuard.
    * @param loginUserDto - DTO containing loginIdentifier and password (used by guard).
-   * @returns {Promise<LoginResponseDto>} JWT access token and user details.
+   * @returns {Promise<LoginResponseDto | MfaChallengeResponseDto>} JWT access token and user details, or the two-factor challenge.
    */
   @Post('login')
   @UseGuards(LocalAuthGuard) // Apply LocalAuthGuard to trigger LocalStrategy validation
@@ -133,7 +320,8 @@ export class AuthController {
   @ApiBody({ type: LoginUserDto })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Login successful, JWT returned.',
+    description:
+      'Login successful, JWT returned. Accounts with two-factor authentication get an MfaChallengeResponseDto instead.',
     type: LoginResponseDto,
   })
   @ApiResponse({
@@ -143,44 +331,29 @@ export class AuthController {
   async loginLocal(
     @Req() req: AuthenticatedRequest, // Request now has req.user populated by LocalAuthGuard/LocalStrategy
     // @Body() loginUserDto: LoginUserDto // Body is implicitly used by LocalStrategy, no need to inject again unless needed explicitly
-  ): Promise<LoginResponseDto> {
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     if (!req.user) {
       // Ini seharusnya tidak terjadi jika guard bekerja, tapi tambahkan check untuk keamanan
       this.logger.error('LocalAuthGuard succeeded but req.user is missing!');
       throw new InternalServerErrorException('Authentication flow error.');
     }
 
-    const user = req.user as unknown as User;
-
-    if (user.isActive === false) {
-      this.logger.warn(`Login attempt from inactive user account: ${user.id}`);
-      throw new UnauthorizedException(
-        'User account is inactive. Please contact an administrator.',
-      );
-    }
-
     this.logger.log(
       `User logged in locally: ${req.user?.email ?? req.user?.username}`,
     );
     // req.user contains the validated user object returned by LocalStrategy.validate
-    const { accessToken, refreshToken } = await this.authService.login(
-      req.user as any,
-    ); // Generate JWT
-    return {
-      accessToken,
-      refreshToken,
-      user: new UserResponseDto(req.user as any), // Cast req.user to User for DTO constructor
-    };
+    return this.completeLogin(req.user as unknown as User, req);
   }
 
   /**
    * Handles inspector login using a PIN.
    * Uses InspectorGuard to validate the PIN.
    * If successful, the guard attaches the user object to req.user.
-   * Calls AuthService.login to generate JWT.
+   * Calls AuthService.login to generate JWT, or returns a two-factor
+   * challenge if the account has 2FA enabled.
    *
    * @param req - The request object with user attached by InspectorGuard.
-   * @returns {Promise<LoginResponseDto>} JWT access token, refresh token, and user details.
+   * @returns {Promise<LoginResponseDto | MfaChallengeResponseDto>} JWT access token, refresh token, and user details, or the two-factor challenge.
    */
   @Post('login/inspector')
   @UseGuards(InspectorGuard)
@@ -191,7 +364,8 @@ export class AuthController {
   @ApiBody({ type: LoginInspectorDto })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Login successful, JWT returned.',
+    description:
+      'Login successful, JWT returned. Accounts with two-factor authentication get an MfaChallengeResponseDto instead.',
     type: LoginResponseDto,
   })
   @ApiResponse({
@@ -200,38 +374,63 @@ export class AuthController {
   })
   async loginInspector(
     @Req() req: AuthenticatedRequest,
-  ): Promise<LoginResponseDto> {
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     if (!req.user) {
       this.logger.error('LocalPinAuthGuard succeeded but req.user is missing!');
       throw new InternalServerErrorException('Authentication flow error.');
     }
 
-    const inspector = req.user as unknown as User;
+    this.logger.log(`Inspector logged in: ${req.user.id}`);
+    return this.completeLogin(req.user as unknown as User, req);
+  }
 
-    if (inspector.isActive === false) {
-      this.logger.warn(
-        `Login attempt from inactive inspector account: ${inspector.id}`,
-      );
-      throw new UnauthorizedException(
-        'Inspector account is inactive. Please contact an administrator.',
+  /**
+   * Second step of the login of an account with two-factor authentication.
+   * Exchanges the pending token returned by the first step and a code from the
+   * authenticator app (or a recovery code) for the JWTs.
+   *
+   * @param dto - The pending token and the code.
+   * @param req - The request, used for the session metadata.
+   * @returns {Promise<LoginResponseDto>} JWT access token, refresh token, and user details.
+   */
+  @Post('login/mfa')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login with a two-factor code' })
+  @ApiBody({ type: MfaLoginDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Login successful, JWT returned.',
+    type: LoginResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Expired two-factor login, invalid code or inactive account.',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many invalid codes; try again later.',
+  })
+  async loginMfa(
+    @Body() dto: MfaLoginDto,
+    @Req() req: Request,
+  ): Promise<LoginResponseDto> {
+    const { accessToken, refreshToken, user } =
+      await this.authService.loginWithMfa(
+        dto.mfaToken,
+        dto.code,
+        this.sessionMetadata(req),
       );
-    }
-
-    this.logger.log(`Inspector logged in: ${inspector.id}`);
-    const { accessToken, refreshToken } = await this.authService.login(
-      req.user as any,
-    );
-    return {
-      accessToken,
-      refreshToken,
-      user: new UserResponseDto(req.user as any),
-    };
+    this.logger.log(`User logged in with two-factor code: ${user.id}`);
+    return { accessToken, refreshToken, user: new UserResponseDto(user) };
   }
 
   /**
    * Generates a new access token using a valid refresh token.
    * Uses JwtRefreshGuard to validate the refresh token.
    * If successful, the guard attaches the user payload to req.user.
+   * The refresh token is rotated: reusing it revokes the session it belongs to.
    *
    * @param req - The request object with user payload attached by JwtRefreshGuard.
    * @returns {Promise<{ accessToken: string, refreshToken: string }>} A new pair of access and refresh tokens.
@@ -248,15 +447,19 @@ export class AuthController {
   })
   @ApiResponse({
     status: 401,
-    description: 'Unauthorized (Invalid or expired refresh token).',
+    description:
+      'Unauthorized (Invalid, expired, revoked or already used refresh token).',
   })
   async refreshTokens(@Req() req: AuthenticatedRequest) {
-    if (!req.user) {
+    const refreshToken = ExtractJwt.fromAuthHeaderAsBearerToken()(req);
+    if (!req.user || !refreshToken) {
       this.logger.error('JwtRefreshGuard succeeded but req.user is missing!');
       throw new InternalServerErrorException('Authentication flow error.');
     }
-    const userId = req.user.id;
-    return this.authService.refreshTokens(userId);
+    return this.authService.refreshTokens(
+      refreshToken,
+      this.sessionMetadata(req),
+    );
   }
 
   /**
@@ -300,8 +503,15 @@ export class AuthController {
 
     try {
       // The user object from GoogleStrategy.validate is in req.user
+      const user = req.user as unknown as User;
+      if (user.totpEnabledAt) {
+        // The client finishes the login through POST /auth/login/mfa
+        const { mfaToken } = this.authService.createMfaChallenge(user);
+        return res.redirect(`${clientUrl}/auth?mfaToken=${mfaToken}`);
+      }
       const { accessToken, refreshToken } = await this.authService.login(
         req.user as any,
+        this.sessionMetadata(req),
       );
 
       // Successful login, redirect to frontend with tokens
@@ -321,7 +531,8 @@ export class AuthController {
   }
 
   /**
-   * Logs out the user (primarily client-side for stateless JWT).
+   * Logs out the user: blacklists the access token and revokes the refresh
+   * session it was issued for.
    * Requires a valid JWT.
    */
   @Post('logout')
@@ -351,7 +562,9 @@ export class AuthController {
 
     try {
       // Decode the token to get its expiration time
-      const decodedToken = this.jwtService.decode(token) as { exp: number };
+      const decodedToken = this.jwtService.decode<JwtPayload & { exp: number }>(
+        token,
+      );
       if (!decodedToken || !decodedToken.exp) {
         this.logger.warn(
           'Logout failed: Invalid token format (missing expiration).',
@@ -363,6 +576,9 @@ export class AuthController {
 
       // Blacklist the token
       await this.authService.blacklistToken(token, expiresAt);
+      if (decodedToken.sid) {
+        await this.refreshSessions.revoke(decodedToken.sub, decodedToken.sid);
+      }
 
       return res.json({
         message: 'Logout successful. Token has been invalidated on the server.',
@@ -431,7 +647,7 @@ export class AuthController {
     return { message: 'Token is valid.' };
   }
 
-  // --- Placeholder Endpoints for Account Linking (Implement Later) ---
+  // --- Placeholder Endpoint for Google Account Linking (Implement Later) ---
 
   // @Post('link/google')
   // @UseGuards(JwtAuthGuard)
@@ -444,29 +660,434 @@ export class AuthController {
   //   // return this.usersService.linkGoogleAccount(user.id, googleProfile.id, googleProfile.email);
   // }
 
-  // @Post('link/wallet')
-  // @UseGuards(JwtAuthGuard)
-  // @ApiBearerAuth('JwtAuthGuard')
-  // @ApiOperation({ summary: 'Link Cardano Wallet to current user' })
-  // @ApiBody({ type: LinkWalletDto }) // Assuming LinkWalletDto exists
-  // async linkWallet(@Body() linkWalletDto: LinkWalletDto, @GetUser('id') userId: string) {
-  //   // Placeholder for linking a Cardano wallet to the current user.
-  //   // It would typically involve verifying the wallet address and updating the user's profile.
-  //   // return this.usersService.linkWalletAddress(userId, linkWalletDto.walletAddress);
-  // }
+  // --- Cardano Wallet Login & Linking ---
 
-  // --- Placeholder Endpoint for Wallet Login (Implement Later) ---
-
-  // @Post('login/wallet')
-  // @UseGuards(WalletAuthGuard) // Use the (placeholder) wallet guard
-  // @HttpCode(HttpStatus.OK)
-  // @ApiOperation({ summary: 'Login with Cardano Wallet Signature' })
-  // @ApiBody({ type: LoginWalletDto })
-  // async loginWallet(@Req() req: AuthenticatedRequest): Promise<LoginResponseDto> {
-  //    // Placeholder for logging in with a Cardano wallet signature.
-  //    // It would typically involve verifying the signature and generating a JWT.
-  //    this.logger.log(`User logged in via wallet: ${req.user?.walletAddress}`);
-  //    const { accessToken } = await this.authService.login(req.user);
-  //    return { accessToken, user: new UserResponseDto(req.user as User) };
-  // }
+  /**
+   * Issues a single-use challenge for wallet login.
+   * The client signs the returned payload with CIP-30 `signData` and submits it to `login/wallet`.
+   *
+   * @param dto - Contains the wallet address that will sign the challenge.
+   * @returns {Promise<WalletNonceResponseDto>} The nonce, message to sign and its expiry.
+   */
+  @Post('wallet/nonce')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Request a nonce to sign for wallet login' })
+  @ApiBody({ type: WalletNonceRequestDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Challenge issued.',
+    type: WalletNonceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid wallet address.',
+  })
+  async requestWalletLoginNonce(
+    @Body() dto: WalletNonceRequestDto,
+  ): Promise<WalletNonceResponseDto> {
+    return this.authService.createWalletNonce(
+      dto.walletAddress,
+      WalletNoncePurpose.LOGIN,
+    );
+  }
+
+  /**
+   * Handles login with a Cardano wallet.
+   * Uses WalletAuthGuard to verify the signed nonce via WalletStrategy.
+   * If successful, the guard attaches the user linked to the wallet to req.user.
+   * Accounts with 2FA enabled get a two-factor challenge instead of tokens.
+   *
+   * @param req - The request object with user attached by WalletAuthGuard.
+   * @returns {Promise<LoginResponseDto | MfaChallengeResponseDto>} JWT access token, refresh token, and user details, or the two-factor challenge.
+   */
+  @Post('login/wallet')
+  @UseGuards(WalletAuthGuard)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Login with Cardano Wallet Signature' })
+  @ApiBody({ type: LoginWalletDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Login successful, JWT returned. Accounts with two-factor authentication get an MfaChallengeResponseDto instead.',
+    type: LoginResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Missing wallet address, nonce, signature or key.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description:
+      'Invalid signature, expired or used nonce, unknown wallet or inactive account.',
+  })
+  async loginWallet(
+    @Req() req: AuthenticatedRequest,
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
+    if (!req.user) {
+      this.logger.error('WalletAuthGuard succeeded but req.user is missing!');
+      throw new InternalServerErrorException('Authentication flow error.');
+    }
+
+    const user = req.user as unknown as User;
+
+    this.logger.log(`User logged in via wallet: ${user.walletAddress}`);
+    return this.completeLogin(user, req);
+  }
+
+  /**
+   * Issues a single-use challenge for linking a wallet to the current user.
+   * The nonce can only be consumed by the same user through `link/wallet`.
+   *
+   * @param dto - Contains the wallet address that will sign the challenge.
+   * @param userId - The ID of the authenticated user.
+   * @returns {Promise<WalletNonceResponseDto>} The nonce, message to sign and its expiry.
+   */
+  @Post('link/wallet/nonce')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Request a nonce to sign for linking a wallet' })
+  @ApiBody({ type: WalletNonceRequestDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Challenge issued.',
+    type: WalletNonceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid wallet address.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async requestWalletLinkNonce(
+    @Body() dto: WalletNonceRequestDto,
+    @GetUser('id') userId: string,
+  ): Promise<WalletNonceResponseDto> {
+    return this.authService.createWalletNonce(
+      dto.walletAddress,
+      WalletNoncePurpose.LINK,
+      userId,
+    );
+  }
+
+  /**
+   * Links a Cardano wallet to the current user after verifying the signed challenge.
+   *
+   * @param linkWalletDto - Wallet address, nonce and the CIP-30 signData result.
+   * @param userId - The ID of the authenticated user.
+   * @returns {Promise<UserResponseDto>} The updated user profile.
+   */
+  @Post('link/wallet')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Link Cardano Wallet to current user' })
+  @ApiBody({ type: LinkWalletDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Wallet linked.',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid signature or expired/used nonce.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Wallet already linked to another user.',
+  })
+  async linkWallet(
+    @Body() linkWalletDto: LinkWalletDto,
+    @GetUser('id') userId: string,
+  ): Promise<UserResponseDto> {
+    const { walletAddress, nonce, signature, key } = linkWalletDto;
+    const user = await this.authService.linkWallet(userId, walletAddress, {
+      nonce,
+      signature,
+      key,
+    });
+    return new UserResponseDto(user);
+  }
+
+  // --- Sessions (signed-in devices) ---
+
+  /**
+   * Lists the devices the current user is signed in on.
+   *
+   * @param req - The request, used to flag the session it was made from.
+   * @param userId - The ID of the authenticated user.
+   * @returns {Promise<SessionResponseDto[]>} The active sessions, most recently used first.
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @ApiOperation({ summary: 'List the signed-in devices of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Active sessions.',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async getSessions(
+    @Req() req: Request,
+    @GetUser('id') userId: string,
+  ): Promise<SessionResponseDto[]> {
+    const currentSessionId = this.currentSessionId(req);
+    const sessions = await this.refreshSessions.findActive(userId);
+    return sessions.map(
+      (session) => new SessionResponseDto(session, currentSessionId),
+    );
+  }
+
+  /**
+   * Signs the current user out of one device. Its refresh token stops
+   * working; access tokens already issued to it remain valid until they expire.
+   *
+   * @param id - The session ID.
+   * @param userId - The ID of the authenticated user.
+   */
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a session of the current user' })
+  @ApiParam({ name: 'id', description: 'Session ID', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Revoked.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Session not found or already revoked.',
+  })
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+  ): Promise<void> {
+    const revoked = await this.refreshSessions.revoke(userId, id);
+    if (revoked === 0) {
+      throw new NotFoundException(`Session with ID "${id}" not found.`);
+    }
+    this.logger.log(`User ${userId} revoked session ${id}`);
+  }
+
+  /**
+   * Signs a user out of every device ("log out everywhere").
+   * Requires ADMIN role.
+   *
+   * @param id - The ID of the user.
+   * @returns {Promise<{ revokedSessions: number }>} Number of refresh tokens revoked.
+   */
+  @Delete('users/:id/sessions')
+  @Audit(AuditAction.USER_SESSIONS_REVOKED, AuditTargetType.USER)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log a user out everywhere (Admin Only)',
+    description:
+      'Revokes every refresh token of the user, so all their devices must log in again once their access token expires.',
+  })
+  @ApiParam({ name: 'id', description: 'User UUID', format: 'uuid' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sessions revoked.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'User not found.',
+  })
+  async revokeUserSessions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ revokedSessions: number }> {
+    const user = await this.usersService.findById(id);
+    if (!user) {
+      throw new NotFoundException(`User with ID "${id}" not found.`);
+    }
+    const revokedSessions = await this.refreshSessions.revokeAll(id);
+    return { revokedSessions };
+  }
+
+  // --- Two-factor authentication (TOTP) ---
+
+  /**
+   * Starts two-factor enrollment for the current user. Returns a new secret
+   * and its provisioning URI; 2FA is only turned on once a code is confirmed
+   * through `mfa/enable`.
+   *
+   * @param userId - The ID of the authenticated user.
+   * @returns {Promise<MfaSetupResponseDto>} The secret and the otpauth:// URI.
+   */
+  @Post('mfa/setup')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start two-factor (TOTP) enrollment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Secret generated; render otpauthUrl as a QR code.',
+    type: MfaSetupResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Two-factor authentication is already enabled.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async setupMfa(@GetUser('id') userId: string): Promise<MfaSetupResponseDto> {
+    return this.mfa.setup(userId);
+  }
+
+  /**
+   * Confirms two-factor enrollment with a code from the authenticator app.
+   * From then on every login of the user asks for a code.
+   *
+   * @param userId - The ID of the authenticated user.
+   * @param dto - The current code from the app.
+   * @returns {Promise<MfaRecoveryCodesResponseDto>} The recovery codes, shown once.
+   */
+  @Post('mfa/enable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Enable two-factor authentication' })
+  @ApiBody({ type: MfaCodeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Two-factor authentication enabled.',
+    type: MfaRecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Setup not started, already enabled, or invalid code.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async enableMfa(
+    @GetUser('id') userId: string,
+    @Body() dto: MfaCodeDto,
+  ): Promise<MfaRecoveryCodesResponseDto> {
+    const recoveryCodes = await this.mfa.enable(userId, dto.code);
+    return new MfaRecoveryCodesResponseDto(recoveryCodes);
+  }
+
+  /**
+   * Turns two-factor authentication off for the current user.
+   *
+   * @param userId - The ID of the authenticated user.
+   * @param dto - A current code from the app or a recovery code.
+   */
+  @Post('mfa/disable')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiBody({ type: MfaCodeDto })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Disabled.' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Two-factor authentication is not enabled, or invalid code.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async disableMfa(
+    @GetUser('id') userId: string,
+    @Body() dto: MfaCodeDto,
+  ): Promise<void> {
+    await this.mfa.disable(userId, dto.code);
+  }
+
+  /**
+   * Issues a new set of recovery codes for the current user; the previous
+   * ones stop working.
+   *
+   * @param userId - The ID of the authenticated user.
+   * @param dto - A current code from the app or a recovery code.
+   * @returns {Promise<MfaRecoveryCodesResponseDto>} The new recovery codes, shown once.
+   */
+  @Post('mfa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JwtAuthGuard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Regenerate two-factor recovery codes' })
+  @ApiBody({ type: MfaCodeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'New recovery codes.',
+    type: MfaRecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Two-factor authentication is not enabled, or invalid code.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async regenerateRecoveryCodes(
+    @GetUser('id') userId: string,
+    @Body() dto: MfaCodeDto,
+  ): Promise<MfaRecoveryCodesResponseDto> {
+    const recoveryCodes = await this.mfa.regenerateRecoveryCodes(
+      userId,
+      dto.code,
+    );
+    return new MfaRecoveryCodesResponseDto(recoveryCodes);
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Issues the tokens of a user who passed the first factor, or a two-factor
+   * challenge if the account has 2FA enabled.
+   */
+  private async completeLogin(
+    user: User,
+    req: Request,
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
+    if (user.totpEnabledAt) {
+      return this.authService.createMfaChallenge(user);
+    }
+    const { accessToken, refreshToken } = await this.authService.login(
+      user,
+      this.sessionMetadata(req),
+    );
+    return { accessToken, refreshToken, user: new UserResponseDto(user) };
+  }
+
+  private sessionMetadata(req: Request): SessionMetadata {
+    return { userAgent: req.get('user-agent'), ipAddress: req.ip };
+  }
+
+  /**
+   * Session the access token of the request was issued for, if any.
+   */
+  private currentSessionId(req: Request): string | undefined {
+    const token = ExtractJwt.fromAuthHeaderAsBearerToken()(req);
+    return token
+      ? this.jwtService.decode<JwtPayload | null>(token)?.sid
+      : undefined;
+  }
 }
@@ -31,6 +31,10 @@ import { LocalAuthGuard } from './guards/local-auth.guard';
 import { WalletAuthGuard } from './guards/wallet-auth.guard';
 import { JwtRefreshStrategy } from './strategies/jwt-refresh.strategy';
 import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
+import { RefreshSessionsService } from './refresh-sessions.service';
+import { LoginAttemptsModule } from './login-attempts/login-attempts.module';
+import { MfaService } from './mfa/mfa.service';
+import { UserTokensModule } from './user-tokens/user-tokens.module';
 
 /**
  * NestJS module responsible for managing authentication.
@@ -54,6 +58,8 @@ import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
       }),
     }),
     ConfigModule, // Required by Strategies and JwtModule factory
+    LoginAttemptsModule, // Brute-force protection of password and PIN logins
+    UserTokensModule, // Password reset, email verification and invitation links
   ],
   /**
    * Declares the controllers used in this module.
@@ -64,6 +70,8 @@ import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
    */
   providers: [
     AuthService,
+    RefreshSessionsService, // Refresh tokens issued per device
+    MfaService, // TOTP two-factor authentication
     GoogleStrategy, // Register Google Strategy
     JwtStrategy, // Register JWT Strategy
     WalletStrategy, // Register Wallet Strategy
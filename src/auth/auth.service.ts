@@ -5,27 +5,44 @@
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
  * Description: NestJS service responsible for handling authentication logic.
- * It validates users through various methods (Local, Google OAuth, and Wallet - placeholder)
- * and generates JWT access tokens upon successful authentication.
+ * It validates users through various methods (Local, Google OAuth, and Cardano wallet
+ * signatures against single-use nonces) and generates JWT access tokens upon successful authentication.
+ * Refresh tokens are rotated on every use and tracked per device by RefreshSessionsService.
+ * Accounts with two-factor authentication log in in two steps (pending token, then TOTP code).
  * It interacts with the UsersService to manage user data and uses JwtService for token handling
  * and ConfigService for accessing environment variables.
  * --------------------------------------------------------------------------
  */
 
 import {
+  BadRequestException,
+  ConflictException,
   Injectable,
   Logger,
   InternalServerErrorException,
   UnauthorizedException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { checkSignature } from '@meshsdk/core';
+import { randomBytes, randomUUID } from 'crypto';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
 import { UsersService } from '../users/users.service'; // To find users
 import { ConfigService } from '@nestjs/config';
-import { User, Role } from '@prisma/client'; // User type from Prisma
+import { User, Role, UserTokenType, WalletNoncePurpose } from '@prisma/client'; // User type from Prisma
 import { JwtPayload } from './interfaces/jwt-payload.interface'; // JWT payload structure
 import { Profile } from 'passport-google-oauth20'; // Google profile type
 import * as bcrypt from 'bcrypt'; // For password comparison
 import { PrismaService } from '../prisma/prisma.service'; // Import PrismaService
+import { WalletSignatureData } from './interfaces/wallet-signature.interface';
+import { WalletNonceResponseDto } from './dto/wallet-nonce-response.dto';
+import {
+  RefreshSessionsService,
+  SessionMetadata,
+} from './refresh-sessions.service';
+import { LoginAttemptsService } from './login-attempts/login-attempts.service';
+import { MfaService } from './mfa/mfa.service';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { UserTokensService } from './user-tokens/user-tokens.service';
+import { AccountEmailsService } from './user-tokens/account-emails.service';
 
 @Injectable()
 export class AuthService {
@@ -36,6 +53,11 @@ export class AuthService {
     private readonly jwtService: JwtService, // Service to create JWTs
     private readonly configService: ConfigService, // Service to access environment variables
     private readonly prisma: PrismaService, // Inject PrismaService
+    private readonly refreshSessions: RefreshSessionsService, // Stores issued refresh tokens
+    private readonly loginAttempts: LoginAttemptsService, // Brute-force protection
+    private readonly mfa: MfaService, // Two-factor authentication
+    private readonly userTokens: UserTokensService, // Single-use links sent by email
+    private readonly accountEmails: AccountEmailsService, // Sends those links
   ) {}
 
   /**
@@ -44,15 +66,19 @@ export class AuthService {
    *
    * @param loginIdentifier The email or username provided by the user.
    * @param pass The plain text password provided by the user.
+   * @param ipAddress The IP address of the client, used to throttle failed attempts.
    * @returns A promise that resolves to the user object without sensitive fields if validation succeeds, otherwise null.
+   * @throws HttpException (429) if the client or the account is locked out after too many failures.
    */
   async validateLocalUser(
     loginIdentifier: string,
     pass: string,
+    ipAddress?: string,
   ): Promise<Omit<User, 'password' | 'googleId'> | null> {
     this.logger.verbose(
       `Attempting to validate local user: ${loginIdentifier}`,
     );
+    await this.loginAttempts.assertAllowed(ipAddress);
 
     // Determine if the identifier is likely an email or username
     // Basic check, can be improved (e.g., using a regex for email)
@@ -71,11 +97,15 @@ export class AuthService {
         );
     }
 
+    if (user) await this.loginAttempts.assertAllowed(undefined, user.id);
+
     // If user exists and has a password set (meaning they registered locally)
     if (user && user.password) {
       // Compare the provided password with the stored hash
       const isPasswordMatching = await bcrypt.compare(pass, user.password);
       if (isPasswordMatching) {
+        this.assertActive(user);
+        await this.loginAttempts.recordSuccess(user.id);
         this.logger.log(
           `Local user validated successfully: ${loginIdentifier} (ID: ${user.id})`,
         );
@@ -96,68 +126,201 @@ export class AuthService {
     }
 
     // If user not found, or password doesn't exist, or password doesn't match
+    await this.loginAttempts.recordFailure('password', ipAddress, user?.id);
     return null; // Passport expects null if validation fails
   }
 
   /**
-   * Validates a user based on a signed message from a Cardano wallet.
-   * This method is a placeholder and requires integration with a Cardano wallet library (e.g., MeshJS or Lucid)
-   * for signature verification. It is intended to be called by a potential WalletStrategy.
+   * Issues a single-use challenge for a Cardano wallet to sign.
+   * The nonce is bound to the address and purpose (and to the user for LINK),
+   * and expires after WALLET_NONCE_TTL_SECONDS (default 300).
+   *
+   * @param walletAddress The address that will sign the challenge.
+   * @param purpose Whether the challenge is for login or for linking the wallet.
+   * @param userId The authenticated user requesting a LINK challenge.
+   * @returns A promise that resolves to the nonce, the message to sign (plain and hex) and its expiry.
+   * @throws InternalServerErrorException if the nonce cannot be stored.
+   */
+  async createWalletNonce(
+    walletAddress: string,
+    purpose: WalletNoncePurpose,
+    userId?: string,
+  ): Promise<WalletNonceResponseDto> {
+    const ttlSeconds = Number(
+      this.configService.get<string>('WALLET_NONCE_TTL_SECONDS') ?? 300,
+    );
+    const nonce = randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + ttlSeconds * 1000);
+    const action =
+      purpose === WalletNoncePurpose.LINK
+        ? 'link this wallet to your account'
+        : 'sign in with your Cardano wallet';
+    const message = [
+      `CAR-dano wants you to ${action}.`,
+      '',
+      `Address: ${walletAddress}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expires At: ${expiresAt.toISOString()}`,
+    ].join('\n');
+
+    try {
+      // Expired challenges for this address are no longer useful
+      await this.prisma.walletNonce.deleteMany({
+        where: { walletAddress, expiresAt: { lt: issuedAt } },
+      });
+      await this.prisma.walletNonce.create({
+        data: { nonce, walletAddress, purpose, message, userId, expiresAt },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to create wallet nonce for ${walletAddress}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      throw new InternalServerErrorException(
+        'Failed to create wallet challenge.',
+      );
+    }
+
+    this.logger.verbose(
+      `Issued ${purpose} wallet nonce for ${walletAddress} (expires ${expiresAt.toISOString()})`,
+    );
+    return {
+      nonce,
+      message,
+      payload: Buffer.from(message, 'utf8').toString('hex'),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Verifies a CIP-8 (COSE_Sign1) data signature over a previously issued nonce.
+   * The nonce must match the address, purpose and user, be unexpired and unused;
+   * it is consumed before the signature is checked, so it can never be replayed.
+   * The signing key must be the payment or stake key behind the address.
+   *
+   * @param walletAddress The address claiming ownership.
+   * @param signatureData The nonce plus the COSE_Sign1 signature and COSE_Key from the wallet.
+   * @param purpose The purpose the nonce must have been issued for.
+   * @param userId The user the nonce must belong to (LINK only).
+   * @returns A promise that resolves to true if the signature is valid for the challenge, otherwise false.
+   */
+  async verifyWalletSignature(
+    walletAddress: string,
+    signatureData: WalletSignatureData,
+    purpose: WalletNoncePurpose,
+    userId?: string,
+  ): Promise<boolean> {
+    const { nonce, signature, key } = signatureData;
+    const now = new Date();
+
+    const { count } = await this.prisma.walletNonce.updateMany({
+      where: {
+        nonce,
+        walletAddress,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: now },
+        ...(purpose === WalletNoncePurpose.LINK && { userId }),
+      },
+      data: { usedAt: now },
+    });
+    if (count !== 1) {
+      this.logger.warn(
+        `Wallet nonce rejected for ${walletAddress}: unknown, expired, already used or issued for another purpose.`,
+      );
+      return false;
+    }
+
+    const record = await this.prisma.walletNonce.findUnique({
+      where: { nonce },
+    });
+    if (!record) return false;
+
+    try {
+      const payload = Buffer.from(record.message, 'utf8').toString('hex');
+      return await checkSignature(payload, { signature, key }, walletAddress);
+    } catch (error) {
+      // Malformed CBOR, key or address
+      this.logger.warn(
+        `Wallet signature could not be verified for ${walletAddress}: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Validates a user based on a signed challenge from a Cardano wallet.
+   * This method is called by the WalletStrategy.
    *
    * @param walletAddress The wallet address claiming ownership.
-   * @param signatureData The signature and potentially the message/payload that was signed. (Currently unused placeholder)
+   * @param signatureData The nonce and the CIP-30 signData result (signature and key).
    * @returns A promise that resolves to the user object without sensitive fields if validation succeeds and signature is valid, otherwise null.
    */
   async validateWalletUser(
     walletAddress: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    signatureData: any, // signatureData is currently unused as signature verification is not implemented.
+    signatureData: WalletSignatureData,
   ): Promise<Omit<User, 'password' | 'googleId'> | null> {
     this.logger.verbose(`Attempting to validate wallet user: ${walletAddress}`);
 
-    // 1. Find user by wallet address
+    const isSignatureValid = await this.verifyWalletSignature(
+      walletAddress,
+      signatureData,
+      WalletNoncePurpose.LOGIN,
+    );
+    if (!isSignatureValid) {
+      this.logger.warn(
+        `Wallet validation failed for ${walletAddress}: invalid signature or nonce.`,
+      );
+      return null;
+    }
+
     const user = await this.usersService.findByWalletAddress(walletAddress);
     if (!user) {
       this.logger.warn(
         `Wallet validation failed: User not found with wallet address ${walletAddress}`,
       );
-      // Option 1: Fail validation if user must exist
       return null;
-      // Option 2: Create user on the fly (like findOrCreate) - Less common for wallet login
-      // try { user = await this.usersService.createWalletUser(walletAddress); } catch { return null; }
     }
+    this.assertActive(user);
 
-    // 2. --- IMPORTANT: Implement Signature Verification ---
-    //    This part is highly dependent on the specific wallet interaction library and signing method used on the frontend.
-    //    You need to:
-    //    a. Define a standard message/nonce for the user to sign.
-    //    b. Receive the signature and the key used for signing from the frontend (within signatureData).
-    //    c. Use a library (e.g., MeshJS's Transaction signing/verification or cardano-serialization-lib)
-    //       to verify that the signature is valid for the given message/nonce and corresponds to the public key
-    //       derived from the provided walletAddress.
-    this.logger.warn(
-      `!!! Wallet signature verification logic is NOT IMPLEMENTED in validateWalletUser for ${walletAddress} !!!`,
+    this.logger.log(
+      `Wallet user validated successfully: ${walletAddress} (ID: ${user.id})`,
     );
-    const isSignatureValid = false; // <-- Replace with actual verification call
-    // Example (Conceptual - Actual implementation depends on library):
-    // const messageToVerify = "Login to CAR-dano"; // Or a unique nonce
-    // isSignatureValid = verifyCardanoSignature(walletAddress, messageToVerify, signatureData.signature, signatureData.key);
-    // -----------------------------------------------
-
-    if (user && isSignatureValid) {
-      // Check user exists *and* signature is valid
-      this.logger.log(
-        `Wallet user validated successfully: ${walletAddress} (ID: ${user.id})`,
-      );
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { password, googleId, ...result } = user;
-      return result;
-    } else {
-      this.logger.warn(
-        `Wallet validation failed for ${walletAddress}. Signature valid: ${isSignatureValid}`,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { password, googleId, ...result } = user;
+    return result;
+  }
+
+  /**
+   * Links a Cardano wallet to the authenticated user after verifying a signed
+   * LINK challenge issued to that user.
+   *
+   * @param userId The ID of the authenticated user.
+   * @param walletAddress The wallet address to link.
+   * @param signatureData The nonce and the CIP-30 signData result (signature and key).
+   * @returns A promise that resolves to the updated user.
+   * @throws UnauthorizedException if the signature or nonce is invalid.
+   * @throws ConflictException if the wallet is already linked to another user (from UsersService).
+   */
+  async linkWallet(
+    userId: string,
+    walletAddress: string,
+    signatureData: WalletSignatureData,
+  ): Promise<User> {
+    const isSignatureValid = await this.verifyWalletSignature(
+      walletAddress,
+      signatureData,
+      WalletNoncePurpose.LINK,
+      userId,
+    );
+    if (!isSignatureValid) {
+      throw new UnauthorizedException(
+        'Invalid wallet signature or expired challenge.',
       );
-      return null;
     }
+    return this.usersService.linkWalletAddress(userId, walletAddress);
   }
 
   /**
@@ -171,17 +334,14 @@ export class AuthService {
    */
   async validateUserGoogle(profile: Profile): Promise<User> {
     this.logger.log(`Attempting to validate Google profile: ${profile.id}`);
+    let user: User;
     try {
       // findOrCreate handles DB logic and potential conflicts
-      const user = await this.usersService.findOrCreateByGoogleProfile({
+      user = await this.usersService.findOrCreateByGoogleProfile({
         id: profile.id,
         emails: profile.emails,
         displayName: profile.displayName,
       });
-      this.logger.log(
-        `Google profile validated successfully for user ID: ${user.id}`,
-      );
-      return user; // Return the full user object from DB
     } catch (error) {
       // Log the specific error from findOrCreate
       this.logger.error(
@@ -193,25 +353,35 @@ export class AuthService {
         'Failed to validate Google user profile.',
       );
     }
+    this.assertActive(user);
+    this.logger.log(
+      `Google profile validated successfully for user ID: ${user.id}`,
+    );
+    return user; // Return the full user object from DB
   }
 
   /**
    * Generates a JWT access token for a successfully validated user.
    * This method accepts a user object and creates a JWT payload containing essential user information.
-   * It signs the payload using the configured JWT secret and expiration time.
-   * Although marked as async, this method currently performs synchronous operations.
+   * It signs the payload using the configured JWT secret and expiration time, and starts a new
+   * refresh session (one per device) for the refresh token.
    *
    * @param user The validated user object (must include id, email, and role; name and username are optional).
-   * @returns A promise that resolves to an object containing the generated JWT access token.
+   * @param metadata The user agent and IP address of the client, shown in the session list.
+   * @returns A promise that resolves to an object containing the generated JWT access and refresh tokens.
+   * @throws UnauthorizedException if the user no longer exists or is inactive.
    * @throws InternalServerErrorException if the user object is invalid or if JWT signing fails.
    */
-  async login(user: {
-    id: string;
-    email: string | null;
-    role: Role;
-    name?: string | null;
-    username?: string | null;
-  }): Promise<{ accessToken: string; refreshToken: string }> {
+  async login(
+    user: {
+      id: string;
+      email: string | null;
+      role: Role;
+      name?: string | null;
+      username?: string | null;
+    },
+    metadata: SessionMetadata = {},
+  ): Promise<{ accessToken: string; refreshToken: string }> {
     if (!user || !user.id || !user.role) {
       this.logger.error(
         'Login function called without valid user object (missing id or role).',
@@ -222,10 +392,121 @@ export class AuthService {
     }
     this.logger.log(`Generating JWT for user ID: ${user.id}`);
 
+    // Read the current record: isActive and tokenVersion may have changed since validation
+    const account = await this.usersService.findById(user.id);
+    if (!account) {
+      throw new UnauthorizedException('Access Denied');
+    }
+    this.assertActive(account);
+    return this.issueTokens(account, randomUUID(), new Date(), metadata);
+  }
+
+  /**
+   * First step of the login of an account with two-factor authentication:
+   * signs a short-lived token (MFA_PENDING_TOKEN_TTL, default 5m) that must be
+   * sent back with a code to `loginWithMfa`. It is not an access token.
+   *
+   * @param user The user who passed the first factor.
+   * @returns The pending token and its expiry.
+   */
+  createMfaChallenge(user: User): MfaChallengeResponseDto {
+    const payload: JwtPayload = {
+      sub: user.id,
+      role: user.role,
+      ver: user.tokenVersion,
+      typ: 'mfa_pending',
+    };
+    const mfaToken = this.jwtService.sign(payload, {
+      secret: this.configService.getOrThrow<string>('JWT_SECRET'),
+      expiresIn:
+        this.configService.get<string>('MFA_PENDING_TOKEN_TTL') ?? '5m',
+    } as JwtSignOptions);
+    const { exp } = this.jwtService.decode<{ exp: number }>(mfaToken);
+    this.logger.log(`Two-factor code required for user ID: ${user.id}`);
+    return { mfaRequired: true, mfaToken, expiresAt: new Date(exp * 1000) };
+  }
+
+  /**
+   * Second step of a two-factor login: checks the pending token and the
+   * authenticator (or recovery) code, then issues the tokens. Wrong codes
+   * count as failed logins for brute-force protection.
+   *
+   * @param mfaToken The pending token from `createMfaChallenge`.
+   * @param code The authenticator or recovery code.
+   * @param metadata The user agent and IP address of the client.
+   * @returns A promise that resolves to the tokens and the user.
+   * @throws UnauthorizedException if the token is invalid or expired, the account is inactive, or the code is wrong.
+   * @throws HttpException (429) if the client or the account is locked out after too many failures.
+   */
+  async loginWithMfa(
+    mfaToken: string,
+    code: string,
+    metadata: SessionMetadata = {},
+  ): Promise<{ accessToken: string; refreshToken: string; user: User }> {
+    let payload: JwtPayload;
+    try {
+      payload = this.jwtService.verify<JwtPayload>(mfaToken, {
+        secret: this.configService.getOrThrow<string>('JWT_SECRET'),
+      });
+    } catch {
+      throw new UnauthorizedException(
+        'Two-factor login has expired. Please log in again.',
+      );
+    }
+    if (payload.typ !== 'mfa_pending') {
+      throw new UnauthorizedException('Access Denied');
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || (payload.ver ?? 0) !== user.tokenVersion) {
+      throw new UnauthorizedException('Access Denied');
+    }
+    this.assertActive(user);
+
+    await this.loginAttempts.assertAllowed(metadata.ipAddress, user.id);
+    if (!(await this.mfa.verify(user, code))) {
+      this.logger.warn(`Invalid two-factor code for user ID: ${user.id}`);
+      await this.loginAttempts.recordFailure(
+        'totp',
+        metadata.ipAddress,
+        user.id,
+      );
+      throw new UnauthorizedException('Invalid authentication code.');
+    }
+    await this.loginAttempts.recordSuccess(user.id);
+
+    const tokens = await this.issueTokens(
+      user,
+      randomUUID(),
+      new Date(),
+      metadata,
+    );
+    return { ...tokens, user };
+  }
+
+  /**
+   * Signs an access token and a refresh token for a session family, and
+   * stores the refresh token.
+   *
+   * @param user The user the tokens are issued to.
+   * @param familyId The refresh session family the tokens belong to.
+   * @param authenticatedAt When the family was started (the login).
+   * @param metadata The user agent and IP address of the client.
+   * @returns A promise that resolves to the access and refresh tokens.
+   * @throws InternalServerErrorException if JWT signing or storing the session fails.
+   */
+  private async issueTokens(
+    user: User,
+    familyId: string,
+    authenticatedAt: Date,
+    metadata: SessionMetadata,
+  ): Promise<{ accessToken: string; refreshToken: string }> {
     const payload: JwtPayload = {
       sub: user.id,
       email: user.email ?? undefined,
       role: user.role,
+      sid: familyId,
+      ver: user.tokenVersion,
       ...(user.name && { name: user.name }),
       ...(user.username && { username: user.username }),
     };
@@ -241,15 +522,27 @@ export class AuthService {
         'JWT_REFRESH_EXPIRATION_TIME',
       );
 
-      const accessToken = this.jwtService.sign(payload, { secret, expiresIn });
+      const accessToken = this.jwtService.sign(payload, {
+        secret,
+        expiresIn,
+      } as JwtSignOptions);
+      // The jti identifies the refresh session row of this token
+      const sessionId = randomUUID();
       const refreshToken = this.jwtService.sign(payload, {
         secret: refreshTokenSecret,
         expiresIn: refreshTokenExpiresIn,
-      });
+        jwtid: sessionId,
+      } as JwtSignOptions);
+      const { exp } = this.jwtService.decode<{ exp: number }>(refreshToken);
 
-      const hashedRefreshToken = await bcrypt.hash(refreshToken, 10);
-      await this.usersService.updateUser(user.id, {
-        refreshToken: hashedRefreshToken,
+      await this.refreshSessions.create({
+        id: sessionId,
+        familyId,
+        userId: user.id,
+        token: refreshToken,
+        authenticatedAt,
+        expiresAt: new Date(exp * 1000),
+        metadata,
       });
 
       this.logger.log(`JWT generated successfully for user ID: ${user.id}`);
@@ -333,14 +626,22 @@ export class AuthService {
    * This method is designed for specific scenarios like PIN-based logins on shared devices.
    * It checks if a user with the given PIN exists and has the 'INSPECTOR' role.
    *
+   * PINs are short numeric secrets, so failed attempts are throttled per
+   * account and per client IP.
+   *
    * @param pin The PIN provided by the inspector.
+   * @param email The email of the inspector.
+   * @param ipAddress The IP address of the client, used to throttle failed attempts.
    * @returns A promise that resolves to the user object without sensitive fields if validation succeeds, otherwise null.
+   * @throws HttpException (429) if the client or the account is locked out after too many failures.
    */
   async validateInspector(
     pin: string,
     email: string,
+    ipAddress?: string,
   ): Promise<Omit<User, 'password' | 'googleId' | 'pin'> | null> {
     this.logger.verbose(`Attempting to validate inspector by email: ${email}`);
+    await this.loginAttempts.assertAllowed(ipAddress);
 
     // 1. Find user by email first for efficiency
     const user = await this.usersService.findByEmail(email);
@@ -350,13 +651,17 @@ export class AuthService {
       this.logger.warn(
         `Inspector validation failed for email ${email}: User not found, not an inspector, or no PIN set.`,
       );
+      await this.loginAttempts.recordFailure('pin', ipAddress, user?.id);
       return null;
     }
+    await this.loginAttempts.assertAllowed(undefined, user.id);
 
     // 3. Compare the provided PIN with the stored hash
     const isPinMatching = await bcrypt.compare(pin, user.pin);
 
     if (isPinMatching) {
+      this.assertActive(user);
+      await this.loginAttempts.recordSuccess(user.id);
       this.logger.log(
         `Inspector validated successfully: ${email} (ID: ${user.id})`,
       );
@@ -367,25 +672,162 @@ export class AuthService {
       this.logger.warn(
         `Inspector validation failed: Incorrect PIN for ${email}`,
       );
+      await this.loginAttempts.recordFailure('pin', ipAddress, user.id);
       return null;
     }
   }
 
   /**
-   * Generates a new pair of access and refresh tokens for a user.
-   * This method is used to refresh an expired access token using a valid refresh token.
-   * It finds the user by their ID and then calls the main login method to issue new tokens.
+   * Generates a new pair of access and refresh tokens from a refresh token.
+   * The presented token is rotated: it cannot be used again, and presenting it
+   * again revokes every token of its session family.
    *
-   * @param userId The ID of the user for whom to refresh the tokens.
+   * @param refreshToken The refresh token presented by the client (signature already verified).
+   * @param metadata The user agent and IP address of the client.
    * @returns A promise that resolves to an object containing the new accessToken and refreshToken.
-   * @throws UnauthorizedException if no user is found with the given ID.
+   * @throws UnauthorizedException if the token is unknown, revoked, reused or its user no longer exists.
    */
-  async refreshTokens(userId: string) {
-    const user = await this.usersService.findById(userId);
+  async refreshTokens(refreshToken: string, metadata: SessionMetadata = {}) {
+    const payload = this.jwtService.decode<
+      (JwtPayload & { jti?: string }) | null
+    >(refreshToken);
+    const session = await this.refreshSessions.rotate(
+      refreshToken,
+      payload?.jti,
+    );
+    const user = await this.usersService.findById(session.userId);
     if (!user) {
       throw new UnauthorizedException('Access Denied');
     }
-    // The login method already handles creating new tokens and saving the new refresh token
-    return this.login(user);
+    this.assertActive(user);
+    return this.issueTokens(
+      user,
+      session.familyId,
+      session.authenticatedAt,
+      metadata,
+    );
+  }
+
+  /**
+   * Sends a password reset link if an active account has this email address.
+   * Always completes the same way, so the endpoint does not reveal which
+   * addresses are registered.
+   *
+   * @param email The email address the user entered.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user?.email || !user.isActive) {
+      this.logger.verbose(
+        `Password reset requested for unknown or inactive email`,
+      );
+      return;
+    }
+    try {
+      await this.accountEmails.sendPasswordReset({
+        ...user,
+        email: user.email,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset email to user ${user.id}: ${String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Sets a new password with the token of a password reset link. All sessions
+   * of the user are revoked and a login lockout on the account is lifted.
+   *
+   * @param token The token from the reset link.
+   * @param password The new password.
+   * @throws BadRequestException if the token is invalid, expired or already used.
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const userId = await this.userTokens.consume(
+      token,
+      UserTokenType.PASSWORD_RESET,
+    );
+    await this.usersService.resetPassword(userId, password);
+    await this.loginAttempts.unlock(userId);
+  }
+
+  /**
+   * Sends an email verification link to the authenticated user.
+   *
+   * @param userId The ID of the authenticated user.
+   * @throws BadRequestException if the user has no email address or it is already verified.
+   */
+  async requestEmailVerification(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user?.email) {
+      throw new BadRequestException('Your account has no email address.');
+    }
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Your email address is already verified.');
+    }
+    await this.accountEmails.sendEmailVerification({
+      ...user,
+      email: user.email,
+    });
+  }
+
+  /**
+   * Marks the email address of a user verified with the token of a
+   * verification link.
+   *
+   * @param token The token from the verification link.
+   * @throws BadRequestException if the token is invalid, expired or already used.
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.userTokens.consume(
+      token,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+    await this.usersService.markEmailVerified(userId);
+    this.logger.log(`Email address of user ${userId} verified`);
+  }
+
+  /**
+   * Activates an invited inspector with the token of an invitation link.
+   *
+   * @param token The token from the invitation link.
+   * @param username The chosen username.
+   * @param password The chosen password.
+   * @returns The activated inspector and their plaintext PIN.
+   * @throws BadRequestException if the token is invalid, expired or already used.
+   * @throws ConflictException if the username is already taken.
+   */
+  async acceptInvitation(
+    token: string,
+    username: string,
+    password: string,
+  ): Promise<User & { plainPin: string }> {
+    // Checked before the single-use token is spent, so the invitee can retry
+    if (await this.usersService.findByUsername(username)) {
+      throw new ConflictException('Username is already taken.');
+    }
+    const userId = await this.userTokens.consume(
+      token,
+      UserTokenType.INVITATION,
+    );
+    return this.usersService.acceptInvitation(userId, username, password);
+  }
+
+  /**
+   * Rejects deactivated accounts. Called by every login method once the
+   * credentials are verified, so inactive users learn why they are refused
+   * without revealing it to someone guessing credentials.
+   *
+   * @param user The user whose credentials were verified.
+   * @throws UnauthorizedException if the account is inactive.
+   */
+  private assertActive(user: Pick<User, 'id' | 'isActive'>): void {
+    if (!user.isActive) {
+      this.logger.warn(`Login attempt from inactive user account: ${user.id}`);
+      throw new UnauthorizedException(
+        'User account is inactive. Please contact an administrator.',
+      );
+    }
   }
 }
@@ -0,0 +1,303 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { WalletNonce, WalletNoncePurpose } from '@prisma/client';
+import { signData } from '@meshsdk/core';
+import {
+  Crypto,
+  Ed25519PrivateKey,
+  buildEnterpriseAddress,
+} from '@meshsdk/core-cst';
+import { AuthService } from './auth.service';
+import { UsersService } from '../users/users.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RefreshSessionsService } from './refresh-sessions.service';
+import { LoginAttemptsService } from './login-attempts/login-attempts.service';
+import { MfaService } from './mfa/mfa.service';
+import { UserTokensService } from './user-tokens/user-tokens.service';
+import { AccountEmailsService } from './user-tokens/account-emails.service';
+
+// Only the injection token is needed; avoid loading UsersService's own dependencies
+jest.mock('../users/users.service', () => ({ UsersService: class {} }));
+
+type WalletNonceCreateData = Pick<
+  WalletNonce,
+  'nonce' | 'walletAddress' | 'purpose' | 'message' | 'expiresAt'
+> & { userId?: string };
+
+const buildWallet = (seed: string) => {
+  const key = Ed25519PrivateKey.fromNormalHex(seed.repeat(32));
+  const address = buildEnterpriseAddress(
+    0,
+    key.toPublic().hash().hex(),
+  ).toAddress();
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+  const bech32: string = address.toBech32();
+  return { key, address, bech32 };
+};
+type TestWallet = ReturnType<typeof buildWallet>;
+
+describe('AuthService (wallet signatures)', () => {
+  let service: AuthService;
+  let nonces: Map<string, WalletNonce>;
+
+  const mockUsersService = {
+    findByWalletAddress: jest.fn(),
+    linkWalletAddress: jest.fn(),
+  };
+  const mockConfigService = { get: jest.fn(), getOrThrow: jest.fn() };
+
+  // In-memory stand-in for the wallet_nonces table
+  const mockPrismaService = {
+    walletNonce: {
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+      create: jest.fn(({ data }: { data: WalletNonceCreateData }) => {
+        const record: WalletNonce = {
+          ...data,
+          id: data.nonce,
+          userId: data.userId ?? null,
+          usedAt: null,
+          createdAt: new Date(),
+        };
+        nonces.set(data.nonce, record);
+        return Promise.resolve(record);
+      }),
+      updateMany: jest.fn(
+        ({
+          where,
+          data,
+        }: {
+          where: Partial<WalletNonce> & { expiresAt: { gt: Date } };
+          data: { usedAt: Date };
+        }) => {
+          const record = nonces.get(where.nonce!);
+          const matches =
+            !!record &&
+            record.walletAddress === where.walletAddress &&
+            record.purpose === where.purpose &&
+            record.usedAt === null &&
+            record.expiresAt > where.expiresAt.gt &&
+            (where.userId === undefined || record.userId === where.userId);
+          if (matches) record.usedAt = data.usedAt;
+          return Promise.resolve({ count: matches ? 1 : 0 });
+        },
+      ),
+      findUnique: jest.fn(({ where }: { where: { nonce: string } }) =>
+        Promise.resolve(nonces.get(where.nonce) ?? null),
+      ),
+    },
+  };
+
+  let wallet: TestWallet;
+  let otherWallet: TestWallet;
+
+  const sign = (payload: string, signer = wallet) =>
+    signData(payload, { key: signer.key, address: signer.address });
+
+  beforeAll(async () => {
+    await Crypto.ready(); // libsodium must be initialised before deriving keys
+    wallet = buildWallet('11');
+    otherWallet = buildWallet('22');
+  });
+
+  beforeEach(async () => {
+    nonces = new Map();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: JwtService, useValue: {} },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: PrismaService, useValue: mockPrismaService },
+        // Not used by wallet sign-in; only needed to construct AuthService
+        { provide: RefreshSessionsService, useValue: {} },
+        { provide: LoginAttemptsService, useValue: {} },
+        { provide: MfaService, useValue: {} },
+        { provide: UserTokensService, useValue: {} },
+        { provide: AccountEmailsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createWalletNonce', () => {
+    it('should store a challenge whose payload is the hex-encoded message', async () => {
+      mockConfigService.get.mockReturnValueOnce('60');
+
+      const result = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+
+      expect(result.message).toContain(`Nonce: ${result.nonce}`);
+      expect(result.message).toContain(`Address: ${wallet.bech32}`);
+      expect(Buffer.from(result.payload, 'hex').toString('utf8')).toBe(
+        result.message,
+      );
+      expect(result.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(
+        60000,
+      );
+      expect(nonces.get(result.nonce)?.purpose).toBe(WalletNoncePurpose.LOGIN);
+    });
+  });
+
+  describe('validateWalletUser', () => {
+    it('should return the linked user for a valid signature', async () => {
+      mockUsersService.findByWalletAddress.mockResolvedValue({
+        id: 'user-1',
+        walletAddress: wallet.bech32,
+        isActive: true,
+        password: 'hash',
+        googleId: null,
+      });
+      const { nonce, payload } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+
+      const user = await service.validateWalletUser(wallet.bech32, {
+        nonce,
+        ...sign(payload),
+      });
+
+      expect(user).toEqual({
+        id: 'user-1',
+        walletAddress: wallet.bech32,
+        isActive: true,
+      });
+    });
+
+    it('should reject a nonce that was already used', async () => {
+      mockUsersService.findByWalletAddress.mockResolvedValue({
+        id: 'user-1',
+        isActive: true,
+      });
+      const { nonce, payload } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+      const signature = { nonce, ...sign(payload) };
+
+      await service.validateWalletUser(wallet.bech32, signature);
+      const replay = await service.validateWalletUser(wallet.bech32, signature);
+
+      expect(replay).toBeNull();
+    });
+
+    it('should reject an expired nonce', async () => {
+      mockConfigService.get.mockReturnValueOnce('-1');
+      const { nonce, payload } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+
+      const user = await service.validateWalletUser(wallet.bech32, {
+        nonce,
+        ...sign(payload),
+      });
+
+      expect(user).toBeNull();
+      expect(mockUsersService.findByWalletAddress).not.toHaveBeenCalled();
+    });
+
+    it('should reject a signature from a key that does not own the address', async () => {
+      const { nonce, payload } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+
+      const user = await service.validateWalletUser(wallet.bech32, {
+        nonce,
+        ...sign(payload, otherWallet),
+      });
+
+      expect(user).toBeNull();
+    });
+
+    it('should reject a signature over a different message', async () => {
+      const { nonce } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+
+      const user = await service.validateWalletUser(wallet.bech32, {
+        nonce,
+        ...sign(Buffer.from('something else').toString('hex')),
+      });
+
+      expect(user).toBeNull();
+    });
+
+    it('should reject malformed signature data', async () => {
+      const { nonce } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+
+      const user = await service.validateWalletUser(wallet.bech32, {
+        nonce,
+        signature: 'deadbeef',
+        key: 'deadbeef',
+      });
+
+      expect(user).toBeNull();
+    });
+  });
+
+  describe('linkWallet', () => {
+    it('should link the wallet when the LINK nonce was issued to the same user', async () => {
+      mockUsersService.linkWalletAddress.mockResolvedValue({ id: 'user-1' });
+      const { nonce, payload } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LINK,
+        'user-1',
+      );
+
+      await service.linkWallet('user-1', wallet.bech32, {
+        nonce,
+        ...sign(payload),
+      });
+
+      expect(mockUsersService.linkWalletAddress).toHaveBeenCalledWith(
+        'user-1',
+        wallet.bech32,
+      );
+    });
+
+    it('should reject a LINK nonce issued to another user', async () => {
+      const { nonce, payload } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LINK,
+        'user-2',
+      );
+
+      await expect(
+        service.linkWallet('user-1', wallet.bech32, {
+          nonce,
+          ...sign(payload),
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockUsersService.linkWalletAddress).not.toHaveBeenCalled();
+    });
+
+    it('should reject a LOGIN nonce', async () => {
+      const { nonce, payload } = await service.createWalletNonce(
+        wallet.bech32,
+        WalletNoncePurpose.LOGIN,
+      );
+
+      await expect(
+        service.linkWallet('user-1', wallet.bech32, {
+          nonce,
+          ...sign(payload),
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
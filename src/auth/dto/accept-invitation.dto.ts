@@ -0,0 +1,19 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: accept-invitation.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for accepting a staff invitation:
+ * the token of the invitation link plus the chosen username and password.
+ * --------------------------------------------------------------------------
+ */
+
+import { IntersectionType, PickType } from '@nestjs/swagger';
+import { EmailTokenDto } from './email-token.dto';
+import { RegisterUserDto } from './register-user.dto';
+
+export class AcceptInvitationDto extends IntersectionType(
+  EmailTokenDto,
+  PickType(RegisterUserDto, ['username', 'password'] as const),
+) {}
@@ -0,0 +1,27 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: email-token.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) carrying the token of a link sent by
+ * email (password reset, email verification, invitation).
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class EmailTokenDto {
+  /**
+   * The `token` query parameter of the link.
+   */
+  @ApiProperty({
+    description: 'The token from the link sent by email',
+    example: '3f1c2b7e-5a8d-4e0f-9b6a-1d2c3e4f5a6b.q8Zr...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  token: string;
+}
@@ -0,0 +1,16 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: forgot-password.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for requesting a password reset link.
+ * --------------------------------------------------------------------------
+ */
+
+import { PickType } from '@nestjs/swagger';
+import { RegisterUserDto } from './register-user.dto';
+
+export class ForgotPasswordDto extends PickType(RegisterUserDto, [
+  'email',
+] as const) {}
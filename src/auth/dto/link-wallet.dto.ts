@@ -0,0 +1,15 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: link-wallet.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO for linking a Cardano wallet to the authenticated user.
+ * Carries the same signed challenge as wallet login; the nonce must have been
+ * issued to the current user through the link challenge endpoint.
+ * --------------------------------------------------------------------------
+ */
+
+import { LoginWalletDto } from './login-wallet.dto';
+
+export class LinkWalletDto extends LoginWalletDto {}
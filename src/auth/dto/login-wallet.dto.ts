@@ -6,17 +6,18 @@
  * --------------------------------------------------------------------------
  * Description: Data Transfer Object (DTO) for wallet login requests.
  * Defines the structure of the data expected from the client when a user attempts to log in
- * using their Cardano wallet address and a signed message.
+ * using their Cardano wallet address and a signed challenge (CIP-30 signData / CIP-8).
  * --------------------------------------------------------------------------
  */
 
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty, IsHexadecimal, Matches } from 'class-validator';
+import { CARDANO_ADDRESS_REGEX } from './wallet-nonce-request.dto';
 
 export class LoginWalletDto {
   /**
    * The user's Cardano wallet address used for login/authentication.
-   * Required for wallet login.
+   * Must be the address the nonce was issued for.
    * @example "addr1qx2k8q9p5z4z..."
    */
   @ApiProperty({
@@ -26,21 +27,48 @@ export class LoginWalletDto {
   })
   @IsString()
   @IsNotEmpty()
+  @Matches(CARDANO_ADDRESS_REGEX, {
+    message: 'walletAddress must be a bech32 Cardano address',
+  })
   walletAddress: string;
 
   /**
-   * A message signed by the user's wallet to prove ownership.
-   * The backend needs to verify this signature against the walletAddress.
-   * Required for wallet login.
-   * @example "0xabcdef123456..."
+   * The nonce obtained from the wallet challenge endpoint.
+   * @example "9f2c4e1a7b3d4c5e8f90a1b2c3d4e5f6"
+   */
+  @ApiProperty({
+    description: 'Nonce obtained from the wallet challenge endpoint',
+    example: '9f2c4e1a7b3d4c5e8f90a1b2c3d4e5f6',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  nonce: string;
+
+  /**
+   * COSE_Sign1 signature returned by the wallet's `signData`.
+   * @example "845846a2012767616464726573735839..."
    */
   @ApiProperty({
     description:
-      "Data signature generated by the user's wallet to prove ownership",
-    example: '{"signature": "...", "key": "..."}', // Example structure might vary
+      "Hex-encoded COSE_Sign1 signature returned by the wallet's signData",
+    example: '845846a2012767616464726573735839...',
+    required: true,
+  })
+  @IsHexadecimal()
+  @IsNotEmpty()
+  signature: string;
+
+  /**
+   * COSE_Key returned by the wallet's `signData`.
+   * @example "a4010103272006215820..."
+   */
+  @ApiProperty({
+    description: "Hex-encoded COSE_Key returned by the wallet's signData",
+    example: 'a4010103272006215820...',
     required: true,
   })
-  @IsString() // Or IsObject if you expect a structured signature object
+  @IsHexadecimal()
   @IsNotEmpty()
-  signature: string; // The actual type/structure depends heavily on the signing library/method
+  key: string;
 }
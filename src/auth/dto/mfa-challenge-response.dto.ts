@@ -0,0 +1,43 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mfa-challenge-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO returned instead of tokens by the login endpoints when the
+ * account has two-factor authentication enabled. The client completes the
+ * login by sending `mfaToken` and a code to POST /auth/login/mfa.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaChallengeResponseDto {
+  /**
+   * Always true; tells the client a second step is needed.
+   */
+  @ApiProperty({
+    description: 'True: a two-factor code is required to finish the login',
+    example: true,
+  })
+  mfaRequired: true;
+
+  /**
+   * Short-lived token identifying the pending login.
+   */
+  @ApiProperty({
+    description:
+      'Short-lived token to send with the code to POST /auth/login/mfa',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  mfaToken: string;
+
+  /**
+   * When the pending login expires.
+   */
+  @ApiProperty({
+    description: 'When the mfaToken expires',
+    example: '2025-08-16T10:05:00.000Z',
+  })
+  expiresAt: Date;
+}
@@ -0,0 +1,25 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mfa-code.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO carrying a two-factor code: the current 6-digit code of the
+ * authenticator app or, where accepted, one of the recovery codes.
+ * --------------------------------------------------------------------------
+ */
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, Length } from 'class-validator';
+
+export class MfaCodeDto {
+  @ApiProperty({
+    description:
+      'Current 6-digit code from the authenticator app, or a recovery code',
+    example: '123456',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 16)
+  code: string;
+}
@@ -0,0 +1,24 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mfa-login.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO for the second login step of accounts with two-factor
+ * authentication: the pending token from the first step and a code.
+ * --------------------------------------------------------------------------
+ */
+import { ApiProperty } from '@nestjs/swagger';
+import { IsJWT, IsNotEmpty } from 'class-validator';
+import { MfaCodeDto } from './mfa-code.dto';
+
+export class MfaLoginDto extends MfaCodeDto {
+  @ApiProperty({
+    description: 'The mfaToken returned by the first login step',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    required: true,
+  })
+  @IsJWT()
+  @IsNotEmpty()
+  mfaToken: string;
+}
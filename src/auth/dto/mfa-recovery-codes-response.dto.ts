@@ -0,0 +1,29 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mfa-recovery-codes-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO carrying newly issued two-factor recovery codes. They are
+ * only returned once; each code can replace an authenticator code one time.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaRecoveryCodesResponseDto {
+  /**
+   * Single-use recovery codes.
+   */
+  @ApiProperty({
+    description:
+      'Single-use recovery codes. Store them safely: they are not shown again.',
+    example: ['3f9a1-07c2e', 'b81d4-5a0f9'],
+    type: [String],
+  })
+  recoveryCodes: string[];
+
+  constructor(recoveryCodes: string[]) {
+    this.recoveryCodes = recoveryCodes;
+  }
+}
@@ -0,0 +1,34 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mfa-setup-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO returned when starting two-factor enrollment. The client
+ * shows `otpauthUrl` as a QR code (or `secret` for manual entry) and then
+ * confirms a code through POST /auth/mfa/enable.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaSetupResponseDto {
+  /**
+   * The TOTP secret in base32, for manual entry in the app.
+   */
+  @ApiProperty({
+    description: 'TOTP secret (base32) for manual entry',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  /**
+   * Provisioning URI to render as a QR code.
+   */
+  @ApiProperty({
+    description: 'otpauth:// provisioning URI to render as a QR code',
+    example:
+      'otpauth://totp/CAR-dano%3Aadmin%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=CAR-dano&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauthUrl: string;
+}
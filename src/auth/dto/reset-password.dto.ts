@@ -0,0 +1,19 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: reset-password.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for choosing a new password with
+ * the token of a password reset link.
+ * --------------------------------------------------------------------------
+ */
+
+import { IntersectionType, PickType } from '@nestjs/swagger';
+import { EmailTokenDto } from './email-token.dto';
+import { RegisterUserDto } from './register-user.dto';
+
+export class ResetPasswordDto extends IntersectionType(
+  EmailTokenDto,
+  PickType(RegisterUserDto, ['password'] as const),
+) {}
@@ -0,0 +1,90 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: session-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO describing a signed-in device (refresh session family) of
+ * the current user, as listed by GET /auth/sessions.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { RefreshSession } from '@prisma/client';
+
+export class SessionResponseDto {
+  /**
+   * Session ID, used to revoke the session.
+   */
+  @ApiProperty({
+    description: 'Session ID (refresh token family), used to revoke it',
+    example: 'c1d2e3f4-a5b6-7890-1234-567890abcdef',
+  })
+  id: string;
+
+  /**
+   * User agent of the client at the last refresh.
+   */
+  @ApiProperty({
+    description: 'User agent of the client at the last refresh',
+    example: 'Mozilla/5.0 (Linux; Android 14) ...',
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  /**
+   * IP address of the client at the last refresh.
+   */
+  @ApiProperty({
+    description: 'IP address of the client at the last refresh',
+    example: '203.0.113.10',
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  /**
+   * When the user logged in on this device.
+   */
+  @ApiProperty({
+    description: 'When the user logged in on this device',
+    example: '2025-08-15T10:00:00.000Z',
+  })
+  authenticatedAt: Date;
+
+  /**
+   * When the session was last refreshed.
+   */
+  @ApiProperty({
+    description: 'When the session was last refreshed',
+    example: '2025-08-16T08:30:00.000Z',
+  })
+  lastUsedAt: Date;
+
+  /**
+   * When the current refresh token expires.
+   */
+  @ApiProperty({
+    description: 'When the current refresh token of the session expires',
+    example: '2025-08-23T08:30:00.000Z',
+  })
+  expiresAt: Date;
+
+  /**
+   * Whether the request was made from this session.
+   */
+  @ApiProperty({
+    description: 'True for the session the request was made from',
+    example: true,
+  })
+  current: boolean;
+
+  constructor(session: RefreshSession, currentSessionId?: string) {
+    this.id = session.familyId;
+    this.userAgent = session.userAgent;
+    this.ipAddress = session.ipAddress;
+    this.authenticatedAt = session.authenticatedAt;
+    this.lastUsedAt = session.lastUsedAt;
+    this.expiresAt = session.expiresAt;
+    this.current = session.familyId === currentSessionId;
+  }
+}
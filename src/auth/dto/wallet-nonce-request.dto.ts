@@ -0,0 +1,36 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: wallet-nonce-request.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO for requesting a wallet signature challenge (nonce).
+ * The issued nonce is bound to the given address and can only be used once.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/** Bech32 payment (addr/addr_test) or stake (stake/stake_test) address. */
+export const CARDANO_ADDRESS_REGEX = /^(addr|stake)(_test)?1[02-9ac-hj-np-z]+$/;
+
+export class WalletNonceRequestDto {
+  /**
+   * The Cardano address that will sign the challenge.
+   * @example "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3jcu5d8ps7zex2k2xt3uqxgjqnnj83ws8lhrn648jjxtwq2ytjqp"
+   */
+  @ApiProperty({
+    description:
+      'Bech32 Cardano address (payment or stake) that will sign the challenge',
+    example:
+      'addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3jcu5d8ps7zex2k2xt3uqxgjqnnj83ws8lhrn648jjxtwq2ytjqp',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(CARDANO_ADDRESS_REGEX, {
+    message: 'walletAddress must be a bech32 Cardano address',
+  })
+  walletAddress: string;
+}
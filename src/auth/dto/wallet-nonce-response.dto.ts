@@ -0,0 +1,52 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: wallet-nonce-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTO returned by the wallet challenge endpoints. The client passes
+ * `payload` to the wallet's CIP-30 `signData(address, payload)` and submits the
+ * resulting signature and key together with `nonce`.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WalletNonceResponseDto {
+  /**
+   * The single-use nonce to send back with the signature.
+   */
+  @ApiProperty({
+    description: 'Single-use nonce to submit together with the signature',
+    example: '9f2c4e1a7b3d4c5e8f90a1b2c3d4e5f6',
+  })
+  nonce: string;
+
+  /**
+   * Human-readable message shown by the wallet when signing.
+   */
+  @ApiProperty({
+    description: 'Human-readable message the wallet is asked to sign',
+    example:
+      'CAR-dano wants you to sign in with your Cardano wallet.\n\nAddress: addr_test1...\nNonce: 9f2c4e1a7b3d4c5e8f90a1b2c3d4e5f6\nIssued At: 2025-08-15T10:00:00.000Z\nExpires At: 2025-08-15T10:05:00.000Z',
+  })
+  message: string;
+
+  /**
+   * Hex encoding of `message`, ready to pass to CIP-30 `signData`.
+   */
+  @ApiProperty({
+    description: 'Hex-encoded message to pass to CIP-30 signData',
+    example: '434152...',
+  })
+  payload: string;
+
+  /**
+   * When the nonce stops being accepted.
+   */
+  @ApiProperty({
+    description: 'Expiry time of the nonce',
+    example: '2025-08-15T10:05:00.000Z',
+  })
+  expiresAt: Date;
+}
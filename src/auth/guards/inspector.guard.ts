@@ -5,6 +5,7 @@ import {
   UnauthorizedException,
   Logger,
 } from '@nestjs/common';
+import { Request } from 'express';
 import { AuthService } from '../auth.service';
 
 @Injectable()
@@ -14,8 +15,8 @@ export class InspectorGuard implements CanActivate {
   constructor(private readonly authService: AuthService) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
-    const request = context.switchToHttp().getRequest();
-    const { pin, email } = request.body;
+    const request = context.switchToHttp().getRequest<Request>();
+    const { pin, email } = request.body as { pin?: string; email?: string };
 
     if (!pin || !email) {
       this.logger.error(
@@ -24,7 +25,11 @@ export class InspectorGuard implements CanActivate {
       throw new UnauthorizedException('PIN and email are required.');
     }
 
-    const user = await this.authService.validateInspector(pin, email);
+    const user = await this.authService.validateInspector(
+      pin,
+      email,
+      request.ip,
+    );
 
     if (!user) {
       this.logger.warn(
@@ -8,6 +8,8 @@
  * This guard checks if the authenticated user's role matches the required roles
  * defined by the @Roles decorator on routes or controllers.
  * It must be applied after an authentication guard.
+ * Users whose role is listed in MFA_REQUIRED_ROLES must also have two-factor
+ * authentication enabled before they can use any role-restricted route.
  * --------------------------------------------------------------------------
  */
 
@@ -19,15 +21,36 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core'; // Helper to read metadata
-import { Role } from '@prisma/client'; // User Role enum
+import { ConfigService } from '@nestjs/config';
+import { Role, User } from '@prisma/client'; // User Role enum
 import { ROLES_KEY } from '../decorators/roles.decorator'; // Key to access metadata
 
+/**
+ * Reads the roles that must enroll in two-factor authentication before using
+ * role- or permission-restricted routes.
+ *
+ * @param {ConfigService} configService - Service for accessing configuration (MFA_REQUIRED_ROLES).
+ * @returns {Role[]} The roles listed in MFA_REQUIRED_ROLES, e.g. "SUPERADMIN,ADMIN".
+ */
+export function mfaRequiredRoles(configService: ConfigService): Role[] {
+  return (configService.get<string>('MFA_REQUIRED_ROLES') ?? '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter((role): role is Role => role in Role);
+}
+
 @Injectable()
 export class RolesGuard implements CanActivate {
   private readonly logger = new Logger(RolesGuard.name);
+  private readonly mfaRequiredRoles: Role[];
 
   // Inject Reflector to access decorator metadata
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    configService: ConfigService,
+  ) {
+    this.mfaRequiredRoles = mfaRequiredRoles(configService);
+  }
 
   /**
    * Determines if the current authenticated user has one of the roles required
@@ -35,7 +58,7 @@ export class RolesGuard implements CanActivate {
    *
    * @param {ExecutionContext} context - Provides access to the request and handler/class metadata.
    * @returns {boolean} True if the user has permission, otherwise throws ForbiddenException.
-   * @throws {ForbiddenException} If the user object or role is missing, or if the user's role is not allowed.
+   * @throws {ForbiddenException} If the user object or role is missing, if the user's role is not allowed, or if the role requires two-factor authentication the user has not enabled.
    */
   canActivate(context: ExecutionContext): boolean {
     // Get the roles defined by the @Roles(...) decorator on the handler/controller
@@ -52,7 +75,9 @@ export class RolesGuard implements CanActivate {
     }
 
     // Get the user object attached by the preceding authentication guard (e.g., JwtAuthGuard)
-    const { user } = context.switchToHttp().getRequest();
+    const { user } = context.switchToHttp().getRequest<{
+      user?: Pick<User, 'id' | 'role' | 'totpEnabledAt'>;
+    }>();
 
     // If no user object or role is found, deny access (problem with auth guard setup)
     if (!user || !user.role) {
@@ -80,6 +105,15 @@ export class RolesGuard implements CanActivate {
       );
     }
 
+    if (this.mfaRequiredRoles.includes(user.role) && !user.totpEnabledAt) {
+      this.logger.warn(
+        `Access denied for user ${user.id} (Role: ${user.role}): two-factor authentication not enabled.`,
+      );
+      throw new ForbiddenException(
+        'Two-factor authentication must be enabled for your role. Set it up through /auth/mfa/setup.',
+      );
+    }
+
     // If the user's role matches one of the required roles, grant access
     this.logger.verbose(
       `Access granted for user ${user.id} (Role: ${user.role}).`,
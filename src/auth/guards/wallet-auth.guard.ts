@@ -7,7 +7,6 @@
  * Description: Authentication guard for wallet strategy.
  * This guard uses the 'wallet' Passport strategy for Cardano wallet signature verification.
  * It's applied to routes requiring wallet authentication.
- * NOTE: Requires WalletStrategy and underlying signature verification to be fully implemented.
  * --------------------------------------------------------------------------
  */
 import { Injectable, ExecutionContext, Logger } from '@nestjs/common';
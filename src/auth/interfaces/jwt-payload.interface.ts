@@ -38,5 +38,23 @@ export interface JwtPayload {
    */
   name?: string;
 
+  /**
+   * Refresh session family (signed-in device) the token was issued for.
+   * Optional: tokens issued before sessions were tracked do not carry it.
+   */
+  sid?: string;
+
+  /**
+   * User.tokenVersion when the token was issued. Tokens with an older version
+   * are rejected (the user was deactivated since). Missing means version 0.
+   */
+  ver?: number;
+
+  /**
+   * Set on the short-lived token of a login waiting for its two-factor code.
+   * Such a token only works for POST /auth/login/mfa, never as an access token.
+   */
+  typ?: 'mfa_pending';
+
   // Add other relevant, non-sensitive claims here if necessary (e.g., provider type?).
 }
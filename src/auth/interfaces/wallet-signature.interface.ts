@@ -0,0 +1,28 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: wallet-signature.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Defines the data a client submits to prove control of a Cardano
+ * wallet: the nonce it was challenged with and the CIP-30 `signData` result
+ * (CIP-8 COSE_Sign1 signature and COSE_Key).
+ * --------------------------------------------------------------------------
+ */
+
+export interface WalletSignatureData {
+  /**
+   * Nonce issued by the wallet challenge endpoint.
+   */
+  nonce: string;
+
+  /**
+   * Hex-encoded COSE_Sign1 structure returned by the wallet.
+   */
+  signature: string;
+
+  /**
+   * Hex-encoded COSE_Key holding the public key that produced the signature.
+   */
+  key: string;
+}
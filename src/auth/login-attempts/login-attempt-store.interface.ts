@@ -0,0 +1,54 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: login-attempt-store.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Contract of the store counting failed logins per key (an
+ * account or a client IP). The in-memory store only suits a single replica;
+ * the Postgres store shares the counters across replicas.
+ * --------------------------------------------------------------------------
+ */
+
+/**
+ * Injection token of the active LoginAttemptStore.
+ */
+export const LOGIN_ATTEMPT_STORE = 'LOGIN_ATTEMPT_STORE';
+
+export interface LoginAttemptRecord {
+  /** Consecutive failures within the counting window. */
+  failures: number;
+  lastFailureAt: Date;
+  /** Set while the key is locked out. */
+  lockedUntil: Date | null;
+}
+
+export interface LoginAttemptStore {
+  /** The store name, e.g. "memory" or "postgres". */
+  readonly name: string;
+
+  /**
+   * Returns the counters of a key, or null if it has no recorded failure.
+   */
+  get(key: string): Promise<LoginAttemptRecord | null>;
+
+  /**
+   * Counts a failure atomically. The count restarts at 1 when the previous
+   * failure is older than the window.
+   *
+   * @param key The account or IP key.
+   * @param windowMs How long a failure keeps counting.
+   * @returns The counters after the failure.
+   */
+  recordFailure(key: string, windowMs: number): Promise<LoginAttemptRecord>;
+
+  /**
+   * Locks a key out until the given time.
+   */
+  lock(key: string, until: Date): Promise<void>;
+
+  /**
+   * Forgets the failures and lockout of a key.
+   */
+  reset(key: string): Promise<void>;
+}
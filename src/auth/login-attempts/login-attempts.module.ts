@@ -0,0 +1,45 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: login-attempts.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for login brute-force protection, shared by the
+ * AuthModule (counting attempts) and the UsersModule (admin unlock). Binds
+ * LOGIN_ATTEMPT_STORE to the store selected by the LOGIN_ATTEMPT_STORE
+ * environment variable (default: memory).
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MetricsModule } from '../../metrics/metrics.module';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LOGIN_ATTEMPT_STORE } from './login-attempt-store.interface';
+import { MemoryLoginAttemptStore } from './stores/memory-login-attempt.store';
+import { PostgresLoginAttemptStore } from './stores/postgres-login-attempt.store';
+
+@Module({
+  imports: [ConfigModule, MetricsModule],
+  providers: [
+    LoginAttemptsService,
+    {
+      provide: LOGIN_ATTEMPT_STORE,
+      useFactory: (config: ConfigService, prisma: PrismaService) => {
+        const name = config.get<string>('LOGIN_ATTEMPT_STORE') ?? 'memory';
+        switch (name) {
+          case 'memory':
+            return new MemoryLoginAttemptStore();
+          case 'postgres':
+            return new PostgresLoginAttemptStore(prisma);
+          default:
+            throw new Error(`Unknown LOGIN_ATTEMPT_STORE "${name}".`);
+        }
+      },
+      inject: [ConfigService, PrismaService],
+    },
+  ],
+  exports: [LoginAttemptsService],
+})
+export class LoginAttemptsModule {}
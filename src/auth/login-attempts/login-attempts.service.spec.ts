@@ -0,0 +1,131 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: login-attempts.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for LoginAttemptsService: backoff after failures,
+ * lockout of accounts and IPs, reset on success and admin unlock.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../../metrics/metrics.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LOGIN_ATTEMPT_STORE } from './login-attempt-store.interface';
+import { MemoryLoginAttemptStore } from './stores/memory-login-attempt.store';
+
+const IP = '203.0.113.10';
+const USER_ID = 'user-1';
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+  const metrics = {
+    incrementLoginFailure: jest.fn(),
+    incrementLoginLockout: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-08-16T10:00:00Z') });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptsService,
+        {
+          provide: LOGIN_ATTEMPT_STORE,
+          useValue: new MemoryLoginAttemptStore(),
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            LOGIN_BACKOFF_BASE_MS: '1000',
+            LOGIN_BACKOFF_MAX_MS: '4000',
+            LOGIN_MAX_FAILURES_PER_ACCOUNT: '3',
+            LOGIN_MAX_FAILURES_PER_IP: '5',
+            LOGIN_LOCKOUT_SECONDS: '600',
+          }),
+        },
+        { provide: MetricsService, useValue: metrics },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptsService>(LoginAttemptsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('doubles the wait after each failure', async () => {
+    await service.recordFailure('pin', IP, USER_ID);
+    await expect(service.assertAllowed(IP, USER_ID)).rejects.toThrow(
+      'Try again in 1 seconds.',
+    );
+
+    jest.advanceTimersByTime(1000);
+    await expect(service.assertAllowed(IP, USER_ID)).resolves.toBeUndefined();
+
+    await service.recordFailure('pin', IP, USER_ID);
+    await expect(service.assertAllowed(undefined, USER_ID)).rejects.toThrow(
+      'Try again in 2 seconds.',
+    );
+    expect(metrics.incrementLoginFailure).toHaveBeenCalledWith('pin');
+  });
+
+  it('locks the account out once it reaches its limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      await service.recordFailure('password', `198.51.100.${i}`, USER_ID);
+      jest.advanceTimersByTime(5000);
+    }
+
+    const error = (await service
+      .assertAllowed('198.51.100.99', USER_ID)
+      .catch((e: unknown) => e)) as HttpException;
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(error.message).toContain('Try again in 595 seconds.');
+    expect(metrics.incrementLoginLockout).toHaveBeenCalledWith('account');
+
+    jest.advanceTimersByTime(595_000);
+    await expect(
+      service.assertAllowed('198.51.100.99', USER_ID),
+    ).resolves.toBeUndefined();
+  });
+
+  it('locks the client IP out across accounts', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.recordFailure('password', IP, `user-${i}`);
+      jest.advanceTimersByTime(5000);
+    }
+
+    await expect(service.assertAllowed(IP)).rejects.toThrow(HttpException);
+    await expect(
+      service.assertAllowed('198.51.100.1', 'user-9'),
+    ).resolves.toBeUndefined();
+    expect(metrics.incrementLoginLockout).toHaveBeenCalledWith('ip');
+  });
+
+  it('clears the account failures on success but keeps the IP ones', async () => {
+    await service.recordFailure('password', IP, USER_ID);
+    await service.recordSuccess(USER_ID);
+
+    await expect(
+      service.assertAllowed(undefined, USER_ID),
+    ).resolves.toBeUndefined();
+    await expect(service.assertAllowed(IP)).rejects.toThrow(HttpException);
+  });
+
+  it('lets an admin unlock a locked-out account', async () => {
+    for (let i = 0; i < 3; i++) {
+      await service.recordFailure('pin', undefined, USER_ID);
+    }
+
+    await expect(service.unlock(USER_ID)).resolves.toBe(true);
+    await expect(
+      service.assertAllowed(undefined, USER_ID),
+    ).resolves.toBeUndefined();
+    await expect(service.unlock(USER_ID)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,198 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: login-attempts.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Brute-force protection for password, PIN and two-factor
+ * logins. Failed attempts are counted per account and per client IP. Each
+ * failure makes the next attempt wait longer (exponential backoff), and too
+ * many failures lock the account or IP out for a while. Admins can lift an
+ * account lockout.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../../metrics/metrics.service';
+import {
+  LOGIN_ATTEMPT_STORE,
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from './login-attempt-store.interface';
+
+/**
+ * Login method, used as the metrics label of failures.
+ */
+export type LoginMethod = 'password' | 'pin' | 'totp';
+
+interface AttemptPolicy {
+  scope: 'account' | 'ip';
+  maxFailures: number;
+}
+
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+  private readonly windowMs: number;
+  private readonly lockoutMs: number;
+  private readonly backoffBaseMs: number;
+  private readonly backoffMaxMs: number;
+  private readonly account: AttemptPolicy;
+  private readonly ip: AttemptPolicy;
+
+  constructor(
+    @Inject(LOGIN_ATTEMPT_STORE) private readonly store: LoginAttemptStore,
+    private readonly config: ConfigService,
+    private readonly metrics: MetricsService,
+  ) {
+    this.windowMs =
+      Number(this.config.get<string>('LOGIN_FAILURE_WINDOW_SECONDS') ?? 900) *
+      1000;
+    this.lockoutMs =
+      Number(this.config.get<string>('LOGIN_LOCKOUT_SECONDS') ?? 900) * 1000;
+    this.backoffBaseMs = Number(
+      this.config.get<string>('LOGIN_BACKOFF_BASE_MS') ?? 1000,
+    );
+    this.backoffMaxMs = Number(
+      this.config.get<string>('LOGIN_BACKOFF_MAX_MS') ?? 30000,
+    );
+    this.account = {
+      scope: 'account',
+      maxFailures: Number(
+        this.config.get<string>('LOGIN_MAX_FAILURES_PER_ACCOUNT') ?? 5,
+      ),
+    };
+    this.ip = {
+      scope: 'ip',
+      maxFailures: Number(
+        this.config.get<string>('LOGIN_MAX_FAILURES_PER_IP') ?? 50,
+      ),
+    };
+  }
+
+  /**
+   * Rejects the attempt if the client IP or the account is locked out or
+   * still has to wait after its last failure. Call before checking the secret.
+   *
+   * @param {string | undefined} ipAddress - The client IP.
+   * @param {string} [userId] - The account being logged into, if it exists.
+   * @throws {HttpException} 429 with the time to wait.
+   */
+  async assertAllowed(
+    ipAddress: string | undefined,
+    userId?: string,
+  ): Promise<void> {
+    const now = Date.now();
+    for (const [key] of this.keys(ipAddress, userId)) {
+      const record = await this.store.get(key);
+      if (!record) continue;
+      const retryAt = this.retryAt(record);
+      if (retryAt > now) {
+        const seconds = Math.ceil((retryAt - now) / 1000);
+        this.logger.warn(`Login attempt for ${key} refused for ${seconds}s`);
+        throw new HttpException(
+          `Too many failed login attempts. Try again in ${seconds} seconds.`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+  }
+
+  /**
+   * Counts a failed attempt against the client IP and the account, locking
+   * them out once they reach their limit.
+   *
+   * @param {LoginMethod} method - The login method that failed.
+   * @param {string | undefined} ipAddress - The client IP.
+   * @param {string} [userId] - The account being logged into, if it exists.
+   */
+  async recordFailure(
+    method: LoginMethod,
+    ipAddress: string | undefined,
+    userId?: string,
+  ): Promise<void> {
+    this.metrics.incrementLoginFailure(method);
+    for (const [key, policy] of this.keys(ipAddress, userId)) {
+      const record = await this.store.recordFailure(key, this.windowMs);
+      if (record.failures >= policy.maxFailures) {
+        const until = new Date(Date.now() + this.lockoutMs);
+        await this.store.lock(key, until);
+        this.metrics.incrementLoginLockout(policy.scope);
+        this.logger.warn(
+          `Locked out ${key} until ${until.toISOString()} after ${record.failures} failed ${method} logins`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Clears the failures of an account after a successful login. The IP
+   * counters are kept, so one valid account cannot reset them.
+   *
+   * @param {string} userId - The account that logged in.
+   */
+  async recordSuccess(userId: string): Promise<void> {
+    await this.store.reset(this.accountKey(userId));
+  }
+
+  /**
+   * Lifts the lockout and failures of an account.
+   *
+   * @param {string} userId - The account to unlock.
+   * @returns {Promise<boolean>} Whether the account was locked out.
+   */
+  async unlock(userId: string): Promise<boolean> {
+    const key = this.accountKey(userId);
+    const record = await this.store.get(key);
+    await this.store.reset(key);
+    const wasLocked =
+      !!record?.lockedUntil && record.lockedUntil.getTime() > Date.now();
+    this.logger.log(
+      `Login failures of user ${userId} cleared${wasLocked ? ' (was locked out)' : ''}`,
+    );
+    return wasLocked;
+  }
+
+  // --- Helpers ---
+
+  private keys(
+    ipAddress: string | undefined,
+    userId?: string,
+  ): [string, AttemptPolicy][] {
+    const keys: [string, AttemptPolicy][] = [];
+    if (ipAddress) keys.push([`ip:${ipAddress}`, this.ip]);
+    if (userId) keys.push([this.accountKey(userId), this.account]);
+    return keys;
+  }
+
+  private accountKey(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  /**
+   * Earliest time (epoch ms) the next attempt is accepted: the end of the
+   * lockout, or the last failure plus a delay doubling with each failure.
+   */
+  private retryAt(record: LoginAttemptRecord): number {
+    const lockedUntil = record.lockedUntil?.getTime() ?? 0;
+    if (
+      record.failures === 0 ||
+      Date.now() - record.lastFailureAt.getTime() > this.windowMs
+    ) {
+      return lockedUntil;
+    }
+    const exponent = Math.min(record.failures - 1, 30);
+    const delay = Math.min(
+      this.backoffBaseMs * 2 ** exponent,
+      this.backoffMaxMs,
+    );
+    return Math.max(lockedUntil, record.lastFailureAt.getTime() + delay);
+  }
+}
@@ -0,0 +1,77 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: memory-login-attempt.store.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Login attempt store keeping the counters in process memory.
+ * Counters are lost on restart and not shared between replicas. Entries are
+ * dropped once their window and lockout have passed.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from '../login-attempt-store.interface';
+
+// Entries kept before expired ones are swept
+const SWEEP_THRESHOLD = 10_000;
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  readonly name = 'memory';
+  private readonly records = new Map<
+    string,
+    LoginAttemptRecord & { expiresAt: number }
+  >();
+
+  get(key: string): Promise<LoginAttemptRecord | null> {
+    const record = this.records.get(key);
+    if (!record) return Promise.resolve(null);
+    const { failures, lastFailureAt, lockedUntil } = record;
+    return Promise.resolve({ failures, lastFailureAt, lockedUntil });
+  }
+
+  recordFailure(key: string, windowMs: number): Promise<LoginAttemptRecord> {
+    const now = Date.now();
+    const previous = this.records.get(key);
+    const inWindow =
+      previous && now - previous.lastFailureAt.getTime() <= windowMs;
+    const record = {
+      failures: inWindow ? previous.failures + 1 : 1,
+      lastFailureAt: new Date(now),
+      lockedUntil: previous?.lockedUntil ?? null,
+      expiresAt: Math.max(
+        now + windowMs,
+        previous?.lockedUntil?.getTime() ?? 0,
+      ),
+    };
+    this.records.set(key, record);
+    if (this.records.size > SWEEP_THRESHOLD) this.sweep(now);
+    return this.get(key) as Promise<LoginAttemptRecord>;
+  }
+
+  lock(key: string, until: Date): Promise<void> {
+    const record = this.records.get(key) ?? {
+      failures: 0,
+      lastFailureAt: new Date(),
+      lockedUntil: null,
+      expiresAt: 0,
+    };
+    record.lockedUntil = until;
+    record.expiresAt = Math.max(record.expiresAt, until.getTime());
+    this.records.set(key, record);
+    return Promise.resolve();
+  }
+
+  reset(key: string): Promise<void> {
+    this.records.delete(key);
+    return Promise.resolve();
+  }
+
+  private sweep(now: number): void {
+    for (const [key, record] of this.records) {
+      if (record.expiresAt < now) this.records.delete(key);
+    }
+  }
+}
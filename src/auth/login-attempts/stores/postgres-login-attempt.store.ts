@@ -0,0 +1,80 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: postgres-login-attempt.store.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Login attempt store keeping the counters in the
+ * login_attempts table, so every replica sees the same failures and
+ * lockouts. Failures are counted with a single upsert to stay atomic under
+ * concurrent attempts.
+ * --------------------------------------------------------------------------
+ */
+
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from '../login-attempt-store.interface';
+
+export class PostgresLoginAttemptStore implements LoginAttemptStore {
+  readonly name = 'postgres';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    return this.prisma.loginAttempt.findUnique({
+      where: { key },
+      select: { failures: true, lastFailureAt: true, lockedUntil: true },
+    });
+  }
+
+  async recordFailure(
+    key: string,
+    windowMs: number,
+  ): Promise<LoginAttemptRecord> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowMs);
+
+    // Rows whose window and lockout have passed carry no information any more
+    await this.prisma.loginAttempt.deleteMany({
+      where: {
+        lastFailureAt: { lt: windowStart },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      },
+    });
+
+    const [record] = await this.prisma.$queryRaw<LoginAttemptRecord[]>`
+      INSERT INTO "login_attempts" ("key", "failures", "last_failure_at")
+      VALUES (${key}, 1, ${now})
+      ON CONFLICT ("key") DO UPDATE SET
+        "failures" = CASE
+          WHEN "login_attempts"."last_failure_at" >= ${windowStart}
+          THEN "login_attempts"."failures" + 1
+          ELSE 1
+        END,
+        "last_failure_at" = ${now}
+      RETURNING
+        "failures",
+        "last_failure_at" AS "lastFailureAt",
+        "locked_until" AS "lockedUntil"`;
+    return record;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await this.prisma.loginAttempt.upsert({
+      where: { key },
+      create: {
+        key,
+        failures: 0,
+        lastFailureAt: new Date(),
+        lockedUntil: until,
+      },
+      update: { lockedUntil: until },
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.prisma.loginAttempt.deleteMany({ where: { key } });
+  }
+}
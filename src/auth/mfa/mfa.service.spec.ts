@@ -0,0 +1,136 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mfa.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for MfaService: enrollment with an encrypted secret,
+ * single use of authenticator and recovery codes.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MfaService } from './mfa.service';
+import { generateTotp, totpStep } from './totp';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let user: User;
+  const prisma = {
+    user: {
+      findUnique: jest.fn(() => Promise.resolve(user)),
+      update: jest.fn((args: Prisma.UserUpdateArgs) => {
+        user = { ...user, ...(args.data as Partial<User>) };
+        return Promise.resolve(user);
+      }),
+      updateMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    user = {
+      id: 'user-1',
+      email: 'admin@example.com',
+      username: 'admin',
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      totpRecoveryCodes: [],
+    } as unknown as User;
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ MFA_ENCRYPTION_KEY: 'test-key' }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  async function enroll(): Promise<{ secret: Buffer; codes: string[] }> {
+    const { secret } = await service.setup(user.id);
+    const key = base32Decode(secret);
+    const codes = await service.enable(
+      user.id,
+      generateTotp(key, totpStep(Date.now())),
+    );
+    return { secret: key, codes };
+  }
+
+  it('stores the secret encrypted and enables 2FA after a valid code', async () => {
+    const { secret, otpauthUrl } = await service.setup(user.id);
+
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect(user.totpSecret).not.toContain(secret);
+    await expect(service.enable(user.id, '000000')).rejects.toThrow(
+      BadRequestException,
+    );
+
+    const codes = await service.enable(
+      user.id,
+      generateTotp(base32Decode(secret), totpStep(Date.now())),
+    );
+    expect(codes).toHaveLength(10);
+    expect(user.totpEnabledAt).toBeInstanceOf(Date);
+    expect(user.totpRecoveryCodes).not.toContain(codes[0]);
+  });
+
+  it('rejects an authenticator code that was already used', async () => {
+    const { secret } = await enroll();
+    // The step was consumed by enable(): the guarded update matches no row
+    prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.verify(user, generateTotp(secret, totpStep(Date.now()))),
+    ).resolves.toBe(false);
+    const [args] = prisma.user.updateMany.mock.calls[0] as [
+      Prisma.UserUpdateManyArgs,
+    ];
+    expect(args.where?.OR).toEqual([
+      { totpLastUsedStep: null },
+      { totpLastUsedStep: { lt: totpStep(Date.now()) } },
+    ]);
+  });
+
+  it('consumes a recovery code', async () => {
+    const { codes } = await enroll();
+    prisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.verify(user, codes[0].toUpperCase())).resolves.toBe(
+      true,
+    );
+    const [args] = prisma.user.updateMany.mock.calls[0] as [
+      Prisma.UserUpdateManyArgs,
+    ];
+    expect(args.data.totpRecoveryCodes).toEqual({
+      set: user.totpRecoveryCodes.slice(1),
+    });
+    await expect(service.verify(user, 'aaaaa-bbbbb')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,268 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mfa.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service managing TOTP two-factor authentication of users:
+ * enrollment (secret + provisioning URI, confirmed by a first code), one-time
+ * recovery codes, disabling, and verifying the second factor at login.
+ * TOTP secrets are stored encrypted with AES-256-GCM.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@prisma/client';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { base32Encode, buildOtpauthUrl, verifyTotp } from './totp';
+
+// Number of recovery codes issued at once
+const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Starts enrollment: generates a new secret for the user. Two-factor
+   * authentication stays off until `enable` confirms a code from the app.
+   *
+   * @param {string} userId - The user enrolling.
+   * @returns {Promise<{ secret: string; otpauthUrl: string }>} The base32 secret and the URI to show as a QR code.
+   * @throws {BadRequestException} If two-factor authentication is already enabled.
+   */
+  async setup(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled.',
+      );
+    }
+
+    const secret = randomBytes(20);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: this.encrypt(secret), totpLastUsedStep: null },
+    });
+    this.logger.log(`Two-factor setup started for user ${userId}`);
+
+    return {
+      secret: base32Encode(secret),
+      otpauthUrl: buildOtpauthUrl(
+        this.config.get<string>('MFA_ISSUER') ?? 'CAR-dano',
+        user.email ?? user.username ?? user.id,
+        secret,
+      ),
+    };
+  }
+
+  /**
+   * Confirms enrollment with a code from the authenticator app and turns
+   * two-factor authentication on.
+   *
+   * @param {string} userId - The user enrolling.
+   * @param {string} code - Current code from the app.
+   * @returns {Promise<string[]>} The recovery codes, shown to the user once.
+   * @throws {BadRequestException} If setup was not started, 2FA is already on, or the code is wrong.
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled.',
+      );
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException('Start two-factor setup first.');
+    }
+
+    const step = verifyTotp(this.decrypt(user.totpSecret), code, Date.now());
+    if (step === null) {
+      throw new BadRequestException('Invalid authentication code.');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        totpRecoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+      },
+    });
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Turns two-factor authentication off after checking a current code or a
+   * recovery code.
+   *
+   * @param {string} userId - The user.
+   * @param {string} code - Authenticator or recovery code.
+   * @throws {BadRequestException} If 2FA is not enabled or the code is wrong.
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    await this.assertCode(userId, code);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
+      },
+    });
+    this.logger.warn(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  /**
+   * Replaces the recovery codes of a user after checking a current code or
+   * a recovery code. The previous codes stop working.
+   *
+   * @param {string} userId - The user.
+   * @param {string} code - Authenticator or recovery code.
+   * @returns {Promise<string[]>} The new recovery codes.
+   * @throws {BadRequestException} If 2FA is not enabled or the code is wrong.
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.assertCode(userId, code);
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpRecoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+      },
+    });
+    this.logger.log(`Recovery codes regenerated for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks the second factor of a user with 2FA enabled. Accepts a code from
+   * the authenticator app (each code only once) or an unused recovery code,
+   * which is then consumed.
+   *
+   * @param {User} user - The user logging in.
+   * @param {string} code - Authenticator or recovery code.
+   * @returns {Promise<boolean>} Whether the code was accepted.
+   */
+  async verify(user: User, code: string): Promise<boolean> {
+    if (!user.totpEnabledAt || !user.totpSecret) return false;
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+
+    const step = verifyTotp(
+      this.decrypt(user.totpSecret),
+      normalized,
+      Date.now(),
+    );
+    if (step !== null) {
+      // Guarded update: a code already used (or an older one) is rejected
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+        },
+        data: { totpLastUsedStep: step },
+      });
+      if (count !== 1) {
+        this.logger.warn(`Replayed authentication code for user ${user.id}`);
+      }
+      return count === 1;
+    }
+
+    const hash = this.hashRecoveryCode(normalized);
+    if (!user.totpRecoveryCodes.includes(hash)) return false;
+    const remaining = user.totpRecoveryCodes.filter((h) => h !== hash);
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: user.id, totpRecoveryCodes: { has: hash } },
+      data: { totpRecoveryCodes: { set: remaining } },
+    });
+    if (count === 1) {
+      this.logger.warn(
+        `Recovery code used by user ${user.id}; ${remaining.length} left`,
+      );
+    }
+    return count === 1;
+  }
+
+  // --- Helpers ---
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID "${userId}" not found.`);
+    }
+    return user;
+  }
+
+  private async assertCode(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is not enabled.',
+      );
+    }
+    if (!(await this.verify(user, code))) {
+      throw new BadRequestException('Invalid authentication code.');
+    }
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex');
+  }
+
+  private encryptionKey(): Buffer {
+    return createHash('sha256')
+      .update(this.config.getOrThrow<string>('MFA_ENCRYPTION_KEY'))
+      .digest();
+  }
+
+  /** AES-256-GCM, stored as `iv:tag:ciphertext` in base64. */
+  private encrypt(plain: Buffer): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64'))
+      .join(':');
+  }
+
+  private decrypt(stored: string): Buffer {
+    const [iv, tag, ciphertext] = stored
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+}
@@ -0,0 +1,51 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: totp.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for the TOTP helpers against the RFC 6238 and
+ * RFC 4648 test vectors.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotp,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B secret for HMAC-SHA1
+const SECRET = Buffer.from('12345678901234567890');
+
+describe('totp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors (last 6 digits)', () => {
+    expect(generateTotp(SECRET, totpStep(59_000))).toBe('287082');
+    expect(generateTotp(SECRET, totpStep(1111111109_000))).toBe('081804');
+    expect(generateTotp(SECRET, totpStep(2000000000_000))).toBe('279037');
+  });
+
+  it('encodes base32 like RFC 4648 without padding', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Encode(Buffer.from('f'))).toBe('MY');
+  });
+
+  it('accepts codes of adjacent steps only', () => {
+    const now = 1111111109_000;
+    const previous = generateTotp(SECRET, totpStep(now) - 1);
+    const old = generateTotp(SECRET, totpStep(now) - 2);
+
+    expect(verifyTotp(SECRET, '081804', now)).toBe(totpStep(now));
+    expect(verifyTotp(SECRET, previous, now)).toBe(totpStep(now) - 1);
+    expect(verifyTotp(SECRET, old, now)).toBeNull();
+    expect(verifyTotp(SECRET, '08180', now)).toBeNull();
+  });
+
+  it('builds a provisioning URI', () => {
+    expect(buildOtpauthUrl('CAR-dano', 'admin@example.com', SECRET)).toBe(
+      'otpauth://totp/CAR-dano%3Aadmin%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=CAR-dano&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
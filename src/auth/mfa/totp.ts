@@ -0,0 +1,121 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: totp.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits,
+ * 30-second steps) as used by Google Authenticator and similar apps, plus the
+ * base32 encoding and `otpauth://` URI needed to provision them.
+ * --------------------------------------------------------------------------
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Length of a time step in seconds. */
+export const TOTP_PERIOD_SECONDS = 30;
+
+/** Number of digits of a code. */
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32, the format authenticator apps
+ * expect for secrets.
+ *
+ * @param {Buffer} data - The bytes to encode.
+ * @returns {string} The base32 string.
+ */
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Time step of a moment.
+ *
+ * @param {number} timeMs - Epoch milliseconds.
+ * @returns {number} The RFC 6238 counter.
+ */
+export function totpStep(timeMs: number): number {
+  return Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Computes the code of a time step (RFC 4226 HOTP with the step as counter).
+ *
+ * @param {Buffer} secret - The shared secret.
+ * @param {number} step - The time step.
+ * @returns {string} The zero-padded code.
+ */
+export function generateTotp(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Checks a code against the current step and `window` steps on either side,
+ * to allow for clock drift between the server and the device.
+ *
+ * @param {Buffer} secret - The shared secret.
+ * @param {string} code - The code entered by the user.
+ * @param {number} timeMs - Current epoch milliseconds.
+ * @param {number} window - Steps accepted before and after the current one.
+ * @returns {number | null} The step the code belongs to, or null if it does not match.
+ */
+export function verifyTotp(
+  secret: Buffer,
+  code: string,
+  timeMs: number,
+  window = 1,
+): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+  const current = totpStep(timeMs);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+/**
+ * Builds the provisioning URI an authenticator app reads from a QR code.
+ *
+ * @param {string} issuer - Service name shown in the app.
+ * @param {string} accountName - Account label shown in the app (email or username).
+ * @param {Buffer} secret - The shared secret.
+ * @returns {string} The `otpauth://totp/...` URI.
+ */
+export function buildOtpauthUrl(
+  issuer: string,
+  accountName: string,
+  secret: Buffer,
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret: base32Encode(secret),
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
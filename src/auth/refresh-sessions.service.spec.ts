@@ -0,0 +1,164 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: refresh-sessions.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for RefreshSessionsService: storing tokens, rotation
+ * and revocation of the whole family when a rotated token is reused.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { Prisma, RefreshSession } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { RefreshSessionsService } from './refresh-sessions.service';
+
+const TOKEN = 'refresh.jwt.token';
+
+function sessionRow(overrides: Partial<RefreshSession> = {}): RefreshSession {
+  return {
+    id: 'session-1',
+    familyId: 'family-1',
+    userId: 'user-1',
+    tokenHash: createHash('sha256').update(TOKEN).digest('hex'),
+    userAgent: 'jest',
+    ipAddress: '127.0.0.1',
+    authenticatedAt: new Date('2025-08-15T10:00:00Z'),
+    lastUsedAt: new Date('2025-08-15T10:00:00Z'),
+    expiresAt: new Date(Date.now() + 60_000),
+    rotatedAt: null,
+    revokedAt: null,
+    createdAt: new Date('2025-08-15T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('RefreshSessionsService', () => {
+  let service: RefreshSessionsService;
+  const prisma = {
+    refreshSession: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshSessionsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<RefreshSessionsService>(RefreshSessionsService);
+  });
+
+  it('stores the hash of the token, not the token', async () => {
+    prisma.refreshSession.create.mockResolvedValue(sessionRow());
+
+    await service.create({
+      id: 'session-1',
+      familyId: 'family-1',
+      userId: 'user-1',
+      token: TOKEN,
+      authenticatedAt: new Date(),
+      expiresAt: new Date(),
+      metadata: { userAgent: 'jest', ipAddress: '127.0.0.1' },
+    });
+
+    const [args] = prisma.refreshSession.create.mock.calls[0] as [
+      { data: Prisma.RefreshSessionUncheckedCreateInput },
+    ];
+    expect(args.data.tokenHash).toBe(sessionRow().tokenHash);
+    expect(JSON.stringify(args.data)).not.toContain(TOKEN);
+    expect(args.data.userAgent).toBe('jest');
+  });
+
+  describe('rotate', () => {
+    it('marks an unused token as rotated', async () => {
+      prisma.refreshSession.findUnique.mockResolvedValue(sessionRow());
+      prisma.refreshSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const session = await service.rotate(TOKEN, 'session-1');
+
+      expect(session.familyId).toBe('family-1');
+      const [args] = prisma.refreshSession.updateMany.mock.calls[0] as [
+        Prisma.RefreshSessionUpdateManyArgs,
+      ];
+      expect(args.where).toEqual({
+        id: 'session-1',
+        rotatedAt: null,
+        revokedAt: null,
+      });
+    });
+
+    it('revokes the whole family when a rotated token is reused', async () => {
+      prisma.refreshSession.findUnique.mockResolvedValue(
+        sessionRow({ rotatedAt: new Date() }),
+      );
+      prisma.refreshSession.updateMany.mockResolvedValue({ count: 3 });
+
+      await expect(service.rotate(TOKEN, 'session-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prisma.refreshSession.updateMany).toHaveBeenCalledTimes(1);
+      const [args] = prisma.refreshSession.updateMany.mock.calls[0] as [
+        Prisma.RefreshSessionUpdateManyArgs,
+      ];
+      expect(args.where).toEqual({ familyId: 'family-1', revokedAt: null });
+    });
+
+    it('revokes the family when a concurrent request rotated the token first', async () => {
+      prisma.refreshSession.findUnique.mockResolvedValue(sessionRow());
+      prisma.refreshSession.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 2 });
+
+      await expect(service.rotate(TOKEN, 'session-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prisma.refreshSession.updateMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects revoked sessions and tokens not matching the session', async () => {
+      prisma.refreshSession.findUnique.mockResolvedValueOnce(
+        sessionRow({ revokedAt: new Date() }),
+      );
+      await expect(service.rotate(TOKEN, 'session-1')).rejects.toThrow(
+        'Session has been revoked.',
+      );
+
+      prisma.refreshSession.findUnique.mockResolvedValueOnce(sessionRow());
+      await expect(service.rotate('other.token', 'session-1')).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      await expect(service.rotate(TOKEN, undefined)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prisma.refreshSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('revokes only the sessions of the given user', async () => {
+    prisma.refreshSession.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.revoke('user-1', 'family-1')).resolves.toBe(1);
+
+    const [args] = prisma.refreshSession.updateMany.mock.calls[0] as [
+      Prisma.RefreshSessionUpdateManyArgs,
+    ];
+    expect(args.where).toEqual({
+      userId: 'user-1',
+      familyId: 'family-1',
+      revokedAt: null,
+    });
+  });
+});
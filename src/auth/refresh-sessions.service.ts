@@ -0,0 +1,179 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: refresh-sessions.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service persisting issued refresh tokens as RefreshSession rows.
+ * Each login starts a family (one per device) and every refresh rotates the
+ * token within it. A rotated token presented again is treated as stolen and
+ * revokes its whole family. Also lists and revokes the sessions of a user.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { RefreshSession } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Client details recorded with a session.
+ */
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Data needed to store a newly issued refresh token.
+ */
+export interface NewRefreshSession {
+  /** Row ID, sent as the `jti` of the token. */
+  id: string;
+  familyId: string;
+  userId: string;
+  token: string;
+  authenticatedAt: Date;
+  expiresAt: Date;
+  metadata: SessionMetadata;
+}
+
+@Injectable()
+export class RefreshSessionsService {
+  private readonly logger = new Logger(RefreshSessionsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Stores a newly issued refresh token. Expired rows of the user are removed.
+   *
+   * @param {NewRefreshSession} session - The token and the session it belongs to.
+   * @returns {Promise<RefreshSession>} The stored session.
+   */
+  async create(session: NewRefreshSession): Promise<RefreshSession> {
+    const { token, metadata, ...data } = session;
+    await this.prisma.refreshSession.deleteMany({
+      where: { userId: session.userId, expiresAt: { lt: new Date() } },
+    });
+    return this.prisma.refreshSession.create({
+      data: {
+        ...data,
+        tokenHash: this.hashToken(token),
+        userAgent: metadata.userAgent?.slice(0, 512),
+        ipAddress: metadata.ipAddress,
+      },
+    });
+  }
+
+  /**
+   * Marks a refresh token as used so it cannot be presented again. Using a
+   * token that was already rotated revokes its whole family.
+   *
+   * @param {string} token - The refresh token presented by the client.
+   * @param {string | undefined} sessionId - The `jti` of the token.
+   * @returns {Promise<RefreshSession>} The rotated session, whose family the next token joins.
+   * @throws {UnauthorizedException} If the token is unknown, expired, revoked or reused.
+   */
+  async rotate(
+    token: string,
+    sessionId: string | undefined,
+  ): Promise<RefreshSession> {
+    const session = sessionId
+      ? await this.prisma.refreshSession.findUnique({
+          where: { id: sessionId },
+        })
+      : null;
+    if (!session || session.tokenHash !== this.hashToken(token)) {
+      throw new UnauthorizedException('Access Denied');
+    }
+    if (session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked.');
+    }
+
+    const now = new Date();
+    if (session.expiresAt <= now) {
+      throw new UnauthorizedException('Refresh token has expired.');
+    }
+
+    // Guarded update, so two requests racing with the same token cannot both win
+    const { count } = session.rotatedAt
+      ? { count: 0 }
+      : await this.prisma.refreshSession.updateMany({
+          where: { id: session.id, rotatedAt: null, revokedAt: null },
+          data: { rotatedAt: now, lastUsedAt: now },
+        });
+    if (count !== 1) {
+      const revoked = await this.revokeFamily(session.familyId);
+      this.logger.warn(
+        `Refresh token reuse detected for user ${session.userId} (family ${session.familyId}); revoked ${revoked} session(s).`,
+      );
+      throw new UnauthorizedException(
+        'Refresh token has already been used. Please log in again.',
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Lists the signed-in devices of a user: the current token of each family
+   * that is neither revoked nor expired.
+   *
+   * @param {string} userId - The user ID.
+   * @returns {Promise<RefreshSession[]>} The sessions, most recently used first.
+   */
+  async findActive(userId: string): Promise<RefreshSession[]> {
+    return this.prisma.refreshSession.findMany({
+      where: {
+        userId,
+        rotatedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revokes one session family of a user.
+   *
+   * @param {string} userId - The owner of the session.
+   * @param {string} familyId - The session family ID.
+   * @returns {Promise<number>} Number of rows revoked (0 if the session does not exist or was already revoked).
+   */
+  async revoke(userId: string, familyId: string): Promise<number> {
+    const { count } = await this.prisma.refreshSession.updateMany({
+      where: { userId, familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  /**
+   * Revokes every session of a user ("log out everywhere").
+   *
+   * @param {string} userId - The user ID.
+   * @returns {Promise<number>} Number of rows revoked.
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const { count } = await this.prisma.refreshSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    this.logger.log(`Revoked all sessions of user ${userId}`);
+    return count;
+  }
+
+  // --- Helpers ---
+
+  private async revokeFamily(familyId: string): Promise<number> {
+    const { count } = await this.prisma.refreshSession.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -5,6 +5,8 @@
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
  * Description: Implements the Passport.js strategy for validating JWT refresh tokens.
+ * Only the signature, expiry, user and token version are checked here; AuthService.refreshTokens
+ * checks the token against its refresh session and rotates it.
  * --------------------------------------------------------------------------
  */
 import { PassportStrategy } from '@nestjs/passport';
@@ -14,7 +16,6 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../../users/users.service';
 import { JwtPayload } from '../interfaces/jwt-payload.interface';
-import * as bcrypt from 'bcrypt';
 
 @Injectable()
 export class JwtRefreshStrategy extends PassportStrategy(
@@ -42,16 +43,7 @@ export class JwtRefreshStrategy extends PassportStrategy(
 
     const user = await this.usersService.findById(payload.sub);
 
-    if (!user || !user.refreshToken) {
-      throw new UnauthorizedException('Access Denied');
-    }
-
-    const isRefreshTokenMatching = await bcrypt.compare(
-      refreshToken,
-      user.refreshToken,
-    );
-
-    if (!isRefreshTokenMatching) {
+    if (!user || !user.isActive || (payload.ver ?? 0) !== user.tokenVersion) {
       throw new UnauthorizedException('Access Denied');
     }
 
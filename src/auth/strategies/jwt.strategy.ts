@@ -7,6 +7,8 @@
  * Description: Implements the Passport.js JWT strategy for validating access tokens.
  * Extracts the JWT from the Authorization header, verifies its signature and expiration,
  * then uses the payload (user ID) to fetch the corresponding user from the database via UsersService.
+ * Rejects tokens of inactive users and tokens issued before the user's last
+ * deactivation (older `ver` than User.tokenVersion).
  * Attaches the validated user object (without sensitive fields) to `request.user`.
  * --------------------------------------------------------------------------
  */
@@ -21,6 +23,12 @@ import { User } from '@prisma/client'; // Prisma User type
 import { AuthService } from '../auth.service'; // Import AuthService
 import { Request } from 'express'; // Import Request type
 
+// User attached to the request: everything except credentials and secrets
+type SafeUser = Omit<
+  User,
+  'password' | 'googleId' | 'totpSecret' | 'totpRecoveryCodes'
+>;
+
 @Injectable()
 // Define the strategy, extending PassportStrategy with the base JWT Strategy.
 // The default name 'jwt' is implicitly used by JwtAuthGuard unless specified otherwise.
@@ -61,13 +69,13 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
    *
    * @param {Request} req - The raw request object, needed to extract the token for blacklisting check.
    * @param {JwtPayload} payload - The decoded payload extracted from the validated JWT.
-   * @returns {Promise<Omit<User, 'password' | 'googleId'>>} The validated user object (excluding sensitive fields). Passport attaches this to `request.user`.
-   * @throws {UnauthorizedException} If the user referenced in the payload (`payload.sub`) is not found in the database, or if the token is blacklisted.
+   * @returns {Promise<SafeUser>} The validated user object (excluding password hash, googleId and two-factor secrets). Passport attaches this to `request.user`.
+   * @throws {UnauthorizedException} If the user referenced in the payload (`payload.sub`) is not found in the database, is inactive, or if the token is blacklisted or was issued before the user was deactivated.
    */
   async validate(
     req: Request, // Add req parameter
     payload: JwtPayload,
-  ): Promise<Omit<User, 'password' | 'googleId'>> {
+  ): Promise<SafeUser> {
     this.logger.verbose(
       `JWT Strategy validating payload for user ID (sub): ${payload.sub}`,
     );
@@ -79,6 +87,15 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
       throw new UnauthorizedException('Token not provided.');
     }
 
+    // A login waiting for its two-factor code is not authenticated yet, and
+    // partner (client credentials) tokens never stand for a user
+    if (payload.typ) {
+      this.logger.warn(
+        `JWT validation failed: ${payload.typ} token used as access token for user ID ${payload.sub}.`,
+      );
+      throw new UnauthorizedException('Invalid token type.');
+    }
+
     // Check if the token is blacklisted
     const isBlacklisted = await this.authService.isTokenBlacklisted(token);
     if (isBlacklisted) {
@@ -99,10 +116,26 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
       throw new UnauthorizedException('User associated with token not found.');
     }
 
+    if (!user.isActive) {
+      this.logger.warn(
+        `JWT validation failed: User with ID ${user.id} is inactive.`,
+      );
+      throw new UnauthorizedException('User account is inactive.');
+    }
+
+    // Tokens issued before the last deactivation carry an older version
+    if ((payload.ver ?? 0) !== user.tokenVersion) {
+      this.logger.warn(
+        `JWT validation failed: Token for user ID ${user.id} has been revoked.`,
+      );
+      throw new UnauthorizedException('Token has been invalidated.');
+    }
+
     // If user is found, return the relevant user data (excluding sensitive info)
     this.logger.verbose(`JWT validation successful for user ID: ${user.id}`);
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password, googleId, ...result } = user; // Exclude password hash and googleId
+    const { password, googleId, totpSecret, totpRecoveryCodes, ...result } =
+      user; // Exclude password hash, googleId and two-factor secrets
     return result; // This becomes req.user
   }
 }
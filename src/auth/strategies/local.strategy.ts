@@ -14,6 +14,7 @@ import { PassportStrategy } from '@nestjs/passport'; // Base class for NestJS Pa
 import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
 import { AuthService } from '../auth.service'; // Service containing validation logic
 import { User } from '@prisma/client'; // Import User type for return value structure
+import { Request } from 'express';
 
 @Injectable()
 // Define the strategy class, extending PassportStrategy with the base Local Strategy
@@ -29,6 +30,8 @@ export class LocalStrategy extends PassportStrategy(Strategy, 'local') {
    *   in the request body field named 'loginIdentifier' (matching LoginUserDto).
    * - `passwordField: 'password'`: Tells passport-local to look for the password in the
    *   request body field named 'password' (matching LoginUserDto).
+   * - `passReqToCallback: true`: Passes the request to `validate`, so failed attempts
+   *   can be throttled per client IP.
    *
    * @param {AuthService} authService - The authentication service instance.
    */
@@ -36,6 +39,7 @@ export class LocalStrategy extends PassportStrategy(Strategy, 'local') {
     super({
       usernameField: 'loginIdentifier', // Corresponds to the field in LoginUserDto
       passwordField: 'password',
+      passReqToCallback: true,
     });
     this.logger.log('Local Strategy Initialized');
   }
@@ -46,12 +50,14 @@ export class LocalStrategy extends PassportStrategy(Strategy, 'local') {
    * It delegates the core validation logic (finding user, comparing hashed password)
    * to the injected `authService.validateLocalUser`.
    *
+   * @param {Request} req - The incoming request, used for the client IP.
    * @param {string} loginIdentifier - The email or username submitted by the user.
    * @param {string} password - The plain text password submitted by the user.
    * @returns {Promise<Omit<User, 'password' | 'googleId'>>} The validated user object (excluding sensitive fields like password hash and googleId). Passport attaches this to `request.user`.
    * @throws {UnauthorizedException} If `authService.validateLocalUser` returns null (indicating invalid credentials or user not found).
    */
   async validate(
+    req: Request,
     loginIdentifier: string,
     password: string,
   ): Promise<Omit<User, 'password' | 'googleId'>> {
@@ -62,6 +68,7 @@ export class LocalStrategy extends PassportStrategy(Strategy, 'local') {
     const user = await this.authService.validateLocalUser(
       loginIdentifier,
       password,
+      req.ip,
     );
 
     // If the service method returns null, authentication failed.
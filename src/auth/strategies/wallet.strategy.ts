@@ -4,10 +4,9 @@
  * Project: car-dano-backend
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
- * Description: Placeholder for a custom Passport.js strategy for Cardano wallet authentication.
- * WARNING: The core signature verification logic within AuthService.validateWalletUser
- * needs to be implemented using a suitable Cardano library (MeshJS, Lucid, CSL)
- * based on the frontend's signing mechanism.
+ * Description: Custom Passport.js strategy for Cardano wallet authentication.
+ * Reads the wallet address, nonce and CIP-30 signData result from the request body
+ * and delegates signature and nonce verification to AuthService.validateWalletUser.
  * --------------------------------------------------------------------------
  */
 
@@ -23,10 +22,12 @@ import { AuthService } from '../auth.service';
 import { User } from '@prisma/client';
 import { Request } from 'express'; // Import Request to access body/query
 
-// Define an interface for the expected request body structure
+// Expected request body structure (see LoginWalletDto)
 interface WalletAuthRequestBody {
-  walletAddress?: string;
-  signatureData?: any; // Adjust 'any' to a more specific type if known
+  walletAddress?: unknown;
+  nonce?: unknown;
+  signature?: unknown;
+  key?: unknown;
 }
 
 @Injectable()
@@ -36,9 +37,7 @@ export class WalletStrategy extends PassportStrategy(Strategy, 'wallet') {
 
   constructor(private authService: AuthService) {
     super(); // Call super for passport-custom
-    this.logger.log(
-      'Wallet Strategy Initialized (Placeholder - Verification Logic Missing!)',
-    );
+    this.logger.log('Wallet Strategy Initialized');
   }
 
   /**
@@ -53,28 +52,36 @@ export class WalletStrategy extends PassportStrategy(Strategy, 'wallet') {
   async validate(req: Request): Promise<Omit<User, 'password' | 'googleId'>> {
     this.logger.verbose('WalletStrategy attempting validation...');
 
-    // --- Extract Data from Request ---
-    // Adjust this based on how the frontend sends the data (body, query, headers?)
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-    const { walletAddress, signatureData } = req.body as WalletAuthRequestBody; // Example: Assuming sent in body
-    // ---------------------------------
+    // Guards run before validation pipes, so the body is checked here
+    const { walletAddress, nonce, signature, key } = (req.body ??
+      {}) as WalletAuthRequestBody;
 
-    if (!walletAddress || !signatureData) {
+    if (
+      typeof walletAddress !== 'string' ||
+      typeof nonce !== 'string' ||
+      typeof signature !== 'string' ||
+      typeof key !== 'string' ||
+      !walletAddress ||
+      !nonce ||
+      !signature ||
+      !key
+    ) {
       this.logger.warn(
-        'WalletStrategy validation failed: Missing walletAddress or signatureData in request.',
+        'WalletStrategy validation failed: Missing walletAddress, nonce, signature or key in request.',
       );
       throw new BadRequestException(
-        'Missing wallet address or signature data.',
+        'Missing wallet address, nonce, signature or key.',
       );
     }
 
     this.logger.verbose(`Validating wallet address: ${walletAddress}`);
 
-    // Delegate validation (including the crucial, unimplemented signature check) to AuthService
-    const user = await this.authService.validateWalletUser(
-      walletAddress,
-      signatureData,
-    );
+    // Delegate nonce and signature verification to AuthService
+    const user = await this.authService.validateWalletUser(walletAddress, {
+      nonce,
+      signature,
+      key,
+    });
 
     if (!user) {
       this.logger.warn(
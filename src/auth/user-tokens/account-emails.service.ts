@@ -0,0 +1,111 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: account-emails.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Sends the account emails carrying a single-use link: password
+ * reset, email verification and staff invitation. Links point to the
+ * frontend (CLIENT_BASE_URL), which posts the token back to the API.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User, UserTokenType } from '@prisma/client';
+import { MailerService } from '../../mailer/mailer.service';
+import { UserTokensService } from './user-tokens.service';
+
+// Frontend page opened by the link of each token type
+const LINK_PATHS: Record<UserTokenType, string> = {
+  [UserTokenType.PASSWORD_RESET]: '/reset-password',
+  [UserTokenType.EMAIL_VERIFICATION]: '/verify-email',
+  [UserTokenType.INVITATION]: '/accept-invitation',
+};
+
+type Recipient = Pick<User, 'id' | 'email' | 'name' | 'username'> & {
+  email: string;
+};
+
+@Injectable()
+export class AccountEmailsService {
+  constructor(
+    private readonly userTokens: UserTokensService,
+    private readonly mailer: MailerService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Sends a password reset link.
+   *
+   * @param {Recipient} user - The user, with an email address.
+   */
+  async sendPasswordReset(user: Recipient): Promise<void> {
+    const link = await this.createLink(user.id, UserTokenType.PASSWORD_RESET);
+    await this.mailer.sendTemplate(user.email, 'password-reset', {
+      name: this.displayName(user),
+      link,
+      expiresInMinutes: Math.round(
+        this.userTokens.ttlSeconds(UserTokenType.PASSWORD_RESET) / 60,
+      ),
+    });
+  }
+
+  /**
+   * Sends an email verification link.
+   *
+   * @param {Recipient} user - The user, with the address to verify.
+   */
+  async sendEmailVerification(user: Recipient): Promise<void> {
+    const link = await this.createLink(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+    await this.mailer.sendTemplate(user.email, 'email-verification', {
+      name: this.displayName(user),
+      link,
+      expiresInHours: Math.round(
+        this.userTokens.ttlSeconds(UserTokenType.EMAIL_VERIFICATION) / 3600,
+      ),
+    });
+  }
+
+  /**
+   * Sends an invitation link to a staff account that has no credentials yet.
+   *
+   * @param {Recipient & Pick<User, 'role'>} user - The invited user.
+   * @param {string} invitedBy - Name of the admin who invited them.
+   */
+  async sendInvitation(
+    user: Recipient & Pick<User, 'role'>,
+    invitedBy: string,
+  ): Promise<void> {
+    const link = await this.createLink(user.id, UserTokenType.INVITATION);
+    await this.mailer.sendTemplate(user.email, 'invitation', {
+      name: this.displayName(user),
+      link,
+      role: user.role.toLowerCase(),
+      invitedBy,
+      expiresInHours: Math.round(
+        this.userTokens.ttlSeconds(UserTokenType.INVITATION) / 3600,
+      ),
+    });
+  }
+
+  // --- Helpers ---
+
+  private async createLink(
+    userId: string,
+    type: UserTokenType,
+  ): Promise<string> {
+    const { token } = await this.userTokens.issue(userId, type);
+    const baseUrl = this.config
+      .getOrThrow<string>('CLIENT_BASE_URL')
+      .replace(/\/+$/, '');
+    return `${baseUrl}${LINK_PATHS[type]}?token=${encodeURIComponent(token)}`;
+  }
+
+  private displayName(user: Recipient): string {
+    return user.name ?? user.username ?? user.email;
+  }
+}
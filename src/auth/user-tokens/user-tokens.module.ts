@@ -0,0 +1,23 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: user-tokens.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for single-use email tokens (password reset,
+ * email verification, invitation) and the emails carrying them, shared by
+ * the AuthModule (consuming tokens) and the UsersModule (invitations).
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { MailerModule } from '../../mailer/mailer.module';
+import { UserTokensService } from './user-tokens.service';
+import { AccountEmailsService } from './account-emails.service';
+
+@Module({
+  imports: [MailerModule],
+  providers: [UserTokensService, AccountEmailsService],
+  exports: [UserTokensService, AccountEmailsService],
+})
+export class UserTokensModule {}
@@ -0,0 +1,100 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: user-tokens.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for UserTokensService: signed tokens bound to their
+ * type, and single use of password reset, verification and invitation links.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, UserToken, UserTokenType } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UserTokensService } from './user-tokens.service';
+
+describe('UserTokensService', () => {
+  let service: UserTokensService;
+  let record: UserToken | null;
+  const prisma = {
+    userToken: {
+      create: jest.fn((args: Prisma.UserTokenCreateArgs) => {
+        record = {
+          ...(args.data as UserToken),
+          id: 'token-1',
+          usedAt: null,
+          createdAt: new Date(),
+        };
+        return record;
+      }),
+      deleteMany: jest.fn(),
+      findUnique: jest.fn(() => Promise.resolve(record)),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    record = null;
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserTokensService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ JWT_SECRET: 'test-secret' }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserTokensService>(UserTokensService);
+  });
+
+  it('issues a token that can be used once', async () => {
+    const { token, expiresAt } = await service.issue(
+      'user-1',
+      UserTokenType.PASSWORD_RESET,
+    );
+    expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+    expect(prisma.userToken.deleteMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        type: UserTokenType.PASSWORD_RESET,
+        usedAt: null,
+      },
+    });
+
+    prisma.userToken.updateMany.mockResolvedValueOnce({ count: 1 });
+    await expect(
+      service.consume(token, UserTokenType.PASSWORD_RESET),
+    ).resolves.toBe('user-1');
+
+    // The guarded update matches no row once the token is used
+    prisma.userToken.updateMany.mockResolvedValueOnce({ count: 0 });
+    await expect(
+      service.consume(token, UserTokenType.PASSWORD_RESET),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('rejects forged tokens and tokens of another type', async () => {
+    const { token } = await service.issue(
+      'user-1',
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+
+    await expect(
+      service.consume(`${record!.id}.forged`, UserTokenType.EMAIL_VERIFICATION),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.consume(token, UserTokenType.PASSWORD_RESET),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.consume('malformed', UserTokenType.EMAIL_VERIFICATION),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.userToken.updateMany).not.toHaveBeenCalled();
+  });
+});
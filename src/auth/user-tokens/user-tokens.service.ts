@@ -0,0 +1,136 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: user-tokens.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service issuing and consuming the single-use tokens sent by
+ * email for password reset, email verification and staff invitations. A
+ * token is `<record id>.<HMAC-SHA256 signature>`, signed with
+ * USER_TOKEN_SECRET (default: JWT_SECRET); the record makes it single use
+ * and expiring. Issuing a token replaces the user's unused token of the same
+ * type.
+ * --------------------------------------------------------------------------
+ */
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserTokenType } from '@prisma/client';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+
+// Default lifetime of each token type, in seconds
+const DEFAULT_TTL_SECONDS: Record<UserTokenType, number> = {
+  [UserTokenType.PASSWORD_RESET]: 60 * 60,
+  [UserTokenType.EMAIL_VERIFICATION]: 48 * 60 * 60,
+  [UserTokenType.INVITATION]: 7 * 24 * 60 * 60,
+};
+
+// Environment variable overriding the lifetime of each token type
+const TTL_CONFIG_KEYS: Record<UserTokenType, string> = {
+  [UserTokenType.PASSWORD_RESET]: 'PASSWORD_RESET_TOKEN_TTL_SECONDS',
+  [UserTokenType.EMAIL_VERIFICATION]: 'EMAIL_VERIFICATION_TOKEN_TTL_SECONDS',
+  [UserTokenType.INVITATION]: 'INVITATION_TOKEN_TTL_SECONDS',
+};
+
+@Injectable()
+export class UserTokensService {
+  private readonly logger = new Logger(UserTokensService.name);
+  private readonly secret: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+  ) {
+    this.secret =
+      config.get<string>('USER_TOKEN_SECRET') ??
+      config.getOrThrow<string>('JWT_SECRET');
+  }
+
+  /**
+   * Issues a token for a user. The user's unused token of the same type
+   * stops working.
+   *
+   * @param {string} userId - The user the token is for.
+   * @param {UserTokenType} type - What the token allows.
+   * @returns {Promise<{ token: string; expiresAt: Date }>} The token to put in the link and its expiry.
+   */
+  async issue(
+    userId: string,
+    type: UserTokenType,
+  ): Promise<{ token: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + this.ttlSeconds(type) * 1000);
+    const [, record] = await this.prisma.$transaction([
+      this.prisma.userToken.deleteMany({
+        where: { userId, type, usedAt: null },
+      }),
+      this.prisma.userToken.create({ data: { userId, type, expiresAt } }),
+    ]);
+    this.logger.log(`${type} token issued for user ${userId}`);
+    return {
+      token: `${record.id}.${this.sign(record.id, type, userId)}`,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Checks a token and marks it used.
+   *
+   * @param {string} token - The token from the link.
+   * @param {UserTokenType} type - The expected type.
+   * @returns {Promise<string>} The ID of the user the token was issued for.
+   * @throws {BadRequestException} If the token is malformed, forged, of another type, expired or already used.
+   */
+  async consume(token: string, type: UserTokenType): Promise<string> {
+    const [id, signature] = token.split('.');
+    const record =
+      id && signature
+        ? await this.prisma.userToken.findUnique({ where: { id } })
+        : null;
+    if (
+      !record ||
+      record.type !== type ||
+      !this.verify(signature, this.sign(record.id, type, record.userId))
+    ) {
+      throw new BadRequestException('Invalid or expired link.');
+    }
+
+    // Guarded update: of two concurrent uses only one succeeds
+    const { count } = await this.prisma.userToken.updateMany({
+      where: { id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    if (count !== 1) {
+      throw new BadRequestException('Invalid or expired link.');
+    }
+    this.logger.log(`${type} token used by user ${record.userId}`);
+    return record.userId;
+  }
+
+  /**
+   * Lifetime of a token type.
+   *
+   * @param {UserTokenType} type - The token type.
+   * @returns {number} Seconds a token of this type stays valid.
+   */
+  ttlSeconds(type: UserTokenType): number {
+    return Number(
+      this.config.get<string>(TTL_CONFIG_KEYS[type]) ??
+        DEFAULT_TTL_SECONDS[type],
+    );
+  }
+
+  // --- Helpers ---
+
+  private sign(id: string, type: UserTokenType, userId: string): string {
+    return createHmac('sha256', this.secret)
+      .update(`${id}:${type}:${userId}`)
+      .digest('base64url');
+  }
+
+  private verify(actual: string, expected: string): boolean {
+    const a = Buffer.from(actual);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
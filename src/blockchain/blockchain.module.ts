@@ -7,19 +7,49 @@
  * Description: NestJS module for blockchain-related functionalities.
  * Imports ConfigModule for configuration access.
  * Declares BlockchainController and provides/exports BlockchainService.
+ * Binds CHAIN_PROVIDER to the provider selected by the CHAIN_PROVIDER
+ * environment variable (default: blockfrost).
  * --------------------------------------------------------------------------
  */
 // NestJS libraries
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 
 // Local application files
 import { BlockchainController } from './blockchain.controller';
 import { BlockchainService } from './blockchain.service';
+import { CHAIN_PROVIDER } from './chain-providers/chain-provider.interface';
+import { BlockfrostChainProvider } from './chain-providers/blockfrost-chain.provider';
+import { EmulatorChainProvider } from './chain-providers/emulator-chain.provider';
 
 @Module({
   imports: [ConfigModule], // Import ConfigModule to use ConfigService
-  providers: [BlockchainService],
+  providers: [
+    BlockchainService,
+    {
+      provide: CHAIN_PROVIDER,
+      useFactory: (config: ConfigService) => {
+        const name = config.get<string>('CHAIN_PROVIDER') ?? 'blockfrost';
+        switch (name) {
+          case 'blockfrost':
+            return new BlockfrostChainProvider(config);
+          case 'emulator':
+            return new EmulatorChainProvider({
+              genesisLovelace:
+                Number(
+                  config.get<string>('CHAIN_EMULATOR_GENESIS_ADA') ?? 1000,
+                ) * 1000000,
+              blockIntervalMs: Number(
+                config.get<string>('CHAIN_EMULATOR_BLOCK_INTERVAL_MS') ?? 20000,
+              ),
+            });
+          default:
+            throw new Error(`Unknown CHAIN_PROVIDER "${name}".`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
   exports: [BlockchainService],
   controllers: [BlockchainController], // Export service to be used by other modules (e.g., InspectionsService)
 })
@@ -23,7 +23,9 @@ jest.mock('@meshsdk/core', () => ({
   __esModule: true,
 }));
 
+import { ConfigService } from '@nestjs/config';
 import { BlockchainService } from './blockchain.service';
+import { BlockfrostChainProvider } from './chain-providers/blockfrost-chain.provider';
 
 describe('BlockchainService - mintInspectionNft', () => {
   let service: BlockchainService;
@@ -41,11 +43,23 @@ describe('BlockchainService - mintInspectionNft', () => {
   };
 
   // Minimal metadata used for minting
-  const metadata = { vehicleNumber: 'ABC123', pdfHash: 'hash' };
+  const metadata = {
+    prettyId: 'YOG-13082025-001',
+    pdfHash: 'a'.repeat(64),
+    vehicleNumberHash: 'b'.repeat(64),
+    vehicleNumberAlg: 'sha256',
+    inspectionDate: '2025-08-13T00:00:00.000Z',
+    overallRating: 8,
+    carBrand: 'Toyota',
+    simpleAssetName: 'CAR-dano-aaaaaaaa',
+  };
 
   beforeEach(() => {
-    // Create real service instance with mocked config
-    service = new BlockchainService(mockConfigService as any);
+    // Create real service instance with mocked config; tests swap in their own chain
+    service = new BlockchainService(
+      mockConfigService as any,
+      makeMockChain([[]]),
+    );
   });
 
   function makeUtxo(txHash: string, idx: number, lovelace: number) {
@@ -58,24 +72,34 @@ describe('BlockchainService - mintInspectionNft', () => {
     };
   }
 
-  function makeMockWallet(utxoSets: any[]) {
-    // utxoSets: array of arrays, each call to getUnspentOutputs will shift()
-    let callCount = 0;
+  function makeMockWallet() {
     return {
-      getLovelace: jest.fn().mockResolvedValue('5000000'),
       getUsedAddresses: jest.fn().mockResolvedValue(['addr_test1']),
-      getUnspentOutputs: jest.fn().mockImplementation(() => {
+      signTx: jest.fn().mockImplementation(async (unsigned: any) => {
+        return { signed: true, unsigned };
+      }),
+    };
+  }
+
+  function makeMockChain(utxoSets: any[]) {
+    // utxoSets: array of arrays, each call to fetchAddressUtxos will shift()
+    let callCount = 0;
+    return {
+      name: 'mock',
+      fetchAddressUtxos: jest.fn().mockImplementation(() => {
         const set = utxoSets[callCount] ?? utxoSets[utxoSets.length - 1];
         callCount += 1;
         // Return a shallow copy so subsequent mutations won't affect stored sets
         return Promise.resolve(JSON.parse(JSON.stringify(set)));
       }),
-      signTx: jest.fn().mockImplementation(async (unsigned: any) => {
-        return { signed: true, unsigned };
-      }),
       submitTx: jest.fn().mockImplementation(async (_signed: any) => {
         return `txhash_${Math.random().toString(36).slice(2, 9)}`;
       }),
+      fetchTx: jest.fn(),
+      fetchTxInputs: jest.fn(),
+      fetchTxMetadata: jest.fn(),
+      fetchAsset: jest.fn(),
+      fetchConfirmations: jest.fn(),
     };
   }
 
@@ -93,37 +117,78 @@ describe('BlockchainService - mintInspectionNft', () => {
   }
 
   it('mints a single NFT successfully', async () => {
-    const mockWallet = makeMockWallet([[makeUtxo('tx1', 0, 3000000)]]);
-    (service as any).wallet = mockWallet;
+    const mockWallet = makeMockWallet();
+    const mockChain = makeMockChain([[makeUtxo('tx1', 0, 6000000)]]);
+    Object.assign(service, { wallet: mockWallet, chain: mockChain });
 
     const mockBuilder = makeMockTxBuilder();
     (service as any).getTxBuilder = jest.fn().mockReturnValue(mockBuilder);
 
-    const res = await service.mintInspectionNft(metadata as any);
+    const res = await service.mintInspectionNft(metadata);
 
     expect(res).toHaveProperty('txHash');
     expect(res).toHaveProperty('assetId');
-    expect(mockWallet.getUnspentOutputs).toHaveBeenCalledTimes(1);
+    expect(mockChain.fetchAddressUtxos).toHaveBeenCalledTimes(1);
     expect(mockWallet.signTx).toHaveBeenCalledTimes(1);
-    expect(mockWallet.submitTx).toHaveBeenCalledTimes(1);
+    expect(mockChain.submitTx).toHaveBeenCalledTimes(1);
+  });
+
+  it('publishes versioned CIP-25 metadata without the plate number', async () => {
+    const mockBuilder = makeMockTxBuilder() as { metadataValue: jest.Mock };
+    Object.assign(service, {
+      wallet: makeMockWallet(),
+      chain: makeMockChain([[makeUtxo('tx1', 0, 6000000)]]),
+      getTxBuilder: jest.fn().mockReturnValue(mockBuilder),
+    });
+
+    await service.mintInspectionNft(metadata);
+
+    const [label, cip25] = mockBuilder.metadataValue.mock.calls[0] as [
+      string,
+      Record<string, Record<string, unknown>>,
+    ];
+    const published = cip25.mockedpolicyid['CAR-dano-aaaaaaaa'];
+    expect(label).toBe('721');
+    expect(published).toEqual(
+      expect.objectContaining({
+        metadataVersion: 1,
+        name: 'Toyota Used Car Record YOG-13082025-001',
+        prettyId: 'YOG-13082025-001',
+        pdfHash: metadata.pdfHash,
+        vehicleNumberHash: metadata.vehicleNumberHash,
+      }),
+    );
+    expect(published).not.toHaveProperty('vehicleNumber');
+    expect(published).not.toHaveProperty('carType');
+  });
+
+  it('rejects metadata carrying the plain plate number', async () => {
+    const mockChain = makeMockChain([[makeUtxo('tx1', 0, 6000000)]]);
+    Object.assign(service, { wallet: makeMockWallet(), chain: mockChain });
+    const withPlate = { ...metadata, vehicleNumber: 'AB 1234 CD' };
+
+    await expect(service.mintInspectionNft(withPlate)).rejects.toThrow(
+      'the plain vehicle number must not be published',
+    );
+    expect(mockChain.fetchAddressUtxos).not.toHaveBeenCalled();
   });
 
   it('handles 10 near-concurrent mint requests with separate UTXO sets', async () => {
     // Prepare distinct UTXO for each call
     const utxoSets = [
-      [makeUtxo('txA', 0, 3000000)],
-      [makeUtxo('txB', 0, 3000000)],
-      [makeUtxo('txC', 0, 3000000)],
-      [makeUtxo('txD', 0, 3000000)],
-      [makeUtxo('txE', 0, 3000000)],
-      [makeUtxo('txF', 0, 3000000)],
-      [makeUtxo('txG', 0, 3000000)],
-      [makeUtxo('txH', 0, 3000000)],
-      [makeUtxo('txI', 0, 3000000)],
-      [makeUtxo('txJ', 0, 3000000)],
+      [makeUtxo('txA', 0, 6000000)],
+      [makeUtxo('txB', 0, 6000000)],
+      [makeUtxo('txC', 0, 6000000)],
+      [makeUtxo('txD', 0, 6000000)],
+      [makeUtxo('txE', 0, 6000000)],
+      [makeUtxo('txF', 0, 6000000)],
+      [makeUtxo('txG', 0, 6000000)],
+      [makeUtxo('txH', 0, 6000000)],
+      [makeUtxo('txI', 0, 6000000)],
+      [makeUtxo('txJ', 0, 6000000)],
     ];
-    const mockWallet = makeMockWallet(utxoSets);
-    (service as any).wallet = mockWallet;
+    const mockChain = makeMockChain(utxoSets);
+    Object.assign(service, { wallet: makeMockWallet(), chain: mockChain });
 
     const mockBuilder = makeMockTxBuilder();
     (service as any).getTxBuilder = jest.fn().mockReturnValue(mockBuilder);
@@ -131,14 +196,14 @@ describe('BlockchainService - mintInspectionNft', () => {
     // Start 10 near-concurrent requests (started quickly one after another)
     const promises = [] as Promise<any>[];
     for (let i = 0; i < 10; i++) {
-      promises.push(service.mintInspectionNft(metadata as any));
+      promises.push(service.mintInspectionNft(metadata));
     }
 
     const results = await Promise.all(promises);
 
     expect(results).toHaveLength(10);
-    expect(mockWallet.getUnspentOutputs).toHaveBeenCalledTimes(10);
-    expect(mockWallet.submitTx).toHaveBeenCalledTimes(10);
+    expect(mockChain.fetchAddressUtxos).toHaveBeenCalledTimes(10);
+    expect(mockChain.submitTx).toHaveBeenCalledTimes(10);
     // txHashes should be distinct across all results
     const hashes = results.map((r) => r.txHash);
     expect(new Set(hashes).size).toBe(10);
@@ -146,19 +211,19 @@ describe('BlockchainService - mintInspectionNft', () => {
 
   it('handles 10 fully concurrent mint requests', async () => {
     const utxoSets = [
-      [makeUtxo('t1', 0, 3000000)],
-      [makeUtxo('t2', 0, 3000000)],
-      [makeUtxo('t3', 0, 3000000)],
-      [makeUtxo('t4', 0, 3000000)],
-      [makeUtxo('t5', 0, 3000000)],
-      [makeUtxo('t6', 0, 3000000)],
-      [makeUtxo('t7', 0, 3000000)],
-      [makeUtxo('t8', 0, 3000000)],
-      [makeUtxo('t9', 0, 3000000)],
-      [makeUtxo('t10', 0, 3000000)],
+      [makeUtxo('t1', 0, 6000000)],
+      [makeUtxo('t2', 0, 6000000)],
+      [makeUtxo('t3', 0, 6000000)],
+      [makeUtxo('t4', 0, 6000000)],
+      [makeUtxo('t5', 0, 6000000)],
+      [makeUtxo('t6', 0, 6000000)],
+      [makeUtxo('t7', 0, 6000000)],
+      [makeUtxo('t8', 0, 6000000)],
+      [makeUtxo('t9', 0, 6000000)],
+      [makeUtxo('t10', 0, 6000000)],
     ];
-    const mockWallet = makeMockWallet(utxoSets);
-    (service as any).wallet = mockWallet;
+    const mockChain = makeMockChain(utxoSets);
+    Object.assign(service, { wallet: makeMockWallet(), chain: mockChain });
 
     const mockBuilder = makeMockTxBuilder();
     (service as any).getTxBuilder = jest.fn().mockReturnValue(mockBuilder);
@@ -166,14 +231,14 @@ describe('BlockchainService - mintInspectionNft', () => {
     // Fire 10 fully concurrent requests
     const parallel = [] as Promise<any>[];
     for (let i = 0; i < 10; i++) {
-      parallel.push(service.mintInspectionNft(metadata as any));
+      parallel.push(service.mintInspectionNft(metadata));
     }
 
     const res = await Promise.all(parallel);
 
     expect(res).toHaveLength(10);
-    expect(mockWallet.getUnspentOutputs).toHaveBeenCalledTimes(10);
-    expect(mockWallet.submitTx).toHaveBeenCalledTimes(10);
+    expect(mockChain.fetchAddressUtxos).toHaveBeenCalledTimes(10);
+    expect(mockChain.submitTx).toHaveBeenCalledTimes(10);
     // ensure all tx hashes are unique
     const hashes = res.map((r) => r.txHash);
     const unique = new Set(hashes);
@@ -181,15 +246,16 @@ describe('BlockchainService - mintInspectionNft', () => {
   });
 
   it('rejects when wallet has insufficient funds', async () => {
-    const mockWallet = makeMockWallet([[makeUtxo('low', 0, 3000000)]]);
-    // override lovelace to be too small
-    mockWallet.getLovelace = jest.fn().mockResolvedValue('1000000');
-    (service as any).wallet = mockWallet;
+    // A single output holding too little
+    Object.assign(service, {
+      wallet: makeMockWallet(),
+      chain: makeMockChain([[makeUtxo('low', 0, 1000000)]]),
+    });
 
     const mockBuilder = makeMockTxBuilder();
     (service as any).getTxBuilder = jest.fn().mockReturnValue(mockBuilder);
 
-    await expect(service.mintInspectionNft(metadata as any)).rejects.toThrow(
+    await expect(service.mintInspectionNft(metadata)).rejects.toThrow(
       /not enough funds|balance is insufficient/i,
     );
   });
@@ -201,8 +267,8 @@ describe('BlockchainService - mintInspectionNft', () => {
         output: { address: 'addr_test1' },
       },
     ];
-    const mockWallet = makeMockWallet([malformed]);
-    (service as any).wallet = mockWallet;
+    const mockChain = makeMockChain([malformed]);
+    Object.assign(service, { wallet: makeMockWallet(), chain: mockChain });
 
     const mockBuilder = makeMockTxBuilder();
     (service as any).getTxBuilder = jest.fn().mockReturnValue(mockBuilder);
@@ -211,33 +277,37 @@ describe('BlockchainService - mintInspectionNft', () => {
     (service as any).MAX_RETRIES = 1;
     (service as any).INITIAL_RETRY_DELAY_MS = 1;
 
-    await expect(service.mintInspectionNft(metadata as any)).rejects.toThrow(
+    await expect(service.mintInspectionNft(metadata)).rejects.toThrow(
       /No unspent outputs/i,
     );
 
-    expect(mockWallet.getUnspentOutputs).toHaveBeenCalled();
+    expect(mockChain.fetchAddressUtxos).toHaveBeenCalled();
   });
 
   it('retries when unspent outputs temporarily unavailable and succeeds after retry', async () => {
     // First call returns empty list, second call returns a usable utxo
-    const utxoSets = [[], [makeUtxo('retryTx', 0, 3000000)]];
-    const mockWallet = makeMockWallet(utxoSets);
-    (service as any).wallet = mockWallet;
+    const utxoSets = [[], [makeUtxo('retryTx', 0, 6000000)]];
+    const mockChain = makeMockChain(utxoSets);
+    Object.assign(service, { wallet: makeMockWallet(), chain: mockChain });
 
     const mockBuilder = makeMockTxBuilder();
     (service as any).getTxBuilder = jest.fn().mockReturnValue(mockBuilder);
 
-    const res = await service.mintInspectionNft(metadata as any);
+    const res = await service.mintInspectionNft(metadata);
     expect(res).toHaveProperty('txHash');
-    expect(mockWallet.getUnspentOutputs).toHaveBeenCalledTimes(2);
+    expect(mockChain.fetchAddressUtxos).toHaveBeenCalledTimes(2);
   });
 
   it('rebuilds and retries on submit-time Cardano validation error and succeeds', async () => {
     // Provide a single usable utxo for initial build
-    const mockWallet = makeMockWallet([[makeUtxo('initial', 0, 3000000)]]);
+    // Provide a fresh UTXO when the service re-fetches on retry
+    const mockChain = makeMockChain([
+      [makeUtxo('initial', 0, 6000000)],
+      [makeUtxo('fresh', 0, 6000000)],
+    ]);
     // Override submitTx to fail first with a Cardano validation style error
     let called = 0;
-    mockWallet.submitTx = jest.fn().mockImplementation(async () => {
+    mockChain.submitTx = jest.fn().mockImplementation(async () => {
       called += 1;
       if (called === 1) {
         const err: any = new Error('BadInputsUTxO (TxIn ... )');
@@ -246,26 +316,112 @@ describe('BlockchainService - mintInspectionNft', () => {
       return `txhash_retry_success`;
     });
 
-    (service as any).wallet = mockWallet;
+    Object.assign(service, { wallet: makeMockWallet(), chain: mockChain });
 
-    // Provide a tx builder; during retry the service will fetch fresh UTXOs via Blockfrost
+    // Provide a tx builder; during retry the service will fetch fresh UTXOs from the chain
     const mockBuilder = makeMockTxBuilder();
     (service as any).getTxBuilder = jest.fn().mockReturnValue(mockBuilder);
 
-    // Mock blockfrostProvider.fetchAddressUTxOs to return a fresh UTXO on retry
-    (service as any).blockfrostProvider = {
-      fetchAddressUTxOs: jest
-        .fn()
-        .mockResolvedValue([makeUtxo('fresh', 0, 3000000)]),
-    } as any;
-
     // Reduce retry counts/delays so test runs fast
     (service as any).SUBMIT_MAX_RETRIES = 2;
     (service as any).SUBMIT_INITIAL_DELAY_MS = 1;
 
-    const res = await service.mintInspectionNft(metadata as any);
+    const res = await service.mintInspectionNft(metadata);
     expect(res).toHaveProperty('txHash');
     expect(res.txHash).toBe('txhash_retry_success');
-    expect(mockWallet.submitTx).toHaveBeenCalledTimes(2);
+    expect(mockChain.submitTx).toHaveBeenCalledTimes(2);
+    expect(mockBuilder.selectUtxosFrom).toHaveBeenLastCalledWith([
+      makeUtxo('fresh', 0, 6000000),
+    ]);
+  });
+});
+
+describe('BlockchainService - verifyInspectionMint', () => {
+  let service: BlockchainService;
+  const assetNameHex = Buffer.from('CAR-dano-abc').toString('hex');
+  const assetId = `ourpolicy${assetNameHex}`;
+
+  const mockConfigService = {
+    getOrThrow: jest.fn((key: string) => {
+      if (key === 'BLOCKFROST_ENV') return 'preview';
+      if (key.startsWith('BLOCKFROST_API_KEY_PREVIEW')) return 'test-api-key';
+      if (key.startsWith('WALLET_SECRET_KEY_PREVIEW')) return 'test-secret-key';
+      return undefined;
+    }),
+    get: jest.fn().mockReturnValue(undefined),
+  };
+
+  // Blockfrost responses keyed by path suffix; missing paths answer 404
+  function mockBlockfrost(pdfHash: string, policyId = 'ourpolicy') {
+    const responses: Record<string, unknown> = {
+      '/txs/tx1': {
+        hash: 'tx1',
+        block_height: 100,
+        asset_mint_or_burn_count: 1,
+      },
+      [`/assets/${assetId}`]: {
+        asset: assetId,
+        policy_id: policyId,
+        asset_name: assetNameHex,
+        quantity: '1',
+        initial_mint_tx_hash: 'tx1',
+      },
+      '/txs/tx1/utxos': {
+        inputs: [
+          { tx_hash: 'seed', output_index: 0, collateral: false },
+          { tx_hash: 'coll', output_index: 1, collateral: true },
+        ],
+      },
+      '/txs/tx1/metadata': [
+        {
+          label: '721',
+          json_metadata: { [policyId]: { 'CAR-dano-abc': { pdfHash } } },
+        },
+      ],
+      '/blocks/latest': { height: 104 },
+    };
+    global.fetch = jest.fn((url: string) => {
+      const path = Object.keys(responses).find((key) => url.endsWith(key));
+      return Promise.resolve({
+        ok: !!path,
+        status: path ? 200 : 404,
+        statusText: path ? 'OK' : 'Not Found',
+        json: () => Promise.resolve(path ? responses[path] : {}),
+      });
+    }) as unknown as typeof fetch;
+  }
+
+  beforeEach(() => {
+    const config = mockConfigService as unknown as ConfigService;
+    service = new BlockchainService(
+      config,
+      new BlockfrostChainProvider(config),
+    );
+    jest
+      .spyOn(service as any, 'getParameterizedPolicy')
+      .mockImplementation((txHash: unknown) => ({
+        policy: {},
+        policyId: txHash === 'seed' ? 'ourpolicy' : 'otherpolicy',
+      }));
+  });
+
+  it('accepts a mint under our policy with the expected PDF hash', async () => {
+    mockBlockfrost('pdf-hash');
+    await expect(
+      service.verifyInspectionMint('tx1', assetId, 'pdf-hash'),
+    ).resolves.toEqual({ status: 'VALID', confirmations: 5 });
+  });
+
+  it('rejects a mismatched PDF hash and reports unknown transactions', async () => {
+    mockBlockfrost('forged-hash');
+    await expect(
+      service.verifyInspectionMint('tx1', assetId, 'pdf-hash'),
+    ).resolves.toEqual({
+      status: 'INVALID',
+      reason: expect.stringContaining('does not match') as string,
+    });
+    await expect(
+      service.verifyInspectionMint('tx2', assetId, 'pdf-hash'),
+    ).resolves.toEqual({ status: 'NOT_FOUND' });
   });
 });
@@ -5,16 +5,20 @@
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
  * Description: NestJS service responsible for interacting with the Cardano blockchain.
- * Handles NFT minting with metadata and retrieving transaction/asset data
- * using Mesh SDK and BlockfrostProvider.
+ * Handles NFT minting with metadata, burning revoked NFTs and retrieving
+ * transaction/asset data using Mesh SDK. The chain is read and transactions
+ * are submitted through the ChainProvider bound to CHAIN_PROVIDER (Blockfrost,
+ * or the in-memory emulator for development and tests).
  * --------------------------------------------------------------------------
  */
 // NestJS Common Modules, Decorators, and Exceptions
 import {
+  Inject,
   Injectable,
   Logger,
   InternalServerErrorException,
   BadRequestException,
+  HttpException,
   NotFoundException,
 } from '@nestjs/common';
 
@@ -23,7 +27,6 @@ import { ConfigService } from '@nestjs/config';
 
 // Mesh SDK Core Library for blockchain interactions
 import {
-  BlockfrostProvider,
   MeshTxBuilder,
   MeshWallet,
   ForgeScript,
@@ -49,29 +52,69 @@ import * as blueprint from './plutus.json';
 // Internal Types
 import { PlutusBlueprint, PlutusValidator } from './types/blueprint.type';
 
+// Chain access (Blockfrost or the emulator)
+import {
+  CHAIN_PROVIDER,
+  ChainProvider,
+} from './chain-providers/chain-provider.interface';
+
+/**
+ * Version of the CIP-25 metadata shape published with inspection NFTs, stored
+ * as `metadataVersion` so consumers can tell the shapes apart. NFTs minted
+ * before versioning carry no such field.
+ */
+export const INSPECTION_NFT_METADATA_VERSION = 1;
+
 /**
  * Defines the structure for inspection NFT metadata, aligning with desired on-chain data.
+ * The vehicle plate number is only ever published as its hash.
  */
 export interface InspectionNftMetadata {
-  vehicleNumber: string;
+  prettyId: string;
   pdfHash: string;
+  // optional algorithm for the pdfHash field (defaults to sha256)
+  pdfHashAlg?: string;
+  // hashed vehicle identifier for privacy-preserving storage
+  vehicleNumberHash: string;
+  vehicleNumberAlg: string;
   // Optional display metadata (CIP-25 fields)
   name?: string;
   image?: string;
   mediaType?: string;
   description?: string;
   // Inspection details to include as attributes
-  inspectionDate?: string; // ISO8601
+  inspectionDate: string; // ISO8601
   overallRating?: number; // numeric score
   carBrand?: string;
   carType?: string;
-  // hashed vehicle identifier for privacy-preserving storage
-  vehicleNumberHash?: string;
-  vehicleNumberAlg?: string;
-  // optional algorithm for the pdfHash field if present
-  pdfHashAlg?: string;
   simpleAssetName: string;
 }
+
+// CAR-dano's logo, shown for NFTs without their own image
+const DEFAULT_NFT_IMAGE =
+  'ipfs://QmY65h6y6zUoJjN3ripc4J2PzEvzL2VkiVXz3sCZboqPJw';
+
+const SHA256_HEX = /^[a-f0-9]{64}$/i;
+
+/**
+ * Outcome of checking a mint transaction submitted by the frontend:
+ * - NOT_FOUND: the transaction is not on chain (yet).
+ * - INVALID: the transaction is on chain but does not prove the mint; `reason` says why.
+ * - VALID: the transaction minted the asset as expected, with its current depth.
+ */
+export type InspectionMintVerification =
+  | { status: 'NOT_FOUND' }
+  | { status: 'INVALID'; reason: string }
+  | { status: 'VALID'; confirmations: number };
+
+/**
+ * Why an inspection NFT is burned, published with the burn as a revocation record.
+ */
+export interface InspectionNftRevocation {
+  inspectionId: string;
+  reason: 'DEACTIVATED' | 'DELETED';
+}
+
 interface Script {
   code: string;
   version: 'V3';
@@ -131,11 +174,8 @@ export class BlockchainService {
     return m;
   }
   private readonly logger = new Logger(BlockchainService.name);
-  private readonly blockfrostProvider: BlockfrostProvider;
   private readonly wallet: MeshWallet; // Use AppWallet type for better type safety
-  private readonly apiKey: string;
   private readonly secretKey: string;
-  private readonly blockfrostBaseUrl: string;
 
   private readonly MAX_RETRIES = 5;
   private readonly INITIAL_RETRY_DELAY_MS = 1000; // 1 second
@@ -151,25 +191,22 @@ export class BlockchainService {
 
   /**
    * Constructs the BlockchainService instance.
-   * Initializes BlockfrostProvider and MeshWallet based on environment configuration.
+   * Initializes the MeshWallet based on environment configuration; the wallet
+   * only derives the address and signs, the chain provider does the rest.
    *
    * @param configService The NestJS ConfigService for accessing environment variables.
+   * @param chain The chain provider used to read the chain and submit transactions.
    * @throws Error if BLOCKFROST_ENV is unsupported or WALLET_SECRET_KEY is not set.
    */
-  constructor(private configService: ConfigService) {
-    // Determine Blockfrost environment and base URL
+  constructor(
+    private configService: ConfigService,
+    @Inject(CHAIN_PROVIDER) private readonly chain: ChainProvider,
+  ) {
+    // The network (and so the wallet key) is selected by BLOCKFROST_ENV
     const blockfrostEnv = this.configService.getOrThrow<
       'preview' | 'preprod' | 'mainnet'
     >('BLOCKFROST_ENV');
-    this.blockfrostBaseUrl = `https://cardano-${blockfrostEnv}.blockfrost.io/api/v0`;
-    this.logger.log(`Using Blockfrost environment: ${blockfrostEnv}`);
-
-    // Initialize Blockfrost Provider
-    this.apiKey = this.configService.getOrThrow<string>(
-      `BLOCKFROST_API_KEY_${blockfrostEnv.toUpperCase()}`,
-    );
-    this.blockfrostProvider = new BlockfrostProvider(this.apiKey);
-    this.logger.log('BlockfrostProvider Initialized.');
+    this.logger.log(`Using chain provider: ${this.chain.name}`);
 
     // Initialize Wallet - Ensure WALLET_SECRET_KEY is set securely in .env
     // WARNING: Storing secret keys directly like this is NOT recommended for production.
@@ -186,8 +223,6 @@ export class BlockchainService {
 
     this.wallet = new MeshWallet({
       networkId: blockfrostEnv === 'mainnet' ? 1 : 0, // 0 for preprod/preview, 1 for mainnet
-      fetcher: this.blockfrostProvider,
-      submitter: this.blockfrostProvider,
       key: {
         type: 'root', // Assuming root key from bech32 string
         bech32: this.secretKey,
@@ -226,18 +261,31 @@ export class BlockchainService {
   }
 
   /**
-   * Creates a new MeshTxBuilder instance configured with the service's provider.
+   * Creates a new MeshTxBuilder instance configured with the chain provider's fetcher.
+   * Transactions are submitted through the chain provider, not the builder.
    *
    * @returns A new instance of MeshTxBuilder.
    */
   private getTxBuilder(): MeshTxBuilder {
     return new MeshTxBuilder({
-      fetcher: this.blockfrostProvider,
-      submitter: this.blockfrostProvider,
+      fetcher: this.chain.meshFetcher,
       // Parameters can be added here if needed globally
     });
   }
 
+  /**
+   * Reads the lovelace held by an unspent output.
+   *
+   * @param utxo The unspent output.
+   * @returns The amount of lovelace, 0 if the output holds none or is malformed.
+   */
+  private getLovelace(utxo: UTxO): number {
+    const lovelace = utxo.output.amount?.find(
+      (asset) => asset.unit === 'lovelace',
+    );
+    return lovelace ? Math.floor(Number(lovelace.quantity)) : 0;
+  }
+
   /**
    * Mints a new NFT on Cardano with provided inspection metadata.
    * Uses the wallet configured in the service to build, sign, and submit the transaction.
@@ -245,12 +293,13 @@ export class BlockchainService {
    * @param metadata The metadata object to embed in the NFT.
    * @returns A promise that resolves to an object containing the transaction hash and the full asset ID (policyId + hexName).
    * @throws InternalServerErrorException If minting fails.
-   * @throws BadRequestException If required metadata fields are missing.
+   * @throws BadRequestException If required metadata fields are missing or the wallet has insufficient funds.
    */
   async mintInspectionNft(
     metadata: InspectionNftMetadata,
   ): Promise<{ txHash: string; assetId: string }> {
     this.logger.log(`Attempting to mint NFT`);
+    this.assertValidInspectionNftMetadata(metadata);
 
     // Add random delay to prevent UTXO conflicts in concurrent minting
     const randomDelay = Math.random() * 2000; // 0-2 seconds
@@ -264,21 +313,7 @@ export class BlockchainService {
 
     while (retries < this.MAX_RETRIES) {
       try {
-        const lovelaceAmount = parseInt(await this.wallet.getLovelace(), 10);
-        const balanceInAda = lovelaceAmount / 1000000;
-
-        // 5 ADA = 5,000,000 lovelace
-        if (lovelaceAmount < 5000000) {
-          throw new BadRequestException(
-            `Wallet has not enough funds or the balance is insufficient. Current balance: ${balanceInAda.toFixed(
-              6,
-            )} ADA.`,
-          );
-        }
-        this.logger.debug(`Current balance: ${balanceInAda.toFixed(6)} ADA.`);
-
-        // Get the primary address early so we can fallback to Blockfrost
-        // if the wallet SDK returns UTXOs without amount fields.
+        // The address is derived from the wallet key; its UTXOs are read from the chain
         const walletAddress = (await this.wallet.getUsedAddresses())[0];
 
         // Serialize the UTXO selection and transaction build/sign/submit for this address
@@ -289,207 +324,50 @@ export class BlockchainService {
 
         // Execute the core mint operation under the mutex
         const result = await mutex.runExclusive(async () => {
-          // Use getUnspentOutputs to ensure we only work with UTXOs that are
-          // unspent and available for building new transactions (safer for parallel
-          // transaction builds and avoids attempting to use locked/invalid UTXOs).
-          const utxos = await this.wallet.getUnspentOutputs();
+          // Outputs without a lovelace amount (malformed provider data) are ignored
+          const utxos = (
+            await this.chain.fetchAddressUtxos(walletAddress)
+          ).filter((utxo) => this.getLovelace(utxo) > 0);
 
-          // Basic validation: must be a non-empty array
-          if (!Array.isArray(utxos) || utxos.length === 0) {
+          if (utxos.length === 0) {
             throw new InternalServerErrorException(
               'Wallet has no unspent outputs available to build the transaction.',
             );
           }
 
-          // Stronger, more tolerant UTXO parsing: support different shapes that
-          // various wallet implementations or providers may return. We try to
-          // extract a lovelace amount from the returned utxo in several ways.
-          type AssetAmount = { unit?: string; quantity?: string | number };
-          type TxOutput = {
-            address?: string;
-            amount?: AssetAmount[] | Record<string, unknown> | string | number;
-          };
-
-          const extractLovelace = (rawUtxo: unknown): number | null => {
-            if (!rawUtxo || typeof rawUtxo !== 'object') return null;
-
-            const tx = rawUtxo as { output?: TxOutput | (() => TxOutput) };
-            const output =
-              typeof tx.output === 'function' ? tx.output() : tx.output;
-            if (!output) return null;
-
-            const amt = (output as TxOutput).amount;
-
-            // Case 1: amount is an array of { unit, quantity }
-            if (Array.isArray(amt)) {
-              const lov = (amt as Array<any>).find(
-                (a) => a && String(a.unit).toLowerCase() === 'lovelace',
-              );
-              if (lov && lov.quantity !== undefined && lov.quantity !== null) {
-                const n = Number(lov.quantity);
-                if (!Number.isNaN(n)) return Math.floor(n);
-              }
-            }
-
-            // Case 2: amount is a map/object like { lovelace: '12345', "policy...": '1' }
-            if (amt && typeof amt === 'object' && !Array.isArray(amt)) {
-              const asObj = amt as Record<string, unknown>;
-              if (Object.prototype.hasOwnProperty.call(asObj, 'lovelace')) {
-                const v = asObj['lovelace'];
-                const n = Number(v);
-                if (!Number.isNaN(n)) return Math.floor(n);
-              }
-            }
-
-            // Case 3: amount is a raw number or numeric string
-            if (typeof amt === 'number') return Math.floor(amt);
-            if (typeof amt === 'string') {
-              const n = Number(amt);
-              if (!Number.isNaN(n)) return Math.floor(n);
-            }
+          const lovelaceAmount = utxos.reduce(
+            (total, utxo) => total + this.getLovelace(utxo),
+            0,
+          );
+          const balanceInAda = lovelaceAmount / 1000000;
 
-            return null;
-          };
-
-          // Compatibility: some wallets return empty/minimal objects from
-          // getUnspentOutputs(). In that case try the older `getUtxos()` API
-          // which sometimes returns richer TransactionUnspentOutput objects.
-          const looksLikeMinimal =
-            Array.isArray(utxos) &&
-            utxos.length > 0 &&
-            utxos.every(
-              (u) =>
-                u &&
-                typeof u === 'object' &&
-                Object.keys(u as object).length === 0,
+          // 5 ADA = 5,000,000 lovelace
+          if (lovelaceAmount < 5000000) {
+            throw new BadRequestException(
+              `Wallet has not enough funds or the balance is insufficient. Current balance: ${balanceInAda.toFixed(
+                6,
+              )} ADA.`,
             );
-          if (
-            looksLikeMinimal &&
-            typeof (this.wallet as any).getUtxos === 'function'
-          ) {
-            try {
-              this.logger.debug(
-                'getUnspentOutputs returned minimal objects; trying wallet.getUtxos() fallback',
-              );
-              // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-              // @ts-ignore - dynamic fallback for compatibility
-              const compat = await (this.wallet as any).getUtxos();
-              if (Array.isArray(compat) && compat.length > 0) {
-                this.logger.debug(
-                  `wallet.getUtxos() returned ${compat.length} entries, using those for selection`,
-                );
-                // replace utxos with richer representation
-                // cast to unknown so downstream parsing is tolerant
-                (utxos as unknown) = compat as unknown;
-              }
-            } catch {
-              this.logger.debug('wallet.getUtxos() fallback failed');
-            }
-          }
-
-          // Annotate each utxo with parsed lovelace for easier downstream use
-          let utxosWithLovelace: Array<{
-            raw: unknown;
-            lovelace: number | null;
-          }> = utxos.map((u) => ({
-            raw: u as unknown,
-            lovelace: extractLovelace(u),
-          }));
-
-          let usableUtxos = utxosWithLovelace
-            .filter(
-              (x) =>
-                typeof x.lovelace === 'number' &&
-                x.lovelace >= this.MIN_UTXO_LOVELACE,
-            )
-            .map((x) => x.raw);
-
-          // If the wallet SDK returned UTXOs but none had amount info (parsedLovelace === null)
-          // attempt a fallback: fetch full UTXO list from Blockfrost for the wallet address
-          // and retry parsing/selecting. This covers providers that return minimal UTXO shapes.
-          const allParsedNull = utxosWithLovelace.every(
-            (x) => x.lovelace === null,
-          );
-          if (
-            (usableUtxos.length === 0 || !Array.isArray(usableUtxos)) &&
-            allParsedNull
-          ) {
-            try {
-              this.logger.debug(
-                'Wallet unspent outputs lack amount info; attempting Blockfrost fallback fetch for address: ' +
-                  walletAddress,
-              );
-              const fallbackUtxos =
-                await this.blockfrostProvider.fetchAddressUTxOs(walletAddress);
-              if (Array.isArray(fallbackUtxos) && fallbackUtxos.length > 0) {
-                // Cast fallback results to unknown so our local type matches regardless
-                // of mesh/core specific TransactionUnspentOutput wrapper types.
-                utxosWithLovelace = (
-                  fallbackUtxos as unknown as Array<unknown>
-                ).map(
-                  (u) => ({ raw: u, lovelace: extractLovelace(u) }) as const,
-                );
-                usableUtxos = utxosWithLovelace
-                  .filter(
-                    (x) =>
-                      typeof x.lovelace === 'number' &&
-                      x.lovelace >= this.MIN_UTXO_LOVELACE,
-                  )
-                  .map((x) => x.raw);
-
-                this.logger.debug(
-                  `Blockfrost fallback returned ${fallbackUtxos.length} UTXOs, usable after filter=${usableUtxos.length}`,
-                );
-              } else {
-                this.logger.debug('Blockfrost fallback returned no UTXOs.');
-              }
-            } catch {
-              this.logger.debug('Blockfrost fallback failed');
-            }
           }
+          this.logger.debug(`Current balance: ${balanceInAda.toFixed(6)} ADA.`);
 
-          if (!Array.isArray(usableUtxos) || usableUtxos.length === 0) {
-            // Helpful debug: aggregate balance may be sufficient, but none of the
-            // individual returned unspent outputs meet the per-UTXO minimum used
-            // by the builder (we filtered for >= 2 ADA). This can happen when
-            // balance is composed of many small UTXOs or when the wallet returned
-            // empty/minimal UTXO objects.
-            this.logger.debug(
-              `No usable unspent outputs found: total returned UTXOs=${utxos.length}, usable=${usableUtxos.length}, aggregateBalance=${balanceInAda.toFixed(6)} ADA`,
+          // Only outputs meeting the per-UTXO minimum are offered to the builder
+          const selectUsable = (candidates: UTxO[]) =>
+            candidates.filter(
+              (utxo) => this.getLovelace(utxo) >= this.MIN_UTXO_LOVELACE,
             );
+          const usableUtxos = selectUsable(utxos);
 
-            try {
-              // Log first few returned UTXOs with parsed lovelace to help debugging
-              const samples = utxosWithLovelace.slice(0, 5).map((x) => {
-                let repr: string;
-                try {
-                  repr = JSON.stringify(x.raw);
-                } catch {
-                  repr = String(x.raw);
-                }
-                // Truncate long JSON
-                if (repr.length > 1000) repr = repr.slice(0, 1000) + '...';
-                return { parsedLovelace: x.lovelace, raw: repr };
-              });
-              this.logger.debug(
-                `Returned UTXO samples: ${JSON.stringify(samples)}`,
-              );
-            } catch {
-              this.logger.debug(
-                'Failed to stringify UTXO samples for debugging.',
-              );
-            }
-
+          if (usableUtxos.length === 0) {
+            // Aggregate balance may be sufficient, but none of the individual
+            // outputs meet the per-UTXO minimum used by the builder. This can
+            // happen when the balance is composed of many small UTXOs.
             throw new InternalServerErrorException(
               `No unspent outputs meet the per-UTXO minimum (${(
                 this.MIN_UTXO_LOVELACE / 1000000
               ).toFixed(
                 6,
-              )} ADA). Wallet aggregate balance: ${balanceInAda.toFixed(6)} ADA. Returned UTXOs: ${utxos.length}. Usable (>=${(
-                this.MIN_UTXO_LOVELACE / 1000000
-              ).toFixed(
-                6,
-              )} ADA): ${usableUtxos.length}. Consider consolidating UTXOs or relaxing the per-UTXO filter if appropriate.`,
+              )} ADA). Wallet aggregate balance: ${balanceInAda.toFixed(6)} ADA. Returned UTXOs: ${utxos.length}. Consider consolidating UTXOs or relaxing the per-UTXO filter if appropriate.`,
             );
           }
 
@@ -497,36 +375,6 @@ export class BlockchainService {
             `Found ${utxos.length} total UTXOs, ${usableUtxos.length} usable UTXOs for wallet.`,
           );
 
-          // Convert TransactionUnspentOutput-like objects to the plain UTxO shape
-          // expected by MeshTxBuilder.selectUtxosFrom. Some implementations expose
-          // `input`/`output` as functions, others as plain objects; handle both.
-          type TxLike = {
-            input:
-              | { txHash: string; outputIndex: number }
-              | (() => { txHash: string; outputIndex: number });
-            output: Record<string, unknown> | (() => Record<string, unknown>);
-          };
-
-          const meshUtxos = usableUtxos.map((u: unknown) => {
-            const tx = u as TxLike;
-            const inputObj =
-              typeof tx.input === 'function' ? tx.input() : tx.input;
-            const outputObj =
-              typeof tx.output === 'function' ? tx.output() : tx.output;
-
-            // We keep output as unknown and cast only at the return site to avoid
-            // unsafe `any` leakage across the function.
-            return {
-              input: {
-                txHash: inputObj.txHash,
-                outputIndex: inputObj.outputIndex,
-              },
-              output: outputObj as unknown,
-            } as const;
-          });
-
-          // Wallet address was retrieved earlier and stored in `walletAddress`.
-
           // Define the forging script (single signature from the wallet owner)
           const forgingScript = ForgeScript.withOneSignature(walletAddress);
           const policyId = resolveScriptHash(forgingScript); // Calculate the policy ID
@@ -539,145 +387,11 @@ export class BlockchainService {
           this.logger.log(`Generated Asset ID: ${assetId}`);
 
           // Prepare the metadata according to CIP-0025 (NFT standard) under the 721 label
-          // Prefer fields passed in `metadata`, otherwise fall back to sensible defaults.
-          const nftDisplayName =
-            typeof metadata.name === 'string' && metadata.name.trim().length > 0
-              ? metadata.name
-              : (() => {
-                  // Prefer readable brand if available
-                  if (
-                    typeof metadata.carBrand === 'string' &&
-                    metadata.carBrand.trim().length > 0
-                  ) {
-                    return `${this.sanitizeMetadatumString(
-                      metadata.carBrand,
-                      'carBrand',
-                    )} Used Car Record`;
-                  }
-
-                  // Fall back to inspection date (short ISO date) when brand missing
-                  if (
-                    typeof metadata.inspectionDate === 'string' &&
-                    metadata.inspectionDate.trim().length > 0
-                  ) {
-                    try {
-                      const d = new Date(metadata.inspectionDate);
-                      if (!Number.isNaN(d.getTime())) {
-                        return `Used Car Record ${d.toISOString().slice(0, 10)}`;
-                      }
-                    } catch {
-                      /* ignore and continue */
-                    }
-                  }
-
-                  // Next fallback: use first 8 chars of vehicleNumberHash for uniqueness
-                  if (
-                    typeof metadata.vehicleNumberHash === 'string' &&
-                    metadata.vehicleNumberHash.length >= 8
-                  ) {
-                    return `Used Car Record ${metadata.vehicleNumberHash.slice(0, 8)}`;
-                  }
-
-                  // Generic fallback
-                  return 'Used Car Record';
-                })();
-
-          const imageForDisplay =
-            typeof metadata.image === 'string' &&
-            metadata.image.trim().length > 0
-              ? metadata.image
-              : 'ipfs://QmY65h6y6zUoJjN3ripc4J2PzEvzL2VkiVXz3sCZboqPJw';
-
-          const mediaTypeForDisplay =
-            typeof metadata.mediaType === 'string' &&
-            metadata.mediaType.trim().length > 0
-              ? metadata.mediaType
-              : 'image/png';
-
-          // Prefer ipfs:// form for on-chain metadata to keep values short.
-          const ipfsStyleImage = imageForDisplay.startsWith('ipfs://')
-            ? imageForDisplay
-            : imageForDisplay.replace('https://ipfs.io/ipfs/', 'ipfs://');
-
-          // Files array for display - keep only short/ipfs entries to avoid 64-byte metadatum limit
-          const files = [
-            {
-              name: nftDisplayName,
-              src: this.sanitizeMetadatumString(ipfsStyleImage, 'image'),
-              mediaType: mediaTypeForDisplay,
-            },
-          ];
-
-          // Build attributes array for easier indexing on marketplaces
-          const attributes: Array<{
-            trait_type: string;
-            value: string | number;
-          }> = [];
-          if (metadata.vehicleNumberHash) {
-            attributes.push({
-              trait_type: 'vehicleNumberHash',
-              value: metadata.vehicleNumberHash,
-            });
-          }
-          if (metadata.vehicleNumberAlg) {
-            attributes.push({
-              trait_type: 'vehicleNumberAlg',
-              value: metadata.vehicleNumberAlg,
-            });
-          }
-          if (metadata.inspectionDate) {
-            attributes.push({
-              trait_type: 'inspectionDate',
-              value: metadata.inspectionDate,
-            });
-          }
-          if (typeof metadata.overallRating === 'number') {
-            attributes.push({
-              trait_type: 'overallRating',
-              value: metadata.overallRating,
-            });
-          }
-          if (metadata.carBrand) {
-            attributes.push({
-              trait_type: 'carBrand',
-              value: metadata.carBrand,
-            });
-          }
-          if (metadata.carType) {
-            attributes.push({ trait_type: 'carType', value: metadata.carType });
-          }
-
-          const finalMetadata = {
-            // keep original metadata but guarantee display fields
-            ...metadata,
-            pdfHashAlg: metadata.pdfHashAlg ?? 'sha256',
-            name: nftDisplayName,
-            image: this.sanitizeMetadatumString(ipfsStyleImage, 'image'),
-            mediaType: mediaTypeForDisplay,
-            files,
-            description: this.sanitizeMetadatumString(
-              metadata.description ?? 'NFT Proof of Vehicle Inspection',
-              'description',
-            ),
-            mintedBy: this.sanitizeMetadatumString(
-              typeof walletAddress === 'string' && walletAddress.length > 48
-                ? walletAddress.slice(0, 48) + '...'
-                : String(walletAddress),
-              'mintedBy',
-            ),
-            mintedAt: new Date().toISOString(),
-            attributes,
-          };
-
-          // Structure for CIP-0025: { policyId: { assetName: { metadata } } }
-          // Sanitize the entire metadata tree to ensure no string exceeds 64 bytes
-          const sanitizedMetadata = this.sanitizeMetadataObject(
-            finalMetadata,
-          ) as Record<string, unknown> | undefined;
-
-          const cip25Metadata = {
-            [policyId]: { [simpleAssetName]: sanitizedMetadata },
-          };
+          const cip25Metadata = this.buildInspectionCip25Metadata(
+            metadata,
+            policyId,
+            walletAddress,
+          );
 
           // Initialize the transaction builder
           const txBuilder = this.getTxBuilder();
@@ -688,7 +402,7 @@ export class BlockchainService {
             .mintingScript(forgingScript) // Provide the script needed to authorize the mint
             .metadataValue('721', cip25Metadata) // Attach metadata under the 721 label
             .changeAddress(walletAddress) // Where to send remaining ADA and change
-            .selectUtxosFrom(meshUtxos as unknown as UTxO[]) // Provide the filtered and-mapped UTXOs to use for inputs/fees
+            .selectUtxosFrom(usableUtxos) // Provide the filtered UTXOs to use for inputs/fees
             .complete(); // Calculate fees and build the transaction body
 
           this.logger.log('Transaction built successfully. Signing...');
@@ -705,7 +419,7 @@ export class BlockchainService {
           let submitDelay = this.SUBMIT_INITIAL_DELAY_MS;
           while (true) {
             try {
-              const txHash = await this.wallet.submitTx(signedTx);
+              const txHash = await this.chain.submitTx(signedTx);
               this.logger.log(
                 `Transaction submitted successfully. TxHash: ${txHash}`,
               );
@@ -756,67 +470,21 @@ export class BlockchainService {
                 await new Promise((r) => setTimeout(r, submitDelay));
                 submitDelay *= 2;
 
-                // Re-fetch UTXOs from Blockfrost (authoritative) and rebuild the tx
-                // using the same high-level steps as earlier: select fresh usableUtxos,
-                // construct meshUtxos, complete the tx, sign and loop to submit.
+                // Re-fetch UTXOs from the chain and rebuild the tx using the
+                // same high-level steps as earlier: select fresh usable UTXOs,
+                // complete the tx, sign and loop to submit.
                 try {
-                  const freshUtxos =
-                    await this.blockfrostProvider.fetchAddressUTxOs(
-                      walletAddress,
-                    );
-                  if (!Array.isArray(freshUtxos) || freshUtxos.length === 0) {
-                    this.logger.warn(
-                      'Blockfrost returned no UTXOs on resubmit attempt',
-                    );
-                    // Let the outer loop handle retry/backoff if appropriate
-                    throw submitErr;
-                  }
-
-                  // Re-parse and select usable outputs
-                  const freshParsed = (
-                    freshUtxos as unknown as Array<unknown>
-                  ).map((u) => ({ raw: u, lovelace: extractLovelace(u) }));
-                  const freshUsable = freshParsed
-                    .filter(
-                      (x) =>
-                        typeof x.lovelace === 'number' &&
-                        x.lovelace >= this.MIN_UTXO_LOVELACE,
-                    )
-                    .map((x) => x.raw);
-
-                  if (!Array.isArray(freshUsable) || freshUsable.length === 0) {
+                  const freshUsable = selectUsable(
+                    await this.chain.fetchAddressUtxos(walletAddress),
+                  );
+                  if (freshUsable.length === 0) {
                     this.logger.warn(
                       'No usable UTXOs found on resubmit attempt',
                     );
+                    // Let the outer loop handle retry/backoff if appropriate
                     throw submitErr;
                   }
 
-                  const freshMeshUtxos = freshUsable.map((u: unknown) => {
-                    const tx = u as {
-                      input:
-                        | { txHash: string; outputIndex: number }
-                        | (() => { txHash: string; outputIndex: number });
-                      output:
-                        | Record<string, unknown>
-                        | (() => Record<string, unknown>);
-                    };
-                    const inputObj =
-                      typeof tx.input === 'function' ? tx.input() : tx.input;
-                    const outputObj =
-                      typeof tx.output === 'function' ? tx.output() : tx.output;
-                    const typedInputObj = inputObj as {
-                      txHash: string;
-                      outputIndex: number;
-                    };
-                    return {
-                      input: {
-                        txHash: typedInputObj.txHash,
-                        outputIndex: typedInputObj.outputIndex,
-                      },
-                      output: outputObj as unknown,
-                    } as const;
-                  });
-
                   // Rebuild unsignedTx with fresh inputs
                   // Note: reuse same forgingScript, policyId, simpleAssetNameHex, cip25Metadata
                   // which are in scope here.
@@ -825,7 +493,7 @@ export class BlockchainService {
                     .mintingScript(forgingScript)
                     .metadataValue('721', cip25Metadata)
                     .changeAddress(walletAddress)
-                    .selectUtxosFrom(freshMeshUtxos as unknown as UTxO[])
+                    .selectUtxosFrom(freshUsable)
                     .complete();
 
                   const newSigned = await this.wallet.signTx(newUnsigned, true);
@@ -885,6 +553,10 @@ export class BlockchainService {
           retries++;
         } else {
           this.logger.error('NFT Minting failed');
+          // Keep the specific error for failures detected here (e.g. insufficient funds)
+          if (error instanceof HttpException) {
+            throw error;
+          }
           throw new InternalServerErrorException(`Failed to mint NFT`);
         }
       }
@@ -895,13 +567,161 @@ export class BlockchainService {
   }
 
   /**
-   * Retrieves transaction metadata from Blockfrost using the transaction hash.
+   * Burns the NFT of a withdrawn inspection and publishes a revocation record
+   * (CIP-20 message, label 674) in the burn transaction. The NFT must be held
+   * by the backend wallet. NFTs minted by the backend (one-signature native
+   * policy) are burned with the wallet key; NFTs minted with the Aiken policy
+   * are burned with its Burn redeemer, which the validator must define.
+   *
+   * @param assetId The asset ID (PolicyID + HexAssetName) of the NFT.
+   * @param revocation The inspection and reason recorded with the burn.
+   * @returns A promise that resolves to the burn transaction hash, or null if the NFT was already burned.
+   * @throws NotFoundException if the asset does not exist.
+   * @throws BadRequestException if the backend cannot burn the NFT: it is not held by the backend wallet, was not minted under a CAR-dano policy, or its policy has no Burn action.
+   * @throws InternalServerErrorException if building or submitting the transaction fails.
+   */
+  async burnInspectionNft(
+    assetId: string,
+    revocation: InspectionNftRevocation,
+  ): Promise<{ txHash: string } | null> {
+    this.logger.log(
+      `Attempting to burn NFT ${assetId} of inspection ${revocation.inspectionId}`,
+    );
+    const asset = await this.getNftData(assetId);
+    if (asset.quantity === '0') {
+      this.logger.warn(`NFT ${assetId} is already burned`);
+      return null;
+    }
+
+    const walletAddress = (await this.wallet.getUsedAddresses())[0];
+    const mutex = this.getMutexForAddress(walletAddress);
+    return mutex.runExclusive(async () => {
+      const utxos = await this.chain.fetchAddressUtxos(walletAddress);
+      const nftUtxo = utxos.find((utxo) =>
+        utxo.output.amount.some((amount) => amount.unit === assetId),
+      );
+      if (!nftUtxo) {
+        throw new BadRequestException(
+          `NFT ${assetId} is not held by the backend wallet and cannot be burned by it.`,
+        );
+      }
+
+      const txBuilder = this.getTxBuilder().txIn(
+        nftUtxo.input.txHash,
+        nftUtxo.input.outputIndex,
+        nftUtxo.output.amount,
+        nftUtxo.output.address,
+      );
+      const forgingScript = ForgeScript.withOneSignature(walletAddress);
+      if (resolveScriptHash(forgingScript) === asset.policy_id) {
+        txBuilder
+          .mint('-1', asset.policy_id, asset.asset_name ?? '')
+          .mintingScript(forgingScript);
+      } else {
+        const { policy } = await this.findAikenMintPolicy(asset);
+        const burnRedeemer = this.constructBurnRedeemer();
+        const collateralUtxo = utxos.find(
+          (utxo) =>
+            utxo !== nftUtxo &&
+            utxo.output.amount.length === 1 &&
+            Number(utxo.output.amount[0].quantity) >= 5000000,
+        );
+        if (!collateralUtxo) {
+          throw new InternalServerErrorException(
+            'Burning with the Aiken policy requires an ADA-only UTXO of at least 5 ADA for collateral.',
+          );
+        }
+        txBuilder
+          .mintPlutusScriptV3()
+          .mint('-1', asset.policy_id, asset.asset_name ?? '')
+          .mintingScript(policy.code)
+          .mintRedeemerValue(burnRedeemer)
+          .txInCollateral(
+            collateralUtxo.input.txHash,
+            collateralUtxo.input.outputIndex,
+            collateralUtxo.output.amount,
+            collateralUtxo.output.address,
+          );
+      }
+
+      try {
+        const unsignedTx = await txBuilder
+          .metadataValue(
+            '674',
+            this.constructRevocationMetadata(asset, revocation, true),
+          )
+          .changeAddress(walletAddress)
+          .selectUtxosFrom(utxos)
+          .complete();
+        const signedTx = await this.wallet.signTx(unsignedTx, true);
+        const txHash = await this.chain.submitTx(signedTx);
+        this.logger.log(`Burn of NFT ${assetId} submitted. TxHash: ${txHash}`);
+        return { txHash };
+      } catch (error: unknown) {
+        this.logger.error(
+          `Failed to burn NFT ${assetId}: ${error instanceof Error ? error.message : String(error)}`,
+          error instanceof Error ? error.stack : undefined,
+        );
+        throw new InternalServerErrorException(`Failed to burn NFT ${assetId}`);
+      }
+    });
+  }
+
+  /**
+   * Publishes the revocation record of an inspection NFT the backend cannot
+   * burn (see burnInspectionNft), in a transaction that only carries the
+   * record (CIP-20 message, label 674) and pays its fee from the backend wallet.
+   *
+   * @param assetId The asset ID (PolicyID + HexAssetName) of the NFT.
+   * @param revocation The inspection and reason recorded.
+   * @returns A promise that resolves to the transaction hash.
+   * @throws NotFoundException if the asset does not exist.
+   * @throws InternalServerErrorException if building or submitting the transaction fails.
+   */
+  async publishNftRevocation(
+    assetId: string,
+    revocation: InspectionNftRevocation,
+  ): Promise<{ txHash: string }> {
+    const asset = await this.getNftData(assetId);
+    const walletAddress = (await this.wallet.getUsedAddresses())[0];
+    const mutex = this.getMutexForAddress(walletAddress);
+    return mutex.runExclusive(async () => {
+      try {
+        const utxos = await this.chain.fetchAddressUtxos(walletAddress);
+        const unsignedTx = await this.getTxBuilder()
+          .metadataValue(
+            '674',
+            this.constructRevocationMetadata(asset, revocation, false),
+          )
+          .changeAddress(walletAddress)
+          .selectUtxosFrom(utxos)
+          .complete();
+        const signedTx = await this.wallet.signTx(unsignedTx, true);
+        const txHash = await this.chain.submitTx(signedTx);
+        this.logger.log(
+          `Revocation of NFT ${assetId} published without a burn. TxHash: ${txHash}`,
+        );
+        return { txHash };
+      } catch (error: unknown) {
+        this.logger.error(
+          `Failed to publish the revocation of NFT ${assetId}: ${error instanceof Error ? error.message : String(error)}`,
+          error instanceof Error ? error.stack : undefined,
+        );
+        throw new InternalServerErrorException(
+          `Failed to publish the revocation of NFT ${assetId}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Retrieves transaction metadata from the chain using the transaction hash.
    *
    * @param txHash The hash of the Cardano transaction.
    * @returns A promise that resolves to an array of TransactionMetadataResponseDto.
    * @throws BadRequestException if the transaction hash is missing.
-   * @throws NotFoundException if the transaction or metadata is not found.
-   * @throws InternalServerErrorException for Blockfrost API or other errors.
+   * @throws NotFoundException if the transaction is not found.
+   * @throws InternalServerErrorException for chain provider errors.
    */
   async getTransactionMetadata(
     txHash: string,
@@ -909,194 +729,215 @@ export class BlockchainService {
     this.logger.log(`Retrieving metadata for TxHash: ${txHash}`);
     if (!txHash) throw new BadRequestException('Transaction hash is required.');
 
+    let metadata: TransactionMetadataResponseDto[] | null;
     try {
-      // Use the underlying BlockfrostProvider fetcher
-      const metadataResponse = await fetch(
-        `${this.blockfrostBaseUrl}/txs/${txHash}/metadata`,
-        {
-          headers: {
-            project_id: this.apiKey,
-          },
-        },
-      );
-
-      if (!metadataResponse.ok) {
-        if (metadataResponse.status === 404) {
-          throw new NotFoundException(
-            `No metadata found for transaction hash ${txHash}`,
-          );
-        }
-        throw new Error(
-          `Blockfrost API returned status ${metadataResponse.status}`,
-        );
-      }
-
-      const metadata =
-        (await metadataResponse.json()) as TransactionMetadataResponseDto[];
-
-      this.logger.log(`Metadata retrieved successfully for TxHash: ${txHash}`);
-      return metadata;
+      metadata = await this.chain.fetchTxMetadata(txHash);
     } catch (error: unknown) {
-      let errorMessage = 'Unknown error during metadata retrieval';
-      let errorStack: string | undefined = undefined;
-
-      if (error instanceof Error) {
-        errorMessage = error.message;
-        errorStack = error.stack;
-      } else if (
-        typeof error === 'object' &&
-        error !== null &&
-        'message' in error &&
-        typeof error.message === 'string'
-      ) {
-        errorMessage = error.message;
-        if ('stack' in error && typeof error.stack === 'string') {
-          errorStack = error.stack;
-        }
-      }
-
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
       this.logger.error(
         `Failed to retrieve metadata for TxHash ${txHash}: ${errorMessage}`,
-        errorStack,
+        error instanceof Error ? error.stack : undefined,
       );
-
-      if (
-        (typeof error === 'object' &&
-          error !== null &&
-          'message' in error &&
-          typeof error.message === 'string' &&
-          error.message.includes('404')) ||
-        (typeof error === 'object' &&
-          error !== null &&
-          'status' in error &&
-          typeof (error as { status: unknown }).status === 'number' &&
-          (error as { status: number }).status === 404)
-      ) {
-        throw new NotFoundException(
-          `Transaction or metadata not found for hash ${txHash}.`,
-        );
-      }
-
       throw new InternalServerErrorException(
         `Failed to retrieve transaction metadata: ${errorMessage}`,
       );
     }
+
+    if (!metadata) {
+      throw new NotFoundException(
+        `Transaction or metadata not found for hash ${txHash}.`,
+      );
+    }
+    this.logger.log(`Metadata retrieved successfully for TxHash: ${txHash}`);
+    return metadata;
   }
 
   /**
-   * Retrieves asset details (including on-chain metadata if available) from Blockfrost using the asset ID.
+   * Retrieves asset details (including on-chain metadata if available) from the chain using the asset ID.
    *
    * @param assetId The full asset ID (PolicyID + HexAssetName).
    * @returns A promise that resolves to an NftDataResponseDto.
    * @throws NotFoundException If the asset is not found.
-   * @throws InternalServerErrorException For Blockfrost API or other errors.
+   * @throws InternalServerErrorException For chain provider errors.
    */
   async getNftData(assetId: string): Promise<NftDataResponseDto> {
     this.logger.log(`Retrieving data for Asset ID: ${assetId}`);
     if (!assetId) throw new BadRequestException('Asset ID is required.');
 
+    let assetData: NftDataResponseDto | null;
     try {
-      // Fetch asset details including on-chain metadata from Blockfrost
-      const assetResponse = await fetch(
-        `${this.blockfrostBaseUrl}/assets/${assetId}`,
-        {
-          headers: {
-            project_id: this.apiKey,
-          },
-        },
+      assetData = await this.chain.fetchAsset(assetId);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Failed to retrieve asset data for Asset ID ${assetId}: ${errorMessage}`,
+        error instanceof Error ? error.stack : undefined,
       );
+      throw new InternalServerErrorException(
+        `Failed to retrieve asset data: ${errorMessage}`,
+      );
+    }
 
-      if (!assetResponse.ok) {
-        // Check for 404 specifically
-        if (assetResponse.status === 404) {
-          throw new NotFoundException(`Asset not found for ID ${assetId}.`);
-        }
-        throw new Error(
-          `Blockfrost API returned status ${assetResponse.status}`,
-        );
-      }
+    if (!assetData) {
+      throw new NotFoundException(`Asset not found for ID ${assetId}.`);
+    }
+    this.logger.log(
+      `Asset data retrieved successfully for Asset ID: ${assetId}`,
+    );
+    // The 'onchain_metadata' property usually holds the CIP-25 metadata
+    return assetData;
+  }
 
-      const assetData = (await assetResponse.json()) as NftDataResponseDto;
+  /**
+   * Retrieves the time of the block that includes a transaction.
+   *
+   * @param txHash The transaction hash.
+   * @returns A promise that resolves to the block time.
+   * @throws NotFoundException if the transaction is not on chain.
+   * @throws InternalServerErrorException for chain provider errors.
+   */
+  async getTransactionTime(txHash: string): Promise<Date> {
+    const tx = await this.chain.fetchTx(txHash);
+    if (!tx) {
+      throw new NotFoundException(`Transaction not found for hash ${txHash}.`);
+    }
+    return new Date(tx.blockTime * 1000);
+  }
 
-      this.logger.log(
-        `Asset data retrieved successfully for Asset ID: ${assetId}`,
-      );
+  /**
+   * Verifies a mint transaction submitted by the frontend for an inspection:
+   * the transaction must exist, have minted exactly one unit of the asset
+   * under the Aiken inspection policy (parameterized with one of the inputs
+   * it spent) and carry the expected PDF hash in its CIP-25 metadata.
+   *
+   * @param txHash The submitted transaction hash.
+   * @param assetId The submitted asset ID (PolicyID + HexAssetName).
+   * @param expectedPdfHash The PDF hash the metadata must contain.
+   * @returns A promise that resolves to the verification outcome, with the transaction depth when valid.
+   * @throws InternalServerErrorException for chain provider errors.
+   */
+  async verifyInspectionMint(
+    txHash: string,
+    assetId: string,
+    expectedPdfHash: string,
+  ): Promise<InspectionMintVerification> {
+    this.logger.log(`Verifying mint of asset ${assetId} in TxHash: ${txHash}`);
+
+    const tx = await this.chain.fetchTx(txHash);
+    if (!tx) {
+      return { status: 'NOT_FOUND' };
+    }
+    const invalid = (reason: string): InspectionMintVerification => {
+      this.logger.warn(`Mint verification of ${txHash} failed: ${reason}`);
+      return { status: 'INVALID', reason };
+    };
+    if (tx.assetMintOrBurnCount === 0) {
+      return invalid(`Transaction ${txHash} did not mint any asset.`);
+    }
 
-      // The 'onchain_metadata' property usually holds the CIP-25 metadata
-      return assetData; // Return the full asset data object
+    // 1. The asset was minted by this transaction, as a single unit
+    let asset: NftDataResponseDto;
+    try {
+      asset = await this.getNftData(assetId);
     } catch (error: unknown) {
-      let errorMessage = 'Unknown error during metadata retrieval';
-      let errorStack: string | undefined = undefined;
-
-      if (error instanceof Error) {
-        errorMessage = error.message;
-        errorStack = error.stack;
-      } else if (
-        typeof error === 'object' &&
-        error !== null &&
-        'message' in error &&
-        typeof error.message === 'string'
-      ) {
-        errorMessage = error.message;
-        if ('stack' in error && typeof error.stack === 'string') {
-          errorStack = error.stack;
-        }
+      if (error instanceof NotFoundException) {
+        return invalid(`Asset ${assetId} does not exist on chain.`);
       }
+      throw error;
+    }
+    if (asset.initial_mint_tx_hash !== txHash) {
+      return invalid(
+        `Asset ${assetId} was minted by transaction ${asset.initial_mint_tx_hash}, not ${txHash}.`,
+      );
+    }
+    if (asset.quantity !== '1') {
+      return invalid(
+        `Asset ${assetId} has a supply of ${asset.quantity}; an inspection NFT has a supply of 1.`,
+      );
+    }
 
-      this.logger.error(
-        `Failed to retrieve asset data for Asset ID ${assetId}: ${errorMessage}`,
-        errorStack,
+    // 2. Under our policy: the one-shot Aiken policy parameterized with an input the transaction spent
+    const inputs = await this.chain.fetchTxInputs(txHash);
+    const spentInputs = (inputs ?? []).filter(
+      (input) => !input.collateral && !input.reference,
+    );
+    const mintedUnderOurPolicy = spentInputs.some(
+      (input) =>
+        this.getParameterizedPolicy(input.txHash, input.outputIndex)
+          .policyId === asset.policy_id,
+    );
+    if (!mintedUnderOurPolicy) {
+      return invalid(
+        `Asset ${assetId} was not minted under the CAR-dano inspection policy.`,
       );
-      // Re-throw NotFoundException if it was caught
-      if (error instanceof NotFoundException) {
+    }
+
+    // 3. With the inspection's PDF hash in the CIP-25 metadata of the transaction
+    let metadataEntries: TransactionMetadataResponseDto[] = [];
+    try {
+      metadataEntries = await this.getTransactionMetadata(txHash);
+    } catch (error: unknown) {
+      if (!(error instanceof NotFoundException)) {
         throw error;
       }
-      // Check for 404 specifically from Blockfrost error message if not already caught
-      if (
-        (typeof error === 'object' &&
-          error !== null &&
-          'message' in error &&
-          typeof error.message === 'string' &&
-          error.message.includes('404')) ||
-        (typeof error === 'object' &&
-          error !== null &&
-          'status' in error &&
-          typeof (error as { status: unknown }).status === 'number' &&
-          (error as { status: number }).status === 404)
-      ) {
-        throw new NotFoundException(`Asset not found for ID ${assetId}.`);
-      }
-      throw new InternalServerErrorException(
-        `Failed to retrieve asset data: ${errorMessage}`,
+    }
+    const policyMetadata = metadataEntries.find(
+      (entry) => entry.label === '721',
+    )?.json_metadata as
+      Record<string, Record<string, { pdfHash?: unknown }>> | undefined;
+    const assetNameHex = asset.asset_name ?? '';
+    const assetMetadata =
+      policyMetadata?.[asset.policy_id]?.[
+        Buffer.from(assetNameHex, 'hex').toString('utf8')
+      ] ?? policyMetadata?.[asset.policy_id]?.[assetNameHex];
+    if (!assetMetadata) {
+      return invalid(
+        `Transaction ${txHash} has no CIP-25 metadata for asset ${assetId}.`,
       );
     }
+    if (assetMetadata.pdfHash !== expectedPdfHash) {
+      return invalid(
+        `On-chain pdfHash ${String(assetMetadata.pdfHash)} does not match the inspection's PDF hash ${expectedPdfHash}.`,
+      );
+    }
+
+    // 4. Depth of the transaction
+    const confirmations = (await this.chain.fetchConfirmations(txHash)) ?? 0;
+    this.logger.log(
+      `Mint of asset ${assetId} in ${txHash} verified (${confirmations} confirmations)`,
+    );
+    return { status: 'VALID', confirmations };
   }
 
   /**
    * Builds an unsigned transaction for minting NFT using an Aiken Smart Contract.
    * This function does not sign or submit the transaction.
    *
-   * @param buildMintTxDto Data containing the admin address and inspection details.
+   * The NFT carries the same CIP-25 metadata as NFTs minted by the backend.
+   *
+   * @param buildMintTxDto Data containing the admin address and inspection NFT metadata.
    * @returns A promise that resolves to an object containing the unsigned transaction CBOR and the NFT asset ID.
    * @throws NotFoundException if no UTXOs are available at the admin address.
-   * @throws BadRequestException if at least two UTXOs are not available for input and collateral.
+   * @throws BadRequestException if the metadata is invalid, or at least two UTXOs are not available for input and collateral.
    * @throws InternalServerErrorException if building the transaction fails or the Aiken validator is not found.
    */
   async buildAikenMintTransaction(
     buildMintTxDto: BuildMintTxDto,
   ): Promise<BuildMintTxResponseDto> {
-    const { adminAddress, inspectionData } = buildMintTxDto;
+    const { adminAddress, metadata } = buildMintTxDto;
 
     this.logger.log(
       `Starting to build Aiken transaction for admin: ${adminAddress}`,
     );
+    this.assertValidInspectionNftMetadata(metadata);
 
     try {
-      // 1. Get admin's UTXO from Blockfrost
+      // 1. Get admin's UTXO from the chain
       // In the new architecture, the frontend should ideally send the UTXO to be used
       // However, for now, we will fetch it in the backend.
-      const utxos =
-        await this.blockfrostProvider.fetchAddressUTxOs(adminAddress);
+      const utxos = await this.chain.fetchAddressUtxos(adminAddress);
       if (utxos.length === 0) {
         throw new NotFoundException('No UTXOs available at the admin address.');
       }
@@ -1110,25 +951,13 @@ export class BlockchainService {
       const mintRedeemer = this.constructMintRedeemer();
 
       // 3. Prepare metadata and asset name
-      const assetName = inspectionData.nftDisplayName;
-      const assetNameHex = stringToHex(assetName);
+      const assetNameHex = stringToHex(metadata.simpleAssetName);
       const nftAssetId = `${policyId}${assetNameHex}`;
-      const imageForDisplay = `ipfs://QmY65h6y6zUoJjN3ripc4J2PzEvzL2VkiVXz3sCZboqPJw`; // CAR-dano's Logo
-
-      const metadata = {
-        '721': {
-          [policyId]: {
-            [assetName]: {
-              name: assetName,
-              image: imageForDisplay,
-              mediaType: 'image/png',
-              description: 'NFT Proof of Vehicle Inspection',
-              vehicleNumber: inspectionData.vehicleNumber,
-              pdfHash: inspectionData.pdfHash,
-            },
-          },
-        },
-      };
+      const cip25Metadata = this.buildInspectionCip25Metadata(
+        metadata,
+        policyId,
+        adminAddress,
+      );
 
       // 4. Initialize MeshTxBuilder
       const txBuilder = this.getTxBuilder();
@@ -1155,7 +984,7 @@ export class BlockchainService {
         .mint('1', policyId, assetNameHex)
         .mintingScript(policy.code)
         .mintRedeemerValue(mintRedeemer)
-        .metadataValue('721', metadata['721'])
+        .metadataValue('721', cip25Metadata)
         .txOut(adminAddress, [{ unit: nftAssetId, quantity: '1' }])
         .txInCollateral(
           collateralUtxo.input.txHash,
@@ -1232,6 +1061,33 @@ export class BlockchainService {
     return { policy, policyId };
   }
 
+  /**
+   * Rebuilds the Aiken policy an asset was minted under, from the inputs its
+   * mint transaction spent (the policy is parameterized with one of them).
+   *
+   * @param asset The asset data from the chain.
+   * @returns The parameterized policy of the asset.
+   * @throws BadRequestException if the asset was not minted under the Aiken inspection policy.
+   */
+  private async findAikenMintPolicy(
+    asset: NftDataResponseDto,
+  ): Promise<InspectionPolicy> {
+    const inputs = await this.chain.fetchTxInputs(asset.initial_mint_tx_hash);
+    for (const input of inputs ?? []) {
+      if (input.collateral || input.reference) continue;
+      const candidate = this.getParameterizedPolicy(
+        input.txHash,
+        input.outputIndex,
+      );
+      if (candidate.policyId === asset.policy_id) {
+        return candidate;
+      }
+    }
+    throw new BadRequestException(
+      `Asset ${asset.asset} was not minted under a CAR-dano inspection policy.`,
+    );
+  }
+
   /**
    * Constructs the mint redeemer for the Aiken minting policy.
    *
@@ -1241,6 +1097,178 @@ export class BlockchainService {
     return mConStr(0, []);
   }
 
+  /**
+   * Constructs the burn redeemer for the Aiken minting policy, using the index
+   * of the Burn action declared in the blueprint.
+   *
+   * @returns The burn redeemer as Data.
+   * @throws BadRequestException if the compiled validator has no Burn action.
+   */
+  private constructBurnRedeemer(): Data {
+    const action = (blueprint as PlutusBlueprint).definitions[
+      'inspection_policy/Action'
+    ] as { anyOf?: Array<{ title: string; index: number }> } | undefined;
+    const burn = action?.anyOf?.find((variant) => variant.title === 'Burn');
+    if (!burn) {
+      throw new BadRequestException(
+        'The inspection_policy validator in plutus.json has no Burn action; NFTs minted with it cannot be burned until the contract is upgraded.',
+      );
+    }
+    return mConStr(burn.index, []);
+  }
+
+  /**
+   * Constructs the revocation record of an inspection NFT (CIP-20 message).
+   *
+   * @param asset The revoked NFT.
+   * @param revocation The inspection and reason recorded.
+   * @param burned Whether the transaction carrying the record burns the NFT.
+   * @returns The label 674 metadata value.
+   */
+  private constructRevocationMetadata(
+    asset: NftDataResponseDto,
+    revocation: InspectionNftRevocation,
+    burned: boolean,
+  ): { msg: string[] } {
+    return {
+      msg: [
+        'CAR-dano inspection NFT revoked',
+        `reason: ${revocation.reason}`,
+        `inspection: ${revocation.inspectionId}`,
+        `policy: ${asset.policy_id}`,
+        this.sanitizeMetadatumString(
+          `asset: ${Buffer.from(asset.asset_name ?? '', 'hex').toString('utf8')}`,
+          'asset',
+        ),
+        ...(burned ? [] : ['burned: no']),
+      ],
+    };
+  }
+
+  /**
+   * Checks inspection NFT metadata before it is published.
+   *
+   * @param metadata The inspection NFT metadata.
+   * @throws BadRequestException listing every missing or malformed field.
+   */
+  private assertValidInspectionNftMetadata(
+    metadata: InspectionNftMetadata,
+  ): void {
+    const problems: string[] = [];
+    if (!metadata.prettyId?.trim()) {
+      problems.push('prettyId is required');
+    }
+    if (!SHA256_HEX.test(metadata.pdfHash ?? '')) {
+      problems.push('pdfHash must be a hex SHA-256 digest');
+    }
+    if (!SHA256_HEX.test(metadata.vehicleNumberHash ?? '')) {
+      problems.push('vehicleNumberHash must be a hex SHA-256 digest');
+    }
+    if (!metadata.vehicleNumberAlg?.trim()) {
+      problems.push('vehicleNumberAlg is required');
+    }
+    if ('vehicleNumber' in metadata) {
+      problems.push('the plain vehicle number must not be published');
+    }
+    if (Number.isNaN(Date.parse(metadata.inspectionDate ?? ''))) {
+      problems.push('inspectionDate must be an ISO 8601 date');
+    }
+    if (
+      metadata.overallRating !== undefined &&
+      !Number.isFinite(metadata.overallRating)
+    ) {
+      problems.push('overallRating must be a number');
+    }
+    const assetNameBytes = Buffer.byteLength(
+      metadata.simpleAssetName ?? '',
+      'utf8',
+    );
+    if (assetNameBytes === 0 || assetNameBytes > 32) {
+      problems.push('simpleAssetName must be 1 to 32 bytes');
+    }
+    if (problems.length > 0) {
+      throw new BadRequestException(
+        `Invalid inspection NFT metadata: ${problems.join('; ')}.`,
+      );
+    }
+  }
+
+  /**
+   * Builds the CIP-25 (label 721) metadata of an inspection NFT, shared by the
+   * backend and the client-signed mint paths. The shape is versioned by
+   * `metadataVersion`, and every string is sanitized to the 64-byte limit.
+   *
+   * @param metadata The validated inspection NFT metadata.
+   * @param policyId The policy ID the NFT is minted under.
+   * @param mintedBy The address minting the NFT.
+   * @returns The metadata keyed by policy ID and asset name.
+   */
+  private buildInspectionCip25Metadata(
+    metadata: InspectionNftMetadata,
+    policyId: string,
+    mintedBy: string,
+  ): Record<string, Record<string, unknown>> {
+    const name =
+      metadata.name?.trim() ||
+      (metadata.carBrand?.trim()
+        ? `${metadata.carBrand.trim()} Used Car Record ${metadata.prettyId}`
+        : `Used Car Record ${metadata.prettyId}`);
+    // Prefer ipfs:// form for on-chain metadata to keep values short.
+    const image = (metadata.image?.trim() || DEFAULT_NFT_IMAGE).replace(
+      'https://ipfs.io/ipfs/',
+      'ipfs://',
+    );
+    const mediaType = metadata.mediaType?.trim() || 'image/png';
+
+    // Attributes array for easier indexing on marketplaces
+    const attributes: Array<{ trait_type: string; value: string | number }> = [
+      { trait_type: 'prettyId', value: metadata.prettyId },
+      {
+        trait_type: 'vehicleNumberHash',
+        value: metadata.vehicleNumberHash,
+      },
+      { trait_type: 'vehicleNumberAlg', value: metadata.vehicleNumberAlg },
+      { trait_type: 'inspectionDate', value: metadata.inspectionDate },
+    ];
+    if (metadata.overallRating !== undefined) {
+      attributes.push({
+        trait_type: 'overallRating',
+        value: metadata.overallRating,
+      });
+    }
+    if (metadata.carBrand) {
+      attributes.push({ trait_type: 'carBrand', value: metadata.carBrand });
+    }
+    if (metadata.carType) {
+      attributes.push({ trait_type: 'carType', value: metadata.carType });
+    }
+
+    // Only the fields below are published; anything else in `metadata` is dropped
+    const assetMetadata = this.sanitizeMetadataObject({
+      metadataVersion: INSPECTION_NFT_METADATA_VERSION,
+      name,
+      image,
+      mediaType,
+      description: metadata.description ?? 'NFT Proof of Vehicle Inspection',
+      files: [{ name, src: image, mediaType }],
+      prettyId: metadata.prettyId,
+      pdfHash: metadata.pdfHash,
+      pdfHashAlg: metadata.pdfHashAlg ?? 'sha256',
+      vehicleNumberHash: metadata.vehicleNumberHash,
+      vehicleNumberAlg: metadata.vehicleNumberAlg,
+      inspectionDate: metadata.inspectionDate,
+      overallRating: metadata.overallRating,
+      carBrand: metadata.carBrand,
+      carType: metadata.carType,
+      mintedBy: mintedBy.length > 48 ? `${mintedBy.slice(0, 48)}...` : mintedBy,
+      mintedAt: new Date().toISOString(),
+      attributes,
+    }) as Record<string, unknown>;
+
+    // Structure for CIP-0025: { policyId: { assetName: { metadata } } }
+    return { [policyId]: { [metadata.simpleAssetName]: assetMetadata } };
+  }
+
   /**
    * Ensure metadatum string values do not exceed Cardano's 64 byte limit.
    * Prefer converting https://ipfs.io/ipfs/... -> ipfs://... when possible.
@@ -1278,6 +1306,8 @@ export class BlockchainService {
     if (typeof obj === 'object') {
       const out: Record<string, unknown> = {};
       for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
+        // Metadata maps cannot hold undefined values; leave the key out
+        if (v === undefined) continue;
         out[k] = this.sanitizeMetadataObject(v, path ? `${path}.${k}` : k);
       }
       return out;
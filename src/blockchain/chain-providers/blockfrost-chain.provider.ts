@@ -0,0 +1,146 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: blockfrost-chain.provider.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Chain provider backed by the Blockfrost API, on the network
+ * selected by BLOCKFROST_ENV. UTXOs are fetched and transactions submitted
+ * through Mesh's BlockfrostProvider; everything else is read from the REST
+ * API directly.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlockfrostProvider, type UTxO } from '@meshsdk/core';
+import {
+  ChainProvider,
+  ChainTx,
+  ChainTxInput,
+} from './chain-provider.interface';
+import { NftDataResponseDto } from '../dto/nft-data-response.dto';
+import { TransactionMetadataResponseDto } from '../dto/transaction-metadata-response.dto';
+
+// Subset of the Blockfrost `/txs/{hash}` response
+interface BlockfrostTx {
+  hash: string;
+  block_height: number;
+  block_time: number;
+  asset_mint_or_burn_count: number;
+}
+
+// Subset of the Blockfrost `/txs/{hash}/utxos` response
+interface BlockfrostTxUtxos {
+  inputs: Array<{
+    tx_hash: string;
+    output_index: number;
+    collateral: boolean;
+    reference?: boolean;
+  }>;
+}
+
+@Injectable()
+export class BlockfrostChainProvider implements ChainProvider {
+  readonly name = 'blockfrost';
+  readonly meshFetcher: BlockfrostProvider;
+  private readonly logger = new Logger(BlockfrostChainProvider.name);
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+
+  constructor(config: ConfigService) {
+    const blockfrostEnv = config.getOrThrow<'preview' | 'preprod' | 'mainnet'>(
+      'BLOCKFROST_ENV',
+    );
+    this.baseUrl = `https://cardano-${blockfrostEnv}.blockfrost.io/api/v0`;
+    this.apiKey = config.getOrThrow<string>(
+      `BLOCKFROST_API_KEY_${blockfrostEnv.toUpperCase()}`,
+    );
+    this.meshFetcher = new BlockfrostProvider(this.apiKey);
+    this.logger.log(`Using Blockfrost environment: ${blockfrostEnv}`);
+  }
+
+  fetchAddressUtxos(address: string): Promise<UTxO[]> {
+    return this.meshFetcher.fetchAddressUTxOs(address);
+  }
+
+  submitTx(signedTx: string): Promise<string> {
+    return this.meshFetcher.submitTx(signedTx);
+  }
+
+  async fetchTx(txHash: string): Promise<ChainTx | null> {
+    const tx = await this.get<BlockfrostTx>(`/txs/${txHash}`);
+    return tx
+      ? {
+          hash: tx.hash,
+          blockHeight: tx.block_height,
+          blockTime: tx.block_time,
+          assetMintOrBurnCount: tx.asset_mint_or_burn_count,
+        }
+      : null;
+  }
+
+  async fetchTxInputs(txHash: string): Promise<ChainTxInput[] | null> {
+    const utxos = await this.get<BlockfrostTxUtxos>(`/txs/${txHash}/utxos`);
+    return utxos
+      ? utxos.inputs.map((input) => ({
+          txHash: input.tx_hash,
+          outputIndex: input.output_index,
+          collateral: input.collateral,
+          reference: input.reference ?? false,
+        }))
+      : null;
+  }
+
+  fetchTxMetadata(
+    txHash: string,
+  ): Promise<TransactionMetadataResponseDto[] | null> {
+    return this.get<TransactionMetadataResponseDto[]>(
+      `/txs/${txHash}/metadata`,
+    );
+  }
+
+  fetchAsset(assetId: string): Promise<NftDataResponseDto | null> {
+    return this.get<NftDataResponseDto>(`/assets/${assetId}`);
+  }
+
+  async fetchConfirmations(txHash: string): Promise<number | null> {
+    const tx = await this.get<BlockfrostTx>(`/txs/${txHash}`);
+    if (!tx) {
+      return null;
+    }
+    const latestBlock = await this.get<{ height: number }>('/blocks/latest');
+    return latestBlock
+      ? Math.max(0, latestBlock.height - tx.block_height + 1)
+      : 0;
+  }
+
+  /**
+   * Fetches a Blockfrost API path.
+   *
+   * @param path The API path (e.g. `/txs/{hash}`).
+   * @returns The parsed response, or null if Blockfrost answers 404.
+   * @throws InternalServerErrorException for other Blockfrost API errors.
+   */
+  private async get<T>(path: string): Promise<T | null> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: { project_id: this.apiKey },
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      this.logger.error(
+        `Blockfrost API returned status ${response.status} for ${path}`,
+      );
+      throw new InternalServerErrorException(
+        `Blockfrost API returned status ${response.status}`,
+      );
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,114 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: chain-provider.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Contract implemented by Cardano chain providers (Blockfrost,
+ * in-memory emulator). BlockchainService only reads the chain and submits
+ * transactions through the provider bound to CHAIN_PROVIDER, so minting and
+ * verification can run against a local ledger in development and tests.
+ * --------------------------------------------------------------------------
+ */
+
+import type { IFetcher, UTxO } from '@meshsdk/core';
+import { NftDataResponseDto } from '../dto/nft-data-response.dto';
+import { TransactionMetadataResponseDto } from '../dto/transaction-metadata-response.dto';
+
+/**
+ * Injection token of the active ChainProvider.
+ */
+export const CHAIN_PROVIDER = 'CHAIN_PROVIDER';
+
+/**
+ * A transaction included in a block.
+ */
+export interface ChainTx {
+  hash: string;
+  blockHeight: number;
+  /** Time of the including block, in Unix seconds. */
+  blockTime: number;
+  /** Number of assets minted or burned by the transaction. */
+  assetMintOrBurnCount: number;
+}
+
+/**
+ * An input of a transaction included in a block.
+ */
+export interface ChainTxInput {
+  txHash: string;
+  outputIndex: number;
+  collateral: boolean;
+  reference: boolean;
+}
+
+export interface ChainProvider {
+  /** The provider name, e.g. "blockfrost" or "emulator". */
+  readonly name: string;
+
+  /**
+   * Fetcher handed to MeshTxBuilder for protocol parameters and cost
+   * models; the builder falls back to its defaults without one.
+   */
+  readonly meshFetcher?: IFetcher;
+
+  /**
+   * Lists the unspent outputs of an address, as of the latest block.
+   * Outputs spent by transactions still in the mempool are included.
+   *
+   * @param address The bech32 address.
+   */
+  fetchAddressUtxos(address: string): Promise<UTxO[]>;
+
+  /**
+   * Submits a signed transaction. Rejections carry the ledger error, e.g.
+   * "BadInputsUTxO" when an input is already spent.
+   *
+   * @param signedTx The signed transaction CBOR.
+   * @returns The transaction hash.
+   */
+  submitTx(signedTx: string): Promise<string>;
+
+  /**
+   * Looks up a transaction included in a block.
+   *
+   * @param txHash The transaction hash.
+   * @returns The transaction, or null if it is not on chain (yet).
+   */
+  fetchTx(txHash: string): Promise<ChainTx | null>;
+
+  /**
+   * Lists the inputs of a transaction included in a block.
+   *
+   * @param txHash The transaction hash.
+   * @returns The inputs, or null if the transaction is not on chain (yet).
+   */
+  fetchTxInputs(txHash: string): Promise<ChainTxInput[] | null>;
+
+  /**
+   * Lists the metadata of a transaction included in a block, one entry per
+   * label.
+   *
+   * @param txHash The transaction hash.
+   * @returns The metadata, or null if the transaction is not on chain (yet).
+   */
+  fetchTxMetadata(
+    txHash: string,
+  ): Promise<TransactionMetadataResponseDto[] | null>;
+
+  /**
+   * Looks up an asset, with its CIP-25 metadata.
+   *
+   * @param assetId The asset ID (PolicyID + HexAssetName).
+   * @returns The asset, or null if it was never minted.
+   */
+  fetchAsset(assetId: string): Promise<NftDataResponseDto | null>;
+
+  /**
+   * Counts the blocks confirming a transaction, its own block included.
+   *
+   * @param txHash The transaction hash.
+   * @returns The confirmations, or null if the transaction is not on chain (yet).
+   */
+  fetchConfirmations(txHash: string): Promise<number | null>;
+}
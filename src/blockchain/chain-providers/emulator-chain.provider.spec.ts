@@ -0,0 +1,195 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: emulator-chain.provider.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Tests of BlockchainService minting against the in-memory
+ * ledger of EmulatorChainProvider: confirmation delays, rebuilds after UTXO
+ * contention, and submit failures. Transactions are built and signed for
+ * real, offline.
+ * --------------------------------------------------------------------------
+ */
+
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MeshWallet } from '@meshsdk/core';
+import { BlockchainService } from '../blockchain.service';
+import { EmulatorChainProvider } from './emulator-chain.provider';
+
+// Jest runs specs in their own realm, but Node's structuredClone creates Maps
+// of the main realm, which the `instanceof Map` checks of Mesh's metadata
+// serializer reject. Mesh clones the builder state, so clone within the realm.
+function cloneInRealm<T>(value: T): T {
+  if (value instanceof Map) {
+    return new Map(
+      [...(value as Map<unknown, unknown>)].map(([key, item]) => [
+        cloneInRealm(key),
+        cloneInRealm(item),
+      ]),
+    ) as T;
+  }
+  if (value instanceof Uint8Array) {
+    return new Uint8Array(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => cloneInRealm(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneInRealm(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+describe('EmulatorChainProvider', () => {
+  const walletKey = MeshWallet.brew(true) as string;
+  const config = new ConfigService({
+    BLOCKFROST_ENV: 'preview',
+    WALLET_SECRET_KEY_PREVIEW: walletKey,
+  });
+  const metadata = {
+    prettyId: 'YOG-13082025-001',
+    pdfHash: 'a'.repeat(64),
+    vehicleNumberHash: 'b'.repeat(64),
+    vehicleNumberAlg: 'sha256',
+    inspectionDate: '2025-08-13T00:00:00.000Z',
+    overallRating: 8,
+    carBrand: 'Toyota',
+    simpleAssetName: 'CAR-dano-aaaaaaaa',
+  };
+  let walletAddress: string;
+  let chain: EmulatorChainProvider;
+  let service: BlockchainService;
+
+  beforeAll(async () => {
+    const wallet = new MeshWallet({
+      networkId: 0,
+      key: { type: 'root', bech32: walletKey },
+    });
+    walletAddress = (await wallet.getUsedAddresses())[0];
+  });
+
+  beforeEach(() => {
+    chain = new EmulatorChainProvider();
+    service = new BlockchainService(config, chain);
+    // No random pre-mint delay, and fast backoff between attempts
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.spyOn(global, 'structuredClone').mockImplementation(cloneInRealm);
+    Object.assign(service, {
+      INITIAL_RETRY_DELAY_MS: 1,
+      SUBMIT_INITIAL_DELAY_MS: 1,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('confirms a mint only once a block is produced', async () => {
+    chain.fund(walletAddress, 100000000);
+
+    const { txHash, assetId } = await service.mintInspectionNft(metadata);
+    await expect(service.getTransactionTime(txHash)).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(service.getNftData(assetId)).rejects.toThrow(
+      NotFoundException,
+    );
+
+    chain.produceBlocks();
+    await expect(service.getTransactionTime(txHash)).resolves.toBeInstanceOf(
+      Date,
+    );
+    await expect(service.getNftData(assetId)).resolves.toEqual(
+      expect.objectContaining({
+        quantity: '1',
+        initial_mint_tx_hash: txHash,
+        onchain_metadata: expect.objectContaining({
+          metadataVersion: 1,
+          pdfHash: metadata.pdfHash,
+        }) as unknown,
+      }),
+    );
+
+    chain.produceBlocks(2);
+    await expect(chain.fetchConfirmations(txHash)).resolves.toBe(3);
+  });
+
+  it('rebuilds a mint whose inputs were spent by a competing transaction', async () => {
+    const funding = chain.fund(walletAddress, 100000000);
+    chain.contendNextSubmit();
+    const submit = jest.spyOn(chain, 'submitTx');
+
+    const { txHash } = await service.mintInspectionNft(metadata);
+
+    expect(submit).toHaveBeenCalledTimes(2);
+    await expect(submit.mock.results[0].value).rejects.toThrow('BadInputsUTxO');
+    chain.produceBlocks();
+    const inputs = await chain.fetchTxInputs(txHash);
+    expect(inputs).toHaveLength(1);
+    expect(inputs![0].txHash).not.toBe(funding.input.txHash);
+  });
+
+  it('rejects mints spending outputs of an unconfirmed transaction until a block is produced', async () => {
+    chain.fund(walletAddress, 100000000);
+    const second = { ...metadata, simpleAssetName: 'CAR-dano-bbbbbbbb' };
+    await service.mintInspectionNft(metadata);
+    const submit = jest.spyOn(chain, 'submitTx');
+
+    // The ledger still shows the output spent by the first mint
+    await expect(service.mintInspectionNft(second)).rejects.toThrow(
+      'Failed to mint NFT',
+    );
+    expect(submit).toHaveBeenCalledTimes(4);
+
+    chain.produceBlocks();
+    await expect(service.mintInspectionNft(second)).resolves.toHaveProperty(
+      'txHash',
+    );
+  });
+
+  it('fails a mint on submit errors other than stale inputs', async () => {
+    chain.fund(walletAddress, 100000000);
+    chain.failNextSubmit(new Error('Connection reset by peer'));
+    const submit = jest.spyOn(chain, 'submitTx');
+
+    await expect(service.mintInspectionNft(metadata)).rejects.toThrow(
+      'Failed to mint NFT',
+    );
+    expect(submit).toHaveBeenCalledTimes(1);
+    await expect(chain.fetchAddressUtxos(walletAddress)).resolves.toHaveLength(
+      1,
+    );
+  });
+
+  it('publishes a revocation record without burning the NFT', async () => {
+    chain.fund(walletAddress, 100000000);
+    const { assetId } = await service.mintInspectionNft(metadata);
+    chain.produceBlocks();
+
+    const { txHash } = await service.publishNftRevocation(assetId, {
+      inspectionId: 'inspection-id',
+      reason: 'DELETED',
+    });
+    chain.produceBlocks();
+
+    await expect(service.getTransactionMetadata(txHash)).resolves.toEqual([
+      {
+        label: '674',
+        json_metadata: {
+          msg: expect.arrayContaining([
+            'reason: DELETED',
+            'inspection: inspection-id',
+            'burned: no',
+          ]) as unknown,
+        },
+      },
+    ]);
+    await expect(service.getNftData(assetId)).resolves.toHaveProperty(
+      'quantity',
+      '1',
+    );
+  });
+});
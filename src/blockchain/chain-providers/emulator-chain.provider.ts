@@ -0,0 +1,398 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: emulator-chain.provider.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Chain provider keeping an in-memory Cardano ledger, for local
+ * development and deterministic tests without Blockfrost. Submitted
+ * transactions are decoded, checked for spent inputs and value conservation,
+ * and wait in a mempool until a block is produced; reads only see confirmed
+ * blocks, as Blockfrost does. Tests can inject submit failures and UTXO
+ * contention. Scripts, signatures, certificates and withdrawals are not
+ * checked.
+ * --------------------------------------------------------------------------
+ */
+
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { resolveFingerprint, type Asset, type UTxO } from '@meshsdk/core';
+import { deserializeTx, resolveTxHash } from '@meshsdk/core-cst';
+import {
+  ChainProvider,
+  ChainTx,
+  ChainTxInput,
+} from './chain-provider.interface';
+import { NftDataResponseDto } from '../dto/nft-data-response.dto';
+import { TransactionMetadataResponseDto } from '../dto/transaction-metadata-response.dto';
+
+export interface EmulatorChainOptions {
+  /** Lovelace credited to an address the first time its UTXOs are fetched. */
+  genesisLovelace?: number;
+  /** Produces a block at this interval; otherwise only produceBlocks() does. */
+  blockIntervalMs?: number;
+}
+
+// A transaction as kept by the emulator, in the mempool or in a block
+interface EmulatedTx {
+  hash: string;
+  inputs: ChainTxInput[];
+  outputs: UTxO[];
+  mint: Map<string, bigint>;
+  metadata: TransactionMetadataResponseDto[];
+  blockHeight?: number;
+  blockTime?: number;
+}
+
+const utxoKey = (txHash: string, outputIndex: number) =>
+  `${txHash}#${outputIndex}`;
+
+export class EmulatorChainProvider implements ChainProvider, OnModuleDestroy {
+  readonly name = 'emulator';
+  private readonly logger = new Logger(EmulatorChainProvider.name);
+  /** Unspent outputs as of the latest block, by "txHash#index". */
+  private readonly utxos = new Map<string, UTxO>();
+  private readonly mempool: EmulatedTx[] = [];
+  private readonly txs = new Map<string, EmulatedTx>();
+  private readonly assets = new Map<string, NftDataResponseDto>();
+  private readonly fundedAddresses = new Set<string>();
+  private readonly submitFailures: Error[] = [];
+  private pendingContentions = 0;
+  private syntheticTxCount = 0;
+  private height = 0;
+  private readonly blockTimer?: NodeJS.Timeout;
+
+  constructor(private readonly options: EmulatorChainOptions = {}) {
+    if (options.blockIntervalMs && options.blockIntervalMs > 0) {
+      this.blockTimer = setInterval(
+        () => this.produceBlocks(),
+        options.blockIntervalMs,
+      );
+      this.blockTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.blockTimer);
+  }
+
+  /**
+   * Credits an address with a new confirmed output.
+   *
+   * @param address The bech32 address.
+   * @param lovelace The amount of the output.
+   * @returns The created output.
+   */
+  fund(address: string, lovelace: number): UTxO {
+    this.fundedAddresses.add(address);
+    const utxo: UTxO = {
+      input: { txHash: this.nextSyntheticTxHash('genesis'), outputIndex: 0 },
+      output: {
+        address,
+        amount: [{ unit: 'lovelace', quantity: String(lovelace) }],
+      },
+    };
+    this.utxos.set(utxoKey(utxo.input.txHash, 0), utxo);
+    return utxo;
+  }
+
+  /**
+   * Makes the next submission fail with the given error, before any check.
+   *
+   * @param error The error thrown by submitTx.
+   */
+  failNextSubmit(error: Error): void {
+    this.submitFailures.push(error);
+  }
+
+  /**
+   * Makes the next submission lose the race for its inputs: a competing
+   * transaction spending them (back to their owners) is confirmed first, so
+   * the submission is rejected with BadInputsUTxO.
+   */
+  contendNextSubmit(): void {
+    this.pendingContentions += 1;
+  }
+
+  /**
+   * Produces blocks; the first one includes every transaction in the mempool.
+   *
+   * @param count The number of blocks.
+   */
+  produceBlocks(count = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.height += 1;
+      const blockTime = Math.floor(Date.now() / 1000);
+      for (const tx of this.mempool.splice(0)) {
+        this.confirm(tx, blockTime);
+      }
+    }
+  }
+
+  fetchAddressUtxos(address: string): Promise<UTxO[]> {
+    if (this.options.genesisLovelace && !this.fundedAddresses.has(address)) {
+      this.fund(address, this.options.genesisLovelace);
+    }
+    const utxos = [...this.utxos.values()].filter(
+      (utxo) => utxo.output.address === address,
+    );
+    return Promise.resolve(structuredClone(utxos));
+  }
+
+  submitTx(signedTx: string): Promise<string> {
+    try {
+      return Promise.resolve(this.accept(signedTx));
+    } catch (error: unknown) {
+      return Promise.reject(
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  fetchTx(txHash: string): Promise<ChainTx | null> {
+    const tx = this.txs.get(txHash);
+    return Promise.resolve(
+      tx
+        ? {
+            hash: tx.hash,
+            blockHeight: tx.blockHeight!,
+            blockTime: tx.blockTime!,
+            assetMintOrBurnCount: tx.mint.size,
+          }
+        : null,
+    );
+  }
+
+  fetchTxInputs(txHash: string): Promise<ChainTxInput[] | null> {
+    return Promise.resolve(this.txs.get(txHash)?.inputs ?? null);
+  }
+
+  fetchTxMetadata(
+    txHash: string,
+  ): Promise<TransactionMetadataResponseDto[] | null> {
+    return Promise.resolve(this.txs.get(txHash)?.metadata ?? null);
+  }
+
+  fetchAsset(assetId: string): Promise<NftDataResponseDto | null> {
+    const asset = this.assets.get(assetId);
+    return Promise.resolve(asset ? structuredClone(asset) : null);
+  }
+
+  fetchConfirmations(txHash: string): Promise<number | null> {
+    const tx = this.txs.get(txHash);
+    return Promise.resolve(tx ? this.height - tx.blockHeight! + 1 : null);
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Checks a signed transaction against the ledger and adds it to the mempool.
+   *
+   * @returns The transaction hash.
+   */
+  private accept(signedTx: string): string {
+    const failure = this.submitFailures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    const tx = deserializeTx(signedTx);
+    const body = tx.body().toCore();
+    const hash = resolveTxHash(signedTx);
+    const spentKeys = body.inputs.map((input) =>
+      utxoKey(String(input.txId), input.index),
+    );
+
+    // Inputs must be unspent in the latest block and by the mempool
+    const spentInMempool = new Set(
+      this.mempool.flatMap((pending) =>
+        pending.inputs
+          .filter((input) => !input.collateral && !input.reference)
+          .map((input) => utxoKey(input.txHash, input.outputIndex)),
+      ),
+    );
+    if (this.pendingContentions > 0) {
+      this.pendingContentions -= 1;
+      this.confirmCompetingSpend(
+        spentKeys.filter((key) => !spentInMempool.has(key)),
+      );
+    }
+    const badInputs = spentKeys.filter(
+      (key) => !this.utxos.has(key) || spentInMempool.has(key),
+    );
+    if (badInputs.length > 0) {
+      throw new Error(`BadInputsUTxO (${badInputs.join(', ')})`);
+    }
+
+    const outputs: UTxO[] = body.outputs.map((output, outputIndex) => ({
+      input: { txHash: hash, outputIndex },
+      output: {
+        address: String(output.address),
+        amount: [
+          { unit: 'lovelace', quantity: output.value.coins.toString() },
+          ...[...(output.value.assets ?? new Map<string, bigint>())].map(
+            ([unit, quantity]): Asset => ({
+              unit: String(unit),
+              quantity: quantity.toString(),
+            }),
+          ),
+        ],
+      },
+    }));
+    const mint = new Map<string, bigint>(body.mint ?? []);
+
+    // Inputs plus minted assets must equal outputs plus the fee
+    const balance = new Map<string, bigint>([['lovelace', -body.fee]]);
+    const add = (unit: string, quantity: bigint) =>
+      balance.set(unit, (balance.get(unit) ?? 0n) + quantity);
+    for (const key of spentKeys) {
+      for (const { unit, quantity } of this.utxos.get(key)!.output.amount) {
+        add(unit, BigInt(quantity));
+      }
+    }
+    mint.forEach((quantity, unit) => add(unit, quantity));
+    for (const utxo of outputs) {
+      for (const { unit, quantity } of utxo.output.amount) {
+        add(unit, -BigInt(quantity));
+      }
+    }
+    const unbalanced = [...balance].filter(([, quantity]) => quantity !== 0n);
+    if (unbalanced.length > 0) {
+      throw new Error(
+        `ValueNotConservedUTxO (${unbalanced.map(([unit, quantity]) => `${unit}: ${quantity}`).join(', ')})`,
+      );
+    }
+
+    const metadata: TransactionMetadataResponseDto[] = [];
+    tx.auxiliaryData()
+      ?.toCore()
+      .blob?.forEach((value, label) =>
+        metadata.push({
+          label: label.toString(),
+          json_metadata: this.toJson(value),
+        }),
+      );
+
+    this.mempool.push({
+      hash,
+      inputs: [
+        ...body.inputs.map((input) => ({
+          txHash: String(input.txId),
+          outputIndex: input.index,
+          collateral: false,
+          reference: false,
+        })),
+        ...(body.collaterals ?? []).map((input) => ({
+          txHash: String(input.txId),
+          outputIndex: input.index,
+          collateral: true,
+          reference: false,
+        })),
+        ...(body.referenceInputs ?? []).map((input) => ({
+          txHash: String(input.txId),
+          outputIndex: input.index,
+          collateral: false,
+          reference: true,
+        })),
+      ],
+      outputs,
+      mint,
+      metadata,
+    });
+    this.logger.debug(`Transaction ${hash} added to the mempool`);
+    return hash;
+  }
+
+  /**
+   * Applies a transaction to the ledger and the minted assets.
+   */
+  private confirm(tx: EmulatedTx, blockTime: number): void {
+    for (const input of tx.inputs) {
+      if (!input.collateral && !input.reference) {
+        this.utxos.delete(utxoKey(input.txHash, input.outputIndex));
+      }
+    }
+    for (const utxo of tx.outputs) {
+      this.utxos.set(utxoKey(tx.hash, utxo.input.outputIndex), utxo);
+    }
+
+    const cip25 = tx.metadata.find((entry) => entry.label === '721')
+      ?.json_metadata as
+      Record<string, Record<string, Record<string, unknown>>> | undefined;
+    tx.mint.forEach((quantity, assetId) => {
+      const policyId = assetId.slice(0, 56);
+      const assetName = assetId.slice(56);
+      const asset = this.assets.get(assetId) ?? {
+        asset: assetId,
+        policy_id: policyId,
+        asset_name: assetName || null,
+        fingerprint: resolveFingerprint(policyId, assetName),
+        quantity: '0',
+        initial_mint_tx_hash: tx.hash,
+        mint_or_burn_count: 0,
+        onchain_metadata: null,
+      };
+      asset.quantity = (BigInt(asset.quantity) + quantity).toString();
+      asset.mint_or_burn_count += 1;
+      const assetMetadata =
+        cip25?.[policyId]?.[Buffer.from(assetName, 'hex').toString('utf8')] ??
+        cip25?.[policyId]?.[assetName];
+      if (quantity > 0n && assetMetadata) {
+        asset.onchain_metadata = assetMetadata;
+      }
+      this.assets.set(assetId, asset);
+    });
+
+    this.txs.set(tx.hash, { ...tx, blockHeight: this.height, blockTime });
+  }
+
+  /**
+   * Confirms a transaction spending the given outputs back to their owners.
+   */
+  private confirmCompetingSpend(keys: string[]): void {
+    const hash = this.nextSyntheticTxHash('competitor');
+    const inputs = keys.filter((key) => this.utxos.has(key));
+    this.height += 1;
+    this.confirm(
+      {
+        hash,
+        inputs: inputs.map((key) => {
+          const { input } = this.utxos.get(key)!;
+          return { ...input, collateral: false, reference: false };
+        }),
+        outputs: inputs.map((key, outputIndex) => ({
+          input: { txHash: hash, outputIndex },
+          output: structuredClone(this.utxos.get(key)!.output),
+        })),
+        mint: new Map(),
+        metadata: [],
+      },
+      Math.floor(Date.now() / 1000),
+    );
+    this.logger.debug(`Competing transaction ${hash} spent ${keys.join(', ')}`);
+  }
+
+  private nextSyntheticTxHash(kind: string): string {
+    this.syntheticTxCount += 1;
+    return createHash('sha256')
+      .update(`emulator:${kind}:${this.syntheticTxCount}`)
+      .digest('hex');
+  }
+
+  // Renders a metadatum as Blockfrost does: maps as objects, bytes as 0x-hex
+  private toJson(value: unknown): unknown {
+    if (typeof value === 'bigint') return Number(value);
+    if (value instanceof Uint8Array) {
+      return `0x${Buffer.from(value).toString('hex')}`;
+    }
+    if (Array.isArray(value)) return value.map((item) => this.toJson(item));
+    if (value instanceof Map) {
+      const out: Record<string, unknown> = {};
+      value.forEach((item, key) => {
+        out[String(key)] = this.toJson(item);
+      });
+      return out;
+    }
+    return value;
+  }
+}
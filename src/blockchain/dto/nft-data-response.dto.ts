@@ -62,9 +62,45 @@ class NftOnchainMetadataDto {
   inspectionId?: string;
 
   /**
-   * Vehicle Plate Number.
+   * Version of the CAR-dano metadata shape; absent on NFTs minted before versioning.
    */
-  @ApiPropertyOptional({ description: 'Vehicle Plate Number.' })
+  @ApiPropertyOptional({
+    description:
+      'Version of the CAR-dano metadata shape; absent on NFTs minted before versioning.',
+    example: 1,
+  })
+  metadataVersion?: number;
+
+  /**
+   * Human-readable inspection ID.
+   */
+  @ApiPropertyOptional({ description: 'Human-readable inspection ID.' })
+  prettyId?: string;
+
+  /**
+   * Hash of the normalized vehicle plate number.
+   */
+  @ApiPropertyOptional({
+    description: 'Hash of the normalized (trimmed, upper-case) plate number.',
+  })
+  vehicleNumberHash?: string;
+
+  /**
+   * Algorithm of vehicleNumberHash.
+   */
+  @ApiPropertyOptional({
+    description: 'Algorithm of vehicleNumberHash.',
+    example: 'sha256',
+  })
+  vehicleNumberAlg?: string;
+
+  /**
+   * Vehicle Plate Number, published only by NFTs minted before versioning.
+   */
+  @ApiPropertyOptional({
+    description:
+      'Vehicle Plate Number, published only by NFTs minted before versioning.',
+  })
   vehicleNumber?: string;
 
   /**
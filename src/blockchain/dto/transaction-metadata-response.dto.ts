@@ -45,11 +45,13 @@ export class TransactionMetadataResponseDto {
         // Policy ID
         TokenNameHex: {
           // Asset Name (Hex) - Note: Blockfrost shows hex here in some contexts, but the lookup key in metadata is often the non-hex name
-          name: 'CarInspection-B123RI', // Example name
+          metadataVersion: 1, // Version of the metadata shape
+          name: 'Toyota Used Car Record YOG-13082025-001', // Example name
           image: 'ipfs://QmY65h6y6zUoJjN3ripc4J2PzEvzL2VkiVXz3sCZboqPJw',
           mediaType: 'image/png',
           description: 'NFT Proof of Vehicle Inspection',
-          vehicleNumber: 'XYZ123', // Example vehicle number
+          prettyId: 'YOG-13082025-001', // Example inspection ID
+          vehicleNumberHash: 'sha256...', // Hash of the plate number, never the plate itself
           pdfHash: 'sha256...', // Example PDF hash
         },
       },
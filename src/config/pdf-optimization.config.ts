@@ -5,13 +5,29 @@
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
  * Description: Configuration for PDF optimization settings.
- * Contains settings to reduce PDF file size while maintaining quality.
+ * Contains the Puppeteer, print and resource blocking settings used by the
+ * PDF renderer, and the size targeting strategy: the passes tried (lower
+ * scale, in-page image downsampling) until the PDF fits the target range,
+ * and the optional Ghostscript post-processing.
  * --------------------------------------------------------------------------
  */
 
 import { PDFOptions } from 'puppeteer';
 
+/**
+ * One render pass of the size targeting strategy.
+ */
+export interface PdfRenderPass {
+  /** Page scale passed to page.pdf(). */
+  scale: number;
+  /** Images wider than this are downsampled in the page; null keeps them as-is. */
+  imageMaxWidth: number | null;
+  /** JPEG quality (0-1) of downsampled images. */
+  imageQuality: number;
+}
+
 export interface PdfOptimizationConfig {
+  compressionLevel: string;
   puppeteerArgs: string[];
   viewportSettings: {
     width: number;
@@ -24,34 +40,70 @@ export interface PdfOptimizationConfig {
     blockedTypes: string[];
     blockedDomains: string[];
   };
+  sizeTargeting: {
+    /** Hard limit; a PDF still larger after every pass fails the quality gate. */
+    maxSizeBytes: number;
+    /** Passes stop as soon as a PDF is at most targetMaxBytes. */
+    targetMinBytes: number;
+    targetMaxBytes: number;
+    /** Tried in order; the first pass is the regular render. */
+    passes: PdfRenderPass[];
+  };
+  ghostscript: {
+    /** Ghostscript binary; the pass is skipped when it is not installed. */
+    path: string;
+    /** pdfwrite preset (-dPDFSETTINGS). */
+    settings: string;
+  };
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Parses PDF_TARGET_RANGE_MB ("min-max", e.g. "2-5").
+ */
+function parseTargetRange(
+  value: string | undefined,
+  maxSizeMb: number,
+): { minMb: number; maxMb: number } {
+  const match = value?.match(/^\s*(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)\s*$/);
+  if (!match) return { minMb: 0, maxMb: maxSizeMb };
+  const minMb = Number(match[1]);
+  const maxMb = Math.min(Number(match[2]), maxSizeMb);
+  return minMb <= maxMb ? { minMb, maxMb } : { minMb: 0, maxMb: maxSizeMb };
 }
 
 /**
  * Get PDF optimization configuration based on environment
  */
 export function getPdfOptimizationConfig(): PdfOptimizationConfig {
-  const isProduction = process.env.NODE_ENV === 'production';
-  const compressionLevel = process.env.PDF_COMPRESSION_LEVEL || 'medium';
+  const compressionLevel = process.env.PDF_COMPRESSION_LEVEL || 'low';
 
-  let scale = 0.75;
-  let deviceScaleFactor = 1;
+  // Use conservative scale values to maintain layout quality
+  let scale = 1.0; // Default: no scaling for best quality
 
   switch (compressionLevel) {
     case 'high':
-      scale = 0.6;
-      deviceScaleFactor = 0.8;
+      scale = 0.85; // Modest reduction
       break;
     case 'medium':
-      scale = 0.75;
-      deviceScaleFactor = 1;
+      scale = 0.9; // Light reduction
       break;
     case 'low':
-      scale = 0.9;
-      deviceScaleFactor = 1.2;
+    case 'none':
+      scale = 1.0; // No scaling
       break;
   }
 
+  const maxSizeMb = Number(process.env.PDF_MAX_SIZE_MB ?? 20);
+  const { minMb, maxMb } = parseTargetRange(
+    process.env.PDF_TARGET_RANGE_MB,
+    maxSizeMb,
+  );
+
   return {
+    compressionLevel,
+
     puppeteerArgs: [
       '--no-sandbox',
       '--disable-setuid-sandbox',
@@ -59,21 +111,31 @@ export function getPdfOptimizationConfig(): PdfOptimizationConfig {
       '--disable-gpu',
       '--disable-web-security',
       '--disable-features=VizDisplayCompositor',
-      '--disable-extensions',
-      '--disable-plugins',
+      '--memory-pressure-off',
+      '--max_old_space_size=4096',
       '--disable-background-timer-throttling',
       '--disable-backgrounding-occluded-windows',
       '--disable-renderer-backgrounding',
-      '--memory-pressure-off',
-      '--max_old_space_size=4096',
       '--disable-ipc-flooding-protection',
-      ...(isProduction ? ['--single-process'] : []),
+      '--disable-hang-monitor',
+      '--disable-client-side-phishing-detection',
+      '--disable-component-update',
+      '--disable-default-apps',
+      '--disable-domain-reliability',
+      '--disable-extensions',
+      '--disable-features=TranslateUI',
+      '--disable-sync',
+      '--hide-scrollbars',
+      '--mute-audio',
+      '--no-default-browser-check',
+      '--no-first-run',
     ],
 
+    // Standard desktop width, sufficient height for content
     viewportSettings: {
-      width: 794, // A4 width at 96 DPI
-      height: 1123, // A4 height at 96 DPI
-      deviceScaleFactor,
+      width: 1200,
+      height: 1600,
+      deviceScaleFactor: 1,
     },
 
     pdfOptions: {
@@ -82,15 +144,15 @@ export function getPdfOptimizationConfig(): PdfOptimizationConfig {
       preferCSSPageSize: false,
       displayHeaderFooter: false,
       margin: {
-        top: '8mm',
-        bottom: '8mm',
-        left: '8mm',
-        right: '8mm',
+        top: '10mm',
+        bottom: '10mm',
+        left: '10mm',
+        right: '10mm',
       },
       scale,
       omitBackground: false,
-      timeout: 360000,
-      tagged: false, // Disable for smaller file size
+      timeout: 600000, // Increased to 10 minutes for better reliability
+      tagged: compressionLevel === 'none', // Only tag for highest quality
     },
 
     cssOptimizations: `
@@ -98,145 +160,112 @@ export function getPdfOptimizationConfig(): PdfOptimizationConfig {
         * {
           -webkit-print-color-adjust: exact !important;
           color-adjust: exact !important;
-          font-smooth: never !important;
-          -webkit-font-smoothing: none !important;
-          -moz-osx-font-smoothing: unset !important;
         }
-        
-        /* Optimize images */
+        /* Keep images intact and visible */
         img {
           max-width: 100% !important;
           height: auto !important;
-          image-rendering: optimizeSpeed !important;
-          -webkit-optimize-contrast: true !important;
+          display: block !important;
+          page-break-inside: avoid !important;
         }
-        
-        /* Remove expensive visual effects */
-        * {
+        /* Only remove heavy decorative elements that don't affect content */
+        .shadow:not(.inspection-shadow), .drop-shadow:not(.inspection-shadow) {
           box-shadow: none !important;
-          text-shadow: none !important;
           filter: none !important;
-          -webkit-filter: none !important;
-          border-radius: 0 !important;
-          transform: none !important;
-          transition: none !important;
-          animation: none !important;
-        }
-        
-        /* Optimize backgrounds */
-        * {
-          background-attachment: scroll !important;
-          background-size: contain !important;
-        }
-        
-        /* Hide decorative elements */
-        .shadow, .box-shadow, .drop-shadow, .gradient {
-          display: none !important;
-        }
-        
-        /* Compress large images */
-        img[width], img[height] {
-          max-width: 600px !important;
-          height: auto !important;
-        }
-        
-        /* Optimize table borders */
-        table, th, td {
-          border-collapse: collapse !important;
-          border-spacing: 0 !important;
         }
       }
-      
-      /* General optimizations */
-      img {
-        image-rendering: -webkit-optimize-contrast !important;
-        image-rendering: crisp-edges !important;
-      }
-      
-      /* Remove animations and transitions for faster rendering */
-      *, *::before, *::after {
-        animation-duration: 0s !important;
-        animation-delay: 0s !important;
-        transition-duration: 0s !important;
-        transition-delay: 0s !important;
-      }
     `,
 
+    // Only block truly unnecessary resources, KEEP images and fonts
     resourceBlocking: {
-      blockedTypes: ['font', 'media', 'websocket', 'eventsource', 'other'],
+      blockedTypes: ['websocket', 'eventsource'],
       blockedDomains: [
         'analytics',
         'tracking',
         'ads',
-        'facebook',
+        'facebook.com',
         'google-analytics',
-        'googlesyndication',
-        'doubleclick',
         'googletag',
-        'gtm',
-        'hotjar',
-        'mixpanel',
-        'segment',
+        'doubleclick',
       ],
     },
+
+    sizeTargeting: {
+      maxSizeBytes: Math.round(maxSizeMb * MB),
+      targetMinBytes: Math.round(minMb * MB),
+      targetMaxBytes: Math.round(maxMb * MB),
+      passes: [
+        { scale, imageMaxWidth: null, imageQuality: 1 },
+        { scale, imageMaxWidth: 1600, imageQuality: 0.85 },
+        { scale, imageMaxWidth: 1200, imageQuality: 0.75 },
+        { scale: scale - 0.05, imageMaxWidth: 1200, imageQuality: 0.75 },
+        { scale: scale - 0.1, imageMaxWidth: 800, imageQuality: 0.65 },
+      ],
+    },
+
+    ghostscript: {
+      path: process.env.PDF_GHOSTSCRIPT_PATH || 'gs',
+      settings: process.env.PDF_GHOSTSCRIPT_SETTINGS || '/ebook',
+    },
   };
 }
 
 /**
- * JavaScript code to inject for image optimization
+ * Downsamples the images of the page in place: images wider than maxWidth are
+ * redrawn at maxWidth as JPEG. Runs in the browser (page.evaluate). Always
+ * starts from the original source so successive passes do not compound
+ * quality loss. Images that cannot be drawn (e.g. tainted canvas) are kept.
+ *
+ * @returns The number of images downsampled.
  */
-export const imageOptimizationScript = `
-  // Compress and optimize images
-  const images = document.querySelectorAll('img');
-  images.forEach((img) => {
-    // Limit image dimensions
-    if (img.naturalWidth > 800) {
-      img.style.maxWidth = '800px';
-      img.style.height = 'auto';
+export async function downsampleImages(
+  maxWidth: number,
+  quality: number,
+): Promise<number> {
+  const images = Array.from(document.querySelectorAll('img'));
+  let downsampled = 0;
+
+  for (const img of images) {
+    const originalSrc = img.dataset.pdfOriginalSrc ?? img.currentSrc;
+    if (!originalSrc) continue;
+
+    const source = new Image();
+    source.crossOrigin = 'anonymous';
+    source.src = originalSrc;
+    try {
+      await source.decode();
+    } catch {
+      continue;
+    }
+    if (source.naturalWidth <= maxWidth) continue;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = maxWidth;
+    canvas.height = Math.round(
+      (source.naturalHeight * maxWidth) / source.naturalWidth,
+    );
+    const context = canvas.getContext('2d');
+    if (!context) continue;
+    // JPEG has no alpha channel; keep transparent areas white
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    let dataUrl: string;
+    try {
+      dataUrl = canvas.toDataURL('image/jpeg', quality);
+    } catch {
+      continue;
     }
-    
-    // Optimize rendering
-    img.style.imageRendering = 'optimizeSpeed';
-    
-    // Remove high-resolution attributes that increase file size
+    img.dataset.pdfOriginalSrc = originalSrc;
     img.removeAttribute('srcset');
     img.removeAttribute('sizes');
-  });
-  
-  // Remove or hide heavy media elements
-  const heavyElements = document.querySelectorAll('video, iframe, embed, object, audio');
-  heavyElements.forEach((el) => {
-    el.style.display = 'none';
-  });
-  
-  // Optimize SVGs
-  const svgs = document.querySelectorAll('svg');
-  svgs.forEach((svg) => {
-    svg.style.shapeRendering = 'optimizeSpeed';
-    svg.style.textRendering = 'optimizeSpeed';
-  });
-  
-  // Remove data attributes that might contain large data
-  const elementsWithData = document.querySelectorAll('[data-*]');
-  elementsWithData.forEach((el) => {
-    // Remove large data attributes but keep necessary ones
-    Array.from(el.attributes).forEach((attr) => {
-      if (attr.name.startsWith('data-') && attr.value.length > 100) {
-        el.removeAttribute(attr.name);
-      }
-    });
-  });
-  
-  // Optimize canvas elements
-  const canvases = document.querySelectorAll('canvas');
-  canvases.forEach((canvas) => {
-    // Reduce canvas resolution if too high
-    if (canvas.width > 1000 || canvas.height > 1000) {
-      const ratio = Math.min(1000 / canvas.width, 1000 / canvas.height);
-      canvas.width *= ratio;
-      canvas.height *= ratio;
-    }
-  });
-`;
+    img.src = dataUrl;
+    await img.decode().catch(() => undefined);
+    downsampled++;
+  }
+
+  return downsampled;
+}
 
 export default getPdfOptimizationConfig;
@@ -0,0 +1,303 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: admin-customer-inspections.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for admins handling inspections booked by
+ * customers: booking on behalf of a customer, listing/filtering, rescheduling,
+ * assigning an admin and moving requests through the status lifecycle.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { CustomerInspectionRequestsService } from './customer-inspection-requests.service';
+import { AdminCreateCustomerInspectionRequestDto } from './dto/admin-create-customer-inspection-request.dto';
+import { UpdateCustomerInspectionRequestDto } from './dto/update-customer-inspection-request.dto';
+import { AssignCustomerInspectionRequestDto } from './dto/assign-customer-inspection-request.dto';
+import { UpdateCustomerInspectionStatusDto } from './dto/update-customer-inspection-status.dto';
+import { AdminCustomerInspectionRequestQueryDto } from './dto/customer-inspection-request-query.dto';
+import { CustomerInspectionRequestResponseDto } from './dto/customer-inspection-request-response.dto';
+
+@ApiTags('Customer Inspection Requests (Admin)')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPERADMIN)
+@Controller('admin/customer-inspections') // Base path: /api/v1/admin/customer-inspections
+export class AdminCustomerInspectionsController {
+  constructor(
+    private readonly customerInspectionRequestsService: CustomerInspectionRequestsService,
+  ) {}
+
+  /**
+   * Books an inspection on behalf of a customer.
+   *
+   * @param dto Customer, vehicle, branch city, schedule and optional assignee.
+   * @returns The created request.
+   */
+  @Post()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Book an inspection on behalf of a customer' })
+  @ApiBody({ type: AdminCreateCustomerInspectionRequestDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Inspection request created with status NOT_STARTED.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input, unknown customer, branch city or assignee.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async create(
+    @Body() dto: AdminCreateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request =
+      await this.customerInspectionRequestsService.createForAdmin(dto);
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+
+  /**
+   * Lists all customer inspection requests, newest first.
+   *
+   * @param query Filters (status, branch city, assignee, customer) and pagination.
+   * @returns The page of requests with pagination metadata.
+   */
+  @Get()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'List customer inspection requests' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated list of customer inspection requests.',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            $ref: '#/components/schemas/CustomerInspectionRequestResponseDto',
+          },
+        },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            pageSize: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async findAll(
+    @Query() query: AdminCustomerInspectionRequestQueryDto,
+  ): Promise<{
+    data: CustomerInspectionRequestResponseDto[];
+    meta: { total: number; page: number; pageSize: number; totalPages: number };
+  }> {
+    const result = await this.customerInspectionRequestsService.findAll(query);
+    return {
+      data: result.data.map(
+        (request) => new CustomerInspectionRequestResponseDto(request),
+      ),
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * Retrieves a customer inspection request.
+   *
+   * @param id The request ID.
+   * @returns The request.
+   */
+  @Get(':id')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Get a customer inspection request' })
+  @ApiParam({ name: 'id', description: 'Inspection request ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The inspection request.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Request not found.',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request = await this.customerInspectionRequestsService.findOne(id);
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+
+  /**
+   * Changes the details of a request (vehicle, branch city, schedule, notes).
+   *
+   * @param id The request ID.
+   * @param dto Fields to change.
+   * @returns The updated request.
+   */
+  @Patch(':id')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Change a customer inspection request',
+    description: 'Not possible once the request is DONE.',
+  })
+  @ApiParam({ name: 'id', description: 'Inspection request ID (UUID)' })
+  @ApiBody({ type: UpdateCustomerInspectionRequestDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated inspection request.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Request not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The request is already DONE.',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request = await this.customerInspectionRequestsService.update(
+      id,
+      dto,
+    );
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+
+  /**
+   * Assigns an admin to a request, or clears the assignment.
+   *
+   * @param id The request ID.
+   * @param dto The assignee (ADMIN/SUPERADMIN) or null.
+   * @returns The updated request.
+   */
+  @Patch(':id/assign')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Assign an admin to a customer inspection request' })
+  @ApiParam({ name: 'id', description: 'Inspection request ID (UUID)' })
+  @ApiBody({ type: AssignCustomerInspectionRequestDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated inspection request.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The assignee is not an active admin.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Request not found.',
+  })
+  async assign(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AssignCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request = await this.customerInspectionRequestsService.assign(
+      id,
+      dto.adminAssigneeId ?? null,
+    );
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+
+  /**
+   * Moves a request to another status.
+   * Allowed: NOT_STARTED → IN_PROGRESS | ON_HOLD, IN_PROGRESS → ON_HOLD | AWAITING_APPROVAL,
+   * ON_HOLD → IN_PROGRESS, AWAITING_APPROVAL → DONE | IN_PROGRESS.
+   *
+   * @param id The request ID.
+   * @param dto The target status.
+   * @param actorId The authenticated admin's ID.
+   * @returns The updated request.
+   */
+  @Patch(':id/status')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Change the status of a customer inspection request',
+    description:
+      'Allowed transitions: NOT_STARTED → IN_PROGRESS | ON_HOLD, IN_PROGRESS → ON_HOLD | AWAITING_APPROVAL, ON_HOLD → IN_PROGRESS, AWAITING_APPROVAL → DONE | IN_PROGRESS. Submitting an inspection linked to the request moves it to AWAITING_APPROVAL automatically.',
+  })
+  @ApiParam({ name: 'id', description: 'Inspection request ID (UUID)' })
+  @ApiBody({ type: UpdateCustomerInspectionStatusDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated inspection request.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Transition not allowed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Request not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The status was changed concurrently.',
+  })
+  async updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCustomerInspectionStatusDto,
+    @GetUser('id') actorId: string,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request = await this.customerInspectionRequestsService.updateStatus(
+      id,
+      dto.status,
+      actorId,
+    );
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+}
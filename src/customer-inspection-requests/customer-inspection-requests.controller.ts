@@ -0,0 +1,274 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspection-requests.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for customers booking and tracking their own
+ * inspections. All routes operate on the authenticated customer's requests.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { CustomerInspectionRequestsService } from './customer-inspection-requests.service';
+import { CreateCustomerInspectionRequestDto } from './dto/create-customer-inspection-request.dto';
+import { UpdateCustomerInspectionRequestDto } from './dto/update-customer-inspection-request.dto';
+import { CustomerInspectionRequestQueryDto } from './dto/customer-inspection-request-query.dto';
+import { CustomerInspectionRequestResponseDto } from './dto/customer-inspection-request-response.dto';
+
+@ApiTags('Customer Inspection Requests')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.CUSTOMER)
+@Controller('me/inspection-requests') // Base path: /api/v1/me/inspection-requests
+export class CustomerInspectionRequestsController {
+  constructor(
+    private readonly customerInspectionRequestsService: CustomerInspectionRequestsService,
+  ) {}
+
+  /**
+   * Books a new inspection for the authenticated customer.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param dto Vehicle, branch city, preferred schedule and notes.
+   * @returns The created request.
+   */
+  @Post()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Book an inspection' })
+  @ApiBody({ type: CreateCustomerInspectionRequestDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Inspection request created with status NOT_STARTED.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Invalid input, unknown/inactive branch city or schedule in the past.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not a customer.',
+  })
+  async create(
+    @GetUser('id') customerId: string,
+    @Body() dto: CreateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request =
+      await this.customerInspectionRequestsService.createForCustomer(
+        customerId,
+        dto,
+      );
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+
+  /**
+   * Lists the authenticated customer's requests, newest first.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param query Status filter and pagination.
+   * @returns The page of requests with pagination metadata.
+   */
+  @Get()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'List my inspection requests' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated list of the customer’s inspection requests.',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            $ref: '#/components/schemas/CustomerInspectionRequestResponseDto',
+          },
+        },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            pageSize: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not a customer.',
+  })
+  async findAll(
+    @GetUser('id') customerId: string,
+    @Query() query: CustomerInspectionRequestQueryDto,
+  ): Promise<{
+    data: CustomerInspectionRequestResponseDto[];
+    meta: { total: number; page: number; pageSize: number; totalPages: number };
+  }> {
+    const result =
+      await this.customerInspectionRequestsService.findAllForCustomer(
+        customerId,
+        query,
+      );
+    return {
+      data: result.data.map(
+        (request) => new CustomerInspectionRequestResponseDto(request),
+      ),
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * Retrieves one of the authenticated customer's requests.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param id The request ID.
+   * @returns The request.
+   */
+  @Get(':id')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Get one of my inspection requests' })
+  @ApiParam({ name: 'id', description: 'Inspection request ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The inspection request.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Request not found or owned by another customer.',
+  })
+  async findOne(
+    @GetUser('id') customerId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request =
+      await this.customerInspectionRequestsService.findOneForCustomer(
+        customerId,
+        id,
+      );
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+
+  /**
+   * Changes the details of a request that has not been picked up yet.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param id The request ID.
+   * @param dto Fields to change.
+   * @returns The updated request.
+   */
+  @Patch(':id')
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Change one of my inspection requests',
+    description: 'Only possible while the request status is NOT_STARTED.',
+  })
+  @ApiParam({ name: 'id', description: 'Inspection request ID (UUID)' })
+  @ApiBody({ type: UpdateCustomerInspectionRequestDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated inspection request.',
+    type: CustomerInspectionRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Request not found or owned by another customer.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The request has already been picked up.',
+  })
+  async update(
+    @GetUser('id') customerId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestResponseDto> {
+    const request =
+      await this.customerInspectionRequestsService.updateForCustomer(
+        customerId,
+        id,
+        dto,
+      );
+    return new CustomerInspectionRequestResponseDto(request);
+  }
+
+  /**
+   * Cancels a request that has not been picked up yet.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param id The request ID.
+   */
+  @Delete(':id')
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Cancel one of my inspection requests',
+    description: 'Only possible while the request status is NOT_STARTED.',
+  })
+  @ApiParam({ name: 'id', description: 'Inspection request ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The request was cancelled.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Request not found or owned by another customer.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The request has already been picked up.',
+  })
+  async cancel(
+    @GetUser('id') customerId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.customerInspectionRequestsService.cancelForCustomer(
+      customerId,
+      id,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspection-requests.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for inspections booked by customers.
+ * Provides the customer (/me/inspection-requests) and admin
+ * (/admin/customer-inspections) controllers and exports the service so
+ * InspectionsModule can link submitted inspections to their request.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CustomerInspectionRequestsService } from './customer-inspection-requests.service';
+import { CustomerInspectionRequestsController } from './customer-inspection-requests.controller';
+import { AdminCustomerInspectionsController } from './admin-customer-inspections.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [
+    CustomerInspectionRequestsController,
+    AdminCustomerInspectionsController,
+  ],
+  providers: [CustomerInspectionRequestsService],
+  exports: [CustomerInspectionRequestsService],
+})
+export class CustomerInspectionRequestsModule {}
@@ -0,0 +1,373 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  CustomerInspectionRequest,
+  CustomerInspectionStatus,
+  Prisma,
+  Role,
+} from '@prisma/client';
+import { CustomerInspectionRequestsService } from './customer-inspection-requests.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const buildRequest = (
+  overrides: Partial<CustomerInspectionRequest> = {},
+): CustomerInspectionRequest => ({
+  id: 'request-1',
+  customerId: 'customer-1',
+  adminAssigneeId: null,
+  inspectionBranchCityId: 'branch-1',
+  vehiclePlateNumber: 'AB 1 DQ',
+  vehicleBrand: 'Toyota',
+  vehicleModel: 'Avanza',
+  vehicleYear: 2019,
+  preferredSchedule: new Date(Date.now() + 86400000),
+  notes: null,
+  status: CustomerInspectionStatus.NOT_STARTED,
+  inspectionId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('CustomerInspectionRequestsService', () => {
+  let service: CustomerInspectionRequestsService;
+
+  const mockPrismaService = {
+    customerInspectionRequest: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    inspectionBranchCity: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomerInspectionRequestsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<CustomerInspectionRequestsService>(
+      CustomerInspectionRequestsService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createForCustomer', () => {
+    const dto = {
+      inspectionBranchCityId: 'branch-1',
+      vehiclePlateNumber: 'AB 1 DQ',
+      preferredSchedule: new Date(Date.now() + 86400000).toISOString(),
+    };
+
+    it('should create a request for the customer', async () => {
+      mockPrismaService.inspectionBranchCity.findUnique.mockResolvedValue({
+        isActive: true,
+      });
+      mockPrismaService.customerInspectionRequest.create.mockResolvedValue(
+        buildRequest(),
+      );
+
+      await service.createForCustomer('customer-1', dto);
+
+      expect(
+        mockPrismaService.customerInspectionRequest.create,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            customerId: 'customer-1',
+            preferredSchedule: new Date(dto.preferredSchedule),
+          }) as unknown,
+        }),
+      );
+    });
+
+    it('should reject an inactive branch city', async () => {
+      mockPrismaService.inspectionBranchCity.findUnique.mockResolvedValue({
+        isActive: false,
+      });
+
+      await expect(
+        service.createForCustomer('customer-1', dto),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a schedule in the past', async () => {
+      mockPrismaService.inspectionBranchCity.findUnique.mockResolvedValue({
+        isActive: true,
+      });
+
+      await expect(
+        service.createForCustomer('customer-1', {
+          ...dto,
+          preferredSchedule: '2020-01-01T00:00:00.000Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.customerInspectionRequest.create,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOneForCustomer', () => {
+    it('should not return requests of another customer', async () => {
+      mockPrismaService.customerInspectionRequest.findFirst.mockResolvedValue(
+        null,
+      );
+
+      await expect(
+        service.findOneForCustomer('customer-2', 'request-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(
+        mockPrismaService.customerInspectionRequest.findFirst,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'request-1', customerId: 'customer-2' },
+        }),
+      );
+    });
+  });
+
+  describe('updateForCustomer / cancelForCustomer', () => {
+    it('should reject changes once the request has been picked up', async () => {
+      mockPrismaService.customerInspectionRequest.findFirst.mockResolvedValue(
+        buildRequest({ status: CustomerInspectionStatus.IN_PROGRESS }),
+      );
+
+      await expect(
+        service.updateForCustomer('customer-1', 'request-1', {
+          notes: 'Please call first',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(
+        mockPrismaService.customerInspectionRequest.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should report a conflict when the request is picked up concurrently', async () => {
+      mockPrismaService.customerInspectionRequest.findFirst.mockResolvedValue(
+        buildRequest(),
+      );
+      mockPrismaService.customerInspectionRequest.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        service.cancelForCustomer('customer-1', 'request-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(
+        mockPrismaService.customerInspectionRequest.deleteMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: 'request-1',
+          customerId: 'customer-1',
+          status: CustomerInspectionStatus.NOT_STARTED,
+        },
+      });
+    });
+  });
+
+  describe('createForAdmin', () => {
+    it('should reject a user who is not a customer', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        role: Role.INSPECTOR,
+      });
+
+      await expect(
+        service.createForAdmin({
+          customerId: 'inspector-1',
+          inspectionBranchCityId: 'branch-1',
+          vehiclePlateNumber: 'AB 1 DQ',
+          preferredSchedule: '2025-08-20T09:00:00.000Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('assign', () => {
+    it('should reject an assignee who is not an active admin', async () => {
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue(
+        buildRequest(),
+      );
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        role: Role.INSPECTOR,
+        isActive: true,
+      });
+
+      await expect(service.assign('request-1', 'inspector-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(
+        mockPrismaService.customerInspectionRequest.update,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should allow clearing the assignment', async () => {
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue(
+        buildRequest({ adminAssigneeId: 'admin-1' }),
+      );
+      mockPrismaService.customerInspectionRequest.update.mockResolvedValue(
+        buildRequest(),
+      );
+
+      await service.assign('request-1', null);
+
+      expect(mockPrismaService.user.findUnique).not.toHaveBeenCalled();
+      expect(
+        mockPrismaService.customerInspectionRequest.update,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { adminAssigneeId: null } }),
+      );
+    });
+  });
+
+  describe('updateStatus', () => {
+    it.each([
+      [
+        CustomerInspectionStatus.NOT_STARTED,
+        CustomerInspectionStatus.IN_PROGRESS,
+      ],
+      [CustomerInspectionStatus.IN_PROGRESS, CustomerInspectionStatus.ON_HOLD],
+      [CustomerInspectionStatus.ON_HOLD, CustomerInspectionStatus.IN_PROGRESS],
+      [
+        CustomerInspectionStatus.AWAITING_APPROVAL,
+        CustomerInspectionStatus.DONE,
+      ],
+    ])('should allow %s -> %s', async (from, to) => {
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue(
+        buildRequest({ status: from }),
+      );
+      mockPrismaService.customerInspectionRequest.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      await service.updateStatus('request-1', to, 'admin-1');
+
+      expect(
+        mockPrismaService.customerInspectionRequest.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: from },
+        data: { status: to },
+      });
+    });
+
+    it.each([
+      [CustomerInspectionStatus.NOT_STARTED, CustomerInspectionStatus.DONE],
+      [CustomerInspectionStatus.ON_HOLD, CustomerInspectionStatus.DONE],
+      [CustomerInspectionStatus.DONE, CustomerInspectionStatus.IN_PROGRESS],
+    ])('should reject %s -> %s', async (from, to) => {
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue(
+        buildRequest({ status: from }),
+      );
+
+      await expect(
+        service.updateStatus('request-1', to, 'admin-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.customerInspectionRequest.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should report a conflict when the status changed concurrently', async () => {
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue(
+        buildRequest(),
+      );
+      mockPrismaService.customerInspectionRequest.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        service.updateStatus(
+          'request-1',
+          CustomerInspectionStatus.IN_PROGRESS,
+          'admin-1',
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('linkInspection', () => {
+    const tx = mockPrismaService as unknown as Prisma.TransactionClient;
+
+    it('should link the inspection and move the request to AWAITING_APPROVAL', async () => {
+      mockPrismaService.customerInspectionRequest.updateMany.mockResolvedValue({
+        count: 1,
+      });
+
+      await service.linkInspection(tx, 'request-1', 'inspection-1');
+
+      expect(
+        mockPrismaService.customerInspectionRequest.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: 'request-1',
+          inspectionId: null,
+          status: CustomerInspectionStatus.IN_PROGRESS,
+        },
+        data: {
+          inspectionId: 'inspection-1',
+          status: CustomerInspectionStatus.AWAITING_APPROVAL,
+        },
+      });
+    });
+
+    it('should reject an unknown request', async () => {
+      mockPrismaService.customerInspectionRequest.updateMany.mockResolvedValue({
+        count: 0,
+      });
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue(
+        null,
+      );
+
+      await expect(
+        service.linkInspection(tx, 'missing', 'inspection-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a request that is already linked', async () => {
+      mockPrismaService.customerInspectionRequest.updateMany.mockResolvedValue({
+        count: 0,
+      });
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue({
+        status: CustomerInspectionStatus.AWAITING_APPROVAL,
+        inspectionId: 'inspection-1',
+      });
+
+      await expect(
+        service.linkInspection(tx, 'request-1', 'inspection-2'),
+      ).rejects.toThrow(/already linked/);
+    });
+
+    it.each([
+      CustomerInspectionStatus.NOT_STARTED,
+      CustomerInspectionStatus.ON_HOLD,
+      CustomerInspectionStatus.DONE,
+    ])('should reject a request that is %s', async (status) => {
+      mockPrismaService.customerInspectionRequest.updateMany.mockResolvedValue({
+        count: 0,
+      });
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue({
+        status,
+        inspectionId: null,
+      });
+
+      await expect(
+        service.linkInspection(tx, 'request-1', 'inspection-1'),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
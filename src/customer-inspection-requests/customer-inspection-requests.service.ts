@@ -0,0 +1,554 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspection-requests.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service for inspections booked by customers.
+ * Customers create and track their own requests; admins create requests on
+ * behalf of customers, assign themselves and move requests through the
+ * validated status lifecycle. InspectionsService links submitted inspections
+ * back to their request.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  CustomerInspectionRequest,
+  CustomerInspectionStatus,
+  Prisma,
+  Role,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateCustomerInspectionRequestDto } from './dto/create-customer-inspection-request.dto';
+import { UpdateCustomerInspectionRequestDto } from './dto/update-customer-inspection-request.dto';
+import { AdminCreateCustomerInspectionRequestDto } from './dto/admin-create-customer-inspection-request.dto';
+import {
+  AdminCustomerInspectionRequestQueryDto,
+  CustomerInspectionRequestQueryDto,
+} from './dto/customer-inspection-request-query.dto';
+import { CustomerInspectionRequestWithRelations } from './dto/customer-inspection-request-response.dto';
+
+/**
+ * Allowed status transitions of a customer inspection request.
+ * DONE is final; AWAITING_APPROVAL can go back to IN_PROGRESS when the
+ * submitted inspection needs to be redone.
+ */
+export const CUSTOMER_INSPECTION_STATUS_TRANSITIONS: Record<
+  CustomerInspectionStatus,
+  CustomerInspectionStatus[]
+> = {
+  [CustomerInspectionStatus.NOT_STARTED]: [
+    CustomerInspectionStatus.IN_PROGRESS,
+    CustomerInspectionStatus.ON_HOLD,
+  ],
+  [CustomerInspectionStatus.IN_PROGRESS]: [
+    CustomerInspectionStatus.ON_HOLD,
+    CustomerInspectionStatus.AWAITING_APPROVAL,
+  ],
+  [CustomerInspectionStatus.ON_HOLD]: [CustomerInspectionStatus.IN_PROGRESS],
+  [CustomerInspectionStatus.AWAITING_APPROVAL]: [
+    CustomerInspectionStatus.DONE,
+    CustomerInspectionStatus.IN_PROGRESS,
+  ],
+  [CustomerInspectionStatus.DONE]: [],
+};
+
+const REQUEST_INCLUDE = {
+  customer: { select: { id: true, name: true, email: true } },
+  adminAssignee: { select: { id: true, name: true, email: true } },
+  inspectionBranchCity: { select: { id: true, city: true, code: true } },
+  inspection: { select: { id: true, pretty_id: true, status: true } },
+} satisfies Prisma.CustomerInspectionRequestInclude;
+
+export interface PaginatedCustomerInspectionRequests {
+  data: CustomerInspectionRequestWithRelations[];
+  meta: { total: number; page: number; pageSize: number; totalPages: number };
+}
+
+@Injectable()
+export class CustomerInspectionRequestsService {
+  private readonly logger = new Logger(CustomerInspectionRequestsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  // --- Customer operations ---
+
+  /**
+   * Books an inspection for the given customer.
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {CreateCustomerInspectionRequestDto} dto - Vehicle, branch and schedule.
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The created request.
+   * @throws {BadRequestException} If the branch is unknown/inactive or the schedule is in the past.
+   */
+  async createForCustomer(
+    customerId: string,
+    dto: CreateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestWithRelations> {
+    await this.assertActiveBranchCity(dto.inspectionBranchCityId);
+    const preferredSchedule = this.parseSchedule(dto.preferredSchedule, true);
+
+    const request = await this.prisma.customerInspectionRequest.create({
+      data: {
+        customerId,
+        inspectionBranchCityId: dto.inspectionBranchCityId,
+        vehiclePlateNumber: dto.vehiclePlateNumber,
+        vehicleBrand: dto.vehicleBrand,
+        vehicleModel: dto.vehicleModel,
+        vehicleYear: dto.vehicleYear,
+        preferredSchedule,
+        notes: dto.notes,
+      },
+      include: REQUEST_INCLUDE,
+    });
+    this.logger.log(
+      `Customer ${customerId} booked inspection request ${request.id} for ${dto.vehiclePlateNumber}`,
+    );
+    return request;
+  }
+
+  /**
+   * Lists the requests of a customer, newest first.
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {CustomerInspectionRequestQueryDto} query - Status filter and pagination.
+   * @returns {Promise<PaginatedCustomerInspectionRequests>} The page of requests and metadata.
+   */
+  async findAllForCustomer(
+    customerId: string,
+    query: CustomerInspectionRequestQueryDto,
+  ): Promise<PaginatedCustomerInspectionRequests> {
+    return this.paginate({ customerId, status: query.status }, query);
+  }
+
+  /**
+   * Retrieves one of the customer's own requests.
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {string} id - The request ID.
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The request.
+   * @throws {NotFoundException} If the request does not exist or belongs to another customer.
+   */
+  async findOneForCustomer(
+    customerId: string,
+    id: string,
+  ): Promise<CustomerInspectionRequestWithRelations> {
+    const request = await this.prisma.customerInspectionRequest.findFirst({
+      where: { id, customerId },
+      include: REQUEST_INCLUDE,
+    });
+    if (!request) {
+      throw new NotFoundException(
+        `Inspection request with ID "${id}" not found.`,
+      );
+    }
+    return request;
+  }
+
+  /**
+   * Changes the details of a customer's own request. Only possible before
+   * the request has been picked up (status NOT_STARTED).
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {string} id - The request ID.
+   * @param {UpdateCustomerInspectionRequestDto} dto - Fields to change.
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The updated request.
+   * @throws {NotFoundException} If the request does not exist or belongs to another customer.
+   * @throws {ConflictException} If the request is no longer NOT_STARTED.
+   */
+  async updateForCustomer(
+    customerId: string,
+    id: string,
+    dto: UpdateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestWithRelations> {
+    const request = await this.findOneForCustomer(customerId, id);
+    this.assertNotStarted(request);
+    const data = await this.buildDetailsUpdate(dto, true);
+
+    const { count } = await this.prisma.customerInspectionRequest.updateMany({
+      where: { id, customerId, status: CustomerInspectionStatus.NOT_STARTED },
+      data,
+    });
+    if (count !== 1) {
+      throw new ConflictException(
+        'The inspection request has already been picked up and can no longer be changed.',
+      );
+    }
+    return this.findOneForCustomer(customerId, id);
+  }
+
+  /**
+   * Cancels (deletes) a customer's own request. Only possible while NOT_STARTED.
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {string} id - The request ID.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the request does not exist or belongs to another customer.
+   * @throws {ConflictException} If the request is no longer NOT_STARTED.
+   */
+  async cancelForCustomer(customerId: string, id: string): Promise<void> {
+    const request = await this.findOneForCustomer(customerId, id);
+    this.assertNotStarted(request);
+
+    const { count } = await this.prisma.customerInspectionRequest.deleteMany({
+      where: { id, customerId, status: CustomerInspectionStatus.NOT_STARTED },
+    });
+    if (count !== 1) {
+      throw new ConflictException(
+        'The inspection request has already been picked up and can no longer be cancelled.',
+      );
+    }
+    this.logger.log(
+      `Customer ${customerId} cancelled inspection request ${id}`,
+    );
+  }
+
+  // --- Admin operations ---
+
+  /**
+   * Books an inspection on behalf of a customer.
+   *
+   * @param {AdminCreateCustomerInspectionRequestDto} dto - Customer, vehicle, branch, schedule and optional assignee.
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The created request.
+   * @throws {BadRequestException} If the customer, branch or assignee is invalid.
+   */
+  async createForAdmin(
+    dto: AdminCreateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestWithRelations> {
+    const customer = await this.prisma.user.findUnique({
+      where: { id: dto.customerId },
+      select: { role: true },
+    });
+    if (!customer || customer.role !== Role.CUSTOMER) {
+      throw new BadRequestException(
+        `Customer with ID "${dto.customerId}" not found.`,
+      );
+    }
+    await this.assertActiveBranchCity(dto.inspectionBranchCityId);
+    if (dto.adminAssigneeId) await this.assertAssignable(dto.adminAssigneeId);
+
+    const request = await this.prisma.customerInspectionRequest.create({
+      data: {
+        customerId: dto.customerId,
+        adminAssigneeId: dto.adminAssigneeId,
+        inspectionBranchCityId: dto.inspectionBranchCityId,
+        vehiclePlateNumber: dto.vehiclePlateNumber,
+        vehicleBrand: dto.vehicleBrand,
+        vehicleModel: dto.vehicleModel,
+        vehicleYear: dto.vehicleYear,
+        preferredSchedule: this.parseSchedule(dto.preferredSchedule),
+        notes: dto.notes,
+      },
+      include: REQUEST_INCLUDE,
+    });
+    this.logger.log(
+      `Admin booked inspection request ${request.id} for customer ${dto.customerId}`,
+    );
+    return request;
+  }
+
+  /**
+   * Lists all requests, newest first.
+   *
+   * @param {AdminCustomerInspectionRequestQueryDto} query - Filters and pagination.
+   * @returns {Promise<PaginatedCustomerInspectionRequests>} The page of requests and metadata.
+   */
+  async findAll(
+    query: AdminCustomerInspectionRequestQueryDto,
+  ): Promise<PaginatedCustomerInspectionRequests> {
+    return this.paginate(
+      {
+        status: query.status,
+        inspectionBranchCityId: query.inspectionBranchCityId,
+        adminAssigneeId: query.adminAssigneeId,
+        customerId: query.customerId,
+      },
+      query,
+    );
+  }
+
+  /**
+   * Retrieves a request by ID.
+   *
+   * @param {string} id - The request ID.
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The request.
+   * @throws {NotFoundException} If the request does not exist.
+   */
+  async findOne(id: string): Promise<CustomerInspectionRequestWithRelations> {
+    const request = await this.prisma.customerInspectionRequest.findUnique({
+      where: { id },
+      include: REQUEST_INCLUDE,
+    });
+    if (!request) {
+      throw new NotFoundException(
+        `Inspection request with ID "${id}" not found.`,
+      );
+    }
+    return request;
+  }
+
+  /**
+   * Changes the details of a request (e.g. reschedule). Not possible once DONE.
+   *
+   * @param {string} id - The request ID.
+   * @param {UpdateCustomerInspectionRequestDto} dto - Fields to change.
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The updated request.
+   * @throws {NotFoundException} If the request does not exist.
+   * @throws {ConflictException} If the request is DONE.
+   */
+  async update(
+    id: string,
+    dto: UpdateCustomerInspectionRequestDto,
+  ): Promise<CustomerInspectionRequestWithRelations> {
+    const request = await this.findOne(id);
+    if (request.status === CustomerInspectionStatus.DONE) {
+      throw new ConflictException(
+        'Completed inspection requests can no longer be changed.',
+      );
+    }
+    const data = await this.buildDetailsUpdate(dto, false);
+
+    return this.prisma.customerInspectionRequest.update({
+      where: { id },
+      data,
+      include: REQUEST_INCLUDE,
+    });
+  }
+
+  /**
+   * Assigns an admin to a request, or clears the assignment.
+   *
+   * @param {string} id - The request ID.
+   * @param {string | null} adminAssigneeId - The ADMIN/SUPERADMIN user ID, or null.
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The updated request.
+   * @throws {NotFoundException} If the request does not exist.
+   * @throws {BadRequestException} If the assignee is not an active admin.
+   */
+  async assign(
+    id: string,
+    adminAssigneeId: string | null,
+  ): Promise<CustomerInspectionRequestWithRelations> {
+    await this.findOne(id);
+    if (adminAssigneeId) await this.assertAssignable(adminAssigneeId);
+
+    const updated = await this.prisma.customerInspectionRequest.update({
+      where: { id },
+      data: { adminAssigneeId },
+      include: REQUEST_INCLUDE,
+    });
+    this.logger.log(
+      `Inspection request ${id} assigned to ${adminAssigneeId ?? 'nobody'}`,
+    );
+    return updated;
+  }
+
+  /**
+   * Moves a request to another status following
+   * CUSTOMER_INSPECTION_STATUS_TRANSITIONS. The update is conditional on the
+   * current status, so concurrent changes cannot skip a step.
+   *
+   * @param {string} id - The request ID.
+   * @param {CustomerInspectionStatus} status - The target status.
+   * @param {string} actorId - The admin performing the change (for logging).
+   * @returns {Promise<CustomerInspectionRequestWithRelations>} The updated request.
+   * @throws {NotFoundException} If the request does not exist.
+   * @throws {BadRequestException} If the transition is not allowed.
+   * @throws {ConflictException} If the status changed concurrently.
+   */
+  async updateStatus(
+    id: string,
+    status: CustomerInspectionStatus,
+    actorId: string,
+  ): Promise<CustomerInspectionRequestWithRelations> {
+    const request = await this.findOne(id);
+    if (
+      !CUSTOMER_INSPECTION_STATUS_TRANSITIONS[request.status].includes(status)
+    ) {
+      throw new BadRequestException(
+        `Cannot change inspection request status from ${request.status} to ${status}.`,
+      );
+    }
+
+    const { count } = await this.prisma.customerInspectionRequest.updateMany({
+      where: { id, status: request.status },
+      data: { status },
+    });
+    if (count !== 1) {
+      throw new ConflictException(
+        'The inspection request status was changed by someone else. Please reload and try again.',
+      );
+    }
+    this.logger.log(
+      `Inspection request ${id} status ${request.status} -> ${status} by ${actorId}`,
+    );
+    return this.findOne(id);
+  }
+
+  // --- Inspection integration ---
+
+  /**
+   * Links a newly submitted inspection to its request and moves the request
+   * from IN_PROGRESS to AWAITING_APPROVAL, following
+   * CUSTOMER_INSPECTION_STATUS_TRANSITIONS. Runs inside the inspection
+   * creation transaction.
+   *
+   * @param {Prisma.TransactionClient} tx - The transaction client of InspectionsService.create.
+   * @param {string} requestId - The request fulfilled by the inspection.
+   * @param {string} inspectionId - The created inspection's ID.
+   * @returns {Promise<CustomerInspectionRequest>} The linked request.
+   * @throws {BadRequestException} If the request does not exist.
+   * @throws {ConflictException} If the request is not IN_PROGRESS or already linked to an inspection.
+   */
+  async linkInspection(
+    tx: Prisma.TransactionClient,
+    requestId: string,
+    inspectionId: string,
+  ): Promise<CustomerInspectionRequest> {
+    const { count } = await tx.customerInspectionRequest.updateMany({
+      where: {
+        id: requestId,
+        inspectionId: null,
+        status: CustomerInspectionStatus.IN_PROGRESS,
+      },
+      data: {
+        inspectionId,
+        status: CustomerInspectionStatus.AWAITING_APPROVAL,
+      },
+    });
+    if (count !== 1) {
+      const existing = await tx.customerInspectionRequest.findUnique({
+        where: { id: requestId },
+        select: { status: true, inspectionId: true },
+      });
+      if (!existing) {
+        throw new BadRequestException(
+          `Customer inspection request with ID "${requestId}" not found.`,
+        );
+      }
+      if (existing.inspectionId) {
+        throw new ConflictException(
+          `Customer inspection request "${requestId}" is already linked to another inspection.`,
+        );
+      }
+      throw new ConflictException(
+        `Customer inspection request "${requestId}" is ${existing.status}; only IN_PROGRESS requests can receive an inspection.`,
+      );
+    }
+    this.logger.log(
+      `Linked inspection ${inspectionId} to customer inspection request ${requestId}`,
+    );
+    return tx.customerInspectionRequest.findUniqueOrThrow({
+      where: { id: requestId },
+    });
+  }
+
+  // --- Helpers ---
+
+  private async paginate(
+    where: Prisma.CustomerInspectionRequestWhereInput,
+    query: CustomerInspectionRequestQueryDto,
+  ): Promise<PaginatedCustomerInspectionRequests> {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 10;
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.customerInspectionRequest.count({ where }),
+      this.prisma.customerInspectionRequest.findMany({
+        where,
+        include: REQUEST_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    };
+  }
+
+  private async buildDetailsUpdate(
+    dto: UpdateCustomerInspectionRequestDto,
+    requireFutureSchedule: boolean,
+  ): Promise<Prisma.CustomerInspectionRequestUncheckedUpdateInput> {
+    if (dto.inspectionBranchCityId) {
+      await this.assertActiveBranchCity(dto.inspectionBranchCityId);
+    }
+    return {
+      inspectionBranchCityId: dto.inspectionBranchCityId,
+      vehiclePlateNumber: dto.vehiclePlateNumber,
+      vehicleBrand: dto.vehicleBrand,
+      vehicleModel: dto.vehicleModel,
+      vehicleYear: dto.vehicleYear,
+      notes: dto.notes,
+      ...(dto.preferredSchedule && {
+        preferredSchedule: this.parseSchedule(
+          dto.preferredSchedule,
+          requireFutureSchedule,
+        ),
+      }),
+    };
+  }
+
+  private parseSchedule(value: string, requireFuture = false): Date {
+    const schedule = new Date(value);
+    if (isNaN(schedule.getTime())) {
+      throw new BadRequestException(
+        'Invalid preferredSchedule format provided.',
+      );
+    }
+    if (requireFuture && schedule.getTime() <= Date.now()) {
+      throw new BadRequestException('preferredSchedule must be in the future.');
+    }
+    return schedule;
+  }
+
+  private async assertActiveBranchCity(id: string): Promise<void> {
+    const branch = await this.prisma.inspectionBranchCity.findUnique({
+      where: { id },
+      select: { isActive: true },
+    });
+    if (!branch || !branch.isActive) {
+      throw new BadRequestException(
+        `Inspection Branch City with ID "${id}" not found or inactive.`,
+      );
+    }
+  }
+
+  private async assertAssignable(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, isActive: true },
+    });
+    if (
+      !user ||
+      !user.isActive ||
+      (user.role !== Role.ADMIN && user.role !== Role.SUPERADMIN)
+    ) {
+      throw new BadRequestException(
+        `User with ID "${userId}" is not an active admin.`,
+      );
+    }
+  }
+
+  private assertNotStarted(request: CustomerInspectionRequest): void {
+    if (request.status !== CustomerInspectionStatus.NOT_STARTED) {
+      throw new ConflictException(
+        'The inspection request has already been picked up and can no longer be changed.',
+      );
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: admin-create-customer-inspection-request.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) used by an admin to book an inspection
+ * on behalf of a customer (e.g. a booking received by phone).
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { CreateCustomerInspectionRequestDto } from './create-customer-inspection-request.dto';
+
+/**
+ * Data Transfer Object for booking an inspection on behalf of a customer.
+ */
+export class AdminCreateCustomerInspectionRequestDto extends CreateCustomerInspectionRequestDto {
+  /**
+   * The customer the inspection is booked for.
+   * @example "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   */
+  @ApiProperty({
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    description: 'ID of the customer (role CUSTOMER)',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  customerId: string;
+
+  /**
+   * The admin handling the request. Defaults to unassigned.
+   * @example "b2c3d4e5-f6a7-8901-2345-67890abcdef1"
+   */
+  @ApiProperty({
+    example: 'b2c3d4e5-f6a7-8901-2345-67890abcdef1',
+    description: 'ID of the admin handling the request',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  adminAssigneeId?: string;
+}
@@ -0,0 +1,31 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: assign-customer-inspection-request.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for assigning an admin to a customer
+ * inspection request, or clearing the assignment.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+/**
+ * Data Transfer Object for (un)assigning the admin of a request.
+ */
+export class AssignCustomerInspectionRequestDto {
+  /**
+   * The admin (ADMIN or SUPERADMIN) handling the request. Null to unassign.
+   * @example "b2c3d4e5-f6a7-8901-2345-67890abcdef1"
+   */
+  @ApiProperty({
+    example: 'b2c3d4e5-f6a7-8901-2345-67890abcdef1',
+    description: 'ID of the admin handling the request, or null to unassign',
+    nullable: true,
+  })
+  @IsUUID()
+  @IsOptional()
+  adminAssigneeId: string | null;
+}
@@ -0,0 +1,122 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: create-customer-inspection-request.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) used by a customer to book an inspection.
+ * Defines the vehicle, branch city and preferred schedule of the request.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object for booking an inspection.
+ */
+export class CreateCustomerInspectionRequestDto {
+  /**
+   * The branch city where the inspection should take place.
+   * @example "3c9a2f5e-6b1d-4e8a-9f0c-2d7b4a1e5c3f"
+   */
+  @ApiProperty({
+    example: '3c9a2f5e-6b1d-4e8a-9f0c-2d7b4a1e5c3f',
+    description: 'ID of the inspection branch city',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  inspectionBranchCityId: string;
+
+  /**
+   * The date and time the customer would like the inspection to happen.
+   * @example "2025-08-20T09:00:00Z"
+   */
+  @ApiProperty({
+    example: '2025-08-20T09:00:00Z',
+    description: 'Preferred inspection date and time (ISO 8601)',
+  })
+  @IsDateString()
+  @IsNotEmpty()
+  preferredSchedule: string;
+
+  /**
+   * The license plate number of the vehicle to inspect.
+   * @example "AB 1 DQ"
+   */
+  @ApiProperty({
+    example: 'AB 1 DQ',
+    description: 'License plate number of the vehicle',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  vehiclePlateNumber: string;
+
+  /**
+   * The brand of the vehicle.
+   * @example "Toyota"
+   */
+  @ApiProperty({
+    example: 'Toyota',
+    description: 'Vehicle brand',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  vehicleBrand?: string;
+
+  /**
+   * The model of the vehicle.
+   * @example "Avanza"
+   */
+  @ApiProperty({
+    example: 'Avanza',
+    description: 'Vehicle model',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  vehicleModel?: string;
+
+  /**
+   * The manufacturing year of the vehicle.
+   * @example 2019
+   */
+  @ApiProperty({
+    example: 2019,
+    description: 'Vehicle manufacturing year',
+    required: false,
+  })
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  @IsOptional()
+  vehicleYear?: number;
+
+  /**
+   * Additional notes for the inspection team (address, contact time, ...).
+   * @example "Please call before arriving."
+   */
+  @ApiProperty({
+    example: 'Please call before arriving.',
+    description: 'Additional notes for the inspection team',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  notes?: string;
+}
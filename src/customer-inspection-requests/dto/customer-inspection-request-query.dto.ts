@@ -0,0 +1,79 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspection-request-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Query parameters for listing customer inspection requests.
+ * Customers can filter their own requests by status; admins can additionally
+ * filter by branch city, assignee and customer.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { CustomerInspectionStatus } from '@prisma/client';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+/**
+ * Query parameters for a customer's own request list.
+ */
+export class CustomerInspectionRequestQueryDto {
+  @ApiProperty({
+    enum: CustomerInspectionStatus,
+    description: 'Filter by request status',
+    required: false,
+  })
+  @IsEnum(CustomerInspectionStatus)
+  @IsOptional()
+  status?: CustomerInspectionStatus;
+
+  @ApiProperty({
+    description: 'Page number (1-based). Defaults to 1.',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page. Defaults to 10.',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  pageSize?: number = 10;
+}
+
+/**
+ * Query parameters for the admin request list.
+ */
+export class AdminCustomerInspectionRequestQueryDto extends CustomerInspectionRequestQueryDto {
+  @ApiProperty({
+    description: 'Filter by inspection branch city ID',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  inspectionBranchCityId?: string;
+
+  @ApiProperty({
+    description: 'Filter by assigned admin ID',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  adminAssigneeId?: string;
+
+  @ApiProperty({
+    description: 'Filter by customer ID',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  customerId?: string;
+}
@@ -0,0 +1,188 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspection-request-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) returned for customer inspection
+ * requests, including short summaries of the customer, assigned admin,
+ * branch city and the linked inspection.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  CustomerInspectionRequest,
+  CustomerInspectionStatus,
+  Inspection,
+  InspectionBranchCity,
+  InspectionStatus,
+  User,
+} from '@prisma/client';
+
+/**
+ * A request loaded together with the relations shown in the response.
+ */
+export type CustomerInspectionRequestWithRelations =
+  CustomerInspectionRequest & {
+    customer?: Pick<User, 'id' | 'name' | 'email'> | null;
+    adminAssignee?: Pick<User, 'id' | 'name' | 'email'> | null;
+    inspectionBranchCity?: Pick<
+      InspectionBranchCity,
+      'id' | 'city' | 'code'
+    > | null;
+    inspection?: Pick<Inspection, 'id' | 'pretty_id' | 'status'> | null;
+  };
+
+/**
+ * Short summary of a user related to a request.
+ */
+export class RequestUserSummaryDto {
+  @ApiProperty({ description: 'User ID' })
+  id: string;
+
+  @ApiProperty({ description: 'User display name', nullable: true })
+  name: string | null;
+
+  @ApiProperty({ description: 'User email address', nullable: true })
+  email: string | null;
+}
+
+/**
+ * Short summary of the branch city of a request.
+ */
+export class RequestBranchCitySummaryDto {
+  @ApiProperty({ description: 'Branch city ID' })
+  id: string;
+
+  @ApiProperty({ example: 'Yogyakarta', description: 'City name' })
+  city: string;
+
+  @ApiProperty({ example: 'YOG', description: 'Branch code' })
+  code: string;
+}
+
+/**
+ * Short summary of the inspection that fulfils a request.
+ */
+export class RequestInspectionSummaryDto {
+  @ApiProperty({ description: 'Inspection ID' })
+  id: string;
+
+  @ApiProperty({
+    example: 'YOG-15082025-001',
+    description: 'Inspection pretty ID',
+  })
+  pretty_id: string;
+
+  @ApiProperty({ enum: InspectionStatus, description: 'Inspection status' })
+  status: InspectionStatus;
+}
+
+/**
+ * Data Transfer Object for a customer inspection request.
+ */
+export class CustomerInspectionRequestResponseDto {
+  @ApiProperty({ description: 'Request ID (UUID)' })
+  id: string;
+
+  @ApiProperty({ description: 'ID of the customer who booked the inspection' })
+  customerId: string;
+
+  @ApiProperty({
+    description: 'ID of the admin handling the request',
+    nullable: true,
+  })
+  adminAssigneeId: string | null;
+
+  @ApiProperty({ description: 'ID of the inspection branch city' })
+  inspectionBranchCityId: string;
+
+  @ApiProperty({ example: 'AB 1 DQ', description: 'Vehicle plate number' })
+  vehiclePlateNumber: string;
+
+  @ApiProperty({ example: 'Toyota', nullable: true })
+  vehicleBrand: string | null;
+
+  @ApiProperty({ example: 'Avanza', nullable: true })
+  vehicleModel: string | null;
+
+  @ApiProperty({ example: 2019, nullable: true })
+  vehicleYear: number | null;
+
+  @ApiProperty({
+    example: '2025-08-20T09:00:00.000Z',
+    description: 'Preferred inspection date and time',
+  })
+  preferredSchedule: Date;
+
+  @ApiProperty({ description: 'Notes from the customer', nullable: true })
+  notes: string | null;
+
+  @ApiProperty({
+    enum: CustomerInspectionStatus,
+    description: 'Current status of the request',
+  })
+  status: CustomerInspectionStatus;
+
+  @ApiProperty({
+    description: 'ID of the inspection that fulfils the request',
+    nullable: true,
+  })
+  inspectionId: string | null;
+
+  @ApiProperty({ type: RequestUserSummaryDto, required: false })
+  customer?: RequestUserSummaryDto;
+
+  @ApiProperty({
+    type: RequestUserSummaryDto,
+    required: false,
+    nullable: true,
+  })
+  adminAssignee?: RequestUserSummaryDto | null;
+
+  @ApiProperty({ type: RequestBranchCitySummaryDto, required: false })
+  inspectionBranchCity?: RequestBranchCitySummaryDto;
+
+  @ApiProperty({
+    type: RequestInspectionSummaryDto,
+    required: false,
+    nullable: true,
+  })
+  inspection?: RequestInspectionSummaryDto | null;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: Date;
+
+  constructor(request: CustomerInspectionRequestWithRelations) {
+    this.id = request.id;
+    this.customerId = request.customerId;
+    this.adminAssigneeId = request.adminAssigneeId;
+    this.inspectionBranchCityId = request.inspectionBranchCityId;
+    this.vehiclePlateNumber = request.vehiclePlateNumber;
+    this.vehicleBrand = request.vehicleBrand;
+    this.vehicleModel = request.vehicleModel;
+    this.vehicleYear = request.vehicleYear;
+    this.preferredSchedule = request.preferredSchedule;
+    this.notes = request.notes;
+    this.status = request.status;
+    this.inspectionId = request.inspectionId;
+    if (request.customer) this.customer = { ...request.customer };
+    if (request.adminAssignee !== undefined) {
+      this.adminAssignee = request.adminAssignee
+        ? { ...request.adminAssignee }
+        : null;
+    }
+    if (request.inspectionBranchCity) {
+      this.inspectionBranchCity = { ...request.inspectionBranchCity };
+    }
+    if (request.inspection !== undefined) {
+      this.inspection = request.inspection ? { ...request.inspection } : null;
+    }
+    this.createdAt = request.createdAt;
+    this.updatedAt = request.updatedAt;
+  }
+}
@@ -0,0 +1,21 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-customer-inspection-request.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for changing the details (vehicle,
+ * branch, schedule, notes) of a customer inspection request.
+ * All fields are optional as it extends PartialType of CreateCustomerInspectionRequestDto.
+ * --------------------------------------------------------------------------
+ */
+
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateCustomerInspectionRequestDto } from './create-customer-inspection-request.dto';
+
+/**
+ * Data Transfer Object for updating a customer inspection request.
+ */
+export class UpdateCustomerInspectionRequestDto extends PartialType(
+  CreateCustomerInspectionRequestDto,
+) {}
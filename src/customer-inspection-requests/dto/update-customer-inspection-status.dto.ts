@@ -0,0 +1,35 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-customer-inspection-status.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for moving a customer inspection
+ * request to another status. The transition is validated by the service.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { CustomerInspectionStatus } from '@prisma/client';
+import { IsEnum, IsNotEmpty } from 'class-validator';
+
+/**
+ * Data Transfer Object for changing the status of a request.
+ */
+export class UpdateCustomerInspectionStatusDto {
+  /**
+   * The target status.
+   * Allowed: NOT_STARTED → IN_PROGRESS | ON_HOLD, IN_PROGRESS → ON_HOLD | AWAITING_APPROVAL,
+   * ON_HOLD → IN_PROGRESS, AWAITING_APPROVAL → DONE | IN_PROGRESS.
+   * @example "IN_PROGRESS"
+   */
+  @ApiProperty({
+    enum: CustomerInspectionStatus,
+    example: CustomerInspectionStatus.IN_PROGRESS,
+    description:
+      'Target status. Allowed transitions: NOT_STARTED → IN_PROGRESS | ON_HOLD, IN_PROGRESS → ON_HOLD | AWAITING_APPROVAL, ON_HOLD → IN_PROGRESS, AWAITING_APPROVAL → DONE | IN_PROGRESS.',
+  })
+  @IsEnum(CustomerInspectionStatus)
+  @IsNotEmpty()
+  status: CustomerInspectionStatus;
+}
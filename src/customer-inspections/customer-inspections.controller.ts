@@ -0,0 +1,180 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspections.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for the authenticated customer's inspection
+ * history: list, detail and download of the report without documents.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Inspection, Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { CustomerInspectionsService } from './customer-inspections.service';
+import { CustomerInspectionQueryDto } from './dto/customer-inspection-query.dto';
+import { CustomerInspectionSummaryDto } from './dto/customer-inspection-summary.dto';
+
+@ApiTags('Customer Inspection History')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.CUSTOMER)
+@Controller('me/inspections') // Base path: /api/v1/me/inspections
+export class CustomerInspectionsController {
+  constructor(
+    private readonly customerInspectionsService: CustomerInspectionsService,
+  ) {}
+
+  /**
+   * Lists the authenticated customer's inspections.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param query Status filter and pagination.
+   * @returns The page of inspections with pagination metadata.
+   */
+  @Get()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'List my inspections',
+    description:
+      'Reviewed inspections that fulfil one of my bookings or whose plate number belongs to one of my vehicles.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated inspection history.',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/CustomerInspectionSummaryDto' },
+        },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            pageSize: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not a customer.',
+  })
+  async findAll(
+    @GetUser('id') customerId: string,
+    @Query() query: CustomerInspectionQueryDto,
+  ): Promise<{
+    data: CustomerInspectionSummaryDto[];
+    meta: { total: number; page: number; pageSize: number; totalPages: number };
+  }> {
+    const result = await this.customerInspectionsService.findAll(
+      customerId,
+      query,
+    );
+    return {
+      data: result.data.map(
+        (inspection) => new CustomerInspectionSummaryDto(inspection),
+      ),
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * Retrieves one of the authenticated customer's inspections, without
+   * document photos (STNK, BPKB, …).
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param id The inspection ID.
+   * @returns The inspection without documents.
+   */
+  @Get(':id')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Get one of my inspections',
+    description:
+      'Document photos are removed and the links to the full report are cleared.',
+  })
+  @ApiParam({ name: 'id', description: 'Inspection ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The inspection without documents.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Inspection not found or not owned by the customer.',
+  })
+  async findOne(
+    @GetUser('id') customerId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<Inspection> {
+    return this.customerInspectionsService.findOne(customerId, id);
+  }
+
+  /**
+   * Downloads the report without documents of one of the authenticated
+   * customer's inspections.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @param id The inspection ID.
+   * @returns The PDF file.
+   */
+  @Get(':id/report')
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Download the report of one of my inspections' })
+  @ApiProduces('application/pdf')
+  @ApiParam({ name: 'id', description: 'Inspection ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The PDF report without documents.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description:
+      'Inspection not found, not owned by the customer or report not generated yet.',
+  })
+  async downloadReport(
+    @GetUser('id') customerId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<StreamableFile> {
+    const { stream, fileName } =
+      await this.customerInspectionsService.getReportFile(customerId, id);
+    return new StreamableFile(stream, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+}
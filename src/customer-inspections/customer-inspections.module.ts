@@ -0,0 +1,32 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspections.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for the customer's own inspection history.
+ * Uses PublicApiService for the document filtering of inspection details and
+ * CustomerVehiclesService to resolve the customer's plate numbers and
+ * StorageService to open the stored reports.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PublicApiModule } from '../public-api/public-api.module';
+import { CustomerVehiclesModule } from '../customer-vehicles/customer-vehicles.module';
+import { StorageModule } from '../storage/storage.module';
+import { CustomerInspectionsService } from './customer-inspections.service';
+import { CustomerInspectionsController } from './customer-inspections.controller';
+
+@Module({
+  imports: [
+    PrismaModule,
+    PublicApiModule,
+    CustomerVehiclesModule,
+    StorageModule,
+  ],
+  controllers: [CustomerInspectionsController],
+  providers: [CustomerInspectionsService],
+})
+export class CustomerInspectionsModule {}
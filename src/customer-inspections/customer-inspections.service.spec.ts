@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { InspectionStatus } from '@prisma/client';
+import { Readable } from 'stream';
+import {
+  CUSTOMER_VISIBLE_INSPECTION_STATUSES,
+  CustomerInspectionsService,
+} from './customer-inspections.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PublicApiService } from '../public-api/public-api.service';
+import { CustomerVehiclesService } from '../customer-vehicles/customer-vehicles.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('CustomerInspectionsService', () => {
+  let service: CustomerInspectionsService;
+
+  const mockPrismaService = {
+    inspection: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    $transaction: jest.fn((queries: Promise<unknown>[]) =>
+      Promise.all(queries),
+    ),
+  };
+  const mockPublicApiService = { findOneWithoutDocuments: jest.fn() };
+  const mockCustomerVehiclesService = { findAllForCustomer: jest.fn() };
+  const mockStorageService = {
+    download: jest.fn(),
+    pdfKey: jest.fn((value: string) => `pdfarchived/${value.split('/').pop()}`),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomerInspectionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PublicApiService, useValue: mockPublicApiService },
+        {
+          provide: CustomerVehiclesService,
+          useValue: mockCustomerVehiclesService,
+        },
+        { provide: StorageService, useValue: mockStorageService },
+      ],
+    }).compile();
+
+    service = module.get<CustomerInspectionsService>(
+      CustomerInspectionsService,
+    );
+    mockCustomerVehiclesService.findAllForCustomer.mockResolvedValue([
+      { plateNumber: 'AB 1234 XY' },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should only list visible inspections booked by the customer or of their plates', async () => {
+      mockPrismaService.inspection.count.mockResolvedValue(0);
+      mockPrismaService.inspection.findMany.mockResolvedValue([]);
+
+      await service.findAll('customer-1', { page: 1, pageSize: 10 });
+
+      expect(mockPrismaService.inspection.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              {
+                status: { in: CUSTOMER_VISIBLE_INSPECTION_STATUSES },
+                OR: [
+                  {
+                    customerInspectionRequest: {
+                      is: { customerId: 'customer-1' },
+                    },
+                  },
+                  {
+                    vehiclePlateNumber: {
+                      in: ['AB 1234 XY', 'AB1234XY'],
+                      mode: 'insensitive',
+                    },
+                  },
+                ],
+              },
+              { status: undefined },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should only match bookings when the customer has no vehicles', async () => {
+      mockCustomerVehiclesService.findAllForCustomer.mockResolvedValue([]);
+      mockPrismaService.inspection.count.mockResolvedValue(0);
+      mockPrismaService.inspection.findMany.mockResolvedValue([]);
+
+      await service.findAll('customer-1', {
+        status: InspectionStatus.ARCHIVED,
+      });
+
+      expect(mockPrismaService.inspection.count).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            {
+              status: { in: CUSTOMER_VISIBLE_INSPECTION_STATUSES },
+              OR: [
+                {
+                  customerInspectionRequest: {
+                    is: { customerId: 'customer-1' },
+                  },
+                },
+              ],
+            },
+            { status: InspectionStatus.ARCHIVED },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('findOne', () => {
+    it('should not reveal inspections of other customers', async () => {
+      mockPrismaService.inspection.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.findOne('customer-2', 'inspection-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(
+        mockPublicApiService.findOneWithoutDocuments,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should return the inspection without documents and full report links', async () => {
+      mockPrismaService.inspection.findFirst.mockResolvedValue({
+        id: 'inspection-1',
+        urlPdfNoDocs: null,
+      });
+      mockPublicApiService.findOneWithoutDocuments.mockResolvedValue({
+        id: 'inspection-1',
+        urlPdf: '/pdfarchived/YOG-1.pdf',
+        ipfsPdf: 'ipfs://full',
+        pdfFileHash: 'hash',
+        urlPdfNoDocs: '/pdfarchived/YOG-1-no-confidential.pdf',
+      });
+
+      const inspection = await service.findOne('customer-1', 'inspection-1');
+
+      expect(inspection).toEqual(
+        expect.objectContaining({
+          urlPdf: null,
+          ipfsPdf: null,
+          pdfFileHash: null,
+          urlPdfNoDocs: '/pdfarchived/YOG-1-no-confidential.pdf',
+        }),
+      );
+    });
+  });
+
+  describe('getReportFile', () => {
+    it('should not serve reports of other customers', async () => {
+      mockPrismaService.inspection.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.getReportFile('customer-2', 'inspection-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should report a missing report', async () => {
+      mockPrismaService.inspection.findFirst.mockResolvedValue({
+        id: 'inspection-1',
+        urlPdfNoDocs: null,
+      });
+
+      await expect(
+        service.getReportFile('customer-1', 'inspection-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should open the stored report without documents', async () => {
+      const stream = Readable.from(['%PDF-1.4']);
+      mockPrismaService.inspection.findFirst.mockResolvedValue({
+        id: 'inspection-1',
+        urlPdfNoDocs: '/pdfarchived/YOG-1-no-confidential.pdf',
+      });
+      mockStorageService.download.mockResolvedValue(stream);
+
+      const file = await service.getReportFile('customer-1', 'inspection-1');
+
+      expect(mockStorageService.download).toHaveBeenCalledWith(
+        'pdfarchived/YOG-1-no-confidential.pdf',
+      );
+      expect(file).toEqual({
+        stream,
+        fileName: 'YOG-1-no-confidential.pdf',
+      });
+    });
+
+    it('should report a report missing in storage as not found', async () => {
+      mockPrismaService.inspection.findFirst.mockResolvedValue({
+        id: 'inspection-1',
+        urlPdfNoDocs: '/pdfarchived/YOG-1-no-confidential.pdf',
+      });
+      mockStorageService.download.mockRejectedValue(
+        new NotFoundException('missing'),
+      );
+
+      await expect(
+        service.getReportFile('customer-1', 'inspection-1'),
+      ).rejects.toThrow(
+        'The report of inspection "inspection-1" is not available.',
+      );
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspections.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service for a customer's own inspection history.
+ * A customer owns an inspection when it fulfils one of their bookings or when
+ * its plate number belongs to one of their vehicles. Every read goes through
+ * the same ownership filter; inspections the customer does not own are
+ * reported as not found. Reports are always served without documents.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Inspection, InspectionStatus, Prisma } from '@prisma/client';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { PrismaService } from '../prisma/prisma.service';
+import { PublicApiService } from '../public-api/public-api.service';
+import {
+  CustomerVehiclesService,
+  plateNumberVariants,
+} from '../customer-vehicles/customer-vehicles.service';
+import { StorageService } from '../storage/storage.service';
+import { CustomerInspectionQueryDto } from './dto/customer-inspection-query.dto';
+import { CustomerInspectionListItem } from './dto/customer-inspection-summary.dto';
+
+/**
+ * Inspection statuses shown to customers: reviewed and not deactivated.
+ */
+export const CUSTOMER_VISIBLE_INSPECTION_STATUSES: InspectionStatus[] = [
+  InspectionStatus.APPROVED,
+  InspectionStatus.ARCHIVING,
+  InspectionStatus.ARCHIVED,
+  InspectionStatus.FAIL_ARCHIVE,
+];
+
+export interface PaginatedCustomerInspections {
+  data: CustomerInspectionListItem[];
+  meta: { total: number; page: number; pageSize: number; totalPages: number };
+}
+
+/**
+ * Stored report without documents, opened for download.
+ */
+export interface CustomerInspectionReportFile {
+  stream: Readable;
+  fileName: string;
+}
+
+@Injectable()
+export class CustomerInspectionsService {
+  private readonly logger = new Logger(CustomerInspectionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private publicApiService: PublicApiService,
+    private customerVehiclesService: CustomerVehiclesService,
+    private readonly storage: StorageService,
+  ) {}
+
+  /**
+   * Lists the customer's inspections, most recent first.
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {CustomerInspectionQueryDto} query - Status filter and pagination.
+   * @returns {Promise<PaginatedCustomerInspections>} The page of inspections and metadata.
+   */
+  async findAll(
+    customerId: string,
+    query: CustomerInspectionQueryDto,
+  ): Promise<PaginatedCustomerInspections> {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 10;
+    const where: Prisma.InspectionWhereInput = {
+      AND: [
+        await this.buildOwnershipFilter(customerId),
+        { status: query.status },
+      ],
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.inspection.count({ where }),
+      this.prisma.inspection.findMany({
+        where,
+        select: {
+          id: true,
+          pretty_id: true,
+          vehiclePlateNumber: true,
+          inspectionDate: true,
+          overallRating: true,
+          status: true,
+          vehicleData: true,
+          urlPdfNoDocs: true,
+          archivedAt: true,
+        },
+        orderBy: [{ inspectionDate: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    };
+  }
+
+  /**
+   * Retrieves one of the customer's inspections with document photos removed
+   * (same filtering as the public API). Links and hashes of the full report,
+   * which contains the documents, are cleared.
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {string} id - The inspection ID.
+   * @returns {Promise<Inspection>} The inspection without documents.
+   * @throws {NotFoundException} If the inspection does not exist or is not owned by the customer.
+   */
+  async findOne(customerId: string, id: string): Promise<Inspection> {
+    await this.findOwned(customerId, id);
+    const inspection = await this.publicApiService.findOneWithoutDocuments(id);
+    return { ...inspection, urlPdf: null, ipfsPdf: null, pdfFileHash: null };
+  }
+
+  /**
+   * Locates the report without documents of one of the customer's inspections.
+   *
+   * @param {string} customerId - The authenticated customer's ID.
+   * @param {string} id - The inspection ID.
+   * @returns {Promise<CustomerInspectionReportFile>} Content and download name of the PDF.
+   * @throws {NotFoundException} If the inspection is not owned by the customer or has no report yet.
+   */
+  async getReportFile(
+    customerId: string,
+    id: string,
+  ): Promise<CustomerInspectionReportFile> {
+    const inspection = await this.findOwned(customerId, id);
+    if (!inspection.urlPdfNoDocs) {
+      throw new NotFoundException(
+        `The report of inspection "${id}" is not available yet.`,
+      );
+    }
+
+    // Only the file name is taken from the stored URL
+    const key = this.storage.pdfKey(inspection.urlPdfNoDocs);
+    const fileName = path.posix.basename(key);
+    try {
+      return { stream: await this.storage.download(key), fileName };
+    } catch (error: unknown) {
+      if (!(error instanceof NotFoundException)) throw error;
+      this.logger.warn(
+        `Report file ${key} of inspection ${id} is missing in storage`,
+      );
+      throw new NotFoundException(
+        `The report of inspection "${id}" is not available.`,
+      );
+    }
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Loads an inspection only if the customer owns it.
+   */
+  private async findOwned(
+    customerId: string,
+    id: string,
+  ): Promise<Pick<Inspection, 'id' | 'urlPdfNoDocs'>> {
+    const inspection = await this.prisma.inspection.findFirst({
+      where: { AND: [{ id }, await this.buildOwnershipFilter(customerId)] },
+      select: { id: true, urlPdfNoDocs: true },
+    });
+    if (!inspection) {
+      // Same answer for missing and foreign inspections
+      throw new NotFoundException(`Inspection with ID "${id}" not found.`);
+    }
+    return inspection;
+  }
+
+  /**
+   * Inspections visible to the customer: booked by them or of one of their
+   * vehicles, and in a status shown to customers.
+   */
+  private async buildOwnershipFilter(
+    customerId: string,
+  ): Promise<Prisma.InspectionWhereInput> {
+    const vehicles =
+      await this.customerVehiclesService.findAllForCustomer(customerId);
+    const plateNumbers = vehicles.flatMap((vehicle) =>
+      plateNumberVariants(vehicle.plateNumber),
+    );
+
+    const owned: Prisma.InspectionWhereInput[] = [
+      { customerInspectionRequest: { is: { customerId } } },
+    ];
+    if (plateNumbers.length > 0) {
+      owned.push({
+        vehiclePlateNumber: { in: plateNumbers, mode: 'insensitive' },
+      });
+    }
+
+    return {
+      status: { in: CUSTOMER_VISIBLE_INSPECTION_STATUSES },
+      OR: owned,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspection-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Query parameters for a customer's inspection history.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { InspectionStatus } from '@prisma/client';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * Query parameters for listing the authenticated customer's inspections.
+ */
+export class CustomerInspectionQueryDto {
+  @ApiProperty({
+    enum: InspectionStatus,
+    description:
+      'Filter by inspection status. Only reviewed inspections are part of the history.',
+    required: false,
+  })
+  @IsEnum(InspectionStatus)
+  @IsOptional()
+  status?: InspectionStatus;
+
+  @ApiProperty({
+    description: 'Page number (1-based). Defaults to 1.',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page. Defaults to 10.',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  pageSize?: number = 10;
+}
@@ -0,0 +1,79 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-inspection-summary.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for one entry of a customer's
+ * inspection history.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { Inspection, InspectionStatus } from '@prisma/client';
+
+/**
+ * Inspection fields loaded for the history list.
+ */
+export type CustomerInspectionListItem = Pick<
+  Inspection,
+  | 'id'
+  | 'pretty_id'
+  | 'vehiclePlateNumber'
+  | 'inspectionDate'
+  | 'overallRating'
+  | 'status'
+  | 'vehicleData'
+  | 'urlPdfNoDocs'
+  | 'archivedAt'
+>;
+
+/**
+ * One inspection of the customer's history.
+ */
+export class CustomerInspectionSummaryDto {
+  @ApiProperty({ description: 'Inspection ID' })
+  id: string;
+
+  @ApiProperty({ example: 'YOG-01082025-001', description: 'Pretty ID' })
+  prettyId: string;
+
+  @ApiProperty({ example: 'AB 1234 XY', nullable: true })
+  vehiclePlateNumber: string | null;
+
+  @ApiProperty({ nullable: true })
+  inspectionDate: Date | null;
+
+  @ApiProperty({ example: '8.5', nullable: true })
+  overallRating: string | null;
+
+  @ApiProperty({ enum: InspectionStatus })
+  status: InspectionStatus;
+
+  @ApiProperty({
+    description: 'Vehicle data recorded by the inspector (make, model, year…)',
+    nullable: true,
+  })
+  vehicleData: Inspection['vehicleData'];
+
+  @ApiProperty({
+    description:
+      'Whether the report without documents can be downloaded from /me/inspections/{id}/report',
+  })
+  reportAvailable: boolean;
+
+  @ApiProperty({ nullable: true })
+  archivedAt: Date | null;
+
+  constructor(inspection: CustomerInspectionListItem) {
+    this.id = inspection.id;
+    this.prettyId = inspection.pretty_id;
+    this.vehiclePlateNumber = inspection.vehiclePlateNumber;
+    this.inspectionDate = inspection.inspectionDate;
+    this.overallRating = inspection.overallRating;
+    this.status = inspection.status;
+    this.vehicleData = inspection.vehicleData;
+    this.reportAvailable = !!inspection.urlPdfNoDocs;
+    this.archivedAt = inspection.archivedAt;
+  }
+}
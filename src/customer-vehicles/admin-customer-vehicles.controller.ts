@@ -0,0 +1,207 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: admin-customer-vehicles.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for admins linking vehicles to the customers
+ * who own them. A linked plate number grants the customer access to the
+ * inspections of that vehicle.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audit } from '../audit-logs/audit.decorator';
+import { CustomerVehiclesService } from './customer-vehicles.service';
+import { CreateCustomerVehicleDto } from './dto/create-customer-vehicle.dto';
+import { CustomerVehicleQueryDto } from './dto/customer-vehicle-query.dto';
+import {
+  CustomerVehicleResponseDto,
+  PlateNumberSuggestionDto,
+} from './dto/customer-vehicle-response.dto';
+
+@ApiTags('Customer Vehicles (Admin)')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPERADMIN)
+@Controller('admin/customer-vehicles') // Base path: /api/v1/admin/customer-vehicles
+export class AdminCustomerVehiclesController {
+  constructor(
+    private readonly customerVehiclesService: CustomerVehiclesService,
+  ) {}
+
+  /**
+   * Links a vehicle to the customer who owns it.
+   *
+   * @param dto Customer, plate number and vehicle details.
+   * @returns The linked vehicle.
+   */
+  @Post()
+  @Audit(AuditAction.CUSTOMER_VEHICLE_LINKED, AuditTargetType.CUSTOMER_VEHICLE)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Link a vehicle to a customer',
+    description:
+      'Only link a plate number after verifying the customer owns the vehicle: the customer gets access to every inspection of it.',
+  })
+  @ApiBody({ type: CreateCustomerVehicleDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The vehicle has been linked.',
+    type: CustomerVehicleResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input or unknown customer.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The plate number is already linked to a customer.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async create(
+    @Body() dto: CreateCustomerVehicleDto,
+  ): Promise<CustomerVehicleResponseDto> {
+    const vehicle = await this.customerVehiclesService.create(dto);
+    return new CustomerVehicleResponseDto(vehicle);
+  }
+
+  /**
+   * Lists linked vehicles.
+   *
+   * @param query Filters and pagination.
+   * @returns The page of vehicles with pagination metadata.
+   */
+  @Get()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'List customer vehicles' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated list of customer vehicles.',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/CustomerVehicleResponseDto' },
+        },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            pageSize: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  async findAll(@Query() query: CustomerVehicleQueryDto): Promise<{
+    data: CustomerVehicleResponseDto[];
+    meta: { total: number; page: number; pageSize: number; totalPages: number };
+  }> {
+    const result = await this.customerVehiclesService.findAll(query);
+    return {
+      data: result.data.map(
+        (vehicle) => new CustomerVehicleResponseDto(vehicle),
+      ),
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * Suggests plate numbers for a customer from inspections recorded under
+   * the customer's name.
+   *
+   * @param customerId The customer's ID.
+   * @returns Unlinked plate numbers found under the customer's name.
+   */
+  @Get('suggestions/:customerId')
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: "Suggest plate numbers from the customer's name",
+    description:
+      'Plate numbers of inspections whose customer name (identityDetails.namaCustomer) equals the name of the customer and that are not linked yet. Names are not unique: verify ownership before linking.',
+  })
+  @ApiParam({ name: 'customerId', description: 'Customer ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Suggested plate numbers.',
+    type: [PlateNumberSuggestionDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Customer not found.',
+  })
+  async suggestPlateNumbers(
+    @Param('customerId', ParseUUIDPipe) customerId: string,
+  ): Promise<PlateNumberSuggestionDto[]> {
+    return this.customerVehiclesService.suggestPlateNumbers(customerId);
+  }
+
+  /**
+   * Unlinks a vehicle from its customer.
+   *
+   * @param id The customer vehicle ID.
+   * @returns The removed vehicle.
+   */
+  @Delete(':id')
+  @Audit(
+    AuditAction.CUSTOMER_VEHICLE_UNLINKED,
+    AuditTargetType.CUSTOMER_VEHICLE,
+  )
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Unlink a vehicle from its customer',
+    description:
+      'The customer keeps access to inspections they booked themselves.',
+  })
+  @ApiParam({ name: 'id', description: 'Customer vehicle ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The vehicle has been unlinked.',
+    type: CustomerVehicleResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Customer vehicle not found.',
+  })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<CustomerVehicleResponseDto> {
+    const vehicle = await this.customerVehiclesService.remove(id);
+    return new CustomerVehicleResponseDto(vehicle);
+  }
+}
@@ -0,0 +1,72 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-vehicles.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for customers listing the vehicles linked to
+ * their account. Linking is done by admins (see AdminCustomerVehiclesController).
+ * --------------------------------------------------------------------------
+ */
+
+import { Controller, Get, HttpStatus, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { CustomerVehiclesService } from './customer-vehicles.service';
+import { CustomerVehicleResponseDto } from './dto/customer-vehicle-response.dto';
+
+@ApiTags('Customer Inspection History')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.CUSTOMER)
+@Controller('me/vehicles') // Base path: /api/v1/me/vehicles
+export class CustomerVehiclesController {
+  constructor(
+    private readonly customerVehiclesService: CustomerVehiclesService,
+  ) {}
+
+  /**
+   * Lists the vehicles linked to the authenticated customer.
+   *
+   * @param customerId The authenticated customer's ID.
+   * @returns The customer's vehicles.
+   */
+  @Get()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'List my vehicles',
+    description:
+      'Vehicles linked to the customer by an admin. Inspections of these plate numbers appear in the inspection history.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "The customer's vehicles.",
+    type: [CustomerVehicleResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not a customer.',
+  })
+  async findMine(
+    @GetUser('id') customerId: string,
+  ): Promise<CustomerVehicleResponseDto[]> {
+    const vehicles =
+      await this.customerVehiclesService.findAllForCustomer(customerId);
+    return vehicles.map((vehicle) => new CustomerVehicleResponseDto(vehicle));
+  }
+}
@@ -0,0 +1,24 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-vehicles.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for vehicles owned by customers. Exports the
+ * service so the customer inspection history can resolve owned plate numbers.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CustomerVehiclesService } from './customer-vehicles.service';
+import { CustomerVehiclesController } from './customer-vehicles.controller';
+import { AdminCustomerVehiclesController } from './admin-customer-vehicles.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CustomerVehiclesController, AdminCustomerVehiclesController],
+  providers: [CustomerVehiclesService],
+  exports: [CustomerVehiclesService],
+})
+export class CustomerVehiclesModule {}
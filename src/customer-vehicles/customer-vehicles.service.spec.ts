@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import {
+  CustomerVehiclesService,
+  normalizePlateNumber,
+} from './customer-vehicles.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('CustomerVehiclesService', () => {
+  let service: CustomerVehiclesService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn() },
+    customerVehicle: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    inspection: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomerVehiclesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<CustomerVehiclesService>(CustomerVehiclesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should normalize plate numbers', () => {
+    expect(normalizePlateNumber('  ab 1234\txy ')).toBe('AB 1234 XY');
+  });
+
+  describe('create', () => {
+    it('should store the normalized plate number', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        role: Role.CUSTOMER,
+      });
+      mockPrismaService.customerVehicle.create.mockResolvedValue({});
+
+      await service.create({ customerId: 'customer-1', plateNumber: 'ab 1 c' });
+
+      expect(mockPrismaService.customerVehicle.create).toHaveBeenCalledWith({
+        data: {
+          customerId: 'customer-1',
+          plateNumber: 'AB 1 C',
+          vehicleBrand: undefined,
+          vehicleModel: undefined,
+        },
+      });
+    });
+
+    it('should only link vehicles to customers', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        role: Role.INSPECTOR,
+      });
+
+      await expect(
+        service.create({ customerId: 'user-1', plateNumber: 'AB 1 C' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should report a plate number linked to another customer', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        role: Role.CUSTOMER,
+      });
+      mockPrismaService.customerVehicle.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.create({ customerId: 'customer-2', plateNumber: 'AB 1 C' }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('suggestPlateNumbers', () => {
+    it('should suggest unlinked plates found under the customer name', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        name: 'Budi Santoso',
+        role: Role.CUSTOMER,
+      });
+      mockPrismaService.inspection.findMany.mockResolvedValue([
+        { vehiclePlateNumber: 'ab 1 c', inspectionDate: new Date(1000) },
+        { vehiclePlateNumber: 'AB 1 C', inspectionDate: new Date(2000) },
+        { vehiclePlateNumber: 'AB 2 D', inspectionDate: null },
+      ]);
+      mockPrismaService.customerVehicle.findMany.mockResolvedValue([
+        { plateNumber: 'AB 2 D' },
+      ]);
+
+      const suggestions = await service.suggestPlateNumbers('customer-1');
+
+      expect(mockPrismaService.inspection.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            identityDetails: {
+              path: ['namaCustomer'],
+              equals: 'Budi Santoso',
+            },
+          }) as unknown,
+        }),
+      );
+      expect(suggestions).toEqual([
+        {
+          plateNumber: 'AB 1 C',
+          inspectionCount: 2,
+          lastInspectionDate: new Date(2000),
+        },
+      ]);
+    });
+  });
+});
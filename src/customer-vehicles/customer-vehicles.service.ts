@@ -0,0 +1,260 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-vehicles.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service for the vehicles owned by customers.
+ * Admins link a plate number to a customer after verifying ownership; the
+ * customer's inspection history is made of the inspections of their plates.
+ * Plate numbers found under the customer's name (identityDetails.namaCustomer)
+ * are only suggested to the admin, never linked automatically, as names are
+ * not unique.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  CustomerVehicle,
+  InspectionStatus,
+  Prisma,
+  Role,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateCustomerVehicleDto } from './dto/create-customer-vehicle.dto';
+import { CustomerVehicleQueryDto } from './dto/customer-vehicle-query.dto';
+import { PlateNumberSuggestionDto } from './dto/customer-vehicle-response.dto';
+
+/**
+ * Normalizes a plate number for storage and comparison:
+ * trimmed, upper case, with single spaces ("ab  1234 xy" -> "AB 1234 XY").
+ */
+export function normalizePlateNumber(plateNumber: string): string {
+  return plateNumber.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+/**
+ * Spellings of a normalized plate number that may be stored on inspections:
+ * with single spaces and without any spaces.
+ */
+export function plateNumberVariants(plateNumber: string): string[] {
+  const compact = plateNumber.replace(/ /g, '');
+  return compact === plateNumber ? [plateNumber] : [plateNumber, compact];
+}
+
+export interface PaginatedCustomerVehicles {
+  data: CustomerVehicle[];
+  meta: { total: number; page: number; pageSize: number; totalPages: number };
+}
+
+@Injectable()
+export class CustomerVehiclesService {
+  private readonly logger = new Logger(CustomerVehiclesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Links a vehicle to a customer.
+   *
+   * @param {CreateCustomerVehicleDto} dto - Customer, plate number and vehicle details.
+   * @returns {Promise<CustomerVehicle>} The linked vehicle.
+   * @throws {BadRequestException} If the customer does not exist or is not a CUSTOMER.
+   * @throws {ConflictException} If the plate number is already linked to a customer.
+   */
+  async create(dto: CreateCustomerVehicleDto): Promise<CustomerVehicle> {
+    const customer = await this.prisma.user.findUnique({
+      where: { id: dto.customerId },
+      select: { role: true },
+    });
+    if (!customer || customer.role !== Role.CUSTOMER) {
+      throw new BadRequestException(
+        `Customer with ID "${dto.customerId}" not found.`,
+      );
+    }
+
+    const plateNumber = normalizePlateNumber(dto.plateNumber);
+    if (!plateNumber) {
+      throw new BadRequestException('Plate number must not be empty.');
+    }
+
+    try {
+      const vehicle = await this.prisma.customerVehicle.create({
+        data: {
+          customerId: dto.customerId,
+          plateNumber,
+          vehicleBrand: dto.vehicleBrand,
+          vehicleModel: dto.vehicleModel,
+        },
+      });
+      this.logger.log(
+        `Linked vehicle ${plateNumber} to customer ${dto.customerId}`,
+      );
+      return vehicle;
+    } catch (error: unknown) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `Plate number "${plateNumber}" is already linked to a customer.`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists linked vehicles, newest first.
+   *
+   * @param {CustomerVehicleQueryDto} query - Filters and pagination.
+   * @returns {Promise<PaginatedCustomerVehicles>} The page of vehicles and metadata.
+   */
+  async findAll(
+    query: CustomerVehicleQueryDto,
+  ): Promise<PaginatedCustomerVehicles> {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 10;
+    const where: Prisma.CustomerVehicleWhereInput = {
+      customerId: query.customerId,
+      ...(query.plateNumber && {
+        plateNumber: {
+          contains: normalizePlateNumber(query.plateNumber),
+          mode: 'insensitive',
+        },
+      }),
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.customerVehicle.count({ where }),
+      this.prisma.customerVehicle.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    };
+  }
+
+  /**
+   * Lists the vehicles of a customer.
+   *
+   * @param {string} customerId - The customer's ID.
+   * @returns {Promise<CustomerVehicle[]>} The customer's vehicles ordered by plate number.
+   */
+  async findAllForCustomer(customerId: string): Promise<CustomerVehicle[]> {
+    return this.prisma.customerVehicle.findMany({
+      where: { customerId },
+      orderBy: { plateNumber: 'asc' },
+    });
+  }
+
+  /**
+   * Unlinks a vehicle from its customer. The customer loses access to the
+   * inspections of the plate that were not booked by them.
+   *
+   * @param {string} id - The customer vehicle ID.
+   * @returns {Promise<CustomerVehicle>} The removed vehicle.
+   * @throws {NotFoundException} If the vehicle does not exist.
+   */
+  async remove(id: string): Promise<CustomerVehicle> {
+    const vehicle = await this.prisma.customerVehicle.findUnique({
+      where: { id },
+    });
+    if (!vehicle) {
+      throw new NotFoundException(
+        `Customer vehicle with ID "${id}" not found.`,
+      );
+    }
+    await this.prisma.customerVehicle.delete({ where: { id } });
+    this.logger.log(
+      `Unlinked vehicle ${vehicle.plateNumber} from customer ${vehicle.customerId}`,
+    );
+    return vehicle;
+  }
+
+  /**
+   * Suggests plate numbers for a customer from the inspections recorded under
+   * the customer's name (identityDetails.namaCustomer). Plates already linked
+   * to a customer are left out. The admin still has to verify ownership
+   * before linking a suggestion.
+   *
+   * @param {string} customerId - The customer's ID.
+   * @returns {Promise<PlateNumberSuggestionDto[]>} Unlinked plate numbers, most recently inspected first.
+   * @throws {NotFoundException} If the customer does not exist or is not a CUSTOMER.
+   */
+  async suggestPlateNumbers(
+    customerId: string,
+  ): Promise<PlateNumberSuggestionDto[]> {
+    const customer = await this.prisma.user.findUnique({
+      where: { id: customerId },
+      select: { name: true, role: true },
+    });
+    if (!customer || customer.role !== Role.CUSTOMER) {
+      throw new NotFoundException(
+        `Customer with ID "${customerId}" not found.`,
+      );
+    }
+    const name = customer.name?.trim();
+    if (!name) return [];
+
+    const inspections = await this.prisma.inspection.findMany({
+      where: {
+        identityDetails: { path: ['namaCustomer'], equals: name },
+        vehiclePlateNumber: { not: null },
+        status: { not: InspectionStatus.DEACTIVATED },
+      },
+      select: { vehiclePlateNumber: true, inspectionDate: true },
+    });
+
+    const suggestions = new Map<string, PlateNumberSuggestionDto>();
+    for (const inspection of inspections) {
+      const plateNumber = normalizePlateNumber(
+        inspection.vehiclePlateNumber ?? '',
+      );
+      if (!plateNumber) continue;
+      const suggestion = suggestions.get(plateNumber) ?? {
+        plateNumber,
+        inspectionCount: 0,
+        lastInspectionDate: null,
+      };
+      suggestion.inspectionCount += 1;
+      if (
+        inspection.inspectionDate &&
+        (!suggestion.lastInspectionDate ||
+          inspection.inspectionDate > suggestion.lastInspectionDate)
+      ) {
+        suggestion.lastInspectionDate = inspection.inspectionDate;
+      }
+      suggestions.set(plateNumber, suggestion);
+    }
+    if (suggestions.size === 0) return [];
+
+    const linked = await this.prisma.customerVehicle.findMany({
+      where: { plateNumber: { in: [...suggestions.keys()] } },
+      select: { plateNumber: true },
+    });
+    for (const { plateNumber } of linked) suggestions.delete(plateNumber);
+
+    return [...suggestions.values()].sort(
+      (a, b) =>
+        (b.lastInspectionDate?.getTime() ?? 0) -
+        (a.lastInspectionDate?.getTime() ?? 0),
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: create-customer-vehicle.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) used by an admin to link a vehicle
+ * (by plate number) to the customer who owns it.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object for linking a vehicle to a customer.
+ */
+export class CreateCustomerVehicleDto {
+  /**
+   * The customer owning the vehicle.
+   * @example "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   */
+  @ApiProperty({
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    description: 'ID of the customer (role CUSTOMER)',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  customerId: string;
+
+  /**
+   * License plate number. Stored upper case with single spaces.
+   * @example "AB 1234 XY"
+   */
+  @ApiProperty({
+    example: 'AB 1234 XY',
+    description: 'License plate number of the vehicle',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  plateNumber: string;
+
+  /**
+   * Vehicle brand.
+   * @example "Toyota"
+   */
+  @ApiProperty({
+    example: 'Toyota',
+    description: 'Vehicle brand',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  vehicleBrand?: string;
+
+  /**
+   * Vehicle model.
+   * @example "Avanza"
+   */
+  @ApiProperty({
+    example: 'Avanza',
+    description: 'Vehicle model',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  vehicleModel?: string;
+}
@@ -0,0 +1,54 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-vehicle-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Query parameters for the admin list of customer vehicles.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, IsUUID, Max, Min } from 'class-validator';
+
+/**
+ * Query parameters for listing customer vehicles.
+ */
+export class CustomerVehicleQueryDto {
+  @ApiProperty({
+    description: 'Filter by customer ID',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  customerId?: string;
+
+  @ApiProperty({
+    description: 'Filter by (part of) the plate number',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  plateNumber?: string;
+
+  @ApiProperty({
+    description: 'Page number (1-based). Defaults to 1.',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page. Defaults to 10.',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  pageSize?: number = 10;
+}
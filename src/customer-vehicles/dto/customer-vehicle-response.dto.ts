@@ -0,0 +1,70 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: customer-vehicle-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Objects (DTO) returned for customer vehicles and
+ * for plate numbers suggested from the customer's name on past inspections.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { CustomerVehicle } from '@prisma/client';
+
+/**
+ * A vehicle owned by a customer.
+ */
+export class CustomerVehicleResponseDto {
+  @ApiProperty({ description: 'Customer vehicle ID' })
+  id: string;
+
+  @ApiProperty({ description: 'ID of the owning customer' })
+  customerId: string;
+
+  @ApiProperty({ example: 'AB 1234 XY', description: 'License plate number' })
+  plateNumber: string;
+
+  @ApiProperty({ example: 'Toyota', nullable: true })
+  vehicleBrand: string | null;
+
+  @ApiProperty({ example: 'Avanza', nullable: true })
+  vehicleModel: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(vehicle: CustomerVehicle) {
+    this.id = vehicle.id;
+    this.customerId = vehicle.customerId;
+    this.plateNumber = vehicle.plateNumber;
+    this.vehicleBrand = vehicle.vehicleBrand;
+    this.vehicleModel = vehicle.vehicleModel;
+    this.createdAt = vehicle.createdAt;
+    this.updatedAt = vehicle.updatedAt;
+  }
+}
+
+/**
+ * A plate number found on inspections recorded under the customer's name
+ * that is not linked to any customer yet.
+ */
+export class PlateNumberSuggestionDto {
+  @ApiProperty({ example: 'AB 1234 XY', description: 'License plate number' })
+  plateNumber: string;
+
+  @ApiProperty({
+    example: 2,
+    description: 'Number of inspections of the plate under the name',
+  })
+  inspectionCount: number;
+
+  @ApiProperty({
+    description: 'Date of the most recent of these inspections',
+    nullable: true,
+  })
+  lastInspectionDate: Date | null;
+}
@@ -6,12 +6,25 @@
  * --------------------------------------------------------------------------
  * Description: NestJS controller responsible for handling dashboard-related requests.
  * Provides endpoints for retrieving various dashboard statistics and data including
- * main order statistics, order trends, branch distribution, and inspector performance.
- * Requires JWT authentication and ADMIN/REVIEWER roles for access to different endpoints.
+ * main order statistics, order trends, branch distribution, and inspector performance,
+ * and for managing inspection targets and comparing them with actual inspection counts.
+ * Requires JWT authentication and the dashboard permissions of the caller's role;
+ * ADMIN and REVIEWER users limited to branch cities only see those branches.
  * --------------------------------------------------------------------------
  */
 
-import { Controller, Get, UseGuards, Query, Body } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  UseGuards,
+  Query,
+  Body,
+  Param,
+  ParseUUIDPipe,
+} from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiTags,
@@ -19,34 +32,44 @@ import {
   ApiResponse,
 } from '@nestjs/swagger'; // Optional for Swagger documentation
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'; // Assuming you have a JWT guard
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../permissions/guards/permissions.guard';
+import { RequirePermission } from '../permissions/decorators/require-permission.decorator';
+import { GetBranchScope } from '../permissions/decorators/get-branch-scope.decorator';
+import { BranchScope } from '../permissions/branch-scope';
 import { DashboardService } from './dashboard.service';
 import { GetDashboardStatsDto } from './dto/get-dashboard-stats.dto';
 import { MainStatsResponseDto } from './dto/main-stats-response.dto';
 import { OrderTrendResponseDto } from './dto/order-trend-response.dto';
 import { BranchDistributionResponseDto } from './dto/branch-distribution-response.dto';
 import { InspectorPerformanceResponseDto } from './dto/inspector-performance-response.dto';
-import { Role } from '@prisma/client';
+import { SetInspectionTargetDto } from './dto/set-inspection-target.dto';
+import { UpdateInspectionTargetDto } from './dto/update-inspection-target.dto';
+import {
+  GetInspectionTargetStatsDto,
+  InspectionTargetQueryDto,
+} from './dto/inspection-target-query.dto';
+import { InspectionTargetDto } from './dto/inspection-target.dto';
+import { InspectionTargetStatsResponseDto } from './dto/inspection-target-stats.dto';
+import { Permission } from '@prisma/client';
 import { SkipThrottle } from '@nestjs/throttler';
 
 @ApiTags('Dashboard Admin') // For Swagger
 @ApiBearerAuth() // For Swagger, indicates endpoint requires a token
 @SkipThrottle()
 @Controller('dashboard')
-@UseGuards(JwtAuthGuard, RolesGuard) // Ensure JWTAuthGuard runs first
+@UseGuards(JwtAuthGuard, PermissionsGuard) // Ensure JWTAuthGuard runs first
 export class DashboardController {
   constructor(private readonly dashboardService: DashboardService) {}
 
   /**
    * Retrieves main order statistics based on the provided query parameters.
-   * Requires ADMIN or REVIEWER role.
+   * Requires the DASHBOARD_READ permission.
    *
    * @param query - The query parameters for filtering statistics (e.g., time period).
    * @returns A promise that resolves to the main statistics data.
    */
   @Get('main-stats')
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @RequirePermission(Permission.DASHBOARD_READ)
   @ApiOperation({ summary: 'Get main order statistics' })
   @ApiResponse({
     status: 200,
@@ -55,19 +78,22 @@ export class DashboardController {
   })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async getMainStats(@Query() query: GetDashboardStatsDto) {
-    return this.dashboardService.getMainCounter(query);
+  async getMainStats(
+    @Query() query: GetDashboardStatsDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.getMainCounter(query, branchScope);
   }
 
   /**
    * Retrieves order trend data based on the provided query parameters.
-   * Requires ADMIN role.
+   * Requires the DASHBOARD_ANALYTICS_READ permission.
    *
    * @param query - The query parameters for filtering the trend data (e.g., time period).
    * @returns A promise that resolves to the order trend data.
    */
   @Get('order-trend')
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @RequirePermission(Permission.DASHBOARD_ANALYTICS_READ)
   @ApiOperation({ summary: 'Get order trend data' })
   @ApiResponse({
     status: 200,
@@ -76,19 +102,22 @@ export class DashboardController {
   })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
-  getOrderTrend(@Query() query: GetDashboardStatsDto) {
-    return this.dashboardService.getOrderTrend(query);
+  getOrderTrend(
+    @Query() query: GetDashboardStatsDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.getOrderTrend(query, branchScope);
   }
 
   /**
    * Retrieves order distribution data by branch based on the provided query parameters.
-   * Requires ADMIN role.
+   * Requires the DASHBOARD_ANALYTICS_READ permission.
    *
    * @param query - The query parameters for filtering the distribution data (e.g., time period).
    * @returns A promise that resolves to the branch distribution data.
    */
   @Get('branch-distribution')
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @RequirePermission(Permission.DASHBOARD_ANALYTICS_READ)
   @ApiOperation({
     summary: 'Get order distribution by branch',
   })
@@ -99,19 +128,22 @@ export class DashboardController {
   })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async getBranchDistribution(@Query() query: GetDashboardStatsDto) {
-    return this.dashboardService.getBranchDistribution(query);
+  async getBranchDistribution(
+    @Query() query: GetDashboardStatsDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.getBranchDistribution(query, branchScope);
   }
 
   /**
    * Retrieves inspector performance data.
-   * Requires ADMIN role.
+   * Requires the DASHBOARD_ANALYTICS_READ permission.
    *
    * @param query - The query parameters for filtering the performance data (e.g., time period).
    * @returns A promise that resolves to the inspector performance data.
    */
   @Get('inspector-performance')
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @RequirePermission(Permission.DASHBOARD_ANALYTICS_READ)
   @ApiOperation({ summary: 'Get inspector performance' })
   @ApiResponse({
     status: 200,
@@ -120,7 +152,145 @@ export class DashboardController {
   })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async getInspectorPerformance(@Query() query: GetDashboardStatsDto) {
-    return this.dashboardService.getInspectorPerformance(query);
+  async getInspectorPerformance(
+    @Query() query: GetDashboardStatsDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.getInspectorPerformance(query, branchScope);
+  }
+
+  /**
+   * Sets the inspection target of a period, optionally for one branch city.
+   * Requires the INSPECTION_TARGETS_MANAGE permission.
+   *
+   * @param dto - The period, target value, date within the period and branch city.
+   * @returns A promise that resolves to the created or updated target.
+   */
+  @Post('targets')
+  @RequirePermission(Permission.INSPECTION_TARGETS_MANAGE)
+  @ApiOperation({
+    summary: 'Set an inspection target',
+    description:
+      'Creates the target of the YEAR, MONTH, WEEK or DAY containing targetDate (default: today), or replaces its value if it already exists.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Inspection target successfully set.',
+    type: InspectionTargetDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input or branch city.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  async setInspectionTarget(
+    @Body() dto: SetInspectionTargetDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.setInspectionTarget(dto, branchScope);
+  }
+
+  /**
+   * Lists inspection targets.
+   * Requires the INSPECTION_TARGETS_MANAGE permission.
+   *
+   * @param query - The optional period and branch city filters.
+   * @returns A promise that resolves to the matching targets.
+   */
+  @Get('targets')
+  @RequirePermission(Permission.INSPECTION_TARGETS_MANAGE)
+  @ApiOperation({ summary: 'List inspection targets' })
+  @ApiResponse({
+    status: 200,
+    description: 'Inspection targets successfully retrieved.',
+    type: [InspectionTargetDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  async getInspectionTargets(
+    @Query() query: InspectionTargetQueryDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.findInspectionTargets(query, branchScope);
+  }
+
+  /**
+   * Changes the value of an inspection target.
+   * Requires the INSPECTION_TARGETS_MANAGE permission.
+   *
+   * @param id - The target ID.
+   * @param dto - The new target value.
+   * @returns A promise that resolves to the updated target.
+   */
+  @Patch('targets/:id')
+  @RequirePermission(Permission.INSPECTION_TARGETS_MANAGE)
+  @ApiOperation({ summary: 'Update an inspection target' })
+  @ApiResponse({
+    status: 200,
+    description: 'Inspection target successfully updated.',
+    type: InspectionTargetDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Inspection target not found.' })
+  async updateInspectionTarget(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateInspectionTargetDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.updateInspectionTarget(id, dto, branchScope);
+  }
+
+  /**
+   * Deletes an inspection target.
+   * Requires the INSPECTION_TARGETS_MANAGE permission.
+   *
+   * @param id - The target ID.
+   * @returns A promise that resolves to the deleted target.
+   */
+  @Delete('targets/:id')
+  @RequirePermission(Permission.INSPECTION_TARGETS_MANAGE)
+  @ApiOperation({ summary: 'Delete an inspection target' })
+  @ApiResponse({
+    status: 200,
+    description: 'Inspection target successfully deleted.',
+    type: InspectionTargetDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Inspection target not found.' })
+  async deleteInspectionTarget(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.deleteInspectionTarget(id, branchScope);
+  }
+
+  /**
+   * Compares the inspection counts of the current year, month, week and day
+   * against their targets.
+   * Requires the DASHBOARD_READ permission.
+   *
+   * @param query - The reference date, branch city and timezone.
+   * @returns A promise that resolves to the statistics per period.
+   */
+  @Get('target-stats')
+  @RequirePermission(Permission.DASHBOARD_READ)
+  @ApiOperation({
+    summary: 'Get inspection counts against targets',
+    description:
+      'Returns, for the year, month, week and day containing the reference date, the inspection count, the target, the percentage achieved and a run-rate projection to the end of the period.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Inspection target statistics successfully retrieved.',
+    type: InspectionTargetStatsResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid date or branch city.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  async getInspectionTargetStats(
+    @Query() query: GetInspectionTargetStatsDto,
+    @GetBranchScope() branchScope: BranchScope,
+  ) {
+    return this.dashboardService.getInspectionTargetStats(query, branchScope);
   }
 }
@@ -12,8 +12,10 @@
 import { Module } from '@nestjs/common';
 import { DashboardController } from './dashboard.controller';
 import { DashboardService } from './dashboard.service';
+import { PermissionsModule } from '../permissions/permissions.module';
 
 @Module({
+  imports: [PermissionsModule],
   controllers: [DashboardController],
   providers: [DashboardService],
 })
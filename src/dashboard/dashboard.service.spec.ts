@@ -9,14 +9,33 @@
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma, TargetPeriod } from '@prisma/client';
 import { DashboardService } from './dashboard.service';
+import { PrismaService } from '../prisma/prisma.service';
 
 describe('DashboardService', () => {
   let service: DashboardService;
+  const prisma = {
+    inspection: { count: jest.fn() },
+    inspectionBranchCity: { findUnique: jest.fn() },
+    inspectionTarget: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [DashboardService],
+      providers: [
+        DashboardService,
+        { provide: PrismaService, useValue: prisma },
+      ],
     }).compile();
 
     service = module.get<DashboardService>(DashboardService);
@@ -25,4 +44,123 @@ describe('DashboardService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('setInspectionTarget', () => {
+    it('creates the target on the first day of the period', async () => {
+      prisma.inspectionTarget.findFirst.mockResolvedValue(null);
+      prisma.inspectionTarget.create.mockResolvedValue({ id: 't1' });
+
+      await service.setInspectionTarget({
+        period: TargetPeriod.WEEK,
+        targetValue: 50,
+        targetDate: '2025-05-14',
+      });
+
+      const [args] = prisma.inspectionTarget.create.mock.calls[0] as [
+        { data: Prisma.InspectionTargetUncheckedCreateInput },
+      ];
+      expect(args.data).toEqual({
+        period: TargetPeriod.WEEK,
+        targetDate: new Date('2025-05-12T00:00:00.000Z'),
+        branchCityId: null,
+        targetValue: 50,
+      });
+    });
+
+    it('updates the value of an existing target', async () => {
+      prisma.inspectionBranchCity.findUnique.mockResolvedValue({ id: 'b1' });
+      prisma.inspectionTarget.findFirst.mockResolvedValue({ id: 't1' });
+      prisma.inspectionTarget.update.mockResolvedValue({ id: 't1' });
+
+      await service.setInspectionTarget({
+        period: TargetPeriod.MONTH,
+        targetValue: 200,
+        targetDate: '2025-05-14',
+        branchCityId: 'b1',
+      });
+
+      expect(prisma.inspectionTarget.findFirst).toHaveBeenCalledWith({
+        where: {
+          period: TargetPeriod.MONTH,
+          targetDate: new Date('2025-05-01T00:00:00.000Z'),
+          branchCityId: 'b1',
+        },
+      });
+      expect(prisma.inspectionTarget.update).toHaveBeenCalledWith({
+        where: { id: 't1' },
+        data: { targetValue: 200 },
+      });
+      expect(prisma.inspectionTarget.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown branch city', async () => {
+      prisma.inspectionBranchCity.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.setInspectionTarget({
+          period: TargetPeriod.DAY,
+          targetValue: 5,
+          branchCityId: 'missing',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateInspectionTarget / deleteInspectionTarget', () => {
+    it('throws NotFoundException for an unknown target', async () => {
+      prisma.inspectionTarget.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateInspectionTarget('missing', { targetValue: 1 }),
+      ).rejects.toThrow(NotFoundException);
+      await expect(service.deleteInspectionTarget('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(prisma.inspectionTarget.update).not.toHaveBeenCalled();
+      expect(prisma.inspectionTarget.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getInspectionTargetStats', () => {
+    it('compares past periods against their targets', async () => {
+      prisma.inspection.count.mockResolvedValue(30);
+      prisma.inspectionTarget.findFirst.mockImplementation(
+        ({ where }: { where: { period: TargetPeriod } }) =>
+          Promise.resolve(
+            where.period === TargetPeriod.MONTH ? { targetValue: 40 } : null,
+          ),
+      );
+
+      const stats = await service.getInspectionTargetStats({
+        date: '2024-02-14',
+        timezone: 'Asia/Jakarta',
+      });
+
+      expect(stats.thisMonth).toEqual(
+        expect.objectContaining({
+          totalInspections: 30,
+          targetInspections: 40,
+          percentageMet: '75.00%',
+          elapsedPercentage: '100.00%',
+          projectedInspections: 30,
+          projectedPercentage: '75.00%',
+        }),
+      );
+      expect(stats.thisYear.targetInspections).toBeNull();
+      expect(stats.thisYear.percentageMet).toBeNull();
+    });
+
+    it('projects nothing beyond the count before a period starts', async () => {
+      prisma.inspection.count.mockResolvedValue(0);
+      prisma.inspectionTarget.findFirst.mockResolvedValue({ targetValue: 10 });
+
+      const stats = await service.getInspectionTargetStats({
+        date: '2999-01-01',
+      });
+
+      expect(stats.today.elapsedPercentage).toBe('0.00%');
+      expect(stats.today.projectedInspections).toBe(0);
+      expect(stats.today.projectedPercentage).toBe('0.00%');
+    });
+  });
 });
@@ -6,13 +6,30 @@
  * --------------------------------------------------------------------------
  * Description: NestJS service responsible for handling dashboard data retrieval and processing.
  * Provides methods to fetch various statistics like main counters, order trends,
- * branch distribution, and inspector performance.
+ * branch distribution, and inspector performance, and to manage inspection
+ * targets and compare them with the actual inspection counts.
  * Utilizes Prisma for database interactions and date-fns for date calculations.
  * --------------------------------------------------------------------------
  */
 
-import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { GetDashboardStatsDto } from './dto/get-dashboard-stats.dto';
+import { SetInspectionTargetDto } from './dto/set-inspection-target.dto';
+import { UpdateInspectionTargetDto } from './dto/update-inspection-target.dto';
+import {
+  GetInspectionTargetStatsDto,
+  InspectionTargetQueryDto,
+} from './dto/inspection-target-query.dto';
+import {
+  InspectionTargetStatsItemDto,
+  InspectionTargetStatsResponseDto,
+} from './dto/inspection-target-stats.dto';
 import {
   InspectorPerformanceItemDto,
   InspectorPerformanceResponseDto,
@@ -22,7 +39,18 @@ import {
   OrderTrendResponseDto,
 } from './dto/order-trend-response.dto';
 import { PrismaService } from '../prisma/prisma.service';
-import { InspectionStatus, Prisma } from '@prisma/client';
+import {
+  BranchScope,
+  inspectionsInScope,
+  isBranchInScope,
+} from '../permissions/branch-scope';
+import {
+  InspectionStatus,
+  InspectionTarget,
+  PaymentStatus,
+  Prisma,
+  TargetPeriod,
+} from '@prisma/client';
 // import { GetOrderTrendDto, OrderTrendRangeType } from './dto/get-order-trend.';
 import {
   startOfDay,
@@ -38,6 +66,11 @@ import {
   endOfMonth,
   isSameDay,
   isSameMonth,
+  parseISO,
+  startOfWeek,
+  endOfWeek,
+  startOfYear,
+  endOfYear,
 } from 'date-fns';
 import { toZonedTime, fromZonedTime } from 'date-fns-tz';
 
@@ -145,14 +178,17 @@ export class DashboardService {
    *
    * @param startDate The start date of the period (UTC).
    * @param endDate The end date of the period (UTC).
+   * @param branchScope Branch cities to count (null: all).
    * @returns A promise that resolves to an object containing the total count and counts by status.
    */
   private async getInspectionCountsInPeriod(
     startDate: Date,
     endDate: Date,
+    branchScope: BranchScope,
   ): Promise<Record<string, number>> {
     const totalPromise = this.prisma.inspection.count({
       where: {
+        ...inspectionsInScope(branchScope),
         createdAt: {
           gte: startDate,
           lte: endDate,
@@ -163,6 +199,7 @@ export class DashboardService {
     const countsByStatusPromise = this.prisma.inspection.groupBy({
       by: ['status'],
       where: {
+        ...inspectionsInScope(branchScope),
         createdAt: {
           gte: startDate,
           lte: endDate,
@@ -191,15 +228,50 @@ export class DashboardService {
     };
   }
 
+  /**
+   * Retrieves the revenue of payments settled within a specified date range.
+   * Refunded payments are not counted.
+   *
+   * @param startDate The start date of the period (UTC).
+   * @param endDate The end date of the period (UTC).
+   * @param branchScope Branch cities whose orders are counted (null: all).
+   * @returns A promise that resolves to the paid amount and the number of paid payments.
+   */
+  private async getRevenueInPeriod(
+    startDate: Date,
+    endDate: Date,
+    branchScope: BranchScope,
+  ): Promise<{ amount: number; count: number }> {
+    const result = await this.prisma.payment.aggregate({
+      where: {
+        status: PaymentStatus.PAID,
+        ...(branchScope && {
+          order: { inspectionBranchCityId: { in: branchScope } },
+        }),
+        paidAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
+    });
+    return { amount: result._sum.amount ?? 0, count: result._count._all };
+  }
+
   /**
    * Retrieves main dashboard counter statistics (total orders, need review, approved, etc.)
-   * for a specified date range and compares them to the previous period.
+   * and revenue from paid orders for a specified date range and compares them to the previous period.
    *
    * @param query The query parameters containing start_date, end_date, and timezone.
+   * @param branchScope Branch cities the caller is limited to (null: all).
    * @returns A promise that resolves to an object containing the main counter data with counts and change percentages.
    * @throws BadRequestException if start_date or end_date are missing.
    */
-  async getMainCounter(query: GetDashboardStatsDto) {
+  async getMainCounter(
+    query: GetDashboardStatsDto,
+    branchScope: BranchScope = null,
+  ) {
     const { start_date, end_date, timezone } = query;
 
     if (!start_date || !end_date) {
@@ -214,9 +286,20 @@ export class DashboardService {
       timezone,
     );
 
-    const [currentPeriodData, previousPeriodData] = await Promise.all([
-      this.getInspectionCountsInPeriod(current.start, current.end),
-      this.getInspectionCountsInPeriod(previous.start, previous.end),
+    const [
+      currentPeriodData,
+      previousPeriodData,
+      currentRevenue,
+      previousRevenue,
+    ] = await Promise.all([
+      this.getInspectionCountsInPeriod(current.start, current.end, branchScope),
+      this.getInspectionCountsInPeriod(
+        previous.start,
+        previous.end,
+        branchScope,
+      ),
+      this.getRevenueInPeriod(current.start, current.end, branchScope),
+      this.getRevenueInPeriod(previous.start, previous.end, branchScope),
     ]);
     const createCounterData = (status: InspectionStatus | 'totalOrders') => {
       const key = status === 'totalOrders' ? 'total' : status;
@@ -238,6 +321,14 @@ export class DashboardService {
       archived: createCounterData(InspectionStatus.ARCHIVED),
       failArchive: createCounterData(InspectionStatus.FAIL_ARCHIVE),
       deactivated: createCounterData(InspectionStatus.DEACTIVATED),
+      revenue: {
+        amount: currentRevenue.amount,
+        paidOrders: currentRevenue.count,
+        changePercentage: this.calculateChangePercentage(
+          currentRevenue.amount,
+          previousRevenue.amount,
+        ),
+      },
     };
   }
 
@@ -374,6 +465,7 @@ export class DashboardService {
    * @param endDate The end date of the range (UTC).
    * @param granularity The desired time granularity ('hour', 'day', or 'month').
    * @param timezone The timezone to use for aggregation grouping (default: 'Asia/Jakarta').
+   * @param branchScope Branch cities to count (null: all).
    * @returns A promise that resolves to a Map where keys are period identifiers (ISO strings) and values are counts.
    */
   private async getAggregatedInspectionData(
@@ -381,8 +473,12 @@ export class DashboardService {
     endDate: Date,
     granularity: 'hour' | 'day' | 'month',
     timezone: string = 'Asia/Jakarta',
+    branchScope: BranchScope = null,
   ): Promise<Map<string, number>> {
     if (granularity === 'hour') {
+      const branchFilter = branchScope
+        ? Prisma.sql`AND "branch_city_id" IN (${Prisma.join(branchScope)})`
+        : Prisma.empty;
       const query = Prisma.sql`
       SELECT
         DATE_TRUNC('day', "createdAt" AT TIME ZONE ${timezone}) +
@@ -390,7 +486,7 @@ export class DashboardService {
         AS period_group,
         COUNT(*)::integer AS count
       FROM "inspections"
-      WHERE "createdAt" >= ${startDate} AND "createdAt" <= ${endDate}
+      WHERE "createdAt" >= ${startDate} AND "createdAt" <= ${endDate} ${branchFilter}
       GROUP BY period_group
       ORDER BY period_group ASC;`;
       const results: { period_group: Date; count: number }[] =
@@ -414,6 +510,7 @@ export class DashboardService {
       for (const period of periods) {
         const count = await this.prisma.inspection.count({
           where: {
+            ...inspectionsInScope(branchScope),
             createdAt: {
               gte: period.period_start, // Use period start in UTC
               lte: period.period_end, // Use period end in UTC
@@ -437,10 +534,12 @@ export class DashboardService {
    * The granularity of the trend data (hourly, daily, or monthly) is determined by the duration of the date range.
    *
    * @param query The query parameters containing start_date, end_date, and timezone.
+   * @param branchScope Branch cities the caller is limited to (null: all).
    * @returns A promise that resolves to an OrderTrendResponseDto containing the trend data and summary.
    */
   async getOrderTrend(
     query: GetDashboardStatsDto,
+    branchScope: BranchScope = null,
   ): Promise<OrderTrendResponseDto> {
     const { start: actualStartDateUsed, end: actualEndDateUsed } =
       this.getValidatedDateRange(
@@ -485,6 +584,7 @@ export class DashboardService {
       actualEndDateUsed,
       granularity,
       query.timezone,
+      branchScope,
     );
 
     const finalData = periods.map((period) => {
@@ -531,11 +631,13 @@ export class DashboardService {
    * Calculates the count, percentage, and change compared to the previous period for each branch.
    *
    * @param query The query parameters containing start_date, end_date, and timezone.
+   * @param branchScope Branch cities the caller is limited to (null: all).
    * @returns A promise that resolves to a BranchDistributionResponse containing the total count, total change, and branch distribution data.
    * @throws BadRequestException if start_date or end_date are missing.
    */
   async getBranchDistribution(
     query: GetDashboardStatsDto,
+    branchScope: BranchScope = null,
   ): Promise<BranchDistributionResponse> {
     const { start_date, end_date, timezone } = query;
 
@@ -552,8 +654,9 @@ export class DashboardService {
     );
     const { start, end } = current;
 
-    // Get all unique branch cities
+    // Get all unique branch cities (those of the caller's scope)
     const branchCities = await this.prisma.inspectionBranchCity.findMany({
+      where: branchScope ? { id: { in: branchScope } } : undefined,
       select: {
         city: true,
       },
@@ -568,6 +671,7 @@ export class DashboardService {
         id: true,
       },
       where: {
+        ...inspectionsInScope(branchScope),
         createdAt: {
           gte: start,
           lte: end,
@@ -651,6 +755,7 @@ export class DashboardService {
             id: true,
           },
           where: {
+            ...inspectionsInScope(branchScope),
             createdAt: {
               gte: prevTotalStart,
               lte: prevTotalEnd,
@@ -685,10 +790,12 @@ export class DashboardService {
    * Calculates the total inspections performed by each inspector within the period.
    *
    * @param query The query parameters containing start_date, end_date, and timezone.
+   * @param branchScope Branch cities the caller is limited to (null: all); only their inspectors and inspections are counted.
    * @returns A promise that resolves to an InspectorPerformanceResponseDto containing the performance data.
    */
   async getInspectorPerformance(
     query: GetDashboardStatsDto,
+    branchScope: BranchScope = null,
   ): Promise<InspectorPerformanceResponseDto> {
     const { start_date, end_date, timezone } = query;
 
@@ -701,6 +808,7 @@ export class DashboardService {
     const inspectors = await this.prisma.user.findMany({
       where: {
         role: 'INSPECTOR',
+        ...(branchScope && { inspectionBranchCityId: { in: branchScope } }),
       },
       select: {
         id: true,
@@ -715,6 +823,7 @@ export class DashboardService {
 
       const totalInspections = await this.prisma.inspection.count({
         where: {
+          ...inspectionsInScope(branchScope),
           inspectorId: inspector.id,
           createdAt: {
             gte: start,
@@ -731,4 +840,349 @@ export class DashboardService {
 
     return { data: performanceData };
   }
+
+  /**
+   * Sets the inspection target of a period. The target date is moved to the
+   * first day of its period; an existing target for the same period and
+   * branch city gets the new value.
+   *
+   * @param dto The period, target value, optional date within the period and optional branch city.
+   * @param branchScope Branch cities the caller is limited to (null: all).
+   * @returns A promise that resolves to the created or updated target.
+   * @throws BadRequestException if the branch city does not exist.
+   * @throws ForbiddenException if the branch city (or, without one, all branches) is outside the caller's scope.
+   */
+  async setInspectionTarget(
+    dto: SetInspectionTargetDto,
+    branchScope: BranchScope = null,
+  ): Promise<InspectionTarget> {
+    this.assertBranchInScope(branchScope, dto.branchCityId ?? null);
+    if (dto.branchCityId) {
+      await this.assertBranchCityExists(dto.branchCityId);
+    }
+    const { first } = this.getPeriodBounds(
+      dto.period,
+      dto.targetDate ?? this.todayIn(dto.timezone),
+    );
+    const targetDate = this.toTargetDate(first);
+    const branchCityId = dto.branchCityId ?? null;
+
+    // The unique key does not prevent duplicates when branchCityId is null
+    const existing = await this.prisma.inspectionTarget.findFirst({
+      where: { period: dto.period, targetDate, branchCityId },
+    });
+    const target = existing
+      ? await this.prisma.inspectionTarget.update({
+          where: { id: existing.id },
+          data: { targetValue: dto.targetValue },
+        })
+      : await this.prisma.inspectionTarget.create({
+          data: {
+            period: dto.period,
+            targetDate,
+            branchCityId,
+            targetValue: dto.targetValue,
+          },
+        });
+    this.logger.log(
+      `${dto.period} target from ${first} (${branchCityId ?? 'all branches'}) set to ${dto.targetValue}`,
+    );
+    return target;
+  }
+
+  /**
+   * Lists inspection targets, most recent periods first. Targets covering all
+   * branches are always included when filtering by branch city.
+   *
+   * @param query The optional period and branch city filters.
+   * @param branchScope Branch cities the caller is limited to (null: all).
+   * @returns A promise that resolves to the matching targets.
+   * @throws ForbiddenException if the branch city filter is outside the caller's scope.
+   */
+  async findInspectionTargets(
+    query: InspectionTargetQueryDto,
+    branchScope: BranchScope = null,
+  ): Promise<InspectionTarget[]> {
+    if (query.branch_city_id) {
+      this.assertBranchInScope(branchScope, query.branch_city_id);
+    }
+    const branchCityIds = query.branch_city_id
+      ? [query.branch_city_id]
+      : branchScope;
+    return this.prisma.inspectionTarget.findMany({
+      where: {
+        period: query.period,
+        ...(branchCityIds && {
+          OR: [{ branchCityId: { in: branchCityIds } }, { branchCityId: null }],
+        }),
+      },
+      orderBy: [{ targetDate: 'desc' }, { period: 'asc' }],
+    });
+  }
+
+  /**
+   * Changes the value of an inspection target.
+   *
+   * @param id The target ID.
+   * @param dto The new target value.
+   * @param branchScope Branch cities the caller is limited to (null: all).
+   * @returns A promise that resolves to the updated target.
+   * @throws NotFoundException if the target does not exist.
+   * @throws ForbiddenException if the target is outside the caller's scope.
+   */
+  async updateInspectionTarget(
+    id: string,
+    dto: UpdateInspectionTargetDto,
+    branchScope: BranchScope = null,
+  ): Promise<InspectionTarget> {
+    const target = await this.findInspectionTarget(id);
+    this.assertBranchInScope(branchScope, target.branchCityId);
+    return this.prisma.inspectionTarget.update({
+      where: { id },
+      data: { targetValue: dto.targetValue },
+    });
+  }
+
+  /**
+   * Deletes an inspection target.
+   *
+   * @param id The target ID.
+   * @param branchScope Branch cities the caller is limited to (null: all).
+   * @returns A promise that resolves to the deleted target.
+   * @throws NotFoundException if the target does not exist.
+   * @throws ForbiddenException if the target is outside the caller's scope.
+   */
+  async deleteInspectionTarget(
+    id: string,
+    branchScope: BranchScope = null,
+  ): Promise<InspectionTarget> {
+    const target = await this.findInspectionTarget(id);
+    this.assertBranchInScope(branchScope, target.branchCityId);
+    return this.prisma.inspectionTarget.delete({ where: { id } });
+  }
+
+  /**
+   * Compares the inspection counts of the year, month, week and day containing
+   * the reference date against their targets, with the percentage achieved and
+   * a run-rate projection to the end of each period.
+   *
+   * @param query The query parameters containing the reference date, branch city and timezone.
+   * @param branchScope Branch cities the caller is limited to (null: all). A caller limited to one branch city gets its statistics by default.
+   * @returns A promise that resolves to the statistics per period.
+   * @throws BadRequestException if the branch city does not exist, or is missing for a caller limited to several branch cities.
+   * @throws ForbiddenException if the branch city is outside the caller's scope.
+   */
+  async getInspectionTargetStats(
+    query: GetInspectionTargetStatsDto,
+    branchScope: BranchScope = null,
+  ): Promise<InspectionTargetStatsResponseDto> {
+    const timezone = query.timezone || 'Asia/Jakarta';
+    const date = query.date ?? this.todayIn(timezone);
+    let branchCityId = query.branch_city_id;
+    if (!branchCityId && branchScope) {
+      if (branchScope.length > 1) {
+        throw new BadRequestException(
+          'branch_city_id is required when you are limited to several branch cities.',
+        );
+      }
+      branchCityId = branchScope[0];
+    }
+    if (branchCityId) {
+      this.assertBranchInScope(branchScope, branchCityId);
+      await this.assertBranchCityExists(branchCityId);
+    }
+
+    const [thisYear, thisMonth, thisWeek, today] = await Promise.all(
+      [
+        TargetPeriod.YEAR,
+        TargetPeriod.MONTH,
+        TargetPeriod.WEEK,
+        TargetPeriod.DAY,
+      ].map((period) =>
+        this.getTargetStatsForPeriod(period, date, timezone, branchCityId),
+      ),
+    );
+    return { thisYear, thisMonth, thisWeek, today };
+  }
+
+  /**
+   * Compares the inspection count of one period against its target.
+   *
+   * @param period The period type.
+   * @param date A date within the period (YYYY-MM-DD).
+   * @param timezone The timezone the period boundaries are interpreted in.
+   * @param branchCityId Optional branch city; targets covering all branches are used otherwise.
+   * @returns A promise that resolves to the statistics of the period.
+   */
+  private async getTargetStatsForPeriod(
+    period: TargetPeriod,
+    date: string,
+    timezone: string,
+    branchCityId?: string,
+  ): Promise<InspectionTargetStatsItemDto> {
+    const { first, last } = this.getPeriodBounds(period, date);
+    const { start, end } = this.getValidatedDateRange(first, last, timezone);
+
+    const [totalInspections, target] = await Promise.all([
+      this.prisma.inspection.count({
+        where: {
+          createdAt: { gte: start, lte: end },
+          ...(branchCityId && { branchCityId }),
+        },
+      }),
+      this.prisma.inspectionTarget.findFirst({
+        where: {
+          period,
+          targetDate: this.toTargetDate(first),
+          branchCityId: branchCityId ?? null,
+        },
+      }),
+    ]);
+
+    // Share of the period elapsed so far (0 before it starts, 1 once it is over)
+    const elapsed = Math.min(
+      Math.max(
+        (Date.now() - start.getTime()) / (end.getTime() - start.getTime()),
+        0,
+      ),
+      1,
+    );
+    const projectedInspections =
+      elapsed > 0 ? Math.round(totalInspections / elapsed) : totalInspections;
+    const targetInspections = target?.targetValue ?? null;
+
+    return {
+      period,
+      periodStart: start,
+      periodEnd: end,
+      totalInspections,
+      targetInspections,
+      percentageMet: this.calculateAchievement(
+        totalInspections,
+        targetInspections,
+      ),
+      elapsedPercentage: `${(elapsed * 100).toFixed(2)}%`,
+      projectedInspections,
+      projectedPercentage: this.calculateAchievement(
+        projectedInspections,
+        targetInspections,
+      ),
+    };
+  }
+
+  /**
+   * Calculates the share of a target achieved by a count.
+   *
+   * @param count The inspection count.
+   * @param target The target value, or null if no target is set.
+   * @returns A string like "85.00%", or null if there is no target (or it is 0).
+   */
+  private calculateAchievement(
+    count: number,
+    target: number | null,
+  ): string | null {
+    if (!target) return null;
+    return `${((count / target) * 100).toFixed(2)}%`;
+  }
+
+  /**
+   * Returns the first and last calendar day of the period containing a date.
+   * Weeks start on Monday.
+   *
+   * @param period The period type.
+   * @param date A date within the period (YYYY-MM-DD).
+   * @returns The first and last day of the period (YYYY-MM-DD).
+   */
+  private getPeriodBounds(
+    period: TargetPeriod,
+    date: string,
+  ): { first: string; last: string } {
+    const day = parseISO(date);
+    let first: Date;
+    let last: Date;
+    switch (period) {
+      case TargetPeriod.YEAR:
+        first = startOfYear(day);
+        last = endOfYear(day);
+        break;
+      case TargetPeriod.MONTH:
+        first = startOfMonth(day);
+        last = endOfMonth(day);
+        break;
+      case TargetPeriod.WEEK:
+        first = startOfWeek(day, { weekStartsOn: 1 });
+        last = endOfWeek(day, { weekStartsOn: 1 });
+        break;
+      default:
+        first = day;
+        last = day;
+    }
+    return {
+      first: format(first, 'yyyy-MM-dd'),
+      last: format(last, 'yyyy-MM-dd'),
+    };
+  }
+
+  /**
+   * Converts a calendar day (YYYY-MM-DD) to the value stored in the
+   * InspectionTarget.targetDate date column.
+   */
+  private toTargetDate(day: string): Date {
+    return new Date(`${day}T00:00:00.000Z`);
+  }
+
+  /**
+   * Returns the current calendar day (YYYY-MM-DD) in a timezone.
+   */
+  private todayIn(timezone: string = 'Asia/Jakarta'): string {
+    return format(toZonedTime(new Date(), timezone), 'yyyy-MM-dd');
+  }
+
+  /**
+   * Loads an inspection target by ID.
+   *
+   * @throws NotFoundException if the target does not exist.
+   */
+  private async findInspectionTarget(id: string): Promise<InspectionTarget> {
+    const target = await this.prisma.inspectionTarget.findUnique({
+      where: { id },
+    });
+    if (!target) {
+      throw new NotFoundException(
+        `Inspection target with ID "${id}" not found.`,
+      );
+    }
+    return target;
+  }
+
+  /**
+   * @throws ForbiddenException if the branch city (null: all branches) is outside the caller's scope.
+   */
+  private assertBranchInScope(
+    branchScope: BranchScope,
+    branchCityId: string | null,
+  ): void {
+    if (!isBranchInScope(branchScope, branchCityId)) {
+      throw new ForbiddenException(
+        branchCityId
+          ? 'You do not have access to this branch city.'
+          : 'You can only manage targets of your branch cities.',
+      );
+    }
+  }
+
+  /**
+   * @throws BadRequestException if the branch city does not exist.
+   */
+  private async assertBranchCityExists(branchCityId: string): Promise<void> {
+    const branch = await this.prisma.inspectionBranchCity.findUnique({
+      where: { id: branchCityId },
+      select: { id: true },
+    });
+    if (!branch) {
+      throw new BadRequestException(
+        `Inspection Branch City with ID "${branchCityId}" not found.`,
+      );
+    }
+  }
 }
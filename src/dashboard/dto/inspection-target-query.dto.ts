@@ -0,0 +1,73 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: inspection-target-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Objects for listing inspection targets and
+ * retrieving inspection target statistics.
+ * --------------------------------------------------------------------------
+ */
+import {
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TargetPeriod } from '@prisma/client';
+
+export class InspectionTargetQueryDto {
+  @ApiProperty({
+    description: 'Only return targets for this period',
+    enum: TargetPeriod,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TargetPeriod)
+  period?: TargetPeriod;
+
+  @ApiProperty({
+    description:
+      'Only return targets for this branch city (targets covering all branches are always included)',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  branch_city_id?: string;
+}
+
+export class GetInspectionTargetStatsDto {
+  @ApiProperty({
+    description:
+      'Reference date (YYYY-MM-DD) whose year, month, week and day are compared against their targets. Defaults to today.',
+    example: '2025-05-14',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'date must be a valid date string in YYYY-MM-DD format' },
+  )
+  date?: string;
+
+  @ApiProperty({
+    description:
+      'Branch city to report on. Omit to report on all branches against the targets covering all branches.',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  branch_city_id?: string;
+
+  @ApiProperty({
+    description:
+      'Timezone for date calculations (e.g., "Asia/Jakarta"). Defaults to "Asia/Jakarta".',
+    example: 'Asia/Jakarta',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'timezone must be a string' })
+  timezone?: string = 'Asia/Jakarta';
+}
@@ -8,8 +8,28 @@
  * --------------------------------------------------------------------------
  */
 import { ApiProperty } from '@nestjs/swagger';
+import { TargetPeriod } from '@prisma/client';
 
 export class InspectionTargetStatsItemDto {
+  @ApiProperty({
+    description: 'The period compared against its target',
+    enum: TargetPeriod,
+    example: TargetPeriod.MONTH,
+  })
+  period: TargetPeriod;
+
+  @ApiProperty({
+    description: 'Start of the period (UTC)',
+    example: '2025-04-30T17:00:00.000Z',
+  })
+  periodStart: Date;
+
+  @ApiProperty({
+    description: 'End of the period (UTC)',
+    example: '2025-05-31T16:59:59.999Z',
+  })
+  periodEnd: Date;
+
   @ApiProperty({
     description: 'Total inspections for the period',
     example: 85,
@@ -17,51 +37,66 @@ export class InspectionTargetStatsItemDto {
   totalInspections: number;
 
   @ApiProperty({
-    description: 'Target inspections for the period',
+    description: 'Target inspections for the period (null if no target is set)',
     example: 100,
+    nullable: true,
+    type: Number,
   })
-  targetInspections: number;
+  targetInspections: number | null;
 
   @ApiProperty({
-    description: 'Percentage of target met',
+    description: 'Percentage of target met (null if no target is set)',
     example: '85.00%',
+    nullable: true,
+    type: String,
+  })
+  percentageMet: string | null;
+
+  @ApiProperty({
+    description: 'Percentage of the period that has elapsed',
+    example: '45.16%',
   })
-  percentageMet: string;
+  elapsedPercentage: string;
+
+  @ApiProperty({
+    description:
+      'Inspections expected by the end of the period at the current run rate',
+    example: 188,
+  })
+  projectedInspections: number;
+
+  @ApiProperty({
+    description:
+      'Percentage of target the projection would meet (null if no target is set)',
+    example: '188.00%',
+    nullable: true,
+    type: String,
+  })
+  projectedPercentage: string | null;
 }
 
 export class InspectionTargetStatsResponseDto {
   @ApiProperty({
-    description: 'Inspection target statistics for all time',
+    description: 'Inspection target statistics for this year',
     type: InspectionTargetStatsItemDto,
-    required: false,
   })
-  allTime?: InspectionTargetStatsItemDto;
+  thisYear: InspectionTargetStatsItemDto;
 
   @ApiProperty({
     description: 'Inspection target statistics for this month',
     type: InspectionTargetStatsItemDto,
-    required: false,
   })
-  thisMonth?: InspectionTargetStatsItemDto;
+  thisMonth: InspectionTargetStatsItemDto;
 
   @ApiProperty({
     description: 'Inspection target statistics for this week',
     type: InspectionTargetStatsItemDto,
-    required: false,
   })
-  thisWeek?: InspectionTargetStatsItemDto;
+  thisWeek: InspectionTargetStatsItemDto;
 
   @ApiProperty({
     description: 'Inspection target statistics for today',
     type: InspectionTargetStatsItemDto,
-    required: false,
-  })
-  today?: InspectionTargetStatsItemDto;
-
-  @ApiProperty({
-    description: 'Inspection target statistics for this year',
-    type: InspectionTargetStatsItemDto,
-    required: false,
   })
-  thisYear?: InspectionTargetStatsItemDto;
+  today: InspectionTargetStatsItemDto;
 }
@@ -24,18 +24,29 @@ export class InspectionTargetDto {
   targetValue: number;
 
   @ApiProperty({
-    description: 'The period for which the target is set (month, week, or day)',
+    description:
+      'The period for which the target is set (year, month, week, or day)',
     enum: TargetPeriod,
     example: TargetPeriod.MONTH,
   })
   period: TargetPeriod;
 
   @ApiProperty({
-    description: 'The date for which the target is set (YYYY-MM-DD)',
+    description:
+      'First day of the period the target is set for (YYYY-MM-DD; weeks start on Monday)',
     example: '2025-05-01T00:00:00.000Z',
   })
   targetDate: Date;
 
+  @ApiProperty({
+    description:
+      'Branch city the target applies to (null for a target covering all branches)',
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    nullable: true,
+    type: String,
+  })
+  branchCityId: string | null;
+
   @ApiProperty({
     description: 'Timestamp when the target was created',
     example: '2025-05-28T10:00:00.000Z',
@@ -42,4 +42,11 @@ export class MainStatsResponseDto {
     example: 40,
   })
   deactivated: number;
+
+  @ApiProperty({
+    description:
+      'Revenue in whole Rupiah from payments settled in the period (refunds excluded)',
+    example: 35000000,
+  })
+  revenue: number;
 }
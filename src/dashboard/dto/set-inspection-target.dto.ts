@@ -7,13 +7,23 @@
  * Description: Data Transfer Object for setting inspection targets.
  * --------------------------------------------------------------------------
  */
-import { IsEnum, IsInt, IsNotEmpty, Min } from 'class-validator';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { TargetPeriod } from '@prisma/client';
 
 export class SetInspectionTargetDto {
   @ApiProperty({
-    description: 'The period for which the target is set (month, week, or day)',
+    description:
+      'The period for which the target is set (year, month, week, or day)',
     enum: TargetPeriod,
     example: TargetPeriod.MONTH,
   })
@@ -30,4 +40,37 @@ export class SetInspectionTargetDto {
   @IsInt()
   @Min(0)
   targetValue: number;
+
+  @ApiProperty({
+    description:
+      'Any date within the period (YYYY-MM-DD). Stored as the first day of the period (weeks start on Monday). Defaults to today in the given timezone.',
+    example: '2025-05-14',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString(
+    {},
+    { message: 'targetDate must be a valid date string in YYYY-MM-DD format' },
+  )
+  targetDate?: string;
+
+  @ApiProperty({
+    description:
+      'Branch city the target applies to. Omit for a target covering all branches.',
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  branchCityId?: string;
+
+  @ApiProperty({
+    description:
+      'Timezone used to determine today when targetDate is omitted. Defaults to "Asia/Jakarta".',
+    example: 'Asia/Jakarta',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'timezone must be a string' })
+  timezone?: string = 'Asia/Jakarta';
 }
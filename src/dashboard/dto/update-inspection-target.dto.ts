@@ -0,0 +1,16 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-inspection-target.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for changing the value of an inspection target.
+ * --------------------------------------------------------------------------
+ */
+import { PickType } from '@nestjs/mapped-types';
+import { SetInspectionTargetDto } from './set-inspection-target.dto';
+
+export class UpdateInspectionTargetDto extends PickType(
+  SetInspectionTargetDto,
+  ['targetValue'],
+) {}
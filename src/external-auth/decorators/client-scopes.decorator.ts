@@ -0,0 +1,28 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: client-scopes.decorator.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Custom decorator declaring the OAuth scopes a partner route
+ * requires. Read by ClientCredentialsGuard.
+ * --------------------------------------------------------------------------
+ */
+
+import { SetMetadata } from '@nestjs/common';
+import { OAuthScope } from '../interfaces/client-token-payload.interface';
+
+/**
+ * Constant key used by Reflector to store and retrieve the scopes metadata.
+ */
+export const CLIENT_SCOPES_KEY = 'clientScopes';
+
+/**
+ * `@ClientScopes(...scopes)` decorator factory function.
+ * Attaches the scopes an access token must all have to the method or class.
+ *
+ * @param {...OAuthScope[]} scopes - One or more required scopes.
+ * @example @ClientScopes('pdf:download')
+ */
+export const ClientScopes = (...scopes: OAuthScope[]) =>
+  SetMetadata(CLIENT_SCOPES_KEY, scopes);
@@ -0,0 +1,25 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: get-client.decorator.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Custom parameter decorator extracting the OAuth client
+ * authenticated by ClientCredentialsGuard from the request.
+ * --------------------------------------------------------------------------
+ */
+
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedClient } from '../interfaces/client-token-payload.interface';
+
+/**
+ * `@GetClient()` parameter decorator.
+ * Returns `request.oauthClient`, set by ClientCredentialsGuard.
+ *
+ * @example async findOne(@GetClient() client: AuthenticatedClient) {}
+ */
+export const GetClient = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuthenticatedClient | undefined =>
+    ctx.switchToHttp().getRequest<{ oauthClient?: AuthenticatedClient }>()
+      .oauthClient,
+);
@@ -0,0 +1,60 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: create-oauth-client.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for registering the OAuth client of a
+ * partner system.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  OAUTH_SCOPES,
+  OAuthScope,
+} from '../interfaces/client-token-payload.interface';
+
+export class CreateOAuthClientDto {
+  @ApiProperty({
+    description: 'Name of the partner system',
+    example: 'Leasing partner portal',
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Scopes the client may request',
+    enum: OAUTH_SCOPES,
+    isArray: true,
+    example: ['inspections:read'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(OAUTH_SCOPES, { each: true })
+  scopes: OAuthScope[];
+
+  @ApiProperty({
+    description:
+      'Branch cities whose inspections the client may read. Omit or leave empty for all branches.',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  allowedBranchIds?: string[];
+}
@@ -0,0 +1,54 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: introspection-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Response of the OAuth2 token introspection endpoint
+ * (RFC 7662 section 2.2). Only `active` is set for an inactive token.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { ClientTokenPayload } from '../interfaces/client-token-payload.interface';
+
+export class IntrospectionResponseDto {
+  @ApiProperty({ description: 'Whether the token can be used', example: true })
+  active: boolean;
+
+  @ApiProperty({ required: false, example: 'inspections:read' })
+  scope?: string;
+
+  @ApiProperty({ required: false, example: 'cdc_5f0c3a9e1b2d4c6e8f7a9b0c' })
+  client_id?: string;
+
+  @ApiProperty({ required: false, example: 'Bearer' })
+  token_type?: string;
+
+  @ApiProperty({ required: false, description: 'Expiry (seconds since epoch)' })
+  exp?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Issued at (seconds since epoch)',
+  })
+  iat?: number;
+
+  @ApiProperty({ required: false })
+  sub?: string;
+
+  @ApiProperty({ required: false })
+  jti?: string;
+
+  constructor(payload?: ClientTokenPayload) {
+    this.active = !!payload;
+    if (!payload) return;
+    this.scope = payload.scope;
+    this.client_id = payload.sub;
+    this.token_type = 'Bearer';
+    this.exp = payload.exp;
+    this.iat = payload.iat;
+    this.sub = payload.sub;
+    this.jti = payload.jti;
+  }
+}
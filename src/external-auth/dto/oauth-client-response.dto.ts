@@ -0,0 +1,77 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: oauth-client-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: DTOs describing an OAuth client (never its secret, except once
+ * right after registration or rotation).
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { OAuthClient } from '@prisma/client';
+import { OAUTH_SCOPES } from '../interfaces/client-token-payload.interface';
+
+export class OAuthClientResponseDto {
+  @ApiProperty({ example: 'c1d2e3f4-a5b6-7890-1234-567890abcdef' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Public client ID used at the token endpoint',
+    example: 'cdc_5f0c3a9e1b2d4c6e8f7a9b0c',
+  })
+  clientId: string;
+
+  @ApiProperty({ example: 'Leasing partner portal' })
+  name: string;
+
+  @ApiProperty({ enum: OAUTH_SCOPES, isArray: true })
+  scopes: string[];
+
+  @ApiProperty({
+    description: 'Branch cities the client may read; empty: all',
+    type: [String],
+  })
+  allowedBranchIds: string[];
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({ nullable: true, example: '2025-08-18T08:30:00.000Z' })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ example: '2025-08-01T10:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-08-01T10:00:00.000Z' })
+  updatedAt: Date;
+
+  constructor(client: OAuthClient) {
+    this.id = client.id;
+    this.clientId = client.clientId;
+    this.name = client.name;
+    this.scopes = client.scopes;
+    this.allowedBranchIds = client.allowedBranchIds;
+    this.isActive = client.isActive;
+    this.lastUsedAt = client.lastUsedAt;
+    this.createdAt = client.createdAt;
+    this.updatedAt = client.updatedAt;
+    // Explicitly excluded: secretHash
+  }
+}
+
+export class OAuthClientCredentialsResponseDto extends OAuthClientResponseDto {
+  /**
+   * The client secret. Only returned once.
+   */
+  @ApiProperty({
+    description: 'Client secret. Store it now: it cannot be retrieved later.',
+  })
+  clientSecret: string;
+
+  constructor(client: OAuthClient, clientSecret: string) {
+    super(client);
+    this.clientSecret = clientSecret;
+  }
+}
@@ -0,0 +1,51 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: token-request.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for the OAuth2 token endpoint (client
+ * credentials grant, RFC 6749 section 4.4). Field names follow the RFC. The
+ * client credentials may be sent here or with HTTP Basic authentication.
+ * --------------------------------------------------------------------------
+ */
+
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TokenRequestDto {
+  @ApiProperty({
+    description: 'Only "client_credentials" is supported',
+    example: 'client_credentials',
+  })
+  @IsNotEmpty()
+  @IsString()
+  grant_type: string;
+
+  @ApiProperty({
+    description: 'Client ID (unless sent with HTTP Basic authentication)',
+    example: 'cdc_5f0c3a9e1b2d4c6e8f7a9b0c',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @ApiProperty({
+    description: 'Client secret (unless sent with HTTP Basic authentication)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+
+  @ApiProperty({
+    description:
+      'Requested scopes, space-separated. Omit for all scopes of the client.',
+    example: 'inspections:read pdf:download',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  scope?: string;
+}
@@ -0,0 +1,36 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: token-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Successful response of the OAuth2 token endpoint
+ * (RFC 6749 section 5.1).
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TokenResponseDto {
+  @ApiProperty({ description: 'JWT to send as "Authorization: Bearer ..."' })
+  access_token: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  token_type: 'Bearer';
+
+  @ApiProperty({ description: 'Lifetime in seconds', example: 3600 })
+  expires_in: number;
+
+  @ApiProperty({
+    description: 'Granted scopes, space-separated',
+    example: 'inspections:read pdf:download',
+  })
+  scope: string;
+
+  constructor(accessToken: string, expiresIn: number, scope: string) {
+    this.access_token = accessToken;
+    this.token_type = 'Bearer';
+    this.expires_in = expiresIn;
+    this.scope = scope;
+  }
+}
@@ -0,0 +1,40 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: token.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for token introspection (RFC 7662) and
+ * revocation (RFC 7009). The calling client authenticates like at the token
+ * endpoint.
+ * --------------------------------------------------------------------------
+ */
+
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TokenDto {
+  @ApiProperty({ description: 'The access token' })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @ApiProperty({
+    description: 'Hint about the token type; only access tokens exist',
+    example: 'access_token',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  token_type_hint?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
@@ -0,0 +1,24 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-oauth-client.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for changing an OAuth client. All fields
+ * are optional; `isActive: false` stops the client and its tokens at once.
+ * --------------------------------------------------------------------------
+ */
+
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { CreateOAuthClientDto } from './create-oauth-client.dto';
+
+export class UpdateOAuthClientDto extends PartialType(CreateOAuthClientDto) {
+  @ApiProperty({
+    description: 'Whether the client may obtain and use tokens',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,4 +1,40 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: external-auth.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for machine-to-machine access of partner
+ * systems: OAuth2 client registration (admin), the client credentials token
+ * endpoint with introspection and revocation, and ClientCredentialsGuard
+ * (exported) to protect partner routes with scopes.
+ * Access tokens are signed with OAUTH_JWT_SECRET (default: JWT_SECRET).
+ * --------------------------------------------------------------------------
+ */
+
 import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { OAuthController } from './oauth.controller';
+import { OAuthClientsController } from './oauth-clients.controller';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthTokensService } from './oauth-tokens.service';
+import { ClientCredentialsGuard } from './guards/client-credentials.guard';
 
-@Module({})
+@Module({
+  imports: [
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret:
+          configService.get<string>('OAUTH_JWT_SECRET') ??
+          configService.get<string>('JWT_SECRET'),
+      }),
+    }),
+  ],
+  controllers: [OAuthController, OAuthClientsController],
+  providers: [OAuthClientsService, OAuthTokensService, ClientCredentialsGuard],
+  exports: [OAuthTokensService, ClientCredentialsGuard],
+})
 export class ExternalAuthModule {}
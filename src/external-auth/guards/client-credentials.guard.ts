@@ -0,0 +1,82 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: client-credentials.guard.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Guard for partner routes. Requires an access token issued to
+ * an OAuth client (client credentials grant) as bearer token, and checks it
+ * against the scopes of the route (@ClientScopes). The client is attached to
+ * `request.oauthClient`.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { OAuthTokensService } from '../oauth-tokens.service';
+import { CLIENT_SCOPES_KEY } from '../decorators/client-scopes.decorator';
+import {
+  AuthenticatedClient,
+  OAuthScope,
+} from '../interfaces/client-token-payload.interface';
+
+@Injectable()
+export class ClientCredentialsGuard implements CanActivate {
+  private readonly logger = new Logger(ClientCredentialsGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly oauthTokens: OAuthTokensService,
+  ) {}
+
+  /**
+   * Authenticates the bearer token of the request and checks its scopes.
+   *
+   * @param {ExecutionContext} context - Provides access to the request and handler/class metadata.
+   * @returns {Promise<boolean>} True if the request may proceed.
+   * @throws {UnauthorizedException} If the token is missing, invalid, expired or revoked.
+   * @throws {ForbiddenException} If the token lacks a scope required by the route.
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { oauthClient?: AuthenticatedClient }>();
+    const [type, token] = request.header('authorization')?.split(' ') ?? [];
+    if (type !== 'Bearer' || !token) {
+      throw new UnauthorizedException('Client access token required.');
+    }
+
+    const client = await this.oauthTokens.verify(token);
+    if (!client) {
+      throw new UnauthorizedException('Invalid or expired access token.');
+    }
+
+    const requiredScopes =
+      this.reflector.getAllAndOverride<OAuthScope[]>(CLIENT_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const missing = requiredScopes.filter(
+      (scope) => !client.scopes.includes(scope),
+    );
+    if (missing.length > 0) {
+      this.logger.warn(
+        `OAuth client ${client.clientId} lacks scope(s) ${missing.join(' ')}`,
+      );
+      throw new ForbiddenException(
+        `Access token lacks the required scope(s): ${missing.join(' ')}.`,
+      );
+    }
+
+    request.oauthClient = client;
+    return true;
+  }
+}
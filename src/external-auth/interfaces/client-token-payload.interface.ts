@@ -0,0 +1,60 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: client-token-payload.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Scopes of the partner API and the structure of the access
+ * tokens issued to OAuth clients by the client credentials grant, plus the
+ * client attached to requests authenticated with such a token.
+ * --------------------------------------------------------------------------
+ */
+
+/**
+ * Scopes an OAuth client can be allowed and request.
+ */
+export const OAUTH_SCOPES = ['inspections:read', 'pdf:download'] as const;
+
+export type OAuthScope = (typeof OAUTH_SCOPES)[number];
+
+export interface ClientTokenPayload {
+  /**
+   * Public client ID (Subject of the token). Standard JWT claim 'sub'.
+   */
+  sub: string;
+
+  /**
+   * Granted scopes, space-separated (RFC 6749 format).
+   */
+  scope: string;
+
+  /**
+   * Token ID, used for introspection and revocation. Standard JWT claim 'jti'.
+   */
+  jti: string;
+
+  /**
+   * Always 'client_credentials'. User access tokens never carry it, and
+   * JwtStrategy rejects any token that does.
+   */
+  typ: 'client_credentials';
+
+  /**
+   * Issued at / expiry (seconds since epoch), set when the token is signed.
+   */
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * OAuth client attached to `request.oauthClient` by ClientCredentialsGuard.
+ */
+export interface AuthenticatedClient {
+  id: string;
+  clientId: string;
+  name: string;
+  /** Scopes granted to the token used for the request. */
+  scopes: OAuthScope[];
+  /** Branch cities the client may read; empty: all branches. */
+  allowedBranchIds: string[];
+}
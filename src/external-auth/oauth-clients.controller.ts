@@ -0,0 +1,208 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: oauth-clients.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Admin endpoints to register and manage the OAuth clients of
+ * partner systems (dealers, leasing companies, ...): allowed scopes and
+ * branches, activation, secret rotation and removal.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audit } from '../audit-logs/audit.decorator';
+import { OAuthClientsService } from './oauth-clients.service';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { UpdateOAuthClientDto } from './dto/update-oauth-client.dto';
+import {
+  OAuthClientCredentialsResponseDto,
+  OAuthClientResponseDto,
+} from './dto/oauth-client-response.dto';
+
+@ApiTags('OAuth Clients (Admin)')
+@ApiBearerAuth('JwtAuthGuard')
+@Controller('admin/oauth-clients')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPERADMIN)
+export class OAuthClientsController {
+  constructor(private readonly oauthClientsService: OAuthClientsService) {}
+
+  /**
+   * Registers the OAuth client of a partner system.
+   *
+   * @param dto - Name, allowed scopes and branches.
+   * @returns {Promise<OAuthClientCredentialsResponseDto>} The client with its secret (shown once).
+   */
+  @Post()
+  @Audit(AuditAction.OAUTH_CLIENT_CREATED, AuditTargetType.OAUTH_CLIENT)
+  @ApiOperation({ summary: 'Register an OAuth client (Admin Only)' })
+  @ApiBody({ type: CreateOAuthClientDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description:
+      'Client registered. The secret is only shown in this response.',
+    type: OAuthClientCredentialsResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input or unknown branch.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  async create(
+    @Body() dto: CreateOAuthClientDto,
+  ): Promise<OAuthClientCredentialsResponseDto> {
+    const { client, clientSecret } = await this.oauthClientsService.create(dto);
+    return new OAuthClientCredentialsResponseDto(client, clientSecret);
+  }
+
+  /**
+   * Lists all OAuth clients.
+   *
+   * @returns {Promise<OAuthClientResponseDto[]>} The clients, newest first.
+   */
+  @Get()
+  @ApiOperation({ summary: 'List OAuth clients (Admin Only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'OAuth clients.',
+    type: [OAuthClientResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  async findAll(): Promise<OAuthClientResponseDto[]> {
+    const clients = await this.oauthClientsService.findAll();
+    return clients.map((client) => new OAuthClientResponseDto(client));
+  }
+
+  /**
+   * Changes the name, scopes, branches or status of an OAuth client.
+   *
+   * @param id - The client record ID.
+   * @param dto - The fields to change.
+   * @returns {Promise<OAuthClientResponseDto>} The updated client.
+   */
+  @Patch(':id')
+  @Audit(AuditAction.OAUTH_CLIENT_UPDATED, AuditTargetType.OAUTH_CLIENT)
+  @ApiOperation({ summary: 'Update an OAuth client (Admin Only)' })
+  @ApiParam({ name: 'id', description: 'OAuth client ID', format: 'uuid' })
+  @ApiBody({ type: UpdateOAuthClientDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Client updated.',
+    type: OAuthClientResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input or unknown branch.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Client not found.',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateOAuthClientDto,
+  ): Promise<OAuthClientResponseDto> {
+    return new OAuthClientResponseDto(
+      await this.oauthClientsService.update(id, dto),
+    );
+  }
+
+  /**
+   * Issues a new secret for an OAuth client and revokes its tokens.
+   *
+   * @param id - The client record ID.
+   * @returns {Promise<OAuthClientCredentialsResponseDto>} The client with its new secret (shown once).
+   */
+  @Post(':id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  @Audit(AuditAction.OAUTH_CLIENT_SECRET_ROTATED, AuditTargetType.OAUTH_CLIENT)
+  @ApiOperation({
+    summary: 'Rotate the secret of an OAuth client (Admin Only)',
+    description:
+      'The old secret stops working and all tokens of the client are revoked.',
+  })
+  @ApiParam({ name: 'id', description: 'OAuth client ID', format: 'uuid' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'New secret issued.',
+    type: OAuthClientCredentialsResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Client not found.',
+  })
+  async rotateSecret(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<OAuthClientCredentialsResponseDto> {
+    const { client, clientSecret } =
+      await this.oauthClientsService.rotateSecret(id);
+    return new OAuthClientCredentialsResponseDto(client, clientSecret);
+  }
+
+  /**
+   * Removes an OAuth client and its tokens.
+   *
+   * @param id - The client record ID.
+   */
+  @Delete(':id')
+  @Audit(AuditAction.OAUTH_CLIENT_DELETED, AuditTargetType.OAUTH_CLIENT)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove an OAuth client (Admin Only)' })
+  @ApiParam({ name: 'id', description: 'OAuth client ID', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Removed.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Client not found.',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.oauthClientsService.remove(id);
+  }
+}
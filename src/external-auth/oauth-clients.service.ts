@@ -0,0 +1,191 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: oauth-clients.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service managing the OAuth clients of partner systems
+ * (registration, changes, secret rotation, removal) and authenticating them
+ * with their client ID and secret. Only a SHA-256 hash of the secret is
+ * stored; the secret itself is returned once, on registration or rotation.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { OAuthClient } from '@prisma/client';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateOAuthClientDto } from './dto/create-oauth-client.dto';
+import { UpdateOAuthClientDto } from './dto/update-oauth-client.dto';
+
+@Injectable()
+export class OAuthClientsService {
+  private readonly logger = new Logger(OAuthClientsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Registers a partner system.
+   *
+   * @param {CreateOAuthClientDto} dto - Name, allowed scopes and branches.
+   * @returns {Promise<{ client: OAuthClient; clientSecret: string }>} The client and its secret (shown once).
+   * @throws {BadRequestException} If an allowed branch does not exist.
+   */
+  async create(
+    dto: CreateOAuthClientDto,
+  ): Promise<{ client: OAuthClient; clientSecret: string }> {
+    await this.assertBranchesExist(dto.allowedBranchIds ?? []);
+    const clientSecret = this.generateSecret();
+    const client = await this.prisma.oAuthClient.create({
+      data: {
+        clientId: `cdc_${randomBytes(12).toString('hex')}`,
+        secretHash: this.hashSecret(clientSecret),
+        name: dto.name,
+        scopes: [...new Set(dto.scopes)],
+        allowedBranchIds: [...new Set(dto.allowedBranchIds ?? [])],
+      },
+    });
+    this.logger.log(`OAuth client ${client.clientId} registered (${dto.name})`);
+    return { client, clientSecret };
+  }
+
+  /**
+   * Lists all OAuth clients, newest first.
+   *
+   * @returns {Promise<OAuthClient[]>} The clients.
+   */
+  async findAll(): Promise<OAuthClient[]> {
+    return this.prisma.oAuthClient.findMany({ orderBy: { createdAt: 'desc' } });
+  }
+
+  /**
+   * Retrieves an OAuth client.
+   *
+   * @param {string} id - The client record ID.
+   * @returns {Promise<OAuthClient>} The client.
+   * @throws {NotFoundException} If the client does not exist.
+   */
+  async findOne(id: string): Promise<OAuthClient> {
+    const client = await this.prisma.oAuthClient.findUnique({ where: { id } });
+    if (!client) {
+      throw new NotFoundException(`OAuth client with ID "${id}" not found.`);
+    }
+    return client;
+  }
+
+  /**
+   * Changes the name, scopes, branches or status of a client. Tokens already
+   * issued keep their scopes until they expire; deactivating a client stops
+   * them at once.
+   *
+   * @param {string} id - The client record ID.
+   * @param {UpdateOAuthClientDto} dto - The fields to change.
+   * @returns {Promise<OAuthClient>} The updated client.
+   * @throws {NotFoundException} If the client does not exist.
+   * @throws {BadRequestException} If an allowed branch does not exist.
+   */
+  async update(id: string, dto: UpdateOAuthClientDto): Promise<OAuthClient> {
+    await this.findOne(id);
+    if (dto.allowedBranchIds) {
+      await this.assertBranchesExist(dto.allowedBranchIds);
+    }
+    return this.prisma.oAuthClient.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        scopes: dto.scopes && [...new Set(dto.scopes)],
+        allowedBranchIds: dto.allowedBranchIds && [
+          ...new Set(dto.allowedBranchIds),
+        ],
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  /**
+   * Replaces the secret of a client and revokes all its tokens.
+   *
+   * @param {string} id - The client record ID.
+   * @returns {Promise<{ client: OAuthClient; clientSecret: string }>} The client and its new secret (shown once).
+   * @throws {NotFoundException} If the client does not exist.
+   */
+  async rotateSecret(
+    id: string,
+  ): Promise<{ client: OAuthClient; clientSecret: string }> {
+    await this.findOne(id);
+    const clientSecret = this.generateSecret();
+    const [client] = await this.prisma.$transaction([
+      this.prisma.oAuthClient.update({
+        where: { id },
+        data: { secretHash: this.hashSecret(clientSecret) },
+      }),
+      this.prisma.oAuthAccessToken.updateMany({
+        where: { clientId: id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+    this.logger.warn(`Secret of OAuth client ${client.clientId} rotated`);
+    return { client, clientSecret };
+  }
+
+  /**
+   * Removes a client together with its tokens.
+   *
+   * @param {string} id - The client record ID.
+   * @throws {NotFoundException} If the client does not exist.
+   */
+  async remove(id: string): Promise<void> {
+    const client = await this.findOne(id);
+    await this.prisma.oAuthClient.delete({ where: { id } });
+    this.logger.warn(`OAuth client ${client.clientId} removed`);
+  }
+
+  /**
+   * Checks the credentials of a client.
+   *
+   * @param {string} clientId - The public client ID.
+   * @param {string} clientSecret - The client secret.
+   * @returns {Promise<OAuthClient | null>} The client, or null if unknown, inactive or the secret is wrong.
+   */
+  async authenticate(
+    clientId: string,
+    clientSecret: string,
+  ): Promise<OAuthClient | null> {
+    const client = await this.prisma.oAuthClient.findUnique({
+      where: { clientId },
+    });
+    if (!client || !client.isActive) return null;
+    const expected = Buffer.from(client.secretHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(clientSecret), 'hex');
+    return timingSafeEqual(expected, actual) ? client : null;
+  }
+
+  // --- Helpers ---
+
+  private async assertBranchesExist(branchIds: string[]): Promise<void> {
+    if (branchIds.length === 0) return;
+    const found = await this.prisma.inspectionBranchCity.findMany({
+      where: { id: { in: branchIds } },
+      select: { id: true },
+    });
+    const missing = branchIds.filter((id) => !found.some((b) => b.id === id));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Unknown branch city ID(s): ${missing.join(', ')}.`,
+      );
+    }
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -0,0 +1,110 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: oauth-tokens.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for OAuthTokensService: scopes granted by the
+ * client credentials grant, rejection of revoked and user tokens, and
+ * introspection limited to the caller's own tokens.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { OAuthAccessToken, OAuthClient, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OAuthTokensService } from './oauth-tokens.service';
+
+describe('OAuthTokensService', () => {
+  let service: OAuthTokensService;
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const client = {
+    id: 'client-1',
+    clientId: 'cdc_partner',
+    name: 'Leasing partner',
+    scopes: ['inspections:read', 'pdf:download'],
+    allowedBranchIds: ['branch-1'],
+    isActive: true,
+  } as OAuthClient;
+  let token: (OAuthAccessToken & { client: OAuthClient }) | null;
+  const prisma = {
+    oAuthAccessToken: {
+      create: jest.fn((args: Prisma.OAuthAccessTokenCreateArgs) => {
+        token = {
+          ...(args.data as OAuthAccessToken),
+          revokedAt: null,
+          client,
+        };
+        return token;
+      }),
+      deleteMany: jest.fn(),
+      findUnique: jest.fn(() => Promise.resolve(token)),
+      updateMany: jest.fn(),
+    },
+    oAuthClient: { update: jest.fn() },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    token = null;
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthTokensService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: JwtService, useValue: jwtService },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<OAuthTokensService>(OAuthTokensService);
+  });
+
+  it('grants the requested scopes and rejects scopes the client lacks', async () => {
+    const response = await service.issue(client, 'pdf:download');
+
+    expect(response.token_type).toBe('Bearer');
+    expect(response.expires_in).toBe(3600);
+    expect(response.scope).toBe('pdf:download');
+    await expect(service.verify(response.access_token)).resolves.toEqual({
+      id: 'client-1',
+      clientId: 'cdc_partner',
+      name: 'Leasing partner',
+      scopes: ['pdf:download'],
+      allowedBranchIds: ['branch-1'],
+    });
+    await expect(service.issue(client, 'users:write')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects revoked tokens and user access tokens', async () => {
+    const { access_token } = await service.issue(client);
+    token = { ...token!, revokedAt: new Date() };
+
+    await expect(service.verify(access_token)).resolves.toBeNull();
+    const userToken = await jwtService.signAsync({
+      sub: 'user-1',
+      role: 'ADMIN',
+    });
+    await expect(service.verify(userToken)).resolves.toBeNull();
+  });
+
+  it('reports tokens of other clients as inactive on introspection', async () => {
+    const { access_token } = await service.issue(client);
+
+    await expect(service.introspect(access_token, client)).resolves.toEqual(
+      expect.objectContaining({
+        active: true,
+        client_id: 'cdc_partner',
+        scope: 'inspections:read pdf:download',
+      }),
+    );
+    await expect(
+      service.introspect(access_token, { ...client, id: 'client-2' }),
+    ).resolves.toEqual({ active: false });
+  });
+});
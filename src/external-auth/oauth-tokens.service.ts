@@ -0,0 +1,195 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: oauth-tokens.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: OAuth2 token service for partner systems: issues scoped access
+ * tokens (JWT) with the client credentials grant, verifies them for
+ * ClientCredentialsGuard, and implements token introspection (RFC 7662) and
+ * revocation (RFC 7009). Every token is recorded by its `jti`.
+ * --------------------------------------------------------------------------
+ */
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { OAuthClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  AuthenticatedClient,
+  ClientTokenPayload,
+  OAuthScope,
+} from './interfaces/client-token-payload.interface';
+import { TokenResponseDto } from './dto/token-response.dto';
+import { IntrospectionResponseDto } from './dto/introspection-response.dto';
+
+// Expired token records are deleted this long after they expire
+const EXPIRED_TOKEN_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class OAuthTokensService {
+  private readonly logger = new Logger(OAuthTokensService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Issues an access token to an authenticated client (client credentials grant).
+   *
+   * @param {OAuthClient} client - The authenticated client.
+   * @param {string} [scope] - Requested scopes, space-separated. Defaults to all scopes of the client.
+   * @returns {Promise<TokenResponseDto>} The token response (RFC 6749 section 5.1).
+   * @throws {BadRequestException} `invalid_scope` if a scope is not allowed for the client.
+   */
+  async issue(client: OAuthClient, scope?: string): Promise<TokenResponseDto> {
+    const requested = scope?.split(' ').filter(Boolean) ?? [];
+    const denied = requested.filter((s) => !client.scopes.includes(s));
+    if (denied.length > 0) {
+      throw new BadRequestException({
+        error: 'invalid_scope',
+        error_description: `Scope(s) not allowed for this client: ${denied.join(' ')}`,
+      });
+    }
+    const scopes =
+      requested.length > 0 ? [...new Set(requested)] : client.scopes;
+
+    const ttlSeconds = Number(
+      this.config.get<string>('OAUTH_ACCESS_TOKEN_TTL_SECONDS') ?? 3600,
+    );
+    const now = new Date();
+    const jti = randomUUID();
+    await this.prisma.$transaction([
+      this.prisma.oAuthAccessToken.create({
+        data: {
+          id: jti,
+          clientId: client.id,
+          scopes,
+          expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+        },
+      }),
+      this.prisma.oAuthAccessToken.deleteMany({
+        where: {
+          clientId: client.id,
+          expiresAt: {
+            lt: new Date(now.getTime() - EXPIRED_TOKEN_RETENTION_MS),
+          },
+        },
+      }),
+      this.prisma.oAuthClient.update({
+        where: { id: client.id },
+        data: { lastUsedAt: now },
+      }),
+    ]);
+
+    const payload: ClientTokenPayload = {
+      sub: client.clientId,
+      scope: scopes.join(' '),
+      jti,
+      typ: 'client_credentials',
+    };
+    const accessToken = await this.jwtService.signAsync(payload, {
+      expiresIn: ttlSeconds,
+    });
+    this.logger.log(
+      `Access token ${jti} issued to OAuth client ${client.clientId} (${payload.scope})`,
+    );
+    return new TokenResponseDto(accessToken, ttlSeconds, payload.scope);
+  }
+
+  /**
+   * Resolves the client of an access token sent to a partner route.
+   *
+   * @param {string} token - The bearer token.
+   * @returns {Promise<AuthenticatedClient | null>} The client with the granted scopes, or null if the token is invalid, expired, revoked or its client inactive.
+   */
+  async verify(token: string): Promise<AuthenticatedClient | null> {
+    const payload = await this.decode(token);
+    if (!payload) return null;
+
+    const record = await this.prisma.oAuthAccessToken.findUnique({
+      where: { id: payload.jti },
+      include: { client: true },
+    });
+    if (
+      !record ||
+      record.revokedAt ||
+      !record.client.isActive ||
+      record.client.clientId !== payload.sub
+    ) {
+      return null;
+    }
+    return {
+      id: record.client.id,
+      clientId: record.client.clientId,
+      name: record.client.name,
+      scopes: record.scopes as OAuthScope[],
+      allowedBranchIds: record.client.allowedBranchIds,
+    };
+  }
+
+  /**
+   * Token introspection (RFC 7662). A client can only introspect its own tokens;
+   * tokens of other clients are reported inactive.
+   *
+   * @param {string} token - The token to inspect.
+   * @param {OAuthClient} caller - The authenticated client asking.
+   * @returns {Promise<IntrospectionResponseDto>} `active: false`, or the claims of the active token.
+   */
+  async introspect(
+    token: string,
+    caller: OAuthClient,
+  ): Promise<IntrospectionResponseDto> {
+    const client = await this.verify(token);
+    const payload = client && (await this.decode(token));
+    if (!client || !payload || client.id !== caller.id) {
+      return new IntrospectionResponseDto();
+    }
+    return new IntrospectionResponseDto(payload);
+  }
+
+  /**
+   * Token revocation (RFC 7009). Revoking an unknown, expired or foreign token
+   * is not an error.
+   *
+   * @param {string} token - The token to revoke.
+   * @param {OAuthClient} caller - The authenticated client asking.
+   */
+  async revoke(token: string, caller: OAuthClient): Promise<void> {
+    const payload = await this.decode(token, true);
+    if (!payload) return;
+    const { count } = await this.prisma.oAuthAccessToken.updateMany({
+      where: { id: payload.jti, clientId: caller.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count > 0) {
+      this.logger.log(
+        `Access token ${payload.jti} revoked by OAuth client ${caller.clientId}`,
+      );
+    }
+  }
+
+  // --- Helpers ---
+
+  private async decode(
+    token: string,
+    ignoreExpiration = false,
+  ): Promise<ClientTokenPayload | null> {
+    try {
+      const payload = await this.jwtService.verifyAsync<ClientTokenPayload>(
+        token,
+        { ignoreExpiration },
+      );
+      // User access tokens are signed too, but never carry this type
+      return payload.typ === 'client_credentials' && payload.jti
+        ? payload
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: oauth.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: OAuth2 endpoints for partner systems: token endpoint (client
+ * credentials grant), token introspection and token revocation. Clients
+ * authenticate with HTTP Basic or with client_id/client_secret in the body
+ * (JSON or form-encoded). Errors use the RFC 6749 `error` codes.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ApiBasicAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { OAuthClient } from '@prisma/client';
+import { Request } from 'express';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthTokensService } from './oauth-tokens.service';
+import { TokenRequestDto } from './dto/token-request.dto';
+import { TokenDto } from './dto/token.dto';
+import { TokenResponseDto } from './dto/token-response.dto';
+import { IntrospectionResponseDto } from './dto/introspection-response.dto';
+
+@ApiTags('OAuth2 (Partners)')
+@ApiBasicAuth('OAuthClient')
+@ApiConsumes('application/x-www-form-urlencoded', 'application/json')
+@Controller('oauth')
+export class OAuthController {
+  constructor(
+    private readonly oauthClients: OAuthClientsService,
+    private readonly oauthTokens: OAuthTokensService,
+  ) {}
+
+  /**
+   * Issues an access token with the client credentials grant.
+   *
+   * @param req - The request (for HTTP Basic credentials).
+   * @param dto - Grant type, client credentials and requested scopes.
+   * @returns {Promise<TokenResponseDto>} The access token.
+   */
+  @Post('token')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @ApiOperation({
+    summary: 'Obtain an access token (client credentials grant)',
+    description:
+      'Returns a JWT for the partner routes. Requested scopes must be allowed for the client.',
+  })
+  @ApiBody({ type: TokenRequestDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Access token issued.',
+    type: TokenResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'unsupported_grant_type or invalid_scope.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'invalid_client: unknown client, wrong secret or inactive.',
+  })
+  async token(
+    @Req() req: Request,
+    @Body() dto: TokenRequestDto,
+  ): Promise<TokenResponseDto> {
+    if (dto.grant_type !== 'client_credentials') {
+      throw new BadRequestException({
+        error: 'unsupported_grant_type',
+        error_description: 'Only the client_credentials grant is supported.',
+      });
+    }
+    const client = await this.authenticateClient(req, dto);
+    return this.oauthTokens.issue(client, dto.scope);
+  }
+
+  /**
+   * Token introspection (RFC 7662), for the client's own tokens.
+   *
+   * @param req - The request (for HTTP Basic credentials).
+   * @param dto - The token and the client credentials.
+   * @returns {Promise<IntrospectionResponseDto>} Whether the token is active, and its claims.
+   */
+  @Post('introspect')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @ApiOperation({ summary: 'Introspect an access token' })
+  @ApiBody({ type: TokenDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Token state.',
+    type: IntrospectionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'invalid_client.',
+  })
+  async introspect(
+    @Req() req: Request,
+    @Body() dto: TokenDto,
+  ): Promise<IntrospectionResponseDto> {
+    const client = await this.authenticateClient(req, dto);
+    return this.oauthTokens.introspect(dto.token, client);
+  }
+
+  /**
+   * Token revocation (RFC 7009), for the client's own tokens.
+   *
+   * @param req - The request (for HTTP Basic credentials).
+   * @param dto - The token and the client credentials.
+   */
+  @Post('revoke')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke an access token',
+    description: 'Succeeds also for unknown or already invalid tokens.',
+  })
+  @ApiBody({ type: TokenDto })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Token revoked.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'invalid_client.',
+  })
+  async revoke(@Req() req: Request, @Body() dto: TokenDto): Promise<void> {
+    const client = await this.authenticateClient(req, dto);
+    await this.oauthTokens.revoke(dto.token, client);
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Authenticates the calling client with HTTP Basic (client_secret_basic)
+   * or body parameters (client_secret_post).
+   */
+  private async authenticateClient(
+    req: Request,
+    body: { client_id?: string; client_secret?: string },
+  ): Promise<OAuthClient> {
+    let clientId = body.client_id;
+    let clientSecret = body.client_secret;
+    const [type, credentials] = req.header('authorization')?.split(' ') ?? [];
+    if (type === 'Basic' && credentials) {
+      const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator > 0) {
+        clientId = decodeURIComponent(decoded.slice(0, separator));
+        clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+      }
+    }
+
+    const client =
+      clientId && clientSecret
+        ? await this.oauthClients.authenticate(clientId, clientSecret)
+        : null;
+    if (!client) {
+      throw new UnauthorizedException({
+        error: 'invalid_client',
+        error_description: 'Client authentication failed.',
+      });
+    }
+    return client;
+  }
+}
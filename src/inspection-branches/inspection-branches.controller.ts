@@ -34,7 +34,8 @@ import {
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
-import { Role } from '@prisma/client';
+import { Audit } from '../audit-logs/audit.decorator';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
 import { InspectionBranchesService } from './inspection-branches.service';
 import { CreateInspectionBranchCityDto } from './dto/create-inspection-branch-city.dto';
 import { UpdateInspectionBranchCityDto } from './dto/update-inspection-branch-city.dto';
@@ -59,6 +60,10 @@ export class InspectionBranchesController {
    * @throws ForbiddenException if the user does not have the required role.
    */
   @Post()
+  @Audit(
+    AuditAction.BRANCH_CITY_CREATED,
+    AuditTargetType.INSPECTION_BRANCH_CITY,
+  )
   @Throttle({ default: { limit: 60, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -150,6 +155,10 @@ export class InspectionBranchesController {
    * @throws NotFoundException if the inspection branch city is not found.
    */
   @Put(':id')
+  @Audit(
+    AuditAction.BRANCH_CITY_UPDATED,
+    AuditTargetType.INSPECTION_BRANCH_CITY,
+  )
   @Throttle({ default: { limit: 60, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -204,6 +213,10 @@ export class InspectionBranchesController {
    * @throws NotFoundException if the inspection branch city is not found.
    */
   @Delete(':id')
+  @Audit(
+    AuditAction.BRANCH_CITY_DELETED,
+    AuditTargetType.INSPECTION_BRANCH_CITY,
+  )
   @Throttle({ default: { limit: 60, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -246,6 +259,10 @@ export class InspectionBranchesController {
    * @throws NotFoundException if the inspection branch city is not found.
    */
   @Patch(':id/toggle-active')
+  @Audit(
+    AuditAction.BRANCH_CITY_TOGGLED,
+    AuditTargetType.INSPECTION_BRANCH_CITY,
+  )
   @Throttle({ default: { limit: 4, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -0,0 +1,89 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: create-inspection-price.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for adding an inspection price for a
+ * vehicle class, either as the default price or for a single branch city.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { VehicleClass } from '@prisma/client';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Length,
+  Min,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object for creating an inspection price.
+ */
+export class CreateInspectionPriceDto {
+  /**
+   * The vehicle class the price applies to.
+   * @example 'REGULAR'
+   */
+  @ApiProperty({
+    enum: VehicleClass,
+    example: VehicleClass.REGULAR,
+    description: 'Vehicle class the price applies to',
+  })
+  @IsEnum(VehicleClass)
+  vehicleClass: VehicleClass;
+
+  /**
+   * Branch city the price applies to. Omit to set the default price used by
+   * branches without their own price.
+   */
+  @ApiProperty({
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    description:
+      'Branch city the price applies to. Omit to set the default price for all branches.',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  inspectionBranchCityId?: string;
+
+  /**
+   * The price in whole Rupiah.
+   * @example 350000
+   */
+  @ApiProperty({ example: 350000, description: 'Price in whole Rupiah' })
+  @IsInt()
+  @Min(0)
+  amount: number;
+
+  /**
+   * ISO 4217 currency code.
+   * @example 'IDR'
+   */
+  @ApiProperty({
+    example: 'IDR',
+    description: 'ISO 4217 currency code',
+    required: false,
+    default: 'IDR',
+  })
+  @IsOptional()
+  @Length(3, 3)
+  currency?: string;
+
+  /**
+   * Whether the price can be used for new orders.
+   * @example true
+   */
+  @ApiProperty({
+    example: true,
+    description: 'Whether the price can be used for new orders',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
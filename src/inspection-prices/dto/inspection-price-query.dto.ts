@@ -0,0 +1,57 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: inspection-price-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Query DTOs for listing inspection prices and for quoting the
+ * price of an inspection.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { VehicleClass } from '@prisma/client';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+
+/**
+ * Filters for listing inspection prices.
+ */
+export class InspectionPriceQueryDto {
+  @ApiProperty({
+    enum: VehicleClass,
+    required: false,
+    description: 'Only return prices for this vehicle class',
+  })
+  @IsOptional()
+  @IsEnum(VehicleClass)
+  vehicleClass?: VehicleClass;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Only return prices for this branch city (default prices are always included)',
+  })
+  @IsOptional()
+  @IsUUID()
+  inspectionBranchCityId?: string;
+}
+
+/**
+ * Parameters for quoting the price of an inspection.
+ */
+export class InspectionPriceQuoteQueryDto {
+  @ApiProperty({
+    enum: VehicleClass,
+    example: VehicleClass.REGULAR,
+    description: 'Vehicle class to quote',
+  })
+  @IsEnum(VehicleClass)
+  vehicleClass: VehicleClass;
+
+  @ApiProperty({
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    description: 'Branch city performing the inspection',
+  })
+  @IsUUID()
+  inspectionBranchCityId: string;
+}
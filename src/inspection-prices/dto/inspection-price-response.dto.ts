@@ -0,0 +1,55 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: inspection-price-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) returned for inspection prices.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { InspectionPrice, VehicleClass } from '@prisma/client';
+
+/**
+ * Data Transfer Object for an inspection price.
+ */
+export class InspectionPriceResponseDto {
+  @ApiProperty({ description: 'Price ID (UUID)' })
+  id: string;
+
+  @ApiProperty({ enum: VehicleClass, example: VehicleClass.REGULAR })
+  vehicleClass: VehicleClass;
+
+  @ApiProperty({
+    description: 'Branch city of the price; null for the default price',
+    nullable: true,
+  })
+  inspectionBranchCityId: string | null;
+
+  @ApiProperty({ example: 350000, description: 'Price in whole Rupiah' })
+  amount: number;
+
+  @ApiProperty({ example: 'IDR' })
+  currency: string;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: Date;
+
+  constructor(price: InspectionPrice) {
+    this.id = price.id;
+    this.vehicleClass = price.vehicleClass;
+    this.inspectionBranchCityId = price.inspectionBranchCityId;
+    this.amount = price.amount;
+    this.currency = price.currency;
+    this.isActive = price.isActive;
+    this.createdAt = price.createdAt;
+    this.updatedAt = price.updatedAt;
+  }
+}
@@ -0,0 +1,21 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-inspection-price.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for changing an inspection price.
+ * The vehicle class and branch city of a price cannot be changed; add a new
+ * price instead.
+ * --------------------------------------------------------------------------
+ */
+
+import { PartialType, PickType } from '@nestjs/mapped-types';
+import { CreateInspectionPriceDto } from './create-inspection-price.dto';
+
+/**
+ * Data Transfer Object for updating an inspection price.
+ */
+export class UpdateInspectionPriceDto extends PartialType(
+  PickType(CreateInspectionPriceDto, ['amount', 'currency', 'isActive']),
+) {}
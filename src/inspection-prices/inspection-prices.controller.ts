@@ -0,0 +1,244 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: inspection-prices.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for the inspection price list.
+ * Admins manage prices per vehicle class and branch city; any authenticated
+ * user can request a quote.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { InspectionPricesService } from './inspection-prices.service';
+import { CreateInspectionPriceDto } from './dto/create-inspection-price.dto';
+import { UpdateInspectionPriceDto } from './dto/update-inspection-price.dto';
+import {
+  InspectionPriceQueryDto,
+  InspectionPriceQuoteQueryDto,
+} from './dto/inspection-price-query.dto';
+import { InspectionPriceResponseDto } from './dto/inspection-price-response.dto';
+
+@ApiTags('Inspection Prices')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('inspection-prices') // Base path: /api/v1/inspection-prices
+export class InspectionPricesController {
+  constructor(
+    private readonly inspectionPricesService: InspectionPricesService,
+  ) {}
+
+  /**
+   * Quotes the price of an inspection for a vehicle class and branch city.
+   * Available to every authenticated user.
+   *
+   * @param query Vehicle class and branch city.
+   * @returns The applicable price.
+   */
+  @Get('quote')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Quote the price of an inspection',
+    description:
+      'Returns the branch city specific price for the vehicle class, or the default price when the branch has none.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The applicable price.',
+    type: InspectionPriceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'No active price is set for the vehicle class.',
+  })
+  async quote(
+    @Query() query: InspectionPriceQuoteQueryDto,
+  ): Promise<InspectionPriceResponseDto> {
+    const price = await this.inspectionPricesService.quote(
+      query.vehicleClass,
+      query.inspectionBranchCityId,
+    );
+    return new InspectionPriceResponseDto(price);
+  }
+
+  /**
+   * Adds a price for a vehicle class (default or for one branch city).
+   *
+   * @param dto The price to add.
+   * @returns The created price.
+   */
+  @Post()
+  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Add an inspection price' })
+  @ApiBody({ type: CreateInspectionPriceDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The price has been created.',
+    type: InspectionPriceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input or unknown branch city.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'A price for the vehicle class and branch city already exists.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async create(
+    @Body() dto: CreateInspectionPriceDto,
+  ): Promise<InspectionPriceResponseDto> {
+    const price = await this.inspectionPricesService.create(dto);
+    return new InspectionPriceResponseDto(price);
+  }
+
+  /**
+   * Lists inspection prices.
+   *
+   * @param query Optional vehicle class / branch city filters.
+   * @returns The matching prices.
+   */
+  @Get()
+  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'List inspection prices' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'List of inspection prices.',
+    type: [InspectionPriceResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async findAll(
+    @Query() query: InspectionPriceQueryDto,
+  ): Promise<InspectionPriceResponseDto[]> {
+    const prices = await this.inspectionPricesService.findAll(query);
+    return prices.map((price) => new InspectionPriceResponseDto(price));
+  }
+
+  /**
+   * Retrieves an inspection price.
+   *
+   * @param id The price ID.
+   * @returns The price.
+   */
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Get an inspection price' })
+  @ApiParam({ name: 'id', description: 'Inspection price ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The inspection price.',
+    type: InspectionPriceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Inspection price not found.',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<InspectionPriceResponseDto> {
+    const price = await this.inspectionPricesService.findOne(id);
+    return new InspectionPriceResponseDto(price);
+  }
+
+  /**
+   * Changes the amount, currency or active flag of a price.
+   *
+   * @param id The price ID.
+   * @param dto Fields to change.
+   * @returns The updated price.
+   */
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Update an inspection price',
+    description: 'Existing orders keep the amount they were created with.',
+  })
+  @ApiParam({ name: 'id', description: 'Inspection price ID (UUID)' })
+  @ApiBody({ type: UpdateInspectionPriceDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated inspection price.',
+    type: InspectionPriceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Inspection price not found.',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateInspectionPriceDto,
+  ): Promise<InspectionPriceResponseDto> {
+    const price = await this.inspectionPricesService.update(id, dto);
+    return new InspectionPriceResponseDto(price);
+  }
+
+  /**
+   * Deletes an inspection price.
+   *
+   * @param id The price ID.
+   * @returns The deleted price.
+   */
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Delete an inspection price' })
+  @ApiParam({ name: 'id', description: 'Inspection price ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The inspection price has been deleted.',
+    type: InspectionPriceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Inspection price not found.',
+  })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<InspectionPriceResponseDto> {
+    const price = await this.inspectionPricesService.remove(id);
+    return new InspectionPriceResponseDto(price);
+  }
+}
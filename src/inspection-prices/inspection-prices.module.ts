@@ -0,0 +1,23 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: inspection-prices.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for the inspection price list (per vehicle class
+ * and branch city). Exports the service so orders can be priced.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { InspectionPricesService } from './inspection-prices.service';
+import { InspectionPricesController } from './inspection-prices.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [InspectionPricesController],
+  providers: [InspectionPricesService],
+  exports: [InspectionPricesService],
+})
+export class InspectionPricesModule {}
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { InspectionPrice, Prisma, VehicleClass } from '@prisma/client';
+import { InspectionPricesService } from './inspection-prices.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const buildPrice = (
+  overrides: Partial<InspectionPrice> = {},
+): InspectionPrice => ({
+  id: 'price-default',
+  vehicleClass: VehicleClass.REGULAR,
+  inspectionBranchCityId: null,
+  amount: 350000,
+  currency: 'IDR',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('InspectionPricesService', () => {
+  let service: InspectionPricesService;
+
+  const mockPrismaService = {
+    inspectionPrice: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    inspectionBranchCity: { findUnique: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InspectionPricesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<InspectionPricesService>(InspectionPricesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolvePrice', () => {
+    it('should prefer the branch specific price', async () => {
+      mockPrismaService.inspectionPrice.findMany.mockResolvedValue([
+        buildPrice(),
+        buildPrice({
+          id: 'price-branch',
+          inspectionBranchCityId: 'branch-1',
+          amount: 400000,
+        }),
+      ]);
+
+      const price = await service.resolvePrice(
+        VehicleClass.REGULAR,
+        'branch-1',
+      );
+
+      expect(price?.id).toBe('price-branch');
+    });
+
+    it('should fall back to the default price', async () => {
+      mockPrismaService.inspectionPrice.findMany.mockResolvedValue([
+        buildPrice(),
+      ]);
+
+      const price = await service.resolvePrice(
+        VehicleClass.REGULAR,
+        'branch-2',
+      );
+
+      expect(price?.id).toBe('price-default');
+    });
+  });
+
+  describe('quote', () => {
+    it('should throw when no active price is set', async () => {
+      mockPrismaService.inspectionPrice.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.quote(VehicleClass.HYBRID, 'branch-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should report a conflict for a duplicate default price', async () => {
+      mockPrismaService.inspectionPrice.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.create({ vehicleClass: VehicleClass.LCGC, amount: 250000 }),
+      ).rejects.toThrow(ConflictException);
+      expect(
+        mockPrismaService.inspectionBranchCity.findUnique,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
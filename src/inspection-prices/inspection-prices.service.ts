@@ -0,0 +1,207 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: inspection-prices.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service for the inspection price list.
+ * Prices are kept per vehicle class, as a default price and optionally as a
+ * branch city specific override. Used by OrdersService to price new orders.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InspectionPrice, Prisma, VehicleClass } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateInspectionPriceDto } from './dto/create-inspection-price.dto';
+import { UpdateInspectionPriceDto } from './dto/update-inspection-price.dto';
+import { InspectionPriceQueryDto } from './dto/inspection-price-query.dto';
+
+@Injectable()
+export class InspectionPricesService {
+  private readonly logger = new Logger(InspectionPricesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Adds a price for a vehicle class.
+   *
+   * @param {CreateInspectionPriceDto} dto - Vehicle class, optional branch city and amount.
+   * @returns {Promise<InspectionPrice>} The created price.
+   * @throws {BadRequestException} If the branch city does not exist.
+   * @throws {ConflictException} If a price for the class and branch city already exists.
+   */
+  async create(dto: CreateInspectionPriceDto): Promise<InspectionPrice> {
+    if (dto.inspectionBranchCityId) {
+      const branch = await this.prisma.inspectionBranchCity.findUnique({
+        where: { id: dto.inspectionBranchCityId },
+        select: { id: true },
+      });
+      if (!branch) {
+        throw new BadRequestException(
+          `Inspection Branch City with ID "${dto.inspectionBranchCityId}" not found.`,
+        );
+      }
+    }
+
+    try {
+      const price = await this.prisma.inspectionPrice.create({
+        data: {
+          vehicleClass: dto.vehicleClass,
+          inspectionBranchCityId: dto.inspectionBranchCityId ?? null,
+          amount: dto.amount,
+          currency: dto.currency?.toUpperCase(),
+          isActive: dto.isActive,
+        },
+      });
+      this.logger.log(
+        `Price for ${dto.vehicleClass} (${dto.inspectionBranchCityId ?? 'default'}) set to ${dto.amount}`,
+      );
+      return price;
+    } catch (error: unknown) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `A price for ${dto.vehicleClass} ${
+            dto.inspectionBranchCityId
+              ? `in branch city "${dto.inspectionBranchCityId}"`
+              : '(default)'
+          } already exists.`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists prices, ordered by vehicle class. Default prices are always included
+   * when filtering by branch city.
+   *
+   * @param {InspectionPriceQueryDto} query - Optional vehicle class / branch city filters.
+   * @returns {Promise<InspectionPrice[]>} The matching prices.
+   */
+  async findAll(query: InspectionPriceQueryDto): Promise<InspectionPrice[]> {
+    return this.prisma.inspectionPrice.findMany({
+      where: {
+        vehicleClass: query.vehicleClass,
+        ...(query.inspectionBranchCityId && {
+          OR: [
+            { inspectionBranchCityId: query.inspectionBranchCityId },
+            { inspectionBranchCityId: null },
+          ],
+        }),
+      },
+      orderBy: [{ vehicleClass: 'asc' }, { inspectionBranchCityId: 'asc' }],
+    });
+  }
+
+  /**
+   * Retrieves a price by ID.
+   *
+   * @param {string} id - The price ID.
+   * @returns {Promise<InspectionPrice>} The price.
+   * @throws {NotFoundException} If the price does not exist.
+   */
+  async findOne(id: string): Promise<InspectionPrice> {
+    const price = await this.prisma.inspectionPrice.findUnique({
+      where: { id },
+    });
+    if (!price) {
+      throw new NotFoundException(
+        `Inspection price with ID "${id}" not found.`,
+      );
+    }
+    return price;
+  }
+
+  /**
+   * Changes the amount, currency or active flag of a price.
+   * Existing orders keep the amount they were created with.
+   *
+   * @param {string} id - The price ID.
+   * @param {UpdateInspectionPriceDto} dto - Fields to change.
+   * @returns {Promise<InspectionPrice>} The updated price.
+   * @throws {NotFoundException} If the price does not exist.
+   */
+  async update(
+    id: string,
+    dto: UpdateInspectionPriceDto,
+  ): Promise<InspectionPrice> {
+    await this.findOne(id);
+    return this.prisma.inspectionPrice.update({
+      where: { id },
+      data: {
+        amount: dto.amount,
+        currency: dto.currency?.toUpperCase(),
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  /**
+   * Deletes a price. Orders created from it keep their amount.
+   *
+   * @param {string} id - The price ID.
+   * @returns {Promise<InspectionPrice>} The deleted price.
+   * @throws {NotFoundException} If the price does not exist.
+   */
+  async remove(id: string): Promise<InspectionPrice> {
+    await this.findOne(id);
+    return this.prisma.inspectionPrice.delete({ where: { id } });
+  }
+
+  /**
+   * Finds the active price of a vehicle class for a branch city: the branch
+   * specific price if there is one, otherwise the default price.
+   *
+   * @param {VehicleClass} vehicleClass - The vehicle class.
+   * @param {string} inspectionBranchCityId - The branch city performing the inspection.
+   * @returns {Promise<InspectionPrice | null>} The applicable price, or null if none is set.
+   */
+  async resolvePrice(
+    vehicleClass: VehicleClass,
+    inspectionBranchCityId: string,
+  ): Promise<InspectionPrice | null> {
+    const prices = await this.prisma.inspectionPrice.findMany({
+      where: {
+        vehicleClass,
+        isActive: true,
+        OR: [{ inspectionBranchCityId }, { inspectionBranchCityId: null }],
+      },
+    });
+    return (
+      prices.find((p) => p.inspectionBranchCityId === inspectionBranchCityId) ??
+      prices.find((p) => p.inspectionBranchCityId === null) ??
+      null
+    );
+  }
+
+  /**
+   * Quotes the price of an inspection.
+   *
+   * @param {VehicleClass} vehicleClass - The vehicle class.
+   * @param {string} inspectionBranchCityId - The branch city performing the inspection.
+   * @returns {Promise<InspectionPrice>} The applicable price.
+   * @throws {NotFoundException} If no active price is set for the vehicle class.
+   */
+  async quote(
+    vehicleClass: VehicleClass,
+    inspectionBranchCityId: string,
+  ): Promise<InspectionPrice> {
+    const price = await this.resolvePrice(vehicleClass, inspectionBranchCityId);
+    if (!price) {
+      throw new NotFoundException(
+        `No active inspection price for vehicle class ${vehicleClass}.`,
+      );
+    }
+    return price;
+  }
+}
@@ -0,0 +1,23 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: assign-reviewer.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object for assigning an inspection under review
+ * to a reviewer.
+ * --------------------------------------------------------------------------
+ */
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AssignReviewerDto {
+  @ApiProperty({
+    description:
+      'The user who will review the inspection (needs the INSPECTIONS_REVIEW permission)',
+    format: 'uuid',
+    example: '3f1c2b7e-5a8d-4e0f-9b6a-1d2c3e4f5a6b',
+  })
+  @IsUUID()
+  reviewerId: string;
+}
@@ -20,6 +20,7 @@ import {
   MaxLength,
   IsNotEmpty,
   IsOptional,
+  IsUUID,
 } from 'class-validator';
 
 import { ApiProperty } from '@nestjs/swagger';
@@ -175,6 +176,20 @@ export class CreateInspectionDto {
   @IsObject()
   notesFontSizes?: object;
 
+  /**
+   * ID of the customer inspection request (booking) this inspection fulfils.
+   * The request is linked to the new inspection and moved to AWAITING_APPROVAL.
+   */
+  @ApiProperty({
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    description:
+      'Optional ID of the customer inspection request (booking) this inspection fulfils. The request must be IN_PROGRESS.',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  customerInspectionRequestId?: string;
+
   // Note: Files (like 'photos') are not included in this DTO as they are handled
   // by file upload interceptors (e.g., FilesInterceptor) in the controller method.
 }
@@ -0,0 +1,115 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: review-claim-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Response DTOs for the claim or assignment of a reviewer on an
+ * inspection, and for the items of a reviewer's review queue.
+ * --------------------------------------------------------------------------
+ */
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  Inspection,
+  InspectionReviewClaim,
+  InspectionStatus,
+  User,
+} from '@prisma/client';
+
+export class ReviewClaimResponseDto {
+  @ApiProperty({ description: 'The inspection ID', format: 'uuid' })
+  inspectionId: string;
+
+  @ApiProperty({
+    description: 'The reviewer holding the inspection',
+    format: 'uuid',
+  })
+  reviewerId: string;
+
+  @ApiProperty({
+    description: 'The admin who assigned the inspection; null for claims',
+    format: 'uuid',
+    nullable: true,
+  })
+  assignedById: string | null;
+
+  @ApiProperty({ description: 'When the inspection was claimed or assigned' })
+  claimedAt: Date;
+
+  @ApiProperty({
+    description:
+      'When the claim expires unless renewed; null for assignments, which are held until released',
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  constructor(claim: InspectionReviewClaim) {
+    this.inspectionId = claim.inspectionId;
+    this.reviewerId = claim.reviewerId;
+    this.assignedById = claim.assignedById;
+    this.claimedAt = claim.claimedAt;
+    this.expiresAt = claim.expiresAt;
+  }
+}
+
+export class ReviewQueueItemDto extends ReviewClaimResponseDto {
+  @ApiProperty({ description: 'Human-readable inspection ID' })
+  prettyId: string;
+
+  @ApiProperty({ nullable: true })
+  vehiclePlateNumber: string | null;
+
+  @ApiProperty({ enum: InspectionStatus })
+  status: InspectionStatus;
+
+  @ApiProperty({ format: 'uuid', nullable: true })
+  branchCityId: string | null;
+
+  @ApiProperty({ description: 'When the inspection was submitted' })
+  submittedAt: Date;
+
+  @ApiProperty({
+    description: 'Seconds since the inspection was submitted',
+  })
+  ageSeconds: number;
+
+  @ApiProperty({
+    description: 'Seconds since the inspection was claimed or assigned',
+  })
+  heldSeconds: number;
+
+  @ApiProperty({
+    description: 'Name of the admin who assigned the inspection',
+    nullable: true,
+  })
+  assignedByName: string | null;
+
+  constructor(
+    claim: InspectionReviewClaim & {
+      inspection: Pick<
+        Inspection,
+        | 'pretty_id'
+        | 'vehiclePlateNumber'
+        | 'status'
+        | 'branchCityId'
+        | 'createdAt'
+      >;
+      assignedBy: Pick<User, 'name'> | null;
+    },
+    now: Date,
+  ) {
+    super(claim);
+    this.prettyId = claim.inspection.pretty_id;
+    this.vehiclePlateNumber = claim.inspection.vehiclePlateNumber;
+    this.status = claim.inspection.status;
+    this.branchCityId = claim.inspection.branchCityId;
+    this.submittedAt = claim.inspection.createdAt;
+    this.ageSeconds = Math.floor(
+      (now.getTime() - claim.inspection.createdAt.getTime()) / 1000,
+    );
+    this.heldSeconds = Math.floor(
+      (now.getTime() - claim.claimedAt.getTime()) / 1000,
+    );
+    this.assignedByName = claim.assignedBy?.name ?? null;
+  }
+}
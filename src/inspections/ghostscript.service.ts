@@ -0,0 +1,139 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: ghostscript.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Optional Ghostscript post-processing of rendered PDFs.
+ * Recompresses a PDF with pdfwrite and reads back its page count and text so
+ * the result can be compared with the original. Every method is a no-op
+ * (null) when the Ghostscript binary is not installed.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { getPdfOptimizationConfig } from '../config/pdf-optimization.config';
+
+const execFileAsync = promisify(execFile);
+
+// Ghostscript output for large reports easily exceeds the 1 MB default
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+@Injectable()
+export class GhostscriptService {
+  private readonly logger = new Logger(GhostscriptService.name);
+  private available: Promise<boolean> | null = null;
+
+  /**
+   * Whether the Ghostscript binary can be run. Checked once per process.
+   */
+  isAvailable(): Promise<boolean> {
+    this.available ??= execFileAsync(this.binary(), ['--version'])
+      .then(({ stdout }) => {
+        this.logger.log(`Ghostscript ${stdout.trim()} available`);
+        return true;
+      })
+      .catch(() => {
+        this.logger.log(
+          'Ghostscript not available; PDF post-processing disabled.',
+        );
+        return false;
+      });
+    return this.available;
+  }
+
+  /**
+   * Recompresses a PDF with the pdfwrite device.
+   *
+   * @param {Buffer} pdf - The PDF to recompress.
+   * @param {string} settings - The pdfwrite preset (e.g. /ebook).
+   * @returns {Promise<Buffer | null>} The recompressed PDF, or null if Ghostscript is not available.
+   */
+  async compress(pdf: Buffer, settings: string): Promise<Buffer | null> {
+    if (!(await this.isAvailable())) return null;
+    return this.withTempFile(pdf, async (input, dir) => {
+      const output = path.join(dir, 'output.pdf');
+      await this.run([
+        '-sDEVICE=pdfwrite',
+        '-dCompatibilityLevel=1.5',
+        `-dPDFSETTINGS=${settings}`,
+        '-dDetectDuplicateImages=true',
+        `-sOutputFile=${output}`,
+        input,
+      ]);
+      return fs.readFile(output);
+    });
+  }
+
+  /**
+   * Counts the pages of a PDF.
+   *
+   * @param {Buffer} pdf - The PDF.
+   * @returns {Promise<number | null>} The page count, or null if Ghostscript is not available.
+   */
+  async countPages(pdf: Buffer): Promise<number | null> {
+    if (!(await this.isAvailable())) return null;
+    return this.withTempFile(pdf, async (input) => {
+      const stdout = await this.run(['-sDEVICE=nullpage', input], false);
+      const match = stdout.match(/Processing pages \d+ through (\d+)/);
+      return match ? Number(match[1]) : null;
+    });
+  }
+
+  /**
+   * Extracts the text of a PDF with the txtwrite device.
+   *
+   * @param {Buffer} pdf - The PDF.
+   * @returns {Promise<string | null>} The text, or null if Ghostscript is not available.
+   */
+  async extractText(pdf: Buffer): Promise<string | null> {
+    if (!(await this.isAvailable())) return null;
+    return this.withTempFile(pdf, (input) =>
+      this.run(['-sDEVICE=txtwrite', '-sOutputFile=-', input]),
+    );
+  }
+
+  // --- Helpers ---
+
+  private binary(): string {
+    return getPdfOptimizationConfig().ghostscript.path;
+  }
+
+  private async run(args: string[], quiet = true): Promise<string> {
+    const { stdout } = await execFileAsync(
+      this.binary(),
+      [
+        '-dSAFER',
+        '-dBATCH',
+        '-dNOPAUSE',
+        ...(quiet ? ['-dQUIET'] : []),
+        ...args,
+      ],
+      { maxBuffer: MAX_BUFFER, timeout: 300000 },
+    );
+    return stdout;
+  }
+
+  /**
+   * Writes the PDF to a private temporary directory for the duration of the
+   * callback.
+   */
+  private async withTempFile<T>(
+    pdf: Buffer,
+    callback: (input: string, dir: string) => Promise<T>,
+  ): Promise<T> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'car-dano-pdf-'));
+    try {
+      const input = path.join(dir, 'input.pdf');
+      await fs.writeFile(input, pdf);
+      return await callback(input, dir);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
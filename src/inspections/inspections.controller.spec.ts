@@ -1,18 +1,71 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { Server } from 'http';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import request from 'supertest';
 import { InspectionsController } from './inspections.controller';
+import { InspectionsService } from './inspections.service';
+import { PhotosService } from '../photos/photos.service';
+import { ReviewClaimsService } from './review-claims.service';
+import { AuditLoggerService } from '../audit-logs/audit-logger.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { PermissionsGuard } from '../permissions/guards/permissions.guard';
 
 describe('InspectionsController', () => {
+  let app: INestApplication;
   let controller: InspectionsController;
 
+  const mockInspectionsService = {
+    findOne: jest.fn(),
+    getQueueStats: jest.fn(),
+  };
+  // Guards are exercised in their own specs; routing is tested here
+  const allowGuard = { canActivate: jest.fn(() => true) };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [InspectionsController],
-    }).compile();
+      providers: [
+        { provide: InspectionsService, useValue: mockInspectionsService },
+        { provide: PhotosService, useValue: {} },
+        { provide: ReviewClaimsService, useValue: {} },
+        { provide: AuditLoggerService, useValue: { log: jest.fn() } },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(allowGuard)
+      .overrideGuard(RolesGuard)
+      .useValue(allowGuard)
+      .overrideGuard(PermissionsGuard)
+      .useValue(allowGuard)
+      .overrideGuard(ThrottlerGuard)
+      .useValue(allowGuard)
+      .compile();
 
     controller = module.get<InspectionsController>(InspectionsController);
+    app = module.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.clearAllMocks();
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should route GET /inspections/queue-stats to the job statistics', async () => {
+    const stats = { pdfQueue: { queueLength: 1 } };
+    mockInspectionsService.getQueueStats.mockResolvedValue(stats);
+
+    await request(app.getHttpServer() as Server)
+      .get('/inspections/queue-stats')
+      .expect(200)
+      .expect(stats);
+
+    expect(mockInspectionsService.findOne).not.toHaveBeenCalled();
+  });
 });
@@ -36,6 +36,7 @@ import {
   UseGuards, // Import InternalServerErrorException
 } from '@nestjs/common';
 import { InspectionsService } from './inspections.service';
+import { ReviewClaimsService } from './review-claims.service';
 import { GetUser } from '../auth/decorators/get-user.decorator';
 import { CreateInspectionDto } from './dto/create-inspection.dto';
 import { UpdateInspectionDto } from './dto/update-inspection/update-inspection.dto';
@@ -46,7 +47,13 @@ import {
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express'; // NestJS interceptor for handling multiple file fields
 import { diskStorage } from 'multer'; // Storage engine for Multer (file uploads)
 import { extname } from 'path'; // Node.js utility for handling file extensions
-import { Role, InspectionStatus } from '@prisma/client';
+import {
+  AuditAction,
+  AuditTargetType,
+  Permission,
+  Role,
+  InspectionStatus,
+} from '@prisma/client';
 import { InspectionResponseDto } from './dto/inspection-response.dto';
 import { PhotoResponseDto } from '../photos/dto/photo-response.dto';
 import { UpdatePhotoDto } from '../photos/dto/update-photo.dto';
@@ -69,12 +76,22 @@ import { AddSinglePhotoDto } from 'src/inspections/dto/add-single-photo.dto';
 import { BuildMintTxResponseDto } from '../blockchain/dto/build-mint-tx-response.dto';
 import { BuildMintRequestDto } from './dto/build-mint-request.dto';
 import { ConfirmMintDto } from './dto/confirm-mint.dto';
+import { AssignReviewerDto } from './dto/assign-reviewer.dto';
+import {
+  ReviewClaimResponseDto,
+  ReviewQueueItemDto,
+} from './dto/review-claim-response.dto';
 import { Request, Response } from 'express';
 // Import Guards for authentication and authorization
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { Req } from '@nestjs/common'; // Import Req decorator
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { Audit } from '../audit-logs/audit.decorator';
+import { PermissionsGuard } from '../permissions/guards/permissions.guard';
+import { RequirePermission } from '../permissions/decorators/require-permission.decorator';
+import { GetBranchScope } from '../permissions/decorators/get-branch-scope.decorator';
+import { BranchScope } from '../permissions/branch-scope';
 import { FileValidationPipe } from './pipes/file-validation.pipe';
 import { OptionalFileValidationPipe } from './pipes/optional-file-validation.pipe';
 import { SkipThrottle, Throttle, ThrottlerGuard } from '@nestjs/throttler';
@@ -108,6 +125,25 @@ const photoStorageConfig = diskStorage({
   },
 });
 
+/**
+ * Swagger schema of the statistics of one job queue (JobQueueStats).
+ */
+const jobQueueStatsSchema = {
+  type: 'object',
+  properties: {
+    queueLength: { type: 'number' },
+    running: { type: 'number' },
+    retrying: { type: 'number' },
+    totalProcessed: { type: 'number' },
+    totalErrors: { type: 'number' },
+    oldestPendingAt: {
+      type: 'string',
+      format: 'date-time',
+      nullable: true,
+    },
+  },
+};
+
 /**
  * Controller managing all HTTP requests related to vehicle inspections.
  * Base route: /api/v1/inspections
@@ -123,10 +159,12 @@ export class InspectionsController {
    * Injects required services via NestJS Dependency Injection.
    * @param inspectionsService Service for core inspection logic.
    * @param photosService Service specifically for handling photo operations.
+   * @param reviewClaimsService Service for reviewer claims and assignments.
    */
   constructor(
     private readonly inspectionsService: InspectionsService,
     private readonly photosService: PhotosService,
+    private readonly reviewClaimsService: ReviewClaimsService,
   ) {}
 
   /**
@@ -249,8 +287,8 @@ export class InspectionsController {
   @Put(':id')
   @SkipThrottle()
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Update an existing inspection record',
@@ -293,7 +331,9 @@ export class InspectionsController {
     @Body() updateInspectionDto: UpdateInspectionDto,
     @GetUser('id') userId: string,
     @GetUser('role') userRole: Role,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<{ message: string }> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     const result = await this.inspectionsService.update(
       id,
       updateInspectionDto,
@@ -322,8 +362,8 @@ export class InspectionsController {
       storage: photoStorageConfig,
     }),
   )
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.INSPECTOR)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTION_PHOTOS_UPLOAD)
   @ApiOperation({
     summary: 'Upload a batch of photos for an inspection', // Updated summary
     description:
@@ -376,6 +416,7 @@ export class InspectionsController {
     @Body() addBatchDto: AddMultiplePhotosDto,
     @UploadedFiles(new FileValidationPipe())
     files: Array<Express.Multer.File>,
+    @GetBranchScope() branchScope: BranchScope,
     // @GetUser('id') userId: string,
   ): Promise<PhotoResponseDto[]> {
     this.logger.log(
@@ -383,6 +424,7 @@ export class InspectionsController {
     );
     if (!files || files.length === 0)
       throw new BadRequestException('No photo files provided.');
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     const newPhotos = await this.photosService.addMultiplePhotos(
       id,
       files,
@@ -403,8 +445,8 @@ export class InspectionsController {
   @Post(':id/photos/single')
   @SkipThrottle()
   @HttpCode(HttpStatus.CREATED)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.INSPECTOR)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTION_PHOTOS_UPLOAD)
   @UseInterceptors(
     FileInterceptor('photo', {
       storage: photoStorageConfig,
@@ -443,11 +485,13 @@ export class InspectionsController {
     @Param('id') id: string,
     @Body() addSingleDto: AddSinglePhotoDto,
     @UploadedFile(new FileValidationPipe()) file: Express.Multer.File,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<PhotoResponseDto> {
     this.logger.log(
       `[POST /inspections/${id}/photos/single] Received file: ${file?.filename}`,
     );
     if (!file) throw new BadRequestException('No photo file provided.');
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
 
     let parsedMetadata: PhotoMetadata;
     try {
@@ -494,8 +538,8 @@ export class InspectionsController {
   @Get(':id/photos')
   @SkipThrottle()
   @UseGuards(ThrottlerGuard)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_READ)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Retrieve all photos for an inspection',
@@ -525,8 +569,10 @@ export class InspectionsController {
   // @ApiBearerAuth('NamaSkemaKeamanan') // Add if JWT guard is enabled
   async getPhotosForInspection(
     @Param('id') id: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<PhotoResponseDto[]> {
     this.logger.log(`[GET /inspections/${id}/photos] Request received`);
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     const photos = await this.photosService.findForInspection(id);
     return photos.map((p) => new PhotoResponseDto(p));
   }
@@ -551,8 +597,8 @@ export class InspectionsController {
       storage: photoStorageConfig,
     }),
   ) // Handle single optional file
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Update a specific photo',
@@ -601,9 +647,14 @@ export class InspectionsController {
     @Param('photoId', ParseUUIDPipe) photoId: string,
     @Body() updatePhotoDto: UpdatePhotoDto, // Contains optional label/needAttention
     @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
     @UploadedFile(new OptionalFileValidationPipe())
     newFile?: Express.Multer.File, // Optional new file, validate only if present
   ): Promise<PhotoResponseDto> {
+    await this.inspectionsService.assertInBranchScope(
+      inspectionId,
+      branchScope,
+    );
     this.logger.debug('Update DTO:', updatePhotoDto);
     this.logger.debug('New file:', newFile?.filename);
 
@@ -632,8 +683,8 @@ export class InspectionsController {
   @Delete(':id/photos/:photoId')
   @SkipThrottle()
   @HttpCode(HttpStatus.NO_CONTENT) // Standard for successful DELETE with no body
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Delete a specific photo',
@@ -644,7 +695,7 @@ export class InspectionsController {
     name: 'id',
     type: String,
     format: 'uuid',
-    description: 'Inspection ID (for path consistency)',
+    description: 'Inspection ID',
   })
   @ApiParam({
     name: 'photoId',
@@ -667,11 +718,16 @@ export class InspectionsController {
   })
   // @ApiBearerAuth('NamaSkemaKeamanan') // Add if JWT guard is enabled
   async deletePhoto(
-    @Param('id', ParseUUIDPipe) inspectionId: string, // Included for path consistency, might not be needed by service
+    @Param('id', ParseUUIDPipe) inspectionId: string,
     @Param('photoId', ParseUUIDPipe) photoId: string,
     @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<void> {
-    await this.photosService.deletePhoto(photoId, userId);
+    await this.inspectionsService.assertInBranchScope(
+      inspectionId,
+      branchScope,
+    );
+    await this.photosService.deletePhoto(inspectionId, photoId, userId);
     // No return body for 204
   }
 
@@ -680,7 +736,7 @@ export class InspectionsController {
   /**
    * [GET /inspections/search]
    * Retrieves a single inspection by vehicle plate number (case-insensitive, space-agnostic).
-   * This endpoint is publicly accessible.
+   * Only inspections within the caller's branch scope are found.
    *
    * @param {string} vehiclePlateNumber - The vehicle plate number to search for.
    * @returns {Promise<InspectionResponseDto>} The found inspection record summary.
@@ -689,7 +745,8 @@ export class InspectionsController {
   @Get('search')
   @SkipThrottle()
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_READ)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Search for an inspection by vehicle plate number',
@@ -708,14 +765,25 @@ export class InspectionsController {
     type: InspectionResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Inspection not found.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
   async searchByVehicleNumber(
     @Query('vehicleNumber') vehicleNumber: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto> {
     this.logger.log(
       `[GET /inspections/search] Searching for vehicle number: ${vehicleNumber}`,
     );
-    const inspection =
-      await this.inspectionsService.findByVehiclePlateNumber(vehicleNumber);
+    const inspection = await this.inspectionsService.findByVehiclePlateNumber(
+      vehicleNumber,
+      branchScope,
+    );
 
     if (!inspection) {
       throw new NotFoundException(
@@ -736,8 +804,8 @@ export class InspectionsController {
   @Get('search/keyword')
   @SkipThrottle()
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_READ)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Search for inspections by a general keyword',
@@ -759,12 +827,16 @@ export class InspectionsController {
   })
   async searchByKeyword(
     @Query('q') keyword: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto[]> {
     this.logger.log(
       `[GET /inspections/search/keyword] Searching for keyword: ${keyword}`,
     );
 
-    const inspections = await this.inspectionsService.searchByKeyword(keyword);
+    const inspections = await this.inspectionsService.searchByKeyword(
+      keyword,
+      branchScope,
+    );
 
     return inspections.map(
       (inspection) => new InspectionResponseDto(inspection),
@@ -777,9 +849,9 @@ export class InspectionsController {
    * Filters results based on the requesting user's role (passed via query).
    */
   @Get()
-  @UseGuards(JwtAuthGuard, RolesGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
   @SkipThrottle()
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @RequirePermission(Permission.INSPECTIONS_READ)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Retrieve all inspection records with pagination',
@@ -842,6 +914,7 @@ export class InspectionsController {
   })
   // @ApiBearerAuth('NamaSkemaKeamanan') // Add if JWT guard is enabled
   async findAll(
+    @GetBranchScope() branchScope: BranchScope,
     @Query('role') userRole?: Role,
     @Query('status') status?: string | string[], // Accept as string or string array
     @Query('page') page = 1,
@@ -890,6 +963,7 @@ export class InspectionsController {
       parsedStatus,
       pageNumber,
       pageSizeNumber,
+      branchScope,
     );
     return {
       data: result.data.map(
@@ -899,6 +973,285 @@ export class InspectionsController {
     };
   }
 
+  /**
+   * Get current queue statistics for monitoring purposes.
+   * This endpoint provides insights into the current status of every job queue
+   * (PDF generation, minting, archive confirmation, NFT burns and IPFS
+   * verification) to help with debugging UTXO issues.
+   * Declared before `GET :id`, which would otherwise match "queue-stats".
+   */
+  @Get('queue-stats')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.SUPERADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get Queue Statistics (SuperAdmin Only)',
+    description:
+      'Retrieves statistics for the persisted PDF generation, blockchain minting, archive confirmation, NFT burn and IPFS verification jobs (pending, running, retrying, completed and failed counts). Useful for monitoring and debugging purposes.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Queue statistics retrieved successfully.',
+    schema: {
+      type: 'object',
+      properties: {
+        pdfQueue: jobQueueStatsSchema,
+        blockchainQueue: jobQueueStatsSchema,
+        archiveConfirmationQueue: jobQueueStatsSchema,
+        nftBurnQueue: jobQueueStatsSchema,
+        ipfsVerificationQueue: jobQueueStatsSchema,
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the SUPERADMIN role.',
+  })
+  getQueueStats() {
+    this.logger.log('Received request for queue statistics');
+    return this.inspectionsService.getQueueStats();
+  }
+
+  // --- Review Claim Endpoints ---
+
+  /**
+   * Lists the inspections the caller has claimed or been assigned that are
+   * still under review.
+   * [GET /inspections/review-queue]
+   * @param userId The authenticated reviewer.
+   * @returns The claimed and assigned inspections, oldest submission first.
+   */
+  @Get('review-queue')
+  @SkipThrottle()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List my review queue',
+    description:
+      'Lists the inspections under review that the caller has claimed or been assigned, with their age, oldest submission first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'The claimed and assigned inspections.',
+    type: [ReviewQueueItemDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async getReviewQueue(
+    @GetUser('id') userId: string,
+  ): Promise<ReviewQueueItemDto[]> {
+    return this.reviewClaimsService.findQueue(userId);
+  }
+
+  /**
+   * Claims an inspection under review, or renews the caller's claim.
+   * [POST /inspections/:id/claim]
+   * @param id The UUID of the inspection to claim.
+   * @param userId The claiming reviewer.
+   * @returns The caller's claim.
+   */
+  @Post(':id/claim')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Claim an inspection for review',
+    description:
+      'Locks an inspection in NEED_REVIEW or FAIL_ARCHIVE for the caller until the claim expires (REVIEW_CLAIM_TTL_MINUTES). Claiming again, or editing the inspection, renews the claim. Other users cannot update or approve a claimed inspection.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    format: 'uuid',
+    description: 'Inspection ID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'The claim.',
+    type: ReviewClaimResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Inspection is not under review.' })
+  @ApiResponse({ status: 404, description: 'Inspection not found.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Another reviewer holds the inspection.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async claimInspection(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
+  ): Promise<ReviewClaimResponseDto> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
+    const claim = await this.reviewClaimsService.claim(id, userId);
+    return new ReviewClaimResponseDto(claim);
+  }
+
+  /**
+   * Releases the caller's claim or assignment on an inspection.
+   * [DELETE /inspections/:id/claim]
+   * @param id The UUID of the inspection to release.
+   * @param userId The reviewer holding it.
+   */
+  @Delete(':id/claim')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Release my claim on an inspection',
+    description:
+      'Releases the claim or assignment the caller holds on an inspection, so other reviewers can pick it up.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    format: 'uuid',
+    description: 'Inspection ID',
+  })
+  @ApiResponse({ status: 204, description: 'Claim released.' })
+  @ApiResponse({
+    status: 404,
+    description: 'Inspection is not claimed or assigned.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Another reviewer holds the inspection.',
+  })
+  async releaseInspection(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+  ): Promise<void> {
+    await this.reviewClaimsService.release(id, userId);
+  }
+
+  /**
+   * Assigns an inspection under review to a reviewer.
+   * [PUT /inspections/:id/assignment]
+   * @param id The UUID of the inspection to assign.
+   * @param dto The reviewer to assign.
+   * @param userId The assigning admin.
+   * @returns The assignment.
+   */
+  @Put(':id/assignment')
+  @Audit(AuditAction.INSPECTION_REVIEW_ASSIGNED, AuditTargetType.INSPECTION)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_ASSIGN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Assign an inspection to a reviewer',
+    description:
+      "Assigns an inspection in NEED_REVIEW or FAIL_ARCHIVE to a reviewer, replacing any claim. The reviewer holds it until they release it or it is approved. The reviewer must hold the INSPECTIONS_REVIEW permission and have access to the inspection's branch city.",
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    format: 'uuid',
+    description: 'Inspection ID',
+  })
+  @ApiBody({ type: AssignReviewerDto })
+  @ApiResponse({
+    status: 200,
+    description: 'The assignment.',
+    type: ReviewClaimResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Inspection is not under review, or the user cannot review it.',
+  })
+  @ApiResponse({ status: 404, description: 'Inspection not found.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async assignReviewer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AssignReviewerDto,
+    @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
+  ): Promise<ReviewClaimResponseDto> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
+    const claim = await this.reviewClaimsService.assign(
+      id,
+      dto.reviewerId,
+      userId,
+    );
+    return new ReviewClaimResponseDto(claim);
+  }
+
+  /**
+   * Releases the claim or assignment of any reviewer on an inspection.
+   * [DELETE /inspections/:id/assignment]
+   * @param id The UUID of the inspection to release.
+   * @param userId The releasing admin.
+   */
+  @Delete(':id/assignment')
+  @Audit(AuditAction.INSPECTION_REVIEW_RELEASED, AuditTargetType.INSPECTION)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_ASSIGN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Release the claim or assignment on an inspection',
+    description:
+      'Releases whichever reviewer holds an inspection, e.g. when a reviewer is unavailable.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    format: 'uuid',
+    description: 'Inspection ID',
+  })
+  @ApiResponse({ status: 204, description: 'Claim or assignment released.' })
+  @ApiResponse({
+    status: 404,
+    description: 'Inspection is not claimed or assigned.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User is not authenticated.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User does not have the required permissions.',
+  })
+  async releaseAssignment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
+  ): Promise<void> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
+    await this.reviewClaimsService.release(id, userId, true);
+  }
+
   /**
    * Handles the retrieval of a specific inspection by ID.
    * [GET /inspections/:id]
@@ -909,8 +1262,8 @@ export class InspectionsController {
    */
   @Get(':id')
   @SkipThrottle()
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_READ)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Retrieve a specific inspection by ID',
@@ -947,8 +1300,13 @@ export class InspectionsController {
   async findOne(
     @Param('id') id: string,
     @GetUser('role') realUserRole: Role,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto> {
-    const inspection = await this.inspectionsService.findOne(id, realUserRole);
+    const inspection = await this.inspectionsService.findOne(
+      id,
+      realUserRole,
+      branchScope,
+    );
     return new InspectionResponseDto(inspection);
   }
 
@@ -965,13 +1323,13 @@ export class InspectionsController {
   @Throttle({ default: { limit: 10, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Approve a submitted inspection',
     description:
-      'Approves a submitted inspection. Requires Reviewer/Admin role (to be enforced later).',
+      'Approves a submitted inspection and queues generation of its PDF reports. The PDF URLs and hashes are filled in once the background job completes. Requires Reviewer/Admin role (to be enforced later).',
   })
   @ApiParam({
     name: 'id',
@@ -1002,15 +1360,12 @@ export class InspectionsController {
   async approveInspection(
     @Param('id') id: string,
     @GetUser('id') reviewerId: string,
-    @Req() req: Request, // Inject Request object
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto> {
-    const authHeader = req.headers.authorization;
-    const token = authHeader ? authHeader.split(' ')[1] : null; // Extract token
-
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     const inspection = await this.inspectionsService.approveInspection(
       id,
       reviewerId,
-      token, // Pass the token to the service
     );
     return new InspectionResponseDto(inspection);
   }
@@ -1026,13 +1381,13 @@ export class InspectionsController {
   @Throttle({ default: { limit: 5, ttl: 300000 } }) // More restrictive: 5 requests per 5 minutes
   @UseGuards(ThrottlerGuard)
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Bulk approve multiple inspections',
     description:
-      'Approves multiple inspections in sequence with automatic rollback on failure. Maximum 20 inspections per request.',
+      "Approves multiple inspections in sequence and queues their PDF generation jobs; failed jobs roll back the inspection status. Inspections outside the caller's branches are reported as not found. Maximum 20 inspections per request.",
   })
   @ApiBody({
     type: BulkApproveInspectionDto,
@@ -1059,11 +1414,8 @@ export class InspectionsController {
   async bulkApproveInspections(
     @Body() bulkApproveDto: BulkApproveInspectionDto,
     @GetUser('id') reviewerId: string,
-    @Req() req: Request,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<BulkApproveInspectionResponseDto> {
-    const authHeader = req.headers.authorization;
-    const token = authHeader ? authHeader.split(' ')[1] : null;
-
     this.logger.log(
       `Bulk approve requested by ${reviewerId} for ${bulkApproveDto.inspectionIds.length} inspections`,
     );
@@ -1071,7 +1423,7 @@ export class InspectionsController {
     const result = await this.inspectionsService.bulkApproveInspections(
       bulkApproveDto.inspectionIds,
       reviewerId,
-      token,
+      branchScope,
     );
 
     // Log summary for monitoring
@@ -1096,14 +1448,14 @@ export class InspectionsController {
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary:
       'Archive an approved inspection by providing a URL to convert to PDF',
     description:
-      'Fetches the content from the provided URL, converts it to PDF, and proceeds with the archiving process (saving, hashing, minting).',
+      'Sets the inspection to ARCHIVING and queues NFT minting. The inspection becomes ARCHIVED once the background job succeeds, or returns to APPROVED if minting keeps failing.',
   })
   @ApiConsumes('application/json') // Expects JSON body
   @ApiParam({
@@ -1114,9 +1466,13 @@ export class InspectionsController {
   })
   @ApiResponse({
     status: 200,
-    description: 'Inspection archived successfully.',
+    description: 'Archiving queued; the inspection is in ARCHIVING status.',
     type: InspectionResponseDto,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'PDF generation for the inspection is still in progress.',
+  })
   @ApiResponse({
     status: 400,
     description: 'Bad Request (e.g., invalid URL, inspection not approved).',
@@ -1141,7 +1497,9 @@ export class InspectionsController {
   async processToArchive(
     @Param('id') id: string,
     @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     // Service will handle fetching URL, converting to PDF, saving PDF, hash, blockchain sim, update status
     const inspection = await this.inspectionsService.processToArchive(
       id,
@@ -1162,8 +1520,8 @@ export class InspectionsController {
   @Post(':id/build-archive-tx')
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Step 1 - Build Unsigned Archive Transaction' })
   @ApiBody({ type: BuildMintRequestDto })
@@ -1196,12 +1554,14 @@ export class InspectionsController {
   async buildArchiveTransaction(
     @Param('id') id: string,
     @Body() buildMintRequestDto: BuildMintRequestDto,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<BuildMintTxResponseDto> {
     if (!buildMintRequestDto.adminAddress) {
       throw new BadRequestException(
         'adminAddress is required in the request body.',
       );
     }
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     return this.inspectionsService.buildArchiveTransaction(
       id,
       buildMintRequestDto.adminAddress,
@@ -1210,7 +1570,8 @@ export class InspectionsController {
 
   /**
    * Confirms the archiving process after the transaction is successfully sent from the frontend.
-   * Saves the transaction hash and NFT asset ID.
+   * Verifies the transaction on chain before saving the transaction hash and NFT asset ID;
+   * the inspection stays ARCHIVING until the transaction is deep enough.
    *
    * @param id The ID of the inspection being archived.
    * @param confirmDto DTO containing the transaction hash and NFT asset ID.
@@ -1220,14 +1581,18 @@ export class InspectionsController {
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Step 2 - Confirm and Save Minting Results' })
+  @ApiOperation({
+    summary: 'Step 2 - Confirm and Save Minting Results',
+    description:
+      'Verifies on chain that the transaction minted exactly one unit of the asset under the inspection policy, with the inspection PDF hash in its metadata. The inspection is ARCHIVED once the transaction has ARCHIVE_CONFIRMATION_DEPTH confirmations; until then it is ARCHIVING and is checked in the background, going back to APPROVED if the transaction is rejected or not confirmed in time.',
+  })
   @ApiResponse({
     status: 200,
     description:
-      'The updated inspection record summary after confirming archive.',
+      'The updated inspection record summary: ARCHIVED if the transaction is already confirmed, otherwise ARCHIVING.',
     type: InspectionResponseDto,
   })
   @ApiResponse({
@@ -1240,12 +1605,17 @@ export class InspectionsController {
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
-    description: 'Bad Request (e.g., invalid input data).',
+    description:
+      'Inspection is not APPROVED, or the transaction does not prove the mint (the message gives the reason).',
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Inspection not found.',
   })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The NFT is already recorded for another inspection.',
+  })
   @ApiResponse({
     status: HttpStatus.INTERNAL_SERVER_ERROR,
     description: 'Internal Server Error.',
@@ -1253,7 +1623,9 @@ export class InspectionsController {
   async confirmArchive(
     @Param('id') id: string,
     @Body() confirmDto: ConfirmMintDto,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     const inspection = await this.inspectionsService.confirmArchive(
       id,
       confirmDto,
@@ -1269,14 +1641,16 @@ export class InspectionsController {
    * @returns {Promise<InspectionResponseDto>} The deactivated inspection record summary.
    */
   @Patch(':id/deactivate')
+  @Audit(AuditAction.INSPECTION_DEACTIVATED, AuditTargetType.INSPECTION)
   @SkipThrottle()
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Deactivate an archived inspection',
-    description: 'Deactivates an archived inspection. Requires Admin role.',
+    description:
+      'Deactivates an archived inspection and queues the burn of its NFT, revoking it on chain. Requires Admin role.',
   })
   @ApiParam({
     name: 'id',
@@ -1307,7 +1681,9 @@ export class InspectionsController {
   async deactivateArchive(
     @Param('id') id: string,
     @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     const inspection = await this.inspectionsService.deactivateArchive(
       id,
       userId,
@@ -1323,14 +1699,16 @@ export class InspectionsController {
    * @returns {Promise<InspectionResponseDto>} The activated inspection record summary.
    */
   @Patch(':id/activate')
+  @Audit(AuditAction.INSPECTION_ACTIVATED, AuditTargetType.INSPECTION)
   @SkipThrottle()
   @HttpCode(HttpStatus.OK)
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN, Role.REVIEWER, Role.SUPERADMIN)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission(Permission.INSPECTIONS_REVIEW)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Activate a deactivated inspection',
-    description: 'Reactivates a deactivated inspection. Requires Admin role.',
+    description:
+      'Reactivates a deactivated inspection whose NFT has not been burned. Requires Admin role.',
   })
   @ApiParam({
     name: 'id',
@@ -1346,7 +1724,7 @@ export class InspectionsController {
   @ApiResponse({
     status: 400,
     description:
-      'Bad Request (e.g., inspection not in a state to be activated).',
+      'Bad Request (e.g., inspection not in a state to be activated, or its NFT is burned).',
   })
   @ApiResponse({ status: 404, description: 'Inspection not found.' })
   @ApiResponse({
@@ -1361,7 +1739,9 @@ export class InspectionsController {
   async activateArchive(
     @Param('id') id: string,
     @GetUser('id') userId: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<InspectionResponseDto> {
+    await this.inspectionsService.assertInBranchScope(id, branchScope);
     const inspection = await this.inspectionsService.activateArchive(
       id,
       userId,
@@ -1374,10 +1754,13 @@ export class InspectionsController {
    * [DELETE /inspections/:id/permanently]
    * This is a destructive action and can only be performed by a SUPERADMIN.
    * It deletes the inspection record, all related photo records, and all associated files (images and PDFs) from the disk.
+   * An inspection with an NFT is deleted once the NFT burn is on chain, or once a revocation record is submitted for an NFT the backend cannot burn; the request is then answered with 202.
    * @param {string} id - The UUID of the inspection to delete permanently.
-   * @returns {Promise<void>} A promise that resolves when the deletion is complete.
+   * @param {Response} res - The response, whose status is set to 202 when deletion waits for the burn.
+   * @returns {Promise<void>} A promise that resolves when the deletion is complete or queued.
    */
   @Delete(':id/permanently')
+  @Audit(AuditAction.INSPECTION_PERMANENTLY_DELETED, AuditTargetType.INSPECTION)
   @HttpCode(HttpStatus.NO_CONTENT)
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.SUPERADMIN)
@@ -1385,7 +1768,7 @@ export class InspectionsController {
   @ApiOperation({
     summary: 'Permanently delete an inspection (Superadmin Only)',
     description:
-      'Deletes an inspection, its photos, its change logs, and all associated files from the disk. This action is irreversible.',
+      'Deletes an inspection, its photos, its change logs, and all associated files from the disk. This action is irreversible. If the inspection has an NFT, the NFT is burned with a revocation record first and the deletion completes once the burn is on chain. An NFT the backend cannot burn is revoked with a metadata-only record instead.',
   })
   @ApiParam({
     name: 'id',
@@ -1397,6 +1780,11 @@ export class InspectionsController {
     status: 204,
     description: 'Inspection deleted successfully.',
   })
+  @ApiResponse({
+    status: 202,
+    description:
+      'The NFT burn was queued; the inspection is deleted once the burn is on chain, or once a revocation record is submitted for an NFT that cannot be burned.',
+  })
   @ApiResponse({ status: 404, description: 'Inspection not found.' })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
@@ -1408,11 +1796,16 @@ export class InspectionsController {
   })
   async deleteInspectionPermanently(
     @Param('id', ParseUUIDPipe) id: string,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<void> {
     this.logger.warn(
       `[SUPERADMIN] Received request to permanently delete inspection ${id}`,
     );
-    await this.inspectionsService.deleteInspectionPermanently(id);
+    const deleted =
+      await this.inspectionsService.deleteInspectionPermanently(id);
+    if (!deleted) {
+      res.status(HttpStatus.ACCEPTED);
+    }
   }
 
   /**
@@ -1426,6 +1819,7 @@ export class InspectionsController {
    * @returns {Promise<InspectionResponseDto>} The updated inspection with NEED_REVIEW status.
    */
   @Patch(':id/revert-to-review')
+  @Audit(AuditAction.INSPECTION_REVERTED_TO_REVIEW, AuditTargetType.INSPECTION)
   @HttpCode(HttpStatus.NO_CONTENT)
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.SUPERADMIN)
@@ -1480,6 +1874,10 @@ export class InspectionsController {
    * typically used when an archive/minting result needs to be undone for administrative reasons.
    */
   @Patch(':id/revert-to-approved')
+  @Audit(
+    AuditAction.INSPECTION_REVERTED_TO_APPROVED,
+    AuditTargetType.INSPECTION,
+  )
   @HttpCode(HttpStatus.NO_CONTENT)
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.SUPERADMIN)
@@ -1525,62 +1923,4 @@ export class InspectionsController {
     // Return 204 No Content to save bandwidth — client can fetch updated inspection separately if needed
     return;
   }
-
-  /**
-   * Get current queue statistics for monitoring purposes.
-   * This endpoint provides insights into the current status of PDF generation
-   * and blockchain minting queues to help with debugging UTXO issues.
-   */
-  @Get('queue-stats')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.SUPERADMIN)
-  @ApiBearerAuth()
-  @ApiOperation({
-    summary: 'Get Queue Statistics (SuperAdmin Only)',
-    description:
-      'Retrieves current statistics for PDF generation and blockchain minting queues. Useful for monitoring and debugging purposes.',
-  })
-  @ApiResponse({
-    status: HttpStatus.OK,
-    description: 'Queue statistics retrieved successfully.',
-    schema: {
-      type: 'object',
-      properties: {
-        pdfQueue: {
-          type: 'object',
-          properties: {
-            queueLength: { type: 'number' },
-            running: { type: 'number' },
-            totalProcessed: { type: 'number' },
-            totalErrors: { type: 'number' },
-            consecutiveErrors: { type: 'number' },
-            circuitBreakerOpen: { type: 'boolean' },
-          },
-        },
-        blockchainQueue: {
-          type: 'object',
-          properties: {
-            queueLength: { type: 'number' },
-            running: { type: 'number' },
-            totalProcessed: { type: 'number' },
-            totalErrors: { type: 'number' },
-            consecutiveErrors: { type: 'number' },
-            circuitBreakerOpen: { type: 'boolean' },
-          },
-        },
-      },
-    },
-  })
-  @ApiResponse({
-    status: HttpStatus.UNAUTHORIZED,
-    description: 'User is not authenticated.',
-  })
-  @ApiResponse({
-    status: HttpStatus.FORBIDDEN,
-    description: 'User does not have the SUPERADMIN role.',
-  })
-  getQueueStats() {
-    this.logger.log('Received request for queue statistics');
-    return this.inspectionsService.getQueueStats();
-  }
 } // End Controller
@@ -0,0 +1,58 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { ThrottlerModule } from '@nestjs/throttler';
+import { Test } from '@nestjs/testing';
+import { MeshWallet } from '@meshsdk/core';
+import { AuditLogsModule } from '../audit-logs/audit-logs.module';
+import { PrismaService } from '../prisma/prisma.service';
+import { InspectionsModule } from './inspections.module';
+import { InspectionsService } from './inspections.service';
+
+// AuthModule pulls in the whole user and login stack; its exports are all
+// InspectionsModule needs to resolve.
+jest.mock('../auth/auth.module', () => {
+  @Module({
+    imports: [PassportModule, JwtModule.register({ secret: 'test' })],
+    exports: [PassportModule, JwtModule],
+  })
+  class AuthModule {}
+  return { AuthModule };
+});
+
+@Global()
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      ignoreEnvFile: true,
+      load: [
+        () => ({
+          BLOCKFROST_ENV: 'preview',
+          WALLET_SECRET_KEY_PREVIEW: MeshWallet.brew(true) as string,
+          CHAIN_PROVIDER: 'emulator',
+        }),
+      ],
+    }),
+  ],
+  exports: [ConfigModule],
+})
+class TestConfigModule {}
+
+describe('InspectionsModule', () => {
+  it('resolves the dependencies of its providers and controllers', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        TestConfigModule,
+        ThrottlerModule.forRoot([{ ttl: 60000, limit: 200 }]),
+        AuditLogsModule,
+        InspectionsModule,
+      ],
+    })
+      .overrideProvider(PrismaService)
+      .useValue({})
+      .compile();
+
+    expect(module.get(InspectionsService)).toBeInstanceOf(InspectionsService);
+  });
+});
@@ -6,27 +6,57 @@
  * --------------------------------------------------------------------------
  * Description: NestJS module responsible for managing inspection-related features.
  * Imports necessary modules like PrismaModule (for database access), PhotosModule (for photo handling),
- * and BlockchainModule (for blockchain interactions).
+ * BlockchainModule (for blockchain interactions), JobsModule (durable queue for
+ * PDF generation and minting), AuthModule (JWT signing for PDF rendering) and
+ * PermissionsModule (permission checks and branch scoping of reviewers/admins) and
+ * StorageModule (archived PDF uploads).
  * Declares the InspectionsController to handle routes.
- * Provides the InspectionsService for business logic.
+ * Provides the InspectionsService for business logic and the PdfRendererService
+ * (Puppeteer rendering with size targeting and a post-render quality gate,
+ * optionally post-processed by the GhostscriptService) and the
+ * ReviewClaimsService (reviewer claims and assignments of inspections under
+ * review).
  * --------------------------------------------------------------------------
  */
 
 import { Module } from '@nestjs/common';
 import { InspectionsService } from './inspections.service';
+import { PdfRendererService } from './pdf-renderer.service';
+import { GhostscriptService } from './ghostscript.service';
+import { ReviewClaimsService } from './review-claims.service';
 import { InspectionsController } from './inspections.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { PhotosModule } from '../photos/photos.module';
 import { BlockchainModule } from '../blockchain/blockchain.module';
 import { IpfsModule } from '../ipfs/ipfs.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { AuthModule } from '../auth/auth.module';
+import { CustomerInspectionRequestsModule } from '../customer-inspection-requests/customer-inspection-requests.module';
+import { PermissionsModule } from '../permissions/permissions.module';
+import { StorageModule } from '../storage/storage.module';
 
 /**
  * NestJS module for inspection-related features.
  */
 @Module({
-  imports: [PrismaModule, PhotosModule, BlockchainModule, IpfsModule],
+  imports: [
+    PrismaModule,
+    PhotosModule,
+    BlockchainModule,
+    IpfsModule,
+    JobsModule,
+    AuthModule,
+    CustomerInspectionRequestsModule,
+    PermissionsModule,
+    StorageModule,
+  ],
   controllers: [InspectionsController],
-  providers: [InspectionsService],
+  providers: [
+    InspectionsService,
+    PdfRendererService,
+    GhostscriptService,
+    ReviewClaimsService,
+  ],
   exports: [InspectionsService],
 })
 export class InspectionsModule {}
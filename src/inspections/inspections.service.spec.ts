@@ -1,27 +1,46 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
 import { InspectionsService } from './inspections.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { BlockchainService } from '../blockchain/blockchain.service';
 import { ConfigService } from '@nestjs/config';
 import { IpfsService } from '../ipfs/ipfs.service';
+import { IpfsPinningService } from '../ipfs/ipfs-pinning.service';
+import { StorageService } from '../storage/storage.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobsWorker } from '../jobs/jobs.worker';
+import { JobHandler } from '../jobs/interfaces/job-handler.interface';
+import { JwtService } from '@nestjs/jwt';
+import { CustomerInspectionRequestsService } from '../customer-inspection-requests/customer-inspection-requests.service';
+import { ReviewClaimsService } from './review-claims.service';
+import {
+  PdfQualityGateError,
+  PdfRendererService,
+  PdfRenderReport,
+} from './pdf-renderer.service';
 import {
   Inspection,
   InspectionChangeLog,
   InspectionStatus,
+  Job,
+  JobStatus,
+  JobType,
   Prisma,
   Role,
 } from '@prisma/client';
 import {
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   InternalServerErrorException,
   NotFoundException,
 } from '@nestjs/common';
+import { CreateInspectionDto } from './dto/create-inspection.dto';
 
 // Mock data
 const mockInspectionId = 'mock-inspection-id';
 const mockReviewerId = 'mock-reviewer-id';
-const mockToken = 'mock-jwt-token';
 
 const mockInspection: Inspection = {
   id: mockInspectionId,
@@ -53,12 +72,18 @@ const mockInspection: Inspection = {
   urlPdfNoDocs: null,
   pdfFileHashNoDocs: null,
   ipfsPdfNoDocs: null,
+  pdfRenderReport: null,
+  pdfRenderReportNoDocs: null,
   blockchainTxHash: null,
   nftAssetId: null,
+  nftBurnStatus: null,
+  nftBurnTxHash: null,
   createdAt: new Date(),
   updatedAt: new Date(),
   archivedAt: null,
   deactivatedAt: null,
+  nftBurnedAt: null,
+  deletionRequestedAt: null,
 };
 
 const mockChangeLogs: InspectionChangeLog[] = [
@@ -94,23 +119,106 @@ describe('InspectionsService', () => {
   const mockPrismaService = {
     inspection: {
       findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findFirst: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
     },
     inspectionChangeLog: {
       findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    photo: {
+      deleteMany: jest.fn(),
+    },
+    job: {
+      update: jest.fn(),
     },
     $transaction: jest
       .fn()
       .mockImplementation((callback) => callback(mockPrismaService)),
+    $queryRaw: jest.fn(),
   };
 
-  const mockBlockchainService = {};
+  const mockBlockchainService = {
+    mintInspectionNft: jest.fn(),
+    buildAikenMintTransaction: jest.fn(),
+    verifyInspectionMint: jest.fn(),
+    burnInspectionNft: jest.fn(),
+    publishNftRevocation: jest.fn(),
+    getTransactionTime: jest.fn(),
+  };
   const mockConfigService = {
+    get: jest.fn(),
     getOrThrow: jest.fn(),
   };
   const mockIpfsService = {
     add: jest.fn(),
   };
+  const mockJobsService = {
+    enqueue: jest.fn(),
+    findActive: jest.fn(),
+    saveResult: jest.fn(),
+    getStats: jest.fn(),
+  };
+  const mockJobsWorker = {
+    registerHandler: jest.fn(),
+  };
+  const mockJwtService = {
+    sign: jest.fn().mockReturnValue('mock-render-token'),
+  };
+  const mockCustomerInspectionRequestsService = {
+    linkInspection: jest.fn(),
+  };
+  const mockPdfRendererService = {
+    render: jest.fn(),
+  };
+  const mockIpfsPinningService = {
+    ensurePinned: jest.fn().mockResolvedValue({ repinned: [], errors: [] }),
+    unpinEverywhere: jest.fn().mockResolvedValue([]),
+  };
+  const mockReviewClaimsService = {
+    claim: jest.fn(),
+    assertNotHeldByOther: jest.fn(),
+  };
+  const mockStorageService = {
+    upload: jest.fn(),
+    delete: jest.fn(),
+    pdfKey: jest.fn((value: string) => `pdfarchived/${value}`),
+    photoKey: jest.fn((value: string) => `uploads/inspection-photos/${value}`),
+    toPdfUrl: jest.fn((key: string) => `/${key}`),
+  };
+
+  // Handlers are exercised through the same registration the worker uses
+  const getHandler = (type: JobType): JobHandler => {
+    service.onModuleInit();
+    const call = mockJobsWorker.registerHandler.mock.calls.find(
+      ([registeredType]) => registeredType === type,
+    ) as [JobType, JobHandler];
+    return call[1];
+  };
+
+  const buildJob = (type: JobType, payload: Record<string, unknown>): Job => ({
+    id: 'mock-job-id',
+    type,
+    status: JobStatus.RUNNING,
+    payload: payload as Prisma.JsonObject,
+    result: null,
+    attempts: 1,
+    maxAttempts: 3,
+    nextRunAt: new Date(),
+    lockedAt: new Date(),
+    lockedBy: 'worker-1',
+    lastError: null,
+    completedAt: null,
+    inspectionId: mockInspectionId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -120,6 +228,17 @@ describe('InspectionsService', () => {
         { provide: BlockchainService, useValue: mockBlockchainService },
         { provide: ConfigService, useValue: mockConfigService },
         { provide: IpfsService, useValue: mockIpfsService },
+        { provide: IpfsPinningService, useValue: mockIpfsPinningService },
+        { provide: JobsService, useValue: mockJobsService },
+        { provide: JobsWorker, useValue: mockJobsWorker },
+        { provide: JwtService, useValue: mockJwtService },
+        {
+          provide: CustomerInspectionRequestsService,
+          useValue: mockCustomerInspectionRequestsService,
+        },
+        { provide: PdfRendererService, useValue: mockPdfRendererService },
+        { provide: StorageService, useValue: mockStorageService },
+        { provide: ReviewClaimsService, useValue: mockReviewClaimsService },
       ],
     }).compile();
 
@@ -136,71 +255,87 @@ describe('InspectionsService', () => {
     expect(service).toBeDefined();
   });
 
-  describe('approveInspection', () => {
-    it('should first apply changes, then generate PDF, and finally approve', async () => {
-      // ARRANGE
-      const inspectionAfterChanges = {
-        ...mockInspection,
-        overallRating: 'VERY GOOD',
-        vehicleData: { merekKendaraan: 'Toyota', tipeKendaraan: 'Veloz' },
-      };
+  it('should register handlers for PDF generation and minting jobs', () => {
+    service.onModuleInit();
 
-      // Mock the transaction part
-      mockPrismaService.$transaction.mockImplementation(async (callback) => {
-        const tx = {
-          inspection: {
-            findUnique: jest.fn().mockResolvedValue(mockInspection),
-            update: jest.fn().mockResolvedValue(inspectionAfterChanges),
-          },
-          inspectionChangeLog: {
-            findMany: jest.fn().mockResolvedValue(mockChangeLogs),
-          },
-        };
-        return await callback(tx);
-      });
-
-      // Mock the PDF generation part (which happens after the transaction)
-      const generatePdfSpy = jest
-        .spyOn(service as any, '_generateAndSavePdf')
-        .mockResolvedValue({
-          pdfPublicUrl: '/pdf/new.pdf',
-          pdfCid: 'new-cid',
-          pdfHashString: 'new-hash',
-        });
+    expect(mockJobsWorker.registerHandler).toHaveBeenCalledWith(
+      JobType.PDF_GENERATION,
+      expect.objectContaining({ concurrency: 5 }),
+    );
+    expect(mockJobsWorker.registerHandler).toHaveBeenCalledWith(
+      JobType.BLOCKCHAIN_MINTING,
+      expect.objectContaining({ concurrency: 1 }),
+    );
+  });
 
-      // Mock the final update call (which also happens after the transaction)
-      mockPrismaService.inspection.update.mockResolvedValue({
-        ...inspectionAfterChanges,
-        status: InspectionStatus.APPROVED,
-        urlPdf: '/pdf/new.pdf',
+  describe('create', () => {
+    it('should reject inspections submitted by an inactive inspector', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        name: 'Inactive Inspector',
+        inspectionBranchCityId: 'branch-1',
+        isActive: false,
       });
+      const dto = {
+        vehiclePlateNumber: 'AB 1234 CD',
+        identityDetails: {
+          namaInspektor: 'inspector-id',
+          namaCustomer: 'Customer',
+          cabangInspeksi: 'branch-1',
+        },
+      } as CreateInspectionDto;
 
-      mockConfigService.getOrThrow.mockReturnValue('http://localhost:3000');
-
-      // ACT
-      await service.approveInspection(
-        mockInspectionId,
-        mockReviewerId,
-        mockToken,
+      await expect(service.create(dto, 'inspector-id')).rejects.toThrow(
+        ForbiddenException,
       );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
 
-      // ASSERT
-
-      // 1. Verify that the transaction was called to update the inspection data first.
-      expect(mockPrismaService.$transaction).toHaveBeenCalled();
-      const transactionCallback =
-        mockPrismaService.$transaction.mock.calls[0][0];
-      const txMock = {
+  describe('approveInspection', () => {
+    const mockTransactionWith = (inspection: Inspection | null) => {
+      const tx = {
         inspection: {
-          findUnique: jest.fn().mockResolvedValue(mockInspection),
-          update: jest.fn().mockResolvedValue(inspectionAfterChanges),
+          findUnique: jest.fn().mockResolvedValue(inspection),
+          update: jest.fn().mockResolvedValue(inspection),
+          findUniqueOrThrow: jest.fn().mockResolvedValue({
+            ...inspection,
+            status: InspectionStatus.APPROVED,
+          }),
         },
         inspectionChangeLog: {
           findMany: jest.fn().mockResolvedValue(mockChangeLogs),
         },
+        inspectionReviewClaim: {
+          deleteMany: jest.fn(),
+        },
       };
-      await transactionCallback(txMock);
-      expect(txMock.inspection.update).toHaveBeenCalledWith({
+      mockPrismaService.$transaction.mockImplementation((callback) =>
+        callback(tx),
+      );
+      return tx;
+    };
+
+    it('should first apply changes, then approve and queue PDF generation', async () => {
+      // ARRANGE
+      const tx = mockTransactionWith(mockInspection);
+      mockJobsService.enqueue.mockResolvedValue({ id: 'mock-job-id' });
+
+      // ACT
+      const result = await service.approveInspection(
+        mockInspectionId,
+        mockReviewerId,
+      );
+
+      // ASSERT
+      // 1. Status and reviewer are set, then the latest changes are applied.
+      expect(tx.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: {
+          status: InspectionStatus.APPROVED,
+          reviewer: { connect: { id: mockReviewerId } },
+        },
+      });
+      expect(tx.inspection.update).toHaveBeenCalledWith({
         where: { id: mockInspectionId },
         data: expect.objectContaining({
           overallRating: 'VERY GOOD',
@@ -210,93 +345,709 @@ describe('InspectionsService', () => {
         }),
       });
 
-      // 2. Verify that PDF generation was called after the initial update.
-      expect(generatePdfSpy).toHaveBeenCalled();
+      // 2. PDF generation is persisted as a job instead of running inline.
+      expect(mockJobsService.enqueue).toHaveBeenCalledWith(
+        JobType.PDF_GENERATION,
+        {
+          inspectionId: mockInspectionId,
+          reviewerId: mockReviewerId,
+          originalStatus: InspectionStatus.NEED_REVIEW,
+        },
+        expect.objectContaining({ inspectionId: mockInspectionId }),
+      );
+      expect(result.status).toBe(InspectionStatus.APPROVED);
+
+      // 3. The claim check runs in the transaction, which then releases it.
+      expect(mockReviewClaimsService.assertNotHeldByOther).toHaveBeenCalledWith(
+        mockInspectionId,
+        mockReviewerId,
+        tx,
+      );
+      expect(tx.inspectionReviewClaim.deleteMany).toHaveBeenCalledWith({
+        where: { inspectionId: mockInspectionId },
+      });
+    });
+
+    it('should reject approval while another reviewer holds the inspection', async () => {
+      const tx = mockTransactionWith(mockInspection);
+      mockReviewClaimsService.assertNotHeldByOther.mockRejectedValueOnce(
+        new ConflictException('held'),
+      );
+
+      await expect(
+        service.approveInspection(mockInspectionId, mockReviewerId),
+      ).rejects.toThrow(ConflictException);
+      expect(tx.inspection.update).not.toHaveBeenCalled();
+      expect(mockJobsService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if inspection does not exist', async () => {
+      mockTransactionWith(null);
+
+      await expect(
+        service.approveInspection(mockInspectionId, mockReviewerId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockJobsService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for wrong initial status', async () => {
+      mockTransactionWith({
+        ...mockInspection,
+        status: InspectionStatus.APPROVED,
+      });
+
+      await expect(
+        service.approveInspection(mockInspectionId, mockReviewerId),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockJobsService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should revert status to NEED_REVIEW if the PDF job cannot be queued', async () => {
+      mockTransactionWith(mockInspection);
+      mockJobsService.enqueue.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        service.approveInspection(mockInspectionId, mockReviewerId),
+      ).rejects.toThrow(InternalServerErrorException);
+
+      expect(prisma.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: { status: InspectionStatus.NEED_REVIEW, reviewerId: null },
+      });
+    });
+
+    it('should only bulk approve inspections within the branch scope', async () => {
+      const tx = mockTransactionWith(mockInspection);
+      mockJobsService.enqueue.mockResolvedValue({ id: 'mock-job-id' });
+      mockPrismaService.inspection.findUnique
+        .mockResolvedValueOnce({ branchCityId: 'mock-branch-id' })
+        .mockResolvedValueOnce({ branchCityId: 'other-branch-id' });
+
+      const result = await service.bulkApproveInspections(
+        [mockInspectionId, 'other-inspection-id'],
+        mockReviewerId,
+        ['mock-branch-id'],
+      );
+
+      expect(result.successful).toEqual([
+        expect.objectContaining({ id: mockInspectionId }),
+      ]);
+      expect(result.failed).toEqual([
+        {
+          id: 'other-inspection-id',
+          error: 'Inspection with ID "other-inspection-id" not found.',
+        },
+      ]);
+      expect(tx.inspection.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('PDF generation job', () => {
+    const pdfJob = buildJob(JobType.PDF_GENERATION, {
+      inspectionId: mockInspectionId,
+      reviewerId: mockReviewerId,
+      originalStatus: InspectionStatus.FAIL_ARCHIVE,
+    });
+    const mockRenderReport: PdfRenderReport = {
+      url: `http://localhost:3000/data/${mockInspectionId}`,
+      renderedAt: '2025-08-15T10:00:00.000Z',
+      timings: {
+        navigationMs: 1200,
+        assetsMs: 2500,
+        pdfMs: 800,
+        totalMs: 4500,
+      },
+      images: { total: 12, loaded: 12, broken: 0, lazy: 4 },
+      brokenImages: [],
+      failedRequests: [],
+      pdfSizeBytes: 1048576,
+      compressionLevel: 'medium',
+      sizeTargeting: {
+        targetMinBytes: 0,
+        targetMaxBytes: 20971520,
+        maxSizeBytes: 20971520,
+        selectedAttempt: 1,
+        inTargetRange: true,
+        attempts: [],
+      },
+      qualityGate: { passed: true, enforced: true, violations: [] },
+    };
+
+    it('should generate both PDFs with a reviewer token and store the results', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        ...mockInspection,
+        status: InspectionStatus.APPROVED,
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: mockReviewerId,
+        email: 'reviewer@example.com',
+        username: 'reviewer',
+        name: 'Reviewer',
+        role: Role.REVIEWER,
+      });
+      mockConfigService.getOrThrow.mockReturnValue('http://localhost:3000');
+      const generatePdfSpy = jest
+        .spyOn(service as any, '_generateAndSavePdf')
+        .mockResolvedValue({
+          pdfPublicUrl: '/pdf/new.pdf',
+          pdfCid: 'new-cid',
+          pdfHashString: 'new-hash',
+          renderReport: mockRenderReport,
+        });
+
+      await getHandler(JobType.PDF_GENERATION).handle(pdfJob);
 
-      // 3. Verify the final update call to save PDF data and set status to APPROVED.
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: mockReviewerId, role: Role.REVIEWER }),
+        expect.anything(),
+      );
+      expect(generatePdfSpy).toHaveBeenCalledWith(
+        `http://localhost:3000/data/${mockInspectionId}`,
+        expect.any(String),
+        'mock-render-token',
+      );
+      expect(generatePdfSpy).toHaveBeenCalledWith(
+        `http://localhost:3000/pdf/${mockInspectionId}`,
+        expect.any(String),
+        'mock-render-token',
+      );
       expect(prisma.inspection.update).toHaveBeenCalledWith({
         where: { id: mockInspectionId },
         data: {
-          status: InspectionStatus.APPROVED,
-          reviewer: { connect: { id: mockReviewerId } },
           urlPdf: '/pdf/new.pdf',
           pdfFileHash: 'new-hash',
           ipfsPdf: 'ipfs://new-cid',
           urlPdfNoDocs: '/pdf/new.pdf',
           pdfFileHashNoDocs: 'new-hash',
           ipfsPdfNoDocs: 'ipfs://new-cid',
+          pdfRenderReport: mockRenderReport,
+          pdfRenderReportNoDocs: mockRenderReport,
         },
       });
     });
 
-    it('should throw NotFoundException if inspection does not exist', async () => {
-      mockPrismaService.$transaction.mockImplementation(async (callback) => {
-        const tx = {
-          inspection: {
-            findUnique: jest.fn().mockResolvedValue(null),
-          },
-        };
-        return await callback(tx);
+    it('should store the failing render report and rethrow when the quality gate fails', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        ...mockInspection,
+        status: InspectionStatus.APPROVED,
       });
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+      mockConfigService.getOrThrow.mockReturnValue('http://localhost:3000');
+      const failedReport: PdfRenderReport = {
+        ...mockRenderReport,
+        url: `http://localhost:3000/pdf/${mockInspectionId}`,
+        images: { total: 12, loaded: 11, broken: 1, lazy: 0 },
+        qualityGate: {
+          passed: false,
+          enforced: true,
+          violations: ['1 broken image(s), at most 0 allowed'],
+        },
+      };
+      jest
+        .spyOn(service as any, '_generateAndSavePdf')
+        .mockImplementation((url: unknown) =>
+          url === failedReport.url
+            ? Promise.reject(new PdfQualityGateError(failedReport))
+            : Promise.resolve({
+                pdfPublicUrl: '/pdf/new.pdf',
+                pdfCid: 'new-cid',
+                pdfHashString: 'new-hash',
+                renderReport: mockRenderReport,
+              }),
+        );
 
       await expect(
-        service.approveInspection(mockInspectionId, mockReviewerId, mockToken),
-      ).rejects.toThrow(NotFoundException);
+        getHandler(JobType.PDF_GENERATION).handle(pdfJob),
+      ).rejects.toBeInstanceOf(PdfQualityGateError);
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: { pdfRenderReportNoDocs: failedReport },
+      });
     });
 
-    it('should throw BadRequestException for wrong initial status', async () => {
-      const wrongStatusInspection = {
+    it('should pin the rendered PDF, upload it to storage and return its URL', async () => {
+      const pdf = Buffer.from('%PDF-1.4');
+      mockPdfRendererService.render.mockResolvedValue({
+        pdf,
+        report: mockRenderReport,
+      });
+      mockIpfsService.add.mockResolvedValue('new-cid');
+
+      const saved = await service['_generateAndSavePdf'](
+        'http://localhost:3000/pdf/x',
+        'report.pdf',
+        'token',
+      );
+
+      expect(mockIpfsPinningService.ensurePinned).toHaveBeenCalledWith(
+        'new-cid',
+        'report.pdf',
+      );
+      expect(mockStorageService.upload).toHaveBeenCalledWith(
+        'pdfarchived/report.pdf',
+        pdf,
+        { contentType: 'application/pdf' },
+      );
+      expect(saved).toEqual(
+        expect.objectContaining({
+          pdfPublicUrl: '/pdfarchived/report.pdf',
+          pdfCid: 'new-cid',
+          renderReport: mockRenderReport,
+        }),
+      );
+    });
+
+    it('should skip the job if the inspection is no longer APPROVED', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue(mockInspection);
+      const generatePdfSpy = jest.spyOn(service as any, '_generateAndSavePdf');
+
+      const result = await getHandler(JobType.PDF_GENERATION).handle(pdfJob);
+
+      expect(result).toEqual({ skipped: true });
+      expect(generatePdfSpy).not.toHaveBeenCalled();
+    });
+
+    it('should roll back to the original status when attempts are exhausted', async () => {
+      await getHandler(JobType.PDF_GENERATION).onExhausted!(
+        pdfJob,
+        new Error('render failed'),
+      );
+
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: { status: InspectionStatus.FAIL_ARCHIVE },
+      });
+    });
+  });
+
+  describe('blockchain minting job', () => {
+    const mintJob = buildJob(JobType.BLOCKCHAIN_MINTING, {
+      inspectionId: mockInspectionId,
+      userId: mockReviewerId,
+      metadata: { name: 'Toyota Used Car Record' },
+    });
+
+    beforeEach(() => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        ...mockInspection,
+        status: InspectionStatus.ARCHIVING,
+      });
+      mockPrismaService.inspection.update.mockResolvedValue({
+        ...mockInspection,
+        status: InspectionStatus.ARCHIVED,
+      });
+    });
+
+    it('should mint, remember the result and archive the inspection', async () => {
+      mockBlockchainService.mintInspectionNft.mockResolvedValue({
+        txHash: 'tx-hash',
+        assetId: 'asset-id',
+      });
+
+      await getHandler(JobType.BLOCKCHAIN_MINTING).handle(mintJob);
+
+      expect(mockJobsService.saveResult).toHaveBeenCalledWith('mock-job-id', {
+        txHash: 'tx-hash',
+        assetId: 'asset-id',
+      });
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: expect.objectContaining({
+          status: InspectionStatus.ARCHIVED,
+          nftAssetId: 'asset-id',
+          blockchainTxHash: 'tx-hash',
+        }) as unknown,
+      });
+    });
+
+    it('should not mint again when a previous attempt already minted', async () => {
+      await getHandler(JobType.BLOCKCHAIN_MINTING).handle({
+        ...mintJob,
+        attempts: 2,
+        result: { txHash: 'tx-hash', assetId: 'asset-id' },
+      });
+
+      expect(mockBlockchainService.mintInspectionNft).not.toHaveBeenCalled();
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: expect.objectContaining({
+          blockchainTxHash: 'tx-hash',
+        }) as unknown,
+      });
+    });
+
+    it('should return the inspection to APPROVED when attempts are exhausted', async () => {
+      await getHandler(JobType.BLOCKCHAIN_MINTING).onExhausted!(
+        mintJob,
+        new Error('submit failed'),
+      );
+
+      expect(mockPrismaService.inspection.updateMany).toHaveBeenCalledWith({
+        where: { id: mockInspectionId, status: InspectionStatus.ARCHIVING },
+        data: { status: InspectionStatus.APPROVED },
+      });
+    });
+  });
+
+  describe('NFT metadata', () => {
+    it('should build the same plate-free metadata for both mint paths', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
         ...mockInspection,
         status: InspectionStatus.APPROVED,
-      };
-      mockPrismaService.$transaction.mockImplementation(async (callback) => {
-        const tx = {
-          inspection: {
-            findUnique: jest.fn().mockResolvedValue(wrongStatusInspection),
-          },
-        };
-        return await callback(tx);
+        pdfFileHash: 'c'.repeat(64),
+        pdfFileHashNoDocs: 'd'.repeat(64),
+      });
+      mockPrismaService.inspection.updateMany.mockResolvedValue({ count: 1 });
+      mockJobsService.findActive.mockResolvedValue(null);
+      mockJobsService.enqueue.mockResolvedValue({ id: 'mint-job-id' });
+
+      await service.processToArchive(mockInspectionId, mockReviewerId);
+      await service.buildArchiveTransaction(mockInspectionId, 'addr_test1');
+
+      const [, queued] = mockJobsService.enqueue.mock.calls[0] as [
+        JobType,
+        { metadata: Record<string, unknown> },
+      ];
+      expect(queued.metadata).toEqual({
+        prettyId: 'YOG-13082025-001',
+        pdfHash: 'd'.repeat(64),
+        vehicleNumberHash: createHash('sha256')
+          .update('AB 1234 CD')
+          .digest('hex'),
+        vehicleNumberAlg: 'sha256',
+        name: 'Toyota Used Car Record YOG-13082025-001',
+        inspectionDate: mockInspection.inspectionDate!.toISOString(),
+        overallRating: 0,
+        carBrand: 'Toyota',
+        carType: 'Avanza',
+        simpleAssetName: 'CAR-dano-dddddddd',
+      });
+      expect(
+        mockBlockchainService.buildAikenMintTransaction,
+      ).toHaveBeenCalledWith({
+        adminAddress: 'addr_test1',
+        metadata: queued.metadata,
+      });
+    });
+  });
+
+  describe('confirmArchive', () => {
+    const confirmDto = { txHash: 'tx-hash', nftAssetId: 'asset-id' };
+    const approved = {
+      ...mockInspection,
+      status: InspectionStatus.APPROVED,
+      pdfFileHashNoDocs: 'pdf-hash',
+    };
+    const confirmationJob = buildJob(JobType.ARCHIVE_CONFIRMATION, {
+      inspectionId: mockInspectionId,
+      ...confirmDto,
+    });
+
+    beforeEach(() => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue(approved);
+      mockPrismaService.inspection.updateMany.mockResolvedValue({ count: 1 });
+      mockJobsService.enqueue.mockResolvedValue({ id: 'confirmation-job-id' });
+    });
+
+    it('should reject a forged submission without touching the inspection', async () => {
+      mockBlockchainService.verifyInspectionMint.mockResolvedValue({
+        status: 'INVALID',
+        reason: 'On-chain pdfHash other-hash does not match',
       });
 
       await expect(
-        service.approveInspection(mockInspectionId, mockReviewerId, mockToken),
-      ).rejects.toThrow(BadRequestException);
+        service.confirmArchive(mockInspectionId, confirmDto),
+      ).rejects.toThrow(/rejected: On-chain pdfHash other-hash/);
+      expect(mockBlockchainService.verifyInspectionMint).toHaveBeenCalledWith(
+        'tx-hash',
+        'asset-id',
+        'pdf-hash',
+      );
+      expect(mockPrismaService.inspection.updateMany).not.toHaveBeenCalled();
     });
 
-    it('should revert status to FAIL_ARCHIVE if PDF generation fails', async () => {
-      // ARRANGE
-      const inspectionAfterChanges = {
-        ...mockInspection,
-        overallRating: 'VERY GOOD',
-      };
-      mockPrismaService.$transaction.mockImplementation(async (callback) => {
-        const tx = {
-          inspection: {
-            findUnique: jest.fn().mockResolvedValue(mockInspection),
-            update: jest.fn().mockResolvedValue(inspectionAfterChanges),
-          },
-          inspectionChangeLog: {
-            findMany: jest.fn().mockResolvedValue(mockChangeLogs),
-          },
-        };
-        return await callback(tx);
-      });
-
-      const pdfError = new Error('PDF generation failed');
-      jest
-        .spyOn(service as any, '_generateAndSavePdf')
-        .mockRejectedValue(pdfError);
+    it('should keep a shallow transaction ARCHIVING and queue its confirmation', async () => {
+      mockBlockchainService.verifyInspectionMint.mockResolvedValue({
+        status: 'VALID',
+        confirmations: 2,
+      });
 
-      mockConfigService.getOrThrow.mockReturnValue('http://localhost:3000');
+      await service.confirmArchive(mockInspectionId, confirmDto);
+
+      expect(mockPrismaService.inspection.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.inspection.updateMany).toHaveBeenCalledWith({
+        where: { id: mockInspectionId, status: InspectionStatus.APPROVED },
+        data: {
+          status: InspectionStatus.ARCHIVING,
+          nftAssetId: 'asset-id',
+          blockchainTxHash: 'tx-hash',
+        },
+      });
+      expect(mockJobsService.enqueue).toHaveBeenCalledWith(
+        JobType.ARCHIVE_CONFIRMATION,
+        { inspectionId: mockInspectionId, ...confirmDto },
+        { inspectionId: mockInspectionId, maxAttempts: 10 },
+      );
+    });
+
+    it('should archive once the confirmation job sees enough depth', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        ...approved,
+        status: InspectionStatus.ARCHIVING,
+        blockchainTxHash: 'tx-hash',
+      });
+      const handler = getHandler(JobType.ARCHIVE_CONFIRMATION);
+
+      mockBlockchainService.verifyInspectionMint.mockResolvedValue({
+        status: 'VALID',
+        confirmations: 3,
+      });
+      await expect(handler.handle(confirmationJob)).rejects.toThrow(
+        '3 of 6 confirmations',
+      );
+      expect(mockPrismaService.inspection.updateMany).not.toHaveBeenCalled();
+
+      mockBlockchainService.verifyInspectionMint.mockResolvedValue({
+        status: 'VALID',
+        confirmations: 6,
+      });
+      await handler.handle(confirmationJob);
+      expect(mockPrismaService.inspection.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockInspectionId,
+          status: InspectionStatus.ARCHIVING,
+          blockchainTxHash: 'tx-hash',
+        },
+        data: {
+          status: InspectionStatus.ARCHIVED,
+          archivedAt: expect.any(Date) as Date,
+        },
+      });
+    });
+
+    it('should return the inspection to APPROVED when the transaction turns out invalid', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        ...approved,
+        status: InspectionStatus.ARCHIVING,
+        blockchainTxHash: 'tx-hash',
+      });
+      mockBlockchainService.verifyInspectionMint.mockResolvedValue({
+        status: 'INVALID',
+        reason: 'Asset asset-id does not exist on chain.',
+      });
 
-      // ACT & ASSERT
       await expect(
-        service.approveInspection(mockInspectionId, mockReviewerId, mockToken),
-      ).rejects.toThrow(InternalServerErrorException);
+        getHandler(JobType.ARCHIVE_CONFIRMATION).handle(confirmationJob),
+      ).resolves.toEqual({
+        rejected: 'Asset asset-id does not exist on chain.',
+      });
+      expect(mockPrismaService.inspection.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockInspectionId,
+          status: InspectionStatus.ARCHIVING,
+          blockchainTxHash: 'tx-hash',
+        },
+        data: {
+          status: InspectionStatus.APPROVED,
+          nftAssetId: null,
+          blockchainTxHash: null,
+        },
+      });
+    });
+  });
 
-      expect(prisma.inspection.update).toHaveBeenCalledWith({
+  describe('NFT burn', () => {
+    const archived = {
+      ...mockInspection,
+      status: InspectionStatus.ARCHIVED,
+      nftAssetId: 'asset-id',
+      blockchainTxHash: 'mint-tx-hash',
+      photos: [],
+    };
+    const burnJob = buildJob(JobType.NFT_BURN, {
+      inspectionId: mockInspectionId,
+      nftAssetId: 'asset-id',
+      reason: 'DELETED',
+    });
+
+    beforeEach(() => {
+      mockPrismaService.inspection.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.inspection.findUniqueOrThrow.mockResolvedValue({
+        nftAssetId: 'asset-id',
+      });
+      mockJobsService.enqueue.mockResolvedValue({ id: 'burn-job-id' });
+      mockPrismaService.$transaction.mockImplementation(
+        (callback: (tx: typeof mockPrismaService) => unknown) =>
+          callback(mockPrismaService),
+      );
+    });
+
+    it('should queue the burn when an archive is deactivated', async () => {
+      await service.deactivateArchive(mockInspectionId, 'mock-admin-id');
+
+      expect(mockPrismaService.inspection.updateMany).toHaveBeenLastCalledWith({
+        where: {
+          id: mockInspectionId,
+          nftAssetId: { not: null },
+          OR: [{ nftBurnStatus: null }, { nftBurnStatus: 'FAILED' }],
+        },
+        data: { nftBurnStatus: 'PENDING', nftBurnTxHash: null },
+      });
+      expect(mockJobsService.enqueue).toHaveBeenCalledWith(
+        JobType.NFT_BURN,
+        {
+          inspectionId: mockInspectionId,
+          nftAssetId: 'asset-id',
+          reason: 'DEACTIVATED',
+        },
+        { inspectionId: mockInspectionId, maxAttempts: 10 },
+      );
+    });
+
+    it('should defer permanent deletion of a minted inspection until the burn', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue(archived);
+
+      await expect(
+        service.deleteInspectionPermanently(mockInspectionId),
+      ).resolves.toBe(false);
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
         where: { id: mockInspectionId },
-        data: { status: InspectionStatus.FAIL_ARCHIVE },
+        data: { deletionRequestedAt: expect.any(Date) as Date },
+      });
+      expect(mockJobsService.enqueue).toHaveBeenCalledWith(
+        JobType.NFT_BURN,
+        expect.objectContaining({ reason: 'DELETED' }),
+        expect.anything(),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should submit the burn, then delete the inspection once it is on chain', async () => {
+      const handler = getHandler(JobType.NFT_BURN);
+      const pending = {
+        ...archived,
+        nftBurnStatus: 'PENDING',
+        deletionRequestedAt: new Date(),
+      };
+      mockPrismaService.inspection.findUnique.mockResolvedValue(pending);
+      mockBlockchainService.burnInspectionNft.mockResolvedValue({
+        txHash: 'burn-tx-hash',
+      });
+      mockBlockchainService.getTransactionTime.mockRejectedValue(
+        new NotFoundException('Transaction burn-tx-hash not found.'),
+      );
+
+      await expect(handler.handle(burnJob)).rejects.toThrow(
+        'Burn transaction burn-tx-hash is not on chain yet.',
+      );
+      expect(mockBlockchainService.burnInspectionNft).toHaveBeenCalledWith(
+        'asset-id',
+        { inspectionId: mockInspectionId, reason: 'DELETED' },
+      );
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: { nftBurnStatus: 'SUBMITTED', nftBurnTxHash: 'burn-tx-hash' },
+      });
+
+      // The retry only waits for the submitted transaction
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        ...pending,
+        nftBurnStatus: 'SUBMITTED',
+        nftBurnTxHash: 'burn-tx-hash',
+      });
+      const burnedAt = new Date('2025-08-24T09:00:00Z');
+      mockBlockchainService.getTransactionTime.mockResolvedValue(burnedAt);
+
+      await expect(handler.handle(burnJob)).resolves.toEqual(
+        expect.objectContaining({ burnTxHash: 'burn-tx-hash', deleted: true }),
+      );
+      expect(mockBlockchainService.burnInspectionNft).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: { nftBurnStatus: 'BURNED', nftBurnedAt: burnedAt },
+      });
+      expect(mockPrismaService.job.update).toHaveBeenCalledWith({
+        where: { id: 'mock-job-id' },
+        data: { inspectionId: null },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+    });
+
+    it('should record a revocation and delete the inspection when the NFT cannot be burned', async () => {
+      const handler = getHandler(JobType.NFT_BURN);
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        ...archived,
+        nftBurnStatus: 'PENDING',
+        deletionRequestedAt: new Date(),
+      });
+      mockBlockchainService.burnInspectionNft.mockRejectedValue(
+        new BadRequestException(
+          'NFT asset-id is not held by the backend wallet and cannot be burned by it.',
+        ),
+      );
+      mockBlockchainService.publishNftRevocation.mockResolvedValue({
+        txHash: 'revocation-tx-hash',
+      });
+
+      await expect(handler.handle(burnJob)).resolves.toEqual(
+        expect.objectContaining({
+          burnTxHash: 'revocation-tx-hash',
+          revoked: true,
+          deleted: true,
+        }),
+      );
+      expect(mockBlockchainService.publishNftRevocation).toHaveBeenCalledWith(
+        'asset-id',
+        { inspectionId: mockInspectionId, reason: 'DELETED' },
+      );
+      expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+        where: { id: mockInspectionId },
+        data: { nftBurnStatus: 'REVOKED', nftBurnTxHash: 'revocation-tx-hash' },
+      });
+      expect(mockBlockchainService.getTransactionTime).not.toHaveBeenCalled();
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+    });
+  });
+
+  describe('findByVehiclePlateNumber', () => {
+    it('should only find inspections within the branch scope', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { id: 'inspection-a' },
+        { id: 'inspection-b' },
+      ]);
+      mockPrismaService.inspection.findFirst.mockResolvedValue(null);
+
+      const result = await service.findByVehiclePlateNumber('AB 1234 CD', [
+        'branch-1',
+      ]);
+
+      expect(result).toBeNull();
+      expect(mockPrismaService.inspection.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['inspection-a', 'inspection-b'] },
+          branchCityId: { in: ['branch-1'] },
+        },
+        include: { photos: true },
+      });
+    });
+  });
+
+  describe('getQueueStats', () => {
+    it('should report the statistics of every job queue', async () => {
+      // Tag each result with its type to check the mapping to response keys
+      mockJobsService.getStats.mockImplementation((type: JobType) =>
+        Promise.resolve({ type }),
+      );
+
+      const stats = await service.getQueueStats();
+
+      expect(stats).toEqual({
+        pdfQueue: { type: JobType.PDF_GENERATION },
+        blockchainQueue: { type: JobType.BLOCKCHAIN_MINTING },
+        archiveConfirmationQueue: { type: JobType.ARCHIVE_CONFIRMATION },
+        nftBurnQueue: { type: JobType.NFT_BURN },
+        ipfsVerificationQueue: { type: JobType.IPFS_VERIFICATION },
       });
     });
   });
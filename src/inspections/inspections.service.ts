@@ -20,6 +20,7 @@ import {
   NotFoundException,
   ForbiddenException,
   ConflictException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service'; // Service for Prisma client interaction
 import { CreateInspectionDto } from './dto/create-inspection.dto'; // DTO for incoming creation data
@@ -33,184 +34,75 @@ import {
   Role,
   InspectionChangeLog,
   Photo, // Import Photo
+  Job,
+  JobType,
+  NftBurnStatus,
 } from '@prisma/client'; // Prisma generated types (Inspection model, Prisma namespace)
-import * as fs from 'fs/promises'; // Use promise-based fs for async file operations
-import * as path from 'path'; // For constructing file paths
 import * as crypto from 'crypto'; // For generating PDF hash
 import { format } from 'date-fns'; // for date formating
 import {
   BlockchainService,
   InspectionNftMetadata,
+  InspectionNftRevocation,
 } from '../blockchain/blockchain.service';
-import { IpfsService } from '../ipfs/ipfs.service';
-import puppeteer, { Browser } from 'puppeteer'; // Import puppeteer and Browser type
+import { cidFromIpfsUrl, IpfsService } from '../ipfs/ipfs.service';
+import { IpfsPinningService } from '../ipfs/ipfs-pinning.service';
 import { ConfigService } from '@nestjs/config';
-// Define path for archived PDFs (ensure this exists or is created by deployment script/manually)
-const PDF_ARCHIVE_PATH = './pdfarchived';
-// Define public base URL for accessing archived PDFs (should come from config in real app)
-const PDF_PUBLIC_BASE_URL = process.env.PDF_PUBLIC_BASE_URL || '/pdfarchived'; // Example: /pdfarchived if served by Nginx
-
-interface NftMetadata {
-  vehicleNumber: string | null;
-  pdfHash: string | null;
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { JobsService, JobQueueStats } from '../jobs/jobs.service';
+import { JobsWorker } from '../jobs/jobs.worker';
+import { CustomerInspectionRequestsService } from '../customer-inspection-requests/customer-inspection-requests.service';
+import {
+  PdfQualityGateError,
+  PdfRendererService,
+  PdfRenderReport,
+} from './pdf-renderer.service';
+import { StorageService } from '../storage/storage.service';
+import {
+  REVIEWABLE_STATUSES,
+  ReviewClaimsService,
+} from './review-claims.service';
+import { hashPdf } from './pdf-hash';
+import {
+  BranchScope,
+  inspectionsInScope,
+  isBranchInScope,
+} from '../permissions/branch-scope';
+
+// Payload persisted with PDF_GENERATION jobs
+interface PdfGenerationJobPayload {
+  inspectionId: string;
+  reviewerId: string;
+  originalStatus: InspectionStatus;
 }
 
-// PDF Generation Queue to limit concurrent operations
-class PdfGenerationQueue {
-  private queue: (() => Promise<any>)[] = [];
-  private running = 0;
-  private readonly maxConcurrent: number;
-  private totalProcessed = 0;
-  private totalErrors = 0;
-  private consecutiveErrors = 0;
-  private readonly maxConsecutiveErrors = 8; // Increased for bulk operations
-  private circuitBreakerOpenUntil = 0;
-
-  constructor(maxConcurrent = 5) {
-    // Increased to 5 for large bulk operations (10 inspections = 20 PDFs)
-    this.maxConcurrent = maxConcurrent;
-  }
-
-  get stats() {
-    return {
-      queueLength: this.queue.length,
-      running: this.running,
-      totalProcessed: this.totalProcessed,
-      totalErrors: this.totalErrors,
-      consecutiveErrors: this.consecutiveErrors,
-      circuitBreakerOpen: Date.now() < this.circuitBreakerOpenUntil,
-    };
-  }
-
-  private isCircuitBreakerOpen(): boolean {
-    return Date.now() < this.circuitBreakerOpenUntil;
-  }
-
-  async add<T>(task: () => Promise<T>): Promise<T> {
-    if (this.isCircuitBreakerOpen()) {
-      throw new Error(
-        'PDF generation circuit breaker is open due to consecutive failures. Please try again later.',
-      );
-    }
-
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await task();
-          this.totalProcessed++;
-          this.consecutiveErrors = 0; // Reset on success
-          resolve(result);
-        } catch (error) {
-          this.totalErrors++;
-          this.consecutiveErrors++;
-
-          // Open circuit breaker if too many consecutive errors
-          if (this.consecutiveErrors >= this.maxConsecutiveErrors) {
-            this.circuitBreakerOpenUntil = Date.now() + 300000; // 5 minutes
-          }
-
-          reject(error as Error);
-        }
-      });
-      void this.processQueue();
-    });
-  }
-
-  private async processQueue() {
-    if (this.running >= this.maxConcurrent || this.queue.length === 0) {
-      return;
-    }
-
-    this.running++;
-    const task = this.queue.shift();
-    if (task) {
-      try {
-        await task();
-      } finally {
-        this.running--;
-        void this.processQueue();
-      }
-    }
-  }
+// One stored PDF variant of an inspection report
+interface SavedPdf {
+  pdfPublicUrl: string;
+  pdfCid: string;
+  pdfHashString: string;
+  renderReport: PdfRenderReport;
 }
 
-// Blockchain/Minting Queue to prevent UTXO conflicts during concurrent minting
-class BlockchainMintingQueue {
-  private queue: (() => Promise<any>)[] = [];
-  private running = 0;
-  private readonly maxConcurrent: number;
-  private totalProcessed = 0;
-  private totalErrors = 0;
-  private consecutiveErrors = 0;
-  private readonly maxConsecutiveErrors = 5;
-  private circuitBreakerOpenUntil = 0;
-
-  constructor(maxConcurrent = 1) {
-    // Use 1 for sequential minting to prevent UTXO conflicts
-    this.maxConcurrent = maxConcurrent;
-  }
-
-  get stats() {
-    return {
-      queueLength: this.queue.length,
-      running: this.running,
-      totalProcessed: this.totalProcessed,
-      totalErrors: this.totalErrors,
-      consecutiveErrors: this.consecutiveErrors,
-      circuitBreakerOpen: Date.now() < this.circuitBreakerOpenUntil,
-    };
-  }
-
-  private isCircuitBreakerOpen(): boolean {
-    return Date.now() < this.circuitBreakerOpenUntil;
-  }
-
-  async add<T>(task: () => Promise<T>): Promise<T> {
-    if (this.isCircuitBreakerOpen()) {
-      throw new Error(
-        'Blockchain minting circuit breaker is open due to consecutive failures. Please try again later.',
-      );
-    }
-
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await task();
-          this.totalProcessed++;
-          this.consecutiveErrors = 0; // Reset on success
-          resolve(result);
-        } catch (error) {
-          this.totalErrors++;
-          this.consecutiveErrors++;
-
-          // Open circuit breaker if too many consecutive errors
-          if (this.consecutiveErrors >= this.maxConsecutiveErrors) {
-            this.circuitBreakerOpenUntil = Date.now() + 180000; // 3 minutes
-          }
-
-          reject(error as Error);
-        }
-      });
-      void this.processQueue();
-    });
-  }
+// Payload persisted with BLOCKCHAIN_MINTING jobs
+interface BlockchainMintingJobPayload {
+  inspectionId: string;
+  userId: string;
+  metadata: InspectionNftMetadata;
+}
 
-  private async processQueue() {
-    if (this.running >= this.maxConcurrent || this.queue.length === 0) {
-      return;
-    }
+// Payload persisted with NFT_BURN jobs
+interface NftBurnJobPayload {
+  inspectionId: string;
+  nftAssetId: string;
+  reason: InspectionNftRevocation['reason'];
+}
 
-    this.running++;
-    const task = this.queue.shift();
-    if (task) {
-      try {
-        await task();
-      } finally {
-        this.running--;
-        void this.processQueue();
-      }
-    }
-  }
+// Payload persisted with ARCHIVE_CONFIRMATION jobs
+interface ArchiveConfirmationJobPayload {
+  inspectionId: string;
+  txHash: string;
+  nftAssetId: string;
 }
 
 /**
@@ -221,22 +113,52 @@ class BlockchainMintingQueue {
  * PDF generation, and blockchain interaction simulation.
  */
 @Injectable()
-export class InspectionsService {
+export class InspectionsService implements OnModuleInit {
   // Initialize a logger for this service context
   private readonly logger = new Logger(InspectionsService.name);
-  // PDF generation queue to limit concurrent operations
-  private readonly pdfQueue = new PdfGenerationQueue(5); // Increased to 5 for large bulk operations
-  // Blockchain minting queue to prevent UTXO conflicts
-  private readonly blockchainQueue = new BlockchainMintingQueue(1); // Sequential minting to prevent UTXO conflicts
   // Inject PrismaService dependency via constructor
   constructor(
     private prisma: PrismaService,
     private blockchainService: BlockchainService,
     private config: ConfigService,
     private readonly ipfsService: IpfsService,
-  ) {
-    // Ensure the PDF archive directory exists on startup
-    void this.ensureDirectoryExists(PDF_ARCHIVE_PATH);
+    private readonly ipfsPinning: IpfsPinningService,
+    private readonly jobsService: JobsService,
+    private readonly jobsWorker: JobsWorker,
+    private readonly jwtService: JwtService,
+    private readonly customerInspectionRequestsService: CustomerInspectionRequestsService,
+    private readonly pdfRenderer: PdfRendererService,
+    private readonly storage: StorageService,
+    private readonly reviewClaimsService: ReviewClaimsService,
+  ) {}
+
+  /**
+   * Registers the persisted job handlers for PDF generation, NFT minting,
+   * confirmation of frontend-minted NFTs and burning of withdrawn NFTs. PDF
+   * generation runs up to PDF_JOB_CONCURRENCY jobs at once (default 5);
+   * minting and burning are strictly sequential to prevent UTXO conflicts.
+   */
+  onModuleInit() {
+    this.jobsWorker.registerHandler(JobType.PDF_GENERATION, {
+      concurrency: Number(this.config.get<string>('PDF_JOB_CONCURRENCY') ?? 5),
+      handle: (job) => this.handlePdfGenerationJob(job),
+      onExhausted: (job) => this.onPdfGenerationJobExhausted(job),
+    });
+    this.jobsWorker.registerHandler(JobType.BLOCKCHAIN_MINTING, {
+      concurrency: 1,
+      handle: (job) => this.handleBlockchainMintingJob(job),
+      onExhausted: (job) => this.onBlockchainMintingJobExhausted(job),
+    });
+    this.jobsWorker.registerHandler(JobType.ARCHIVE_CONFIRMATION, {
+      concurrency: 1,
+      handle: (job) => this.handleArchiveConfirmationJob(job),
+      onExhausted: (job) => this.onArchiveConfirmationJobExhausted(job),
+    });
+    this.jobsWorker.registerHandler(JobType.NFT_BURN, {
+      concurrency: 1,
+      handle: (job) => this.handleNftBurnJob(job),
+      onExhausted: (job) => this.onNftBurnJobExhausted(job),
+    });
   }
 
   /**
@@ -275,25 +197,121 @@ export class InspectionsService {
       return String(input).trim() || undefined;
     }
   }
+  /**
+   * Builds the NFT metadata of an inspection, shared by the backend mint
+   * (processToArchive) and the client-signed mint (buildArchiveTransaction).
+   * Only the hash of the vehicle plate number is included.
+   *
+   * @param {Inspection} inspection - The inspection to mint.
+   * @param {string} vehiclePlateNumber - The inspection's plate number.
+   * @param {string} pdfHash - The hash of the inspection's no-docs PDF.
+   * @returns {InspectionNftMetadata} The metadata to publish with the NFT.
+   */
+  private buildNftMetadata(
+    inspection: Inspection,
+    vehiclePlateNumber: string,
+    pdfHash: string,
+  ): InspectionNftMetadata {
+    // Safely extract vehicleData (it may be stored as JSON object or JSON string)
+    let vehicleDataObj: Record<string, unknown> = {};
+    try {
+      if (typeof inspection.vehicleData === 'string') {
+        vehicleDataObj = JSON.parse(inspection.vehicleData) as Record<
+          string,
+          unknown
+        >;
+      } else if (
+        inspection.vehicleData &&
+        typeof inspection.vehicleData === 'object'
+      ) {
+        vehicleDataObj = inspection.vehicleData as Record<string, unknown>;
+      }
+    } catch (err: unknown) {
+      this.logger.warn(
+        `Failed to parse vehicleData for inspection ${inspection.id}: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+      );
+      vehicleDataObj = {};
+    }
+
+    const carBrandValue = (vehicleDataObj['merekKendaraan'] ??
+      vehicleDataObj['merek'] ??
+      vehicleDataObj['brand']) as string | undefined;
+    const carTypeValue = (vehicleDataObj['tipeKendaraan'] ??
+      vehicleDataObj['tipekendaraan'] ??
+      vehicleDataObj['tipe'] ??
+      vehicleDataObj['model']) as string | undefined;
+
+    const carBrandNorm = this.normalizeVehicleField(carBrandValue) ?? 'Unknown';
+    const carTypeNorm = this.normalizeVehicleField(carTypeValue) ?? 'Unknown';
+
+    // Short, unique asset name to avoid assetId collisions
+    const shortHash =
+      pdfHash.length >= 8
+        ? pdfHash.slice(0, 8)
+        : inspection.id.replace(/-/g, '').slice(0, 8);
+
+    return {
+      prettyId: inspection.pretty_id,
+      pdfHash,
+      // hashed vehicle number and algorithm for verification/audit off-chain
+      ...this.getVehicleNumberHashForMetadata(vehiclePlateNumber),
+      name: `${carBrandNorm} Used Car Record ${inspection.pretty_id}`,
+      inspectionDate: inspection.inspectionDate
+        ? new Date(inspection.inspectionDate).toISOString()
+        : new Date().toISOString(),
+      overallRating: Number(inspection.overallRating) || 0,
+      carBrand: carBrandNorm,
+      carType: carTypeNorm,
+      simpleAssetName: `CAR-dano-${shortHash}`,
+    };
+  }
 
   /**
-   * Get current queue statistics for monitoring purposes
+   * Get current queue statistics for monitoring purposes.
+   * Statistics are computed from persisted jobs, so they cover every worker
+   * and survive restarts.
    */
-  getQueueStats() {
+  async getQueueStats(): Promise<{
+    pdfQueue: JobQueueStats;
+    blockchainQueue: JobQueueStats;
+    archiveConfirmationQueue: JobQueueStats;
+    nftBurnQueue: JobQueueStats;
+    ipfsVerificationQueue: JobQueueStats;
+  }> {
+    const [
+      pdfQueue,
+      blockchainQueue,
+      archiveConfirmationQueue,
+      nftBurnQueue,
+      ipfsVerificationQueue,
+    ] = await Promise.all([
+      this.jobsService.getStats(JobType.PDF_GENERATION),
+      this.jobsService.getStats(JobType.BLOCKCHAIN_MINTING),
+      this.jobsService.getStats(JobType.ARCHIVE_CONFIRMATION),
+      this.jobsService.getStats(JobType.NFT_BURN),
+      this.jobsService.getStats(JobType.IPFS_VERIFICATION),
+    ]);
     return {
-      pdfQueue: this.pdfQueue.stats,
-      blockchainQueue: this.blockchainQueue.stats,
+      pdfQueue,
+      blockchainQueue,
+      archiveConfirmationQueue,
+      nftBurnQueue,
+      ipfsVerificationQueue,
     };
   }
 
   /**
    * Bulk approve multiple inspections with enhanced error handling
-   * Processes inspections sequentially to avoid race conditions and resource exhaustion
+   * Processes inspections sequentially to avoid race conditions. Each approval
+   * only applies the reviewed changes and enqueues its PDF generation job.
+   * Inspections outside the reviewer's branch scope fail as not found.
    */
   async bulkApproveInspections(
     inspectionIds: string[],
     reviewerId: string,
-    token: string | null,
+    branchScope: BranchScope = null,
   ): Promise<{
     successful: Array<{ id: string; message: string }>;
     failed: Array<{ id: string; error: string }>;
@@ -322,16 +340,12 @@ export class InspectionsService {
       try {
         this.logger.log(`Processing inspection ${progress}: ${inspectionId}`);
 
-        // Add small delay between requests to reduce server load
-        if (i > 0) {
-          await this.sleep(500); // 500ms delay between approvals
-        }
-
-        await this.approveInspection(inspectionId, reviewerId, token);
+        await this.assertInBranchScope(inspectionId, branchScope);
+        await this.approveInspection(inspectionId, reviewerId);
 
         successful.push({
           id: inspectionId,
-          message: `Successfully approved (${progress})`,
+          message: `Successfully approved, PDF generation queued (${progress})`,
         });
 
         this.logger.log(
@@ -456,25 +470,6 @@ export class InspectionsService {
     throw new Error(`${operationName} failed after ${maxRetries} attempts`);
   }
 
-  /**
-   * Helper to ensure directory exists.
-   * @param directoryPath The path to the directory.
-   */
-  private async ensureDirectoryExists(directoryPath: string) {
-    try {
-      await fs.mkdir(directoryPath, { recursive: true });
-      this.logger.log(`Directory ensured: ${directoryPath}`);
-    } catch (error: unknown) {
-      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
-        this.logger.error(
-          `Failed to create directory ${directoryPath}`,
-          (error as Error).stack,
-        );
-        // Depending on severity, you might want to throw an error here
-      }
-    }
-  }
-
   /**
    * Generates the next custom inspection ID based on branch code and date.
    * Format: BRANCHCODE-DDMMYYYY-SEQ (e.g., YOG-01052025-001)
@@ -569,13 +564,18 @@ export class InspectionsService {
     try {
       const inspector = await this.prisma.user.findUnique({
         where: { id: effectiveInspectorId },
-        select: { name: true, inspectionBranchCityId: true },
+        select: { name: true, inspectionBranchCityId: true, isActive: true },
       });
       if (!inspector) {
         throw new BadRequestException(
           `Inspector with ID "${effectiveInspectorId}" not found.`,
         );
       }
+      if (!inspector.isActive) {
+        throw new ForbiddenException(
+          `Inspector with ID "${effectiveInspectorId}" is inactive and cannot submit inspections.`,
+        );
+      }
       inspectorName = inspector.name;
       this.logger.log(`Fetched inspector name: ${inspectorName}`);
 
@@ -613,7 +613,8 @@ export class InspectionsService {
         `Fetched branch city name: ${branchCityName}, code: ${branchCode}`,
       );
     } catch (e: unknown) {
-      if (e instanceof BadRequestException) throw e;
+      if (e instanceof BadRequestException || e instanceof ForbiddenException)
+        throw e;
       // Log specific error details if available
       const errorMessage =
         e instanceof Error ? e.message : 'An unknown error occurred';
@@ -696,14 +697,14 @@ export class InspectionsService {
           // photoPaths default [], status default NEED_REVIEW
         };
 
+        let newInspection: { id: string };
         try {
-          const newInspection = await tx.inspection.create({
+          newInspection = await tx.inspection.create({
             data: dataToCreate,
           });
           this.logger.log(
             `Successfully created inspection with custom ID: ${newInspection.id}`,
           );
-          return { id: newInspection.id };
         } catch (error: unknown) {
           if (
             error instanceof Prisma.PrismaClientKnownRequestError &&
@@ -732,6 +733,16 @@ export class InspectionsService {
             'Could not save inspection data.',
           );
         }
+
+        // Link the booking this inspection fulfils; rolls back the inspection if it cannot be linked
+        if (createInspectionDto.customerInspectionRequestId) {
+          await this.customerInspectionRequestsService.linkInspection(
+            tx,
+            createInspectionDto.customerInspectionRequestId,
+            newInspection.id,
+          );
+        }
+        return { id: newInspection.id };
       },
       {
         isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
@@ -836,13 +847,15 @@ export class InspectionsService {
 
   /**
    * Finds a single inspection by vehicle plate number (case-insensitive, space-agnostic).
-   * This endpoint is publicly accessible and does not require role-based filtering.
+   * Inspections outside the caller's branch scope are not found.
    *
    * @param {string} vehiclePlateNumber - The vehicle plate number to search for.
+   * @param {BranchScope} branchScope - Branch cities the caller is limited to (null: all).
    * @returns {Promise<Inspection | null>} The found inspection record or null if not found.
    */
   async findByVehiclePlateNumber(
     vehiclePlateNumber: string,
+    branchScope: BranchScope = null,
   ): Promise<Inspection | null> {
     this.logger.log(
       `Searching for inspection by vehicle plate number: ${vehiclePlateNumber}`,
@@ -855,28 +868,28 @@ export class InspectionsService {
       const idResult = await this.prisma.$queryRaw<{ id: string }[]>`
         SELECT id
         FROM "inspections"
-        WHERE lower(replace("vehiclePlateNumber", ' ', '')) = lower(replace(${vehiclePlateNumber}, ' ', ''))
-        LIMIT 1;
+        WHERE lower(replace("vehiclePlateNumber", ' ', '')) = lower(replace(${vehiclePlateNumber}, ' ', ''));
       `;
 
-      if (idResult.length === 0) {
+      // Now fetch the full inspection object with relations, within the branch scope
+      const inspection = await this.prisma.inspection.findFirst({
+        where: {
+          id: { in: idResult.map(({ id }) => id) },
+          ...inspectionsInScope(branchScope),
+        },
+        include: { photos: true }, // Include related photos
+        // include: { inspector: true, reviewer: true } // Include related users if needed
+      });
+
+      if (!inspection) {
         this.logger.log(
           `No inspection found for plate number: ${vehiclePlateNumber}`,
         );
         return null;
       }
 
-      const inspectionId = idResult[0].id;
-
-      // Now fetch the full inspection object with relations using the ID
-      const inspection = await this.prisma.inspection.findUnique({
-        where: { id: inspectionId },
-        include: { photos: true }, // Include related photos
-        // include: { inspector: true, reviewer: true } // Include related users if needed
-      });
-
       this.logger.log(
-        `Found inspection ID: ${inspection?.id} for plate number: ${vehiclePlateNumber}`,
+        `Found inspection ID: ${inspection.id} for plate number: ${vehiclePlateNumber}`,
       );
       return inspection;
     } catch (error: unknown) {
@@ -898,9 +911,13 @@ export class InspectionsService {
    * Finds inspections matching a keyword across multiple fields.
    *
    * @param {string} keyword - The keyword to search for.
+   * @param {BranchScope} [branchScope] - Branch cities the caller is limited to (null: all).
    * @returns {Promise<Inspection[]>} A list of found inspection records.
    */
-  async searchByKeyword(keyword: string): Promise<Inspection[]> {
+  async searchByKeyword(
+    keyword: string,
+    branchScope: BranchScope = null,
+  ): Promise<Inspection[]> {
     this.logger.log(`Searching for inspections with keyword: ${keyword}`);
 
     // If the keyword is empty, return an empty array to avoid scanning the entire table.
@@ -914,6 +931,7 @@ export class InspectionsService {
       // 'mode: 'insensitive'' will make the search case-insensitive (e.g., 'Avanza' will match 'avanza').
       const inspections = await this.prisma.inspection.findMany({
         where: {
+          ...inspectionsInScope(branchScope),
           OR: [
             { pretty_id: { contains: keyword, mode: 'insensitive' } },
             { vehiclePlateNumber: { contains: keyword, mode: 'insensitive' } },
@@ -995,6 +1013,7 @@ export class InspectionsService {
    * @returns {Promise<{ message: string }>} The existing (unchanged) inspection record.
    * @throws {NotFoundException} If the inspection with the given ID is not found.
    * @throws {BadRequestException} If trying to update an already approved inspection.
+   * @throws {ConflictException} If another reviewer holds the inspection.
    * @throws {InternalServerErrorException} For database errors during logging.
    */
   async update(
@@ -1032,6 +1051,14 @@ export class InspectionsService {
       );
     }
 
+    // Editing claims the inspection (or renews the editor's claim), so other
+    // reviewers cannot interleave their changes while it is under review
+    if (REVIEWABLE_STATUSES.includes(existingInspection.status)) {
+      await this.reviewClaimsService.claim(id, userId);
+    } else {
+      await this.reviewClaimsService.assertNotHeldByOther(id, userId);
+    }
+
     // 2. Initialize array to store change log entries
     const changesToLog: Prisma.InspectionChangeLogCreateManyInput[] = [];
 
@@ -1294,6 +1321,7 @@ export class InspectionsService {
    * @param {InspectionStatus[] | 'DATABASE' | undefined} [status] - Optional filter by inspection status. Can be a single status, an array of statuses, or 'DATABASE' to retrieve all statuses except NEED_REVIEW, regardless of user role.
    * @param {number} page - The page number (1-based).
    * @param {number} pageSize - The number of items per page.
+   * @param {BranchScope} [branchScope] - Branch cities the caller is limited to (null: all).
    * @returns {Promise<{ data: Inspection[], meta: { total: number, page: number, pageSize: number, totalPages: number } }>} An object containing an array of inspection records and pagination metadata.
    */
   async findAll(
@@ -1301,6 +1329,7 @@ export class InspectionsService {
     status?: string | InspectionStatus[], // Accept string or array
     page: number = 1,
     pageSize: number = 10,
+    branchScope: BranchScope = null,
   ): Promise<{
     data: Inspection[];
     meta: { total: number; page: number; pageSize: number; totalPages: number };
@@ -1311,8 +1340,9 @@ export class InspectionsService {
       }, page: ${page}, pageSize: ${pageSize}`,
     );
 
-    // Initialize whereClause
-    const whereClause: Prisma.InspectionWhereInput = {};
+    // Initialize whereClause, limited to the caller's branches
+    const whereClause: Prisma.InspectionWhereInput =
+      inspectionsInScope(branchScope);
 
     let parsedStatus: InspectionStatus[] | 'DATABASE' | undefined;
 
@@ -1437,17 +1467,22 @@ export class InspectionsService {
    *
    * @param {string} id - The UUID of the inspection.
    * @param {Role} userRole - The role of the requesting user.
+   * @param {BranchScope} [branchScope] - Branch cities the caller is limited to (null: all).
    * @returns {Promise<Inspection>} The found inspection record.
-   * @throws {NotFoundException} If inspection not found.
+   * @throws {NotFoundException} If inspection not found (or outside the caller's branches).
    * @throws {ForbiddenException} If user role doesn't have permission to view the inspection in its current status.
    */
-  async findOne(id: string, userRole: Role): Promise<Inspection> {
+  async findOne(
+    id: string,
+    userRole: Role,
+    branchScope: BranchScope = null,
+  ): Promise<Inspection> {
     this.logger.log(
       `Retrieving inspection ID: ${id} for user role: ${userRole}`,
     );
     try {
-      const inspection = await this.prisma.inspection.findUniqueOrThrow({
-        where: { id: id },
+      const inspection = await this.prisma.inspection.findFirstOrThrow({
+        where: { id: id, ...inspectionsInScope(branchScope) },
         include: { photos: true }, // Include related photos
         // include: { inspector: true, reviewer: true } // Include related users if needed
       });
@@ -1504,113 +1539,232 @@ export class InspectionsService {
     }
   }
 
+  /**
+   * Rejects access to an inspection of a branch outside the caller's scope.
+   * Reported as not found, so scoped users cannot probe other branches.
+   *
+   * @param {string} id - The UUID of the inspection.
+   * @param {BranchScope} branchScope - Branch cities the caller is limited to (null: all).
+   * @throws {NotFoundException} If the inspection belongs to another branch.
+   */
+  async assertInBranchScope(
+    id: string,
+    branchScope: BranchScope,
+  ): Promise<void> {
+    if (!branchScope) return;
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id },
+      select: { branchCityId: true },
+    });
+    // A missing inspection is reported by the operation itself
+    if (inspection && !isBranchInScope(branchScope, inspection.branchCityId)) {
+      throw new NotFoundException(`Inspection with ID "${id}" not found.`);
+    }
+  }
+
   /**
    * Generates, saves, and hashes a PDF from a given URL.
-   * This is a helper function for `approveInspection`.
+   * This is a helper function for the PDF generation job handler; concurrency
+   * is bounded by the job worker.
    * @param url The URL to generate the PDF from.
    * @param baseFileName The unique filename for the PDF.
    * @param token The JWT token for authentication.
-   * @returns An object with the public URL, IPFS CID, and hash of the PDF.
+   * @returns An object with the public URL, IPFS CID, hash and render report of the PDF.
+   * @throws {PdfQualityGateError} If every attempt failed the render quality gate.
    */
   private async _generateAndSavePdf(
     url: string,
     baseFileName: string,
     token: string | null,
-  ): Promise<{ pdfPublicUrl: string; pdfCid: string; pdfHashString: string }> {
-    const queueStats = this.pdfQueue.stats;
+  ): Promise<SavedPdf> {
+    this.logger.log(`Starting PDF generation for ${baseFileName}`);
+
+    // Use retry mechanism for PDF generation
+    const { pdf: pdfBuffer, report: renderReport } =
+      await this.retryWithBackoff(
+        () => this.pdfRenderer.render(url, token),
+        3, // max retries
+        2000, // base delay 2 seconds
+        `PDF generation for ${baseFileName}`,
+      );
+
+    const pdfCid = await this.ipfsService.add(pdfBuffer);
+    // Failures are repaired by the scheduled IPFS verification
+    await this.ipfsPinning.ensurePinned(pdfCid, baseFileName);
+    const pdfKey = this.storage.pdfKey(baseFileName);
+    await this.storage.upload(pdfKey, pdfBuffer, {
+      contentType: 'application/pdf',
+    });
+    this.logger.log(`PDF report saved to: ${pdfKey}`);
+
+    const pdfHashString = hashPdf(pdfBuffer);
     this.logger.log(
-      `Adding PDF generation to queue for ${baseFileName}. Queue status: ${queueStats.running}/${queueStats.queueLength + queueStats.running} (running/total)`,
+      `PDF hash calculated for ${baseFileName}: ${pdfHashString}`,
     );
 
-    // Log special warning for very large bulk operations
-    if (queueStats.queueLength > 15) {
+    const pdfPublicUrl = this.storage.toPdfUrl(pdfKey);
+
+    return { pdfPublicUrl, pdfCid, pdfHashString, renderReport };
+  }
+
+  /**
+   * Signs a short-lived access token for the reviewer so the PDF renderer can
+   * load the protected report pages. Tokens are minted when the job runs so no
+   * bearer token has to be persisted with the job.
+   *
+   * @param {string} reviewerId - The reviewer who approved the inspection.
+   * @returns {Promise<string | null>} The signed token, or null if the reviewer no longer exists.
+   */
+  private async signPdfRenderToken(reviewerId: string): Promise<string | null> {
+    const reviewer = await this.prisma.user.findUnique({
+      where: { id: reviewerId },
+    });
+    if (!reviewer) {
       this.logger.warn(
-        `Very large bulk operation detected! ${queueStats.queueLength} PDFs queued. Estimated completion time: ${Math.ceil((queueStats.queueLength / 5) * 3)} minutes`,
+        `Reviewer ${reviewerId} not found; rendering PDF without Authorization header.`,
       );
+      return null;
     }
+    return this.jwtService.sign(
+      {
+        sub: reviewer.id,
+        email: reviewer.email,
+        username: reviewer.username,
+        role: reviewer.role,
+        name: reviewer.name,
+        ver: reviewer.tokenVersion,
+      },
+      {
+        expiresIn:
+          this.config.get<string>('PDF_RENDER_TOKEN_EXPIRATION') ?? '30m',
+      } as JwtSignOptions,
+    );
+  }
 
-    // Use queue to limit concurrent PDF generations
-    return this.pdfQueue.add(async () => {
-      this.logger.log(`Starting PDF generation for ${baseFileName}`);
+  /**
+   * Job handler: renders and stores both PDF variants of an approved
+   * inspection and records their URLs, hashes and IPFS CIDs.
+   * Skips the work if the inspection left the APPROVED state meanwhile.
+   *
+   * @param {Job} job - The claimed PDF_GENERATION job.
+   * @returns {Promise<Prisma.InputJsonValue>} Summary stored as the job result.
+   */
+  private async handlePdfGenerationJob(
+    job: Job,
+  ): Promise<Prisma.InputJsonValue> {
+    const { inspectionId, reviewerId } =
+      job.payload as unknown as PdfGenerationJobPayload;
 
-      // Use retry mechanism for PDF generation
-      const pdfBuffer = await this.retryWithBackoff(
-        () => this.generatePdfFromUrl(url, token),
-        3, // max retries
-        2000, // base delay 2 seconds
-        `PDF generation for ${baseFileName}`,
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id: inspectionId },
+    });
+    if (!inspection || inspection.status !== InspectionStatus.APPROVED) {
+      this.logger.warn(
+        `Skipping PDF generation job ${job.id}: inspection ${inspectionId} is ${inspection ? inspection.status : 'missing'}.`,
       );
+      return { skipped: true };
+    }
 
-      const pdfCid = await this.ipfsService.add(pdfBuffer);
-      const pdfFilePath = path.join(PDF_ARCHIVE_PATH, baseFileName);
-      await fs.writeFile(pdfFilePath, pdfBuffer);
-      this.logger.log(`PDF report saved to: ${pdfFilePath}`);
+    const token = await this.signPdfRenderToken(reviewerId);
+    const timestamp = Date.now();
+    const basePrettyId = inspection.pretty_id;
 
-      const hash = crypto.createHash('sha256');
-      hash.update(pdfBuffer);
-      const pdfHashString = hash.digest('hex');
-      this.logger.log(
-        `PDF hash calculated for ${baseFileName}: ${pdfHashString}`,
-      );
+    const fullPdfUrl = `${this.config.getOrThrow<string>(
+      'CLIENT_BASE_URL_PDF',
+    )}/data/${inspectionId}`;
+    const noDocsPdfUrl = `${this.config.getOrThrow<string>(
+      'CLIENT_BASE_URL_PDF',
+    )}/pdf/${inspectionId}`;
 
-      const pdfPublicUrl = `${PDF_PUBLIC_BASE_URL}/${baseFileName}`;
+    const fullPdfFileName = `${basePrettyId}-${timestamp}.pdf`;
+    const noDocsPdfFileName = `${basePrettyId}-no-confidential-${timestamp}.pdf`;
 
-      const finalStats = this.pdfQueue.stats;
-      this.logger.log(
-        `PDF generation completed for ${baseFileName}. Queue stats: processed=${finalStats.totalProcessed}, errors=${finalStats.totalErrors}`,
-      );
+    this.logger.log(
+      `Starting PDF generation for inspection ${inspectionId}: ${fullPdfFileName}, ${noDocsPdfFileName}`,
+    );
+
+    let fullPdfResult: SavedPdf;
+    let noDocsPdfResult: SavedPdf;
+    try {
+      [fullPdfResult, noDocsPdfResult] = await Promise.all([
+        this._generateAndSavePdf(fullPdfUrl, fullPdfFileName, token),
+        this._generateAndSavePdf(noDocsPdfUrl, noDocsPdfFileName, token),
+      ]);
+    } catch (error: unknown) {
+      // Keep the failing report for diagnosis; the job retries or rolls back
+      if (error instanceof PdfQualityGateError) {
+        const report = error.report as unknown as Prisma.InputJsonValue;
+        await this.prisma.inspection.update({
+          where: { id: inspectionId },
+          data:
+            error.report.url === fullPdfUrl
+              ? { pdfRenderReport: report }
+              : { pdfRenderReportNoDocs: report },
+        });
+      }
+      throw error;
+    }
 
-      return { pdfPublicUrl, pdfCid, pdfHashString };
+    // --- Final Database Update with PDF info ---
+    await this.prisma.inspection.update({
+      where: { id: inspectionId },
+      data: {
+        urlPdf: fullPdfResult.pdfPublicUrl,
+        pdfFileHash: fullPdfResult.pdfHashString,
+        ipfsPdf: `ipfs://${fullPdfResult.pdfCid}`,
+        urlPdfNoDocs: noDocsPdfResult.pdfPublicUrl,
+        pdfFileHashNoDocs: noDocsPdfResult.pdfHashString,
+        ipfsPdfNoDocs: `ipfs://${noDocsPdfResult.pdfCid}`,
+        pdfRenderReport:
+          fullPdfResult.renderReport as unknown as Prisma.InputJsonValue,
+        pdfRenderReportNoDocs:
+          noDocsPdfResult.renderReport as unknown as Prisma.InputJsonValue,
+      },
     });
+
+    this.logger.log(`PDF reports stored for inspection ${inspectionId}`);
+    return {
+      urlPdf: fullPdfResult.pdfPublicUrl,
+      urlPdfNoDocs: noDocsPdfResult.pdfPublicUrl,
+    };
+  }
+
+  /**
+   * Called when a PDF generation job exhausted its attempts.
+   * Resets the inspection so the reviewer can approve it again.
+   *
+   * @param {Job} job - The failed PDF_GENERATION job.
+   */
+  private async onPdfGenerationJobExhausted(job: Job): Promise<void> {
+    const { inspectionId, originalStatus } =
+      job.payload as unknown as PdfGenerationJobPayload;
+    await this.rollbackInspectionStatusAfterError(inspectionId, originalStatus);
   }
 
   /**
    * Approves an inspection, applies the latest logged change for each field,
-   * generates and stores the PDF, calculates its hash, and changes status to APPROVED.
+   * changes status to APPROVED and enqueues a persisted PDF generation job.
    * Fetches the latest changes from InspectionChangeLog and updates the Inspection record.
-   * Records the reviewer ID and optionally clears applied change logs.
-   * Enhanced with better error handling and automatic rollback to NEED_REVIEW on failure.
+   * Records the reviewer ID. The PDF URLs, hashes and CIDs are filled in by the
+   * job; if it exhausts its retries the status is rolled back to NEED_REVIEW
+   * (or FAIL_ARCHIVE when that was the original status).
    *
    * @param {string} inspectionId - The UUID of the inspection to approve.
    * @param {string} reviewerId - The UUID of the user (REVIEWER/ADMIN) approving.
-   * @param {string | null} token - The JWT token of the reviewer.
    * @returns {Promise<Inspection>} The updated inspection record.
    * @throws {NotFoundException} If inspection not found.
    * @throws {BadRequestException} If inspection is not in NEED_REVIEW or FAIL_ARCHIVE state.
-   * @throws {InternalServerErrorException} For database errors or PDF generation issues.
+   * @throws {ConflictException} If another reviewer holds the inspection.
+   * @throws {InternalServerErrorException} For database errors or if the job cannot be queued.
    */
   async approveInspection(
     inspectionId: string,
     reviewerId: string,
-    token: string | null, // Accept the token
   ): Promise<Inspection> {
-    const startTime = Date.now();
-    const queueStatsBefore = this.pdfQueue.stats;
-
     this.logger.log(
-      `Reviewer ${reviewerId} attempting to approve inspection ${inspectionId}. Queue status: ${queueStatsBefore.running} running, ${queueStatsBefore.queueLength} queued`,
+      `Reviewer ${reviewerId} attempting to approve inspection ${inspectionId}`,
     );
 
-    // Warning if queue is getting too busy (may indicate bulk approve)
-    if (queueStatsBefore.queueLength > 15) {
-      this.logger.warn(
-        `PDF generation queue is very busy with ${queueStatsBefore.queueLength} items queued. Large bulk approval detected (possibly 10+ inspections).`,
-      );
-    } else if (queueStatsBefore.queueLength > 8) {
-      this.logger.warn(
-        `PDF generation queue is busy with ${queueStatsBefore.queueLength} items queued. Bulk approval in progress.`,
-      );
-    }
-
-    if (queueStatsBefore.circuitBreakerOpen) {
-      this.logger.error(
-        `PDF generation circuit breaker is open. Cannot process approval for inspection ${inspectionId}`,
-      );
-      throw new InternalServerErrorException(
-        'PDF generation service is temporarily unavailable due to consecutive failures. Please try again later.',
-      );
-    }
-
     let updatedInspectionWithChanges: Inspection | null = null;
     let originalStatus: InspectionStatus | null = null;
 
@@ -1645,6 +1799,13 @@ export class InspectionsService {
             );
           }
 
+          // Only the reviewer holding a claimed or assigned inspection may approve it
+          await this.reviewClaimsService.assertNotHeldByOther(
+            inspectionId,
+            reviewerId,
+            tx,
+          );
+
           // Set status to processing to prevent concurrent approvals
           await tx.inspection.update({
             where: { id: inspectionId },
@@ -1653,6 +1814,10 @@ export class InspectionsService {
               reviewer: { connect: { id: reviewerId } }, // Set reviewer immediately
             },
           });
+          // The review is over: release the claim or assignment
+          await tx.inspectionReviewClaim.deleteMany({
+            where: { inspectionId },
+          });
 
           // 2. Fetch all change logs for this inspection
           const allChanges = await tx.inspectionChangeLog.findMany({
@@ -1821,67 +1986,33 @@ export class InspectionsService {
         },
       );
 
-      // --- PDF Generation (Post-Transaction) with Enhanced Error Handling ---
-      const timestamp = Date.now();
-      const basePrettyId = updatedInspectionWithChanges.pretty_id;
-
-      const fullPdfUrl = `${this.config.getOrThrow<string>(
-        'CLIENT_BASE_URL_PDF',
-      )}/data/${inspectionId}`;
-      const noDocsPdfUrl = `${this.config.getOrThrow<string>(
-        'CLIENT_BASE_URL_PDF',
-      )}/pdf/${inspectionId}`;
-
-      const fullPdfFileName = `${basePrettyId}-${timestamp}.pdf`;
-      const noDocsPdfFileName = `${basePrettyId}-no-confidential-${timestamp}.pdf`;
-
+      // --- Queue PDF Generation (Post-Transaction) ---
       try {
-        this.logger.log(
-          `Starting PDF generation for inspection ${inspectionId}: ${fullPdfFileName}, ${noDocsPdfFileName}`,
-        );
-
-        const [fullPdfResult, noDocsPdfResult] = await Promise.all([
-          this._generateAndSavePdf(fullPdfUrl, fullPdfFileName, token),
-          this._generateAndSavePdf(noDocsPdfUrl, noDocsPdfFileName, token),
-        ]);
-
-        // --- Final Database Update with PDF info and Final Status ---
-        const finalUpdateData: Prisma.InspectionUpdateInput = {
-          status: InspectionStatus.APPROVED, // Ensure final approved status
-          urlPdf: fullPdfResult.pdfPublicUrl,
-          pdfFileHash: fullPdfResult.pdfHashString,
-          ipfsPdf: `ipfs://${fullPdfResult.pdfCid}`,
-          urlPdfNoDocs: noDocsPdfResult.pdfPublicUrl,
-          pdfFileHashNoDocs: noDocsPdfResult.pdfHashString,
-          ipfsPdfNoDocs: `ipfs://${noDocsPdfResult.pdfCid}`,
-        };
-
-        const finalInspection = await this.prisma.inspection.update({
-          where: { id: inspectionId },
-          data: finalUpdateData,
-        });
-
-        const totalTime = Date.now() - startTime;
-        const queueStatsAfter = this.pdfQueue.stats;
-
-        this.logger.log(
-          `Inspection ${inspectionId} approved successfully in ${totalTime}ms. Queue stats: processed=${queueStatsAfter.totalProcessed}, errors=${queueStatsAfter.totalErrors}`,
+        await this.jobsService.enqueue(
+          JobType.PDF_GENERATION,
+          {
+            inspectionId,
+            reviewerId,
+            originalStatus: originalStatus ?? InspectionStatus.NEED_REVIEW,
+          },
+          {
+            inspectionId,
+            maxAttempts: Number(
+              this.config.get<string>('PDF_JOB_MAX_ATTEMPTS') ?? 3,
+            ),
+          },
         );
-
-        return finalInspection;
-      } catch (pdfError: unknown) {
-        // Enhanced error handling with automatic rollback to NEED_REVIEW
+      } catch (queueError: unknown) {
         const errorMessage =
-          pdfError instanceof Error
-            ? pdfError.message
-            : 'Unknown PDF generation error';
+          queueError instanceof Error
+            ? queueError.message
+            : 'Unknown queue error';
 
         this.logger.error(
-          `PDF generation failed for inspection ${inspectionId}: ${errorMessage}`,
-          pdfError instanceof Error ? pdfError.stack : 'No stack trace',
+          `Failed to queue PDF generation for inspection ${inspectionId}: ${errorMessage}`,
+          queueError instanceof Error ? queueError.stack : 'No stack trace',
         );
 
-        // Use helper method for rollback
         if (originalStatus) {
           await this.rollbackInspectionStatusAfterError(
             inspectionId,
@@ -1889,27 +2020,15 @@ export class InspectionsService {
           );
         }
 
-        // Determine error type and message for client
-        if (
-          pdfError instanceof Error &&
-          pdfError.message.includes('circuit breaker')
-        ) {
-          throw new InternalServerErrorException(
-            'PDF generation service is temporarily overloaded. The inspection status has been reset to NEED_REVIEW. Please try again in a few minutes.',
-          );
-        } else if (
-          pdfError instanceof Error &&
-          pdfError.message.includes('timeout')
-        ) {
-          throw new InternalServerErrorException(
-            `PDF generation timed out for inspection ${inspectionId}. The inspection status has been reset to NEED_REVIEW. Please try again.`,
-          );
-        } else {
-          throw new InternalServerErrorException(
-            `PDF generation failed for inspection ${inspectionId}: ${errorMessage}. The inspection status has been reset to NEED_REVIEW. Please try again.`,
-          );
-        }
+        throw new InternalServerErrorException(
+          `Failed to queue PDF generation for inspection ${inspectionId}: ${errorMessage}. The inspection status has been reset. Please try again.`,
+        );
       }
+
+      this.logger.log(
+        `Inspection ${inspectionId} approved by reviewer ${reviewerId}; PDF generation queued.`,
+      );
+      return updatedInspectionWithChanges;
     } catch (transactionError: unknown) {
       // Handle database transaction errors
       const errorMessage =
@@ -1927,9 +2046,11 @@ export class InspectionsService {
       // Check for specific database errors
       if (
         transactionError instanceof BadRequestException ||
-        transactionError instanceof NotFoundException
+        transactionError instanceof NotFoundException ||
+        transactionError instanceof ConflictException ||
+        transactionError instanceof InternalServerErrorException
       ) {
-        throw transactionError; // Re-throw validation errors as-is
+        throw transactionError; // Re-throw validation, claim and queueing errors as-is
       }
 
       throw new InternalServerErrorException(
@@ -1939,291 +2060,27 @@ export class InspectionsService {
   }
 
   /**
-   * Generates PDF from a frontend URL using Puppeteer.
-   * @param url The URL of the frontend page to render.
-   * @param token Optional JWT token to include in headers.
-   * @returns A Buffer containing the generated PDF data.
+   * Processes an approved inspection for archiving.
+   * Validates the inspection, builds the NFT metadata, moves the status to
+   * ARCHIVING and enqueues a persisted minting job. The job sets the status to
+   * ARCHIVED once the NFT is minted; if minting exhausts its retries the
+   * inspection returns to APPROVED so archiving can be retried later.
+   *
+   * @param {string} inspectionId - The UUID of the inspection to archive.
+   * @param {string} userId - The ID of the user initiating the archive (ADMIN/REVIEWER).
+   * @returns {Promise<Inspection>} The inspection record in ARCHIVING status.
+   * @throws {NotFoundException} If inspection not found.
+   * @throws {BadRequestException} If inspection is not APPROVED or lacks required fields.
+   * @throws {ConflictException} If its PDF generation is still queued or running.
+   * @throws {InternalServerErrorException} If the minting job cannot be queued.
    */
-  private async generatePdfFromUrl(
-    url: string,
-    token: string | null, // Accept the token
-  ): Promise<Buffer> {
-    let browser: Browser | null = null;
-    this.logger.log(`Generating PDF from URL: ${url}`);
-
-    // Add a random delay to help with concurrent requests (adaptive based on queue size)
-    const currentQueueStats = this.pdfQueue.stats;
-    let delayMultiplier = 1000; // Base 1 second
-
-    if (currentQueueStats.queueLength > 15) {
-      delayMultiplier = 5000; // 0-5s for very large bulk (10+ inspections)
-    } else if (currentQueueStats.queueLength > 8) {
-      delayMultiplier = 3000; // 0-3s for large bulk (5-10 inspections)
-    } else if (currentQueueStats.queueLength > 3) {
-      delayMultiplier = 2000; // 0-2s for medium bulk (3-5 inspections)
-    }
-
-    const randomDelay = Math.random() * delayMultiplier;
-    await this.sleep(randomDelay);
-
-    this.logger.debug(
-      `Applied ${Math.round(randomDelay)}ms delay for queue size ${currentQueueStats.queueLength}`,
-    );
-
-    try {
-      browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--memory-pressure-off',
-          '--max_old_space_size=4096',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-renderer-backgrounding',
-          '--disable-ipc-flooding-protection',
-          '--disable-hang-monitor',
-          '--disable-client-side-phishing-detection',
-          '--disable-component-update',
-          '--disable-default-apps',
-          '--disable-domain-reliability',
-          '--disable-extensions',
-          '--disable-features=TranslateUI',
-          '--disable-sync',
-          '--hide-scrollbars',
-          '--mute-audio',
-          '--no-default-browser-check',
-          '--no-first-run',
-        ],
-        executablePath: '/usr/bin/chromium-browser',
-        timeout: 60000, // 1 minute timeout for browser launch
-        protocolTimeout: 600000, // 10 minutes timeout for protocol operations
-      });
-
-      const page = await browser.newPage();
-
-      // Set proper viewport for web content (maintain original layout)
-      await page.setViewport({
-        width: 1200, // Standard desktop width
-        height: 1600, // Sufficient height for content
-        deviceScaleFactor: 1,
-      });
-
-      // Get compression level from environment
-      const compressionLevel = process.env.PDF_COMPRESSION_LEVEL || 'low';
-      const enableOptimization = compressionLevel !== 'none';
-
-      // Only apply optimizations if compression is enabled
-      if (enableOptimization) {
-        await page.setRequestInterception(true);
-        page.on('request', (req) => {
-          const resourceType = req.resourceType();
-          const requestUrl = req.url();
-
-          // Only block truly unnecessary resources, KEEP images and fonts
-          if (
-            requestUrl.includes('analytics') ||
-            requestUrl.includes('tracking') ||
-            requestUrl.includes('ads') ||
-            requestUrl.includes('facebook.com') ||
-            requestUrl.includes('google-analytics') ||
-            requestUrl.includes('googletag') ||
-            requestUrl.includes('doubleclick') ||
-            resourceType === 'websocket' ||
-            resourceType === 'eventsource'
-          ) {
-            void req.abort();
-          } else {
-            // Allow all other resources including images, fonts, stylesheets
-            void req.continue();
-          }
-        });
-      }
-
-      if (token) {
-        const headers: Record<string, string> = {
-          Authorization: `Bearer ${token}`,
-        };
-        await page.setExtraHTTPHeaders(headers);
-        this.logger.debug(
-          'Added Authorization header to Puppeteer navigation.',
-        );
-      }
-
-      this.logger.log(`Navigating to ${url}`);
-
-      // Use different wait strategies based on network conditions
-      let waitUntil: 'load' | 'networkidle0' | 'networkidle2' = 'networkidle0';
-
-      try {
-        await page.goto(url, {
-          waitUntil,
-          timeout: 600000, // Increased to 10 minutes for better reliability
-        });
-      } catch (navigationError: unknown) {
-        // If networkidle0 fails, try with networkidle2
-        const errorMsg =
-          navigationError instanceof Error
-            ? navigationError.message
-            : 'Unknown error';
-        this.logger.warn(
-          `Navigation with ${waitUntil} failed (${errorMsg}), trying with 'networkidle2' strategy`,
-        );
-        waitUntil = 'networkidle2';
-        await page.goto(url, {
-          waitUntil,
-          timeout: 600000,
-        });
-      }
-
-      await page.waitForSelector('#glosarium', {
-        visible: true,
-        timeout: 600000, // Increased to 10 minutes for better reliability
-      });
-
-      // Wait for images to load
-      this.logger.log('Waiting for images to load...');
-      await page.evaluate(async () => {
-        const images = Array.from(document.querySelectorAll('img'));
-        await Promise.all(
-          images.map((img) => {
-            if (img.complete) return Promise.resolve();
-            return new Promise((resolve, reject) => {
-              img.addEventListener('load', resolve);
-              img.addEventListener('error', reject);
-              // Fallback timeout for individual images
-              setTimeout(resolve, 10000); // 10 seconds max per image
-            });
-          }),
-        );
-      });
-
-      // Additional wait to ensure everything is rendered
-      await this.sleep(2000); // 2 second buffer
-      this.logger.log('All images loaded, proceeding with PDF generation...');
-
-      // Only apply CSS optimizations if compression is enabled
-      if (enableOptimization) {
-        await page.addStyleTag({
-          content: `
-            @media print {
-              * {
-                -webkit-print-color-adjust: exact !important;
-                color-adjust: exact !important;
-              }
-              /* Keep images intact and visible */
-              img {
-                max-width: 100% !important;
-                height: auto !important;
-                display: block !important;
-                page-break-inside: avoid !important;
-              }
-              /* Only remove heavy decorative elements that don't affect content */
-              .shadow:not(.inspection-shadow), .drop-shadow:not(.inspection-shadow) {
-                box-shadow: none !important;
-                filter: none !important;
-              }
-            }
-          `,
-        });
-
-        // Very light optimization - only remove truly unnecessary elements
-        await page.evaluate(() => {
-          // Remove only video elements that are clearly not part of inspection
-          const heavyElements = document.querySelectorAll(
-            'video:not([data-inspection]):not([class*="inspection"])',
-          );
-          heavyElements.forEach((el) => {
-            (el as HTMLElement).style.display = 'none';
-          });
-        });
-      }
-
-      this.logger.log(`Generating PDF with ${compressionLevel} compression...`);
-
-      // Use conservative scale values to maintain layout quality
-      let scale = 1.0; // Default: no scaling for best quality
-
-      switch (compressionLevel) {
-        case 'high':
-          scale = 0.85; // Modest reduction
-          break;
-        case 'medium':
-          scale = 0.9; // Light reduction
-          break;
-        case 'low':
-        case 'none':
-          scale = 1.0; // No scaling
-          break;
-      }
-
-      const pdfBuffer = await page.pdf({
-        format: 'A4',
-        printBackground: true,
-        preferCSSPageSize: false,
-        displayHeaderFooter: false,
-        margin: {
-          top: '10mm',
-          bottom: '10mm',
-          left: '10mm',
-          right: '10mm',
-        },
-        scale,
-        omitBackground: false,
-        timeout: 600000, // Increased to 10 minutes for better reliability
-        tagged: compressionLevel === 'none', // Only tag for highest quality
-      });
-
-      const sizeInMB = (pdfBuffer.length / 1024 / 1024).toFixed(2);
-      this.logger.log(`PDF generated successfully from ${url}`);
-      this.logger.log(
-        `PDF size: ${sizeInMB} MB (compression: ${compressionLevel})`,
-      );
-
-      return Buffer.from(pdfBuffer);
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'An unknown error occurred';
-      const errorStack =
-        error instanceof Error ? error.stack : 'No stack trace available';
-      this.logger.error(
-        `Failed to generate PDF from URL ${url}: ${errorMessage}`,
-        errorStack,
-      );
-      throw new InternalServerErrorException(
-        `Could not generate PDF report from URL: ${errorMessage}`,
-      );
-    } finally {
-      if (browser) {
-        await browser.close(); // Pastikan browser SELALU ditutup
-        this.logger.log(`Puppeteer browser closed for URL: ${url}`);
-      }
-    }
-  }
-
-  /**
-   * Processes an approved inspection for archiving.
-   * Fetches the content from the provided URL, converts it to PDF, calculates its hash,
-   * simulates blockchain interaction, and updates the inspection status to ARCHIVED or FAIL_ARCHIVE.
-   *
-   * @param {string} inspectionId - The UUID of the inspection to archive.
-   * @param {string} userId - The ID of the user initiating the archive (ADMIN/REVIEWER).
-   * @returns {Promise<Inspection>} The final updated inspection record.
-   * @throws {NotFoundException} If inspection not found.
-   * @throws {BadRequestException} If inspection is not in NEED_REVIEW or FAIL_ARCHIVE state.
-   * @throws {InternalServerErrorException} For database errors.
-   */
-  async processToArchive(
-    inspectionId: string,
-    userId: string,
-  ): Promise<Inspection> {
-    this.logger.log(
-      `User ${userId} starting archive process for inspection ${inspectionId}`,
-    );
+  async processToArchive(
+    inspectionId: string,
+    userId: string,
+  ): Promise<Inspection> {
+    this.logger.log(
+      `User ${userId} starting archive process for inspection ${inspectionId}`,
+    );
 
     // 1. Find the inspection and validate status
     const inspection = await this.prisma.inspection.findUnique({
@@ -2239,6 +2096,17 @@ export class InspectionsService {
       );
     }
 
+    // PDF hashes are only final once the PDF generation job has finished
+    const pendingPdfJob = await this.jobsService.findActive(
+      JobType.PDF_GENERATION,
+      inspectionId,
+    );
+    if (pendingPdfJob) {
+      throw new ConflictException(
+        `PDF generation for inspection ${inspectionId} is still in progress. Please try archiving again once it completes.`,
+      );
+    }
+
     // Ensure required metadata fields are present for minting
     if (!inspection.vehiclePlateNumber) {
       this.logger.error(
@@ -2265,255 +2133,215 @@ export class InspectionsService {
       );
     }
 
-    try {
-      // 2. Minting (with blockchain queue to prevent UTXO conflicts)
-      let blockchainResult: { txHash: string; assetId: string } | null = null;
-      let blockchainSuccess = false;
-
-      try {
-        // Now that we've checked for null, we can safely assert these are strings for the metadata type
-        // Build metadata for NFT minting. We include a hashed vehicle number for privacy
-        // and attach inspection details required for attributes.
-        const vehicleHashObj = this.getVehicleNumberHashForMetadata(
-          inspection.vehiclePlateNumber,
-        );
+    // 2. Build the NFT metadata
+    const metadataForNft = this.buildNftMetadata(
+      inspection,
+      inspection.vehiclePlateNumber,
+      inspection.pdfFileHashNoDocs,
+    );
 
-        // Safely extract vehicleData (it may be stored as JSON object or JSON string)
-        let vehicleDataObj: Record<string, unknown> = {};
-        try {
-          if (typeof inspection.vehicleData === 'string') {
-            vehicleDataObj = JSON.parse(
-              inspection.vehicleData as string,
-            ) as Record<string, unknown>;
-          } else if (
-            inspection.vehicleData &&
-            typeof inspection.vehicleData === 'object'
-          ) {
-            vehicleDataObj = inspection.vehicleData as Record<string, unknown>;
-          }
-        } catch (err: unknown) {
-          this.logger.warn(
-            `Failed to parse vehicleData for inspection ${inspectionId}: ${
-              err instanceof Error ? err.message : String(err)
-            }`,
-          );
-          vehicleDataObj = {};
-        }
+    // 3. Move to ARCHIVING (guarded against concurrent archive requests)
+    const { count } = await this.prisma.inspection.updateMany({
+      where: { id: inspectionId, status: InspectionStatus.APPROVED },
+      data: { status: InspectionStatus.ARCHIVING },
+    });
+    if (count === 0) {
+      throw new BadRequestException(
+        `Inspection ${inspectionId} is no longer ${InspectionStatus.APPROVED}; it may already be archiving.`,
+      );
+    }
 
-        const carBrandValue = (vehicleDataObj['merekKendaraan'] ??
-          vehicleDataObj['merek'] ??
-          vehicleDataObj['brand']) as string | undefined;
-        const carTypeValue = (vehicleDataObj['tipeKendaraan'] ??
-          vehicleDataObj['tipekendaraan'] ??
-          vehicleDataObj['tipe'] ??
-          vehicleDataObj['model']) as string | undefined;
-
-        const carBrandNorm =
-          this.normalizeVehicleField(carBrandValue) ?? 'Unknown';
-        const carTypeNorm =
-          this.normalizeVehicleField(carTypeValue) ?? 'Unknown';
-
-        const metadataForNft: NftMetadata & Partial<InspectionNftMetadata> = {
-          // Do not include plaintext vehicleNumber on-chain if privacy is desired.
-          vehicleNumber: null,
-          pdfHash: inspection.pdfFileHashNoDocs,
-          // hashed vehicle number and algorithm for verification/audit off-chain
-          // these will be included in metadata attributes by the blockchain service
-          // by reading these fields (vehicleNumberHash/vehicleNumberAlg).
-          ...(vehicleHashObj as Record<string, unknown>),
-          name: `${carBrandNorm} Used Car Record ${inspection.pretty_id}-${String(
-            Date.now(),
-          ).slice(-8)}`,
-          // inspection-level fields (ensure correct types)
-          inspectionDate: inspection.inspectionDate
-            ? new Date(inspection.inspectionDate).toISOString()
-            : new Date().toISOString(),
-          overallRating:
-            typeof inspection.overallRating === 'number'
-              ? inspection.overallRating
-              : Number(inspection.overallRating) || 0,
-          carBrand: carBrandNorm,
-          carType: carTypeNorm,
-        } as unknown as NftMetadata & Partial<InspectionNftMetadata>;
-        // Hapus field null/undefined dari metadata jika perlu (This step might be redundant now with checks above, but kept for safety)
-        Object.keys(metadataForNft).forEach((key) =>
-          metadataForNft[key] === undefined || metadataForNft[key] === null
-            ? delete metadataForNft[key]
-            : {},
-        );
+    // 4. Queue minting (processed sequentially to prevent UTXO conflicts)
+    try {
+      await this.jobsService.enqueue(
+        JobType.BLOCKCHAIN_MINTING,
+        {
+          inspectionId,
+          userId,
+          metadata: metadataForNft,
+        } as unknown as Prisma.InputJsonValue,
+        {
+          inspectionId,
+          maxAttempts: Number(
+            this.config.get<string>('MINT_JOB_MAX_ATTEMPTS') ?? 3,
+          ),
+        },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(
+        `Failed to queue minting for inspection ${inspectionId}: ${errorMessage}`,
+        error instanceof Error ? error.stack : 'No stack trace available',
+      );
+      await this.revertArchivingToApproved(inspectionId);
+      throw new InternalServerErrorException(
+        `Archiving process failed for inspection ${inspectionId}.`,
+      );
+    }
 
-        // Ensure an asset name that is short and unique to avoid assetId collisions. Use first 8 chars of PDF hash or fallback to inspectionId.
-        const shortHash = (() => {
-          if (
-            typeof inspection.pdfFileHashNoDocs === 'string' &&
-            inspection.pdfFileHashNoDocs.length >= 8
-          ) {
-            return inspection.pdfFileHashNoDocs.slice(0, 8);
-          }
-          return inspectionId.replace(/-/g, '').slice(0, 8);
-        })();
+    this.logger.log(
+      `Inspection ${inspectionId} set to ${InspectionStatus.ARCHIVING}; minting queued.`,
+    );
+    return this.prisma.inspection.findUniqueOrThrow({
+      where: { id: inspectionId },
+    });
+  }
 
-        // assign name field on metadata (will be sanitized later in BlockchainService)
-        (metadataForNft as Partial<InspectionNftMetadata>).simpleAssetName =
-          `CAR-dano-${shortHash}`;
+  /**
+   * Job handler: mints the inspection NFT and stores the result.
+   * Skips the work if the inspection left the ARCHIVING state meanwhile.
+   *
+   * @param {Job} job - The claimed BLOCKCHAIN_MINTING job.
+   * @returns {Promise<Prisma.InputJsonValue>} Transaction hash and asset ID stored as the job result.
+   */
+  private async handleBlockchainMintingJob(
+    job: Job,
+  ): Promise<Prisma.InputJsonValue> {
+    const { inspectionId, metadata } =
+      job.payload as unknown as BlockchainMintingJobPayload;
 
-        // Log blockchain queue stats before adding to queue
-        const queueStats = this.blockchainQueue.stats;
-        this.logger.log(
-          `Adding blockchain minting to queue for inspection ${inspectionId}. Queue status: ${queueStats.running}/${queueStats.queueLength + queueStats.running} (running/total)`,
-        );
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id: inspectionId },
+    });
+    if (!inspection || inspection.status !== InspectionStatus.ARCHIVING) {
+      this.logger.warn(
+        `Skipping minting job ${job.id}: inspection ${inspectionId} is ${inspection ? inspection.status : 'missing'}.`,
+      );
+      return { skipped: true };
+    }
 
-        this.logger.log(
-          `Calling blockchainService.mintInspectionNft for inspection ${inspectionId}`,
-        );
+    // A previous attempt may have minted successfully but failed to update the
+    // inspection; reuse its result instead of minting a second NFT.
+    let blockchainResult = job.result as {
+      txHash: string;
+      assetId: string;
+    } | null;
+    if (!blockchainResult?.txHash) {
+      this.logger.log(
+        `Calling blockchainService.mintInspectionNft for inspection ${inspectionId}`,
+      );
+      blockchainResult =
+        await this.blockchainService.mintInspectionNft(metadata);
+      await this.jobsService.saveResult(job.id, blockchainResult);
+      this.logger.log(
+        `Blockchain interaction SUCCESS for inspection ${inspectionId}`,
+      );
+    } else {
+      this.logger.warn(
+        `Reusing mint result of a previous attempt for inspection ${inspectionId} (tx ${blockchainResult.txHash})`,
+      );
+    }
 
-        // Use blockchain queue to prevent UTXO conflicts
-        blockchainResult = await this.blockchainQueue.add(async () => {
-          return await this.blockchainService.mintInspectionNft(
-            metadataForNft as unknown as InspectionNftMetadata,
+    // Build update data but do not explicitly set optional fields to `null`.
+    // If we write `null` for `nftAssetId` we risk clearing an existing value
+    // when a concurrent record already claimed the assetId (P2002). Instead,
+    // only include nftAssetId and blockchainTxHash when we actually have a value.
+    const updateData = {
+      status: InspectionStatus.ARCHIVED,
+      archivedAt: new Date(),
+      ...(blockchainResult?.assetId
+        ? { nftAssetId: blockchainResult.assetId }
+        : {}),
+      ...(blockchainResult?.txHash
+        ? { blockchainTxHash: blockchainResult.txHash }
+        : {}),
+    } as Prisma.InspectionUpdateInput;
+    let finalInspection: Inspection;
+    try {
+      finalInspection = await this.prisma.inspection.update({
+        where: { id: inspectionId },
+        data: updateData,
+      });
+    } catch (dbErr: unknown) {
+      // Handle unique constraint on nft_asset_id gracefully (another record already used this assetId)
+      if (
+        dbErr instanceof Prisma.PrismaClientKnownRequestError &&
+        dbErr.code === 'P2002'
+      ) {
+        const meta = dbErr.meta as unknown;
+        const metaHasNftTarget =
+          meta &&
+          typeof meta === 'object' &&
+          Array.isArray((meta as { target?: unknown }).target) &&
+          ((meta as { target?: unknown }).target as unknown[]).some(
+            (t) => String(t) === 'nft_asset_id',
           );
-        });
-
-        blockchainSuccess = true;
-        this.logger.log(
-          `Blockchain interaction SUCCESS for inspection ${inspectionId}`,
-        );
-      } catch (blockchainError: unknown) {
-        const errorMessage =
-          blockchainError instanceof Error
-            ? blockchainError.message
-            : 'An unknown blockchain error occurred';
-        const errorStack =
-          blockchainError instanceof Error
-            ? blockchainError.stack
-            : 'No stack trace available';
-        this.logger.error(
-          `Blockchain interaction FAILED for inspection ${inspectionId}: ${errorMessage}`,
-          errorStack,
-        );
-        blockchainSuccess = false;
-      }
-
-      // 3. Update Inspection Record in DB (Final Status)
-      // Requirement: if minting fails, keep the inspection as APPROVED (allow manual retry later)
-      const finalStatus = blockchainSuccess
-        ? InspectionStatus.ARCHIVED
-        : InspectionStatus.APPROVED; // changed from FAIL_ARCHIVE to APPROVED on mint failure
-
-      // Build update data but do not explicitly set optional fields to `null`.
-      // If we write `null` for `nftAssetId` we risk clearing an existing value
-      // when a concurrent record already claimed the assetId (P2002). Instead,
-      // only include nftAssetId and blockchainTxHash when we actually have a value.
-      const updateDataBase: Prisma.InspectionUpdateInput = {
-        status: finalStatus,
-        archivedAt: blockchainSuccess ? new Date() : null,
-      };
-
-      const updateData = {
-        ...updateDataBase,
-        // Only attach nftAssetId when we received a non-empty assetId from the
-        // blockchain operation. This avoids writing `NULL` into the DB.
-        ...(blockchainSuccess && blockchainResult?.assetId
-          ? { nftAssetId: blockchainResult.assetId }
-          : {}),
-        ...(blockchainSuccess && blockchainResult?.txHash
-          ? { blockchainTxHash: blockchainResult.txHash }
-          : {}),
-      } as Prisma.InspectionUpdateInput;
-      let finalInspection: Inspection;
-      try {
-        finalInspection = await this.prisma.inspection.update({
-          where: { id: inspectionId },
-          data: updateData,
-        });
-      } catch (dbErr: unknown) {
-        // Handle unique constraint on nft_asset_id gracefully (another record already used this assetId)
-        if (
-          dbErr instanceof Prisma.PrismaClientKnownRequestError &&
-          dbErr.code === 'P2002'
-        ) {
-          const meta = dbErr.meta as unknown;
-          const metaHasNftTarget =
-            meta &&
-            typeof meta === 'object' &&
-            Array.isArray((meta as { target?: unknown }).target) &&
-            ((meta as { target?: unknown }).target as unknown[]).some(
-              (t) => String(t) === 'nft_asset_id',
-            );
 
-          if (metaHasNftTarget) {
-            this.logger.warn(
-              `nft_asset_id conflict when updating inspection ${inspectionId}. Another record already uses this assetId. Retrying update without nftAssetId.`,
-            );
-            // remove nftAssetId from updateData and retry
-            const safeUpdate = { ...updateData } as Record<string, unknown>;
-            if ('nftAssetId' in safeUpdate) delete safeUpdate.nftAssetId;
-            // Attempt a second update without nftAssetId
-            finalInspection = await this.prisma.inspection.update({
-              where: { id: inspectionId },
-              data: safeUpdate as Prisma.InspectionUpdateInput,
-            });
-          } else {
-            throw dbErr;
-          }
+        if (metaHasNftTarget) {
+          this.logger.warn(
+            `nft_asset_id conflict when updating inspection ${inspectionId}. Another record already uses this assetId. Retrying update without nftAssetId.`,
+          );
+          // remove nftAssetId from updateData and retry
+          const safeUpdate = { ...updateData } as Record<string, unknown>;
+          if ('nftAssetId' in safeUpdate) delete safeUpdate.nftAssetId;
+          // Attempt a second update without nftAssetId
+          finalInspection = await this.prisma.inspection.update({
+            where: { id: inspectionId },
+            data: safeUpdate as Prisma.InspectionUpdateInput,
+          });
         } else {
           throw dbErr;
         }
+      } else {
+        throw dbErr;
       }
-      this.logger.log(
-        `Inspection ${inspectionId} final status set to ${finalStatus}.`,
-      );
-      return finalInspection;
-    } catch (error: unknown) {
-      // Catch errors from URL fetch, PDF conversion, file saving, hashing, or the final DB update
-      const errorMessage =
-        error instanceof Error ? error.message : 'An unknown error occurred';
-      const errorStack =
-        error instanceof Error ? error.stack : 'No stack trace available';
-      this.logger.error(
-        `Archiving process failed during PDF generation or subsequent steps for inspection ${inspectionId}: ${errorMessage}`,
-        errorStack,
-      );
+    }
+    this.logger.log(
+      `Inspection ${inspectionId} final status set to ${finalInspection.status}.`,
+    );
+    return {
+      txHash: blockchainResult.txHash,
+      assetId: blockchainResult.assetId,
+    };
+  }
 
-      // Attempt to revert status if stuck in ARCHIVING (best effort)
-      try {
-        await this.prisma.inspection.updateMany({
-          where: { id: inspectionId, status: InspectionStatus.ARCHIVING },
-          data: { status: InspectionStatus.APPROVED },
-        });
-        this.logger.log(
-          `Inspection ${inspectionId} status reverted to APPROVED due to error.`,
-        );
-      } catch (revertError: unknown) {
-        const revertErrorMessage =
-          revertError instanceof Error
-            ? revertError.message
-            : 'An unknown error occurred during revert';
-        const revertErrorStack =
-          revertError instanceof Error
-            ? revertError.stack
-            : 'No stack trace available during revert';
-        this.logger.error(
-          `Failed to revert status from ARCHIVING for inspection ${inspectionId} after error: ${revertErrorMessage}`,
-          revertErrorStack,
-        );
-      }
+  /**
+   * Called when a minting job exhausted its attempts.
+   * Requirement: if minting fails, keep the inspection as APPROVED (allow manual retry later).
+   *
+   * @param {Job} job - The failed BLOCKCHAIN_MINTING job.
+   */
+  private async onBlockchainMintingJobExhausted(job: Job): Promise<void> {
+    const { inspectionId } =
+      job.payload as unknown as BlockchainMintingJobPayload;
+    await this.revertArchivingToApproved(inspectionId);
+  }
 
-      // Re-throw appropriate error
-      if (
-        error instanceof BadRequestException ||
-        error instanceof NotFoundException
-      )
-        throw error;
-      throw new InternalServerErrorException(
-        `Archiving process failed for inspection ${inspectionId}.`,
+  /**
+   * Reverts an inspection stuck in ARCHIVING back to APPROVED (best effort).
+   *
+   * @param {string} inspectionId - The UUID of the inspection.
+   */
+  private async revertArchivingToApproved(inspectionId: string) {
+    try {
+      await this.prisma.inspection.updateMany({
+        where: { id: inspectionId, status: InspectionStatus.ARCHIVING },
+        data: { status: InspectionStatus.APPROVED },
+      });
+      this.logger.log(
+        `Inspection ${inspectionId} status reverted to APPROVED due to error.`,
+      );
+    } catch (revertError: unknown) {
+      const revertErrorMessage =
+        revertError instanceof Error
+          ? revertError.message
+          : 'An unknown error occurred during revert';
+      const revertErrorStack =
+        revertError instanceof Error
+          ? revertError.stack
+          : 'No stack trace available during revert';
+      this.logger.error(
+        `Failed to revert status from ARCHIVING for inspection ${inspectionId} after error: ${revertErrorMessage}`,
+        revertErrorStack,
       );
     }
   }
 
   /**
    * Deactivates an archived inspection record.
-   * Changes status from ARCHIVED to DEACTIVATED.
+   * Changes status from ARCHIVED to DEACTIVATED and queues the burn of its NFT,
+   * which revokes it on chain.
    *
    * @param {string} inspectionId - The UUID of the inspection to deactivate.
    * @param {string} userId - The ID of the user performing the action (ADMIN).
@@ -2554,6 +2382,7 @@ export class InspectionsService {
           );
         }
       }
+      await this.requestNftBurn(inspectionId, 'DEACTIVATED');
       this.logger.log(
         `Inspection ${inspectionId} reactivated by user ${userId}`,
       );
@@ -2582,7 +2411,8 @@ export class InspectionsService {
 
   /**
    * Reactivates a deactivated inspection record.
-   * Changes status from DEACTIVATED back to ARCHIVED.
+   * Changes status from DEACTIVATED back to ARCHIVED, unless its NFT is
+   * burned or being burned.
    *
    * @param {string} inspectionId - The UUID of the inspection to reactivate.
    * @param {string} userId - The ID of the user performing the action (ADMIN).
@@ -2601,22 +2431,31 @@ export class InspectionsService {
         where: {
           id: inspectionId,
           status: InspectionStatus.DEACTIVATED,
+          OR: [
+            { nftBurnStatus: null },
+            { nftBurnStatus: NftBurnStatus.FAILED },
+          ],
         },
         data: {
           status: InspectionStatus.ARCHIVED,
           deactivatedAt: null, // Clear deactivation timestamp
+          nftBurnStatus: null,
         },
       });
 
       if (result.count === 0) {
         const exists = await this.prisma.inspection.findUnique({
           where: { id: inspectionId },
-          select: { status: true },
+          select: { status: true, nftBurnStatus: true },
         });
         if (!exists) {
           throw new NotFoundException(
             `Inspection with ID "${inspectionId}" not found.`,
           );
+        } else if (exists.status === InspectionStatus.DEACTIVATED) {
+          throw new BadRequestException(
+            `Inspection ${inspectionId} cannot be reactivated because its NFT burn is ${exists.nftBurnStatus}; it must be archived again.`,
+          );
         } else {
           throw new BadRequestException(
             `Inspection ${inspectionId} cannot be reactivated because its current status is '${exists.status}', not '${InspectionStatus.ARCHIVED}'.`,
@@ -2678,14 +2517,14 @@ export class InspectionsService {
       );
     }
 
-    // 2. Siapkan data untuk dikirim ke blockchain service
+    // 2. Siapkan data untuk dikirim ke blockchain service (metadata sama dengan processToArchive)
     const buildDto: BuildMintTxDto = {
       adminAddress: adminAddress,
-      inspectionData: {
-        vehicleNumber: inspection.vehiclePlateNumber,
-        pdfHash: inspection.pdfFileHashNoDocs,
-        nftDisplayName: `Car Inspection ${inspection.vehiclePlateNumber}`,
-      },
+      metadata: this.buildNftMetadata(
+        inspection,
+        inspection.vehiclePlateNumber,
+        inspection.pdfFileHashNoDocs,
+      ),
     };
 
     // 3. Delegasikan pembangunan transaksi ke BlockchainService
@@ -2693,20 +2532,30 @@ export class InspectionsService {
   }
 
   /**
-   * Tahap 2: Menyimpan hasil minting setelah frontend berhasil mengirimkan transaksi.
+   * Tahap 2: Memverifikasi transaksi minting yang dikirim frontend di blockchain.
+   * The transaction must have minted exactly one unit of `nftAssetId` under the
+   * inspection policy, with the inspection's no-docs PDF hash in its metadata.
+   * The inspection is marked ARCHIVED once the transaction is
+   * ARCHIVE_CONFIRMATION_DEPTH blocks deep (default 6); until then it stays
+   * ARCHIVING and an ARCHIVE_CONFIRMATION job keeps checking it.
+   *
    * @param inspectionId ID dari inspeksi yang di-update.
    * @param confirmDto Data konfirmasi dari frontend (txHash dan nftAssetId).
-   * @returns Record inspeksi yang sudah terupdate.
+   * @returns Record inspeksi yang sudah terupdate (ARCHIVED atau ARCHIVING).
+   * @throws NotFoundException jika inspeksi tidak ditemukan.
+   * @throws BadRequestException jika inspeksi bukan APPROVED atau transaksi tidak valid.
+   * @throws ConflictException jika NFT sudah tercatat untuk inspeksi lain.
    */
   async confirmArchive(
     inspectionId: string,
     confirmDto: ConfirmMintDto,
   ): Promise<Inspection> {
+    const { txHash, nftAssetId } = confirmDto;
     this.logger.log(
-      `Konfirmasi minting untuk inspeksi ${inspectionId} dengan TxHash: ${confirmDto.txHash}`,
+      `Konfirmasi minting untuk inspeksi ${inspectionId} dengan TxHash: ${txHash}`,
     );
 
-    // Pastikan inspeksi ada
+    // 1. Pastikan inspeksi ada dan siap diarsipkan
     const inspection = await this.prisma.inspection.findUnique({
       where: { id: inspectionId },
     });
@@ -2714,17 +2563,435 @@ export class InspectionsService {
       throw new NotFoundException(
         `Inspeksi ${inspectionId} tidak ditemukan untuk konfirmasi.`,
       );
+    if (inspection.status !== InspectionStatus.APPROVED) {
+      throw new BadRequestException(
+        `Inspeksi ${inspectionId} tidak bisa dikonfirmasi. Status: ${inspection.status}`,
+      );
+    }
+    if (!inspection.pdfFileHashNoDocs) {
+      throw new BadRequestException(
+        `Inspeksi ${inspectionId} belum memiliki hash PDF untuk diverifikasi.`,
+      );
+    }
+
+    // 2. Verifikasi transaksi di blockchain (belum ditemukan = masih menunggu)
+    const verification = await this.blockchainService.verifyInspectionMint(
+      txHash,
+      nftAssetId,
+      inspection.pdfFileHashNoDocs,
+    );
+    if (verification.status === 'INVALID') {
+      throw new BadRequestException(
+        `Mint confirmation for inspection ${inspectionId} rejected: ${verification.reason}`,
+      );
+    }
+
+    // 3. Pindah ke ARCHIVING (guarded against concurrent confirmations)
+    let count: number;
+    try {
+      ({ count } = await this.prisma.inspection.updateMany({
+        where: { id: inspectionId, status: InspectionStatus.APPROVED },
+        data: {
+          status: InspectionStatus.ARCHIVING,
+          nftAssetId,
+          blockchainTxHash: txHash,
+        },
+      }));
+    } catch (error: unknown) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `NFT ${nftAssetId} is already recorded for another inspection.`,
+        );
+      }
+      throw error;
+    }
+    if (count === 0) {
+      throw new BadRequestException(
+        `Inspection ${inspectionId} is no longer ${InspectionStatus.APPROVED}; it may already be archiving.`,
+      );
+    }
+
+    // 4. Selesaikan sekarang jika cukup dalam, jika tidak tunggu lewat job
+    if (
+      verification.status === 'VALID' &&
+      verification.confirmations >= this.archiveConfirmationDepth()
+    ) {
+      return this.markConfirmedArchive(inspectionId, txHash);
+    }
+    try {
+      await this.jobsService.enqueue(
+        JobType.ARCHIVE_CONFIRMATION,
+        {
+          inspectionId,
+          txHash,
+          nftAssetId,
+        } as unknown as Prisma.InputJsonValue,
+        {
+          inspectionId,
+          maxAttempts: Number(
+            this.config.get<string>('ARCHIVE_CONFIRMATION_JOB_MAX_ATTEMPTS') ??
+              10,
+          ),
+        },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(
+        `Failed to queue mint confirmation for inspection ${inspectionId}: ${errorMessage}`,
+        error instanceof Error ? error.stack : 'No stack trace available',
+      );
+      await this.rejectArchiveConfirmation(inspectionId, txHash, errorMessage);
+      throw new InternalServerErrorException(
+        `Archive confirmation failed for inspection ${inspectionId}.`,
+      );
+    }
+
+    this.logger.log(
+      `Inspection ${inspectionId} set to ${InspectionStatus.ARCHIVING}; waiting for tx ${txHash} to be confirmed.`,
+    );
+    return this.prisma.inspection.findUniqueOrThrow({
+      where: { id: inspectionId },
+    });
+  }
+
+  /**
+   * Job handler: re-verifies a frontend-submitted mint transaction and marks
+   * the inspection as ARCHIVED once it is deep enough. Throws (and is retried
+   * with backoff) while the transaction is missing or too shallow; a
+   * transaction that turns out invalid (e.g. rolled back and replaced) sends
+   * the inspection back to APPROVED.
+   *
+   * @param {Job} job - The claimed ARCHIVE_CONFIRMATION job.
+   * @returns {Promise<Prisma.InputJsonValue>} The outcome stored as the job result.
+   */
+  private async handleArchiveConfirmationJob(
+    job: Job,
+  ): Promise<Prisma.InputJsonValue> {
+    const { inspectionId, txHash, nftAssetId } =
+      job.payload as unknown as ArchiveConfirmationJobPayload;
+
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id: inspectionId },
+    });
+    if (
+      !inspection ||
+      inspection.status !== InspectionStatus.ARCHIVING ||
+      inspection.blockchainTxHash !== txHash ||
+      !inspection.pdfFileHashNoDocs
+    ) {
+      this.logger.warn(
+        `Skipping archive confirmation job ${job.id}: inspection ${inspectionId} is no longer waiting for tx ${txHash}.`,
+      );
+      return { skipped: true };
+    }
 
-    // Update database dengan hasil dari blockchain
-    return this.prisma.inspection.update({
+    const verification = await this.blockchainService.verifyInspectionMint(
+      txHash,
+      nftAssetId,
+      inspection.pdfFileHashNoDocs,
+    );
+    if (verification.status === 'INVALID') {
+      await this.rejectArchiveConfirmation(
+        inspectionId,
+        txHash,
+        verification.reason,
+      );
+      return { rejected: verification.reason };
+    }
+    const depth = this.archiveConfirmationDepth();
+    if (verification.status === 'NOT_FOUND') {
+      throw new Error(`Transaction ${txHash} is not on chain yet.`);
+    }
+    if (verification.confirmations < depth) {
+      throw new Error(
+        `Transaction ${txHash} has ${verification.confirmations} of ${depth} confirmations.`,
+      );
+    }
+
+    await this.markConfirmedArchive(inspectionId, txHash);
+    return { txHash, assetId: nftAssetId };
+  }
+
+  /**
+   * Called when a mint transaction was not confirmed within the allowed
+   * attempts; the inspection goes back to APPROVED so it can be minted again.
+   *
+   * @param {Job} job - The failed ARCHIVE_CONFIRMATION job.
+   */
+  private async onArchiveConfirmationJobExhausted(job: Job): Promise<void> {
+    const { inspectionId, txHash } =
+      job.payload as unknown as ArchiveConfirmationJobPayload;
+    await this.rejectArchiveConfirmation(
+      inspectionId,
+      txHash,
+      `transaction was not confirmed after ${job.attempts} checks`,
+    );
+  }
+
+  /**
+   * Marks an inspection waiting for its mint transaction as ARCHIVED.
+   *
+   * @param {string} inspectionId - The UUID of the inspection.
+   * @param {string} txHash - The confirmed mint transaction.
+   * @returns {Promise<Inspection>} The archived inspection.
+   */
+  private async markConfirmedArchive(
+    inspectionId: string,
+    txHash: string,
+  ): Promise<Inspection> {
+    await this.prisma.inspection.updateMany({
+      where: {
+        id: inspectionId,
+        status: InspectionStatus.ARCHIVING,
+        blockchainTxHash: txHash,
+      },
+      data: { status: InspectionStatus.ARCHIVED, archivedAt: new Date() },
+    });
+    this.logger.log(
+      `Inspection ${inspectionId} final status set to ${InspectionStatus.ARCHIVED} (tx ${txHash} confirmed).`,
+    );
+    return this.prisma.inspection.findUniqueOrThrow({
       where: { id: inspectionId },
+    });
+  }
+
+  /**
+   * Sends an inspection waiting for a mint transaction back to APPROVED and
+   * clears the submitted transaction and asset.
+   *
+   * @param {string} inspectionId - The UUID of the inspection.
+   * @param {string} txHash - The rejected mint transaction.
+   * @param {string} reason - Why the transaction was rejected.
+   */
+  private async rejectArchiveConfirmation(
+    inspectionId: string,
+    txHash: string,
+    reason: string,
+  ): Promise<void> {
+    await this.prisma.inspection.updateMany({
+      where: {
+        id: inspectionId,
+        status: InspectionStatus.ARCHIVING,
+        blockchainTxHash: txHash,
+      },
       data: {
-        status: InspectionStatus.ARCHIVED,
-        nftAssetId: confirmDto.nftAssetId,
-        blockchainTxHash: confirmDto.txHash,
-        archivedAt: new Date(),
+        status: InspectionStatus.APPROVED,
+        nftAssetId: null,
+        blockchainTxHash: null,
       },
     });
+    this.logger.warn(
+      `Mint confirmation of inspection ${inspectionId} (tx ${txHash}) rejected: ${reason}`,
+    );
+  }
+
+  /**
+   * Queues the burn of an inspection's NFT, unless it has none or its burn is
+   * already underway or done. A FAILED burn starts over with a new
+   * transaction: the one it submitted may have been dropped or expired, and
+   * if it did land the retry finds the NFT already burned. A failure to queue
+   * is recorded as FAILED rather than failing the calling request, whose
+   * change already happened.
+   *
+   * @param {string} inspectionId - The UUID of the inspection.
+   * @param {InspectionNftRevocation['reason']} reason - Why the NFT is revoked.
+   * @returns {Promise<void>}
+   */
+  private async requestNftBurn(
+    inspectionId: string,
+    reason: InspectionNftRevocation['reason'],
+  ): Promise<void> {
+    const { count } = await this.prisma.inspection.updateMany({
+      where: {
+        id: inspectionId,
+        nftAssetId: { not: null },
+        OR: [{ nftBurnStatus: null }, { nftBurnStatus: NftBurnStatus.FAILED }],
+      },
+      data: { nftBurnStatus: NftBurnStatus.PENDING, nftBurnTxHash: null },
+    });
+    if (count === 0) return;
+
+    const { nftAssetId } = await this.prisma.inspection.findUniqueOrThrow({
+      where: { id: inspectionId },
+      select: { nftAssetId: true },
+    });
+    try {
+      await this.jobsService.enqueue(
+        JobType.NFT_BURN,
+        { inspectionId, nftAssetId, reason },
+        {
+          inspectionId,
+          maxAttempts: Number(
+            this.config.get<string>('NFT_BURN_JOB_MAX_ATTEMPTS') ?? 10,
+          ),
+        },
+      );
+      this.logger.log(
+        `Burn of NFT ${nftAssetId} queued for ${reason.toLowerCase()} inspection ${inspectionId}`,
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.error(
+        `Failed to queue the burn of NFT ${nftAssetId} of inspection ${inspectionId}: ${errorMessage}`,
+        error instanceof Error ? error.stack : 'No stack trace available',
+      );
+      await this.prisma.inspection.update({
+        where: { id: inspectionId },
+        data: { nftBurnStatus: NftBurnStatus.FAILED },
+      });
+    }
+  }
+
+  /**
+   * Job handler: burns the NFT of a deactivated or deleted inspection, then
+   * waits (by failing the attempt, retried with backoff) until the burn
+   * transaction is on chain. An NFT the backend cannot burn (held by another
+   * wallet, or minted with a policy that cannot burn it) is not retried: a
+   * revocation record is published instead and the NFT marked REVOKED. Once
+   * burned or revoked, a requested permanent deletion is carried out; the job
+   * is detached first so it keeps the burn record.
+   *
+   * @param {Job} job - The claimed NFT_BURN job.
+   * @returns {Promise<Prisma.InputJsonValue>} The burn transaction stored as the job result.
+   */
+  private async handleNftBurnJob(job: Job): Promise<Prisma.InputJsonValue> {
+    const { inspectionId, nftAssetId, reason } =
+      job.payload as unknown as NftBurnJobPayload;
+
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id: inspectionId },
+      include: { photos: true },
+    });
+    if (
+      !inspection ||
+      inspection.nftAssetId !== nftAssetId ||
+      inspection.nftBurnStatus === null ||
+      inspection.nftBurnStatus === NftBurnStatus.FAILED
+    ) {
+      this.logger.warn(
+        `Skipping NFT burn job ${job.id}: inspection ${inspectionId} no longer waits for the burn of ${nftAssetId}.`,
+      );
+      return { skipped: true };
+    }
+
+    // A previous attempt may have submitted the burn already
+    let burnTxHash = inspection.nftBurnTxHash;
+    let burnStatus = inspection.nftBurnStatus;
+    if (
+      burnStatus !== NftBurnStatus.BURNED &&
+      burnStatus !== NftBurnStatus.REVOKED
+    ) {
+      if (!burnTxHash) {
+        try {
+          const burn = await this.blockchainService.burnInspectionNft(
+            nftAssetId,
+            { inspectionId, reason },
+          );
+          if (burn) {
+            burnTxHash = burn.txHash;
+            await this.prisma.inspection.update({
+              where: { id: inspectionId },
+              data: {
+                nftBurnStatus: NftBurnStatus.SUBMITTED,
+                nftBurnTxHash: burnTxHash,
+              },
+            });
+          }
+        } catch (error: unknown) {
+          if (!(error instanceof BadRequestException)) throw error;
+          const revocation = await this.blockchainService.publishNftRevocation(
+            nftAssetId,
+            { inspectionId, reason },
+          );
+          burnTxHash = revocation.txHash;
+          burnStatus = NftBurnStatus.REVOKED;
+          await this.prisma.inspection.update({
+            where: { id: inspectionId },
+            data: {
+              nftBurnStatus: NftBurnStatus.REVOKED,
+              nftBurnTxHash: burnTxHash,
+            },
+          });
+          this.logger.warn(
+            `NFT ${nftAssetId} of inspection ${inspectionId} cannot be burned (${error.message}); revocation recorded in tx ${burnTxHash}.`,
+          );
+        }
+      }
+
+      if (burnStatus !== NftBurnStatus.REVOKED) {
+        let burnedAt = new Date();
+        if (burnTxHash) {
+          try {
+            burnedAt =
+              await this.blockchainService.getTransactionTime(burnTxHash);
+          } catch (error: unknown) {
+            if (!(error instanceof NotFoundException)) throw error;
+            throw new Error(
+              `Burn transaction ${burnTxHash} is not on chain yet.`,
+            );
+          }
+        }
+        await this.prisma.inspection.update({
+          where: { id: inspectionId },
+          data: {
+            nftBurnStatus: NftBurnStatus.BURNED,
+            nftBurnedAt: burnedAt,
+          },
+        });
+        this.logger.log(
+          `NFT ${nftAssetId} of inspection ${inspectionId} burned${burnTxHash ? ` in tx ${burnTxHash}` : ' (already gone)'}.`,
+        );
+      }
+    }
+
+    const result = {
+      inspectionId,
+      prettyId: inspection.pretty_id,
+      nftAssetId,
+      burnTxHash,
+      revoked: burnStatus === NftBurnStatus.REVOKED,
+      deleted: !!inspection.deletionRequestedAt,
+    };
+    if (inspection.deletionRequestedAt) {
+      // Keep this job, and with it the burn record, after the cascade delete
+      await this.prisma.job.update({
+        where: { id: job.id },
+        data: { inspectionId: null },
+      });
+      await this.purgeInspection(inspection);
+      this.logger.warn(
+        `Inspection ${inspectionId} permanently deleted after its NFT burn.`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Called when an NFT burn job exhausted its attempts. The inspection keeps
+   * its NFT marked FAILED; deactivating or deleting it again retries the burn.
+   *
+   * @param {Job} job - The failed NFT_BURN job.
+   */
+  private async onNftBurnJobExhausted(job: Job): Promise<void> {
+    const { inspectionId } = job.payload as unknown as NftBurnJobPayload;
+    await this.prisma.inspection.updateMany({
+      where: {
+        id: inspectionId,
+        nftBurnStatus: {
+          in: [NftBurnStatus.PENDING, NftBurnStatus.SUBMITTED],
+        },
+      },
+      data: { nftBurnStatus: NftBurnStatus.FAILED },
+    });
+  }
+
+  private archiveConfirmationDepth(): number {
+    return Number(this.config.get<string>('ARCHIVE_CONFIRMATION_DEPTH') ?? 6);
   }
 
   /**
@@ -2794,13 +3061,16 @@ export class InspectionsService {
   /**
    * Permanently deletes an inspection, its related photos, change logs, and all associated files from disk.
    * This is a destructive operation intended only for SUPERADMIN use.
+   * An inspection with an NFT that is not burned yet is deleted by the NFT_BURN
+   * job once the burn is on chain, or once its revocation is recorded if the
+   * NFT cannot be burned.
    *
    * @param {string} id - The UUID of the inspection to delete.
-   * @returns {Promise<void>}
+   * @returns {Promise<boolean>} True if deleted now, false if deletion waits for the NFT burn.
    * @throws {NotFoundException} If the inspection with the given ID is not found.
    * @throws {InternalServerErrorException} If any part of the deletion process fails.
    */
-  async deleteInspectionPermanently(id: string): Promise<void> {
+  async deleteInspectionPermanently(id: string): Promise<boolean> {
     this.logger.warn(
       `[SUPERADMIN] Initiating permanent deletion for inspection ID: ${id}`,
     );
@@ -2818,57 +3088,83 @@ export class InspectionsService {
       throw new NotFoundException(`Inspection with ID "${id}" not found.`);
     }
 
-    // 2. Correctly construct file paths based on user's clarification
-    const filePathsToDelete: string[] = [];
-    const UPLOAD_PATH = './uploads/inspection-photos';
-    const PDF_ARCHIVE_PATH = './pdfarchived';
+    // 2. A minted NFT is burned first; the burn job finishes the deletion
+    if (
+      inspection.nftAssetId &&
+      inspection.nftBurnStatus !== NftBurnStatus.BURNED &&
+      inspection.nftBurnStatus !== NftBurnStatus.REVOKED
+    ) {
+      await this.prisma.inspection.update({
+        where: { id },
+        data: { deletionRequestedAt: new Date() },
+      });
+      await this.requestNftBurn(id, 'DELETED');
+      this.logger.warn(
+        `[SUPERADMIN] Permanent deletion of inspection ${id} waits for the burn of NFT ${inspection.nftAssetId}`,
+      );
+      return false;
+    }
+
+    await this.purgeInspection(inspection);
+    return true;
+  }
+
+  /**
+   * Deletes an inspection, its photos, change logs, stored files and IPFS pins.
+   *
+   * @param {Inspection & { photos: Photo[] }} inspection - The inspection with its photos.
+   * @returns {Promise<void>}
+   * @throws {InternalServerErrorException} If the database records cannot be deleted.
+   */
+  private async purgeInspection(
+    inspection: Inspection & { photos: Photo[] },
+  ): Promise<void> {
+    const id = inspection.id;
+
+    // 1. Collect the storage keys of the photos and archived PDFs
+    const keysToDelete: string[] = [];
 
     inspection.photos.forEach((photo) => {
       if (photo.path) {
-        // photo.url is just the filename, join it with the upload path
-        filePathsToDelete.push(path.join(UPLOAD_PATH, photo.path));
+        keysToDelete.push(this.storage.photoKey(photo.path));
       }
     });
     if (inspection.urlPdf) {
-      // inspection.urlPdf is /pdfarchived/filename.pdf, get basename and join with archive path
-      filePathsToDelete.push(
-        path.join(PDF_ARCHIVE_PATH, path.basename(inspection.urlPdf)),
-      );
+      keysToDelete.push(this.storage.pdfKey(inspection.urlPdf));
     }
     if (inspection.urlPdfNoDocs) {
-      // inspection.urlPdfNoDocs is /pdfarchived/filename-no-docs.pdf, get basename and join
-      filePathsToDelete.push(
-        path.join(PDF_ARCHIVE_PATH, path.basename(inspection.urlPdfNoDocs)),
-      );
+      keysToDelete.push(this.storage.pdfKey(inspection.urlPdfNoDocs));
     }
 
     this.logger.log(
-      `Found ${filePathsToDelete.length} files to delete for inspection ${id}.`,
+      `Found ${keysToDelete.length} files to delete for inspection ${id}.`,
     );
-    this.logger.debug(`Files to delete: ${JSON.stringify(filePathsToDelete)}`);
+    this.logger.debug(`Files to delete: ${JSON.stringify(keysToDelete)}`);
 
-    // 3. Delete files from the disk
-    for (const filePath of filePathsToDelete) {
+    // 2. Delete files from storage (missing files are ignored by the driver)
+    for (const key of keysToDelete) {
       try {
-        await fs.unlink(filePath);
-        this.logger.log(`Successfully deleted file: ${filePath}`);
+        await this.storage.delete(key);
+        this.logger.log(`Successfully deleted file: ${key}`);
       } catch (error: unknown) {
-        const nodeErr = error as NodeJS.ErrnoException | undefined;
-        if (nodeErr && nodeErr.code === 'ENOENT') {
-          this.logger.warn(`File not found, skipping deletion: ${filePath}`);
-        } else {
-          const msg =
-            error instanceof Error ? error.message : JSON.stringify(error);
-          const stack =
-            error instanceof Error && error.stack ? error.stack : undefined;
-          this.logger.error(`Error deleting file ${filePath}: ${msg}`, stack);
-          // Decide if you want to stop the whole process if one file fails to delete.
-          // For now, we log the error and continue.
-        }
+        const msg =
+          error instanceof Error ? error.message : JSON.stringify(error);
+        const stack =
+          error instanceof Error && error.stack ? error.stack : undefined;
+        this.logger.error(`Error deleting file ${key}: ${msg}`, stack);
+        // Decide if you want to stop the whole process if one file fails to delete.
+        // For now, we log the error and continue.
+      }
+    }
+
+    // Unpin the archived PDFs from IPFS (failures are logged by the pinning service)
+    for (const ipfsUrl of [inspection.ipfsPdf, inspection.ipfsPdfNoDocs]) {
+      if (ipfsUrl) {
+        await this.ipfsPinning.unpinEverywhere(cidFromIpfsUrl(ipfsUrl));
       }
     }
 
-    // 4. Delete database records within a transaction
+    // 3. Delete database records within a transaction
     try {
       await this.prisma.$transaction(async (tx) => {
         this.logger.log(`Starting DB transaction to delete inspection ${id}`);
@@ -0,0 +1,25 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: pdf-hash.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Hash of an inspection report PDF, as stored in pdfFileHash /
+ * pdfFileHashNoDocs and written to the NFT metadata. Shared by report
+ * generation and public document verification so both hash identically.
+ * --------------------------------------------------------------------------
+ */
+
+import * as crypto from 'crypto';
+
+export const PDF_HASH_ALGORITHM = 'sha256';
+
+/**
+ * Hashes the exact bytes of a PDF report.
+ *
+ * @param {Buffer} pdf - The PDF content.
+ * @returns {string} The lowercase hex SHA-256 digest.
+ */
+export function hashPdf(pdf: Buffer): string {
+  return crypto.createHash(PDF_HASH_ALGORITHM).update(pdf).digest('hex');
+}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  countPdfPages,
+  findQualityViolations,
+  isPreferredPdfSize,
+  PdfQualityThresholds,
+  PdfRendererService,
+} from './pdf-renderer.service';
+import { GhostscriptService } from './ghostscript.service';
+
+const MB = 1024 * 1024;
+
+describe('PdfRendererService', () => {
+  let service: PdfRendererService;
+  const config: Record<string, string> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string) => config[key]),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PdfRendererService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: GhostscriptService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PdfRendererService>(PdfRendererService);
+  });
+
+  afterEach(() => {
+    for (const key of Object.keys(config)) delete config[key];
+  });
+
+  describe('getThresholds', () => {
+    it('should default to no broken images, 5 failed requests, 1 image and 20 MB', () => {
+      expect(service.getThresholds()).toEqual({
+        maxBrokenImages: 0,
+        maxFailedRequests: 5,
+        minImages: 1,
+        maxSizeBytes: 20 * MB,
+      });
+    });
+
+    it('should read the thresholds from the environment', () => {
+      config.PDF_RENDER_MAX_BROKEN_IMAGES = '2';
+      config.PDF_RENDER_MAX_FAILED_REQUESTS = '10';
+      config.PDF_RENDER_MIN_IMAGES = '8';
+
+      expect(service.getThresholds()).toMatchObject({
+        maxBrokenImages: 2,
+        maxFailedRequests: 10,
+        minImages: 8,
+      });
+    });
+  });
+
+  describe('findQualityViolations', () => {
+    const thresholds: PdfQualityThresholds = {
+      maxBrokenImages: 0,
+      maxFailedRequests: 1,
+      minImages: 1,
+      maxSizeBytes: 10 * MB,
+    };
+
+    it('should accept a render within the thresholds', () => {
+      expect(
+        findQualityViolations(
+          {
+            pdfSizeBytes: 4 * MB,
+            images: { total: 10, loaded: 10, broken: 0, lazy: 2 },
+            failedRequests: [
+              {
+                url: 'https://cdn.example.com/font.woff2',
+                resourceType: 'font',
+                status: 404,
+              },
+            ],
+          },
+          thresholds,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should report every crossed threshold', () => {
+      expect(
+        findQualityViolations(
+          {
+            pdfSizeBytes: 12 * MB,
+            images: { total: 0, loaded: 0, broken: 0, lazy: 0 },
+            failedRequests: [
+              {
+                url: 'https://api.example.com/a.jpg',
+                resourceType: 'image',
+                status: 500,
+              },
+              {
+                url: 'https://api.example.com/b.jpg',
+                resourceType: 'image',
+                error: 'net::ERR_TIMED_OUT',
+              },
+            ],
+          },
+          thresholds,
+        ),
+      ).toEqual([
+        '2 failed request(s), at most 1 allowed',
+        '0 image(s) on the page, at least 1 expected',
+        'PDF is 12.00 MB, at most 10.00 MB allowed',
+      ]);
+    });
+
+    it('should reject broken images', () => {
+      expect(
+        findQualityViolations(
+          {
+            pdfSizeBytes: 4 * MB,
+            images: { total: 10, loaded: 9, broken: 1, lazy: 0 },
+            failedRequests: [],
+          },
+          thresholds,
+        ),
+      ).toEqual(['1 broken image(s), at most 0 allowed']);
+    });
+  });
+
+  describe('isPreferredPdfSize', () => {
+    const options = {
+      sizeTargeting: {
+        maxSizeBytes: 20 * MB,
+        targetMinBytes: 2 * MB,
+        targetMaxBytes: 5 * MB,
+        passes: [],
+      },
+    };
+
+    it('should take the first PDF', () => {
+      expect(isPreferredPdfSize(8 * MB, null, options)).toBe(true);
+    });
+
+    it('should prefer a smaller PDF within or above the target range', () => {
+      expect(isPreferredPdfSize(4 * MB, 8 * MB, options)).toBe(true);
+      expect(isPreferredPdfSize(6 * MB, 8 * MB, options)).toBe(true);
+      expect(isPreferredPdfSize(9 * MB, 8 * MB, options)).toBe(false);
+    });
+
+    it('should only prefer a PDF below the target range over one exceeding the hard limit', () => {
+      expect(isPreferredPdfSize(1 * MB, 8 * MB, options)).toBe(false);
+      expect(isPreferredPdfSize(1 * MB, 25 * MB, options)).toBe(true);
+    });
+  });
+
+  describe('countPdfPages', () => {
+    it('should count page objects but not the page tree', () => {
+      const pdf = Buffer.from(
+        [
+          '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+          '2 0 obj << /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >> endobj',
+          '3 0 obj << /Type /Page /Parent 2 0 R >> endobj',
+          '4 0 obj <</Type/Page/Parent 2 0 R>> endobj',
+        ].join('\n'),
+        'latin1',
+      );
+
+      expect(countPdfPages(pdf)).toBe(2);
+    });
+  });
+});
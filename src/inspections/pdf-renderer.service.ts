@@ -0,0 +1,713 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: pdf-renderer.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Renders inspection report pages to PDF with Puppeteer.
+ * Tracks failed asset requests, forces lazy images to load and checks every
+ * <img> after loading. PDFs larger than the target size are re-rendered at a
+ * lower scale or with downsampled images, then optionally recompressed with
+ * Ghostscript; page count and text must stay unchanged. Each render produces
+ * a report (image counts, failed URLs, timings, size attempts) that is checked
+ * against configurable thresholds before the PDF is archived, hashed and
+ * minted.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import puppeteer, { Browser, Page } from 'puppeteer';
+import {
+  downsampleImages,
+  getPdfOptimizationConfig,
+  PdfOptimizationConfig,
+  PdfRenderPass,
+} from '../config/pdf-optimization.config';
+import { GhostscriptService } from './ghostscript.service';
+
+/**
+ * An asset request that failed or returned an error status while rendering.
+ */
+export interface PdfRenderFailedRequest {
+  url: string;
+  resourceType: string;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * One PDF produced while targeting the size range.
+ */
+export interface PdfSizeAttempt {
+  attempt: number;
+  method: 'render' | 'ghostscript';
+  scale: number | null;
+  imageMaxWidth: number | null;
+  imageQuality: number | null;
+  imagesDownsampled: number;
+  ghostscriptSettings: string | null;
+  sizeBytes: number;
+  pageCount: number;
+  /** Whether the text matches the first render; null when it could not be extracted. */
+  textVerified: boolean | null;
+  accepted: boolean;
+  rejectedReason: string | null;
+  durationMs: number;
+}
+
+/**
+ * Diagnostics of one render, stored with the inspection.
+ */
+export interface PdfRenderReport {
+  url: string;
+  renderedAt: string;
+  timings: {
+    navigationMs: number;
+    assetsMs: number;
+    pdfMs: number;
+    totalMs: number;
+  };
+  images: {
+    total: number;
+    loaded: number;
+    broken: number;
+    lazy: number;
+  };
+  brokenImages: string[];
+  failedRequests: PdfRenderFailedRequest[];
+  pdfSizeBytes: number;
+  compressionLevel: string;
+  sizeTargeting: {
+    targetMinBytes: number;
+    targetMaxBytes: number;
+    maxSizeBytes: number;
+    selectedAttempt: number;
+    inTargetRange: boolean;
+    attempts: PdfSizeAttempt[];
+  };
+  qualityGate: {
+    passed: boolean;
+    enforced: boolean;
+    violations: string[];
+  };
+}
+
+/**
+ * Limits a render must stay within for its PDF to be accepted.
+ */
+export interface PdfQualityThresholds {
+  maxBrokenImages: number;
+  maxFailedRequests: number;
+  minImages: number;
+  maxSizeBytes: number;
+}
+
+/**
+ * Thrown when a render crosses the quality thresholds. Carries the report so
+ * it can be stored with the inspection.
+ */
+export class PdfQualityGateError extends Error {
+  constructor(public readonly report: PdfRenderReport) {
+    super(
+      `PDF quality gate failed for ${report.url}: ${report.qualityGate.violations.join('; ')}`,
+    );
+    this.name = 'PdfQualityGateError';
+  }
+}
+
+/**
+ * Checks a render against the quality thresholds.
+ *
+ * @param report - The render diagnostics.
+ * @param thresholds - The limits to check.
+ * @returns The list of violated limits (empty when the render is acceptable).
+ */
+export function findQualityViolations(
+  report: Pick<PdfRenderReport, 'images' | 'failedRequests' | 'pdfSizeBytes'>,
+  thresholds: PdfQualityThresholds,
+): string[] {
+  const violations: string[] = [];
+  if (report.images.broken > thresholds.maxBrokenImages) {
+    violations.push(
+      `${report.images.broken} broken image(s), at most ${thresholds.maxBrokenImages} allowed`,
+    );
+  }
+  if (report.failedRequests.length > thresholds.maxFailedRequests) {
+    violations.push(
+      `${report.failedRequests.length} failed request(s), at most ${thresholds.maxFailedRequests} allowed`,
+    );
+  }
+  if (report.images.total < thresholds.minImages) {
+    violations.push(
+      `${report.images.total} image(s) on the page, at least ${thresholds.minImages} expected`,
+    );
+  }
+  if (report.pdfSizeBytes > thresholds.maxSizeBytes) {
+    violations.push(
+      `PDF is ${toMb(report.pdfSizeBytes)} MB, at most ${toMb(thresholds.maxSizeBytes)} MB allowed`,
+    );
+  }
+  return violations;
+}
+
+/**
+ * Whether a smaller PDF should replace the current one. A PDF below the target
+ * range is only preferred when the current one exceeds the hard limit.
+ *
+ * @param candidateBytes - Size of the new PDF.
+ * @param currentBytes - Size of the current PDF, or null if there is none.
+ * @param options - The size targeting settings.
+ */
+export function isPreferredPdfSize(
+  candidateBytes: number,
+  currentBytes: number | null,
+  options: Pick<PdfOptimizationConfig, 'sizeTargeting'>,
+): boolean {
+  if (currentBytes === null) return true;
+  if (candidateBytes >= currentBytes) return false;
+  const { targetMinBytes, maxSizeBytes } = options.sizeTargeting;
+  return candidateBytes >= targetMinBytes || currentBytes > maxSizeBytes;
+}
+
+/**
+ * Counts the page objects of a PDF. Used when Ghostscript is not available;
+ * Chromium writes page dictionaries uncompressed.
+ */
+export function countPdfPages(pdf: Buffer): number {
+  return (
+    pdf.toString('latin1').match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0
+  );
+}
+
+function toMb(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(2);
+}
+
+// Line breaks and spacing change with the scale; only the characters must match
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+// Strips query strings so signed parameters do not end up in stored reports
+function stripQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index === -1 ? url : url.slice(0, index);
+}
+
+@Injectable()
+export class PdfRendererService {
+  private readonly logger = new Logger(PdfRendererService.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly ghostscript: GhostscriptService,
+  ) {}
+
+  /**
+   * Renders a frontend page to PDF.
+   *
+   * @param url The URL of the frontend page to render.
+   * @param token Optional JWT token to include in headers.
+   * @returns The PDF data and the render report.
+   * @throws {PdfQualityGateError} If the render crosses the quality thresholds and the gate is enforced.
+   */
+  async render(
+    url: string,
+    token: string | null,
+  ): Promise<{ pdf: Buffer; report: PdfRenderReport }> {
+    let browser: Browser | null = null;
+    this.logger.log(`Generating PDF from URL: ${url}`);
+    const startedAt = Date.now();
+
+    try {
+      const options = getPdfOptimizationConfig();
+      const { compressionLevel } = options;
+      const enableOptimization = compressionLevel !== 'none';
+
+      browser = await puppeteer.launch({
+        headless: true,
+        args: options.puppeteerArgs,
+        executablePath: '/usr/bin/chromium-browser',
+        timeout: 60000, // 1 minute timeout for browser launch
+        protocolTimeout: 600000, // 10 minutes timeout for protocol operations
+      });
+
+      const page = await browser.newPage();
+
+      // Set proper viewport for web content (maintain original layout)
+      await page.setViewport(options.viewportSettings);
+
+      // Requests aborted on purpose are not failures
+      const blockedUrls = new Set<string>();
+      const failedRequests: PdfRenderFailedRequest[] = [];
+      page.on('requestfailed', (req) => {
+        if (blockedUrls.has(req.url())) return;
+        const failure: PdfRenderFailedRequest = {
+          url: stripQuery(req.url()),
+          resourceType: req.resourceType(),
+          error: req.failure()?.errorText ?? 'unknown',
+        };
+        failedRequests.push(failure);
+        this.logger.warn(
+          `Render request failed (${failure.resourceType}): ${failure.url} - ${failure.error}`,
+        );
+      });
+      page.on('response', (res) => {
+        if (res.status() < 400) return;
+        const failure: PdfRenderFailedRequest = {
+          url: stripQuery(res.url()),
+          resourceType: res.request().resourceType(),
+          status: res.status(),
+        };
+        failedRequests.push(failure);
+        this.logger.warn(
+          `Render request returned ${failure.status} (${failure.resourceType}): ${failure.url}`,
+        );
+      });
+
+      // Only apply optimizations if compression is enabled
+      if (enableOptimization) {
+        const { blockedTypes, blockedDomains } = options.resourceBlocking;
+        await page.setRequestInterception(true);
+        page.on('request', (req) => {
+          const requestUrl = req.url();
+          if (
+            blockedTypes.includes(req.resourceType()) ||
+            blockedDomains.some((domain) => requestUrl.includes(domain))
+          ) {
+            blockedUrls.add(requestUrl);
+            void req.abort();
+          } else {
+            // Allow all other resources including images, fonts, stylesheets
+            void req.continue();
+          }
+        });
+      }
+
+      if (token) {
+        const headers: Record<string, string> = {
+          Authorization: `Bearer ${token}`,
+        };
+        await page.setExtraHTTPHeaders(headers);
+        this.logger.debug(
+          'Added Authorization header to Puppeteer navigation.',
+        );
+      }
+
+      this.logger.log(`Navigating to ${url}`);
+      await this.navigate(page, url);
+      const navigatedAt = Date.now();
+
+      const images = await this.ensureImagesLoaded(page);
+      // Additional wait to ensure everything is rendered
+      await this.sleep(2000); // 2 second buffer
+      const assetsLoadedAt = Date.now();
+      this.logger.log(
+        `${images.loaded}/${images.total} images loaded, proceeding with PDF generation...`,
+      );
+
+      // Only apply CSS optimizations if compression is enabled
+      if (enableOptimization) {
+        await page.addStyleTag({ content: options.cssOptimizations });
+
+        // Very light optimization - only remove truly unnecessary elements
+        await page.evaluate(() => {
+          // Remove only video elements that are clearly not part of inspection
+          const heavyElements = document.querySelectorAll(
+            'video:not([data-inspection]):not([class*="inspection"])',
+          );
+          heavyElements.forEach((el) => {
+            (el as HTMLElement).style.display = 'none';
+          });
+        });
+      }
+
+      this.logger.log(`Generating PDF with ${compressionLevel} compression...`);
+      const { pdf, sizeTargeting } = await this.renderToSize(page, options);
+      const finishedAt = Date.now();
+
+      this.logger.log(`PDF generated successfully from ${url}`);
+      this.logger.log(
+        `PDF size: ${toMb(pdf.length)} MB (compression: ${compressionLevel}, attempt ${sizeTargeting.selectedAttempt}/${sizeTargeting.attempts.length})`,
+      );
+
+      const enforced =
+        this.config.get<string>('PDF_RENDER_QUALITY_GATE') !== 'warn';
+      const violations = findQualityViolations(
+        { images, failedRequests, pdfSizeBytes: pdf.length },
+        this.getThresholds(),
+      );
+      const report: PdfRenderReport = {
+        url,
+        renderedAt: new Date(finishedAt).toISOString(),
+        timings: {
+          navigationMs: navigatedAt - startedAt,
+          assetsMs: assetsLoadedAt - navigatedAt,
+          pdfMs: finishedAt - assetsLoadedAt,
+          totalMs: finishedAt - startedAt,
+        },
+        images: {
+          total: images.total,
+          loaded: images.loaded,
+          broken: images.broken,
+          lazy: images.lazy,
+        },
+        brokenImages: images.brokenImages,
+        failedRequests,
+        pdfSizeBytes: pdf.length,
+        compressionLevel,
+        sizeTargeting,
+        qualityGate: { passed: violations.length === 0, enforced, violations },
+      };
+
+      if (violations.length > 0) {
+        this.logger.warn(
+          `PDF quality gate ${enforced ? 'failed' : 'warning'} for ${url}: ${violations.join('; ')}`,
+        );
+        if (enforced) throw new PdfQualityGateError(report);
+      }
+
+      return { pdf, report };
+    } catch (error: unknown) {
+      if (error instanceof PdfQualityGateError) throw error;
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      const errorStack =
+        error instanceof Error ? error.stack : 'No stack trace available';
+      this.logger.error(
+        `Failed to generate PDF from URL ${url}: ${errorMessage}`,
+        errorStack,
+      );
+      throw new InternalServerErrorException(
+        `Could not generate PDF report from URL: ${errorMessage}`,
+      );
+    } finally {
+      if (browser) {
+        await browser.close(); // Pastikan browser SELALU ditutup
+        this.logger.log(`Puppeteer browser closed for URL: ${url}`);
+      }
+    }
+  }
+
+  /**
+   * Quality thresholds from the environment.
+   */
+  getThresholds(): PdfQualityThresholds {
+    return {
+      maxBrokenImages: Number(
+        this.config.get<string>('PDF_RENDER_MAX_BROKEN_IMAGES') ?? 0,
+      ),
+      maxFailedRequests: Number(
+        this.config.get<string>('PDF_RENDER_MAX_FAILED_REQUESTS') ?? 5,
+      ),
+      minImages: Number(this.config.get<string>('PDF_RENDER_MIN_IMAGES') ?? 1),
+      maxSizeBytes: getPdfOptimizationConfig().sizeTargeting.maxSizeBytes,
+    };
+  }
+
+  /**
+   * Prints the page, then tries the size targeting passes in order until a
+   * PDF is within the target range. A pass is rejected if the page count or
+   * the text differs from the first render. If every pass is still too large
+   * the smallest PDF is recompressed with Ghostscript, when installed.
+   * A PDF below the target range is only used when the previous one exceeds
+   * the hard limit.
+   */
+  private async renderToSize(
+    page: Page,
+    options: PdfOptimizationConfig,
+  ): Promise<{ pdf: Buffer; sizeTargeting: PdfRenderReport['sizeTargeting'] }> {
+    const { targetMinBytes, targetMaxBytes, maxSizeBytes, passes } =
+      options.sizeTargeting;
+    const attempts: PdfSizeAttempt[] = [];
+    let baseline: { pageCount: number; text: string | null } | null = null;
+    let best: { pdf: Buffer; attempt: number } | null = null;
+
+    for (const pass of passes) {
+      const startedAt = Date.now();
+      const imagesDownsampled = pass.imageMaxWidth
+        ? await page.evaluate(
+            downsampleImages,
+            pass.imageMaxWidth,
+            pass.imageQuality,
+          )
+        : 0;
+      const pdf = Buffer.from(
+        await page.pdf({ ...options.pdfOptions, scale: pass.scale }),
+      );
+      const inspected = await this.inspectPdf(pdf);
+      baseline ??= inspected;
+      const attempt = this.toAttempt(
+        attempts.length + 1,
+        pdf,
+        inspected,
+        baseline,
+        {
+          method: 'render',
+          pass,
+          imagesDownsampled,
+          startedAt,
+        },
+      );
+      attempts.push(attempt);
+      this.logAttempt(attempt);
+
+      if (!attempt.accepted) continue;
+      if (isPreferredPdfSize(pdf.length, best?.pdf.length ?? null, options)) {
+        best = { pdf, attempt: attempt.attempt };
+      }
+      if (pdf.length <= targetMaxBytes) break;
+    }
+
+    if (!best || !baseline) {
+      throw new Error('No PDF size targeting pass configured');
+    }
+
+    if (
+      best.pdf.length > targetMaxBytes &&
+      (await this.ghostscript.isAvailable())
+    ) {
+      const startedAt = Date.now();
+      try {
+        const pdf = await this.ghostscript.compress(
+          best.pdf,
+          options.ghostscript.settings,
+        );
+        if (pdf) {
+          const attempt = this.toAttempt(
+            attempts.length + 1,
+            pdf,
+            await this.inspectPdf(pdf),
+            baseline,
+            {
+              method: 'ghostscript',
+              ghostscriptSettings: options.ghostscript.settings,
+              startedAt,
+            },
+          );
+          attempts.push(attempt);
+          this.logAttempt(attempt);
+          if (
+            attempt.accepted &&
+            isPreferredPdfSize(pdf.length, best.pdf.length, options)
+          ) {
+            best = { pdf, attempt: attempt.attempt };
+          }
+        }
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'An unknown error occurred';
+        this.logger.warn(`Ghostscript post-processing failed: ${errorMessage}`);
+      }
+    }
+
+    return {
+      pdf: best.pdf,
+      sizeTargeting: {
+        targetMinBytes,
+        targetMaxBytes,
+        maxSizeBytes,
+        selectedAttempt: best.attempt,
+        inTargetRange:
+          best.pdf.length >= targetMinBytes &&
+          best.pdf.length <= targetMaxBytes,
+        attempts,
+      },
+    };
+  }
+
+  /**
+   * Page count (Ghostscript, or the page objects) and text (Ghostscript only)
+   * of a PDF.
+   */
+  private async inspectPdf(
+    pdf: Buffer,
+  ): Promise<{ pageCount: number; text: string | null }> {
+    try {
+      const pageCount = await this.ghostscript.countPages(pdf);
+      const text = await this.ghostscript.extractText(pdf);
+      return {
+        pageCount: pageCount ?? countPdfPages(pdf),
+        text: text === null ? null : normalizeText(text),
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'An unknown error occurred';
+      this.logger.warn(
+        `Could not inspect PDF with Ghostscript: ${errorMessage}`,
+      );
+      return { pageCount: countPdfPages(pdf), text: null };
+    }
+  }
+
+  private toAttempt(
+    attempt: number,
+    pdf: Buffer,
+    inspected: { pageCount: number; text: string | null },
+    baseline: { pageCount: number; text: string | null },
+    details: {
+      method: PdfSizeAttempt['method'];
+      pass?: PdfRenderPass;
+      imagesDownsampled?: number;
+      ghostscriptSettings?: string;
+      startedAt: number;
+    },
+  ): PdfSizeAttempt {
+    const textVerified =
+      inspected.text === null || baseline.text === null
+        ? null
+        : inspected.text === baseline.text;
+    let rejectedReason: string | null = null;
+    if (inspected.pageCount !== baseline.pageCount) {
+      rejectedReason = `page count changed from ${baseline.pageCount} to ${inspected.pageCount}`;
+    } else if (textVerified === false) {
+      rejectedReason = 'text differs from the first render';
+    }
+    return {
+      attempt,
+      method: details.method,
+      scale: details.pass?.scale ?? null,
+      imageMaxWidth: details.pass?.imageMaxWidth ?? null,
+      imageQuality: details.pass?.imageMaxWidth
+        ? details.pass.imageQuality
+        : null,
+      imagesDownsampled: details.imagesDownsampled ?? 0,
+      ghostscriptSettings: details.ghostscriptSettings ?? null,
+      sizeBytes: pdf.length,
+      pageCount: inspected.pageCount,
+      textVerified,
+      accepted: rejectedReason === null,
+      rejectedReason,
+      durationMs: Date.now() - details.startedAt,
+    };
+  }
+
+  private logAttempt(attempt: PdfSizeAttempt): void {
+    const summary = `PDF attempt ${attempt.attempt} (${attempt.method}${attempt.scale === null ? '' : `, scale ${attempt.scale}`}${attempt.imageMaxWidth ? `, images <= ${attempt.imageMaxWidth}px` : ''}): ${toMb(attempt.sizeBytes)} MB, ${attempt.pageCount} page(s)`;
+    if (attempt.accepted) {
+      this.logger.log(summary);
+    } else {
+      this.logger.warn(`${summary} rejected: ${attempt.rejectedReason}`);
+    }
+  }
+
+  /**
+   * Navigates to the report page and waits for the last section to be visible.
+   */
+  private async navigate(page: Page, url: string): Promise<void> {
+    // Use different wait strategies based on network conditions
+    let waitUntil: 'load' | 'networkidle0' | 'networkidle2' = 'networkidle0';
+
+    try {
+      await page.goto(url, {
+        waitUntil,
+        timeout: 600000, // Increased to 10 minutes for better reliability
+      });
+    } catch (navigationError: unknown) {
+      // If networkidle0 fails, try with networkidle2
+      const errorMsg =
+        navigationError instanceof Error
+          ? navigationError.message
+          : 'Unknown error';
+      this.logger.warn(
+        `Navigation with ${waitUntil} failed (${errorMsg}), trying with 'networkidle2' strategy`,
+      );
+      waitUntil = 'networkidle2';
+      await page.goto(url, {
+        waitUntil,
+        timeout: 600000,
+      });
+    }
+
+    await page.waitForSelector('#glosarium', {
+      visible: true,
+      timeout: 600000, // Increased to 10 minutes for better reliability
+    });
+  }
+
+  /**
+   * Forces lazy images to load, waits for every <img> to settle, reloads the
+   * broken ones once and reports which images are still broken
+   * (naturalWidth of 0).
+   */
+  private async ensureImagesLoaded(page: Page): Promise<{
+    total: number;
+    loaded: number;
+    broken: number;
+    lazy: number;
+    brokenImages: string[];
+  }> {
+    const imageTimeoutMs = Number(
+      this.config.get<string>('PDF_RENDER_IMAGE_TIMEOUT_MS') ?? 10000,
+    );
+    this.logger.log('Waiting for images to load...');
+
+    return page.evaluate(async (timeoutMs: number) => {
+      const images = Array.from(document.querySelectorAll('img'));
+
+      // Make lazy images eager and swap in deferred sources
+      let lazy = 0;
+      for (const img of images) {
+        const deferredSrc = img.getAttribute('data-src');
+        if (img.loading === 'lazy' || (deferredSrc && !img.src)) lazy++;
+        img.loading = 'eager';
+        if (deferredSrc && !img.src) img.src = deferredSrc;
+      }
+
+      // Scroll through the page so intersection observers fire
+      const step = Math.max(window.innerHeight, 1);
+      for (let y = 0; y < document.body.scrollHeight; y += step) {
+        window.scrollTo(0, y);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      window.scrollTo(0, 0);
+
+      const settle = (img: HTMLImageElement) =>
+        img.complete
+          ? Promise.resolve()
+          : new Promise<void>((resolve) => {
+              img.addEventListener('load', () => resolve(), { once: true });
+              img.addEventListener('error', () => resolve(), { once: true });
+              setTimeout(resolve, timeoutMs);
+            });
+      const isBroken = (img: HTMLImageElement) =>
+        !img.complete || img.naturalWidth === 0;
+
+      await Promise.all(images.map(settle));
+
+      // Retry broken images once
+      const retried = images.filter(isBroken);
+      for (const img of retried) {
+        const src = img.currentSrc || img.src;
+        if (src) {
+          img.src = '';
+          img.src = src;
+        }
+      }
+      await Promise.all(retried.map(settle));
+
+      const brokenImages = images
+        .filter(isBroken)
+        .map((img) => (img.currentSrc || img.src || '(no src)').split('?')[0]);
+      return {
+        total: images.length,
+        loaded: images.length - brokenImages.length,
+        broken: brokenImages.length,
+        lazy,
+        brokenImages,
+      };
+    }, imageTimeoutMs);
+  }
+
+  /**
+   * Helper method to sleep for a given number of milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
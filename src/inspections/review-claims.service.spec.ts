@@ -0,0 +1,145 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: review-claims.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for ReviewClaimsService: claims held against other
+ * reviewers until they expire, renewal by the holder, and assignments only
+ * to users who can review the inspection's branch.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  InspectionReviewClaim,
+  InspectionStatus,
+  Permission,
+  Role,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { ReviewClaimsService } from './review-claims.service';
+
+describe('ReviewClaimsService', () => {
+  let service: ReviewClaimsService;
+  const prisma = {
+    inspection: { findUnique: jest.fn() },
+    inspectionReviewClaim: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    user: { findUnique: jest.fn() },
+  };
+  const permissionsService = {
+    getRolePermissions: jest.fn(),
+    getBranchScope: jest.fn(),
+  };
+
+  const claim = (
+    overrides: Partial<InspectionReviewClaim> = {},
+  ): InspectionReviewClaim => ({
+    inspectionId: 'inspection-1',
+    reviewerId: 'reviewer-1',
+    assignedById: null,
+    claimedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.inspection.findUnique.mockResolvedValue({
+      status: InspectionStatus.NEED_REVIEW,
+      branchCityId: 'branch-1',
+    });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewClaimsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PermissionsService, useValue: permissionsService },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<ReviewClaimsService>(ReviewClaimsService);
+  });
+
+  it('rejects a claim held by another reviewer and renews the holder', async () => {
+    prisma.inspectionReviewClaim.findUnique.mockResolvedValue(claim());
+
+    await expect(service.claim('inspection-1', 'reviewer-2')).rejects.toThrow(
+      ConflictException,
+    );
+    await expect(
+      service.assertNotHeldByOther('inspection-1', 'reviewer-2'),
+    ).rejects.toThrow(ConflictException);
+
+    prisma.inspectionReviewClaim.updateMany.mockResolvedValue({ count: 1 });
+    const renewed = await service.claim('inspection-1', 'reviewer-1');
+    expect(renewed.expiresAt!.getTime() - Date.now()).toBeGreaterThan(
+      29 * 60 * 1000,
+    );
+    expect(prisma.inspectionReviewClaim.updateMany).toHaveBeenCalledWith({
+      where: { inspectionId: 'inspection-1', reviewerId: 'reviewer-1' },
+      data: { expiresAt: renewed.expiresAt },
+    });
+  });
+
+  it('ignores expired claims', async () => {
+    prisma.inspectionReviewClaim.findUnique.mockResolvedValue(
+      claim({ expiresAt: new Date(Date.now() - 1000) }),
+    );
+
+    await expect(
+      service.assertNotHeldByOther('inspection-1', 'reviewer-2'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects claims on inspections that are not under review', async () => {
+    prisma.inspection.findUnique.mockResolvedValue({
+      status: InspectionStatus.APPROVED,
+      branchCityId: 'branch-1',
+    });
+
+    await expect(service.claim('inspection-1', 'reviewer-1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(prisma.inspectionReviewClaim.create).not.toHaveBeenCalled();
+  });
+
+  it('assigns only to users who can review the branch', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'reviewer-2',
+      role: Role.REVIEWER,
+      isActive: true,
+    });
+    permissionsService.getRolePermissions.mockResolvedValue([
+      Permission.INSPECTIONS_READ,
+      Permission.INSPECTIONS_REVIEW,
+    ]);
+    permissionsService.getBranchScope.mockResolvedValue(['branch-2']);
+
+    await expect(
+      service.assign('inspection-1', 'reviewer-2', 'admin-1'),
+    ).rejects.toThrow(BadRequestException);
+
+    permissionsService.getBranchScope.mockResolvedValue(null);
+    await service.assign('inspection-1', 'reviewer-2', 'admin-1');
+    expect(prisma.inspectionReviewClaim.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: {
+          inspectionId: 'inspection-1',
+          reviewerId: 'reviewer-2',
+          assignedById: 'admin-1',
+          expiresAt: null,
+        },
+      }),
+    );
+  });
+});
@@ -0,0 +1,315 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: review-claims.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service managing the locks of reviewers on inspections under
+ * review (NEED_REVIEW or FAIL_ARCHIVE). A reviewer claims an inspection for
+ * REVIEW_CLAIM_TTL_MINUTES (default 30), renewed by claiming or editing it
+ * again; an admin can instead assign it to a reviewer, who then holds it
+ * until it is released. While an inspection is held, other users cannot
+ * update or approve it.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  InspectionReviewClaim,
+  InspectionStatus,
+  Permission,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { isBranchInScope } from '../permissions/branch-scope';
+import { ReviewQueueItemDto } from './dto/review-claim-response.dto';
+
+// Statuses in which an inspection is under review and can be claimed
+export const REVIEWABLE_STATUSES: InspectionStatus[] = [
+  InspectionStatus.NEED_REVIEW,
+  InspectionStatus.FAIL_ARCHIVE,
+];
+
+const DEFAULT_CLAIM_TTL_MINUTES = 30;
+
+@Injectable()
+export class ReviewClaimsService {
+  private readonly logger = new Logger(ReviewClaimsService.name);
+  private readonly claimTtlMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly permissionsService: PermissionsService,
+    config: ConfigService,
+  ) {
+    this.claimTtlMs =
+      Number(
+        config.get<string>('REVIEW_CLAIM_TTL_MINUTES') ??
+          DEFAULT_CLAIM_TTL_MINUTES,
+      ) *
+      60 *
+      1000;
+  }
+
+  /**
+   * Claims an inspection for a reviewer, or renews the reviewer's claim.
+   * An assignment held by the reviewer is returned unchanged.
+   *
+   * @param {string} inspectionId - The inspection to claim.
+   * @param {string} reviewerId - The claiming reviewer.
+   * @returns {Promise<InspectionReviewClaim>} The reviewer's claim.
+   * @throws {NotFoundException} If the inspection does not exist.
+   * @throws {BadRequestException} If the inspection is not under review.
+   * @throws {ConflictException} If another reviewer holds the inspection.
+   */
+  async claim(
+    inspectionId: string,
+    reviewerId: string,
+  ): Promise<InspectionReviewClaim> {
+    await this.findReviewableInspection(inspectionId);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.claimTtlMs);
+
+    await this.prisma.inspectionReviewClaim.deleteMany({
+      where: { inspectionId, expiresAt: { lte: now } },
+    });
+    const held = await this.prisma.inspectionReviewClaim.findUnique({
+      where: { inspectionId },
+    });
+
+    if (held) {
+      if (held.reviewerId !== reviewerId) {
+        throw this.heldByOther(held);
+      }
+      if (held.expiresAt === null) {
+        return held;
+      }
+      // Guarded so a claim taken over in the meantime is not extended
+      const { count } = await this.prisma.inspectionReviewClaim.updateMany({
+        where: { inspectionId, reviewerId },
+        data: { expiresAt },
+      });
+      if (count === 0) {
+        throw new ConflictException(
+          `Inspection "${inspectionId}" was just claimed by another reviewer.`,
+        );
+      }
+      return { ...held, expiresAt };
+    }
+
+    try {
+      const claim = await this.prisma.inspectionReviewClaim.create({
+        data: { inspectionId, reviewerId, expiresAt },
+      });
+      this.logger.log(
+        `Inspection ${inspectionId} claimed by reviewer ${reviewerId}`,
+      );
+      return claim;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `Inspection "${inspectionId}" was just claimed by another reviewer.`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Assigns an inspection to a reviewer, replacing any claim or assignment.
+   *
+   * @param {string} inspectionId - The inspection to assign.
+   * @param {string} reviewerId - The user who will review it.
+   * @param {string} assignedById - The assigning admin.
+   * @returns {Promise<InspectionReviewClaim>} The assignment.
+   * @throws {NotFoundException} If the inspection does not exist.
+   * @throws {BadRequestException} If the inspection is not under review, or the user cannot review it.
+   */
+  async assign(
+    inspectionId: string,
+    reviewerId: string,
+    assignedById: string,
+  ): Promise<InspectionReviewClaim> {
+    const inspection = await this.findReviewableInspection(inspectionId);
+    const reviewer = await this.prisma.user.findUnique({
+      where: { id: reviewerId },
+      select: { id: true, role: true, isActive: true },
+    });
+    if (!reviewer || !reviewer.isActive) {
+      throw new BadRequestException(
+        `Active user with ID "${reviewerId}" not found.`,
+      );
+    }
+    const permissions = await this.permissionsService.getRolePermissions(
+      reviewer.role,
+    );
+    if (!permissions.includes(Permission.INSPECTIONS_REVIEW)) {
+      throw new BadRequestException(
+        `User with ID "${reviewerId}" cannot review inspections.`,
+      );
+    }
+    const branchScope = await this.permissionsService.getBranchScope(reviewer);
+    if (!isBranchInScope(branchScope, inspection.branchCityId)) {
+      throw new BadRequestException(
+        `User with ID "${reviewerId}" is limited to other branch cities.`,
+      );
+    }
+
+    const claim = await this.prisma.inspectionReviewClaim.upsert({
+      where: { inspectionId },
+      create: { inspectionId, reviewerId, assignedById, expiresAt: null },
+      update: {
+        reviewerId,
+        assignedById,
+        claimedAt: new Date(),
+        expiresAt: null,
+      },
+    });
+    this.logger.log(
+      `Inspection ${inspectionId} assigned to reviewer ${reviewerId} by ${assignedById}`,
+    );
+    return claim;
+  }
+
+  /**
+   * Releases the claim or assignment on an inspection.
+   *
+   * @param {string} inspectionId - The inspection to release.
+   * @param {string} userId - The releasing user.
+   * @param {boolean} force - Whether the user may release another reviewer's hold (admins).
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the inspection is not held.
+   * @throws {ForbiddenException} If another reviewer holds it and `force` is not set.
+   */
+  async release(
+    inspectionId: string,
+    userId: string,
+    force = false,
+  ): Promise<void> {
+    const held = await this.findActiveClaim(inspectionId);
+    if (!held) {
+      throw new NotFoundException(
+        `Inspection "${inspectionId}" is not claimed or assigned.`,
+      );
+    }
+    if (held.reviewerId !== userId && !force) {
+      throw new ForbiddenException(
+        'Only the reviewer holding this inspection can release it.',
+      );
+    }
+    await this.prisma.inspectionReviewClaim.deleteMany({
+      where: { inspectionId, reviewerId: held.reviewerId },
+    });
+    this.logger.log(
+      `Review hold of ${held.reviewerId} on inspection ${inspectionId} released by ${userId}`,
+    );
+  }
+
+  /**
+   * Ensures no other reviewer holds an inspection.
+   *
+   * @param {string} inspectionId - The inspection about to be changed.
+   * @param {string} userId - The user changing it.
+   * @param {Prisma.TransactionClient} client - The client to read with (a transaction, for approvals).
+   * @returns {Promise<void>}
+   * @throws {ConflictException} If another reviewer holds the inspection.
+   */
+  async assertNotHeldByOther(
+    inspectionId: string,
+    userId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const held = await this.findActiveClaim(inspectionId, client);
+    if (held && held.reviewerId !== userId) {
+      throw this.heldByOther(held);
+    }
+  }
+
+  /**
+   * Lists the inspections a reviewer holds that are still under review,
+   * oldest submission first.
+   *
+   * @param {string} reviewerId - The reviewer.
+   * @returns {Promise<ReviewQueueItemDto[]>} The claimed and assigned inspections.
+   */
+  async findQueue(reviewerId: string): Promise<ReviewQueueItemDto[]> {
+    const now = new Date();
+    const claims = await this.prisma.inspectionReviewClaim.findMany({
+      where: {
+        reviewerId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        inspection: { status: { in: REVIEWABLE_STATUSES } },
+      },
+      include: {
+        inspection: {
+          select: {
+            id: true,
+            pretty_id: true,
+            vehiclePlateNumber: true,
+            status: true,
+            branchCityId: true,
+            createdAt: true,
+          },
+        },
+        assignedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { inspection: { createdAt: 'asc' } },
+    });
+    return claims.map((claim) => new ReviewQueueItemDto(claim, now));
+  }
+
+  // --- Helpers ---
+
+  private async findReviewableInspection(
+    inspectionId: string,
+  ): Promise<{ status: InspectionStatus; branchCityId: string | null }> {
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id: inspectionId },
+      select: { status: true, branchCityId: true },
+    });
+    if (!inspection) {
+      throw new NotFoundException(
+        `Inspection with ID "${inspectionId}" not found.`,
+      );
+    }
+    if (!REVIEWABLE_STATUSES.includes(inspection.status)) {
+      throw new BadRequestException(
+        `Inspection with ID "${inspectionId}" has status ${inspection.status} and is not under review.`,
+      );
+    }
+    return inspection;
+  }
+
+  private async findActiveClaim(
+    inspectionId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<InspectionReviewClaim | null> {
+    const held = await client.inspectionReviewClaim.findUnique({
+      where: { inspectionId },
+    });
+    if (held?.expiresAt && held.expiresAt <= new Date()) {
+      return null;
+    }
+    return held;
+  }
+
+  private heldByOther(held: InspectionReviewClaim): ConflictException {
+    return new ConflictException(
+      held.expiresAt
+        ? `Inspection "${held.inspectionId}" is claimed by another reviewer until ${held.expiresAt.toISOString()}.`
+        : `Inspection "${held.inspectionId}" is assigned to another reviewer.`,
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { IpfsService } from './ipfs.service';
+import { IpfsPinningService } from './ipfs-pinning.service';
+import { IPFS_PINNING_PROVIDERS } from './pinning/remote-pinning-provider.interface';
+
+describe('IpfsPinningService', () => {
+  let service: IpfsPinningService;
+
+  const mockIpfsService = {
+    pin: jest.fn(),
+    unpin: jest.fn(),
+    isPinned: jest.fn(),
+  };
+  const pinata = {
+    name: 'pinata',
+    pin: jest.fn(),
+    unpin: jest.fn(),
+    isPinned: jest.fn(),
+  };
+  const filebase = {
+    name: 'filebase',
+    pin: jest.fn(),
+    unpin: jest.fn(),
+    isPinned: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IpfsPinningService,
+        { provide: IpfsService, useValue: mockIpfsService },
+        { provide: IPFS_PINNING_PROVIDERS, useValue: [pinata, filebase] },
+      ],
+    }).compile();
+
+    service = module.get<IpfsPinningService>(IpfsPinningService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the node first, then the remote providers', () => {
+    expect(service.targetNames).toEqual(['node', 'pinata', 'filebase']);
+  });
+
+  it('should pin only on targets missing the content', async () => {
+    mockIpfsService.isPinned.mockResolvedValue(true);
+    pinata.isPinned.mockResolvedValue(false);
+    filebase.isPinned.mockResolvedValue(true);
+
+    const result = await service.ensurePinned('QmCid', 'YOG-1.pdf');
+
+    expect(result).toEqual({ repinned: ['pinata'], errors: [] });
+    expect(pinata.pin).toHaveBeenCalledWith('QmCid', 'YOG-1.pdf');
+    expect(mockIpfsService.pin).not.toHaveBeenCalled();
+    expect(filebase.pin).not.toHaveBeenCalled();
+  });
+
+  it('should keep pinning on the other targets when one fails', async () => {
+    mockIpfsService.isPinned.mockResolvedValue(false);
+    pinata.isPinned.mockRejectedValue(new Error('status 401'));
+    filebase.isPinned.mockResolvedValue(false);
+
+    const result = await service.ensurePinned('QmCid', 'YOG-1.pdf');
+
+    expect(result.repinned.sort()).toEqual(['filebase', 'node']);
+    expect(result.errors).toEqual(['pinata: status 401']);
+  });
+
+  it('should unpin everywhere and report failures', async () => {
+    filebase.unpin.mockRejectedValue(new Error('status 500'));
+
+    const errors = await service.unpinEverywhere('QmCid');
+
+    expect(errors).toEqual(['filebase: status 500']);
+    expect(mockIpfsService.unpin).toHaveBeenCalledWith('QmCid');
+    expect(pinata.unpin).toHaveBeenCalledWith('QmCid');
+  });
+});
@@ -0,0 +1,109 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: ipfs-pinning.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service keeping archived content pinned on every
+ * pinning target: our own IPFS node and the remote pinning services bound to
+ * IPFS_PINNING_PROVIDERS. A target that fails does not stop the others.
+ * --------------------------------------------------------------------------
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { IpfsService } from './ipfs.service';
+import {
+  IPFS_PINNING_PROVIDERS,
+  RemotePinningProvider,
+} from './pinning/remote-pinning-provider.interface';
+
+/**
+ * Name of our own IPFS node in pinning results.
+ */
+export const IPFS_NODE_TARGET = 'node';
+
+/**
+ * Outcome of pinning content on every target.
+ */
+export interface PinningResult {
+  /** Targets that did not have the content pinned and pinned it again. */
+  repinned: string[];
+  /** One message per target that could not be checked or pinned. */
+  errors: string[];
+}
+
+@Injectable()
+export class IpfsPinningService {
+  private readonly logger = new Logger(IpfsPinningService.name);
+  private readonly targets: RemotePinningProvider[];
+
+  constructor(
+    private readonly ipfsService: IpfsService,
+    @Inject(IPFS_PINNING_PROVIDERS) providers: RemotePinningProvider[],
+  ) {
+    // The node is handled like any other pinning target
+    this.targets = [
+      {
+        name: IPFS_NODE_TARGET,
+        pin: (cid) => this.ipfsService.pin(cid),
+        unpin: (cid) => this.ipfsService.unpin(cid),
+        isPinned: (cid) => this.ipfsService.isPinned(cid),
+      },
+      ...providers,
+    ];
+  }
+
+  /**
+   * Names of all pinning targets, starting with the node.
+   */
+  get targetNames(): string[] {
+    return this.targets.map((target) => target.name);
+  }
+
+  /**
+   * Pins content on every target that does not have it pinned yet.
+   *
+   * @param {string} cid - The CID to pin.
+   * @param {string} name - Name of the pin on remote services (e.g. the PDF file name).
+   * @returns {Promise<PinningResult>} Targets pinned again and failures.
+   */
+  async ensurePinned(cid: string, name: string): Promise<PinningResult> {
+    const result: PinningResult = { repinned: [], errors: [] };
+    await Promise.all(
+      this.targets.map(async (target) => {
+        try {
+          if (await target.isPinned(cid)) return;
+          await target.pin(cid, name);
+          result.repinned.push(target.name);
+        } catch (error: unknown) {
+          const message = `${target.name}: ${error instanceof Error ? error.message : 'An unknown error occurred'}`;
+          this.logger.warn(`Failed to pin ${cid} on ${message}`);
+          result.errors.push(message);
+        }
+      }),
+    );
+    return result;
+  }
+
+  /**
+   * Removes the content from every target.
+   *
+   * @param {string} cid - The CID to unpin.
+   * @returns {Promise<string[]>} One message per target that could not unpin the content.
+   */
+  async unpinEverywhere(cid: string): Promise<string[]> {
+    const errors: string[] = [];
+    await Promise.all(
+      this.targets.map(async (target) => {
+        try {
+          await target.unpin(cid);
+        } catch (error: unknown) {
+          const message = `${target.name}: ${error instanceof Error ? error.message : 'An unknown error occurred'}`;
+          this.logger.warn(`Failed to unpin ${cid} on ${message}`);
+          errors.push(message);
+        }
+      }),
+    );
+    return errors;
+  }
+}
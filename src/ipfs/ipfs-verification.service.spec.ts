@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IpfsContentStatus,
+  Job,
+  JobStatus,
+  JobType,
+  PdfVariant,
+  Prisma,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobsWorker } from '../jobs/jobs.worker';
+import { JobHandler } from '../jobs/interfaces/job-handler.interface';
+import { StorageService } from '../storage/storage.service';
+import { IpfsService } from './ipfs.service';
+import { IpfsPinningService } from './ipfs-pinning.service';
+import { IpfsVerificationService } from './ipfs-verification.service';
+
+const pdf = Buffer.from('%PDF-1.4 report');
+const pdfHash = crypto.createHash('sha256').update(pdf).digest('hex');
+
+describe('IpfsVerificationService', () => {
+  let service: IpfsVerificationService;
+
+  const mockPrismaService = {
+    inspection: { findMany: jest.fn() },
+    ipfsContentCheck: { upsert: jest.fn() },
+  };
+  const mockConfigService = {
+    get: jest.fn((name: string) =>
+      name === 'IPFS_VERIFY_BATCH_SIZE' ? '2' : undefined,
+    ),
+  };
+  const mockJobsService = { enqueue: jest.fn(), findActive: jest.fn() };
+  const mockJobsWorker = { registerHandler: jest.fn() };
+  const mockIpfsService = { cat: jest.fn(), add: jest.fn(), unpin: jest.fn() };
+  const mockIpfsPinningService = { ensurePinned: jest.fn() };
+  const mockStorageService = {
+    download: jest.fn(),
+    pdfKey: jest.fn((value: string) => `pdfarchived/${value.split('/').pop()}`),
+  };
+
+  const archivedPdf = {
+    inspectionId: 'inspection-1',
+    variant: PdfVariant.FULL,
+    cid: 'QmFull',
+    hash: pdfHash,
+    url: '/pdfarchived/YOG-1.pdf',
+  };
+
+  const buildJob = (payload: Record<string, unknown>): Job => ({
+    id: 'job-1',
+    type: JobType.IPFS_VERIFICATION,
+    status: JobStatus.RUNNING,
+    payload: payload as Prisma.JsonObject,
+    result: null,
+    attempts: 1,
+    maxAttempts: 3,
+    nextRunAt: new Date(),
+    lockedAt: new Date(),
+    lockedBy: 'worker-1',
+    lastError: null,
+    completedAt: null,
+    inspectionId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const lastUpsert = () => {
+    const calls = mockPrismaService.ipfsContentCheck.upsert.mock
+      .calls as Prisma.IpfsContentCheckUpsertArgs[][];
+    return calls[calls.length - 1][0];
+  };
+
+  const getHandler = (): JobHandler => {
+    service.onModuleInit();
+    return (
+      mockJobsWorker.registerHandler.mock.calls[0] as [JobType, JobHandler]
+    )[1];
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IpfsVerificationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: JobsService, useValue: mockJobsService },
+        { provide: JobsWorker, useValue: mockJobsWorker },
+        { provide: IpfsService, useValue: mockIpfsService },
+        { provide: IpfsPinningService, useValue: mockIpfsPinningService },
+        { provide: StorageService, useValue: mockStorageService },
+      ],
+    }).compile();
+
+    service = module.get<IpfsVerificationService>(IpfsVerificationService);
+    mockIpfsPinningService.ensurePinned.mockResolvedValue({
+      repinned: [],
+      errors: [],
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('verifyPdf', () => {
+    it('should record content that resolves, matches and is pinned as VERIFIED', async () => {
+      mockIpfsService.cat.mockResolvedValue(pdf);
+
+      const status = await service.verifyPdf(archivedPdf);
+
+      expect(status).toBe(IpfsContentStatus.VERIFIED);
+      expect(mockIpfsPinningService.ensurePinned).toHaveBeenCalledWith(
+        'QmFull',
+        'YOG-1.pdf',
+      );
+      const upsert = lastUpsert();
+      expect(upsert.where).toEqual({
+        inspectionId_variant: {
+          inspectionId: 'inspection-1',
+          variant: PdfVariant.FULL,
+        },
+      });
+      expect(upsert.update).toMatchObject({
+        cid: 'QmFull',
+        status: IpfsContentStatus.VERIFIED,
+        repinnedOn: [],
+        lastError: null,
+      });
+    });
+
+    it('should report targets that had to pin the content again', async () => {
+      mockIpfsService.cat.mockResolvedValue(pdf);
+      mockIpfsPinningService.ensurePinned.mockResolvedValue({
+        repinned: ['pinata'],
+        errors: [],
+      });
+
+      await expect(service.verifyPdf(archivedPdf)).resolves.toBe(
+        IpfsContentStatus.REPINNED,
+      );
+    });
+
+    it('should flag content that does not match the stored hash', async () => {
+      mockIpfsService.cat.mockResolvedValue(Buffer.from('other content'));
+
+      await expect(service.verifyPdf(archivedPdf)).resolves.toBe(
+        IpfsContentStatus.HASH_MISMATCH,
+      );
+      expect(mockIpfsPinningService.ensurePinned).not.toHaveBeenCalled();
+    });
+
+    it('should restore content that no longer resolves from the archived copy', async () => {
+      mockIpfsService.cat.mockRejectedValue(new Error('request timed out'));
+      mockStorageService.download.mockResolvedValue(Readable.from([pdf]));
+      mockIpfsService.add.mockResolvedValue('QmFull');
+
+      const status = await service.verifyPdf(archivedPdf);
+
+      expect(status).toBe(IpfsContentStatus.REPINNED);
+      expect(mockStorageService.download).toHaveBeenCalledWith(
+        'pdfarchived/YOG-1.pdf',
+      );
+      expect(mockIpfsService.add).toHaveBeenCalledWith(pdf);
+      expect(lastUpsert().update).toMatchObject({ repinnedOn: ['node'] });
+    });
+
+    it('should flag content as MISSING when the archived copy is unavailable', async () => {
+      mockIpfsService.cat.mockRejectedValue(new Error('request timed out'));
+      mockStorageService.download.mockRejectedValue(
+        new NotFoundException('Stored file not found.'),
+      );
+
+      await expect(service.verifyPdf(archivedPdf)).resolves.toBe(
+        IpfsContentStatus.MISSING,
+      );
+      expect(mockIpfsService.add).not.toHaveBeenCalled();
+    });
+
+    it('should not keep a restored copy that produces a different CID', async () => {
+      mockIpfsService.cat.mockRejectedValue(new Error('request timed out'));
+      mockStorageService.download.mockResolvedValue(Readable.from([pdf]));
+      mockIpfsService.add.mockResolvedValue('QmOther');
+
+      await expect(service.verifyPdf(archivedPdf)).resolves.toBe(
+        IpfsContentStatus.MISSING,
+      );
+      expect(mockIpfsService.unpin).toHaveBeenCalledWith('QmOther');
+    });
+  });
+
+  describe('verification job', () => {
+    const inspection = {
+      id: 'inspection-1',
+      urlPdf: '/pdfarchived/YOG-1.pdf',
+      ipfsPdf: 'ipfs://QmFull',
+      pdfFileHash: pdfHash,
+      urlPdfNoDocs: null,
+      ipfsPdfNoDocs: null,
+      pdfFileHashNoDocs: null,
+    };
+
+    it('should queue the next batch after a full batch', async () => {
+      mockPrismaService.inspection.findMany.mockResolvedValue([
+        inspection,
+        { ...inspection, id: 'inspection-2' },
+      ]);
+      mockIpfsService.cat.mockResolvedValue(pdf);
+
+      const result = await getHandler().handle(
+        buildJob({ after: 'inspection-0' }),
+      );
+
+      expect(result).toEqual({ [IpfsContentStatus.VERIFIED]: 2 });
+      const [query] = mockPrismaService.inspection.findMany.mock.calls[0] as [
+        Prisma.InspectionFindManyArgs,
+      ];
+      expect(query.where).toMatchObject({ id: { gt: 'inspection-0' } });
+      expect(query.take).toBe(2);
+      expect(mockJobsService.enqueue).toHaveBeenCalledWith(
+        JobType.IPFS_VERIFICATION,
+        { after: 'inspection-2' },
+      );
+    });
+
+    it('should schedule the next run after the last batch', async () => {
+      mockPrismaService.inspection.findMany.mockResolvedValue([inspection]);
+      mockIpfsService.cat.mockResolvedValue(pdf);
+
+      await getHandler().handle(buildJob({}));
+
+      const [type, payload, options] = mockJobsService.enqueue.mock
+        .calls[0] as [JobType, Prisma.InputJsonValue, { runAt: Date }];
+      expect(type).toBe(JobType.IPFS_VERIFICATION);
+      expect(payload).toEqual({});
+      expect(options.runAt.getTime()).toBeGreaterThan(
+        Date.now() + 23 * 60 * 60 * 1000,
+      );
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should queue the first run when none is pending', async () => {
+      mockJobsService.findActive.mockResolvedValue(null);
+
+      await service.onApplicationBootstrap();
+
+      expect(mockJobsService.enqueue).toHaveBeenCalledWith(
+        JobType.IPFS_VERIFICATION,
+        {},
+      );
+    });
+
+    it('should not queue a second run', async () => {
+      mockJobsService.findActive.mockResolvedValue(buildJob({}));
+
+      await service.onApplicationBootstrap();
+
+      expect(mockJobsService.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,343 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: ipfs-verification.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Scheduled verification of the archived PDFs on IPFS. An
+ * IPFS_VERIFICATION job checks a batch of inspections and queues the next
+ * batch; after the last batch the next run is queued IPFS_VERIFY_INTERVAL_HOURS
+ * later. Each CID is re-fetched and compared with pdfFileHash /
+ * pdfFileHashNoDocs; content missing from a pinning target is pinned again,
+ * content that no longer resolves is restored from the archived copy in
+ * storage. The outcome is recorded in IpfsContentCheck.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Inspection,
+  IpfsContentStatus,
+  Job,
+  JobType,
+  PdfVariant,
+  Prisma,
+} from '@prisma/client';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JobsWorker } from '../jobs/jobs.worker';
+import { StorageService } from '../storage/storage.service';
+import { cidFromIpfsUrl, IpfsService } from './ipfs.service';
+import { IPFS_NODE_TARGET, IpfsPinningService } from './ipfs-pinning.service';
+
+// Payload persisted with IPFS_VERIFICATION jobs
+interface IpfsVerificationJobPayload {
+  // Last inspection ID checked by the previous batch of the run
+  after?: string;
+}
+
+type VerifiedInspection = Pick<
+  Inspection,
+  | 'id'
+  | 'urlPdf'
+  | 'ipfsPdf'
+  | 'pdfFileHash'
+  | 'urlPdfNoDocs'
+  | 'ipfsPdfNoDocs'
+  | 'pdfFileHashNoDocs'
+>;
+
+// One archived PDF of an inspection
+interface ArchivedPdf {
+  inspectionId: string;
+  variant: PdfVariant;
+  cid: string;
+  hash: string | null;
+  url: string | null;
+}
+
+// Verification outcome of one archived PDF
+interface ContentCheckResult {
+  status: IpfsContentStatus;
+  repinnedOn: string[];
+  lastError: string | null;
+}
+
+@Injectable()
+export class IpfsVerificationService
+  implements OnModuleInit, OnApplicationBootstrap
+{
+  private readonly logger = new Logger(IpfsVerificationService.name);
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+    private readonly jobsService: JobsService,
+    private readonly jobsWorker: JobsWorker,
+    private readonly ipfsService: IpfsService,
+    private readonly ipfsPinning: IpfsPinningService,
+    private readonly storage: StorageService,
+  ) {
+    this.intervalMs =
+      Number(this.config.get<string>('IPFS_VERIFY_INTERVAL_HOURS') ?? 24) *
+      60 *
+      60 *
+      1000;
+    this.batchSize = Number(
+      this.config.get<string>('IPFS_VERIFY_BATCH_SIZE') ?? 20,
+    );
+  }
+
+  /**
+   * Registers the IPFS_VERIFICATION job handler. Runs one batch at a time.
+   */
+  onModuleInit() {
+    this.jobsWorker.registerHandler(JobType.IPFS_VERIFICATION, {
+      concurrency: 1,
+      handle: (job) => this.handleVerificationJob(job),
+      onExhausted: () => this.scheduleNextRun(),
+    });
+  }
+
+  /**
+   * Queues the first run if no verification is pending. Skipped when the
+   * verification is disabled (IPFS_VERIFY_INTERVAL_HOURS=0) or this process
+   * does not run the job worker.
+   */
+  async onApplicationBootstrap() {
+    if (
+      this.intervalMs <= 0 ||
+      this.config.get<string>('JOB_WORKER_ENABLED') === 'false'
+    ) {
+      return;
+    }
+    try {
+      if (!(await this.jobsService.findActive(JobType.IPFS_VERIFICATION))) {
+        await this.jobsService.enqueue(JobType.IPFS_VERIFICATION, {});
+      }
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to schedule IPFS verification: ${error instanceof Error ? error.message : 'An unknown error occurred'}`,
+      );
+    }
+  }
+
+  /**
+   * Verifies the archived PDFs of one batch of inspections and queues the
+   * next batch, or the next run after the last batch.
+   *
+   * @param {Job} job - The claimed IPFS_VERIFICATION job.
+   * @returns {Promise<Record<string, number>>} Number of PDFs per status.
+   */
+  private async handleVerificationJob(
+    job: Job,
+  ): Promise<Record<string, number>> {
+    const { after } = job.payload as unknown as IpfsVerificationJobPayload;
+    const inspections: VerifiedInspection[] =
+      await this.prisma.inspection.findMany({
+        where: {
+          OR: [{ ipfsPdf: { not: null } }, { ipfsPdfNoDocs: { not: null } }],
+          ...(after && { id: { gt: after } }),
+        },
+        select: {
+          id: true,
+          urlPdf: true,
+          ipfsPdf: true,
+          pdfFileHash: true,
+          urlPdfNoDocs: true,
+          ipfsPdfNoDocs: true,
+          pdfFileHashNoDocs: true,
+        },
+        orderBy: { id: 'asc' },
+        take: this.batchSize,
+      });
+
+    const counts: Record<string, number> = {};
+    for (const pdf of inspections.flatMap((i) => this.archivedPdfsOf(i))) {
+      const status = await this.verifyPdf(pdf);
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+    this.logger.log(
+      `Verified ${inspections.length} inspection(s) on IPFS: ${JSON.stringify(counts)}`,
+    );
+
+    if (inspections.length === this.batchSize) {
+      const next: IpfsVerificationJobPayload = {
+        after: inspections[inspections.length - 1].id,
+      };
+      await this.jobsService.enqueue(
+        JobType.IPFS_VERIFICATION,
+        next as unknown as Prisma.InputJsonValue,
+      );
+    } else {
+      await this.scheduleNextRun();
+    }
+    return counts;
+  }
+
+  /**
+   * Checks one archived PDF and records the outcome.
+   *
+   * @param {ArchivedPdf} pdf - The PDF to verify.
+   * @returns {Promise<IpfsContentStatus>} The recorded status.
+   */
+  async verifyPdf(pdf: ArchivedPdf): Promise<IpfsContentStatus> {
+    let result: ContentCheckResult;
+    try {
+      const content = await this.ipfsService.cat(pdf.cid);
+      const hash = sha256(content);
+      if (pdf.hash && hash !== pdf.hash) {
+        result = {
+          status: IpfsContentStatus.HASH_MISMATCH,
+          repinnedOn: [],
+          lastError: `Content hash ${hash} does not match the stored hash ${pdf.hash}.`,
+        };
+      } else {
+        const { repinned, errors } = await this.ipfsPinning.ensurePinned(
+          pdf.cid,
+          this.pinNameOf(pdf),
+        );
+        result = {
+          status:
+            repinned.length > 0
+              ? IpfsContentStatus.REPINNED
+              : IpfsContentStatus.VERIFIED,
+          repinnedOn: repinned,
+          lastError: errors.length > 0 ? errors.join('; ') : null,
+        };
+      }
+    } catch (error: unknown) {
+      const reason = `CID does not resolve: ${error instanceof Error ? error.message : 'An unknown error occurred'}`;
+      result = await this.restoreFromStorage(pdf, reason);
+    }
+
+    if (result.status !== IpfsContentStatus.VERIFIED) {
+      this.logger.warn(
+        `IPFS content ${pdf.cid} of inspection ${pdf.inspectionId} (${pdf.variant}): ${result.status}${result.lastError ? ` - ${result.lastError}` : ''}`,
+      );
+    }
+    const checkedAt = new Date();
+    await this.prisma.ipfsContentCheck.upsert({
+      where: {
+        inspectionId_variant: {
+          inspectionId: pdf.inspectionId,
+          variant: pdf.variant,
+        },
+      },
+      create: {
+        inspectionId: pdf.inspectionId,
+        variant: pdf.variant,
+        cid: pdf.cid,
+        checkedAt,
+        ...result,
+      },
+      update: { cid: pdf.cid, checkedAt, ...result },
+    });
+    return result.status;
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Adds the archived copy of a PDF back to IPFS when its CID no longer
+   * resolves. The copy must match the stored hash and produce the same CID.
+   */
+  private async restoreFromStorage(
+    pdf: ArchivedPdf,
+    reason: string,
+  ): Promise<ContentCheckResult> {
+    const missing = (detail: string): ContentCheckResult => ({
+      status: IpfsContentStatus.MISSING,
+      repinnedOn: [],
+      lastError: `${reason}; ${detail}`,
+    });
+    if (!pdf.url) return missing('no archived copy to restore from.');
+
+    let content: Buffer;
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of await this.storage.download(
+        this.storage.pdfKey(pdf.url),
+      )) {
+        chunks.push(Buffer.from(chunk as Buffer));
+      }
+      content = Buffer.concat(chunks);
+    } catch (error: unknown) {
+      return missing(
+        `archived copy unavailable: ${error instanceof Error ? error.message : 'An unknown error occurred'}`,
+      );
+    }
+    if (pdf.hash && sha256(content) !== pdf.hash) {
+      return missing('archived copy does not match the stored hash.');
+    }
+
+    const cid = await this.ipfsService.add(content);
+    if (cid !== pdf.cid) {
+      // Added with different settings than the original upload
+      await this.ipfsService.unpin(cid);
+      return missing(`archived copy was added as a different CID (${cid}).`);
+    }
+    const { repinned, errors } = await this.ipfsPinning.ensurePinned(
+      pdf.cid,
+      this.pinNameOf(pdf),
+    );
+    return {
+      status: IpfsContentStatus.REPINNED,
+      repinnedOn: [IPFS_NODE_TARGET, ...repinned],
+      lastError: errors.length > 0 ? errors.join('; ') : null,
+    };
+  }
+
+  private archivedPdfsOf(inspection: VerifiedInspection): ArchivedPdf[] {
+    const pdfs: ArchivedPdf[] = [];
+    if (inspection.ipfsPdf) {
+      pdfs.push({
+        inspectionId: inspection.id,
+        variant: PdfVariant.FULL,
+        cid: cidFromIpfsUrl(inspection.ipfsPdf),
+        hash: inspection.pdfFileHash,
+        url: inspection.urlPdf,
+      });
+    }
+    if (inspection.ipfsPdfNoDocs) {
+      pdfs.push({
+        inspectionId: inspection.id,
+        variant: PdfVariant.NO_DOCS,
+        cid: cidFromIpfsUrl(inspection.ipfsPdfNoDocs),
+        hash: inspection.pdfFileHashNoDocs,
+        url: inspection.urlPdfNoDocs,
+      });
+    }
+    return pdfs;
+  }
+
+  // The PDF file name, as used when the PDF was archived
+  private pinNameOf(pdf: ArchivedPdf): string {
+    return pdf.url
+      ? path.posix.basename(this.storage.pdfKey(pdf.url))
+      : `${pdf.inspectionId}-${pdf.variant}`;
+  }
+
+  private async scheduleNextRun(): Promise<void> {
+    if (this.intervalMs <= 0) return;
+    await this.jobsService.enqueue(
+      JobType.IPFS_VERIFICATION,
+      {},
+      { runAt: new Date(Date.now() + this.intervalMs) },
+    );
+  }
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
@@ -5,19 +5,55 @@
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
  * Description: NestJS module for managing IPFS interactions.
- * Imports the IpfsService to provide IPFS functionality.
- * Exports the IpfsService for use in other modules.
+ * Provides the IpfsService (IPFS node), the IpfsPinningService (node and the
+ * remote pinning services listed in IPFS_PINNING_SERVICES) and the
+ * IpfsVerificationService (scheduled CID verification job).
+ * Exports the IpfsService and IpfsPinningService for use in other modules.
  * --------------------------------------------------------------------------
  */
 
 // NestJS common modules
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+// Local modules
+import { PrismaModule } from '../prisma/prisma.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { StorageModule } from '../storage/storage.module';
 
 // Local services
 import { IpfsService } from './ipfs.service';
+import { IpfsPinningService } from './ipfs-pinning.service';
+import { IpfsVerificationService } from './ipfs-verification.service';
+import { IPFS_PINNING_PROVIDERS } from './pinning/remote-pinning-provider.interface';
+import { PinningServiceApiProvider } from './pinning/pinning-service-api.provider';
 
 @Module({
-  providers: [IpfsService],
-  exports: [IpfsService],
+  imports: [PrismaModule, JobsModule, StorageModule],
+  providers: [
+    IpfsService,
+    IpfsPinningService,
+    IpfsVerificationService,
+    {
+      // One provider per name in IPFS_PINNING_SERVICES (comma separated), configured
+      // with IPFS_PINNING_<NAME>_ENDPOINT and IPFS_PINNING_<NAME>_TOKEN
+      provide: IPFS_PINNING_PROVIDERS,
+      useFactory: (config: ConfigService) =>
+        (config.get<string>('IPFS_PINNING_SERVICES') ?? '')
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean)
+          .map((name) => {
+            const prefix = `IPFS_PINNING_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+            return new PinningServiceApiProvider(
+              name,
+              config.getOrThrow<string>(`${prefix}_ENDPOINT`),
+              config.getOrThrow<string>(`${prefix}_TOKEN`),
+            );
+          }),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [IpfsService, IpfsPinningService],
 })
 export class IpfsModule {}
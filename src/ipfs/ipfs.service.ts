@@ -5,7 +5,8 @@
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
  * Description: NestJS service for interacting with IPFS.
- * Handles connecting to an IPFS node and adding content.
+ * Handles connecting to an IPFS node, adding, pinning, unpinning and fetching
+ * content. Remote pinning services are handled by IpfsPinningService.
  * --------------------------------------------------------------------------
  */
 
@@ -16,12 +17,36 @@ import { ConfigService } from '@nestjs/config';
 // Third-party libraries
 import { create, IPFSHTTPClient } from 'ipfs-http-client';
 
+/**
+ * Size information of content on IPFS.
+ */
+export interface IpfsStat {
+  cid: string;
+  /** File size in bytes. */
+  size: number;
+  /** Size of all DAG nodes making up the file, in bytes. */
+  cumulativeSize: number;
+  type: 'file' | 'directory';
+}
+
+/**
+ * Extracts the CID from a stored IPFS reference ("ipfs://<cid>", "/ipfs/<cid>" or a bare CID).
+ *
+ * @param value The stored reference, e.g. Inspection.ipfsPdf.
+ * @returns The CID.
+ */
+export function cidFromIpfsUrl(value: string): string {
+  return value.replace(/^ipfs:\/\//, '').replace(/^\/ipfs\//, '');
+}
+
 @Injectable()
 export class IpfsService implements OnModuleInit {
   // Logger instance for logging messages
   private readonly logger = new Logger(IpfsService.name);
   // IPFS client instance
   private ipfs: IPFSHTTPClient;
+  // Maximum time to wait for content fetched from the network (pin, cat, stat)
+  private fetchTimeoutMs: number;
 
   /**
    * Constructs the IpfsService.
@@ -48,6 +73,9 @@ export class IpfsService implements OnModuleInit {
     const apiUrl = `http://${host}:${port}`;
 
     this.ipfs = create({ url: apiUrl });
+    this.fetchTimeoutMs = Number(
+      this.configService.get<string>('IPFS_FETCH_TIMEOUT_MS') ?? 60000,
+    );
 
     console.log(`Connecting to IPFS API at: ${apiUrl}`);
   }
@@ -74,4 +102,94 @@ export class IpfsService implements OnModuleInit {
       throw error;
     }
   }
+
+  /**
+   * Pins content on the IPFS node (recursively). Pinning already pinned content is a no-op.
+   *
+   * @param cid The CID to pin.
+   * @throws Error if the content cannot be fetched within IPFS_FETCH_TIMEOUT_MS.
+   */
+  async pin(cid: string): Promise<void> {
+    await this.ipfs.pin.add(cid, { timeout: this.fetchTimeoutMs });
+    this.logger.log(`Pinned CID on IPFS node: ${cid}`);
+  }
+
+  /**
+   * Removes the pin of content from the IPFS node so it can be garbage collected.
+   * Content that is not pinned is ignored.
+   *
+   * @param cid The CID to unpin.
+   * @throws Error if the node cannot be reached.
+   */
+  async unpin(cid: string): Promise<void> {
+    try {
+      await this.ipfs.pin.rm(cid);
+      this.logger.log(`Unpinned CID on IPFS node: ${cid}`);
+    } catch (error) {
+      // The node reports unpinned content as an error
+      if (error instanceof Error && /not pinned/i.test(error.message)) return;
+      throw error;
+    }
+  }
+
+  /**
+   * Whether content is pinned recursively on the IPFS node.
+   *
+   * @param cid The CID to look up.
+   * @returns True if the content is pinned.
+   * @throws Error if the node cannot be reached.
+   */
+  async isPinned(cid: string): Promise<boolean> {
+    try {
+      for await (const pin of this.ipfs.pin.ls({
+        paths: cid,
+        type: 'recursive',
+      })) {
+        if (pin.cid.toString() === cid) return true;
+      }
+      return false;
+    } catch (error) {
+      // The node reports unpinned content as an error
+      if (error instanceof Error && /not pinned/i.test(error.message)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the content of a file from IPFS.
+   *
+   * @param cid The CID of the file.
+   * @returns The file content.
+   * @throws Error if the content cannot be fetched within IPFS_FETCH_TIMEOUT_MS.
+   */
+  async cat(cid: string): Promise<Buffer> {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of this.ipfs.cat(cid, {
+      timeout: this.fetchTimeoutMs,
+    })) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Returns the size information of content without downloading it.
+   *
+   * @param cid The CID of the content.
+   * @returns Sizes and type of the content.
+   * @throws Error if the content cannot be fetched within IPFS_FETCH_TIMEOUT_MS.
+   */
+  async stat(cid: string): Promise<IpfsStat> {
+    const result = await this.ipfs.files.stat(`/ipfs/${cid}`, {
+      timeout: this.fetchTimeoutMs,
+    });
+    return {
+      cid: result.cid.toString(),
+      size: result.size,
+      cumulativeSize: result.cumulativeSize,
+      type: result.type,
+    };
+  }
 }
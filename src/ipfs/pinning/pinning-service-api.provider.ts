@@ -0,0 +1,101 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: pinning-service-api.provider.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Remote pinning provider for services implementing the IPFS
+ * Pinning Service API (https://ipfs.github.io/pinning-services-api-spec/),
+ * e.g. Pinata, Filebase or a self-hosted ipfs-cluster. One instance is
+ * created per service listed in IPFS_PINNING_SERVICES.
+ * --------------------------------------------------------------------------
+ */
+
+import { Logger } from '@nestjs/common';
+import { RemotePinningProvider } from './remote-pinning-provider.interface';
+
+// Pins counted as present: pinned, or accepted and still being fetched
+const ACTIVE_PIN_STATUSES = 'queued,pinning,pinned';
+
+interface PinStatusResponse {
+  requestid: string;
+  status: 'queued' | 'pinning' | 'pinned' | 'failed';
+}
+
+interface PinResultsResponse {
+  count: number;
+  results: PinStatusResponse[];
+}
+
+export class PinningServiceApiProvider implements RemotePinningProvider {
+  private readonly logger: Logger;
+  private readonly endpoint: string;
+
+  /**
+   * @param name Name of the service, e.g. "pinata".
+   * @param endpoint Base URL of the API, e.g. https://api.pinata.cloud/psa.
+   * @param accessToken Bearer token issued by the service.
+   */
+  constructor(
+    readonly name: string,
+    endpoint: string,
+    private readonly accessToken: string,
+  ) {
+    this.endpoint = endpoint.replace(/\/+$/, '');
+    this.logger = new Logger(`${PinningServiceApiProvider.name}:${name}`);
+  }
+
+  async pin(cid: string, name: string): Promise<void> {
+    const { requestid } = await this.request<PinStatusResponse>(
+      'POST',
+      '/pins',
+      { cid, name },
+    );
+    this.logger.log(`Pin of ${cid} accepted (request ${requestid})`);
+  }
+
+  async unpin(cid: string): Promise<void> {
+    const { results } = await this.findPins(cid);
+    for (const { requestid } of results) {
+      await this.request('DELETE', `/pins/${encodeURIComponent(requestid)}`);
+      this.logger.log(`Removed pin of ${cid} (request ${requestid})`);
+    }
+  }
+
+  async isPinned(cid: string): Promise<boolean> {
+    const { count } = await this.findPins(cid);
+    return count > 0;
+  }
+
+  // --- Helpers ---
+
+  private findPins(cid: string): Promise<PinResultsResponse> {
+    const query = new URLSearchParams({ cid, status: ACTIVE_PIN_STATUSES });
+    return this.request<PinResultsResponse>('GET', `/pins?${query}`);
+  }
+
+  private async request<T = void>(
+    method: string,
+    requestPath: string,
+    body?: Record<string, unknown>,
+  ): Promise<T> {
+    const response = await fetch(`${this.endpoint}${requestPath}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        ...(body && { 'Content-Type': 'application/json' }),
+      },
+      body: body && JSON.stringify(body),
+    });
+    if (!response.ok) {
+      // Failure bodies are { error: { reason, details } }
+      const text = await response.text();
+      throw new Error(
+        `Pinning service "${this.name}" returned status ${response.status} for ${method} ${requestPath.split('?')[0]}: ${text.slice(0, 200)}`,
+      );
+    }
+    // DELETE answers 202 without a body
+    if (method === 'DELETE') return undefined as T;
+    return (await response.json()) as T;
+  }
+}
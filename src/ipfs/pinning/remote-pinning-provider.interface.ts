@@ -0,0 +1,43 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: remote-pinning-provider.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Contract of a remote IPFS pinning service keeping copies of
+ * archived PDFs in addition to our own IPFS node.
+ * --------------------------------------------------------------------------
+ */
+
+/**
+ * Injection token of the configured remote pinning providers (an array, may be empty).
+ */
+export const IPFS_PINNING_PROVIDERS = 'IPFS_PINNING_PROVIDERS';
+
+export interface RemotePinningProvider {
+  /** Name used in logs and verification results, e.g. "pinata". */
+  readonly name: string;
+
+  /**
+   * Requests the provider to pin content. Resolves once the request is accepted;
+   * the provider fetches the content from the network asynchronously.
+   *
+   * @param cid The CID to pin.
+   * @param name Human readable name of the pin (e.g. the PDF file name).
+   */
+  pin(cid: string, name: string): Promise<void>;
+
+  /**
+   * Removes every pin of the content. Content that is not pinned is ignored.
+   *
+   * @param cid The CID to unpin.
+   */
+  unpin(cid: string): Promise<void>;
+
+  /**
+   * Whether the content is pinned or queued for pinning.
+   *
+   * @param cid The CID to look up.
+   */
+  isPinned(cid: string): Promise<boolean>;
+}
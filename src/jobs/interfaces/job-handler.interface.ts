@@ -0,0 +1,40 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: job-handler.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Contract implemented by feature services that process
+ * persisted background jobs of a given JobType.
+ * --------------------------------------------------------------------------
+ */
+
+import { Job, Prisma } from '@prisma/client';
+
+/**
+ * Handler registered with the JobsWorker for a single JobType.
+ */
+export interface JobHandler {
+  /**
+   * Maximum number of jobs of this type processed at the same time by this process.
+   */
+  concurrency: number;
+
+  /**
+   * Processes a claimed job. Throwing marks the attempt as failed; the job is
+   * rescheduled with backoff until maxAttempts is reached.
+   *
+   * @param job The claimed job (status RUNNING, attempts already incremented).
+   * @returns Optional JSON result stored on the job.
+   */
+  handle(job: Job): Promise<Prisma.InputJsonValue | void>;
+
+  /**
+   * Called once when the job has failed its last allowed attempt.
+   * Used to roll back domain state (e.g. inspection status).
+   *
+   * @param job The failed job.
+   * @param error The error thrown by the last attempt.
+   */
+  onExhausted?(job: Job, error: Error): Promise<void>;
+}
@@ -0,0 +1,24 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: jobs.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for the durable, database-backed job queue.
+ * Provides JobsService (persistence) and JobsWorker (polling loop) to
+ * feature modules that enqueue and handle background work.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { JobsService } from './jobs.service';
+import { JobsWorker } from './jobs.worker';
+
+@Module({
+  imports: [PrismaModule, ConfigModule],
+  providers: [JobsService, JobsWorker],
+  exports: [JobsService, JobsWorker],
+})
+export class JobsModule {}
@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Job, JobStatus, JobType } from '@prisma/client';
+import { JobsService } from './jobs.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const buildJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  type: JobType.PDF_GENERATION,
+  status: JobStatus.RUNNING,
+  payload: { inspectionId: 'inspection-1' },
+  result: null,
+  attempts: 1,
+  maxAttempts: 3,
+  nextRunAt: new Date(),
+  lockedAt: new Date(),
+  lockedBy: 'worker-1',
+  lastError: null,
+  completedAt: null,
+  inspectionId: 'inspection-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('JobsService', () => {
+  let service: JobsService;
+
+  const mockPrismaService = {
+    job: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      groupBy: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+  const mockConfigService = {
+    get: jest.fn((key: string) =>
+      key === 'JOB_RETRY_BASE_DELAY_MS' ? '1000' : undefined,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<JobsService>(JobsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('enqueue', () => {
+    it('should create a pending job linked to the inspection', async () => {
+      mockPrismaService.job.findFirst.mockResolvedValue(null);
+      mockPrismaService.job.create.mockResolvedValue(buildJob());
+
+      await service.enqueue(
+        JobType.PDF_GENERATION,
+        { inspectionId: 'inspection-1' },
+        { inspectionId: 'inspection-1', maxAttempts: 5 },
+      );
+
+      expect(mockPrismaService.job.create).toHaveBeenCalledWith({
+        data: {
+          type: JobType.PDF_GENERATION,
+          payload: { inspectionId: 'inspection-1' },
+          inspectionId: 'inspection-1',
+          maxAttempts: 5,
+        },
+      });
+    });
+
+    it('should return the active job instead of creating a duplicate', async () => {
+      const existing = buildJob({ status: JobStatus.PENDING });
+      mockPrismaService.job.findFirst.mockResolvedValue(existing);
+
+      const result = await service.enqueue(
+        JobType.PDF_GENERATION,
+        {},
+        { inspectionId: 'inspection-1' },
+      );
+
+      expect(result).toBe(existing);
+      expect(mockPrismaService.job.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claim', () => {
+    it('should only return jobs whose conditional update succeeded', async () => {
+      mockPrismaService.job.findMany.mockResolvedValue([
+        { id: 'job-1' },
+        { id: 'job-2' },
+      ]);
+      mockPrismaService.job.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 }); // claimed by another worker
+      mockPrismaService.job.findUniqueOrThrow.mockResolvedValue(buildJob());
+
+      const claimed = await service.claim(
+        JobType.PDF_GENERATION,
+        'worker-1',
+        2,
+      );
+
+      expect(claimed).toHaveLength(1);
+      expect(mockPrismaService.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: JobStatus.PENDING },
+        data: expect.objectContaining({
+          status: JobStatus.RUNNING,
+          lockedBy: 'worker-1',
+          attempts: { increment: 1 },
+        }) as Partial<Job>,
+      });
+    });
+  });
+
+  describe('fail', () => {
+    it('should reschedule with exponential backoff while attempts remain', async () => {
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      mockPrismaService.job.update.mockResolvedValue(buildJob());
+
+      await service.fail(buildJob({ attempts: 2 }), 'boom');
+
+      expect(mockPrismaService.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({
+          status: JobStatus.PENDING,
+          lastError: 'boom',
+          nextRunAt: new Date(now + 2000),
+        }) as Partial<Job>,
+      });
+      jest.restoreAllMocks();
+    });
+
+    it('should mark the job FAILED once maxAttempts is reached', async () => {
+      mockPrismaService.job.update.mockResolvedValue(buildJob());
+
+      await service.fail(buildJob({ attempts: 3 }), 'boom');
+
+      const [{ data }] = mockPrismaService.job.update.mock.calls[0] as [
+        { data: Partial<Job> },
+      ];
+      expect(data.status).toBe(JobStatus.FAILED);
+      expect(data.nextRunAt).toBeUndefined();
+    });
+  });
+
+  describe('renewLock', () => {
+    it('should extend the lease only while the worker still holds it', async () => {
+      mockPrismaService.job.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.renewLock('job-1', 'worker-1')).resolves.toBe(true);
+      expect(mockPrismaService.job.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'job-1',
+          status: JobStatus.RUNNING,
+          lockedBy: 'worker-1',
+        },
+        data: { lockedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('should report a lease taken over by recovery', async () => {
+      mockPrismaService.job.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.renewLock('job-1', 'worker-1')).resolves.toBe(false);
+    });
+  });
+
+  describe('recoverInterrupted', () => {
+    it('should return RUNNING jobs with an expired lease to PENDING', async () => {
+      mockPrismaService.job.updateMany.mockResolvedValue({ count: 2 });
+
+      const count = await service.recoverInterrupted();
+
+      expect(count).toBe(2);
+      expect(mockPrismaService.job.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: JobStatus.RUNNING,
+          OR: [{ lockedAt: { lt: expect.any(Date) as Date } }],
+        },
+        data: expect.objectContaining({
+          status: JobStatus.PENDING,
+        }) as Partial<Job>,
+      });
+    });
+
+    it('should also recover the jobs still leased by the given worker', async () => {
+      mockPrismaService.job.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.recoverInterrupted('worker-1');
+
+      expect(mockPrismaService.job.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: JobStatus.RUNNING,
+            OR: [
+              { lockedAt: { lt: expect.any(Date) as Date } },
+              { lockedBy: 'worker-1' },
+            ],
+          },
+        }),
+      );
+    });
+  });
+
+  describe('getStats', () => {
+    it('should aggregate persisted job counts by status', async () => {
+      mockPrismaService.job.groupBy.mockResolvedValue([
+        { status: JobStatus.PENDING, _count: { _all: 4 } },
+        { status: JobStatus.COMPLETED, _count: { _all: 10 } },
+        { status: JobStatus.FAILED, _count: { _all: 1 } },
+      ]);
+      mockPrismaService.job.count.mockResolvedValue(2);
+      mockPrismaService.job.findFirst.mockResolvedValue(null);
+
+      const stats = await service.getStats(JobType.PDF_GENERATION);
+
+      expect(stats).toEqual({
+        queueLength: 4,
+        running: 0,
+        retrying: 2,
+        totalProcessed: 10,
+        totalErrors: 1,
+        oldestPendingAt: null,
+      });
+    });
+  });
+});
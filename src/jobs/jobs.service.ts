@@ -0,0 +1,305 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: jobs.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Persistence layer of the durable job queue. Enqueues jobs,
+ * claims them for a worker, records success/failure with exponential
+ * backoff, renews and recovers leases and reports queue statistics.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, JobStatus, JobType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Options accepted when enqueuing a job.
+ */
+export interface EnqueueJobOptions {
+  /** Inspection the job belongs to (enables de-duplication and cascade delete). */
+  inspectionId?: string;
+  /** Maximum number of attempts before the job is marked FAILED. */
+  maxAttempts?: number;
+  /** Earliest time the job may run. Defaults to now. */
+  runAt?: Date;
+}
+
+/**
+ * Aggregated statistics for one job type.
+ */
+export interface JobQueueStats {
+  queueLength: number;
+  running: number;
+  retrying: number;
+  totalProcessed: number;
+  totalErrors: number;
+  oldestPendingAt: Date | null;
+}
+
+@Injectable()
+export class JobsService {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly retryBaseDelayMs: number;
+  /** Age after which the lease of a RUNNING job is considered expired. */
+  readonly lockTimeoutMs: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {
+    this.retryBaseDelayMs = Number(
+      this.config.get<string>('JOB_RETRY_BASE_DELAY_MS') ?? 5000,
+    );
+    this.lockTimeoutMs = Number(
+      this.config.get<string>('JOB_LOCK_TIMEOUT_MS') ?? 3 * 60 * 1000,
+    );
+  }
+
+  /**
+   * Persists a new PENDING job.
+   * If the same type is already PENDING or RUNNING for the given inspection,
+   * the existing job is returned instead of creating a duplicate.
+   *
+   * @param {JobType} type - The job type.
+   * @param {Prisma.InputJsonValue} payload - Handler-specific input.
+   * @param {EnqueueJobOptions} options - Optional inspection link, attempts and schedule.
+   * @returns {Promise<Job>} The created (or already queued) job.
+   */
+  async enqueue(
+    type: JobType,
+    payload: Prisma.InputJsonValue,
+    options: EnqueueJobOptions = {},
+  ): Promise<Job> {
+    if (options.inspectionId) {
+      const existing = await this.findActive(type, options.inspectionId);
+      if (existing) {
+        this.logger.warn(
+          `Job ${type} for inspection ${options.inspectionId} already queued as ${existing.id}; skipping duplicate.`,
+        );
+        return existing;
+      }
+    }
+
+    const job = await this.prisma.job.create({
+      data: {
+        type,
+        payload,
+        inspectionId: options.inspectionId,
+        ...(options.maxAttempts && { maxAttempts: options.maxAttempts }),
+        ...(options.runAt && { nextRunAt: options.runAt }),
+      },
+    });
+    this.logger.log(
+      `Enqueued job ${job.id} (${type})${options.inspectionId ? ` for inspection ${options.inspectionId}` : ''}`,
+    );
+    return job;
+  }
+
+  /**
+   * Finds a PENDING or RUNNING job of a type, optionally for an inspection.
+   *
+   * @param {JobType} type - The job type.
+   * @param {string} [inspectionId] - The inspection ID; any job of the type when omitted.
+   * @returns {Promise<Job | null>} The active job, or null if none.
+   */
+  async findActive(type: JobType, inspectionId?: string): Promise<Job | null> {
+    return this.prisma.job.findFirst({
+      where: {
+        type,
+        inspectionId,
+        status: { in: [JobStatus.PENDING, JobStatus.RUNNING] },
+      },
+    });
+  }
+
+  /**
+   * Claims up to `limit` due PENDING jobs of a type for a worker.
+   * Each candidate is claimed with a conditional update on its status, so two
+   * workers never process the same job.
+   *
+   * @param {JobType} type - The job type to claim.
+   * @param {string} workerId - Identifier of the claiming worker.
+   * @param {number} limit - Maximum number of jobs to claim.
+   * @returns {Promise<Job[]>} The claimed jobs (status RUNNING).
+   */
+  async claim(type: JobType, workerId: string, limit: number): Promise<Job[]> {
+    if (limit <= 0) return [];
+
+    const candidates = await this.prisma.job.findMany({
+      where: {
+        type,
+        status: JobStatus.PENDING,
+        nextRunAt: { lte: new Date() },
+      },
+      orderBy: [{ nextRunAt: 'asc' }, { createdAt: 'asc' }],
+      take: limit,
+      select: { id: true },
+    });
+
+    const claimed: Job[] = [];
+    for (const { id } of candidates) {
+      const { count } = await this.prisma.job.updateMany({
+        where: { id, status: JobStatus.PENDING },
+        data: {
+          status: JobStatus.RUNNING,
+          lockedAt: new Date(),
+          lockedBy: workerId,
+          attempts: { increment: 1 },
+        },
+      });
+      if (count === 1) {
+        claimed.push(
+          await this.prisma.job.findUniqueOrThrow({ where: { id } }),
+        );
+      }
+    }
+    return claimed;
+  }
+
+  /**
+   * Marks a job as COMPLETED and stores its result.
+   *
+   * @param {string} id - The job ID.
+   * @param {Prisma.InputJsonValue | void} result - Optional handler result.
+   * @returns {Promise<Job>} The updated job.
+   */
+  async complete(
+    id: string,
+    result?: Prisma.InputJsonValue | void,
+  ): Promise<Job> {
+    return this.prisma.job.update({
+      where: { id },
+      data: {
+        status: JobStatus.COMPLETED,
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        ...(result !== undefined && { result }),
+      },
+    });
+  }
+
+  /**
+   * Stores an intermediate result on a running job, so a retried attempt can
+   * skip side effects that already happened (e.g. a submitted transaction).
+   *
+   * @param {string} id - The job ID.
+   * @param {Prisma.InputJsonValue} result - The result to store.
+   * @returns {Promise<Job>} The updated job.
+   */
+  async saveResult(id: string, result: Prisma.InputJsonValue): Promise<Job> {
+    return this.prisma.job.update({ where: { id }, data: { result } });
+  }
+
+  /**
+   * Records a failed attempt. Reschedules the job with exponential backoff,
+   * or marks it FAILED when maxAttempts has been reached.
+   *
+   * @param {Job} job - The job whose attempt failed.
+   * @param {string} errorMessage - The error message of the attempt.
+   * @returns {Promise<Job>} The updated job (PENDING or FAILED).
+   */
+  async fail(job: Job, errorMessage: string): Promise<Job> {
+    const exhausted = job.attempts >= job.maxAttempts;
+    const delay = this.retryBaseDelayMs * Math.pow(2, job.attempts - 1);
+
+    return this.prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: exhausted ? JobStatus.FAILED : JobStatus.PENDING,
+        lastError: errorMessage,
+        lockedAt: null,
+        lockedBy: null,
+        ...(!exhausted && { nextRunAt: new Date(Date.now() + delay) }),
+      },
+    });
+  }
+
+  /**
+   * Extends the lease of a job the worker is still running, so the periodic
+   * sweep of expired leases does not hand it to another worker.
+   *
+   * @param {string} id - The job ID.
+   * @param {string} workerId - Identifier of the worker holding the lease.
+   * @returns {Promise<boolean>} False if the job is no longer leased by the worker.
+   */
+  async renewLock(id: string, workerId: string): Promise<boolean> {
+    const { count } = await this.prisma.job.updateMany({
+      where: { id, status: JobStatus.RUNNING, lockedBy: workerId },
+      data: { lockedAt: new Date() },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Returns RUNNING jobs to PENDING so they are picked up again.
+   * Jobs whose lease exceeded JOB_LOCK_TIMEOUT_MS (worker crashed or hung) are
+   * always recovered. When a worker ID is given, jobs it still holds are
+   * recovered too: on boot they were interrupted by its previous run, while
+   * jobs leased by other live workers keep running.
+   *
+   * @param {string} [workerId] - Worker whose leases are recovered regardless of age.
+   * @returns {Promise<number>} Number of recovered jobs.
+   */
+  async recoverInterrupted(workerId?: string): Promise<number> {
+    const expired: Prisma.JobWhereInput = {
+      lockedAt: { lt: new Date(Date.now() - this.lockTimeoutMs) },
+    };
+    const { count } = await this.prisma.job.updateMany({
+      where: {
+        status: JobStatus.RUNNING,
+        OR: workerId ? [expired, { lockedBy: workerId }] : [expired],
+      },
+      data: {
+        status: JobStatus.PENDING,
+        nextRunAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+    if (count > 0) {
+      this.logger.warn(`Recovered ${count} interrupted job(s).`);
+    }
+    return count;
+  }
+
+  /**
+   * Computes statistics from persisted jobs for the given type.
+   *
+   * @param {JobType} type - The job type.
+   * @returns {Promise<JobQueueStats>} Counts per status and oldest pending job time.
+   */
+  async getStats(type: JobType): Promise<JobQueueStats> {
+    const [grouped, retrying, oldestPending] = await Promise.all([
+      this.prisma.job.groupBy({
+        by: ['status'],
+        where: { type },
+        _count: { _all: true },
+      }),
+      this.prisma.job.count({
+        where: { type, status: JobStatus.PENDING, attempts: { gt: 0 } },
+      }),
+      this.prisma.job.findFirst({
+        where: { type, status: JobStatus.PENDING },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    const countOf = (status: JobStatus) =>
+      grouped.find((g) => g.status === status)?._count._all ?? 0;
+
+    return {
+      queueLength: countOf(JobStatus.PENDING),
+      running: countOf(JobStatus.RUNNING),
+      retrying,
+      totalProcessed: countOf(JobStatus.COMPLETED),
+      totalErrors: countOf(JobStatus.FAILED),
+      oldestPendingAt: oldestPending?.createdAt ?? null,
+    };
+  }
+}
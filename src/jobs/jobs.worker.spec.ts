@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Job, JobStatus, JobType } from '@prisma/client';
+import { hostname } from 'os';
+import { JobsWorker } from './jobs.worker';
+import { JobsService } from './jobs.service';
+
+const buildJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  type: JobType.BLOCKCHAIN_MINTING,
+  status: JobStatus.RUNNING,
+  payload: {},
+  result: null,
+  attempts: 1,
+  maxAttempts: 3,
+  nextRunAt: new Date(),
+  lockedAt: new Date(),
+  lockedBy: 'worker-1',
+  lastError: null,
+  completedAt: null,
+  inspectionId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('JobsWorker', () => {
+  let worker: JobsWorker;
+
+  const mockJobsService = {
+    claim: jest.fn(),
+    complete: jest.fn(),
+    fail: jest.fn(),
+    recoverInterrupted: jest.fn(),
+    renewLock: jest.fn(),
+    lockTimeoutMs: 900000,
+  };
+  const mockConfigService = { get: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobsWorker,
+        { provide: JobsService, useValue: mockJobsService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    worker = module.get<JobsWorker>(JobsWorker);
+    mockJobsService.recoverInterrupted.mockResolvedValue(0);
+  });
+
+  afterEach(async () => {
+    await worker.onApplicationShutdown();
+    jest.clearAllMocks();
+  });
+
+  it('should recover the leases of its hostname and expired ones on bootstrap', async () => {
+    await worker.onApplicationBootstrap();
+
+    expect(mockJobsService.recoverInterrupted).toHaveBeenCalledWith(hostname());
+  });
+
+  it('should recover the leases of the configured worker ID on bootstrap', async () => {
+    mockConfigService.get.mockImplementation((key: string) =>
+      key === 'JOB_WORKER_ID' ? 'worker-a' : undefined,
+    );
+    const stableWorker = new JobsWorker(
+      mockJobsService as unknown as JobsService,
+      mockConfigService as unknown as ConfigService,
+    );
+
+    await stableWorker.onApplicationBootstrap();
+    await stableWorker.onApplicationShutdown();
+
+    expect(mockJobsService.recoverInterrupted).toHaveBeenCalledWith('worker-a');
+    mockConfigService.get.mockReset();
+  });
+
+  it('should renew the lease while a job runs', async () => {
+    jest.useFakeTimers();
+    let finish: () => void = () => undefined;
+    worker.registerHandler(JobType.BLOCKCHAIN_MINTING, {
+      concurrency: 1,
+      handle: () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        }),
+    });
+    mockJobsService.claim.mockResolvedValue([buildJob()]);
+    mockJobsService.renewLock.mockResolvedValue(true);
+
+    await worker.poll();
+    await jest.advanceTimersByTimeAsync(900000);
+    expect(mockJobsService.renewLock).toHaveBeenCalledTimes(3);
+    expect(mockJobsService.renewLock).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(String),
+    );
+
+    finish();
+    await worker.onApplicationShutdown();
+    await jest.advanceTimersByTimeAsync(900000);
+    expect(mockJobsService.renewLock).toHaveBeenCalledTimes(3);
+    jest.useRealTimers();
+  });
+
+  it('should claim only up to the free concurrency and complete jobs', async () => {
+    const handle = jest.fn().mockResolvedValue({ ok: true });
+    worker.registerHandler(JobType.BLOCKCHAIN_MINTING, {
+      concurrency: 1,
+      handle,
+    });
+    mockJobsService.claim.mockResolvedValue([buildJob()]);
+
+    await worker.poll();
+    await worker.onApplicationShutdown(); // waits for in-flight jobs
+
+    expect(mockJobsService.claim).toHaveBeenCalledWith(
+      JobType.BLOCKCHAIN_MINTING,
+      expect.any(String),
+      1,
+    );
+    expect(handle).toHaveBeenCalled();
+    expect(mockJobsService.complete).toHaveBeenCalledWith('job-1', {
+      ok: true,
+    });
+  });
+
+  it('should record failures and call onExhausted when the job gives up', async () => {
+    const onExhausted = jest.fn();
+    worker.registerHandler(JobType.BLOCKCHAIN_MINTING, {
+      concurrency: 1,
+      handle: jest.fn().mockRejectedValue(new Error('submit failed')),
+      onExhausted,
+    });
+    const failedJob = buildJob({ attempts: 3, status: JobStatus.FAILED });
+    mockJobsService.claim.mockResolvedValue([buildJob({ attempts: 3 })]);
+    mockJobsService.fail.mockResolvedValue(failedJob);
+
+    await worker.poll();
+    await worker.onApplicationShutdown();
+
+    expect(mockJobsService.fail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      'submit failed',
+    );
+    expect(onExhausted).toHaveBeenCalledWith(failedJob, expect.any(Error));
+  });
+
+  it('should not call onExhausted while retries remain', async () => {
+    const onExhausted = jest.fn();
+    worker.registerHandler(JobType.BLOCKCHAIN_MINTING, {
+      concurrency: 1,
+      handle: jest.fn().mockRejectedValue(new Error('submit failed')),
+      onExhausted,
+    });
+    mockJobsService.claim.mockResolvedValue([buildJob()]);
+    mockJobsService.fail.mockResolvedValue(
+      buildJob({ status: JobStatus.PENDING }),
+    );
+
+    await worker.poll();
+    await worker.onApplicationShutdown();
+
+    expect(onExhausted).not.toHaveBeenCalled();
+  });
+});
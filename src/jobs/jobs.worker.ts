@@ -0,0 +1,225 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: jobs.worker.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Polling worker for the durable job queue. Feature services
+ * register a handler per JobType; the worker claims due jobs up to each
+ * handler's concurrency, runs them and records the outcome. Leases of running
+ * jobs are renewed until they settle; on boot the worker resumes jobs it held
+ * before a restart, and jobs whose lease expired are resumed periodically.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, JobStatus, JobType } from '@prisma/client';
+import { hostname } from 'os';
+import { JobsService } from './jobs.service';
+import { JobHandler } from './interfaces/job-handler.interface';
+
+@Injectable()
+export class JobsWorker
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(JobsWorker.name);
+  private readonly workerId: string;
+  private readonly handlers = new Map<JobType, JobHandler>();
+  private readonly running = new Map<JobType, number>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private readonly pollIntervalMs: number;
+  private readonly enabled: boolean;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastStaleSweep = 0;
+
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly config: ConfigService,
+  ) {
+    this.pollIntervalMs = Number(
+      this.config.get<string>('JOB_POLL_INTERVAL_MS') ?? 2000,
+    );
+    this.enabled = this.config.get<string>('JOB_WORKER_ENABLED') !== 'false';
+    // Stable across restarts, so the next run resumes the jobs of this one
+    this.workerId = this.config.get<string>('JOB_WORKER_ID') || hostname();
+  }
+
+  /**
+   * Registers the handler for a job type. Must be called before the
+   * application bootstraps (typically from a service's onModuleInit).
+   *
+   * @param {JobType} type - The job type handled.
+   * @param {JobHandler} handler - The handler implementation.
+   */
+  registerHandler(type: JobType, handler: JobHandler) {
+    this.handlers.set(type, handler);
+    this.running.set(type, 0);
+    this.logger.log(
+      `Registered job handler for ${type} (concurrency ${handler.concurrency})`,
+    );
+  }
+
+  /**
+   * Resumes interrupted jobs and starts the polling loop.
+   * Jobs still leased by this worker's ID (JOB_WORKER_ID, else the hostname)
+   * were interrupted by its previous run and are returned to PENDING, as are
+   * jobs whose lease expired. Jobs of other live workers are left running.
+   */
+  async onApplicationBootstrap() {
+    if (!this.enabled) {
+      this.logger.log('Job worker disabled (JOB_WORKER_ENABLED=false).');
+      return;
+    }
+    try {
+      await this.jobsService.recoverInterrupted(this.workerId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to recover interrupted jobs: ${error instanceof Error ? error.message : 'An unknown error occurred'}`,
+      );
+    }
+    this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+    this.logger.log(
+      `Job worker ${this.workerId} started (poll every ${this.pollIntervalMs}ms)`,
+    );
+  }
+
+  /**
+   * Stops polling and waits for in-flight jobs to settle.
+   */
+  async onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.allSettled([...this.inFlight]);
+  }
+
+  /**
+   * Number of jobs of a type currently processed by this worker.
+   *
+   * @param {JobType} type - The job type.
+   * @returns {number} Jobs in progress locally.
+   */
+  getRunningCount(type: JobType): number {
+    return this.running.get(type) ?? 0;
+  }
+
+  /**
+   * One polling cycle: sweeps stale leases and claims work for every
+   * registered handler with free capacity.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      if (Date.now() - this.lastStaleSweep > 60000) {
+        this.lastStaleSweep = Date.now();
+        await this.jobsService.recoverInterrupted();
+      }
+
+      for (const [type, handler] of this.handlers) {
+        const free = handler.concurrency - this.getRunningCount(type);
+        if (free <= 0) continue;
+
+        const jobs = await this.jobsService.claim(type, this.workerId, free);
+        for (const job of jobs) {
+          this.track(this.execute(job, handler));
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Job polling failed: ${error instanceof Error ? error.message : 'An unknown error occurred'}`,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Runs a claimed job through its handler and persists the outcome.
+   * The job's lease is renewed every third of JOB_LOCK_TIMEOUT_MS while the
+   * handler runs, so long jobs are not mistaken for interrupted ones.
+   *
+   * @param {Job} job - The claimed job.
+   * @param {JobHandler} handler - The handler for the job's type.
+   */
+  private async execute(job: Job, handler: JobHandler): Promise<void> {
+    this.running.set(job.type, this.getRunningCount(job.type) + 1);
+    const startTime = Date.now();
+    this.logger.log(
+      `Processing job ${job.id} (${job.type}) attempt ${job.attempts}/${job.maxAttempts}`,
+    );
+    const heartbeat = setInterval(
+      () => void this.renewLock(job),
+      this.jobsService.lockTimeoutMs / 3,
+    );
+
+    try {
+      const result = await handler.handle(job);
+      await this.jobsService.complete(job.id, result);
+      this.logger.log(
+        `Job ${job.id} (${job.type}) completed in ${Date.now() - startTime}ms`,
+      );
+    } catch (error) {
+      const err =
+        error instanceof Error ? error : new Error('An unknown error occurred');
+      try {
+        const updated = await this.jobsService.fail(job, err.message);
+        if (updated.status === JobStatus.FAILED) {
+          this.logger.error(
+            `Job ${job.id} (${job.type}) failed permanently after ${job.attempts} attempts: ${err.message}`,
+            err.stack,
+          );
+          if (handler.onExhausted) await handler.onExhausted(updated, err);
+        } else {
+          this.logger.warn(
+            `Job ${job.id} (${job.type}) attempt ${job.attempts} failed: ${err.message}. Retrying at ${updated.nextRunAt.toISOString()}`,
+          );
+        }
+      } catch (persistError) {
+        this.logger.error(
+          `Failed to record failure for job ${job.id}: ${persistError instanceof Error ? persistError.message : 'An unknown error occurred'}`,
+        );
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.running.set(job.type, this.getRunningCount(job.type) - 1);
+    }
+  }
+
+  /**
+   * Renews the lease of a running job, logging instead of throwing so the
+   * handler is not interrupted.
+   *
+   * @param {Job} job - The running job.
+   */
+  private async renewLock(job: Job): Promise<void> {
+    try {
+      const renewed = await this.jobsService.renewLock(job.id, this.workerId);
+      if (!renewed) {
+        this.logger.warn(
+          `Lease of job ${job.id} (${job.type}) was lost; it may be run again by another worker.`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to renew lease of job ${job.id}: ${error instanceof Error ? error.message : 'An unknown error occurred'}`,
+      );
+    }
+  }
+
+  /**
+   * Keeps a reference to an in-flight job so shutdown can wait for it.
+   */
+  private track(promise: Promise<void>) {
+    this.inFlight.add(promise);
+    void promise.finally(() => this.inFlight.delete(promise));
+  }
+}
@@ -0,0 +1,41 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mail-transport.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Contract implemented by mail transports (SMTP, file, console).
+ * MailerService only talks to the transport bound to MAIL_TRANSPORT, so
+ * messages can be written to disk or the log during local development.
+ * --------------------------------------------------------------------------
+ */
+
+/**
+ * Injection token of the active MailTransport.
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  /** Sender, e.g. "CAR-dano <no-reply@car-dano.com>". */
+  from: string;
+  /** Recipient address. */
+  to: string;
+  subject: string;
+  /** Plain-text body. */
+  text: string;
+  /** HTML body, sent as an alternative to the text. */
+  html?: string;
+}
+
+export interface MailTransport {
+  /** The transport name, e.g. "smtp" or "file". */
+  readonly name: string;
+
+  /**
+   * Delivers a message.
+   *
+   * @param message The message to deliver.
+   * @throws If the message could not be handed over.
+   */
+  send(message: MailMessage): Promise<void>;
+}
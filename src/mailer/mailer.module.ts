@@ -0,0 +1,43 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mailer.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for outgoing email. Binds the transport named by
+ * MAIL_TRANSPORT (console by default) and exports MailerService.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailerService } from './mailer.service';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { SmtpMailTransport } from './transports/smtp.transport';
+
+@Module({
+  providers: [
+    MailerService,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (config: ConfigService) => {
+        const name = config.get<string>('MAIL_TRANSPORT') ?? 'console';
+        switch (name) {
+          case 'console':
+            return new ConsoleMailTransport();
+          case 'file':
+            return new FileMailTransport(config);
+          case 'smtp':
+            return new SmtpMailTransport(config);
+          default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${name}".`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailerService],
+})
+export class MailerModule {}
@@ -0,0 +1,59 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mailer.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service sending templated emails through the transport
+ * selected by MAIL_TRANSPORT (smtp, file or console). The sender is
+ * MAIL_FROM.
+ * --------------------------------------------------------------------------
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import {
+  MailTemplateName,
+  MailTemplateVariables,
+  renderMailTemplate,
+} from './templates/mail-templates';
+
+@Injectable()
+export class MailerService {
+  private readonly logger = new Logger(MailerService.name);
+  private readonly from: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    config: ConfigService,
+  ) {
+    this.from =
+      config.get<string>('MAIL_FROM') ?? 'CAR-dano <no-reply@localhost>';
+  }
+
+  /**
+   * Renders a template and sends it.
+   *
+   * @param {string} to - Recipient address.
+   * @param {MailTemplateName} template - The template.
+   * @param {MailTemplateVariables[T]} variables - Values of its placeholders.
+   * @throws If the transport fails to deliver the message.
+   */
+  async sendTemplate<T extends MailTemplateName>(
+    to: string,
+    template: T,
+    variables: MailTemplateVariables[T],
+  ): Promise<void> {
+    const { subject, text, html } = renderMailTemplate(template, variables);
+    try {
+      await this.transport.send({ from: this.from, to, subject, text, html });
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to send "${template}" mail via ${this.transport.name}: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw error;
+    }
+  }
+}
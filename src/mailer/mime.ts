@@ -0,0 +1,83 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mime.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Builds the RFC 5322 / MIME source of a message (UTF-8,
+ * base64 bodies, multipart/alternative when there is an HTML body). Used by
+ * the SMTP transport and by the file transport (.eml files).
+ * --------------------------------------------------------------------------
+ */
+
+import { randomBytes } from 'crypto';
+import { MailMessage } from './mail-transport.interface';
+
+/**
+ * Extracts the bare address from "Name <address>" or "address".
+ *
+ * @param {string} mailbox - The mailbox.
+ * @returns {string} The address.
+ */
+export function addressOf(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Builds the full message source, with CRLF line endings.
+ *
+ * @param {MailMessage} message - The message.
+ * @param {Date} [date] - Value of the Date header.
+ * @returns {string} The message source.
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  date: Date = new Date(),
+): string {
+  const domain = addressOf(message.from).split('@')[1] ?? 'localhost';
+  const headers = [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, ...part('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `=_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...part('text/plain', message.text),
+    `--${boundary}`,
+    ...part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// --- Helpers ---
+
+function part(contentType: string, body: string): string[] {
+  const encoded = Buffer.from(body, 'utf8').toString('base64');
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(encoded.match(/.{1,76}/g) ?? []),
+    '',
+  ];
+}
+
+/** RFC 2047 encoded-word for non-ASCII header values. */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
@@ -0,0 +1,126 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: mail-templates.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Templates of the messages sent by the backend. Each template
+ * has a subject, a plain-text body and an HTML body with {{placeholders}};
+ * values are HTML-escaped in the HTML body.
+ * --------------------------------------------------------------------------
+ */
+
+export interface MailTemplateVariables {
+  'password-reset': { name: string; link: string; expiresInMinutes: number };
+  'email-verification': { name: string; link: string; expiresInHours: number };
+  invitation: {
+    name: string;
+    link: string;
+    role: string;
+    invitedBy: string;
+    expiresInHours: number;
+  };
+}
+
+export type MailTemplateName = keyof MailTemplateVariables;
+
+interface MailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const LAYOUT = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5">
+    {{content}}
+    <p style="color: #6b7280; font-size: 12px">CAR-dano &middot; PT. Inspeksi Mobil Jogja</p>
+  </body>
+</html>`;
+
+const TEMPLATES: Record<MailTemplateName, MailTemplate> = {
+  'password-reset': {
+    subject: 'Reset your CAR-dano password',
+    text: `Hello {{name}},
+
+We received a request to reset the password of your CAR-dano account.
+Open this link to choose a new password (valid for {{expiresInMinutes}} minutes):
+
+{{link}}
+
+If you did not ask for this, you can ignore this email; your password stays unchanged.`,
+    html: `<p>Hello {{name}},</p>
+<p>We received a request to reset the password of your CAR-dano account.</p>
+<p><a href="{{link}}">Choose a new password</a> (valid for {{expiresInMinutes}} minutes).</p>
+<p>If you did not ask for this, you can ignore this email; your password stays unchanged.</p>`,
+  },
+  'email-verification': {
+    subject: 'Confirm your email address',
+    text: `Hello {{name}},
+
+Please confirm the email address of your CAR-dano account by opening this link
+(valid for {{expiresInHours}} hours):
+
+{{link}}`,
+    html: `<p>Hello {{name}},</p>
+<p>Please confirm the email address of your CAR-dano account.</p>
+<p><a href="{{link}}">Confirm email address</a> (valid for {{expiresInHours}} hours).</p>`,
+  },
+  invitation: {
+    subject: 'You are invited to CAR-dano',
+    text: `Hello {{name}},
+
+{{invitedBy}} invited you to join CAR-dano as {{role}}.
+Open this link to choose your username and password (valid for {{expiresInHours}} hours):
+
+{{link}}`,
+    html: `<p>Hello {{name}},</p>
+<p>{{invitedBy}} invited you to join CAR-dano as {{role}}.</p>
+<p><a href="{{link}}">Accept the invitation</a> to choose your username and password (valid for {{expiresInHours}} hours).</p>`,
+  },
+};
+
+/**
+ * Renders a template.
+ *
+ * @param {MailTemplateName} name - The template.
+ * @param {MailTemplateVariables[T]} variables - Values of its placeholders.
+ * @returns {{ subject: string; text: string; html: string }} The rendered message parts.
+ */
+export function renderMailTemplate<T extends MailTemplateName>(
+  name: T,
+  variables: MailTemplateVariables[T],
+): MailTemplate {
+  const template = TEMPLATES[name];
+  const values = variables as Record<string, string | number>;
+  return {
+    subject: interpolate(template.subject, values, false),
+    text: interpolate(template.text, values, false),
+    html: LAYOUT.replace(
+      '{{content}}',
+      interpolate(template.html, values, true),
+    ),
+  };
+}
+
+// --- Helpers ---
+
+function interpolate(
+  template: string,
+  values: Record<string, string | number>,
+  html: boolean,
+): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = String(values[key] ?? '');
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
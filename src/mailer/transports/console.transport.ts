@@ -0,0 +1,27 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: console.transport.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Mail transport writing messages to the application log
+ * instead of sending them. For local development only: the log then holds
+ * password reset and invitation links.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+@Injectable()
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Mail to ${message.to}: ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,43 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: file.transport.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Mail transport writing each message as an .eml file to
+ * MAIL_FILE_DIR (default ./mail-outbox), to be opened with any mail client.
+ * For local development and testing.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+import { buildMimeMessage } from '../mime';
+
+@Injectable()
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly directory: string;
+
+  constructor(config: ConfigService) {
+    this.directory = path.resolve(
+      config.get<string>('MAIL_FILE_DIR') || 'mail-outbox',
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const now = new Date();
+    const fileName = `${now.toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      buildMimeMessage(message, now),
+    );
+    this.logger.log(`Mail to ${message.to} written to ${fileName}`);
+  }
+}
@@ -0,0 +1,242 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: smtp.transport.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Mail transport delivering messages to an SMTP server
+ * (RFC 5321): implicit TLS (MAIL_SMTP_SECURE=true, usually port 465) or
+ * STARTTLS when the server offers it, AUTH PLAIN when MAIL_SMTP_USER is set.
+ * Credentials are never sent over an unencrypted connection. One connection
+ * per message.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+import { addressOf, buildMimeMessage } from '../mime';
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+@Injectable()
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly logger = new Logger(SmtpMailTransport.name);
+  private readonly host: string;
+  private readonly port: number;
+  private readonly secure: boolean;
+  private readonly user?: string;
+  private readonly password?: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: ConfigService) {
+    this.host = config.getOrThrow<string>('MAIL_SMTP_HOST');
+    this.secure = config.get<string>('MAIL_SMTP_SECURE') === 'true';
+    this.port = Number(
+      config.get<string>('MAIL_SMTP_PORT') ?? (this.secure ? 465 : 587),
+    );
+    this.user = config.get<string>('MAIL_SMTP_USER') || undefined;
+    this.password = config.get<string>('MAIL_SMTP_PASSWORD') || undefined;
+    this.timeoutMs = Number(
+      config.get<string>('MAIL_SMTP_TIMEOUT_MS') ?? 30000,
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    let socket = await this.connect();
+    let reader = new SmtpReader(socket);
+    try {
+      await this.expect(reader, [220]);
+      let capabilities = await this.command(socket, reader, this.ehlo(), [250]);
+
+      if (!this.secure && hasCapability(capabilities, 'STARTTLS')) {
+        await this.command(socket, reader, 'STARTTLS', [220]);
+        reader.detach();
+        socket = await this.upgrade(socket);
+        reader = new SmtpReader(socket);
+        capabilities = await this.command(socket, reader, this.ehlo(), [250]);
+      }
+
+      if (this.user) {
+        if (!(socket instanceof tls.TLSSocket)) {
+          throw new Error(
+            'SMTP server offers no TLS; refusing to send credentials in clear text.',
+          );
+        }
+        const credentials = Buffer.from(
+          `\0${this.user}\0${this.password ?? ''}`,
+        ).toString('base64');
+        await this.command(socket, reader, `AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await this.command(
+        socket,
+        reader,
+        `MAIL FROM:<${addressOf(message.from)}>`,
+        [250],
+      );
+      await this.command(
+        socket,
+        reader,
+        `RCPT TO:<${addressOf(message.to)}>`,
+        [250, 251],
+      );
+      await this.command(socket, reader, 'DATA', [354]);
+      // Dot-stuffing (RFC 5321 section 4.5.2), then the end-of-data marker
+      const data = buildMimeMessage(message).replace(/^\./gm, '..');
+      await this.command(socket, reader, `${data}\r\n.`, [250]);
+      await this.command(socket, reader, 'QUIT', [221]).catch(() => undefined);
+      this.logger.log(`Mail to ${message.to} handed to ${this.host}`);
+    } finally {
+      reader.detach();
+      socket.destroy();
+    }
+  }
+
+  // --- Helpers ---
+
+  private ehlo(): string {
+    return `EHLO ${os.hostname() || 'localhost'}`;
+  }
+
+  private connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = this.secure
+        ? tls.connect({
+            host: this.host,
+            port: this.port,
+            servername: this.host,
+          })
+        : net.connect({ host: this.host, port: this.port });
+      socket.setTimeout(this.timeoutMs, () =>
+        socket.destroy(new Error('SMTP connection timed out.')),
+      );
+      socket.once(this.secure ? 'secureConnect' : 'connect', () =>
+        resolve(socket),
+      );
+      socket.once('error', reject);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<tls.TLSSocket> {
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket, servername: this.host }, () =>
+        resolve(secured),
+      );
+      secured.setTimeout(this.timeoutMs, () =>
+        secured.destroy(new Error('SMTP connection timed out.')),
+      );
+      secured.once('error', reject);
+    });
+  }
+
+  private async command(
+    socket: net.Socket,
+    reader: SmtpReader,
+    line: string,
+    expected: number[],
+  ): Promise<SmtpReply> {
+    socket.write(`${line}\r\n`);
+    return this.expect(reader, expected, line.split(' ')[0]);
+  }
+
+  private async expect(
+    reader: SmtpReader,
+    expected: number[],
+    command = 'greeting',
+  ): Promise<SmtpReply> {
+    const reply = await reader.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`,
+      );
+    }
+    return reply;
+  }
+}
+
+/**
+ * Whether an EHLO reply advertises an extension.
+ */
+function hasCapability(reply: SmtpReply, name: string): boolean {
+  return reply.lines.some((line) => line.toUpperCase().split(' ')[0] === name);
+}
+
+/**
+ * Reads SMTP replies (possibly multi-line) from a socket, one at a time.
+ */
+class SmtpReader {
+  private buffer = '';
+  private readonly lines: string[] = [];
+  private waiting?: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  };
+  private error?: Error;
+
+  constructor(private readonly socket: net.Socket) {
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.takeReply();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  detach(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+  }
+
+  private readonly onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf8');
+    const parts = this.buffer.split('\r\n');
+    this.buffer = parts.pop() ?? '';
+    this.lines.push(...parts);
+    const reply = this.waiting && this.takeReply();
+    if (reply) {
+      const { resolve } = this.waiting!;
+      this.waiting = undefined;
+      resolve(reply);
+    }
+  };
+
+  private readonly onError = (error: Error): void => this.fail(error);
+
+  private readonly onClose = (): void =>
+    this.fail(new Error('SMTP connection closed.'));
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(this.error);
+    }
+  }
+
+  /** Removes and returns the next complete reply ("250-..." lines end with "250 ..."). */
+  private takeReply(): SmtpReply | undefined {
+    const last = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return undefined;
+    const lines = this.lines.splice(0, last + 1);
+    return {
+      code: Number(lines[last].slice(0, 3)),
+      lines: lines.map((line) => line.slice(4)),
+    };
+  }
+}
@@ -117,6 +117,33 @@ async function bootstrap() {
     .addTag('Scalar Docs', 'Endpoints for Scalar documentation')
     .addTag('Users', 'User management operations')
     .addTag('Dashboard Admin', 'Administrator management operations')
+    .addTag(
+      'Customer Inspection Requests',
+      'Inspections booked and tracked by customers',
+    )
+    .addTag(
+      'Customer Inspection Requests (Admin)',
+      'Admin handling of customer inspection requests',
+    )
+    .addTag('Inspection Prices', 'Inspection price list per vehicle class')
+    .addTag('Orders & Payments (Admin)', 'Inspection orders and payments')
+    .addTag(
+      'Customer Inspection History',
+      "Customer's own vehicles, inspections and reports",
+    )
+    .addTag(
+      'Customer Vehicles (Admin)',
+      'Linking vehicles to the customers who own them',
+    )
+    .addTag('Audit Logs', 'Audit trail of privileged actions (SUPERADMIN)')
+    .addTag('API Keys (Developer)', 'Public API keys and their usage')
+    .addTag('API Keys (Admin)', 'Limits, revocation and usage of API keys')
+    .addTag(
+      'OAuth2 (Partners)',
+      'Client credentials tokens for partner systems',
+    )
+    .addTag('OAuth Clients (Admin)', 'Registration of partner systems')
+    .addTag('Partner API', 'Inspection data for partner systems (OAuth2)')
     // Add security scheme definition if your API is protected
     .addBearerAuth(
       // For JWT
@@ -130,6 +157,36 @@ async function bootstrap() {
       },
       'JwtAuthGuard', // Security scheme name (use this in @ApiBearerAuth())
     )
+    .addApiKey(
+      // For Public API keys issued to developers
+      {
+        type: 'apiKey',
+        name: 'X-API-Key',
+        description: 'Enter Public API key',
+        in: 'header',
+      },
+      'ApiKey', // Security scheme name (use this in @ApiSecurity())
+    )
+    .addBasicAuth(
+      // For OAuth clients at the token, introspection and revocation endpoints
+      {
+        type: 'http',
+        scheme: 'basic',
+        description: 'Enter client ID and client secret',
+      },
+      'OAuthClient', // Security scheme name (use this in @ApiBasicAuth())
+    )
+    .addBearerAuth(
+      // For partner routes (client credentials access token)
+      {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'Enter access token from POST /oauth/token',
+        in: 'header',
+      },
+      'ClientCredentials', // Security scheme name (use this in @ApiBearerAuth())
+    )
     .build();
 
   // Generate OpenAPI document WITHOUT setting up the default Swagger UI
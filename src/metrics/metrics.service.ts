@@ -11,6 +11,8 @@ export class MetricsService {
   private readonly adaTransferVolume: Gauge<string>;
   private readonly blockchainSyncStatus: Gauge<string>;
   private readonly errorCount: Counter<string>;
+  private readonly loginFailures: Counter<string>;
+  private readonly loginLockouts: Counter<string>;
 
   constructor() {
     // HTTP Metrics
@@ -62,6 +64,19 @@ export class MetricsService {
       labelNames: ['error_type', 'endpoint'],
     });
 
+    // Security Metrics
+    this.loginFailures = new Counter({
+      name: 'login_failures_total',
+      help: 'Total failed login attempts',
+      labelNames: ['method'],
+    });
+
+    this.loginLockouts = new Counter({
+      name: 'login_lockouts_total',
+      help: 'Total lockouts after repeated failed logins',
+      labelNames: ['scope'],
+    });
+
     // Register all metrics
     register.registerMetric(this.httpRequestsTotal);
     register.registerMetric(this.httpRequestDuration);
@@ -71,6 +86,8 @@ export class MetricsService {
     register.registerMetric(this.adaTransferVolume);
     register.registerMetric(this.blockchainSyncStatus);
     register.registerMetric(this.errorCount);
+    register.registerMetric(this.loginFailures);
+    register.registerMetric(this.loginLockouts);
   }
 
   // HTTP Metrics Methods
@@ -114,6 +131,15 @@ export class MetricsService {
     this.errorCount.inc({ error_type: errorType, endpoint });
   }
 
+  // Security Metrics Methods
+  incrementLoginFailure(method: string) {
+    this.loginFailures.inc({ method });
+  }
+
+  incrementLoginLockout(scope: string) {
+    this.loginLockouts.inc({ scope });
+  }
+
   // Get all metrics
   async getMetrics(): Promise<string> {
     return await register.metrics();
@@ -0,0 +1,47 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: create-order.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for creating an order for a
+ * customer inspection request or an inspection. The amount is taken from the
+ * price list of the vehicle class.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { VehicleClass } from '@prisma/client';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+
+/**
+ * Data Transfer Object for creating an order.
+ * Exactly one of customerInspectionRequestId or inspectionId must be set.
+ */
+export class CreateOrderDto {
+  @ApiProperty({
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+    description: 'Customer inspection request (booking) the order pays for',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  customerInspectionRequestId?: string;
+
+  @ApiProperty({
+    example: 'b2c3d4e5-f6a7-8901-2345-67890abcdef1',
+    description: 'Inspection the order pays for (e.g. walk-in inspections)',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  inspectionId?: string;
+
+  @ApiProperty({
+    enum: VehicleClass,
+    example: VehicleClass.REGULAR,
+    description: 'Vehicle class used to look up the price',
+  })
+  @IsEnum(VehicleClass)
+  vehicleClass: VehicleClass;
+}
@@ -0,0 +1,53 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: order-query.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Query parameters for listing orders.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentStatus } from '@prisma/client';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+export class OrderQueryDto {
+  @ApiProperty({
+    enum: PaymentStatus,
+    description: 'Filter by payment status',
+    required: false,
+  })
+  @IsEnum(PaymentStatus)
+  @IsOptional()
+  status?: PaymentStatus;
+
+  @ApiProperty({
+    description: 'Filter by inspection branch city ID',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  inspectionBranchCityId?: string;
+
+  @ApiProperty({
+    description: 'Page number (1-based). Defaults to 1.',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Number of items per page. Defaults to 10.',
+    example: 10,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  pageSize?: number = 10;
+}
@@ -0,0 +1,138 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: order-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Objects (DTOs) returned for orders and their
+ * payments.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { Order, Payment, PaymentStatus, VehicleClass } from '@prisma/client';
+
+/**
+ * An order loaded together with its payments.
+ */
+export type OrderWithPayments = Order & { payments: Payment[] };
+
+/**
+ * Data Transfer Object for a payment attempt.
+ */
+export class PaymentResponseDto {
+  @ApiProperty({ description: 'Payment ID (UUID)' })
+  id: string;
+
+  @ApiProperty({ example: 'fake', description: 'Payment provider' })
+  provider: string;
+
+  @ApiProperty({ description: "Provider's payment reference" })
+  reference: string;
+
+  @ApiProperty({
+    description: 'Where the customer completes the payment',
+    nullable: true,
+  })
+  paymentUrl: string | null;
+
+  @ApiProperty({ example: 350000, description: 'Amount in whole Rupiah' })
+  amount: number;
+
+  @ApiProperty({ enum: PaymentStatus, example: PaymentStatus.PENDING })
+  status: PaymentStatus;
+
+  @ApiProperty({ nullable: true })
+  paidAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  refundedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(payment: Payment) {
+    this.id = payment.id;
+    this.provider = payment.provider;
+    this.reference = payment.reference;
+    this.paymentUrl = payment.paymentUrl;
+    this.amount = payment.amount;
+    this.status = payment.status;
+    this.paidAt = payment.paidAt;
+    this.refundedAt = payment.refundedAt;
+    this.createdAt = payment.createdAt;
+  }
+}
+
+/**
+ * Data Transfer Object for an order.
+ */
+export class OrderResponseDto {
+  @ApiProperty({ description: 'Order ID (UUID)' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Customer inspection request the order pays for',
+    nullable: true,
+  })
+  customerInspectionRequestId: string | null;
+
+  @ApiProperty({
+    description: 'Inspection the order pays for',
+    nullable: true,
+  })
+  inspectionId: string | null;
+
+  @ApiProperty({ description: 'Branch city performing the inspection' })
+  inspectionBranchCityId: string;
+
+  @ApiProperty({ enum: VehicleClass, example: VehicleClass.REGULAR })
+  vehicleClass: VehicleClass;
+
+  @ApiProperty({ example: 350000, description: 'Amount due in whole Rupiah' })
+  amount: number;
+
+  @ApiProperty({ example: 'IDR' })
+  currency: string;
+
+  @ApiProperty({
+    enum: PaymentStatus,
+    example: PaymentStatus.PENDING,
+    description:
+      'Payment status (PENDING -> PAID -> REFUNDED, or PENDING -> FAILED / CANCELLED)',
+  })
+  status: PaymentStatus;
+
+  @ApiProperty({ nullable: true })
+  paidAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  refundedAt: Date | null;
+
+  @ApiProperty({ type: [PaymentResponseDto] })
+  payments: PaymentResponseDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(order: OrderWithPayments) {
+    this.id = order.id;
+    this.customerInspectionRequestId = order.customerInspectionRequestId;
+    this.inspectionId = order.inspectionId;
+    this.inspectionBranchCityId = order.inspectionBranchCityId;
+    this.vehicleClass = order.vehicleClass;
+    this.amount = order.amount;
+    this.currency = order.currency;
+    this.status = order.status;
+    this.paidAt = order.paidAt;
+    this.refundedAt = order.refundedAt;
+    this.payments = order.payments.map(
+      (payment) => new PaymentResponseDto(payment),
+    );
+    this.createdAt = order.createdAt;
+    this.updatedAt = order.updatedAt;
+  }
+}
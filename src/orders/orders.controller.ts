@@ -0,0 +1,256 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: orders.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS controller for admins managing inspection orders and
+ * their payments (start, sync with the provider, refund).
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audit } from '../audit-logs/audit.decorator';
+import { OrdersService } from './orders.service';
+import { CreateOrderDto } from './dto/create-order.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import { OrderResponseDto } from './dto/order-response.dto';
+
+@ApiTags('Orders & Payments (Admin)')
+@ApiBearerAuth('JwtAuthGuard')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN, Role.SUPERADMIN)
+@Controller('admin/orders') // Base path: /api/v1/admin/orders
+export class OrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  /**
+   * Creates an order for a customer inspection request or an inspection.
+   *
+   * @param dto Target and vehicle class.
+   * @returns The created order.
+   */
+  @Post()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Create an order',
+    description:
+      'The amount is taken from the price list of the vehicle class (branch specific price first, then the default price).',
+  })
+  @ApiBody({ type: CreateOrderDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The created order.',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Unknown request/inspection or no price for the vehicle class.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The request or inspection already has an order.',
+  })
+  async create(@Body() dto: CreateOrderDto): Promise<OrderResponseDto> {
+    return new OrderResponseDto(await this.ordersService.create(dto));
+  }
+
+  /**
+   * Lists orders, newest first.
+   *
+   * @param query Filters and pagination.
+   * @returns The page of orders with pagination metadata.
+   */
+  @Get()
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'List orders' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Paginated list of orders.',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/OrderResponseDto' },
+        },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            page: { type: 'number' },
+            pageSize: { type: 'number' },
+            totalPages: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  async findAll(@Query() query: OrderQueryDto): Promise<{
+    data: OrderResponseDto[];
+    meta: { total: number; page: number; pageSize: number; totalPages: number };
+  }> {
+    const result = await this.ordersService.findAll(query);
+    return {
+      data: result.data.map((order) => new OrderResponseDto(order)),
+      meta: result.meta,
+    };
+  }
+
+  /**
+   * Retrieves an order with its payments.
+   *
+   * @param id The order ID.
+   * @returns The order.
+   */
+  @Get(':id')
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Get an order' })
+  @ApiParam({ name: 'id', description: 'Order ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The order.',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Order not found.',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<OrderResponseDto> {
+    return new OrderResponseDto(await this.ordersService.findOne(id));
+  }
+
+  /**
+   * Starts a payment for an unpaid order.
+   *
+   * @param id The order ID.
+   * @returns The order including the new payment.
+   */
+  @Post(':id/payments')
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Start a payment for an order' })
+  @ApiParam({ name: 'id', description: 'Order ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payment created at the provider (status PENDING).',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Order not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The order is already paid/refunded or has a pending payment.',
+  })
+  async startPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<OrderResponseDto> {
+    return new OrderResponseDto(await this.ordersService.startPayment(id));
+  }
+
+  /**
+   * Fetches the status of a payment from the provider and applies it.
+   *
+   * @param id The order ID.
+   * @param paymentId The payment ID.
+   * @returns The updated order.
+   */
+  @Post(':id/payments/:paymentId/sync')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({ summary: 'Sync a payment with the payment provider' })
+  @ApiParam({ name: 'id', description: 'Order ID (UUID)' })
+  @ApiParam({ name: 'paymentId', description: 'Payment ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated order.',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payment not found for the order.',
+  })
+  async syncPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('paymentId', ParseUUIDPipe) paymentId: string,
+  ): Promise<OrderResponseDto> {
+    return new OrderResponseDto(
+      await this.ordersService.syncPayment(id, paymentId),
+    );
+  }
+
+  /**
+   * Refunds a paid payment in full.
+   *
+   * @param id The order ID.
+   * @param paymentId The payment ID.
+   * @returns The updated order.
+   */
+  @Post(':id/payments/:paymentId/refund')
+  @Audit(AuditAction.ORDER_PAYMENT_REFUNDED, AuditTargetType.ORDER)
+  @HttpCode(HttpStatus.OK)
+  @Roles(Role.SUPERADMIN)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @ApiOperation({
+    summary: 'Refund a payment',
+    description:
+      'Restricted to SUPERADMIN. Only PAID payments can be refunded.',
+  })
+  @ApiParam({ name: 'id', description: 'Order ID (UUID)' })
+  @ApiParam({ name: 'paymentId', description: 'Payment ID (UUID)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated order.',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The payment is not PAID.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payment not found for the order.',
+  })
+  async refundPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('paymentId', ParseUUIDPipe) paymentId: string,
+  ): Promise<OrderResponseDto> {
+    return new OrderResponseDto(
+      await this.ordersService.refundPayment(id, paymentId),
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: orders.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for inspection orders and payments.
+ * Binds PAYMENT_PROVIDER to the provider selected by the PAYMENT_PROVIDER
+ * environment variable (default: fake).
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { InspectionPricesModule } from '../inspection-prices/inspection-prices.module';
+import { OrdersService } from './orders.service';
+import { OrdersController } from './orders.controller';
+import { PAYMENT_PROVIDER } from './payment-providers/payment-provider.interface';
+import { FakePaymentProvider } from './payment-providers/fake-payment.provider';
+
+@Module({
+  imports: [PrismaModule, InspectionPricesModule],
+  controllers: [OrdersController],
+  providers: [
+    OrdersService,
+    FakePaymentProvider,
+    {
+      provide: PAYMENT_PROVIDER,
+      useFactory: (config: ConfigService, fake: FakePaymentProvider) => {
+        const name = config.get<string>('PAYMENT_PROVIDER') ?? 'fake';
+        switch (name) {
+          case 'fake':
+            return fake;
+          default:
+            throw new Error(`Unknown PAYMENT_PROVIDER "${name}".`);
+        }
+      },
+      inject: [ConfigService, FakePaymentProvider],
+    },
+  ],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
@@ -0,0 +1,349 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Order,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  VehicleClass,
+} from '@prisma/client';
+import { OrdersService } from './orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { InspectionPricesService } from '../inspection-prices/inspection-prices.service';
+import { PAYMENT_PROVIDER } from './payment-providers/payment-provider.interface';
+import { FakePaymentProvider } from './payment-providers/fake-payment.provider';
+
+const buildOrder = (
+  overrides: Partial<Order> = {},
+  payments: Payment[] = [],
+): Order & { payments: Payment[] } => ({
+  id: 'order-1',
+  customerInspectionRequestId: 'request-1',
+  inspectionId: null,
+  inspectionBranchCityId: 'branch-1',
+  inspectionPriceId: 'price-1',
+  vehicleClass: VehicleClass.REGULAR,
+  amount: 350000,
+  currency: 'IDR',
+  status: PaymentStatus.PENDING,
+  paidAt: null,
+  refundedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+  payments,
+});
+
+const buildPayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'payment-1',
+  orderId: 'order-1',
+  provider: 'fake',
+  reference: 'fake_ref',
+  paymentUrl: null,
+  amount: 350000,
+  status: PaymentStatus.PENDING,
+  paidAt: null,
+  refundedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('OrdersService', () => {
+  let service: OrdersService;
+
+  const mockTx = {
+    order: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    payment: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    customerInspectionRequest: { findUnique: jest.fn() },
+    inspection: { findUnique: jest.fn() },
+  };
+  // Interactive transactions run against the same mocks
+  const mockPrismaService = {
+    ...mockTx,
+    $transaction: jest.fn((callback: (tx: typeof mockTx) => Promise<unknown>) =>
+      callback(mockTx),
+    ),
+  };
+  const mockInspectionPricesService = { resolvePrice: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: InspectionPricesService,
+          useValue: mockInspectionPricesService,
+        },
+        { provide: PAYMENT_PROVIDER, useClass: FakePaymentProvider },
+      ],
+    }).compile();
+
+    service = module.get<OrdersService>(OrdersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should copy the amount of the resolved price to the order', async () => {
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue({
+        inspectionBranchCityId: 'branch-1',
+      });
+      mockInspectionPricesService.resolvePrice.mockResolvedValue({
+        id: 'price-1',
+        amount: 500000,
+        currency: 'IDR',
+      });
+      mockPrismaService.order.create.mockResolvedValue(buildOrder());
+
+      await service.create({
+        customerInspectionRequestId: 'request-1',
+        vehicleClass: VehicleClass.LUXURY,
+      });
+
+      expect(mockInspectionPricesService.resolvePrice).toHaveBeenCalledWith(
+        VehicleClass.LUXURY,
+        'branch-1',
+      );
+      expect(mockPrismaService.order.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            inspectionPriceId: 'price-1',
+            amount: 500000,
+            inspectionBranchCityId: 'branch-1',
+          }) as unknown,
+        }),
+      );
+    });
+
+    it('should require exactly one target', async () => {
+      await expect(
+        service.create({
+          customerInspectionRequestId: 'request-1',
+          inspectionId: 'inspection-1',
+          vehicleClass: VehicleClass.REGULAR,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create({ vehicleClass: VehicleClass.REGULAR }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a vehicle class without a price', async () => {
+      mockPrismaService.inspection.findUnique.mockResolvedValue({
+        branchCityId: 'branch-1',
+      });
+      mockInspectionPricesService.resolvePrice.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          inspectionId: 'inspection-1',
+          vehicleClass: VehicleClass.EV,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.order.create).not.toHaveBeenCalled();
+    });
+
+    it('should report a conflict when the target already has an order', async () => {
+      mockPrismaService.customerInspectionRequest.findUnique.mockResolvedValue({
+        inspectionBranchCityId: 'branch-1',
+      });
+      mockInspectionPricesService.resolvePrice.mockResolvedValue({
+        id: 'price-1',
+        amount: 350000,
+        currency: 'IDR',
+      });
+      mockPrismaService.order.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.create({
+          customerInspectionRequestId: 'request-1',
+          vehicleClass: VehicleClass.REGULAR,
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('startPayment', () => {
+    it('should create a pending payment at the provider', async () => {
+      mockPrismaService.order.findUnique.mockResolvedValue(buildOrder());
+      mockPrismaService.payment.create.mockResolvedValue(buildPayment());
+
+      await service.startPayment('order-1');
+
+      expect(mockPrismaService.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          orderId: 'order-1',
+          provider: 'fake',
+          reference: expect.stringMatching(/^fake_/) as unknown,
+          amount: 350000,
+          status: PaymentStatus.PENDING,
+        }) as unknown,
+      });
+      expect(mockPrismaService.payment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not start a second payment while one is pending', async () => {
+      mockPrismaService.order.findUnique.mockResolvedValue(
+        buildOrder({}, [buildPayment()]),
+      );
+
+      await expect(service.startPayment('order-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should start a new payment after a failed one', async () => {
+      mockPrismaService.order.findUnique.mockResolvedValue(
+        buildOrder({}, [
+          buildPayment({ status: PaymentStatus.FAILED }),
+          buildPayment({ id: 'payment-2', status: PaymentStatus.CANCELLED }),
+        ]),
+      );
+      mockPrismaService.payment.create.mockResolvedValue(
+        buildPayment({ id: 'payment-3' }),
+      );
+
+      await service.startPayment('order-1');
+
+      expect(mockPrismaService.payment.create).toHaveBeenCalled();
+    });
+
+    it('should not start a payment for a paid order', async () => {
+      mockPrismaService.order.findUnique.mockResolvedValue(
+        buildOrder({ status: PaymentStatus.PAID }),
+      );
+
+      await expect(service.startPayment('order-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('syncPayment', () => {
+    it('should mark the payment and the order as paid', async () => {
+      mockPrismaService.payment.findFirst.mockResolvedValue(buildPayment());
+      mockPrismaService.payment.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.order.findUnique.mockResolvedValue(buildOrder());
+
+      await service.syncPayment('order-1', 'payment-1');
+
+      expect(mockPrismaService.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payment-1', status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.PAID, paidAt: expect.any(Date) as Date },
+      });
+      expect(mockPrismaService.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: { status: PaymentStatus.PAID, paidAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('should mark a declined payment as failed and leave the order pending', async () => {
+      jest
+        .spyOn(FakePaymentProvider.prototype, 'getPaymentStatus')
+        .mockResolvedValueOnce(PaymentStatus.FAILED);
+      mockPrismaService.payment.findFirst.mockResolvedValue(buildPayment());
+      mockPrismaService.payment.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.order.findUnique.mockResolvedValue(buildOrder());
+
+      await service.syncPayment('order-1', 'payment-1');
+
+      expect(mockPrismaService.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payment-1', status: PaymentStatus.PENDING },
+        data: { status: PaymentStatus.FAILED },
+      });
+      expect(mockPrismaService.order.update).not.toHaveBeenCalled();
+    });
+
+    it('should not change a cancelled payment', async () => {
+      mockPrismaService.payment.findFirst.mockResolvedValue(
+        buildPayment({ status: PaymentStatus.CANCELLED }),
+      );
+
+      await expect(service.syncPayment('order-1', 'payment-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should not touch a payment whose status did not change', async () => {
+      mockPrismaService.payment.findFirst.mockResolvedValue(
+        buildPayment({ status: PaymentStatus.PAID }),
+      );
+      mockPrismaService.order.findUnique.mockResolvedValue(
+        buildOrder({ status: PaymentStatus.PAID }),
+      );
+
+      await service.syncPayment('order-1', 'payment-1');
+
+      expect(mockPrismaService.payment.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a payment that belongs to another order', async () => {
+      mockPrismaService.payment.findFirst.mockResolvedValue(null);
+
+      await expect(service.syncPayment('order-2', 'payment-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('refundPayment', () => {
+    it('should refund a paid payment', async () => {
+      mockPrismaService.payment.findFirst.mockResolvedValue(
+        buildPayment({ status: PaymentStatus.PAID }),
+      );
+      mockPrismaService.payment.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.order.findUnique.mockResolvedValue(buildOrder());
+
+      await service.refundPayment('order-1', 'payment-1');
+
+      expect(mockPrismaService.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: {
+          status: PaymentStatus.REFUNDED,
+          refundedAt: expect.any(Date) as Date,
+        },
+      });
+    });
+
+    it('should only refund paid payments', async () => {
+      mockPrismaService.payment.findFirst.mockResolvedValue(buildPayment());
+
+      await expect(
+        service.refundPayment('order-1', 'payment-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should report a conflict when the payment changed concurrently', async () => {
+      mockPrismaService.payment.findFirst.mockResolvedValue(
+        buildPayment({ status: PaymentStatus.PAID }),
+      );
+      mockPrismaService.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.refundPayment('order-1', 'payment-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.order.update).not.toHaveBeenCalled();
+    });
+  });
+});
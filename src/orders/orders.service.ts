@@ -0,0 +1,394 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: orders.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service for inspection orders and their payments.
+ * Orders are priced from the inspection price list and paid through the
+ * configured PaymentProvider. Payment state moves PENDING -> PAID -> REFUNDED,
+ * or ends FAILED / CANCELLED. The order mirrors the state of its latest
+ * payment, except that a failed or cancelled payment leaves it PENDING so a
+ * new payment can be started.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Payment, PaymentStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { InspectionPricesService } from '../inspection-prices/inspection-prices.service';
+import { CreateOrderDto } from './dto/create-order.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import { OrderWithPayments } from './dto/order-response.dto';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+} from './payment-providers/payment-provider.interface';
+
+/**
+ * Allowed payment status transitions.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<
+  PaymentStatus,
+  PaymentStatus[]
+> = {
+  [PaymentStatus.PENDING]: [
+    PaymentStatus.PAID,
+    PaymentStatus.FAILED,
+    PaymentStatus.CANCELLED,
+  ],
+  [PaymentStatus.PAID]: [PaymentStatus.REFUNDED],
+  [PaymentStatus.REFUNDED]: [],
+  [PaymentStatus.FAILED]: [],
+  [PaymentStatus.CANCELLED]: [],
+};
+
+/**
+ * Terminal payment states that leave the order unpaid.
+ */
+const UNSETTLED_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.FAILED,
+  PaymentStatus.CANCELLED,
+];
+
+const ORDER_INCLUDE = {
+  payments: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.OrderInclude;
+
+export interface PaginatedOrders {
+  data: OrderWithPayments[];
+  meta: { total: number; page: number; pageSize: number; totalPages: number };
+}
+
+@Injectable()
+export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private readonly inspectionPricesService: InspectionPricesService,
+    @Inject(PAYMENT_PROVIDER)
+    private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  /**
+   * Creates an order for a customer inspection request or an inspection,
+   * priced from the price list of the vehicle class and branch city.
+   *
+   * @param {CreateOrderDto} dto - Target (request or inspection) and vehicle class.
+   * @returns {Promise<OrderWithPayments>} The created order.
+   * @throws {BadRequestException} If the target is missing/ambiguous/unknown or no price is set.
+   * @throws {ConflictException} If the target already has an order.
+   */
+  async create(dto: CreateOrderDto): Promise<OrderWithPayments> {
+    if (!!dto.customerInspectionRequestId === !!dto.inspectionId) {
+      throw new BadRequestException(
+        'Provide exactly one of customerInspectionRequestId or inspectionId.',
+      );
+    }
+
+    const inspectionBranchCityId = await this.findBranchCityId(dto);
+    const price = await this.inspectionPricesService.resolvePrice(
+      dto.vehicleClass,
+      inspectionBranchCityId,
+    );
+    if (!price) {
+      throw new BadRequestException(
+        `No active inspection price for vehicle class ${dto.vehicleClass}.`,
+      );
+    }
+
+    try {
+      const order = await this.prisma.order.create({
+        data: {
+          customerInspectionRequestId: dto.customerInspectionRequestId,
+          inspectionId: dto.inspectionId,
+          inspectionBranchCityId,
+          inspectionPriceId: price.id,
+          vehicleClass: dto.vehicleClass,
+          amount: price.amount,
+          currency: price.currency,
+        },
+        include: ORDER_INCLUDE,
+      });
+      this.logger.log(
+        `Created order ${order.id} (${order.amount} ${order.currency}) for ${
+          dto.customerInspectionRequestId
+            ? `request ${dto.customerInspectionRequestId}`
+            : `inspection ${dto.inspectionId}`
+        }`,
+      );
+      return order;
+    } catch (error: unknown) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'An order already exists for this inspection request or inspection.',
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists orders, newest first.
+   *
+   * @param {OrderQueryDto} query - Status / branch city filters and pagination.
+   * @returns {Promise<PaginatedOrders>} The page of orders and metadata.
+   */
+  async findAll(query: OrderQueryDto): Promise<PaginatedOrders> {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 10;
+    const where: Prisma.OrderWhereInput = {
+      status: query.status,
+      inspectionBranchCityId: query.inspectionBranchCityId,
+    };
+
+    const [total, data] = await this.prisma.$transaction([
+      this.prisma.order.count({ where }),
+      this.prisma.order.findMany({
+        where,
+        include: ORDER_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return {
+      data,
+      meta: { total, page, pageSize, totalPages: Math.ceil(total / pageSize) },
+    };
+  }
+
+  /**
+   * Retrieves an order with its payments.
+   *
+   * @param {string} id - The order ID.
+   * @returns {Promise<OrderWithPayments>} The order.
+   * @throws {NotFoundException} If the order does not exist.
+   */
+  async findOne(id: string): Promise<OrderWithPayments> {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
+      include: ORDER_INCLUDE,
+    });
+    if (!order) {
+      throw new NotFoundException(`Order with ID "${id}" not found.`);
+    }
+    return order;
+  }
+
+  /**
+   * Starts a payment for an unpaid order at the payment provider. Earlier
+   * payments that failed or were cancelled do not block a new attempt.
+   *
+   * @param {string} orderId - The order ID.
+   * @returns {Promise<OrderWithPayments>} The order including the new payment.
+   * @throws {NotFoundException} If the order does not exist.
+   * @throws {ConflictException} If the order is not PENDING or already has a pending payment.
+   */
+  async startPayment(orderId: string): Promise<OrderWithPayments> {
+    const order = await this.findOne(orderId);
+    if (order.status !== PaymentStatus.PENDING) {
+      throw new ConflictException(
+        `Order "${orderId}" is already ${order.status}.`,
+      );
+    }
+    if (order.payments.some((p) => p.status === PaymentStatus.PENDING)) {
+      throw new ConflictException(
+        `Order "${orderId}" already has a pending payment.`,
+      );
+    }
+
+    const providerPayment = await this.paymentProvider.createPayment({
+      orderId,
+      amount: order.amount,
+      currency: order.currency,
+    });
+    const payment = await this.prisma.payment.create({
+      data: {
+        orderId,
+        provider: this.paymentProvider.name,
+        reference: providerPayment.reference,
+        paymentUrl: providerPayment.paymentUrl ?? null,
+        amount: order.amount,
+        status: PaymentStatus.PENDING,
+      },
+    });
+    this.logger.log(
+      `Started ${this.paymentProvider.name} payment ${providerPayment.reference} for order ${orderId}`,
+    );
+
+    // Providers may settle immediately (e.g. saved cards)
+    if (providerPayment.status !== PaymentStatus.PENDING) {
+      await this.applyPaymentStatus(payment, providerPayment.status);
+    }
+    return this.findOne(orderId);
+  }
+
+  /**
+   * Fetches the status of a payment from its provider and applies it.
+   *
+   * @param {string} orderId - The order ID.
+   * @param {string} paymentId - The payment ID.
+   * @returns {Promise<OrderWithPayments>} The updated order.
+   * @throws {NotFoundException} If the payment does not belong to the order.
+   * @throws {BadRequestException} If the provider reports a status the payment cannot move to.
+   */
+  async syncPayment(
+    orderId: string,
+    paymentId: string,
+  ): Promise<OrderWithPayments> {
+    const payment = await this.findPayment(orderId, paymentId);
+    this.assertProvider(payment);
+
+    const status = await this.paymentProvider.getPaymentStatus(
+      payment.reference,
+    );
+    if (status !== payment.status) {
+      await this.applyPaymentStatus(payment, status);
+    }
+    return this.findOne(orderId);
+  }
+
+  /**
+   * Refunds a paid payment in full.
+   *
+   * @param {string} orderId - The order ID.
+   * @param {string} paymentId - The payment ID.
+   * @returns {Promise<OrderWithPayments>} The updated order.
+   * @throws {NotFoundException} If the payment does not belong to the order.
+   * @throws {BadRequestException} If the payment is not PAID.
+   */
+  async refundPayment(
+    orderId: string,
+    paymentId: string,
+  ): Promise<OrderWithPayments> {
+    const payment = await this.findPayment(orderId, paymentId);
+    this.assertProvider(payment);
+    if (payment.status !== PaymentStatus.PAID) {
+      throw new BadRequestException(
+        `Only PAID payments can be refunded (payment is ${payment.status}).`,
+      );
+    }
+
+    const status = await this.paymentProvider.refundPayment(
+      payment.reference,
+      payment.amount,
+    );
+    await this.applyPaymentStatus(payment, status);
+    return this.findOne(orderId);
+  }
+
+  // --- Helpers ---
+
+  /**
+   * Moves a payment and its order to a new status. The update is conditional
+   * on the current status, so a concurrent sync cannot apply a step twice.
+   */
+  private async applyPaymentStatus(
+    payment: Payment,
+    status: PaymentStatus,
+  ): Promise<void> {
+    if (!PAYMENT_STATUS_TRANSITIONS[payment.status].includes(status)) {
+      throw new BadRequestException(
+        `Cannot change payment status from ${payment.status} to ${status}.`,
+      );
+    }
+
+    const now = new Date();
+    const timestamps =
+      status === PaymentStatus.PAID
+        ? { paidAt: now }
+        : status === PaymentStatus.REFUNDED
+          ? { refundedAt: now }
+          : {};
+    const settled = !UNSETTLED_PAYMENT_STATUSES.includes(status);
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: payment.status },
+        data: { status, ...timestamps },
+      });
+      if (count !== 1) {
+        throw new ConflictException(
+          'The payment was updated concurrently. Please reload and try again.',
+        );
+      }
+      // A failed or cancelled payment leaves the order PENDING for a retry
+      if (settled) {
+        await tx.order.update({
+          where: { id: payment.orderId },
+          data: { status, ...timestamps },
+        });
+      }
+    });
+    this.logger.log(
+      `Payment ${payment.id} of order ${payment.orderId}: ${payment.status} -> ${status}`,
+    );
+  }
+
+  private async findPayment(
+    orderId: string,
+    paymentId: string,
+  ): Promise<Payment> {
+    const payment = await this.prisma.payment.findFirst({
+      where: { id: paymentId, orderId },
+    });
+    if (!payment) {
+      throw new NotFoundException(
+        `Payment with ID "${paymentId}" not found for order "${orderId}".`,
+      );
+    }
+    return payment;
+  }
+
+  private assertProvider(payment: Payment): void {
+    if (payment.provider !== this.paymentProvider.name) {
+      throw new BadRequestException(
+        `Payment was made with provider "${payment.provider}", which is not the active provider.`,
+      );
+    }
+  }
+
+  private async findBranchCityId(dto: CreateOrderDto): Promise<string> {
+    if (dto.customerInspectionRequestId) {
+      const request = await this.prisma.customerInspectionRequest.findUnique({
+        where: { id: dto.customerInspectionRequestId },
+        select: { inspectionBranchCityId: true },
+      });
+      if (!request) {
+        throw new BadRequestException(
+          `Customer inspection request with ID "${dto.customerInspectionRequestId}" not found.`,
+        );
+      }
+      return request.inspectionBranchCityId;
+    }
+
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id: dto.inspectionId },
+      select: { branchCityId: true },
+    });
+    if (!inspection) {
+      throw new BadRequestException(
+        `Inspection with ID "${dto.inspectionId}" not found.`,
+      );
+    }
+    if (!inspection.branchCityId) {
+      throw new BadRequestException(
+        `Inspection "${dto.inspectionId}" has no branch city to price it.`,
+      );
+    }
+    return inspection.branchCityId;
+  }
+}
@@ -0,0 +1,48 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: fake-payment.provider.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Local PaymentProvider for development and tests. No money
+ * moves: payments start PENDING, are reported PAID as soon as their status
+ * is checked, and refunds always succeed.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { PaymentStatus } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PaymentProvider, ProviderPayment } from './payment-provider.interface';
+
+@Injectable()
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private readonly logger = new Logger(FakePaymentProvider.name);
+
+  createPayment(params: {
+    orderId: string;
+    amount: number;
+    currency: string;
+  }): Promise<ProviderPayment> {
+    const reference = `fake_${randomUUID()}`;
+    this.logger.log(
+      `Created fake payment ${reference} for order ${params.orderId} (${params.amount} ${params.currency})`,
+    );
+    return Promise.resolve({
+      reference,
+      status: PaymentStatus.PENDING,
+      paymentUrl: null,
+    });
+  }
+
+  getPaymentStatus(reference: string): Promise<PaymentStatus> {
+    this.logger.log(`Fake payment ${reference} reported as paid`);
+    return Promise.resolve(PaymentStatus.PAID);
+  }
+
+  refundPayment(reference: string, amount: number): Promise<PaymentStatus> {
+    this.logger.log(`Refunded fake payment ${reference} (${amount})`);
+    return Promise.resolve(PaymentStatus.REFUNDED);
+  }
+}
@@ -0,0 +1,63 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: payment-provider.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Contract implemented by payment providers (payment gateways).
+ * OrdersService only talks to the provider bound to PAYMENT_PROVIDER, so a
+ * gateway can be added without touching the order logic.
+ * --------------------------------------------------------------------------
+ */
+
+import { PaymentStatus } from '@prisma/client';
+
+/**
+ * Injection token of the active PaymentProvider.
+ */
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+/**
+ * A payment created at the provider.
+ */
+export interface ProviderPayment {
+  /** The provider's reference for the payment. Unique per provider. */
+  reference: string;
+  /** Initial status, normally PENDING. */
+  status: PaymentStatus;
+  /** Where the customer completes the payment, if the provider has a hosted page. */
+  paymentUrl?: string | null;
+}
+
+export interface PaymentProvider {
+  /** Stored with each payment, e.g. "fake". */
+  readonly name: string;
+
+  /**
+   * Creates a payment for an order.
+   *
+   * @param params Order ID, amount (whole units) and ISO 4217 currency.
+   */
+  createPayment(params: {
+    orderId: string;
+    amount: number;
+    currency: string;
+  }): Promise<ProviderPayment>;
+
+  /**
+   * Returns the current status of a payment at the provider. Declined or
+   * expired payments are reported as FAILED, abandoned ones as CANCELLED.
+   *
+   * @param reference The provider's payment reference.
+   */
+  getPaymentStatus(reference: string): Promise<PaymentStatus>;
+
+  /**
+   * Refunds a paid payment in full.
+   *
+   * @param reference The provider's payment reference.
+   * @param amount The amount to refund (whole units).
+   * @returns The status after the refund, normally REFUNDED.
+   */
+  refundPayment(reference: string, amount: number): Promise<PaymentStatus>;
+}
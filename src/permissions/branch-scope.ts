@@ -0,0 +1,53 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: branch-scope.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Branch scope of the calling user and helpers applying it to
+ * queries. The scope is resolved by PermissionsGuard and read with
+ * @GetBranchScope().
+ * --------------------------------------------------------------------------
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * IDs of the branch cities a user is limited to, or null if the user sees
+ * every branch.
+ */
+export type BranchScope = string[] | null;
+
+/**
+ * Request carrying the branch scope resolved by PermissionsGuard.
+ */
+export interface BranchScopedRequest {
+  branchScope?: BranchScope;
+}
+
+/**
+ * Restricts an inspection query to the branches of a scope.
+ *
+ * @param {BranchScope} scope - The caller's branch scope.
+ * @returns {Prisma.InspectionWhereInput} A filter to merge into the `where` clause.
+ */
+export function inspectionsInScope(
+  scope: BranchScope,
+): Prisma.InspectionWhereInput {
+  return scope ? { branchCityId: { in: scope } } : {};
+}
+
+/**
+ * Whether a record of a branch city is visible within a scope. Records
+ * without a branch are only visible to unscoped users.
+ *
+ * @param {BranchScope} scope - The caller's branch scope.
+ * @param {string | null} branchCityId - The branch city of the record.
+ * @returns {boolean} True if the record is in scope.
+ */
+export function isBranchInScope(
+  scope: BranchScope,
+  branchCityId: string | null,
+): boolean {
+  return !scope || (!!branchCityId && scope.includes(branchCityId));
+}
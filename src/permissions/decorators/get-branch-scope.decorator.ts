@@ -0,0 +1,38 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: get-branch-scope.decorator.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Custom parameter decorator extracting the branch scope of the
+ * caller, resolved by PermissionsGuard, from the request.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  createParamDecorator,
+  ExecutionContext,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { BranchScope, BranchScopedRequest } from '../branch-scope';
+
+/**
+ * `@GetBranchScope()` parameter decorator.
+ * Returns `request.branchScope`, set by PermissionsGuard. Fails instead of
+ * granting every branch when the route is not protected by the guard.
+ *
+ * @example async findAll(@GetBranchScope() scope: BranchScope) {}
+ */
+export const GetBranchScope = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): BranchScope => {
+    const { branchScope } = ctx
+      .switchToHttp()
+      .getRequest<BranchScopedRequest>();
+    if (branchScope === undefined) {
+      throw new InternalServerErrorException(
+        'Branch scope is not resolved: the route must use PermissionsGuard.',
+      );
+    }
+    return branchScope;
+  },
+);
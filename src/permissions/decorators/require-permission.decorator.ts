@@ -0,0 +1,28 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: require-permission.decorator.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Custom decorator (@RequirePermission) declaring the
+ * permissions a route requires. Read by PermissionsGuard.
+ * --------------------------------------------------------------------------
+ */
+
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '@prisma/client';
+
+/**
+ * Constant key used by Reflector to store and retrieve the permissions metadata.
+ */
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * `@RequirePermission(...permissions)` decorator factory function.
+ * Attaches the permissions the caller's role must all hold to the method or class.
+ *
+ * @param {...Permission[]} permissions - One or more required permissions.
+ * @example @RequirePermission(Permission.INSPECTIONS_READ)
+ */
+export const RequirePermission = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
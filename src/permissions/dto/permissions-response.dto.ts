@@ -0,0 +1,46 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: permissions-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Response DTOs for the permissions of a role and the branch
+ * scope of a user.
+ * --------------------------------------------------------------------------
+ */
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission, Role } from '@prisma/client';
+
+export class RolePermissionsResponseDto {
+  @ApiProperty({ enum: Role, description: 'The role' })
+  role: Role;
+
+  @ApiProperty({
+    enum: Permission,
+    isArray: true,
+    description: 'Permissions held by the role',
+  })
+  permissions: Permission[];
+
+  constructor(role: Role, permissions: Permission[]) {
+    this.role = role;
+    this.permissions = permissions;
+  }
+}
+
+export class BranchScopesResponseDto {
+  @ApiProperty({ description: 'The user ID', format: 'uuid' })
+  userId: string;
+
+  @ApiProperty({
+    type: [String],
+    description:
+      'Branch cities the user is limited to; empty if they see every branch',
+  })
+  branchCityIds: string[];
+
+  constructor(userId: string, branchCityIds: string[]) {
+    this.userId = userId;
+    this.branchCityIds = branchCityIds;
+  }
+}
@@ -0,0 +1,25 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-branch-scopes.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for limiting an ADMIN or REVIEWER
+ * to branch cities.
+ * --------------------------------------------------------------------------
+ */
+import { IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateBranchScopesDto {
+  @ApiProperty({
+    description:
+      'The complete set of branch cities the user is limited to (an empty list gives access to every branch)',
+    type: [String],
+    format: 'uuid',
+    example: ['3f1c2b7e-5a8d-4e0f-9b6a-1d2c3e4f5a6b'],
+  })
+  @IsArray()
+  @IsUUID('all', { each: true })
+  branchCityIds: string[];
+}
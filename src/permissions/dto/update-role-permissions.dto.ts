@@ -0,0 +1,26 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: update-role-permissions.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for replacing the permissions of a
+ * role.
+ * --------------------------------------------------------------------------
+ */
+import { IsArray, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission } from '@prisma/client';
+
+export class UpdateRolePermissionsDto {
+  @ApiProperty({
+    description:
+      'The complete set of permissions of the role (an empty list removes all)',
+    enum: Permission,
+    isArray: true,
+    example: [Permission.INSPECTIONS_READ, Permission.DASHBOARD_READ],
+  })
+  @IsArray()
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+}
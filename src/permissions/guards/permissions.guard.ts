@@ -0,0 +1,97 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: permissions.guard.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Authorization guard for permission-based access control. It
+ * checks that the role of the authenticated user holds every permission
+ * required by @RequirePermission, and resolves the user's branch scope for
+ * @GetBranchScope(). Like RolesGuard, it must be applied after an
+ * authentication guard and enforces MFA_REQUIRED_ROLES.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Permission, Role, User } from '@prisma/client';
+import { mfaRequiredRoles } from '../../auth/guards/roles.guard';
+import { PermissionsService } from '../permissions.service';
+import { PERMISSIONS_KEY } from '../decorators/require-permission.decorator';
+import { BranchScopedRequest } from '../branch-scope';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  private readonly logger = new Logger(PermissionsGuard.name);
+  private readonly mfaRequiredRoles: Role[];
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissions: PermissionsService,
+    configService: ConfigService,
+  ) {
+    this.mfaRequiredRoles = mfaRequiredRoles(configService);
+  }
+
+  /**
+   * Checks the permissions of the caller's role and attaches their branch
+   * scope to `request.branchScope`.
+   *
+   * @param {ExecutionContext} context - Provides access to the request and handler/class metadata.
+   * @returns {Promise<boolean>} True if the request may proceed.
+   * @throws {ForbiddenException} If the user is missing, their role lacks a required permission, or their role requires two-factor authentication they have not enabled.
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<
+      BranchScopedRequest & {
+        user?: Pick<User, 'id' | 'role' | 'totpEnabledAt'>;
+      }
+    >();
+    const { user } = request;
+    if (!user || !user.role) {
+      this.logger.warn(
+        'PermissionsGuard: User or user.role not found on request. Denying access.',
+      );
+      throw new ForbiddenException(
+        'User role information is missing or authentication failed.',
+      );
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    const granted = await this.permissions.getRolePermissions(user.role);
+    const missing = required.filter(
+      (permission) => !granted.includes(permission),
+    );
+    if (missing.length > 0) {
+      this.logger.warn(
+        `Access denied for user ${user.id} (Role: ${user.role}). Missing: ${missing.join(', ')}`,
+      );
+      throw new ForbiddenException(
+        'You do not have permission to access this resource.',
+      );
+    }
+
+    if (this.mfaRequiredRoles.includes(user.role) && !user.totpEnabledAt) {
+      this.logger.warn(
+        `Access denied for user ${user.id} (Role: ${user.role}): two-factor authentication not enabled.`,
+      );
+      throw new ForbiddenException(
+        'Two-factor authentication must be enabled for your role. Set it up through /auth/mfa/setup.',
+      );
+    }
+
+    request.branchScope = await this.permissions.getBranchScope(user);
+    return true;
+  }
+}
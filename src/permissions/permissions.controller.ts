@@ -0,0 +1,170 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: permissions.controller.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: SUPERADMIN endpoints for the permission model: listing and
+ * replacing the permissions of each role, and limiting ADMIN and REVIEWER
+ * users to branch cities.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuditAction, AuditTargetType, Role } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Audit } from '../audit-logs/audit.decorator';
+import { PermissionsService } from './permissions.service';
+import { UpdateRolePermissionsDto } from './dto/update-role-permissions.dto';
+import { UpdateBranchScopesDto } from './dto/update-branch-scopes.dto';
+import {
+  BranchScopesResponseDto,
+  RolePermissionsResponseDto,
+} from './dto/permissions-response.dto';
+
+@ApiTags('Permissions (Superadmin)')
+@ApiBearerAuth('JwtAuthGuard')
+@Controller('admin/permissions')
+// Guarded by role, not permission, so SUPERADMIN cannot lock itself out
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.SUPERADMIN)
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  /**
+   * Lists the permissions of every role.
+   *
+   * @returns {Promise<RolePermissionsResponseDto[]>} One entry per role.
+   */
+  @Get('roles')
+  @ApiOperation({ summary: 'List the permissions of each role' })
+  @ApiResponse({
+    status: 200,
+    description: 'Permissions per role.',
+    type: [RolePermissionsResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  async findAllRolePermissions(): Promise<RolePermissionsResponseDto[]> {
+    const roles = await this.permissionsService.findAllRolePermissions();
+    return roles.map(
+      ({ role, permissions }) =>
+        new RolePermissionsResponseDto(role, permissions),
+    );
+  }
+
+  /**
+   * Replaces the permissions of a role. Takes effect on the next request of
+   * its users.
+   *
+   * @param role - The role to change (not SUPERADMIN).
+   * @param dto - The complete new set of permissions.
+   * @returns {Promise<RolePermissionsResponseDto>} The permissions of the role.
+   */
+  @Put('roles/:role')
+  @Audit(AuditAction.ROLE_PERMISSIONS_UPDATED, AuditTargetType.ROLE, 'role')
+  @ApiOperation({ summary: 'Replace the permissions of a role' })
+  @ApiParam({ name: 'role', enum: Role })
+  @ApiBody({ type: UpdateRolePermissionsDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Permissions updated.',
+    type: RolePermissionsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid permission, or the role is SUPERADMIN.',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  async setRolePermissions(
+    @Param('role', new ParseEnumPipe(Role)) role: Role,
+    @Body() dto: UpdateRolePermissionsDto,
+  ): Promise<RolePermissionsResponseDto> {
+    const permissions = await this.permissionsService.setRolePermissions(
+      role,
+      dto.permissions,
+    );
+    return new RolePermissionsResponseDto(role, permissions);
+  }
+
+  /**
+   * Lists the branch cities a user is limited to.
+   *
+   * @param id - The user ID.
+   * @returns {Promise<BranchScopesResponseDto>} The user's branch scope.
+   */
+  @Get('users/:id/branches')
+  @ApiOperation({ summary: 'Get the branch scope of a user' })
+  @ApiParam({ name: 'id', description: 'User ID', format: 'uuid' })
+  @ApiResponse({
+    status: 200,
+    description: 'Branch scope of the user.',
+    type: BranchScopesResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  async getUserBranchScopes(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<BranchScopesResponseDto> {
+    return new BranchScopesResponseDto(
+      id,
+      await this.permissionsService.getUserBranchScopes(id),
+    );
+  }
+
+  /**
+   * Limits an ADMIN or REVIEWER to branch cities, or lifts the limit with an
+   * empty list.
+   *
+   * @param id - The user ID.
+   * @param dto - The complete new set of branch cities.
+   * @returns {Promise<BranchScopesResponseDto>} The user's branch scope.
+   */
+  @Put('users/:id/branches')
+  @Audit(AuditAction.USER_BRANCH_SCOPES_UPDATED, AuditTargetType.USER)
+  @ApiOperation({ summary: 'Limit an admin or reviewer to branch cities' })
+  @ApiParam({ name: 'id', description: 'User ID', format: 'uuid' })
+  @ApiBody({ type: UpdateBranchScopesDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Branch scope updated.',
+    type: BranchScopesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'The user is not an admin or reviewer, or a branch city does not exist.',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'User not found.' })
+  async setUserBranchScopes(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateBranchScopesDto,
+  ): Promise<BranchScopesResponseDto> {
+    return new BranchScopesResponseDto(
+      id,
+      await this.permissionsService.setUserBranchScopes(id, dto.branchCityIds),
+    );
+  }
+}
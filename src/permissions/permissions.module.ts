@@ -0,0 +1,23 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: permissions.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for the permission model (role permissions and
+ * branch scopes). Exports PermissionsGuard for the modules whose routes use
+ * @RequirePermission.
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { PermissionsService } from './permissions.service';
+import { PermissionsController } from './permissions.controller';
+import { PermissionsGuard } from './guards/permissions.guard';
+
+@Module({
+  controllers: [PermissionsController],
+  providers: [PermissionsService, PermissionsGuard],
+  exports: [PermissionsService, PermissionsGuard],
+})
+export class PermissionsModule {}
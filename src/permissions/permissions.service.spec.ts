@@ -0,0 +1,140 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: permissions.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for PermissionsService: the implicit permissions of
+ * SUPERADMIN, branch scopes limited to existing branches of ADMIN and
+ * REVIEWER users, and which users a branch-scoped admin can manage.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Permission, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from './permissions.service';
+
+describe('PermissionsService', () => {
+  let service: PermissionsService;
+  const prisma = {
+    rolePermission: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    userBranchScope: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    user: { findUnique: jest.fn() },
+    inspectionBranchCity: { count: jest.fn() },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PermissionsService>(PermissionsService);
+  });
+
+  it('grants SUPERADMIN every permission and refuses to change them', async () => {
+    await expect(service.getRolePermissions(Role.SUPERADMIN)).resolves.toEqual(
+      Object.values(Permission),
+    );
+    await expect(
+      service.setRolePermissions(Role.SUPERADMIN, []),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.rolePermission.findMany).not.toHaveBeenCalled();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('leaves users without branch rows unrestricted', async () => {
+    prisma.userBranchScope.findMany.mockResolvedValue([]);
+    await expect(
+      service.getBranchScope({ id: 'admin-1', role: Role.ADMIN }),
+    ).resolves.toBeNull();
+
+    prisma.userBranchScope.findMany.mockResolvedValue([
+      { branchCityId: 'branch-1' },
+    ]);
+    await expect(
+      service.getBranchScope({ id: 'admin-1', role: Role.ADMIN }),
+    ).resolves.toEqual(['branch-1']);
+    await expect(
+      service.getBranchScope({ id: 'inspector-1', role: Role.INSPECTOR }),
+    ).resolves.toBeNull();
+  });
+
+  it('limits only ADMIN and REVIEWER users to existing branches', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'inspector-1',
+      role: Role.INSPECTOR,
+    });
+    await expect(
+      service.setUserBranchScopes('inspector-1', ['branch-1']),
+    ).rejects.toThrow(BadRequestException);
+
+    prisma.user.findUnique.mockResolvedValue({
+      id: 'reviewer-1',
+      role: Role.REVIEWER,
+    });
+    prisma.inspectionBranchCity.count.mockResolvedValue(1);
+    await expect(
+      service.setUserBranchScopes('reviewer-1', ['branch-1', 'unknown']),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+
+    await expect(
+      service.setUserBranchScopes('reviewer-1', ['branch-1', 'branch-1']),
+    ).resolves.toEqual(['branch-1']);
+    expect(prisma.userBranchScope.createMany).toHaveBeenCalledWith({
+      data: [{ userId: 'reviewer-1', branchCityId: 'branch-1' }],
+    });
+  });
+
+  it('lets branch-scoped callers manage only users entirely within their branches', async () => {
+    const scope = ['branch-1'];
+    const userWith = (
+      role: Role,
+      inspectionBranchCityId: string | null,
+      branchCityIds: string[] = [],
+    ) =>
+      prisma.user.findUnique.mockResolvedValueOnce({
+        role,
+        inspectionBranchCityId,
+        branchScopes: branchCityIds.map((branchCityId) => ({ branchCityId })),
+      });
+
+    userWith(Role.INSPECTOR, 'branch-1');
+    await expect(
+      service.assertUserInBranchScope('user-1', scope),
+    ).resolves.toBeUndefined();
+    userWith(Role.INSPECTOR, 'branch-2');
+    await expect(
+      service.assertUserInBranchScope('user-1', scope),
+    ).rejects.toThrow(NotFoundException);
+    userWith(Role.REVIEWER, null, ['branch-1', 'branch-2']);
+    await expect(
+      service.assertUserInBranchScope('user-1', scope),
+    ).rejects.toThrow(NotFoundException);
+    // Unscoped admins and customers belong to no branch
+    userWith(Role.ADMIN, null);
+    await expect(
+      service.assertUserInBranchScope('user-1', scope),
+    ).rejects.toThrow(NotFoundException);
+
+    await expect(
+      service.assertUserInBranchScope('user-1', null),
+    ).resolves.toBeUndefined();
+    expect(prisma.user.findUnique).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,217 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: permissions.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Service managing the permission model: which named
+ * permissions each role holds (editable by SUPERADMIN; SUPERADMIN itself
+ * always holds all of them) and which branch cities ADMIN and REVIEWER users
+ * are limited to. Used by PermissionsGuard on every permission-restricted
+ * request, and to keep branch-scoped admins to the users of their branches.
+ * --------------------------------------------------------------------------
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Permission, Role, User } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { BranchScope, isBranchInScope } from './branch-scope';
+
+// Roles that can be limited to branch cities
+const SCOPABLE_ROLES: Role[] = [Role.ADMIN, Role.REVIEWER];
+
+@Injectable()
+export class PermissionsService {
+  private readonly logger = new Logger(PermissionsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Lists the permissions of a role.
+   *
+   * @param {Role} role - The role.
+   * @returns {Promise<Permission[]>} The permissions the role holds; all of them for SUPERADMIN.
+   */
+  async getRolePermissions(role: Role): Promise<Permission[]> {
+    if (role === Role.SUPERADMIN) {
+      return Object.values(Permission);
+    }
+    const rows = await this.prisma.rolePermission.findMany({
+      where: { role },
+      select: { permission: true },
+    });
+    return rows.map((row) => row.permission);
+  }
+
+  /**
+   * Lists the permissions of every role.
+   *
+   * @returns {Promise<{ role: Role; permissions: Permission[] }[]>} One entry per role, in enum order.
+   */
+  async findAllRolePermissions(): Promise<
+    { role: Role; permissions: Permission[] }[]
+  > {
+    const rows = await this.prisma.rolePermission.findMany({
+      orderBy: { permission: 'asc' },
+    });
+    return Object.values(Role).map((role) => ({
+      role,
+      permissions:
+        role === Role.SUPERADMIN
+          ? Object.values(Permission)
+          : rows
+              .filter((row) => row.role === role)
+              .map((row) => row.permission),
+    }));
+  }
+
+  /**
+   * Replaces the permissions of a role.
+   *
+   * @param {Role} role - The role to change.
+   * @param {Permission[]} permissions - The complete new set of permissions.
+   * @returns {Promise<Permission[]>} The permissions the role now holds.
+   * @throws {BadRequestException} If the role is SUPERADMIN, whose permissions cannot be changed.
+   */
+  async setRolePermissions(
+    role: Role,
+    permissions: Permission[],
+  ): Promise<Permission[]> {
+    if (role === Role.SUPERADMIN) {
+      throw new BadRequestException(
+        'SUPERADMIN always holds every permission.',
+      );
+    }
+    const unique = [...new Set(permissions)];
+    await this.prisma.$transaction([
+      this.prisma.rolePermission.deleteMany({ where: { role } }),
+      this.prisma.rolePermission.createMany({
+        data: unique.map((permission) => ({ role, permission })),
+      }),
+    ]);
+    this.logger.log(`Permissions of ${role} set to [${unique.join(', ')}]`);
+    return unique;
+  }
+
+  /**
+   * Resolves the branch scope of a user.
+   *
+   * @param {Pick<User, 'id' | 'role'>} user - The authenticated user.
+   * @returns {Promise<BranchScope>} The branch city IDs the user is limited to, or null if unrestricted.
+   */
+  async getBranchScope(user: Pick<User, 'id' | 'role'>): Promise<BranchScope> {
+    if (!SCOPABLE_ROLES.includes(user.role)) {
+      return null;
+    }
+    const branchCityIds = await this.getUserBranchScopes(user.id);
+    return branchCityIds.length > 0 ? branchCityIds : null;
+  }
+
+  /**
+   * Checks that a user can be managed within a branch scope: every branch of
+   * the user (the branch city of an inspector, the branch scope of an ADMIN
+   * or REVIEWER) must be in scope. SUPERADMINs and users without any branch
+   * can only be managed by unrestricted callers.
+   *
+   * @param {string} userId - The user to manage.
+   * @param {BranchScope} scope - The caller's branch scope.
+   * @returns {Promise<void>}
+   * @throws {NotFoundException} If the user is outside the scope; a missing user is reported by the operation itself.
+   */
+  async assertUserInBranchScope(
+    userId: string,
+    scope: BranchScope,
+  ): Promise<void> {
+    if (!scope) return;
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        role: true,
+        inspectionBranchCityId: true,
+        branchScopes: { select: { branchCityId: true } },
+      },
+    });
+    if (!user) return;
+
+    const branchCityIds = [
+      ...(user.inspectionBranchCityId ? [user.inspectionBranchCityId] : []),
+      ...user.branchScopes.map((row) => row.branchCityId),
+    ];
+    if (
+      user.role === Role.SUPERADMIN ||
+      branchCityIds.length === 0 ||
+      !branchCityIds.every((id) => isBranchInScope(scope, id))
+    ) {
+      throw new NotFoundException(`User with ID "${userId}" not found.`);
+    }
+  }
+
+  /**
+   * Lists the branch cities a user is limited to.
+   *
+   * @param {string} userId - The user ID.
+   * @returns {Promise<string[]>} The branch city IDs; empty if the user sees every branch.
+   */
+  async getUserBranchScopes(userId: string): Promise<string[]> {
+    const rows = await this.prisma.userBranchScope.findMany({
+      where: { userId },
+      select: { branchCityId: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map((row) => row.branchCityId);
+  }
+
+  /**
+   * Limits an ADMIN or REVIEWER to branch cities. An empty list removes the
+   * limit.
+   *
+   * @param {string} userId - The user ID.
+   * @param {string[]} branchCityIds - The complete new set of branch cities.
+   * @returns {Promise<string[]>} The branch city IDs the user is now limited to.
+   * @throws {NotFoundException} If the user does not exist.
+   * @throws {BadRequestException} If the user is not an ADMIN or REVIEWER, or a branch city does not exist.
+   */
+  async setUserBranchScopes(
+    userId: string,
+    branchCityIds: string[],
+  ): Promise<string[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID "${userId}" not found.`);
+    }
+    if (!SCOPABLE_ROLES.includes(user.role)) {
+      throw new BadRequestException(
+        `Only ${SCOPABLE_ROLES.join(' and ')} users can be limited to branches.`,
+      );
+    }
+
+    const unique = [...new Set(branchCityIds)];
+    const found = await this.prisma.inspectionBranchCity.count({
+      where: { id: { in: unique } },
+    });
+    if (found !== unique.length) {
+      throw new BadRequestException(
+        'One or more inspection branch cities were not found.',
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.userBranchScope.deleteMany({ where: { userId } }),
+      this.prisma.userBranchScope.createMany({
+        data: unique.map((branchCityId) => ({ userId, branchCityId })),
+      }),
+    ]);
+    this.logger.log(
+      `Branch scope of user ${userId} set to [${unique.join(', ') || 'all branches'}]`,
+    );
+    return unique;
+  }
+}
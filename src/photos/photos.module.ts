@@ -5,7 +5,7 @@
  * Copyright © 2025 PT. Inspeksi Mobil Jogja
  * --------------------------------------------------------------------------
  * Description: NestJS module responsible for managing photo-related operations.
- * Imports the PhotosService.
+ * Imports the PhotosService and the StorageModule (where photo files are stored).
  * Declares no controllers as photo operations are likely handled by other modules (e.g., InspectionsModule).
  * Provides and exports the PhotosService for use in other modules.
  * --------------------------------------------------------------------------
@@ -13,8 +13,10 @@
 
 import { Module } from '@nestjs/common';
 import { PhotosService } from './photos.service';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
+  imports: [StorageModule],
   controllers: [],
   providers: [PhotosService],
   exports: [PhotosService],
@@ -1,12 +1,18 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PhotosService } from './photos.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
 
 describe('PhotosService', () => {
   let service: PhotosService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [PhotosService],
+      providers: [
+        PhotosService,
+        { provide: PrismaService, useValue: {} },
+        { provide: StorageService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<PhotosService>(PhotosService);
@@ -25,19 +25,19 @@ import { PrismaService } from '../prisma/prisma.service';
 import { Photo, Prisma } from '@prisma/client';
 import { AddPhotoDto } from './dto/add-photo.dto';
 import { UpdatePhotoDto } from './dto/update-photo.dto';
-// Import file system operations if deleting local files
-import * as fs from 'fs/promises';
-import * as path from 'path';
 import { validate } from 'class-validator';
 import { plainToInstance } from 'class-transformer';
 import { PhotoMetadataDto } from './dto/photo-metadata.dto';
-const UPLOAD_PATH = './uploads/inspection-photos'; // Define consistently
+import { StorageService } from '../storage/storage.service';
 
 @Injectable()
 export class PhotosService {
   private readonly logger = new Logger(PhotosService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private readonly storage: StorageService,
+  ) {}
 
   /**
    * Ensures that an inspection with the given ID exists in the database.
@@ -87,10 +87,11 @@ export class PhotosService {
     const isMandatory = dto.isMandatory === 'true';
 
     try {
+      const photoPath = await this.storage.storeUploadedPhoto(file);
       return await this.prisma.photo.create({
         data: {
           inspection: { connect: { id: inspectionId } },
-          path: file.filename,
+          path: photoPath,
           // eslint-disable-next-line prettier/prettier
           label:
             dto.label === '' || dto.label === undefined ? undefined : dto.label,
@@ -215,7 +216,8 @@ export class PhotosService {
         this.logger.verbose(
           `New file provided: ${newPhotoFile.filename}. Replacing old file: ${existingPhoto.path}`,
         );
-        dataToUpdate.path = newPhotoFile.filename; // Set the new path in the update data
+        // Store the new file and set its path in the update data
+        dataToUpdate.path = await this.storage.storeUploadedPhoto(newPhotoFile);
         oldFilePath = existingPhoto.path; // Mark the old file path for deletion AFTER DB update
       }
 
@@ -243,10 +245,10 @@ export class PhotosService {
 
       // 7. Delete Old File (AFTER successful DB update)
       if (oldFilePath) {
-        const fullOldPath = path.join(UPLOAD_PATH, oldFilePath);
+        const fullOldPath = this.storage.photoKey(oldFilePath);
         this.logger.log(`Attempting to delete old file: ${fullOldPath}`);
         try {
-          await fs.unlink(fullOldPath);
+          await this.storage.delete(fullOldPath);
           this.logger.log(`Successfully deleted old file: ${fullOldPath}`);
         } catch (fileError: unknown) {
           // Log the error, but don't fail the overall operation since DB is updated
@@ -290,20 +292,28 @@ export class PhotosService {
   /**
    * Deletes a specific photo record and its corresponding file (if stored locally).
    *
+   * @param inspectionId The ID of the inspection the photo must belong to.
    * @param photoId The unique identifier (UUID) of the photo to delete.
    * @param userId Optional ID of the user performing the action (for authorization checks later).
    * @returns A promise that resolves when the photo and its file are successfully deleted.
-   * @throws NotFoundException if the photo with the specified ID is not found.
+   * @throws NotFoundException if the photo with the specified ID is not found for the inspection.
    * @throws InternalServerErrorException if the database deletion or file deletion fails.
    */
-  async deletePhoto(photoId: string, userId?: string): Promise<void> {
+  async deletePhoto(
+    inspectionId: string,
+    photoId: string,
+    userId?: string,
+  ): Promise<void> {
     this.logger.log(
-      `User ${userId || 'N/A'} attempting to delete photo ID: ${photoId}`,
+      `User ${userId || 'N/A'} attempting to delete photo ID: ${photoId} of inspection ${inspectionId}`,
     );
     try {
       // Find the photo first to get its path for deletion
       const photo = await this.prisma.photo.findUniqueOrThrow({
-        where: { id: photoId },
+        where: {
+          id: photoId,
+          inspectionId: inspectionId, // Verify it belongs to the specified inspection
+        },
         select: { path: true }, // Only need the path
       });
 
@@ -312,12 +322,11 @@ export class PhotosService {
         where: { id: photoId },
       });
 
-      // --- Delete file from local storage ---
-      // IMPORTANT: Only do this if using local diskStorage. Skip if using S3 etc.
+      // --- Delete file from storage ---
       // Consider error handling here (what if DB delete works but file delete fails?)
-      const filePath = path.join(UPLOAD_PATH, photo.path); // Assuming UPLOAD_PATH is defined globally/imported
+      const filePath = this.storage.photoKey(photo.path);
       try {
-        await fs.unlink(filePath);
+        await this.storage.delete(filePath);
         this.logger.log(`Successfully deleted photo file: ${filePath}`);
       } catch (fileError: unknown) {
         // Log the error but maybe don't fail the whole operation if DB record deleted?
@@ -424,13 +433,18 @@ export class PhotosService {
 
     await this.ensureInspectionExists(inspectionId); // Ensure inspection exists
 
+    // Move the uploaded files to storage
+    const photoPaths = await Promise.all(
+      files.map((file) => this.storage.storeUploadedPhoto(file)),
+    );
+
     // Prepare data for batch creation
-    const photosToCreate: Prisma.PhotoCreateManyInput[] = files.map(
-      (file, index) => {
+    const photosToCreate: Prisma.PhotoCreateManyInput[] = photoPaths.map(
+      (photoPath, index) => {
         const meta = parsedMetadata[index];
         return {
           inspectionId: inspectionId, // Link each photo to the inspection
-          path: file.filename,
+          path: photoPath,
           label:
             meta.label === '' || meta.label === undefined
               ? undefined
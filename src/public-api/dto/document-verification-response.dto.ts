@@ -0,0 +1,79 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: document-verification-response.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Verdict of a public document verification: the inspection
+ * whose report matches the document, its NFT and whether the PDF hash
+ * anchored on chain agrees with the inspection record.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiProperty } from '@nestjs/swagger';
+import { InspectionStatus, PdfVariant } from '@prisma/client';
+
+export class DocumentVerificationResponseDto {
+  /**
+   * True when the inspection is ARCHIVED and the on-chain hash agrees.
+   */
+  @ApiProperty({
+    description:
+      'True when the matched inspection is ARCHIVED and the PDF hash on chain agrees with its record.',
+    example: true,
+  })
+  verified: boolean;
+
+  @ApiProperty({
+    description: 'SHA-256 hash of the submitted document.',
+    example: 'a3f5c1e0b4d2978f6e1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f70',
+  })
+  documentHash: string;
+
+  @ApiProperty({
+    description: 'Which report of the inspection the document is.',
+    enum: PdfVariant,
+  })
+  variant: PdfVariant;
+
+  @ApiProperty({ example: 'YOG-13082025-001' })
+  prettyId: string;
+
+  @ApiProperty({
+    description: 'DEACTIVATED inspections are no longer valid.',
+    enum: InspectionStatus,
+  })
+  status: InspectionStatus;
+
+  @ApiProperty({ nullable: true, example: 'f0a1b2...4341522d64616e6f2d6162' })
+  nftAssetId: string | null;
+
+  @ApiProperty({ nullable: true, example: 'e3b0c4...b855' })
+  blockchainTxHash: string | null;
+
+  @ApiProperty({
+    description: 'Time of the block that minted the NFT.',
+    nullable: true,
+    example: '2025-08-13T09:21:44.000Z',
+  })
+  mintedAt: Date | null;
+
+  @ApiProperty({
+    description:
+      'PDF hash in the NFT metadata (the hash of the report without documents).',
+    nullable: true,
+    example: 'a3f5c1e0b4d2978f6e1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f70',
+  })
+  onChainPdfHash: string | null;
+
+  @ApiProperty({
+    description:
+      "Whether the on-chain PDF hash equals the inspection's recorded hash of the report without documents.",
+    example: true,
+  })
+  onChainHashMatches: boolean;
+
+  constructor(partial: DocumentVerificationResponseDto) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,28 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: verify-document.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Multipart body for verifying an inspection report by the
+ * SHA-256 hash of the PDF, when the PDF itself (`file`) is not uploaded.
+ * --------------------------------------------------------------------------
+ */
+
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, Matches } from 'class-validator';
+
+export class VerifyDocumentDto {
+  // The 'file' field (PDF) is handled by the FileInterceptor, not defined here.
+
+  @ApiPropertyOptional({
+    description:
+      'Hex SHA-256 hash of the PDF, used when no file is uploaded (e.g. `sha256sum report.pdf`).',
+    example: 'a3f5c1e0b4d2978f6e1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f70',
+  })
+  @IsOptional()
+  @Matches(/^[0-9a-fA-F]{64}$/, {
+    message: 'hash must be a hex SHA-256 digest (64 characters).',
+  })
+  hash?: string;
+}
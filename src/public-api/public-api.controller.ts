@@ -7,7 +7,10 @@
  * Description: NestJS controller for publicly accessible API endpoints.
  * This controller handles requests related to public user data and inspection summaries.
  * It provides endpoints for listing inspectors, retrieving the latest archived inspections,
- * fetching a specific inspection by ID, and accessing inspection change logs.
+ * fetching a specific inspection by ID, accessing inspection change logs, and
+ * verifying a report PDF against its NFT.
+ * Data routes are metered per API key (X-API-Key header) by ApiKeyGuard.
+ * Partner routes require an OAuth2 client credentials token with the matching scope.
  * Utilizes various services (UsersService, InspectionsService, PublicApiService)
  * and integrates with Swagger for API documentation.
  * --------------------------------------------------------------------------
@@ -15,6 +18,8 @@
 
 // NestJS core modules
 import {
+  BadRequestException,
+  Body,
   Controller,
   Get,
   HttpCode,
@@ -22,10 +27,27 @@ import {
   Logger,
   InternalServerErrorException,
   Param,
+  ParseUUIDPipe,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 
 // Swagger documentation modules
-import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
 
 // Services
 import { UsersService } from '../users/users.service';
@@ -38,10 +60,25 @@ import { UserResponseDto } from '../users/dto/user-response.dto';
 import { LatestArchivedInspectionResponseDto } from 'src/inspections/dto/latest-archived-inspection-response.dto';
 import { InspectionResponseDto } from 'src/inspections/dto/inspection-response.dto';
 import { InspectionChangeLogResponseDto } from 'src/inspection-change-log/dto/inspection-change-log-response.dto';
+import { VerifyDocumentDto } from './dto/verify-document.dto';
+import { DocumentVerificationResponseDto } from './dto/document-verification-response.dto';
 
 // Prisma types
-import { InspectionChangeLog } from '@prisma/client';
-import { SkipThrottle } from '@nestjs/throttler';
+import { ApiKeyScope, InspectionChangeLog } from '@prisma/client';
+import { SkipThrottle, Throttle, ThrottlerGuard } from '@nestjs/throttler';
+
+// API keys
+import { ApiKeyGuard } from '../api-keys/guards/api-key.guard';
+import { ApiKeyScopes } from '../api-keys/decorators/api-key-scopes.decorator';
+
+// Partner access (OAuth2 client credentials)
+import { ClientCredentialsGuard } from '../external-auth/guards/client-credentials.guard';
+import { ClientScopes } from '../external-auth/decorators/client-scopes.decorator';
+import { GetClient } from '../external-auth/decorators/get-client.decorator';
+import { AuthenticatedClient } from '../external-auth/interfaces/client-token-payload.interface';
+
+// Largest report PDF accepted for verification
+const MAX_VERIFY_PDF_BYTES = 20 * 1024 * 1024;
 
 /**
  * @class PublicApiController
@@ -92,8 +129,9 @@ export class PublicApiController {
   })
   async dbHealthCheck(): Promise<{ status: 'ok' }> {
     try {
-      await this.prisma.executeWithReconnect('publicDbHealthCheck', () =>
-        this.prisma.$queryRaw`SELECT 1`,
+      await this.prisma.executeWithReconnect(
+        'publicDbHealthCheck',
+        () => this.prisma.$queryRaw`SELECT 1`,
       );
       return { status: 'ok' };
     } catch (error) {
@@ -111,6 +149,9 @@ export class PublicApiController {
    * @returns {Promise<UserResponseDto[]>} A promise that resolves to an array of UserResponseDto objects representing inspector users.
    */
   @Get('users/inspectors') // Defines the GET endpoint for retrieving all inspectors
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes(ApiKeyScope.INSPECTORS_READ)
+  @ApiSecurity('ApiKey')
   @ApiOperation({
     summary: 'Retrieve all inspector users (Public)',
     description:
@@ -152,6 +193,9 @@ export class PublicApiController {
    * @throws {InternalServerErrorException} If there is a data inconsistency or an internal server error during mapping.
    */
   @Get('latest-archived') // Defines the GET endpoint for retrieving latest archived inspections
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes(ApiKeyScope.INSPECTIONS_READ)
+  @ApiSecurity('ApiKey')
   @HttpCode(HttpStatus.OK) // Sets the HTTP status code for successful responses to 200 OK
   @ApiOperation({
     summary: 'Retrieve 5 latest ARCHIVED inspections with specific details',
@@ -211,6 +255,9 @@ export class PublicApiController {
    * @throws {NotFoundException} If the inspection with the given ID is not found.
    */
   @Get('inspections/:id') // Defines the GET endpoint for retrieving a single inspection by ID
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes(ApiKeyScope.INSPECTIONS_READ)
+  @ApiSecurity('ApiKey')
   @ApiOperation({
     summary: 'Retrieve a specific inspection by ID',
     description:
@@ -254,6 +301,9 @@ export class PublicApiController {
    * @returns {Promise<InspectionResponseDto>} A promise that resolves to the inspection record summary without sensitive documents.
    */
   @Get('inspections/:id/no-docs')
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes(ApiKeyScope.INSPECTIONS_READ)
+  @ApiSecurity('ApiKey')
   @ApiOperation({
     summary: 'Retrieve an inspection by ID without sensitive documents',
     description:
@@ -292,6 +342,9 @@ export class PublicApiController {
    * @throws {NotFoundException} If the inspection is not found.
    */
   @Get('inspections/:id/changelog') // Defines the GET endpoint for retrieving inspection change logs
+  @UseGuards(ApiKeyGuard)
+  @ApiKeyScopes(ApiKeyScope.CHANGELOG_READ)
+  @ApiSecurity('ApiKey')
   @ApiOperation({
     summary: 'Get inspection change log',
     description: 'Retrieves the change log entries for a specific inspection.',
@@ -324,4 +377,167 @@ export class PublicApiController {
     // Retrieve the change logs for the specified inspection ID using PublicApiService
     return this.publicApiService.findChangesByInspectionId(inspectionId);
   }
+
+  /**
+   * Verifies an inspection report PDF received from a seller against its NFT.
+   * Accepts the PDF itself or its SHA-256 hash; anyone can call it.
+   *
+   * @param {VerifyDocumentDto} verifyDto The optional hash of the PDF.
+   * @param {Express.Multer.File} [file] The uploaded PDF.
+   * @returns {Promise<DocumentVerificationResponseDto>} The verification verdict.
+   * @throws {BadRequestException} If neither a PDF nor a hash is given, or the file is not a PDF.
+   * @throws {NotFoundException} If no archived inspection report matches the document.
+   */
+  @Post('verify-document')
+  @SkipThrottle({ default: false })
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_VERIFY_PDF_BYTES } }),
+  )
+  @ApiOperation({
+    summary: 'Verify an inspection report PDF against its NFT',
+    description:
+      'Finds the archived inspection whose full or no-documents report has the SHA-256 hash of the uploaded PDF (or of the given hash), then reads its NFT on chain. The document is verified when the inspection is ARCHIVED and the PDF hash in the NFT metadata agrees with the inspection record.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'The inspection report PDF (max 20 MB).',
+        },
+        hash: {
+          type: 'string',
+          description:
+            'Hex SHA-256 hash of the PDF, used when no file is uploaded.',
+        },
+      },
+    },
+    description: 'The report PDF or its hash.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The verification verdict.',
+    type: DocumentVerificationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Neither a PDF nor a valid hash was given.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'No archived inspection report matches the document.',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many verification requests.',
+  })
+  async verifyDocument(
+    @Body() verifyDto: VerifyDocumentDto,
+    @UploadedFile() file?: Express.Multer.File,
+  ): Promise<DocumentVerificationResponseDto> {
+    if (file && !file.buffer.subarray(0, 5).equals(Buffer.from('%PDF-'))) {
+      throw new BadRequestException('The uploaded file is not a PDF.');
+    }
+    return this.publicApiService.verifyDocument({
+      file: file?.buffer,
+      hash: verifyDto.hash,
+    });
+  }
+
+  /**
+   * Retrieves an archived inspection for a partner system, without sensitive documents.
+   *
+   * @param {AuthenticatedClient} client The OAuth client of the partner.
+   * @param {string} id The UUID of the inspection to retrieve.
+   * @returns {Promise<InspectionResponseDto>} The inspection without sensitive documents.
+   * @throws {NotFoundException} If the inspection is not found, not archived or outside the client's branches.
+   */
+  @Get('partner/inspections/:id')
+  @UseGuards(ClientCredentialsGuard)
+  @ClientScopes('inspections:read')
+  @ApiBearerAuth('ClientCredentials')
+  @ApiTags('Partner API')
+  @ApiOperation({
+    summary: 'Retrieve an archived inspection (partner, inspections:read)',
+    description:
+      'Requires an access token from POST /oauth/token with the inspections:read scope. Only inspections of the branches allowed for the client are found.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid', description: 'Inspection ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The inspection without sensitive documents.',
+    type: InspectionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Missing, invalid, expired or revoked access token.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Access token lacks the inspections:read scope.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Inspection not found.',
+  })
+  async findOneForPartner(
+    @GetClient() client: AuthenticatedClient,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<InspectionResponseDto> {
+    const inspection = await this.publicApiService.findOneForClient(client, id);
+    return new InspectionResponseDto(inspection);
+  }
+
+  /**
+   * Downloads the report without documents of an archived inspection for a partner system.
+   *
+   * @param {AuthenticatedClient} client The OAuth client of the partner.
+   * @param {string} id The UUID of the inspection.
+   * @returns {Promise<StreamableFile>} The PDF file.
+   * @throws {NotFoundException} If the inspection is not visible to the client or has no report.
+   */
+  @Get('partner/inspections/:id/report')
+  @UseGuards(ClientCredentialsGuard)
+  @ClientScopes('pdf:download')
+  @ApiBearerAuth('ClientCredentials')
+  @ApiTags('Partner API')
+  @ApiOperation({
+    summary:
+      'Download the report of an archived inspection (partner, pdf:download)',
+  })
+  @ApiProduces('application/pdf')
+  @ApiParam({ name: 'id', format: 'uuid', description: 'Inspection ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The PDF report without documents.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Missing, invalid, expired or revoked access token.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Access token lacks the pdf:download scope.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Inspection not found or report not available.',
+  })
+  async downloadReportForPartner(
+    @GetClient() client: AuthenticatedClient,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<StreamableFile> {
+    const { stream, fileName } =
+      await this.publicApiService.getReportFileForClient(client, id);
+    return new StreamableFile(stream, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
 }
@@ -20,6 +20,10 @@ import { Module } from '@nestjs/common';
 // Local module imports
 import { UsersModule } from '../users/users.module';
 import { InspectionsModule } from '../inspections/inspections.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { ExternalAuthModule } from '../external-auth/external-auth.module';
+import { StorageModule } from '../storage/storage.module';
+import { BlockchainModule } from '../blockchain/blockchain.module';
 
 // Controller and service imports for this module
 import { PublicApiController } from './public-api.controller';
@@ -36,10 +40,19 @@ import { PublicApiService } from './public-api.service';
  */
 @Module({
   // Imports other modules that provide necessary services or controllers
-  imports: [UsersModule, InspectionsModule],
+  imports: [
+    UsersModule,
+    InspectionsModule,
+    ApiKeysModule,
+    ExternalAuthModule,
+    StorageModule,
+    BlockchainModule,
+  ],
   // Declares controllers that handle incoming requests for this module
   controllers: [PublicApiController],
   // Registers services that encapsulate the business logic for this module
   providers: [PublicApiService],
+  // Exports the service for the customer inspection history (document filtering)
+  exports: [PublicApiService],
 })
 export class PublicApiModule {}
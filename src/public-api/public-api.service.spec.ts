@@ -0,0 +1,103 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: public-api.service.spec.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Unit tests for PublicApiService document verification: PDFs
+ * hashed like generated reports and verdicts against the on-chain hash.
+ * --------------------------------------------------------------------------
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { InspectionStatus, PdfVariant } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { hashPdf } from '../inspections/pdf-hash';
+import { PublicApiService } from './public-api.service';
+
+describe('PublicApiService - verifyDocument', () => {
+  let service: PublicApiService;
+  const pdf = Buffer.from('%PDF-1.7 inspection report');
+  const pdfHash = hashPdf(pdf);
+  const prisma = { inspection: { findFirst: jest.fn() } };
+  const blockchainService = {
+    getNftData: jest.fn(),
+    getTransactionTime: jest.fn(),
+  };
+  const mintedAt = new Date('2025-08-13T09:21:44.000Z');
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    prisma.inspection.findFirst.mockResolvedValue({
+      pretty_id: 'YOG-13082025-001',
+      status: InspectionStatus.ARCHIVED,
+      pdfFileHashNoDocs: pdfHash,
+      nftAssetId: 'asset-id',
+      blockchainTxHash: 'tx-hash',
+    });
+    blockchainService.getNftData.mockResolvedValue({
+      initial_mint_tx_hash: 'tx-hash',
+      onchain_metadata: { pdfHash },
+    });
+    blockchainService.getTransactionTime.mockResolvedValue(mintedAt);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PublicApiService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: StorageService, useValue: {} },
+        { provide: BlockchainService, useValue: blockchainService },
+      ],
+    }).compile();
+
+    service = module.get<PublicApiService>(PublicApiService);
+  });
+
+  it('verifies an uploaded report whose hash is anchored on chain', async () => {
+    await expect(service.verifyDocument({ file: pdf })).resolves.toEqual(
+      expect.objectContaining({
+        verified: true,
+        documentHash: pdfHash,
+        variant: PdfVariant.NO_DOCS,
+        prettyId: 'YOG-13082025-001',
+        nftAssetId: 'asset-id',
+        blockchainTxHash: 'tx-hash',
+        mintedAt,
+        onChainHashMatches: true,
+      }),
+    );
+    expect(prisma.inspection.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [{ pdfFileHash: pdfHash }, { pdfFileHashNoDocs: pdfHash }],
+        }) as object,
+      }),
+    );
+  });
+
+  it('does not verify a record the chain disagrees with', async () => {
+    blockchainService.getNftData.mockResolvedValue({
+      initial_mint_tx_hash: 'tx-hash',
+      onchain_metadata: { pdfHash: 'other-hash' },
+    });
+
+    const verdict = await service.verifyDocument({
+      hash: pdfHash.toUpperCase(),
+    });
+    expect(verdict.verified).toBe(false);
+    expect(verdict.onChainPdfHash).toBe('other-hash');
+  });
+
+  it('rejects requests without a document and unknown documents', async () => {
+    await expect(service.verifyDocument({})).rejects.toThrow(
+      BadRequestException,
+    );
+    prisma.inspection.findFirst.mockResolvedValue(null);
+    await expect(service.verifyDocument({ file: pdf })).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(blockchainService.getNftData).not.toHaveBeenCalled();
+  });
+});
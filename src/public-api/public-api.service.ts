@@ -6,12 +6,14 @@
  * --------------------------------------------------------------------------
  * Description: This service handles public API operations related to inspections.
  * It provides methods for retrieving inspection details and their change logs,
- * ensuring data integrity and proper error handling.
+ * and for verifying report PDFs against their NFT, ensuring data integrity and
+ * proper error handling.
  * --------------------------------------------------------------------------
  */
 
 // NestJS common imports
 import {
+  BadRequestException,
   Injectable,
   Logger,
   InternalServerErrorException,
@@ -20,10 +22,33 @@ import {
 } from '@nestjs/common';
 
 // Prisma client imports for database models and types
-import { Inspection, Prisma, InspectionChangeLog } from '@prisma/client';
+import {
+  Inspection,
+  InspectionStatus,
+  Prisma,
+  InspectionChangeLog,
+  PdfVariant,
+} from '@prisma/client';
+
+// Node.js imports
+import * as path from 'path';
+import { Readable } from 'stream';
 
 // Local service imports
 import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { AuthenticatedClient } from '../external-auth/interfaces/client-token-payload.interface';
+import { hashPdf } from '../inspections/pdf-hash';
+import { DocumentVerificationResponseDto } from './dto/document-verification-response.dto';
+
+/**
+ * Stored report without documents, opened for download.
+ */
+export interface InspectionReportFile {
+  stream: Readable;
+  fileName: string;
+}
 
 /**
  * @Injectable
@@ -37,10 +62,16 @@ export class PublicApiService {
 
   /**
    * Constructor for PublicApiService.
-   * Injects the PrismaService dependency.
+   * Injects the PrismaService, StorageService and BlockchainService dependencies.
    * @param prisma - The PrismaService instance for database interactions.
+   * @param storage - The StorageService instance for reading stored reports.
+   * @param blockchainService - The BlockchainService instance for reading NFT data.
    */
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly blockchainService: BlockchainService,
+  ) {}
 
   /**
    * Retrieves a single inspection by its unique ID.
@@ -199,4 +230,184 @@ export class PublicApiService {
     // Convert the map values back to an array and return.
     return Array.from(latestChangeLogsMap.values());
   }
+
+  /**
+   * Retrieves an archived inspection for a partner system, without sensitive
+   * documents. Only inspections of the branches the client may read are found.
+   *
+   * @param {AuthenticatedClient} client - The OAuth client of the partner.
+   * @param {string} id - The UUID of the inspection.
+   * @returns {Promise<Inspection>} The inspection with filtered photos.
+   * @throws {NotFoundException} If the inspection does not exist, is not archived or is outside the client's branches.
+   */
+  async findOneForClient(
+    client: AuthenticatedClient,
+    id: string,
+  ): Promise<Inspection> {
+    const inspection = await this.findOneWithoutDocuments(id);
+    this.assertVisibleToClient(client, inspection);
+    return inspection;
+  }
+
+  /**
+   * Opens the report without documents of an archived inspection for a
+   * partner system.
+   *
+   * @param {AuthenticatedClient} client - The OAuth client of the partner.
+   * @param {string} id - The UUID of the inspection.
+   * @returns {Promise<InspectionReportFile>} Content and download name of the PDF.
+   * @throws {NotFoundException} If the inspection is not visible to the client or has no report.
+   */
+  async getReportFileForClient(
+    client: AuthenticatedClient,
+    id: string,
+  ): Promise<InspectionReportFile> {
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        branchCityId: true,
+        urlPdfNoDocs: true,
+      },
+    });
+    if (!inspection) {
+      throw new NotFoundException(`Inspection with ID "${id}" not found.`);
+    }
+    this.assertVisibleToClient(client, inspection);
+    if (!inspection.urlPdfNoDocs) {
+      throw new NotFoundException(
+        `The report of inspection "${id}" is not available yet.`,
+      );
+    }
+
+    // Only the file name is taken from the stored URL
+    const key = this.storage.pdfKey(inspection.urlPdfNoDocs);
+    try {
+      return {
+        stream: await this.storage.download(key),
+        fileName: path.posix.basename(key),
+      };
+    } catch (error: unknown) {
+      if (!(error instanceof NotFoundException)) throw error;
+      this.logger.warn(
+        `Report file ${key} of inspection ${id} is missing in storage`,
+      );
+      throw new NotFoundException(
+        `The report of inspection "${id}" is not available.`,
+      );
+    }
+  }
+
+  /**
+   * Verifies a report PDF, or the SHA-256 hash of one, against the archived
+   * inspections and the PDF hash anchored in their NFT. The PDF is hashed
+   * exactly as when the report was generated.
+   *
+   * @param {{ file?: Buffer; hash?: string }} document - The PDF content, or its hex SHA-256 hash.
+   * @returns {Promise<DocumentVerificationResponseDto>} The verdict for the matching inspection.
+   * @throws {BadRequestException} If neither a file nor a hash is given.
+   * @throws {NotFoundException} If no archived inspection report has this hash.
+   */
+  async verifyDocument(document: {
+    file?: Buffer;
+    hash?: string;
+  }): Promise<DocumentVerificationResponseDto> {
+    if (!document.file && !document.hash) {
+      throw new BadRequestException(
+        'Upload the report PDF as "file" or provide its SHA-256 "hash".',
+      );
+    }
+    const documentHash = document.file
+      ? hashPdf(document.file)
+      : document.hash!.toLowerCase();
+
+    // Reports are only anchored on chain once the inspection is archived
+    const inspection = await this.prisma.inspection.findFirst({
+      where: {
+        status: {
+          in: [InspectionStatus.ARCHIVED, InspectionStatus.DEACTIVATED],
+        },
+        OR: [
+          { pdfFileHash: documentHash },
+          { pdfFileHashNoDocs: documentHash },
+        ],
+      },
+      orderBy: { archivedAt: 'desc' },
+      select: {
+        pretty_id: true,
+        status: true,
+        pdfFileHashNoDocs: true,
+        nftAssetId: true,
+        blockchainTxHash: true,
+      },
+    });
+    if (!inspection) {
+      throw new NotFoundException(
+        'No archived inspection report matches this document.',
+      );
+    }
+
+    let onChainPdfHash: string | null = null;
+    let mintedAt: Date | null = null;
+    if (inspection.nftAssetId) {
+      try {
+        const nft = await this.blockchainService.getNftData(
+          inspection.nftAssetId,
+        );
+        const pdfHash = nft.onchain_metadata?.pdfHash;
+        onChainPdfHash = typeof pdfHash === 'string' ? pdfHash : null;
+        mintedAt = await this.blockchainService.getTransactionTime(
+          nft.initial_mint_tx_hash,
+        );
+      } catch (error: unknown) {
+        if (!(error instanceof NotFoundException)) throw error;
+        this.logger.warn(
+          `NFT ${inspection.nftAssetId} of inspection ${inspection.pretty_id} not found on chain`,
+        );
+      }
+    }
+    const onChainHashMatches =
+      onChainPdfHash !== null &&
+      onChainPdfHash === inspection.pdfFileHashNoDocs;
+
+    return new DocumentVerificationResponseDto({
+      verified:
+        inspection.status === InspectionStatus.ARCHIVED && onChainHashMatches,
+      documentHash,
+      variant:
+        inspection.pdfFileHashNoDocs === documentHash
+          ? PdfVariant.NO_DOCS
+          : PdfVariant.FULL,
+      prettyId: inspection.pretty_id,
+      status: inspection.status,
+      nftAssetId: inspection.nftAssetId,
+      blockchainTxHash: inspection.blockchainTxHash,
+      mintedAt,
+      onChainPdfHash,
+      onChainHashMatches,
+    });
+  }
+
+  /**
+   * Partners only see archived inspections of their allowed branches (all
+   * branches when none are set). Others are reported as not found.
+   */
+  private assertVisibleToClient(
+    client: AuthenticatedClient,
+    inspection: Pick<Inspection, 'id' | 'status' | 'branchCityId'>,
+  ): void {
+    const branchAllowed =
+      client.allowedBranchIds.length === 0 ||
+      (!!inspection.branchCityId &&
+        client.allowedBranchIds.includes(inspection.branchCityId));
+    if (inspection.status !== InspectionStatus.ARCHIVED || !branchAllowed) {
+      this.logger.warn(
+        `OAuth client ${client.clientId} denied access to inspection ${inspection.id}`,
+      );
+      throw new NotFoundException(
+        `Inspection with ID "${inspection.id}" not found.`,
+      );
+    }
+  }
 }
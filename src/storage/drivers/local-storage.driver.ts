@@ -0,0 +1,112 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: local-storage.driver.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Storage driver keeping objects on the local disk under
+ * STORAGE_LOCAL_ROOT (default: the working directory), so the existing
+ * ./uploads and ./pdfarchived folders are used as-is. Objects are served
+ * publicly (ServeStaticModule / reverse proxy), so signed URLs are plain
+ * public URLs. Only usable with a single replica.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageDriver } from '../storage-driver.interface';
+
+@Injectable()
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+  private readonly publicBaseUrl: string;
+
+  constructor(config: ConfigService) {
+    this.root = path.resolve(
+      config.get<string>('STORAGE_LOCAL_ROOT') || process.cwd(),
+    );
+    this.publicBaseUrl = (
+      config.get<string>('STORAGE_LOCAL_PUBLIC_BASE_URL') || ''
+    ).replace(/\/+$/, '');
+  }
+
+  async upload(key: string, body: Buffer | Readable): Promise<void> {
+    const filePath = await this.prepare(key);
+    if (Buffer.isBuffer(body)) {
+      await fs.writeFile(filePath, body);
+    } else {
+      await pipeline(body, createWriteStream(filePath));
+    }
+  }
+
+  async moveFile(key: string, filePath: string): Promise<void> {
+    const destination = await this.prepare(key);
+    if (path.resolve(filePath) === destination) return;
+    try {
+      await fs.rename(filePath, destination);
+    } catch (error: unknown) {
+      // Different file systems cannot be renamed across
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await fs.copyFile(filePath, destination);
+      await fs.unlink(filePath);
+    }
+  }
+
+  async download(key: string): Promise<Readable> {
+    const filePath = this.pathOf(key);
+    if (!(await this.exists(key))) {
+      throw new NotFoundException(`Stored file "${key}" not found.`);
+    }
+    return createReadStream(filePath);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathOf(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.pathOf(key));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  getSignedUrl(key: string): Promise<string> {
+    return Promise.resolve(this.getPublicUrl(key));
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  /**
+   * Absolute path of an object. Keys never leave the storage root.
+   */
+  pathOf(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}".`);
+    }
+    return filePath;
+  }
+
+  // --- Helpers ---
+
+  private async prepare(key: string): Promise<string> {
+    const filePath = this.pathOf(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    return filePath;
+  }
+}
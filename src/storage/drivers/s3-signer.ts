@@ -0,0 +1,197 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: s3-signer.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: AWS Signature Version 4 for S3-compatible object storage
+ * (AWS S3, MinIO, ...). Signs request headers and builds presigned URLs.
+ * --------------------------------------------------------------------------
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Payload hash used when the body is streamed and not hashed up front.
+ */
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export interface S3SignableRequest {
+  method: string;
+  /** Host header, including the port when it is not the default one. */
+  host: string;
+  /** Already URI-encoded path, e.g. "/bucket/photos/a%20b.jpg". */
+  path: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Hex SHA-256 of the body, or UNSIGNED_PAYLOAD. */
+  payloadHash: string;
+}
+
+/**
+ * URI-encodes an object key for the request path (RFC 3986; "/" kept).
+ */
+export function encodeS3Key(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * Headers to send with a request: the given headers plus x-amz-date,
+ * x-amz-content-sha256 and Authorization.
+ *
+ * @param request The request to sign.
+ * @param credentials Access key, secret and region.
+ * @param date Signing time.
+ */
+export function signS3Request(
+  request: S3SignableRequest,
+  credentials: S3Credentials,
+  date: Date = new Date(),
+): Record<string, string> {
+  const amzDate = toAmzDate(date);
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash,
+  };
+  const { signature, signedHeaders, scope } = sign(
+    request,
+    headers,
+    credentials,
+    amzDate,
+  );
+  delete headers.host;
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+}
+
+/**
+ * Builds a presigned URL (query string authentication).
+ *
+ * @param request The request to presign; only the host header is signed.
+ * @param credentials Access key, secret and region.
+ * @param expiresInSeconds Validity, at most 7 days.
+ * @param protocol "https:" or "http:".
+ * @param date Signing time.
+ */
+export function presignS3Url(
+  request: Omit<S3SignableRequest, 'payloadHash' | 'headers'>,
+  credentials: S3Credentials,
+  expiresInSeconds: number,
+  protocol = 'https:',
+  date: Date = new Date(),
+): string {
+  const amzDate = toAmzDate(date);
+  const scope = credentialScope(amzDate, credentials.region);
+  const query: Record<string, string> = {
+    ...request.query,
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${credentials.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(Math.min(Math.max(expiresInSeconds, 1), 604800)),
+    'X-Amz-SignedHeaders': 'host',
+  };
+  const { signature } = sign(
+    { ...request, query, payloadHash: UNSIGNED_PAYLOAD },
+    { host: request.host },
+    credentials,
+    amzDate,
+  );
+  return `${protocol}//${request.host}${request.path}?${canonicalQuery({
+    ...query,
+    'X-Amz-Signature': signature,
+  })}`;
+}
+
+// --- Helpers ---
+
+function sign(
+  request: S3SignableRequest,
+  headers: Record<string, string>,
+  credentials: S3Credentials,
+  amzDate: string,
+): { signature: string; signedHeaders: string; scope: string } {
+  const names = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerCased = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    canonicalQuery(request.query ?? {}),
+    names
+      .map(
+        (name) => `${name}:${lowerCased[name].trim().replace(/\s+/g, ' ')}\n`,
+      )
+      .join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = credentialScope(amzDate, credentials.region);
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  let key: Buffer = hmac(
+    `AWS4${credentials.secretAccessKey}`,
+    amzDate.slice(0, 8),
+  );
+  for (const part of [credentials.region, 's3', 'aws4_request']) {
+    key = hmac(key, part);
+  }
+  const signature = crypto
+    .createHmac('sha256', key)
+    .update(stringToSign)
+    .digest('hex');
+  return { signature, signedHeaders, scope };
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+}
+
+function credentialScope(amzDate: string, region: string): string {
+  return `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+}
+
+// 20130524T000000Z
+function toAmzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[:-]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,226 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: s3-storage.driver.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Storage driver for S3-compatible object storage (AWS S3,
+ * MinIO, ...). Talks to the S3 REST API with Signature Version 4; uploads and
+ * downloads are streamed. Set S3_ENDPOINT and S3_FORCE_PATH_STYLE=true for
+ * MinIO.
+ * --------------------------------------------------------------------------
+ */
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
+import { Readable } from 'stream';
+import {
+  StorageDriver,
+  StorageUploadOptions,
+} from '../storage-driver.interface';
+import {
+  encodeS3Key,
+  presignS3Url,
+  S3Credentials,
+  signS3Request,
+  UNSIGNED_PAYLOAD,
+} from './s3-signer';
+
+// Abort requests that stall (large PDFs still upload well within this)
+const REQUEST_TIMEOUT_MS = 300000;
+
+@Injectable()
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly logger = new Logger(S3StorageDriver.name);
+  private readonly credentials: S3Credentials;
+  private readonly protocol: string;
+  /** Host header value; includes the port when it is not the default. */
+  private readonly host: string;
+  private readonly hostname: string;
+  private readonly port: number | undefined;
+  /** Path prefix before the key: "/bucket" (path style) or "". */
+  private readonly basePath: string;
+  private readonly publicBaseUrl: string;
+
+  constructor(config: ConfigService) {
+    const bucket = config.getOrThrow<string>('S3_BUCKET');
+    const region = config.get<string>('S3_REGION') || 'us-east-1';
+    const endpoint = new URL(
+      config.get<string>('S3_ENDPOINT') || `https://s3.${region}.amazonaws.com`,
+    );
+    const pathStyle = config.get<string>('S3_FORCE_PATH_STYLE') === 'true';
+
+    this.credentials = {
+      accessKeyId: config.getOrThrow<string>('S3_ACCESS_KEY_ID'),
+      secretAccessKey: config.getOrThrow<string>('S3_SECRET_ACCESS_KEY'),
+      region,
+    };
+    this.protocol = endpoint.protocol;
+    this.hostname = pathStyle
+      ? endpoint.hostname
+      : `${bucket}.${endpoint.hostname}`;
+    this.port = endpoint.port ? Number(endpoint.port) : undefined;
+    this.host = endpoint.port
+      ? `${this.hostname}:${endpoint.port}`
+      : this.hostname;
+    this.basePath = pathStyle ? `/${encodeS3Key(bucket)}` : '';
+    this.publicBaseUrl = (
+      config.get<string>('S3_PUBLIC_BASE_URL') ||
+      `${this.protocol}//${this.host}${this.basePath}`
+    ).replace(/\/+$/, '');
+  }
+
+  async upload(
+    key: string,
+    body: Buffer | Readable,
+    options: StorageUploadOptions = {},
+  ): Promise<void> {
+    const isBuffer = Buffer.isBuffer(body);
+    const contentLength = isBuffer ? body.length : options.contentLength;
+    if (contentLength === undefined) {
+      throw new Error(`Content length is required to stream "${key}" to S3.`);
+    }
+    const response = await this.send('PUT', key, {
+      body,
+      payloadHash: isBuffer
+        ? crypto.createHash('sha256').update(body).digest('hex')
+        : UNSIGNED_PAYLOAD,
+      headers: {
+        'content-length': String(contentLength),
+        'content-type': options.contentType ?? 'application/octet-stream',
+      },
+    });
+    await this.expectSuccess(response, 'PUT', key);
+  }
+
+  async moveFile(
+    key: string,
+    filePath: string,
+    options: StorageUploadOptions = {},
+  ): Promise<void> {
+    const { size } = await fs.stat(filePath);
+    await this.upload(key, createReadStream(filePath), {
+      ...options,
+      contentLength: size,
+    });
+    await fs.unlink(filePath);
+  }
+
+  async download(key: string): Promise<Readable> {
+    const response = await this.send('GET', key);
+    if (response.statusCode === 404) {
+      response.resume();
+      throw new NotFoundException(`Stored file "${key}" not found.`);
+    }
+    await this.expectSuccess(response, 'GET', key, false);
+    return response;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.send('HEAD', key);
+    response.resume();
+    if (response.statusCode === 404) return false;
+    await this.expectSuccess(response, 'HEAD', key);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    await this.expectSuccess(response, 'DELETE', key);
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return Promise.resolve(
+      presignS3Url(
+        { method: 'GET', host: this.host, path: this.objectPath(key) },
+        this.credentials,
+        expiresInSeconds,
+        this.protocol,
+      ),
+    );
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${encodeS3Key(key)}`;
+  }
+
+  // --- Helpers ---
+
+  private objectPath(key: string): string {
+    return `${this.basePath}/${encodeS3Key(key)}`;
+  }
+
+  /**
+   * Sends a signed request; resolves once the response headers arrive.
+   */
+  private send(
+    method: string,
+    key: string,
+    options: {
+      body?: Buffer | Readable;
+      payloadHash?: string;
+      headers?: Record<string, string>;
+    } = {},
+  ): Promise<http.IncomingMessage> {
+    const path = this.objectPath(key);
+    const headers = signS3Request(
+      {
+        method,
+        host: this.host,
+        path,
+        headers: options.headers,
+        payloadHash:
+          options.payloadHash ??
+          crypto.createHash('sha256').update('').digest('hex'),
+      },
+      this.credentials,
+    );
+    const client = this.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        { method, host: this.hostname, port: this.port, path, headers },
+        resolve,
+      );
+      request.setTimeout(REQUEST_TIMEOUT_MS, () =>
+        request.destroy(new Error(`S3 ${method} ${key} timed out`)),
+      );
+      request.on('error', reject);
+      const { body } = options;
+      if (body instanceof Readable) {
+        body.on('error', (error) => request.destroy(error));
+        body.pipe(request);
+      } else {
+        request.end(body);
+      }
+    });
+  }
+
+  /**
+   * Throws for error responses, including S3's error code in the message.
+   * Successful responses are drained unless the body is still needed.
+   */
+  private async expectSuccess(
+    response: http.IncomingMessage,
+    method: string,
+    key: string,
+    drain = true,
+  ): Promise<void> {
+    const status = response.statusCode ?? 0;
+    if (status >= 200 && status < 300) {
+      if (drain) response.resume();
+      return;
+    }
+    let body = '';
+    for await (const chunk of response) body += String(chunk);
+    const code = body.match(/<Code>([^<]+)<\/Code>/)?.[1] ?? 'UnknownError';
+    this.logger.error(`S3 ${method} ${key} failed with ${status} ${code}`);
+    throw new Error(`S3 ${method} "${key}" failed with ${status} ${code}.`);
+  }
+}
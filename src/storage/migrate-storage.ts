@@ -0,0 +1,54 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: migrate-storage.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Command copying the local photos and archived PDFs to the
+ * storage driver configured by STORAGE_DRIVER (see StorageMigrationService).
+ * Usage: npm run storage:migrate [-- --dry-run]
+ * --------------------------------------------------------------------------
+ */
+
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { PrismaModule } from '../prisma/prisma.module';
+import { StorageModule } from './storage.module';
+import { StorageMigrationService } from './storage-migration.service';
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    PrismaModule,
+    StorageModule,
+  ],
+})
+class StorageMigrationCommandModule {}
+
+async function migrate() {
+  const logger = new Logger('StorageMigration');
+  const app = await NestFactory.createApplicationContext(
+    StorageMigrationCommandModule,
+  );
+  try {
+    const result = await app
+      .get(StorageMigrationService)
+      .migrateLocalFiles({ dryRun: process.argv.includes('--dry-run') });
+    logger.log(
+      `Photos: ${result.photos.copied} copied, ${result.photos.skipped} already migrated, ${result.photos.missing} missing`,
+    );
+    logger.log(
+      `PDFs: ${result.pdfs.copied} copied, ${result.pdfs.skipped} already migrated, ${result.pdfs.missing} missing`,
+    );
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'An unknown error occurred';
+    logger.error(`Storage migration failed: ${errorMessage}`);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+void migrate();
@@ -0,0 +1,93 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: storage-driver.interface.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Contract implemented by object storage drivers (local disk,
+ * S3-compatible). StorageService only talks to the driver bound to
+ * STORAGE_DRIVER, so photos and archived PDFs can move to shared storage
+ * without touching the inspection logic.
+ * --------------------------------------------------------------------------
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * Injection token of the active StorageDriver.
+ */
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+export interface StorageUploadOptions {
+  contentType?: string;
+  /** Required when the body is a stream. */
+  contentLength?: number;
+}
+
+export interface StorageDriver {
+  /** The driver name, e.g. "local" or "s3". */
+  readonly name: string;
+
+  /**
+   * Stores an object, replacing any object with the same key.
+   *
+   * @param key The object key, e.g. "pdfarchived/report.pdf".
+   * @param body The content; streams are not buffered.
+   * @param options Content type and, for streams, length.
+   */
+  upload(
+    key: string,
+    body: Buffer | Readable,
+    options?: StorageUploadOptions,
+  ): Promise<void>;
+
+  /**
+   * Stores a local file and removes it from its original location.
+   *
+   * @param key The object key.
+   * @param filePath The local file, e.g. a Multer upload.
+   * @param options Content type.
+   */
+  moveFile(
+    key: string,
+    filePath: string,
+    options?: StorageUploadOptions,
+  ): Promise<void>;
+
+  /**
+   * Opens an object for reading.
+   *
+   * @param key The object key.
+   * @throws {NotFoundException} If the object does not exist.
+   */
+  download(key: string): Promise<Readable>;
+
+  /**
+   * Whether an object exists.
+   *
+   * @param key The object key.
+   */
+  exists(key: string): Promise<boolean>;
+
+  /**
+   * Deletes an object. Deleting a missing object is not an error.
+   *
+   * @param key The object key.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * URL granting temporary read access to an object.
+   *
+   * @param key The object key.
+   * @param expiresInSeconds How long the URL stays valid.
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+
+  /**
+   * Permanent URL of an object, for objects served publicly.
+   *
+   * @param key The object key.
+   */
+  getPublicUrl(key: string): string;
+}
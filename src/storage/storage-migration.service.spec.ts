@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { StorageMigrationService } from './storage-migration.service';
+import { StorageService } from './storage.service';
+
+describe('StorageMigrationService', () => {
+  let service: StorageMigrationService;
+  let root: string;
+
+  const mockPrismaService = {
+    photo: { findMany: jest.fn(), update: jest.fn() },
+    inspection: { findMany: jest.fn(), update: jest.fn() },
+  };
+  const mockStorageService = {
+    driverName: 's3',
+    upload: jest.fn(),
+    photoKey: jest.fn(
+      (value: string) => `uploads/inspection-photos/${value.split('/').pop()}`,
+    ),
+    pdfKey: jest.fn((value: string) => `pdfarchived/${value.split('/').pop()}`),
+    toPhotoPath: jest.fn((key: string) => `https://cdn.example.com/${key}`),
+    toPdfUrl: jest.fn((key: string) => `https://cdn.example.com/${key}`),
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-migration-'));
+    await fs.mkdir(path.join(root, 'uploads/inspection-photos'), {
+      recursive: true,
+    });
+    await fs.mkdir(path.join(root, 'pdfarchived'));
+    await fs.writeFile(
+      path.join(root, 'uploads/inspection-photos/front.jpg'),
+      'jpg',
+    );
+    await fs.writeFile(path.join(root, 'pdfarchived/YOG-1.pdf'), '%PDF-1.4');
+
+    const localDisk = new LocalStorageDriver(
+      new ConfigService({ STORAGE_LOCAL_ROOT: root }),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageMigrationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: StorageService, useValue: mockStorageService },
+        { provide: LocalStorageDriver, useValue: localDisk },
+      ],
+    }).compile();
+
+    service = module.get<StorageMigrationService>(StorageMigrationService);
+    mockStorageService.driverName = 's3';
+    mockPrismaService.photo.findMany
+      .mockResolvedValueOnce([
+        { id: 'photo-1', path: 'front.jpg' },
+        { id: 'photo-2', path: 'missing.jpg' },
+        {
+          id: 'photo-3',
+          path: 'https://cdn.example.com/uploads/inspection-photos/rear.jpg',
+        },
+      ])
+      .mockResolvedValueOnce([]);
+    mockPrismaService.inspection.findMany
+      .mockResolvedValueOnce([
+        {
+          id: 'inspection-1',
+          urlPdf: '/pdfarchived/YOG-1.pdf',
+          urlPdfNoDocs: null,
+        },
+      ])
+      .mockResolvedValueOnce([]);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.photo.findMany.mockReset();
+    mockPrismaService.inspection.findMany.mockReset();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should refuse to migrate when the local driver is active', async () => {
+    mockStorageService.driverName = 'local';
+
+    await expect(service.migrateLocalFiles()).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should copy local files and rewrite the stored locations', async () => {
+    const result = await service.migrateLocalFiles();
+
+    expect(result).toEqual({
+      dryRun: false,
+      photos: { copied: 1, skipped: 1, missing: 1 },
+      pdfs: { copied: 1, skipped: 0, missing: 0 },
+    });
+    expect(mockStorageService.upload).toHaveBeenCalledWith(
+      'uploads/inspection-photos/front.jpg',
+      expect.anything(),
+      { contentLength: 3, contentType: 'image/jpeg' },
+    );
+    expect(mockPrismaService.photo.update).toHaveBeenCalledTimes(1);
+    expect(mockPrismaService.photo.update).toHaveBeenCalledWith({
+      where: { id: 'photo-1' },
+      data: {
+        path: 'https://cdn.example.com/uploads/inspection-photos/front.jpg',
+      },
+    });
+    expect(mockPrismaService.inspection.update).toHaveBeenCalledWith({
+      where: { id: 'inspection-1' },
+      data: { urlPdf: 'https://cdn.example.com/pdfarchived/YOG-1.pdf' },
+    });
+  });
+
+  it('should only count files on a dry run', async () => {
+    const result = await service.migrateLocalFiles({ dryRun: true });
+
+    expect(result.photos).toEqual({ copied: 1, skipped: 1, missing: 1 });
+    expect(mockStorageService.upload).not.toHaveBeenCalled();
+    expect(mockPrismaService.photo.update).not.toHaveBeenCalled();
+    expect(mockPrismaService.inspection.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: storage-migration.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Copies the photos and archived PDFs kept on the local disk to
+ * the storage driver bound to STORAGE_DRIVER and rewrites Photo.path and
+ * Inspection.urlPdf / urlPdfNoDocs to the new locations. Local files are left
+ * in place. Safe to run again: rows already pointing to the new storage are
+ * skipped. Run with `npm run storage:migrate [-- --dry-run]`.
+ * --------------------------------------------------------------------------
+ */
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { StorageService } from './storage.service';
+
+// Rows read per query
+const BATCH_SIZE = 200;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+export interface StorageMigrationCounts {
+  /** Files copied and rows rewritten. */
+  copied: number;
+  /** Rows already pointing to the new storage. */
+  skipped: number;
+  /** Rows whose local file does not exist; left unchanged. */
+  missing: number;
+}
+
+export interface StorageMigrationResult {
+  dryRun: boolean;
+  photos: StorageMigrationCounts;
+  pdfs: StorageMigrationCounts;
+}
+
+@Injectable()
+export class StorageMigrationService {
+  private readonly logger = new Logger(StorageMigrationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private readonly storage: StorageService,
+    private readonly localDisk: LocalStorageDriver,
+  ) {}
+
+  /**
+   * Copies local photos and PDFs to the active storage driver.
+   *
+   * @param {{ dryRun?: boolean }} options - With dryRun, only counts what would be copied.
+   * @returns {Promise<StorageMigrationResult>} Counts per kind of file.
+   * @throws {BadRequestException} If the active driver is the local disk.
+   */
+  async migrateLocalFiles(
+    options: { dryRun?: boolean } = {},
+  ): Promise<StorageMigrationResult> {
+    if (this.storage.driverName === 'local') {
+      throw new BadRequestException(
+        'STORAGE_DRIVER is "local"; configure the target driver before migrating.',
+      );
+    }
+    const dryRun = options.dryRun ?? false;
+    this.logger.log(
+      `Migrating local files to ${this.storage.driverName} storage${dryRun ? ' (dry run)' : ''}`,
+    );
+
+    const result: StorageMigrationResult = {
+      dryRun,
+      photos: await this.migratePhotos(dryRun),
+      pdfs: await this.migratePdfs(dryRun),
+    };
+    this.logger.log(`Storage migration finished: ${JSON.stringify(result)}`);
+    return result;
+  }
+
+  private async migratePhotos(
+    dryRun: boolean,
+  ): Promise<StorageMigrationCounts> {
+    const counts: StorageMigrationCounts = {
+      copied: 0,
+      skipped: 0,
+      missing: 0,
+    };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const photos = await this.prisma.photo.findMany({
+        select: { id: true, path: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (photos.length === 0) break;
+      cursor = photos[photos.length - 1].id;
+
+      for (const photo of photos) {
+        const key = this.storage.photoKey(photo.path);
+        const newPath = this.storage.toPhotoPath(key);
+        if (photo.path === newPath) {
+          counts.skipped++;
+        } else if (!(await this.copy(key, dryRun))) {
+          counts.missing++;
+        } else {
+          if (!dryRun) {
+            await this.prisma.photo.update({
+              where: { id: photo.id },
+              data: { path: newPath },
+            });
+          }
+          counts.copied++;
+        }
+      }
+    }
+    return counts;
+  }
+
+  private async migratePdfs(dryRun: boolean): Promise<StorageMigrationCounts> {
+    const counts: StorageMigrationCounts = {
+      copied: 0,
+      skipped: 0,
+      missing: 0,
+    };
+    let cursor: string | undefined;
+
+    for (;;) {
+      const inspections = await this.prisma.inspection.findMany({
+        where: {
+          OR: [{ urlPdf: { not: null } }, { urlPdfNoDocs: { not: null } }],
+        },
+        select: { id: true, urlPdf: true, urlPdfNoDocs: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (inspections.length === 0) break;
+      cursor = inspections[inspections.length - 1].id;
+
+      for (const inspection of inspections) {
+        for (const field of ['urlPdf', 'urlPdfNoDocs'] as const) {
+          const url = inspection[field];
+          if (!url) continue;
+          const key = this.storage.pdfKey(url);
+          const newUrl = this.storage.toPdfUrl(key);
+          if (url === newUrl) {
+            counts.skipped++;
+          } else if (!(await this.copy(key, dryRun))) {
+            counts.missing++;
+          } else {
+            if (!dryRun) {
+              await this.prisma.inspection.update({
+                where: { id: inspection.id },
+                data: { [field]: newUrl },
+              });
+            }
+            counts.copied++;
+          }
+        }
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Streams one local file to the active driver.
+   *
+   * @returns False if the local file does not exist.
+   */
+  private async copy(key: string, dryRun: boolean): Promise<boolean> {
+    const filePath = this.localDisk.pathOf(key);
+    let size: number;
+    try {
+      ({ size } = await fs.stat(filePath));
+    } catch {
+      this.logger.warn(`Local file ${filePath} not found; row left unchanged.`);
+      return false;
+    }
+    if (!dryRun) {
+      await this.storage.upload(key, createReadStream(filePath), {
+        contentLength: size,
+        contentType: CONTENT_TYPES[path.extname(key).toLowerCase()],
+      });
+    }
+    return true;
+  }
+}
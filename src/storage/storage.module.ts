@@ -0,0 +1,44 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: storage.module.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS module for object storage of photos and archived PDFs.
+ * Binds STORAGE_DRIVER to the driver selected by the STORAGE_DRIVER
+ * environment variable (default: local).
+ * --------------------------------------------------------------------------
+ */
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageService } from './storage.service';
+import { StorageMigrationService } from './storage-migration.service';
+import { STORAGE_DRIVER } from './storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+
+@Module({
+  providers: [
+    StorageService,
+    StorageMigrationService,
+    LocalStorageDriver,
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (config: ConfigService, local: LocalStorageDriver) => {
+        const name = config.get<string>('STORAGE_DRIVER') ?? 'local';
+        switch (name) {
+          case 'local':
+            return local;
+          case 's3':
+            return new S3StorageDriver(config);
+          default:
+            throw new Error(`Unknown STORAGE_DRIVER "${name}".`);
+        }
+      },
+      inject: [ConfigService, LocalStorageDriver],
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
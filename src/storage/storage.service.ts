@@ -0,0 +1,135 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: storage.service.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: NestJS service for storing inspection photos and archived PDF
+ * reports through the driver bound to STORAGE_DRIVER. Also maps stored
+ * values (Photo.path, Inspection.urlPdf) to object keys and back: with the
+ * local driver they keep their historical form (photo file name,
+ * PDF_PUBLIC_BASE_URL link), with other drivers they are public object URLs.
+ * --------------------------------------------------------------------------
+ */
+
+import { Inject, Injectable } from '@nestjs/common';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+  StorageUploadOptions,
+} from './storage-driver.interface';
+
+/**
+ * Key prefix of inspection photos (historically ./uploads/inspection-photos).
+ */
+export const PHOTO_STORAGE_PREFIX = 'uploads/inspection-photos';
+
+/**
+ * Key prefix of archived PDF reports (historically ./pdfarchived).
+ */
+export const PDF_STORAGE_PREFIX = 'pdfarchived';
+
+@Injectable()
+export class StorageService {
+  constructor(@Inject(STORAGE_DRIVER) private readonly driver: StorageDriver) {}
+
+  /**
+   * Name of the active driver, e.g. "local" or "s3".
+   */
+  get driverName(): string {
+    return this.driver.name;
+  }
+
+  upload(
+    key: string,
+    body: Buffer | Readable,
+    options?: StorageUploadOptions,
+  ): Promise<void> {
+    return this.driver.upload(key, body, options);
+  }
+
+  moveFile(
+    key: string,
+    filePath: string,
+    options?: StorageUploadOptions,
+  ): Promise<void> {
+    return this.driver.moveFile(key, filePath, options);
+  }
+
+  download(key: string): Promise<Readable> {
+    return this.driver.download(key);
+  }
+
+  exists(key: string): Promise<boolean> {
+    return this.driver.exists(key);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.driver.delete(key);
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return this.driver.getSignedUrl(key, expiresInSeconds);
+  }
+
+  getPublicUrl(key: string): string {
+    return this.driver.getPublicUrl(key);
+  }
+
+  /**
+   * Stores a photo uploaded by Multer (staged on the local disk) and returns
+   * the value to save as Photo.path.
+   *
+   * @param {Express.Multer.File} file - The validated upload.
+   * @returns {Promise<string>} The Photo.path value.
+   */
+  async storeUploadedPhoto(file: Express.Multer.File): Promise<string> {
+    const key = this.photoKey(file.filename);
+    await this.driver.moveFile(key, file.path, { contentType: file.mimetype });
+    return this.toPhotoPath(key);
+  }
+
+  /**
+   * Object key of a photo.
+   *
+   * @param {string} photoPath - Photo.path (file name or URL) or a file name.
+   */
+  photoKey(photoPath: string): string {
+    return `${PHOTO_STORAGE_PREFIX}/${this.fileNameOf(photoPath)}`;
+  }
+
+  /**
+   * Object key of an archived PDF.
+   *
+   * @param {string} pdfUrl - Inspection.urlPdf / urlPdfNoDocs or a file name.
+   */
+  pdfKey(pdfUrl: string): string {
+    return `${PDF_STORAGE_PREFIX}/${this.fileNameOf(pdfUrl)}`;
+  }
+
+  /**
+   * Value stored as Photo.path for a photo key.
+   */
+  toPhotoPath(key: string): string {
+    return this.driver.name === 'local'
+      ? path.posix.basename(key)
+      : this.driver.getPublicUrl(key);
+  }
+
+  /**
+   * Value stored as Inspection.urlPdf / urlPdfNoDocs for a PDF key.
+   */
+  toPdfUrl(key: string): string {
+    if (this.driver.name !== 'local') return this.driver.getPublicUrl(key);
+    // Should come from config in real app; /pdfarchived if served by Nginx
+    const baseUrl = process.env.PDF_PUBLIC_BASE_URL || '/pdfarchived';
+    return `${baseUrl}/${path.posix.basename(key)}`;
+  }
+
+  // File name part of a stored path or URL (query string and encoding removed)
+  private fileNameOf(value: string): string {
+    return decodeURIComponent(path.posix.basename(value.split('?')[0]));
+  }
+}
@@ -0,0 +1,23 @@
+/*
+ * --------------------------------------------------------------------------
+ * File: invite-inspector.dto.ts
+ * Project: car-dano-backend
+ * Copyright © 2025 PT. Inspeksi Mobil Jogja
+ * --------------------------------------------------------------------------
+ * Description: Data Transfer Object (DTO) for inviting an inspector by email.
+ * The invitee chooses their username and password from the invitation link.
+ * --------------------------------------------------------------------------
+ */
+
+import { PickType } from '@nestjs/swagger';
+import { CreateInspectorDto } from './create-inspector.dto';
+
+/**
+ * DTO for inviting a new inspector.
+ */
+export class InviteInspectorDto extends PickType(CreateInspectorDto, [
+  'email',
+  'name',
+  'whatsappNumber',
+  'inspectionBranchCityId',
+] as const) {}
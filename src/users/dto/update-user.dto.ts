@@ -10,7 +10,13 @@
  */
 
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsOptional, IsString, MinLength } from 'class-validator';
+import {
+  IsBoolean,
+  IsEmail,
+  IsOptional,
+  IsString,
+  MinLength,
+} from 'class-validator';
 
 /**
  * DTO for updating an existing user.
@@ -82,11 +88,12 @@ export class UpdateUserDto {
   pin?: string;
 
   @ApiProperty({
-    description: 'Optional refresh token for the user',
-    example: 'some_refresh_token',
+    description:
+      'Set the user account to active or inactive. Deactivation signs the user out of every device.',
+    example: true,
     required: false,
   })
   @IsOptional()
-  @IsString()
-  refreshToken?: string;
-}
\ No newline at end of file
+  @IsBoolean()
+  isActive?: boolean;
+}
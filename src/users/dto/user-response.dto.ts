@@ -73,6 +73,18 @@ export class UserResponseDto {
   @ApiProperty({ description: 'User active status' })
   isActive: boolean;
 
+  /**
+   * Whether the user has two-factor authentication enabled.
+   */
+  @ApiProperty({ description: 'Two-factor authentication (TOTP) enabled' })
+  twoFactorEnabled: boolean;
+
+  /**
+   * Whether the user has confirmed their email address.
+   */
+  @ApiProperty({ description: 'Email address verified' })
+  emailVerified: boolean;
+
   /**
    * The timestamp when the user account was created.
    */
@@ -111,11 +123,13 @@ export class UserResponseDto {
     this.whatsappNumber = user.whatsappNumber;
     this.role = user.role;
     this.isActive = user.isActive;
+    this.twoFactorEnabled = !!user.totpEnabledAt;
+    this.emailVerified = !!user.emailVerifiedAt;
     this.createdAt = user.createdAt;
     this.updatedAt = user.updatedAt;
     this.inspectionBranchCity = user.inspectionBranchCity
       ? new UserInspectionBranchCityResponseDto(user.inspectionBranchCity)
       : null;
-    // Explicitly excluded: password, googleId
+    // Explicitly excluded: password, googleId, two-factor secrets
   }
 }
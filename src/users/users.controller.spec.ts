@@ -9,6 +9,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { LoginAttemptsService } from '../auth/login-attempts/login-attempts.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'; // Needed for mocking
 import { RolesGuard } from '../auth/guards/roles.guard'; // Needed for mocking
 import { Role, User } from '@prisma/client';
@@ -34,6 +35,13 @@ const mockUsersService = {
   setStatus: jest.fn(),
 };
 
+/**
+ * Mock object for LoginAttemptsService, used by the unlock endpoint.
+ */
+const mockLoginAttemptsService = {
+  unlock: jest.fn(),
+};
+
 /**
  * Mock implementation for JwtAuthGuard.
  * For unit tests, we typically assume the user is authenticated if the guard is applied.
@@ -75,6 +83,7 @@ describe('UsersController', () => {
       controllers: [UsersController], // The controller under test
       providers: [
         { provide: UsersService, useValue: mockUsersService }, // Provide the mock service
+        { provide: LoginAttemptsService, useValue: mockLoginAttemptsService },
         // Reflector is usually provided automatically by NestJS core when needed by guards/interceptors
       ],
     })
@@ -9,7 +9,8 @@
  * endpoints for retrieving, updating, creating, and deleting user accounts,
  * including specific endpoints for managing inspector users. All endpoints
  * within this controller are protected by JWT authentication and require
- * the ADMIN role for access.
+ * the ADMIN role for access; changes to existing users require the
+ * USERS_MANAGE permission instead, and are limited to the caller's branches.
  * --------------------------------------------------------------------------
  */
 
@@ -25,15 +26,23 @@ import {
   HttpCode,
   HttpStatus,
   NotFoundException,
+  ForbiddenException,
   Logger,
   Delete, // Add Delete
   Post, // Import Post
 } from '@nestjs/common';
 import { UsersService } from './users.service';
+import { LoginAttemptsService } from '../auth/login-attempts/login-attempts.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'; // JWT authentication
 import { RolesGuard } from '../auth/guards/roles.guard'; // Role-based authorization
 import { Roles } from '../auth/decorators/roles.decorator'; // Decorator to specify allowed roles
-import { Role } from '@prisma/client'; // Role enum
+import { Audit } from '../audit-logs/audit.decorator'; // Records privileged actions in the audit log
+import { AuditAction, AuditTargetType, Permission, Role } from '@prisma/client'; // Role enum
+import { PermissionsService } from '../permissions/permissions.service';
+import { PermissionsGuard } from '../permissions/guards/permissions.guard';
+import { RequirePermission } from '../permissions/decorators/require-permission.decorator';
+import { GetBranchScope } from '../permissions/decorators/get-branch-scope.decorator';
+import { BranchScope, isBranchInScope } from '../permissions/branch-scope';
 import {
   ApiTags,
   ApiBearerAuth,
@@ -45,6 +54,7 @@ import {
 import { UserResponseDto } from './dto/user-response.dto'; // DTO for API responses
 import { UpdateUserRoleDto } from './dto/update-user-role.dto'; // DTO for updating role
 import { CreateInspectorDto } from './dto/create-inspector.dto'; // Import CreateInspectorDto
+import { InviteInspectorDto } from './dto/invite-inspector.dto';
 import { InspectorResponseDto } from './dto/inspector-response.dto';
 import { GeneratePinResponseDto } from './dto/generate-pin-response.dto';
 import { UpdateUserDto } from './dto/update-user.dto'; // Import UpdateUserDto
@@ -60,7 +70,11 @@ import { SkipThrottle, Throttle, ThrottlerGuard } from '@nestjs/throttler';
 export class UsersController {
   private readonly logger = new Logger(UsersController.name);
 
-  constructor(private readonly usersService: UsersService) {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly loginAttempts: LoginAttemptsService,
+    private readonly permissions: PermissionsService,
+  ) {
     this.logger.log('UsersController initialized (Admin)');
   }
 
@@ -163,6 +177,7 @@ export class UsersController {
    * @returns {Promise<UserResponseDto>} The created user's profile.
    */
   @Post('admin-user')
+  @Audit(AuditAction.USER_CREATED, AuditTargetType.USER)
   @Throttle({ default: { limit: 60, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @Roles(Role.SUPERADMIN)
@@ -254,7 +269,7 @@ export class UsersController {
 
   /**
    * Updates the role of a specific user.
-   * Requires ADMIN role.
+   * Requires the USERS_MANAGE permission.
    *
    * @param id The UUID of the user.
    * @param updateUserRoleDto The DTO containing the new role.
@@ -262,14 +277,15 @@ export class UsersController {
    * @throws NotFoundException if the user with the specified ID is not found.
    */
   @Put(':id/role') // Using PUT as role is a specific resource attribute being replaced
+  @Audit(AuditAction.USER_ROLE_UPDATED, AuditTargetType.USER)
   @Throttle({ default: { limit: 60, ttl: 60000 } })
-  @UseGuards(ThrottlerGuard)
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @UseGuards(ThrottlerGuard, PermissionsGuard)
+  @RequirePermission(Permission.USERS_MANAGE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Update user role (Admin Only)',
     description:
-      'Updates the role of a specific user account using their unique UUID. This endpoint is restricted to users with the ADMIN role.',
+      'Updates the role of a specific user account using their unique UUID. Requires the USERS_MANAGE permission; branch-scoped admins can only update users of their branches.',
   })
   @ApiParam({
     name: 'id',
@@ -308,7 +324,9 @@ export class UsersController {
     @Body() updateUserRoleDto: UpdateUserRoleDto,
     @GetUser('id') actingUserId: string,
     @GetUser('role') actingUserRole: Role,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<UserResponseDto> {
+    await this.permissions.assertUserInBranchScope(id, branchScope);
     this.logger.log(
       `Admin request from user ${actingUserId} (${actingUserRole}) to update role for user ${id} to ${updateUserRoleDto.role}`,
     );
@@ -330,6 +348,7 @@ export class UsersController {
    * @returns {Promise<InspectorResponseDto>} The created inspector's profile, including the generated PIN.
    */
   @Post('inspector')
+  @Audit(AuditAction.USER_CREATED, AuditTargetType.USER)
   @Throttle({ default: { limit: 60, ttl: 60000 } })
   @UseGuards(ThrottlerGuard)
   @Roles(Role.ADMIN, Role.SUPERADMIN) // Only ADMINs can access this
@@ -365,6 +384,56 @@ export class UsersController {
     return new InspectorResponseDto(newUser, plainPin);
   }
 
+  /**
+   * Invites an inspector by email instead of creating the account directly.
+   * The account stays inactive until the invitee chooses a username and
+   * password from the link (POST /auth/invitations/accept).
+   *
+   * @param inviteInspectorDto - DTO containing the invitee's details.
+   * @param admin - The authenticated admin sending the invitation.
+   * @returns {Promise<UserResponseDto>} The pending inspector account.
+   */
+  @Post('inspector/invite')
+  @Audit(AuditAction.INSPECTOR_INVITED, AuditTargetType.USER)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard)
+  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Invite an inspector by email (Admin only)',
+    description:
+      'Creates an inactive inspector account and emails them a single-use link to choose their username and password. Their PIN is shown when they accept.',
+  })
+  @ApiBody({ type: InviteInspectorDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The invitation has been sent.',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or unknown inspection branch city.',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 409, description: 'Conflict (email exists).' })
+  @ApiResponse({
+    status: 500,
+    description: 'The invitation email could not be sent.',
+  })
+  async inviteInspector(
+    @Body() inviteInspectorDto: InviteInspectorDto,
+    @GetUser() admin: UserResponseDto,
+  ): Promise<UserResponseDto> {
+    this.logger.log(
+      `Admin ${admin.id} request to invite inspector: ${inviteInspectorDto.email}`,
+    );
+    const invitee = await this.usersService.inviteInspector(
+      inviteInspectorDto,
+      admin.name ?? admin.username ?? 'An administrator',
+    );
+    return new UserResponseDto(invitee);
+  }
+
   /**
    * Updates details for a specific user (including inspectors).
    * Requires ADMIN role.
@@ -376,14 +445,15 @@ export class UsersController {
    * @throws ConflictException if a user with the provided email, username, or wallet address already exists.
    */
   @Put(':id') // General PUT endpoint for user updates
+  @Audit(AuditAction.USER_UPDATED, AuditTargetType.USER)
   @Throttle({ default: { limit: 60, ttl: 60000 } })
-  @UseGuards(ThrottlerGuard)
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @UseGuards(ThrottlerGuard, PermissionsGuard)
+  @RequirePermission(Permission.USERS_MANAGE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Update user details (Admin Only)',
     description:
-      'Updates the details of an existing user account using their unique UUID. This endpoint is restricted to users with the ADMIN role.',
+      'Updates the details of an existing user account using their unique UUID. Requires the USERS_MANAGE permission; branch-scoped admins can only update users of their branches.',
   })
   @ApiParam({
     name: 'id',
@@ -422,7 +492,9 @@ export class UsersController {
   async updateUser(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateUserDto: UpdateUserDto,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<UserResponseDto> {
+    await this.permissions.assertUserInBranchScope(id, branchScope);
     this.logger.log(`Admin request: updateUser ID: ${id}`);
     const updatedUser = await this.usersService.updateUser(id, updateUserDto);
     return new UserResponseDto(updatedUser);
@@ -430,7 +502,7 @@ export class UsersController {
 
   /**
    * Updates details for a specific inspector.
-   * Requires ADMIN role.
+   * Requires the USERS_MANAGE permission.
    *
    * @param id The UUID of the user to update.
    * @param updateInspectorDto The DTO containing the updated inspector details.
@@ -439,14 +511,15 @@ export class UsersController {
    * @throws ConflictException if a user with the provided email or username already exists.
    */
   @Put('inspector/:id')
+  @Audit(AuditAction.USER_UPDATED, AuditTargetType.USER)
   @Throttle({ default: { limit: 60, ttl: 60000 } })
-  @UseGuards(ThrottlerGuard)
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @UseGuards(ThrottlerGuard, PermissionsGuard)
+  @RequirePermission(Permission.USERS_MANAGE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Update inspector details (Admin Only)',
     description:
-      'Updates the details of an existing inspector account using their unique UUID. This endpoint is restricted to users with the ADMIN role.',
+      'Updates the details of an existing inspector account using their unique UUID. Requires the USERS_MANAGE permission; branch-scoped admins can only update inspectors of their branches, and only move them to their branches.',
   })
   @ApiParam({
     name: 'id',
@@ -487,7 +560,17 @@ export class UsersController {
   async updateInspector(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateInspectorDto: UpdateInspectorDto,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<UserResponseDto> {
+    await this.permissions.assertUserInBranchScope(id, branchScope);
+    if (
+      updateInspectorDto.inspectionBranchCityId &&
+      !isBranchInScope(branchScope, updateInspectorDto.inspectionBranchCityId)
+    ) {
+      throw new ForbiddenException(
+        'Inspectors can only be moved to branches within your branch scope.',
+      );
+    }
     this.logger.log(`Admin request: updateInspector ID: ${id}`);
     const updatedUser = await this.usersService.updateInspector(
       id,
@@ -498,21 +581,22 @@ export class UsersController {
 
   /**
    * Generates a new PIN for a specific inspector.
-   * Requires ADMIN role.
+   * Requires the USERS_MANAGE permission.
    *
    * @param id The UUID of the inspector.
    * @returns A promise that resolves to the inspector's data and the new PIN.
    * @throws NotFoundException if the user with the specified ID is not found or is not an inspector.
    */
   @Post('inspector/:id/generate-pin')
+  @Audit(AuditAction.INSPECTOR_PIN_GENERATED, AuditTargetType.USER)
   @Throttle({ default: { limit: 60, ttl: 60000 } })
-  @UseGuards(ThrottlerGuard)
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @UseGuards(ThrottlerGuard, PermissionsGuard)
+  @RequirePermission(Permission.USERS_MANAGE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Generate a new PIN for an inspector (Admin Only)',
     description:
-      'Generates a new unique PIN for an existing inspector account. This endpoint is restricted to users with the ADMIN role.',
+      'Generates a new unique PIN for an existing inspector account. Requires the USERS_MANAGE permission; branch-scoped admins can only generate PINs for inspectors of their branches.',
   })
   @ApiParam({
     name: 'id',
@@ -540,29 +624,84 @@ export class UsersController {
   })
   async generatePin(
     @Param('id', ParseUUIDPipe) id: string,
+    @GetBranchScope() branchScope: BranchScope,
   ): Promise<GeneratePinResponseDto> {
+    await this.permissions.assertUserInBranchScope(id, branchScope);
     this.logger.log(`Admin request: generatePin for inspector ID: ${id}`);
     const { plainPin, ...user } = await this.usersService.generatePin(id);
     return new GeneratePinResponseDto(user, plainPin);
   }
 
+  /**
+   * Lifts the lockout of an account after too many failed password or PIN logins.
+   * Requires the USERS_MANAGE permission.
+   *
+   * @param id The UUID of the user.
+   * @returns A promise that resolves when the failures of the account are cleared.
+   * @throws NotFoundException if the user with the specified ID is not found.
+   */
+  @Post(':id/unlock-login')
+  @Audit(AuditAction.USER_LOGIN_UNLOCKED, AuditTargetType.USER)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @UseGuards(ThrottlerGuard, PermissionsGuard)
+  @RequirePermission(Permission.USERS_MANAGE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Unlock the login of a user (Admin Only)',
+    description:
+      'Clears the failed login attempts of an account and lifts its temporary lockout, so the user can log in with their password or PIN again. Lockouts of client IPs are not affected.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User UUID',
+    type: String,
+    format: 'uuid',
+    example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+  })
+  @ApiResponse({ status: 204, description: 'Login unlocked.' })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized. Authentication token is missing or invalid.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden. User does not have the necessary ADMIN role.',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User with the specified ID not found.',
+  })
+  async unlockLogin(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetBranchScope() branchScope: BranchScope,
+  ): Promise<void> {
+    await this.permissions.assertUserInBranchScope(id, branchScope);
+    this.logger.log(`Admin request: unlock login of user ${id}`);
+    const user = await this.usersService.findById(id);
+    if (!user) {
+      throw new NotFoundException(`User with ID "${id}" not found`);
+    }
+    await this.loginAttempts.unlock(id);
+  }
+
   /**
    * Deletes a user by ID.
-   * Requires ADMIN role.
+   * Requires the USERS_MANAGE permission.
    *
    * @param id The UUID of the user to delete.
    * @returns A promise that resolves when the user is successfully deleted.
    * @throws NotFoundException if the user with the specified ID is not found.
    */
   @Delete(':id') // DELETE endpoint for deleting users
+  @Audit(AuditAction.USER_DELETED, AuditTargetType.USER)
   @Throttle({ default: { limit: 60, ttl: 60000 } })
-  @UseGuards(ThrottlerGuard)
-  @Roles(Role.ADMIN, Role.SUPERADMIN)
+  @UseGuards(ThrottlerGuard, PermissionsGuard)
+  @RequirePermission(Permission.USERS_MANAGE)
   @HttpCode(HttpStatus.NO_CONTENT) // 204 No Content for successful DELETE
   @ApiOperation({
     summary: 'Delete a user (Admin Only) - Use with caution!',
     description:
-      'Deletes a user account using their unique UUID. This action is irreversible and restricted to users with the ADMIN role.',
+      'Deletes a user account using their unique UUID. This action is irreversible. Requires the USERS_MANAGE permission; branch-scoped admins can only delete users of their branches.',
   })
   @ApiParam({
     name: 'id',
@@ -584,7 +723,11 @@ export class UsersController {
     status: 404,
     description: 'User with the specified ID not found.',
   })
-  async deleteUser(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+  async deleteUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @GetBranchScope() branchScope: BranchScope,
+  ): Promise<void> {
+    await this.permissions.assertUserInBranchScope(id, branchScope);
     this.logger.warn(`Admin request: DELETE user ${id}`);
     await this.usersService.deleteUser(id);
   }
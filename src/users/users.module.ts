@@ -16,10 +16,16 @@ import { Module } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { LoginAttemptsModule } from '../auth/login-attempts/login-attempts.module';
+import { UserTokensModule } from '../auth/user-tokens/user-tokens.module';
+import { PermissionsModule } from '../permissions/permissions.module';
 
 @Module({
   imports: [
     PrismaModule,
+    LoginAttemptsModule, // Admin unlock of locked-out logins
+    UserTokensModule, // Invitation emails
+    PermissionsModule, // USERS_MANAGE permission and branch scoping of admins
     // Import AuthModule if guards here need it (often not needed directly)
     // forwardRef(() => AuthModule) // Use forwardRef if circular dependency exists
   ],
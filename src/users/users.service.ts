@@ -26,10 +26,13 @@ import { User, Role, Prisma } from '@prisma/client';
 import { RegisterUserDto } from '../auth/dto/register-user.dto'; // Import DTO for local registration
 import * as bcrypt from 'bcrypt'; // Import bcrypt for hashing
 import { v4 as uuidv4 } from 'uuid'; // Import uuid for generating unique IDs
+import { randomInt, randomUUID } from 'crypto';
 import { CreateInspectorDto } from './dto/create-inspector.dto'; // Import CreateInspectorDto
 import { UpdateInspectorDto } from './dto/update-inspector.dto';
 import { UpdateUserDto } from './dto/update-user.dto'; // Import UpdateUserDto
 import { CreateAdminDto } from './dto/create-admin.dto'; // Import CreateAdminDto
+import { InviteInspectorDto } from './dto/invite-inspector.dto';
+import { AccountEmailsService } from '../auth/user-tokens/account-emails.service';
 
 @Injectable()
 export class UsersService {
@@ -39,8 +42,12 @@ export class UsersService {
   /**
    * Constructs the UsersService and injects the PrismaService for database interactions.
    * @param {PrismaService} prisma - The Prisma database client service.
+   * @param {AccountEmailsService} accountEmails - Sends invitation emails.
    */
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private accountEmails: AccountEmailsService,
+  ) {}
 
   /**
    * Normalizes an email address to a standard format.
@@ -742,23 +749,8 @@ export class UsersService {
     }
 
     // 2. Generate a unique PIN
-    let plainPin: string;
-    let isPinUnique = false;
-    do {
-      plainPin = Math.floor(100000 + Math.random() * 900000).toString();
-      const existingUserWithPin = await this.findByPin(plainPin);
-      if (!existingUserWithPin) {
-        isPinUnique = true;
-      } else {
-        this.logger.warn(
-          `Generated PIN ${plainPin} already exists. Retrying...`,
-        );
-      }
-    } while (!isPinUnique);
-
-    this.logger.log(
-      `Generated unique PIN: ${plainPin} for ${createInspectorDto.username}`,
-    );
+    const plainPin = await this.generateUniquePin();
+    this.logger.log(`Generated unique PIN for ${createInspectorDto.username}`);
 
     // 3. Hash the unique PIN
     let hashedPin: string;
@@ -845,6 +837,197 @@ export class UsersService {
     }
   }
 
+  /**
+   * Invites an inspector by email. The account is created inactive, without
+   * username, password or PIN; the invitee sets them from the invitation link
+   * (see acceptInvitation).
+   *
+   * @param {InviteInspectorDto} inviteInspectorDto - DTO containing the invitee's data.
+   * @param {string} invitedBy - Name of the admin sending the invitation (shown in the email).
+   * @returns {Promise<User>} The pending inspector account.
+   * @throws {ConflictException} If the email already exists.
+   * @throws {BadRequestException} If the inspection branch city does not exist.
+   * @throws {InternalServerErrorException} If the account cannot be created or the email cannot be sent.
+   */
+  async inviteInspector(
+    inviteInspectorDto: InviteInspectorDto,
+    invitedBy: string,
+  ): Promise<User> {
+    this.logger.log(
+      `Attempting to invite inspector with email: ${inviteInspectorDto.email}`,
+    );
+
+    const existingByEmail = await this.findByEmail(inviteInspectorDto.email);
+    if (existingByEmail) {
+      this.logger.warn(
+        `Inspector invitation failed: Email ${inviteInspectorDto.email} already exists.`,
+      );
+      throw new ConflictException('Email address is already registered.');
+    }
+
+    const branchCity = await this.prisma.inspectionBranchCity.findUnique({
+      where: { id: inviteInspectorDto.inspectionBranchCityId },
+    });
+    if (!branchCity) {
+      throw new BadRequestException(
+        `Inspection branch city with ID "${inviteInspectorDto.inspectionBranchCityId}" not found.`,
+      );
+    }
+
+    let invitee: User;
+    try {
+      invitee = await this.prisma.user.create({
+        data: {
+          id: randomUUID(),
+          email: inviteInspectorDto.email.toLowerCase(),
+          name: inviteInspectorDto.name,
+          whatsappNumber: inviteInspectorDto.whatsappNumber,
+          role: Role.INSPECTOR,
+          isActive: false, // Activated when the invitation is accepted
+          inspectionBranchCityId: inviteInspectorDto.inspectionBranchCityId,
+        },
+        include: {
+          inspectionBranchCity: true,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('Email address is already registered.');
+      }
+      this.logger.error(
+        `Database error during inspector invitation for ${inviteInspectorDto.email}: ${String(error)}`,
+      );
+      throw new InternalServerErrorException('Could not invite inspector.');
+    }
+
+    try {
+      await this.accountEmails.sendInvitation(
+        { ...invitee, email: inviteInspectorDto.email },
+        invitedBy,
+      );
+    } catch (error) {
+      // Without the email the account could never be activated
+      this.logger.error(
+        `Failed to send invitation to ${inviteInspectorDto.email}: ${String(error)}`,
+      );
+      await this.prisma.user.delete({ where: { id: invitee.id } });
+      throw new InternalServerErrorException(
+        'Could not send the invitation email. Please try again.',
+      );
+    }
+
+    this.logger.log(`Invited inspector user: ${invitee.id}`);
+    return invitee;
+  }
+
+  /**
+   * Activates an invited inspector with the chosen credentials and generates
+   * their PIN, which is returned once like on direct creation.
+   *
+   * @param {string} userId - The UUID of the invited user (from the invitation token).
+   * @param {string} username - The chosen username.
+   * @param {string} password - The chosen password (plaintext).
+   * @returns {Promise<User & { plainPin: string }>} The activated inspector and their plaintext PIN.
+   * @throws {BadRequestException} If the invitation was already accepted.
+   * @throws {ConflictException} If the username is already taken.
+   */
+  async acceptInvitation(
+    userId: string,
+    username: string,
+    password: string,
+  ): Promise<User & { plainPin: string }> {
+    const user = await this.findById(userId);
+    if (
+      !user ||
+      user.role !== Role.INSPECTOR ||
+      user.isActive ||
+      user.password
+    ) {
+      throw new BadRequestException('Invitation has already been accepted.');
+    }
+    const existingByUsername = await this.findByUsername(username);
+    if (existingByUsername) {
+      throw new ConflictException('Username is already taken.');
+    }
+
+    const plainPin = await this.generateUniquePin();
+    try {
+      const activated = await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          username,
+          password: await bcrypt.hash(password, this.saltRounds),
+          pin: await bcrypt.hash(plainPin, this.saltRounds),
+          isActive: true,
+          emailVerifiedAt: new Date(), // The link was received at this address
+        },
+        include: {
+          inspectionBranchCity: true,
+        },
+      });
+      this.logger.log(`User ${userId} accepted their invitation`);
+      return { ...activated, plainPin };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('Username is already taken.');
+      }
+      this.logger.error(
+        `Database error while accepting invitation of user ${userId}: ${String(error)}`,
+      );
+      throw new InternalServerErrorException('Could not accept invitation.');
+    }
+  }
+
+  /**
+   * Sets a new password (password reset). Issued access tokens and refresh
+   * sessions stop working, so a stolen session cannot outlive the reset.
+   *
+   * @param {string} userId - The UUID of the user.
+   * @param {string} password - The new password (plaintext).
+   * @throws {NotFoundException} If the user does not exist.
+   */
+  async resetPassword(userId: string, password: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(password, this.saltRounds);
+    try {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          password: hashedPassword,
+          tokenVersion: { increment: 1 },
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new NotFoundException(`User with ID "${userId}" not found.`);
+      }
+      throw error;
+    }
+    await this.revokeSessions(userId);
+    this.logger.log(`Password reset for user ID: ${userId}`);
+  }
+
+  /**
+   * Marks the email address of a user as verified.
+   *
+   * @param {string} userId - The UUID of the user.
+   * @returns {Promise<User>} The updated user.
+   */
+  async markEmailVerified(userId: string): Promise<User> {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
+
   /**
    * Finds all users with the 'INSPECTOR' role. Primarily for admin use.
    *
@@ -879,7 +1062,8 @@ export class UsersService {
 
   /**
    * Updates details for a specific user. Requires ADMIN privileges (checked in Controller).
-   * Allows updating email, username, name, and walletAddress.
+   * Allows updating email, username, name, walletAddress, PIN and the active flag.
+   * Deactivating the user invalidates all their tokens.
    *
    * @param {string} id - The UUID of the user.
    * @param {UpdateUserDto} updateUserDto - DTO containing update data.
@@ -896,7 +1080,11 @@ export class UsersService {
       username: updateUserDto.username,
       name: updateUserDto.name,
       walletAddress: updateUserDto.walletAddress,
-      refreshToken: updateUserDto.refreshToken,
+      isActive: updateUserDto.isActive,
+      // A new token version makes JwtStrategy reject every token issued so far
+      ...(updateUserDto.isActive === false && {
+        tokenVersion: { increment: 1 },
+      }),
     };
 
     if (updateUserDto.pin) {
@@ -908,6 +1096,9 @@ export class UsersService {
         where: { id: id },
         data,
       });
+      if (updateUserDto.isActive === false) {
+        await this.revokeSessions(id);
+      }
       this.logger.log(`Successfully updated user ID: ${id}`);
       return updatedUser;
     } catch (error) {
@@ -964,6 +1155,7 @@ export class UsersService {
   /**
    * Updates details for a specific inspector. Requires ADMIN privileges.
    * Allows updating username, email, walletAddress, and PIN.
+   * Deactivating the inspector invalidates all their tokens.
    *
    * @param {string} id - The UUID of the inspector.
    * @param {UpdateInspectorDto} updateInspectorDto - DTO containing update data.
@@ -992,6 +1184,10 @@ export class UsersService {
       walletAddress: updateInspectorDto.walletAddress,
       whatsappNumber: updateInspectorDto.whatsappNumber,
       isActive: updateInspectorDto.isActive,
+      // A new token version makes JwtStrategy reject every token issued so far
+      ...(updateInspectorDto.isActive === false && {
+        tokenVersion: { increment: 1 },
+      }),
     };
 
     if (updateInspectorDto.inspectionBranchCityId) {
@@ -1016,6 +1212,9 @@ export class UsersService {
           inspectionBranchCity: true,
         },
       });
+      if (updateInspectorDto.isActive === false) {
+        await this.revokeSessions(id);
+      }
       this.logger.log(`Successfully updated inspector ID: ${id}`);
       return updatedUser;
     } catch (error) {
@@ -1080,21 +1279,8 @@ export class UsersService {
     }
 
     // Generate a unique PIN
-    let plainPin: string;
-    let isPinUnique = false;
-    do {
-      plainPin = Math.floor(100000 + Math.random() * 900000).toString();
-      const existingUserWithPin = await this.findByPin(plainPin);
-      if (!existingUserWithPin) {
-        isPinUnique = true;
-      } else {
-        this.logger.warn(
-          `Generated PIN ${plainPin} already exists. Retrying...`,
-        );
-      }
-    } while (!isPinUnique);
-
-    this.logger.log(`Generated unique PIN: ${plainPin} for ${user.username}`);
+    const plainPin = await this.generateUniquePin();
+    this.logger.log(`Generated unique PIN for ${user.username}`);
 
     // Hash the unique PIN
     let hashedPin: string;
@@ -1195,6 +1381,21 @@ export class UsersService {
     }
   }
 
+  /**
+   * Generates a 6-digit PIN not used by any other inspector. Digits come from
+   * a cryptographically secure source; the short length is kept for the
+   * inspector app, and brute force is limited by LoginAttemptsService.
+   *
+   * @returns {Promise<string>} The plaintext PIN.
+   */
+  private async generateUniquePin(): Promise<string> {
+    for (;;) {
+      const pin = randomInt(100000, 1000000).toString();
+      if (!(await this.findByPin(pin))) return pin;
+      this.logger.warn('Generated PIN already in use. Retrying...');
+    }
+  }
+
   /**
    * Finds an inspector by their PIN.
    * This method fetches all inspectors and then uses bcrypt.compare to find the matching PIN.
@@ -1333,4 +1534,18 @@ export class UsersService {
       );
     }
   }
+
+  /**
+   * Revokes the refresh sessions of a user (deactivation, password reset), so
+   * none of their devices can obtain new tokens.
+   *
+   * @param {string} userId - The UUID of the user.
+   */
+  private async revokeSessions(userId: string): Promise<void> {
+    const { count } = await this.prisma.refreshSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    this.logger.log(`Revoked ${count} session(s) of user ID: ${userId}`);
+  }
 }